@@ -18,6 +18,7 @@ import {
   useUIStore,
 } from './store';
 import { useUrlLoader } from './hooks/useUrlLoader';
+import { useEmbedApi } from './hooks/useEmbedApi';
 import { decodeShareData, applyShareConfig } from './hooks/useUrlState';
 import { detectTouchDevice } from './hooks/useIsTouchDevice';
 import { TOUCH_BREAKPOINTS } from './theme/sizing';
@@ -48,6 +49,7 @@ if (initStoreMigration()) {
 function App() {
   const { loadFromUrl, loadFromManifest } = useUrlLoader();
   const hasCheckedUrl = useRef(false);
+  useEmbedApi({ loadFromUrl, loadFromManifest });
 
   // Check for URL parameter on mount
   useEffect(() => {
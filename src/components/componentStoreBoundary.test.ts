@@ -10,6 +10,7 @@ const DOCUMENTED_STORE_BOUNDARY_CALLERS = new Set([
   'src/dataset/index.ts',
   'src/hooks/useAlignmentMode.ts',
   'src/hooks/useFileDropzone.ts',
+  'src/hooks/useHotkeyBindings.ts',
   'src/hooks/useHotkeyScope.ts',
   'src/hooks/useImageSelection.ts',
   'src/hooks/useUrlLoader.ts',
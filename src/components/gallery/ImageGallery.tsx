@@ -52,6 +52,7 @@ export function ImageGallery({ isResizing = false }: ImageGalleryProps) {
     showMatches,
     showSplatMetricBorder,
     showSplatMetrics,
+    showSplatPsnrDelta,
     sortDirection,
     sortField,
     thumbnailDisplayMode,
@@ -172,6 +173,7 @@ export function ImageGallery({ isResizing = false }: ImageGalleryProps) {
             sortField={sortField}
             showSplatMetricBorder={showSplatMetricBorder}
             showSplatMetricSort={showSplatMetrics}
+            showSplatDeltaSort={showSplatPsnrDelta}
             thumbnailDisplayMode={thumbnailDisplayMode}
             touchMode={touchMode}
             viewMode={viewMode}
@@ -37,6 +37,8 @@ interface ImageGalleryToolbarProps {
   sortField: SortField;
   showSplatMetricBorder: boolean;
   showSplatMetricSort: boolean;
+  /** A measured comparison splat adds the PSNR delta sort. */
+  showSplatDeltaSort?: boolean;
   thumbnailDisplayMode: GalleryThumbnailDisplayMode;
   touchMode: boolean;
   viewMode: ViewMode;
@@ -64,6 +66,7 @@ export function ImageGalleryToolbar({
   sortField,
   showSplatMetricBorder,
   showSplatMetricSort,
+  showSplatDeltaSort = false,
   thumbnailDisplayMode,
   touchMode,
   viewMode,
@@ -74,7 +77,7 @@ export function ImageGalleryToolbar({
   onThumbnailDisplayModeChange,
   onViewModeChange,
 }: ImageGalleryToolbarProps) {
-  const sortFieldOptions = getGallerySortFieldOptions(showSplatMetricSort);
+  const sortFieldOptions = getGallerySortFieldOptions(showSplatMetricSort, showSplatDeltaSort);
   const borderColorModeOptions = getGalleryBorderColorOptions(showSplatMetricBorder);
   const toolbarSelectClass = `${inputStyles.select} ${inputStyles.sizes.sm} image-gallery-toolbar__select`;
 
@@ -106,7 +109,11 @@ export function ImageGalleryToolbar({
           aria-label="Sort field"
           value={sortField}
           onChange={(e) => {
-            const nextSortField = getGallerySortFieldValue(e.target.value, showSplatMetricSort);
+            const nextSortField = getGallerySortFieldValue(
+              e.target.value,
+              showSplatMetricSort,
+              showSplatDeltaSort
+            );
             if (nextSortField !== null) {
               onSortFieldChange(nextSortField);
             }
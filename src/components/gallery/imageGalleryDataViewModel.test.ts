@@ -132,6 +132,35 @@ describe('image gallery data view-model', () => {
     expect(images.map(image => image.name)).toEqual(['best.jpg', 'ok.jpg', 'missing.jpg']);
   });
 
+  it('sorts PSNR deltas ascending with ties between infinite deltas and missing deltas last', () => {
+    const camera = buildCamera();
+    const worse = buildImage({ imageId: 1, cameraId: camera.cameraId, name: 'worse.jpg' });
+    const exactA = buildImage({ imageId: 2, cameraId: camera.cameraId, name: 'exact-a.jpg' });
+    const exactB = buildImage({ imageId: 3, cameraId: camera.cameraId, name: 'exact-b.jpg' });
+    const missing = buildImage({ imageId: 4, cameraId: camera.cameraId, name: 'missing.jpg' });
+    const reconstruction = buildReconstruction({
+      cameras: [camera],
+      images: [missing, exactA, worse, exactB],
+    });
+
+    const images = buildGalleryImages({
+      reconstruction,
+      imageSource: { getImageSync: () => undefined },
+      splatPsnrByImage: new Map([
+        [worse.imageId, { psnr: 25, psnrDelta: -1.5 }],
+        [exactA.imageId, { psnr: Infinity, psnrDelta: Infinity }],
+        [exactB.imageId, { psnr: Infinity, psnrDelta: Infinity }],
+        [missing.imageId, { psnr: 20 }],
+      ]),
+      cameraFilter: 'all',
+      sortField: 'splatPsnrDelta',
+      sortDirection: 'asc',
+    });
+
+    expect(images.map(image => image.name)).toEqual(['worse.jpg', 'exact-a.jpg', 'exact-b.jpg', 'missing.jpg']);
+    expect(images[0].splatPsnrDelta).toBe(-1.5);
+  });
+
   it('derives camera options sorted by camera ID', () => {
     const camera2 = buildCamera({ cameraId: 2 });
     const camera1 = buildCamera({ cameraId: 1 });
@@ -37,6 +37,8 @@ export interface ImageData {
   avgError: number;
   splatPsnr?: number;
   splatSsim?: number;
+  /** PSNR_A − PSNR_B against the comparison splat. */
+  splatPsnrDelta?: number;
 }
 
 interface GalleryImageSource {
@@ -47,7 +49,7 @@ interface GalleryImageSource {
 interface BuildGalleryImagesOptions {
   reconstruction: Reconstruction | null;
   imageSource: GalleryImageSource;
-  splatPsnrByImage?: ReadonlyMap<number, { psnr: number; ssim?: number }>;
+  splatPsnrByImage?: ReadonlyMap<number, { psnr: number; ssim?: number; psnrDelta?: number }>;
   cameraFilter: CameraFilter;
   sortField: SortField;
   sortDirection: SortDirection;
@@ -106,6 +108,7 @@ export function buildGalleryImages({
         avgError: stats?.avgError ?? 0,
         splatPsnr: splatPsnrByImage?.get(img.imageId)?.psnr,
         splatSsim: splatPsnrByImage?.get(img.imageId)?.ssim,
+        splatPsnrDelta: splatPsnrByImage?.get(img.imageId)?.psnrDelta,
       };
     });
 
@@ -114,7 +117,7 @@ export function buildGalleryImages({
     if (sortField === 'name') {
       return sortMultiplier * a.name.localeCompare(b.name);
     }
-    if (sortField === 'splatPsnr' || sortField === 'splatSsim') {
+    if (sortField === 'splatPsnr' || sortField === 'splatSsim' || sortField === 'splatPsnrDelta') {
       const aMetric = a[sortField];
       const bMetric = b[sortField];
       if (aMetric === undefined && bMetric === undefined) return 0;
@@ -124,6 +127,8 @@ export function buildGalleryImages({
     const aValue = a[sortField];
     const bValue = b[sortField];
     if (typeof aValue !== 'number' || typeof bValue !== 'number') return 0;
+    // Two pixel-exact renders (or two infinite deltas) tie instead of giving NaN.
+    if (aValue === bValue) return 0;
     return sortMultiplier * (aValue - bValue);
   });
 
@@ -44,6 +44,11 @@ describe('image gallery toolbar view model', () => {
       'splatPsnr',
       'splatSsim',
     ]);
+    expect(getGallerySortFieldOptions(true, true).at(-1)).toEqual({
+      value: 'splatPsnrDelta',
+      label: 'Sort: Δ PSNR (A − B)',
+    });
+    expect(getGallerySortFieldOptions(false, true).map(option => option.value)).not.toContain('splatPsnrDelta');
   });
 
   it('narrows raw select values to supported sort fields', () => {
@@ -51,6 +56,8 @@ describe('image gallery toolbar view model', () => {
     expect(getGallerySortFieldValue('splatPsnr')).toBeNull();
     expect(getGallerySortFieldValue('splatSsim')).toBeNull();
     expect(getGallerySortFieldValue('splatPsnr', true)).toBe('splatPsnr');
+    expect(getGallerySortFieldValue('splatPsnrDelta', true)).toBeNull();
+    expect(getGallerySortFieldValue('splatPsnrDelta', true, true)).toBe('splatPsnrDelta');
     expect(getGallerySortFieldValue('splatSsim', true)).toBe('splatSsim');
     expect(getGallerySortFieldValue('unknown')).toBeNull();
   });
@@ -57,15 +57,29 @@ const SPLAT_SSIM_SORT_FIELD_OPTION: GallerySortFieldOption = {
   label: 'Sort: SSIM',
 };
 
-export function getGallerySortFieldOptions(hasSplatMetrics: boolean): GallerySortFieldOption[] {
+const SPLAT_PSNR_DELTA_SORT_FIELD_OPTION: GallerySortFieldOption = {
+  value: 'splatPsnrDelta',
+  label: 'Sort: Δ PSNR (A − B)',
+};
+
+export function getGallerySortFieldOptions(
+  hasSplatMetrics: boolean,
+  hasSplatPsnrDelta = false
+): GallerySortFieldOption[] {
   return [
     ...GALLERY_SORT_FIELD_OPTIONS,
     ...(hasSplatMetrics ? [SPLAT_PSNR_SORT_FIELD_OPTION, SPLAT_SSIM_SORT_FIELD_OPTION] : []),
+    ...(hasSplatMetrics && hasSplatPsnrDelta ? [SPLAT_PSNR_DELTA_SORT_FIELD_OPTION] : []),
   ];
 }
 
-export function getGallerySortFieldValue(value: string, hasSplatMetrics = false): SortField | null {
-  return getGallerySortFieldOptions(hasSplatMetrics).find(option => option.value === value)?.value ?? null;
+export function getGallerySortFieldValue(
+  value: string,
+  hasSplatMetrics = false,
+  hasSplatPsnrDelta = false
+): SortField | null {
+  return getGallerySortFieldOptions(hasSplatMetrics, hasSplatPsnrDelta)
+    .find(option => option.value === value)?.value ?? null;
 }
 
 export function getGalleryThumbnailDisplayModeValue(value: string): GalleryThumbnailDisplayMode | null {
@@ -6,9 +6,11 @@ import {
   useImageMetricsStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useUIStore,
   type CameraState,
   type DeletionState,
+  type SplatComparisonState,
   type UIState,
 } from '../../store';
 import { shouldExposeSplatMetricVisualizations } from '../../utils/splatBackendPolicy';
@@ -36,6 +38,8 @@ interface ImageGalleryDataFacade {
   splatMetricVisualizationsAvailable: boolean;
   splatPsnrFrameReady: ReturnType<typeof useImageMetricsStore.getState>['splatPsnrFrameReady'];
   splatPsnrByImage: ReturnType<typeof useImageMetricsStore.getState>['splatPsnrMetrics'];
+  /** Metrics of the comparison splat (B), empty when nothing is compared. */
+  splatComparisonMetrics: SplatComparisonState['metrics'];
   activeSplatFile?: File;
   selectedImageId: CameraState['selectedImageId'];
   currentViewState: CameraState['currentViewState'];
@@ -104,6 +108,7 @@ export function useImageGalleryStoreFacade(): ImageGalleryStoreFacade {
   const splatMetricCapability = useSplatBackendStore((s) => s.metricCapability);
   const splatPsnrFrameReady = useImageMetricsStore((s) => s.splatPsnrFrameReady);
   const splatPsnrByImage = useImageMetricsStore((s) => s.splatPsnrMetrics);
+  const splatComparisonMetrics = useSplatComparisonStore((s) => s.metrics);
   const splatMetricVisualizationsAvailable = shouldExposeSplatMetricVisualizations({
     activeSplatFile,
     hasMetricCapableCamera,
@@ -143,6 +148,7 @@ export function useImageGalleryStoreFacade(): ImageGalleryStoreFacade {
       splatMetricVisualizationsAvailable,
       splatPsnrFrameReady,
       splatPsnrByImage,
+      splatComparisonMetrics,
       activeSplatFile,
       selectedImageId,
       currentViewState,
@@ -14,6 +14,7 @@ import {
   useImageMetricsStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useUIStore,
 } from '../../store';
 import type { CameraViewState } from '../../store/types';
@@ -22,6 +23,7 @@ afterEach(() => {
   useReconstructionStore.getState().clear();
   useImageMetricsStore.setState(useImageMetricsStore.getInitialState(), true);
   useSplatBackendStore.setState(useSplatBackendStore.getInitialState(), true);
+  useSplatComparisonStore.getState().reset();
   useCameraStore.setState({
     currentViewState: null,
     flyToImageId: null,
@@ -56,9 +58,13 @@ describe('useImageGalleryViewModel', () => {
     useSplatBackendStore.getState().setWebGpuMetricState('ready');
   }
 
-  function setSparkSplatBackendActive() {
+  // Auto mode draws with Spark while WebGPU comes up; forced Spark (or a failed
+  // WebGPU) would measure through the CPU fallback instead.
+  function setSparkSplatBackendPlaceholder() {
     useSplatBackendStore.getState().setSparkBackendAvailable(true);
-    useSplatBackendStore.getState().setRequestedBackend('spark');
+    useSplatBackendStore.getState().setRequestedBackend('auto');
+    useSplatBackendStore.getState().setWebGpuBackendState('unavailable');
+    useSplatBackendStore.getState().setWebGpuMetricState('unavailable');
   }
 
   it('resets stale camera filters when the reconstruction changes', () => {
@@ -276,7 +282,46 @@ describe('useImageGalleryViewModel', () => {
     unmount();
   });
 
-  it('hides stale splat metric gallery paths while Spark is active', () => {
+  it('sorts by the PSNR delta only once the comparison splat has metrics', () => {
+    const camera = buildCamera({ cameraId: 1 });
+    const a = buildImage({ imageId: 10, cameraId: camera.cameraId, name: 'a.jpg' });
+    const b = buildImage({ imageId: 20, cameraId: camera.cameraId, name: 'b.jpg' });
+    const splatFile = buildFile('scene.spz', 'splat');
+    const metric = { mse: 4, validPixelCount: 100, width: 10, height: 10, computedAt: 1 };
+
+    act(() => {
+      setWebGpuSplatMetricsReady();
+      useReconstructionStore.getState().setReconstruction(buildReconstruction({ cameras: [camera], images: [a, b] }));
+      useReconstructionStore.getState().setLoadedFiles(buildLoadedFiles({ splatFile }));
+      useUIStore.setState({ gallerySortField: 'splatPsnrDelta', gallerySortDirection: 'desc' });
+      useImageMetricsStore.setState({ splatPsnrFrameReady: true });
+      useImageMetricsStore.getState().setSplatPsnrMetrics([
+        { ...metric, imageId: a.imageId, psnr: 30 },
+        { ...metric, imageId: b.imageId, psnr: 28 },
+      ]);
+    });
+
+    const { result, unmount } = renderHook(() => useImageGalleryViewModel());
+
+    expect(result.current.showSplatPsnrDelta).toBe(false);
+    expect(result.current.sortField).toBe('name');
+
+    act(() => {
+      useSplatComparisonStore.getState().setMetric({ ...metric, imageId: a.imageId, psnr: 31 });
+      useSplatComparisonStore.getState().setMetric({ ...metric, imageId: b.imageId, psnr: 25 });
+    });
+
+    expect(result.current.showSplatPsnrDelta).toBe(true);
+    expect(result.current.sortField).toBe('splatPsnrDelta');
+    expect(result.current.images.map((image) => [image.name, image.splatPsnrDelta])).toEqual([
+      ['b.jpg', 3],
+      ['a.jpg', -1],
+    ]);
+
+    unmount();
+  });
+
+  it('hides stale splat metric gallery paths while Spark stands in for WebGPU', () => {
     const camera = buildCamera({ cameraId: 1 });
     const image = buildImage({ imageId: 10, cameraId: camera.cameraId, name: 'a.jpg' });
     const reconstruction = buildReconstruction({
@@ -286,7 +331,7 @@ describe('useImageGalleryViewModel', () => {
     const splatFile = buildFile('scene.spz', 'splat');
 
     act(() => {
-      setSparkSplatBackendActive();
+      setSparkSplatBackendPlaceholder();
       useReconstructionStore.getState().setReconstruction(reconstruction);
       useReconstructionStore.getState().setLoadedFiles(buildLoadedFiles({ splatFile }));
       useUIStore.setState({
@@ -2,6 +2,7 @@ import { useCallback, useMemo, useState } from 'react';
 import { prioritizeFrustumTexture } from '../../hooks/useFrustumTexture';
 import { COLUMNS } from '../../theme';
 import { parseSafeIntegerString } from '../../utils/numberParsing';
+import { buildSplatPsnrDeltaMetrics } from '../../utils/splatComparisonPolicy';
 import { shouldHideChromeWithButtons } from '../layout/autoHideChromePolicy';
 import { useImageGalleryStoreFacade } from './useImageGalleryStoreFacade';
 import { useImageGalleryThumbnailSettling } from './useImageGalleryThumbnailSettling';
@@ -102,6 +103,7 @@ export function useImageGalleryViewModel() {
       splatMetricVisualizationsAvailable,
       splatPsnrFrameReady,
       splatPsnrByImage,
+      splatComparisonMetrics,
       selectedImageId,
       currentViewState,
       navigationHistory,
@@ -143,8 +145,16 @@ export function useImageGalleryViewModel() {
   const showSplatMetrics = splatMetricVisualizationsAvailable
     && splatPsnrFrameReady
     && splatPsnrByImage.size > 0;
+  const showSplatPsnrDelta = showSplatMetrics && splatComparisonMetrics.size > 0;
   const isSplatMetricSort = gallerySortField === 'splatPsnr' || gallerySortField === 'splatSsim';
-  const effectiveSortField = showSplatMetrics || !isSplatMetricSort ? gallerySortField : 'name';
+  const isSplatPsnrDeltaSort = gallerySortField === 'splatPsnrDelta';
+  const effectiveSortField = (isSplatMetricSort && !showSplatMetrics) || (isSplatPsnrDeltaSort && !showSplatPsnrDelta)
+    ? 'name'
+    : gallerySortField;
+  const gallerySplatMetrics = useMemo(
+    () => showSplatPsnrDelta ? buildSplatPsnrDeltaMetrics(splatPsnrByImage, splatComparisonMetrics) : splatPsnrByImage,
+    [showSplatPsnrDelta, splatPsnrByImage, splatComparisonMetrics]
+  );
 
   const setViewMode = useCallback((nextViewMode: ViewMode) => {
     setGalleryViewMode(nextViewMode);
@@ -260,7 +270,7 @@ export function useImageGalleryViewModel() {
         getImageSync: (imageName) => dataset.getImageSync(imageName),
         getMaskSync: (imageName) => dataset.getMaskSync(imageName),
       },
-      splatPsnrByImage: showSplatMetrics ? splatPsnrByImage : undefined,
+      splatPsnrByImage: showSplatMetrics ? gallerySplatMetrics : undefined,
       cameraFilter,
       sortField: effectiveSortField,
       sortDirection: gallerySortDirection,
@@ -270,7 +280,7 @@ export function useImageGalleryViewModel() {
     dataset,
     hasMasks,
     showSplatMetrics,
-    splatPsnrByImage,
+    gallerySplatMetrics,
     cameraFilter,
     effectiveSortField,
     gallerySortDirection,
@@ -323,6 +333,7 @@ export function useImageGalleryViewModel() {
     hideToolbar: false,
     showSplatMetricBorder,
     showSplatMetrics,
+    showSplatPsnrDelta,
     showMatches,
     sortDirection: gallerySortDirection,
     sortField: effectiveSortField,
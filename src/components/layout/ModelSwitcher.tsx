@@ -0,0 +1,49 @@
+import { useMemo } from 'react';
+import { getModelSwitcherItems, shouldShowModelSwitcher } from './modelSwitcherViewModel';
+import { useModelSwitcherStoreFacade } from './useModelSwitcherStoreFacade';
+
+/** Status bar row for multi-model loads: switch the active model, toggle and tint the others. */
+export function ModelSwitcher() {
+  const {
+    data: { models, activeModelId },
+    actions: { activateModel, setModelVisible, setModelTint },
+  } = useModelSwitcherStoreFacade();
+  const items = useMemo(() => getModelSwitcherItems(models, activeModelId), [models, activeModelId]);
+
+  if (!shouldShowModelSwitcher(models)) return null;
+
+  return (
+    <div className="flex items-center gap-3" role="group" aria-label="Models">
+      {items.map((item) => (
+        <span key={item.id} className="flex items-center gap-1 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={item.isActive || item.visible}
+            disabled={item.isActive}
+            onChange={(event) => setModelVisible(item.id, event.target.checked)}
+            aria-label={`Show ${item.label}`}
+            data-tooltip={item.isActive ? 'Active model' : 'Overlay this model'}
+            data-tooltip-pos="top"
+          />
+          <input
+            type="color"
+            value={item.tint}
+            onChange={(event) => setModelTint(item.id, event.target.value)}
+            aria-label={`Tint ${item.label}`}
+            className="w-3 h-3 p-0 border-0 bg-transparent cursor-pointer"
+          />
+          <button
+            type="button"
+            onClick={() => activateModel(item.id)}
+            className={item.isActive ? 'text-ds-primary font-medium' : 'text-ds-secondary hover-ds-text-primary'}
+            title={item.title}
+            aria-pressed={item.isActive}
+          >
+            {item.label}
+          </button>
+          <span className="text-ds-tertiary">{item.statsLabel}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
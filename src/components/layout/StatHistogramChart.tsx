@@ -0,0 +1,83 @@
+import { CHART_COLORS } from '../../theme';
+import type { HistogramBin } from './StatHistogramTooltip';
+import {
+  STAT_HISTOGRAM_CHART_HEIGHT,
+  STAT_HISTOGRAM_CHART_WIDTH,
+  STAT_HISTOGRAM_SVG_HEIGHT,
+  STAT_HISTOGRAM_TOP_PADDING,
+  getStatHistogramBarLayout,
+  getStatHistogramBarWidth,
+  getStatHistogramMaxPercentage,
+} from './statHistogramViewModel';
+
+export interface StatHistogramChartProps {
+  bins: HistogramBin[];
+  className?: string;
+}
+
+/** SVG bar chart shared by the status-bar tooltips and inline distribution views. */
+export function StatHistogramChart({ bins, className }: StatHistogramChartProps) {
+  // Find max percentage for scaling bars
+  const maxPercentage = getStatHistogramMaxPercentage(bins);
+  const barWidth = getStatHistogramBarWidth(bins.length);
+
+  return (
+    <svg
+      width={STAT_HISTOGRAM_CHART_WIDTH}
+      height={STAT_HISTOGRAM_SVG_HEIGHT}
+      className={className}
+    >
+      {/* Bars */}
+      {bins.map((bin, i) => {
+        const layout = getStatHistogramBarLayout(bin, i, maxPercentage, barWidth);
+
+        return (
+          <g key={bin.label}>
+            {/* Bar background for visibility */}
+            <rect
+              x={layout.x}
+              y={STAT_HISTOGRAM_TOP_PADDING}
+              width={barWidth}
+              height={STAT_HISTOGRAM_CHART_HEIGHT}
+              fill={CHART_COLORS.barBackground}
+              rx={3}
+            />
+            {/* Bar */}
+            <rect
+              x={layout.x}
+              y={layout.y}
+              width={barWidth}
+              height={layout.barHeight || 1}
+              fill={CHART_COLORS.bar}
+              rx={3}
+            />
+            {/* Label */}
+            <text
+              x={layout.x + barWidth / 2}
+              y={STAT_HISTOGRAM_TOP_PADDING + STAT_HISTOGRAM_CHART_HEIGHT + 12}
+              textAnchor="middle"
+              fontSize={8}
+              fontWeight={500}
+              fill={CHART_COLORS.label}
+            >
+              {bin.label}
+            </text>
+            {/* Percentage above bar - only show if significant */}
+            {layout.showPercentageLabel && (
+              <text
+                x={layout.x + barWidth / 2}
+                y={layout.y - 3}
+                textAnchor="middle"
+                fontSize={8}
+                fontWeight={600}
+                fill={CHART_COLORS.percentage}
+              >
+                {layout.percentageLabel}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,14 +1,8 @@
 import { useRef, useLayoutEffect, useState } from 'react';
-import { histogramStyles, CHART_COLORS } from '../../theme';
+import { histogramStyles } from '../../theme';
+import { StatHistogramChart } from './StatHistogramChart';
 import {
-  STAT_HISTOGRAM_CHART_HEIGHT,
-  STAT_HISTOGRAM_CHART_WIDTH,
-  STAT_HISTOGRAM_SVG_HEIGHT,
-  STAT_HISTOGRAM_TOP_PADDING,
-  getStatHistogramBarLayout,
-  getStatHistogramBarWidth,
   getStatHistogramHorizontalAdjustment,
-  getStatHistogramMaxPercentage,
   getStatHistogramTooltipStyle,
 } from './statHistogramViewModel';
 
@@ -39,10 +33,6 @@ export function StatHistogramTooltip({
     setAdjustedLeft(getStatHistogramHorizontalAdjustment(rect, viewportWidth));
   }, []);
 
-  // Find max percentage for scaling bars
-  const maxPercentage = getStatHistogramMaxPercentage(bins);
-  const barWidth = getStatHistogramBarWidth(bins.length);
-
   return (
     <div
       ref={containerRef}
@@ -53,63 +43,7 @@ export function StatHistogramTooltip({
         <div className={histogramStyles.title}>{title}</div>
 
         {/* SVG Bar Chart */}
-        <svg
-          width={STAT_HISTOGRAM_CHART_WIDTH}
-          height={STAT_HISTOGRAM_SVG_HEIGHT}
-          className="mt-2"
-        >
-          {/* Bars */}
-          {bins.map((bin, i) => {
-            const layout = getStatHistogramBarLayout(bin, i, maxPercentage, barWidth);
-
-            return (
-              <g key={bin.label}>
-                {/* Bar background for visibility */}
-                <rect
-                  x={layout.x}
-                  y={STAT_HISTOGRAM_TOP_PADDING}
-                  width={barWidth}
-                  height={STAT_HISTOGRAM_CHART_HEIGHT}
-                  fill={CHART_COLORS.barBackground}
-                  rx={3}
-                />
-                {/* Bar */}
-                <rect
-                  x={layout.x}
-                  y={layout.y}
-                  width={barWidth}
-                  height={layout.barHeight || 1}
-                  fill={CHART_COLORS.bar}
-                  rx={3}
-                />
-                {/* Label */}
-                <text
-                  x={layout.x + barWidth / 2}
-                  y={STAT_HISTOGRAM_TOP_PADDING + STAT_HISTOGRAM_CHART_HEIGHT + 12}
-                  textAnchor="middle"
-                  fontSize={8}
-                  fontWeight={500}
-                  fill={CHART_COLORS.label}
-                >
-                  {bin.label}
-                </text>
-                {/* Percentage above bar - only show if significant */}
-                {layout.showPercentageLabel && (
-                  <text
-                    x={layout.x + barWidth / 2}
-                    y={layout.y - 3}
-                    textAnchor="middle"
-                    fontSize={8}
-                    fontWeight={600}
-                    fill={CHART_COLORS.percentage}
-                  >
-                    {layout.percentageLabel}
-                  </text>
-                )}
-              </g>
-            );
-          })}
-        </svg>
+        <StatHistogramChart bins={bins} className="mt-2" />
       </div>
     </div>
   );
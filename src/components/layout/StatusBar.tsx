@@ -2,6 +2,7 @@ import { Fragment, useMemo } from 'react';
 import { statusBarStyles } from '../../theme';
 import { StatWithHistogram } from './StatWithHistogram';
 import { CacheStatsIndicator } from './CacheStatsIndicator';
+import { ModelSwitcher } from './ModelSwitcher';
 import {
   STATUS_BAR_COLMAP_LINK,
   STATUS_BAR_LINK_CLASS_NAME,
@@ -107,6 +108,7 @@ export function StatusBar() {
       <div className={statusBarStyles.group}>
         <span className="text-ds-tertiary">{formatStatusBarFps(fps)}</span>
         <CacheStatsIndicator />
+        <ModelSwitcher />
         {showHistograms && reconstruction && globalStats && (
           <>
             <StatWithHistogram
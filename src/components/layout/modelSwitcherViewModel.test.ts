@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { ReconstructionModel } from '../../store/reconstructionStore';
+import { buildImage, buildReconstruction } from '../../test/builders';
+import { formatModelCount, getModelSwitcherItems, shouldShowModelSwitcher } from './modelSwitcherViewModel';
+
+function buildModel(id: string, pointCount: number): ReconstructionModel {
+  return {
+    id,
+    label: id,
+    reconstruction: buildReconstruction({
+      images: [buildImage({ imageId: 1 }), buildImage({ imageId: 2 })],
+      globalStats: { avgError: 0.5 },
+    }),
+    wasmReconstruction: null,
+    files: {},
+    pointCount,
+    visible: false,
+    tint: '#00ff00',
+  };
+}
+
+describe('model switcher view model', () => {
+  it('shows only for multi-model loads', () => {
+    expect(shouldShowModelSwitcher([])).toBe(false);
+    expect(shouldShowModelSwitcher([buildModel('sparse/0', 1)])).toBe(false);
+    expect(shouldShowModelSwitcher([buildModel('sparse/0', 1), buildModel('sparse/1', 1)])).toBe(true);
+  });
+
+  it('formats compact counts', () => {
+    expect(formatModelCount(950)).toBe('950');
+    expect(formatModelCount(12_345)).toBe('12.3K');
+    expect(formatModelCount(2_500_000)).toBe('2.5M');
+  });
+
+  it('builds per-model rows with stats and the active flag', () => {
+    const items = getModelSwitcherItems([buildModel('sparse/0', 1500), buildModel('sparse/1', 20)], 'sparse/1');
+
+    expect(items[0]).toMatchObject({
+      id: 'sparse/0',
+      statsLabel: '2 img · 1.5K pts',
+      tint: '#00ff00',
+      visible: false,
+      isActive: false,
+    });
+    expect(items[0].title).toContain('Mean reprojection error 0.500px');
+    expect(items[1].isActive).toBe(true);
+    expect(items[1].title).toContain('Active model');
+  });
+});
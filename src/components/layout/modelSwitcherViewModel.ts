@@ -0,0 +1,46 @@
+import type { ReconstructionModel } from '../../store/reconstructionStore';
+
+export interface ModelSwitcherItem {
+  id: string;
+  label: string;
+  statsLabel: string;
+  title: string;
+  tint: string;
+  visible: boolean;
+  isActive: boolean;
+}
+
+export function shouldShowModelSwitcher(models: readonly ReconstructionModel[]): boolean {
+  return models.length > 1;
+}
+
+export function formatModelCount(count: number): string {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return count.toString();
+}
+
+export function getModelSwitcherItems(
+  models: readonly ReconstructionModel[],
+  activeModelId: string | null
+): ModelSwitcherItem[] {
+  return models.map((model) => {
+    const imageCount = model.reconstruction.images.size;
+    const { avgError } = model.reconstruction.globalStats;
+    const isActive = model.id === activeModelId;
+    return {
+      id: model.id,
+      label: model.label,
+      statsLabel: `${formatModelCount(imageCount)} img · ${formatModelCount(model.pointCount)} pts`,
+      title: [
+        model.id,
+        `${imageCount.toLocaleString()} images, ${model.pointCount.toLocaleString()} points`,
+        `Mean reprojection error ${avgError.toFixed(3)}px`,
+        isActive ? 'Active model' : 'Click to make active',
+      ].join('\n'),
+      tint: model.tint,
+      visible: model.visible,
+      isActive,
+    };
+  });
+}
@@ -11,6 +11,7 @@ import {
   TRACK_LENGTH_BINS,
   computeHistogramFromMap,
   computeHistogramFromPsnrMetrics,
+  computeHistogramFromSamples,
   computeHistogramFromSsimMetrics,
   computeHistogramFromWasm,
   computeMeanPsnrFromMetrics,
@@ -172,6 +173,16 @@ describe('stat histogram view model', () => {
     expect(formatMeanSsimValue(null)).toBe('--');
   });
 
+  it('computes auto-ranged histograms from plain samples', () => {
+    const histogram = computeHistogramFromSamples([0, 5, 10, NaN, Infinity]);
+
+    expect(histogram.total).toBe(3);
+    expect(histogram.mean).toBe(5);
+    expect(histogram.bins).toHaveLength(PSNR_HISTOGRAM_BIN_COUNT);
+    expect(histogram.bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(3);
+    expect(computeHistogramFromSamples([]).bins).toEqual([]);
+  });
+
   it('computes tooltip viewport adjustment and styles', () => {
     expect(getStatHistogramHorizontalAdjustment({ left: 4, right: 304 }, 800, 8)).toBe(4);
     expect(getStatHistogramHorizontalAdjustment({ left: 540, right: 810 }, 800, 8)).toBe(-18);
@@ -254,6 +254,12 @@ export function computeHistogramFromSsimMetrics(
   return computeHistogramFromValues(values, createMetricBins(values));
 }
 
+/** Auto-ranged histogram for any plain sample list (e.g. per-image pose errors). */
+export function computeHistogramFromSamples(values: readonly number[]): HistogramData {
+  const finite = values.filter(Number.isFinite);
+  return computeHistogramFromValues(finite, createMetricBins(finite));
+}
+
 export function computeMeanPsnrFromMetrics(
   metrics: ReadonlyMap<number, PsnrHistogramMetric>
 ): number | null {
@@ -0,0 +1,58 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useReconstructionStore, type ReconstructionModel } from '../../store/reconstructionStore';
+import { useCameraStore } from '../../store/stores/cameraStore';
+import { useUIStore } from '../../store/stores/uiStore';
+import { buildReconstruction } from '../../test/builders';
+import { useModelSwitcherStoreFacade } from './useModelSwitcherStoreFacade';
+
+function buildModel(id: string): ReconstructionModel {
+  return {
+    id,
+    label: id,
+    reconstruction: buildReconstruction(),
+    wasmReconstruction: null,
+    files: {},
+    pointCount: 1,
+    visible: true,
+    tint: '#ff0000',
+  };
+}
+
+describe('useModelSwitcherStoreFacade', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+    useUIStore.setState(useUIStore.getInitialState(), true);
+  });
+
+  it('collects the loaded models and the active id', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1')];
+    useReconstructionStore.setState({ models, activeModelId: 'sparse/0' });
+
+    const { result } = renderHook(() => useModelSwitcherStoreFacade());
+
+    expect(result.current.data).toEqual({ models, activeModelId: 'sparse/0' });
+  });
+
+  it('clears the image selection when switching models', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1')];
+    useReconstructionStore.setState({ models, activeModelId: 'sparse/0', reconstruction: models[0].reconstruction });
+    useCameraStore.setState({ selectedImageId: 3 });
+    useUIStore.setState({ imageDetailId: 3 });
+
+    const { result } = renderHook(() => useModelSwitcherStoreFacade());
+    act(() => {
+      result.current.actions.activateModel('sparse/1');
+      result.current.actions.setModelTint('sparse/0', '#123456');
+    });
+
+    expect(useReconstructionStore.getState()).toMatchObject({
+      activeModelId: 'sparse/1',
+      reconstruction: models[1].reconstruction,
+    });
+    expect(useReconstructionStore.getState().models[0].tint).toBe('#123456');
+    expect(useCameraStore.getState().selectedImageId).toBeNull();
+    expect(useUIStore.getState().imageDetailId).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { useReconstructionStore } from '../../store/reconstructionStore';
+import { useCameraStore } from '../../store/stores/cameraStore';
+import { useUIStore } from '../../store/stores/uiStore';
+
+export function useModelSwitcherStoreFacade() {
+  const models = useReconstructionStore((s) => s.models);
+  const activeModelId = useReconstructionStore((s) => s.activeModelId);
+  const setActiveModel = useReconstructionStore((s) => s.setActiveModel);
+  const setModelVisible = useReconstructionStore((s) => s.setModelVisible);
+  const setModelTint = useReconstructionStore((s) => s.setModelTint);
+  const setSelectedImageId = useCameraStore((s) => s.setSelectedImageId);
+  const closeImageDetail = useUIStore((s) => s.closeImageDetail);
+
+  // Image ids are per model, so a selection never carries over a switch.
+  const activateModel = useCallback((modelId: string) => {
+    if (modelId === activeModelId) return;
+    setSelectedImageId(null);
+    closeImageDetail();
+    setActiveModel(modelId);
+  }, [activeModelId, closeImageDetail, setActiveModel, setSelectedImageId]);
+
+  return {
+    data: { models, activeModelId },
+    actions: { activateModel, setModelVisible, setModelTint },
+  };
+}
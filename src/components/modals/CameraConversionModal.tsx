@@ -1,6 +1,8 @@
 /**
  * Modal for camera model conversion with parameter preview.
  * Shows source and target parameters side-by-side with conversion characterization.
+ * The optional refit solves the target parameters by least squares and reports
+ * the RMS pixel deviation before the conversion is applied.
  */
 
 import { useState, useMemo, useCallback, useEffect, memo } from 'react';
@@ -11,12 +13,19 @@ import {
   getConversionPreview,
   type ConversionPreview,
 } from '../../utils/cameraModelConversions';
-import { CameraModelId, type CameraId } from '../../types/colmap';
+import {
+  collectObservationSamples,
+  type CameraRefitResult,
+  type CameraRefitSource,
+} from '../../utils/cameraModelRefit';
+import { CameraModelId, type Camera, type CameraId, type Reconstruction } from '../../types/colmap';
 import { modalStyles, inputStyles, controlPanelStyles } from '../../theme';
 import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { ToggleRow } from '../viewer3d/ControlComponents';
 import { CameraConversionPreview } from './CameraConversionPreview';
 import {
   applyCameraModelConversion,
+  CAMERA_REFIT_SOURCE_OPTIONS,
   buildCameraConversionOptions,
   buildCameraConversionParameterRows,
   buildCameraConversionTargetOptions,
@@ -27,16 +36,27 @@ import {
   getCameraConversionModalOverlayStyle,
   getCameraConversionModalPanelStyle,
   getCameraConversionNotificationMessage,
+  getCameraRefitSummaryLines,
   getCommonConversionTargetModels,
   getEffectiveConversionTargetModelId,
   getReconstructionCameraEntries,
+  getRefitConversionPreview,
   getSelectedConversionCameras,
   getSourceConversionModelIds,
   parseCameraConversionSelection,
   parseCameraConversionTarget,
+  refitConversionCameras,
 } from './cameraConversionModalViewModel';
 import { useCameraConversionStoreFacade } from './useCameraConversionStoreFacade';
 
+interface CameraRefitRun {
+  reconstruction: Reconstruction;
+  cameras: Camera[];
+  targetModelId: CameraModelId;
+  source: CameraRefitSource;
+  results: Map<CameraId, CameraRefitResult>;
+}
+
 export interface CameraConversionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -47,13 +67,16 @@ export const CameraConversionModal = memo(function CameraConversionModal({
   onClose,
 }: CameraConversionModalProps) {
   const {
-    data: { reconstruction },
-    actions: { setReconstruction, addNotification },
+    data: { reconstruction, wasmReconstruction },
+    actions: { replaceActiveModelReconstruction, addNotification },
   } = useCameraConversionStoreFacade();
 
   // State
   const [selectedCameraId, setSelectedCameraId] = useState<CameraId | 'all'>('all');
   const [targetModelId, setTargetModelId] = useState<CameraModelId | null>(null);
+  const [refitEnabled, setRefitEnabled] = useState(false);
+  const [refitSource, setRefitSource] = useState<CameraRefitSource>('distortionField');
+  const [refitRun, setRefitRun] = useState<CameraRefitRun | null>(null);
 
   // Position and drag
   const { position, panelRef, handleDragStart, centerModal } = useModalDrag({
@@ -78,8 +101,8 @@ export const CameraConversionModal = memo(function CameraConversionModal({
   const sourceModels = useMemo(() => getSourceConversionModelIds(selectedCameras), [selectedCameras]);
 
   const validTargetModels = useMemo(
-    () => getCommonConversionTargetModels(sourceModels),
-    [sourceModels]
+    () => getCommonConversionTargetModels(sourceModels, refitEnabled),
+    [sourceModels, refitEnabled]
   );
 
   const effectiveTargetModelId = useMemo(() => {
@@ -90,10 +113,45 @@ export const CameraConversionModal = memo(function CameraConversionModal({
     [validTargetModels]
   );
 
+  // A refit only describes the inputs it was run with.
+  const refits = refitEnabled
+    && refitRun
+    && refitRun.reconstruction === reconstruction
+    && refitRun.cameras === selectedCameras
+    && refitRun.targetModelId === effectiveTargetModelId
+    && refitRun.source === refitSource
+    ? refitRun.results
+    : null;
+
   const conversionPreview = useMemo((): ConversionPreview | null => {
     if (effectiveTargetModelId === null || selectedCameras.length === 0) return null;
+    const firstRefit = refits?.get(selectedCameras[0].cameraId);
+    if (firstRefit) return getRefitConversionPreview(selectedCameras[0], effectiveTargetModelId, firstRefit);
     return getConversionPreview(selectedCameras[0], effectiveTargetModelId);
-  }, [effectiveTargetModelId, selectedCameras]);
+  }, [effectiveTargetModelId, selectedCameras, refits]);
+
+  const handleRefit = useCallback(() => {
+    if (!reconstruction || effectiveTargetModelId === null) return;
+    const observationSamples = refitSource === 'observations'
+      ? collectObservationSamples(
+        reconstruction,
+        (image) => wasmReconstruction?.getImagePoints2DArray(image.imageId) ?? [],
+        wasmReconstruction
+      )
+      : null;
+    setRefitRun({
+      reconstruction,
+      cameras: selectedCameras,
+      targetModelId: effectiveTargetModelId,
+      source: refitSource,
+      results: refitConversionCameras({
+        cameras: selectedCameras,
+        targetModelId: effectiveTargetModelId,
+        source: refitSource,
+        observationSamples,
+      }),
+    });
+  }, [reconstruction, wasmReconstruction, selectedCameras, effectiveTargetModelId, refitSource]);
 
   // Recenter when preview appears
   useEffect(() => {
@@ -109,6 +167,7 @@ export const CameraConversionModal = memo(function CameraConversionModal({
       reconstruction,
       selectedCameras,
       targetModelId: effectiveTargetModelId,
+      refits,
     });
 
     if (!result) {
@@ -116,15 +175,16 @@ export const CameraConversionModal = memo(function CameraConversionModal({
       return;
     }
 
-    setReconstruction(result.reconstruction);
+    replaceActiveModelReconstruction(result.reconstruction);
     addNotification('info', getCameraConversionNotificationMessage({
       convertedCount: result.convertedCount,
       approximateCount: result.approximateCount,
+      refitCount: result.refitCount,
       targetModelId: effectiveTargetModelId,
     }));
 
     onClose();
-  }, [reconstruction, selectedCameras, effectiveTargetModelId, setReconstruction, addNotification, onClose]);
+  }, [reconstruction, selectedCameras, effectiveTargetModelId, refits, replaceActiveModelReconstruction, addNotification, onClose]);
 
   const cameraOptions = useMemo(() => buildCameraConversionOptions(cameras), [cameras]);
 
@@ -140,6 +200,11 @@ export const CameraConversionModal = memo(function CameraConversionModal({
     setTargetModelId(parseCameraConversionTarget(e.target.value));
   }, []);
 
+  const handleRefitSourceChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    const option = CAMERA_REFIT_SOURCE_OPTIONS.find(({ value }) => value === e.target.value);
+    if (option) setRefitSource(option.value);
+  }, []);
+
   // Build parameter rows for display
   const parameterRows = useMemo(
     () => buildCameraConversionParameterRows(conversionPreview),
@@ -147,7 +212,8 @@ export const CameraConversionModal = memo(function CameraConversionModal({
   );
   const convertAction = getCameraConversionActionState(
     effectiveTargetModelId,
-    selectedCameras.length
+    selectedCameras.length,
+    refitEnabled && !refits
   );
 
   if (!isOpen) return null;
@@ -199,6 +265,37 @@ export const CameraConversionModal = memo(function CameraConversionModal({
             )}
           </div>
 
+          {/* Least-squares refit */}
+          <ToggleRow label="Least-squares refit" checked={refitEnabled} onChange={setRefitEnabled} />
+          {refitEnabled && (
+            <div className="flex items-center gap-2">
+              <select
+                value={refitSource}
+                onChange={handleRefitSourceChange}
+                className={`${inputStyles.select} ${inputStyles.selectSizes.xs} flex-1`}
+                aria-label="Refit samples"
+              >
+                {CAMERA_REFIT_SOURCE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleRefit}
+                disabled={effectiveTargetModelId === null}
+                className={effectiveTargetModelId !== null ? controlPanelStyles.actionButton : controlPanelStyles.actionButtonDisabled}
+              >
+                Refit
+              </button>
+            </div>
+          )}
+          {refits && (
+            <div className="text-xs text-ds-secondary" data-testid="camera-refit-summary">
+              {getCameraRefitSummaryLines(refits, refitSource, selectedCameras.length).map((line) => (
+                <div key={line}>{line}</div>
+              ))}
+            </div>
+          )}
+
           {/* Preview */}
           {conversionPreview && (
             <CameraConversionPreview
@@ -0,0 +1,266 @@
+/**
+ * Fly-through editor: keyframes are saved views the camera passes through,
+ * each with the time and easing of the segment that reaches it. Playback runs
+ * in the trackball frame loop; the timeline bar scrubs the path.
+ */
+
+import { memo, useCallback, useEffect, useMemo, useState, type MouseEvent } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { controlPanelStyles, inputStyles } from '../../theme';
+import {
+  CAMERA_PATH_MAX_SEGMENT_DURATION,
+  CAMERA_PATH_MIN_SEGMENT_DURATION,
+  createCameraPathTimeline,
+} from '../../utils/cameraPathTimelinePolicy';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { ToggleRow } from '../viewer3d/ControlComponents';
+import { getCameraPathPlaybackTime } from '../viewer3d/trackballFramePolicy';
+import {
+  CAMERA_PATH_EASING_OPTIONS,
+  CAMERA_PATH_MODAL_ESTIMATED_HEIGHT,
+  CAMERA_PATH_MODAL_WIDTH,
+  formatCameraPathTime,
+  getCameraPathModalPanelStyle,
+  getCameraPathSummaryLabel,
+  getCameraPathTimelinePercent,
+  parseCameraPathEasing,
+} from './cameraPathModalViewModel';
+import { useCameraPathStoreFacade } from './useCameraPathStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface CameraPathModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const CameraPathModal = memo(function CameraPathModal({
+  isOpen,
+  onClose,
+}: CameraPathModalProps) {
+  const {
+    data: { keyframes, loop, playbackStartTime, currentViewState },
+    actions: {
+      addKeyframe,
+      setKeyframeView,
+      setKeyframeDuration,
+      setKeyframeEasing,
+      moveKeyframe,
+      removeKeyframe,
+      clearPath,
+      setLoop,
+      play,
+      stop,
+      flyToState,
+    },
+  } = useCameraPathStoreFacade();
+  const [playheadTime, setPlayheadTime] = useState(0);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: CAMERA_PATH_MODAL_WIDTH,
+    estimatedHeight: CAMERA_PATH_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const timeline = useMemo(() => createCameraPathTimeline(keyframes), [keyframes]);
+  const playing = playbackStartTime !== null;
+
+  // Follow the same clock as the frame loop so the playhead matches the view.
+  useEffect(() => {
+    if (!isOpen || playbackStartTime === null || !timeline) return;
+    let frame = 0;
+    const tick = () => {
+      const { time } = getCameraPathPlaybackTime(
+        { duration: timeline.duration, startTime: playbackStartTime, loop },
+        performance.now()
+      );
+      setPlayheadTime(time);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, loop, playbackStartTime, timeline]);
+
+  const handleAddKeyframe = useCallback(() => {
+    if (currentViewState) addKeyframe(currentViewState);
+  }, [addKeyframe, currentViewState]);
+
+  const handleScrub = useCallback((event: MouseEvent<HTMLDivElement>) => {
+    if (!timeline) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    const time = Math.min(1, Math.max(0, fraction)) * timeline.duration;
+    stop();
+    setPlayheadTime(time);
+    flyToState(timeline.evaluate(time));
+  }, [flyToState, stop, timeline]);
+
+  if (!isOpen) return null;
+
+  const duration = timeline?.duration ?? 0;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Camera Path"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getCameraPathModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className={`px-4 py-3 ${styles.panelContent}`}>
+        <div className={styles.actionGroup}>
+          <button
+            type="button"
+            onClick={handleAddKeyframe}
+            className={currentViewState ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+            disabled={!currentViewState}
+          >
+            Add Keyframe
+          </button>
+          <button
+            type="button"
+            onClick={playing ? stop : play}
+            className={timeline ? styles.actionButton : styles.actionButtonDisabled}
+            disabled={!timeline}
+          >
+            {playing ? 'Stop' : 'Play'}
+          </button>
+          <button
+            type="button"
+            onClick={clearPath}
+            className={keyframes.length > 0 ? styles.actionButton : styles.actionButtonDisabled}
+            disabled={keyframes.length === 0}
+          >
+            Clear
+          </button>
+        </div>
+
+        <ToggleRow label="Loop" checked={loop} onChange={setLoop} />
+
+        {timeline && (
+          <div
+            className="relative h-4 rounded bg-ds-secondary cursor-pointer"
+            onClick={handleScrub}
+            title="Click to preview the path at this time"
+            data-testid="camera-path-timeline"
+          >
+            {timeline.keyframeTimes.map((time, index) => (
+              <div
+                key={keyframes[index].id}
+                className="absolute top-0 h-full w-0.5 bg-ds-border"
+                style={{ left: `${getCameraPathTimelinePercent(time, duration)}%` }}
+              />
+            ))}
+            <div
+              className="absolute top-0 h-full w-0.5 bg-ds-accent"
+              style={{ left: `${getCameraPathTimelinePercent(playheadTime, duration)}%` }}
+            />
+          </div>
+        )}
+
+        <div className="text-ds-secondary text-sm">{getCameraPathSummaryLabel(keyframes.length, duration)}</div>
+
+        {keyframes.length > 0 && (
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {keyframes.map((keyframe, index) => (
+              <div
+                key={keyframe.id}
+                className="rounded border border-ds-border px-2 py-1 flex items-center gap-1.5"
+                data-testid="camera-path-keyframe"
+              >
+                <span className="w-6 text-ds-secondary font-mono">{index + 1}</span>
+                {index === 0 ? (
+                  <span className="flex-1 text-ds-secondary">Start</span>
+                ) : (
+                  <>
+                    <input
+                      // Remount on external changes (clamping, reorder) so the uncommitted text resets.
+                      key={keyframe.duration}
+                      type="number"
+                      step="0.1"
+                      min={CAMERA_PATH_MIN_SEGMENT_DURATION}
+                      max={CAMERA_PATH_MAX_SEGMENT_DURATION}
+                      defaultValue={keyframe.duration}
+                      onBlur={(event) => setKeyframeDuration(keyframe.id, Number(event.target.value))}
+                      className={`${styles.valueInput} w-14 font-mono`}
+                      aria-label={`Keyframe ${index + 1} duration in seconds`}
+                    />
+                    <select
+                      value={keyframe.easing}
+                      onChange={(event) => setKeyframeEasing(keyframe.id, parseCameraPathEasing(event.target.value))}
+                      className={`${inputStyles.select} text-xs flex-1 min-w-0`}
+                      aria-label={`Keyframe ${index + 1} easing`}
+                    >
+                      {CAMERA_PATH_EASING_OPTIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                <span className="font-mono text-ds-secondary" title="Time on the path">
+                  {formatCameraPathTime(timeline?.keyframeTimes[index] ?? 0)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => moveKeyframe(keyframe.id, -1)}
+                  className="text-ds-secondary hover-ds-text-primary disabled:opacity-30"
+                  disabled={index === 0}
+                  title="Move earlier"
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveKeyframe(keyframe.id, 1)}
+                  className="text-ds-secondary hover-ds-text-primary disabled:opacity-30"
+                  disabled={index === keyframes.length - 1}
+                  title="Move later"
+                >
+                  ▼
+                </button>
+                <button
+                  type="button"
+                  onClick={() => { stop(); flyToState(keyframe.view); }}
+                  className="text-ds-secondary hover-ds-text-primary"
+                  title="Fly to this keyframe"
+                >
+                  Go
+                </button>
+                <button
+                  type="button"
+                  onClick={() => currentViewState && setKeyframeView(keyframe.id, currentViewState)}
+                  className="text-ds-secondary hover-ds-text-primary"
+                  title="Replace with the current view"
+                >
+                  Set
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeKeyframe(keyframe.id)}
+                  className="text-ds-secondary hover-ds-text-primary"
+                  title="Remove keyframe"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className={styles.hint}>
+          Each keyframe's time is how long the camera takes to reach it. Paths are saved with the
+          configuration and share links, and the Screenshot panel can record them.
+        </div>
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -0,0 +1,222 @@
+/**
+ * Co-visibility graph of the loaded reconstruction: images as nodes, edges
+ * weighted by shared 3D points. Triggered from the Matches panel.
+ */
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { controlPanelStyles, inputStyles } from '../../theme';
+import { buildCovisibilityGraph, type CovisibilityLayoutMode } from '../../utils/covisibilityGraph';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import {
+  COVISIBILITY_GRAPH_CANVAS_HEIGHT,
+  COVISIBILITY_GRAPH_CANVAS_WIDTH,
+  COVISIBILITY_GRAPH_DEFAULT_THRESHOLD,
+  COVISIBILITY_GRAPH_MODAL_ESTIMATED_HEIGHT,
+  COVISIBILITY_GRAPH_MODAL_WIDTH,
+  COVISIBILITY_LAYOUT_OPTIONS,
+  buildCovisibilityGraphLayout,
+  drawCovisibilityGraph,
+  findCovisibilityGraphNodeAt,
+  getCovisibilityAttentionItems,
+  getCovisibilityGraphPanelStyle,
+  getCovisibilityGraphSummary,
+  getCovisibilityImageCenters,
+  getCovisibilityThresholdMax,
+  parseCovisibilityLayoutMode,
+} from './covisibilityGraphModalViewModel';
+import { useCovisibilityGraphStoreFacade } from './useCovisibilityGraphStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface CovisibilityGraphModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const CovisibilityGraphModal = memo(function CovisibilityGraphModal({
+  isOpen,
+  onClose,
+}: CovisibilityGraphModalProps) {
+  const {
+    data: { reconstruction },
+    selection: { selectedImageId, setSelectedImageId, flyToImage, openImageDetail },
+  } = useCovisibilityGraphStoreFacade();
+
+  const [threshold, setThreshold] = useState(COVISIBILITY_GRAPH_DEFAULT_THRESHOLD);
+  const [layoutMode, setLayoutMode] = useState<CovisibilityLayoutMode>('pose');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: COVISIBILITY_GRAPH_MODAL_WIDTH,
+    estimatedHeight: COVISIBILITY_GRAPH_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const imageIds = useMemo(
+    () => (reconstruction ? Array.from(reconstruction.images.keys()) : []),
+    [reconstruction]
+  );
+  const graph = useMemo(
+    () => (isOpen && reconstruction
+      ? buildCovisibilityGraph(imageIds, reconstruction.connectedImagesIndex, threshold)
+      : null),
+    [isOpen, reconstruction, imageIds, threshold]
+  );
+  const centers = useMemo(
+    () => (isOpen && reconstruction ? getCovisibilityImageCenters(reconstruction, imageIds) : []),
+    [isOpen, reconstruction, imageIds]
+  );
+  const layout = useMemo(
+    () => (graph ? buildCovisibilityGraphLayout(graph, centers, layoutMode) : null),
+    [graph, centers, layoutMode]
+  );
+  const nodeOfImage = useMemo(() => new Map(imageIds.map((imageId, node) => [imageId, node])), [imageIds]);
+  const selectedNode = selectedImageId === null ? -1 : nodeOfImage.get(selectedImageId) ?? -1;
+
+  const summary = graph ? getCovisibilityGraphSummary(graph) : null;
+  const attentionItems = useMemo(
+    () => (graph && reconstruction
+      ? getCovisibilityAttentionItems(graph, (imageId) => reconstruction.images.get(imageId)?.name ?? '')
+      : []),
+    [graph, reconstruction]
+  );
+  const thresholdMax = getCovisibilityThresholdMax(graph?.maxWeight ?? 1);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !graph || !layout) return;
+    drawCovisibilityGraph(ctx, {
+      graph,
+      layout,
+      width: COVISIBILITY_GRAPH_CANVAS_WIDTH,
+      height: COVISIBILITY_GRAPH_CANVAS_HEIGHT,
+      selectedNode,
+    });
+  }, [graph, layout, selectedNode]);
+
+  const getNodeAtEvent = useCallback((event: MouseEvent<HTMLCanvasElement>) => {
+    if (!layout) return -1;
+    const rect = event.currentTarget.getBoundingClientRect();
+    return findCovisibilityGraphNodeAt(
+      layout,
+      COVISIBILITY_GRAPH_CANVAS_WIDTH,
+      COVISIBILITY_GRAPH_CANVAS_HEIGHT,
+      event.clientX - rect.left,
+      event.clientY - rect.top
+    );
+  }, [layout]);
+
+  const handleCanvasClick = useCallback((event: MouseEvent<HTMLCanvasElement>) => {
+    const node = getNodeAtEvent(event);
+    setSelectedImageId(node >= 0 ? imageIds[node] : null);
+  }, [getNodeAtEvent, imageIds, setSelectedImageId]);
+
+  const handleCanvasDoubleClick = useCallback((event: MouseEvent<HTMLCanvasElement>) => {
+    const node = getNodeAtEvent(event);
+    if (node >= 0) openImageDetail(imageIds[node]);
+  }, [getNodeAtEvent, imageIds, openImageDetail]);
+
+  const handleAttentionClick = useCallback((imageId: number) => {
+    setSelectedImageId(imageId);
+    flyToImage(imageId);
+  }, [flyToImage, setSelectedImageId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Co-visibility Graph"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getCovisibilityGraphPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to see its co-visibility graph.</div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 flex-1 text-ds-secondary">
+                <span className="whitespace-nowrap">Min shared points</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={thresholdMax}
+                  step={1}
+                  value={Math.min(threshold, thresholdMax)}
+                  onChange={(event) => setThreshold(Number(event.target.value))}
+                  className={`${inputStyles.range.base} flex-1 min-w-0`}
+                />
+                <span className="text-ds-primary w-8 text-right">{threshold}</span>
+              </label>
+              <select
+                value={layoutMode}
+                onChange={(event) => setLayoutMode(parseCovisibilityLayoutMode(event.target.value))}
+                className={`${inputStyles.select} text-xs`}
+                aria-label="Graph layout"
+              >
+                {COVISIBILITY_LAYOUT_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <canvas
+              ref={canvasRef}
+              width={COVISIBILITY_GRAPH_CANVAS_WIDTH}
+              height={COVISIBILITY_GRAPH_CANVAS_HEIGHT}
+              className="block bg-ds-secondary rounded cursor-pointer"
+              onClick={handleCanvasClick}
+              onDoubleClick={handleCanvasDoubleClick}
+            />
+
+            {summary && (
+              <div className="flex flex-wrap gap-x-3 text-ds-secondary">
+                <span>{summary.nodeLabel}</span>
+                <span className={summary.isSplit ? 'text-ds-warning' : undefined}>{summary.componentLabel}</span>
+                <span>{summary.articulationLabel}</span>
+              </div>
+            )}
+
+            {attentionItems.length > 0 && (
+              <div className="max-h-28 overflow-y-auto space-y-0.5">
+                {attentionItems.map((item) => (
+                  <button
+                    key={`${item.kind}-${item.imageId}`}
+                    type="button"
+                    onClick={() => handleAttentionClick(item.imageId)}
+                    className="block w-full text-left truncate text-ds-secondary hover-ds-text-primary"
+                    title={item.kind === 'articulation'
+                      ? 'Removing this image would split its component'
+                      : 'Detached component at this threshold'}
+                  >
+                    <span style={{ color: item.kind === 'component' ? item.color : undefined }}>
+                      {item.kind === 'articulation' ? 'Cut ' : 'Split '}
+                    </span>
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className={styles.hint}>
+              Click a node to select the image, double-click to open it.
+              Orange nodes are articulation images; colored nodes sit outside the largest component.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -7,19 +7,28 @@ import type {
 } from 'react';
 import { modalStyles } from '../../theme';
 import type { Camera, Image, ImageId, Point2D } from '../../types/colmap';
+import type { DatabasePairMatches } from '../../types/colmapDatabase';
+import type { ReprojectionErrorAnalysis } from '../../utils/reprojectionErrors';
 import { CameraPoseInfoDisplay } from './ImageDetailMedia';
 import { DesktopImageControls } from './ImageDetailControls';
 import { DesktopImageDetailHeader } from './ImageDetailModalHeader';
 import { DesktopImageDetailResizeHandles, type ResizeDirection } from './ImageDetailResizeHandles';
 import { MatchImagePair, SingleImageView } from './ImageDetailViews';
+import type { ImageDetailGcpControl } from './imageDetailGcpViewModel';
 import { getImageDetailFrameHintState } from './imageDetailFrameHintsViewModel';
 import {
   DESKTOP_IMAGE_DETAIL_FRAME_CLASS,
   getDesktopImageDetailPanelStyle,
   isImageDetailMaskInteractionEnabled,
 } from './imageDetailFrameViewModel';
+import type {
+  ImageDetailMatchSourceControl,
+  ImageDetailReprojectionControl,
+  ImageDetailSplatErrorMapControl,
+} from './imageDetailControlsViewModel';
 import type { MatchViewLayout, SingleImageLayout, Size2D } from './imageDetailLayoutViewModel';
 import type { MaskMode } from './imageDetailMaskViewModel';
+import type { ImageDetailSplatErrorMapViewControl } from './imageDetailSplatErrorMapViewModel';
 import type {
   ConnectedImageOption,
   MatchLine,
@@ -34,6 +43,7 @@ interface DesktopImageDetailFrameProps {
   containerSize: Size2D;
   currentMatchCount: number;
   cycleMaskMode: () => void;
+  databasePair: DatabasePairMatches | null;
   effectivePoints2D: Point2D[];
   frameAllMarked: boolean;
   frameImageIds: ImageId[];
@@ -68,6 +78,12 @@ interface DesktopImageDetailFrameProps {
   matchedImage: Image | null;
   matchedImageId: ImageId | null;
   matchedImageSrc: string | null;
+  matchSource: ImageDetailMatchSourceControl | null;
+  gcp: ImageDetailGcpControl | null;
+  reprojection: ImageDetailReprojectionControl | null;
+  reprojectionAnalysis: ReprojectionErrorAnalysis | null;
+  splatErrorMap: ImageDetailSplatErrorMapControl | null;
+  splatErrorMapView: ImageDetailSplatErrorMapViewControl | null;
   multiCamera: boolean;
   numPoints2D: number;
   numPoints3D: number;
@@ -101,6 +117,7 @@ export function DesktopImageDetailFrame({
   containerSize,
   currentMatchCount,
   cycleMaskMode,
+  databasePair,
   effectivePoints2D,
   frameAllMarked,
   frameImageIds,
@@ -135,6 +152,12 @@ export function DesktopImageDetailFrame({
   matchedImage,
   matchedImageId,
   matchedImageSrc,
+  matchSource,
+  gcp,
+  reprojection,
+  reprojectionAnalysis,
+  splatErrorMap,
+  splatErrorMapView,
   multiCamera,
   numPoints2D,
   numPoints3D,
@@ -228,6 +251,7 @@ export function DesktopImageDetailFrame({
                     containerSize={containerSize}
                     matchLines={matchLines}
                     matchLineOpacity={matchLineOpacity}
+                    databasePair={databasePair}
                   />
                 ) : (
                   <SingleImageView
@@ -247,6 +271,9 @@ export function DesktopImageDetailFrame({
                     onMaskClick={cycleMaskMode}
                     onMaskMouseMove={handleMaskMouseMove}
                     onMaskMouseLeave={handleMaskMouseLeave}
+                    gcp={gcp}
+                    reprojection={reprojectionAnalysis}
+                    splatErrorMaps={splatErrorMapView}
                   />
                 )}
               </div>
@@ -273,6 +300,9 @@ export function DesktopImageDetailFrame({
                 setShowMatchesInModal={setShowMatchesInModal}
                 setMatchedImageId={setMatchedImageId}
                 setMatchLineOpacity={setMatchLineOpacity}
+                matchSource={matchSource}
+                reprojection={reprojection}
+                splatErrorMap={splatErrorMap}
                 setOpacityInputValue={setOpacityInputValue}
                 onPrev={onPrev}
                 onNext={onNext}
@@ -0,0 +1,285 @@
+/**
+ * Ground control points: place GCPs by picking the point cloud or clicking
+ * observations in the image detail view, enter or import their surveyed
+ * coordinates, and preview the Sim3d that maps the model onto them.
+ * Triggered from the Transform panel.
+ */
+
+import { memo, useCallback, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import type * as THREE from 'three';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { parseGcpCsv, writeGcpCsv } from '../../parsers/gcpCsv';
+import { controlPanelStyles } from '../../theme';
+import { downloadFile } from '../../utils/download';
+import {
+  computeGcpAlignment,
+  getGcpAppliedTransform,
+  getGcpDisplayedPositions,
+  getGcpModelPosition,
+  MIN_GCP_ALIGNMENT_COUNT,
+} from '../../utils/gcpAlignment';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import {
+  GCP_MODAL_ESTIMATED_HEIGHT,
+  GCP_MODAL_WIDTH,
+  formatGcpCoordinate,
+  getGcpAlignmentSummary,
+  getGcpCsvRows,
+  getGcpModalPanelStyle,
+  getGcpModelStatusLabel,
+  getGcpReadinessLabel,
+  getGcpResidualLabel,
+  updateGcpCoordinate,
+} from './gcpModalViewModel';
+import { useGcpStoreFacade } from './useGcpStoreFacade';
+
+const styles = controlPanelStyles;
+
+const AXES = [0, 1, 2] as const;
+const AXIS_LABELS = ['X', 'Y', 'Z'] as const;
+
+export interface GcpModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const GcpModal = memo(function GcpModal({
+  isOpen,
+  onClose,
+}: GcpModalProps) {
+  const {
+    data: { reconstruction, gcps, activeGcpId, isPicking, transform },
+    actions: {
+      addGcp,
+      setActiveGcpId,
+      renameGcp,
+      setGcpWorld,
+      clearGcpPick,
+      removeGcp,
+      importGcps,
+      clearGcps,
+      setPickingMode,
+      setTransform,
+    },
+  } = useGcpStoreFacade();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: GCP_MODAL_WIDTH,
+    estimatedHeight: GCP_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const modelPositions = useMemo(() => {
+    const positions = new Map<number, THREE.Vector3>();
+    if (!isOpen) return positions;
+    for (const gcp of gcps) {
+      const modelPosition = getGcpModelPosition(gcp, reconstruction);
+      if (modelPosition) positions.set(gcp.id, modelPosition);
+    }
+    return positions;
+  }, [isOpen, gcps, reconstruction]);
+  // Fit what is on screen, so Apply keeps the active transform and adds the fit after it.
+  const alignment = useMemo(
+    () => computeGcpAlignment(gcps, getGcpDisplayedPositions(modelPositions, transform)),
+    [gcps, modelPositions, transform]
+  );
+  const usableCount = gcps.filter((gcp) => gcp.world && modelPositions.has(gcp.id)).length;
+  const summary = alignment ? getGcpAlignmentSummary(alignment) : null;
+
+  const handleTogglePicking = useCallback(() => {
+    setPickingMode(isPicking ? 'off' : 'gcp');
+  }, [isPicking, setPickingMode]);
+
+  const handleFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      importGcps(parseGcpCsv(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [importGcps]);
+
+  const handleExport = useCallback(() => {
+    downloadFile(writeGcpCsv(getGcpCsvRows(gcps, modelPositions)), 'gcps.csv');
+  }, [gcps, modelPositions]);
+
+  const handleApply = useCallback(() => {
+    if (alignment) setTransform(getGcpAppliedTransform(alignment, transform));
+  }, [alignment, setTransform, transform]);
+
+  const handleClear = useCallback(() => {
+    setImportError(null);
+    clearGcps();
+  }, [clearGcps]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Ground Control Points"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getGcpModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to place GCPs.</div>
+        ) : (
+          <>
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={handleTogglePicking}
+                className={isPicking ? styles.actionButtonPrimary : styles.actionButton}
+              >
+                {isPicking ? 'Stop Picking' : 'Pick GCPs'}
+              </button>
+              <button type="button" onClick={addGcp} className={styles.presetButton}>
+                Add
+              </button>
+              <button type="button" onClick={() => fileInputRef.current?.click()} className={styles.presetButton}>
+                Import
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                className={styles.presetButton}
+                disabled={gcps.length === 0}
+              >
+                Export
+              </button>
+              {gcps.length > 0 && (
+                <button type="button" onClick={handleClear} className={styles.presetButton}>
+                  Clear
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt"
+                className="hidden"
+                onChange={(event) => { void handleFileChange(event); }}
+              />
+            </div>
+
+            {importError && <div className="text-ds-error">{importError}</div>}
+
+            {gcps.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {gcps.map((gcp) => {
+                  const isActive = gcp.id === activeGcpId;
+                  return (
+                    <div
+                      key={gcp.id}
+                      className={`rounded border px-2 py-1 space-y-1 ${isActive ? 'border-ds-accent' : 'border-ds-border'}`}
+                      onClick={() => setActiveGcpId(gcp.id)}
+                      data-testid="gcp-row"
+                    >
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={gcp.name}
+                          onChange={(event) => renameGcp(gcp.id, event.target.value)}
+                          className={`${styles.valueInput} w-24`}
+                          aria-label="GCP name"
+                        />
+                        <span className="flex-1 truncate text-ds-secondary">
+                          {getGcpModelStatusLabel(gcp, modelPositions.get(gcp.id) ?? null)}
+                        </span>
+                        <span className="font-mono text-ds-secondary" title="Residual after alignment">
+                          {getGcpResidualLabel(alignment, gcp.id)}
+                        </span>
+                        {gcp.pickedPosition && (
+                          <button
+                            type="button"
+                            onClick={(event) => { event.stopPropagation(); clearGcpPick(gcp.id); }}
+                            className="text-ds-secondary hover-ds-text-primary"
+                            title="Clear picked point"
+                          >
+                            ⌫
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={(event) => { event.stopPropagation(); removeGcp(gcp.id); }}
+                          className="text-ds-secondary hover-ds-text-primary"
+                          title="Remove GCP"
+                        >
+                          ×
+                        </button>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {AXES.map((axis) => (
+                          <input
+                            // Remount on external changes (import) so the uncommitted text resets.
+                            key={`${axis}:${formatGcpCoordinate(gcp.world, axis)}`}
+                            type="number"
+                            step="any"
+                            defaultValue={formatGcpCoordinate(gcp.world, axis)}
+                            placeholder={AXIS_LABELS[axis]}
+                            onBlur={(event) => setGcpWorld(gcp.id, updateGcpCoordinate(gcp.world, axis, event.target.value))}
+                            className={`${styles.valueInput} w-full font-mono`}
+                            aria-label={`${gcp.name} world ${AXIS_LABELS[axis]}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {summary ? (
+              <div className="space-y-0.5 text-ds-secondary">
+                <div>{summary.countLabel}</div>
+                <div>{summary.rmseLabel}</div>
+                <div>{summary.scaleLabel}</div>
+              </div>
+            ) : (
+              gcps.length > 0 && (
+                <div className="text-ds-secondary">
+                  {usableCount >= MIN_GCP_ALIGNMENT_COUNT
+                    ? 'GCP model positions are collinear'
+                    : getGcpReadinessLabel(usableCount)}
+                </div>
+              )
+            )}
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={handleApply}
+                className={alignment ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+                disabled={!alignment}
+              >
+                Apply Transform
+              </button>
+            </div>
+
+            <div className={styles.hint}>
+              While picking, clicks on the point cloud place the selected GCP (or start a new one) and
+              clicks in the image detail view add observations that are triangulated when the GCP has
+              no picked point. CSV columns: name,x,y,z with optional model_x,model_y,model_z.
+              "Apply" in the Transform panel bakes the previewed transform into the data.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
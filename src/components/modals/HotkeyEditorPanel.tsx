@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import {
+  getHotkeyComboFromEvent,
+  getKeyboardEventKeyName,
+  type HotkeyRegistry,
+} from '../../config/hotkeys';
+import { useHotkeyEditorStoreFacade } from './useHotkeyEditorStoreFacade';
+import {
+  HOTKEY_EDITOR_CAPTURE_LABEL,
+  HOTKEY_EDITOR_CONFLICT_CLASS,
+  HOTKEY_EDITOR_ERROR_CLASS,
+  HOTKEY_EDITOR_HINT,
+  HOTKEY_EDITOR_HINT_CLASS,
+  HOTKEY_EDITOR_KEY_BUTTON_CLASS,
+  HOTKEY_EDITOR_KEY_CAPTURING_CLASS,
+  HOTKEY_EDITOR_RESET_ALL_LABEL,
+  HOTKEY_EDITOR_RESET_CLASS,
+  HOTKEY_EDITOR_RESET_LABEL,
+  HOTKEY_EDITOR_SECTION_TITLE_CLASS,
+  HOTKEY_HELP_ROW_CLASS,
+  HOTKEY_HELP_ROW_DESCRIPTION_CLASS,
+  HOTKEY_HELP_ROW_KEY_CLASS,
+  getHotkeyEditorSections,
+  getHotkeyRebindError,
+} from './hotkeyHelpViewModel';
+
+interface HotkeyEditorPanelProps {
+  hotkeys: HotkeyRegistry;
+}
+
+/**
+ * Customize tab of the help panel: click a shortcut, press the new keys.
+ * While listening, key events are caught on the window in the capture phase
+ * and stopped there, so the keys being bound never reach the viewer's hotkeys,
+ * the trackball, or the dialog's own Escape handling.
+ */
+export function HotkeyEditorPanel({ hotkeys }: HotkeyEditorPanelProps) {
+  const {
+    data: { overrides },
+    actions: { setHotkeyOverride, resetHotkeyOverride, resetAllHotkeyOverrides },
+  } = useHotkeyEditorStoreFacade();
+  const [capturingId, setCapturingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sections = getHotkeyEditorSections(hotkeys, overrides);
+
+  useEffect(() => {
+    if (capturingId === null) return;
+    // A lone modifier (speed boost on shift) is bound on release, so pressing
+    // shift on the way to shift+x does not bind shift.
+    let pendingModifier: string | null = null;
+
+    const commit = (keys: string) => {
+      const rebindError = getHotkeyRebindError(capturingId, keys, hotkeys);
+      if (rebindError === null) setHotkeyOverride(capturingId, keys);
+      setError(rebindError);
+      setCapturingId(null);
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (event.repeat) return;
+      const captured = getHotkeyComboFromEvent(event);
+      if (captured.combo === 'escape') {
+        setCapturingId(null);
+      } else if (captured.modifierOnly) {
+        pendingModifier = captured.combo;
+      } else {
+        commit(captured.combo);
+      }
+    };
+
+    const onKeyUp = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (pendingModifier !== null && getKeyboardEventKeyName(event) === pendingModifier) {
+        commit(pendingModifier);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    window.addEventListener('keyup', onKeyUp, true);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown, true);
+      window.removeEventListener('keyup', onKeyUp, true);
+    };
+  }, [capturingId, hotkeys, setHotkeyOverride]);
+
+  const startCapture = (id: string) => {
+    setError(null);
+    setCapturingId((current) => (current === id ? null : id));
+  };
+
+  return (
+    <>
+      <div className={HOTKEY_EDITOR_HINT_CLASS}>{HOTKEY_EDITOR_HINT}</div>
+      {error && <div className={HOTKEY_EDITOR_ERROR_CLASS} role="alert">{error}</div>}
+      {sections.map((section) => (
+        <div key={section.category}>
+          <div className={HOTKEY_EDITOR_SECTION_TITLE_CLASS}>{section.title}</div>
+          {section.rows.map((row) => (
+            <div key={row.id} className={HOTKEY_HELP_ROW_CLASS}>
+              <span className={HOTKEY_HELP_ROW_DESCRIPTION_CLASS}>
+                {row.description}
+                {row.conflictsWith.length > 0 && (
+                  <span className={HOTKEY_EDITOR_CONFLICT_CLASS}>
+                    {' '}(conflicts with {row.conflictsWith.join(', ')})
+                  </span>
+                )}
+              </span>
+              {row.overridden && (
+                <button
+                  type="button"
+                  className={HOTKEY_EDITOR_RESET_CLASS}
+                  onClick={() => resetHotkeyOverride(row.id)}
+                >
+                  {HOTKEY_EDITOR_RESET_LABEL}
+                </button>
+              )}
+              {row.remappable ? (
+                <button
+                  type="button"
+                  className={row.id === capturingId ? HOTKEY_EDITOR_KEY_CAPTURING_CLASS : HOTKEY_EDITOR_KEY_BUTTON_CLASS}
+                  onClick={() => startCapture(row.id)}
+                  aria-label={`Change shortcut for ${row.description}`}
+                  data-testid={`hotkey-editor-key-${row.id}`}
+                >
+                  {row.id === capturingId ? HOTKEY_EDITOR_CAPTURE_LABEL : row.keyCombo}
+                </button>
+              ) : (
+                <span className={HOTKEY_HELP_ROW_KEY_CLASS}>{row.keyCombo}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+      {Object.keys(overrides).length > 0 && (
+        <div className={HOTKEY_EDITOR_HINT_CLASS}>
+          <button
+            type="button"
+            className={HOTKEY_EDITOR_RESET_CLASS}
+            onClick={() => {
+              setError(null);
+              resetAllHotkeyOverrides();
+            }}
+          >
+            {HOTKEY_EDITOR_RESET_ALL_LABEL}
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -2,7 +2,7 @@ import type { ReactNode } from 'react';
 import { HotkeysProvider } from 'react-hotkeys-hook';
 import { act, fireEvent, render, screen } from '@testing-library/react';
 import { afterEach, describe, expect, it } from 'vitest';
-import { useUIStore } from '../../store';
+import { useHotkeyStore, useUIStore } from '../../store';
 import { HotkeyHelpModal } from './HotkeyHelpModal';
 
 function Wrapper({ children }: { children: ReactNode }) {
@@ -22,6 +22,7 @@ function pressI() {
 describe('HotkeyHelpModal', () => {
   afterEach(() => {
     useUIStore.setState(useUIStore.getInitialState(), true);
+    useHotkeyStore.setState(useHotkeyStore.getInitialState(), true);
   });
 
   it('renders the desktop info button and toggles the panel on click', () => {
@@ -207,4 +208,52 @@ describe('HotkeyHelpModal', () => {
     );
     expect(screen.getByText(/Toggle undistorted view/)).toBeInTheDocument();
   });
+
+  it('rebinds a shortcut from the Customize tab and refuses conflicting keys', () => {
+    useUIStore.setState({ touchMode: false, embedMode: false });
+    renderModal();
+    fireEvent.click(screen.getByTestId('hotkey-info-button'));
+    fireEvent.click(screen.getByRole('tab', { name: 'Customize' }));
+
+    const pressKey = (type: 'keydown' | 'keyup', key: string, code: string) => {
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent(type, { key, code, bubbles: true }));
+      });
+    };
+
+    fireEvent.click(screen.getByTestId('hotkey-editor-key-resetView'));
+    expect(screen.getByTestId('hotkey-editor-key-resetView')).toHaveTextContent('Press keys…');
+    pressKey('keydown', 'g', 'KeyG');
+    expect(screen.getByRole('alert')).toHaveTextContent('g is already used by Toggle grid');
+    expect(useHotkeyStore.getState().overrides).toEqual({});
+
+    fireEvent.click(screen.getByTestId('hotkey-editor-key-resetView'));
+    pressKey('keydown', 'x', 'KeyX');
+    expect(useHotkeyStore.getState().overrides).toEqual({ resetView: 'x' });
+    expect(screen.getByTestId('hotkey-editor-key-resetView')).toHaveTextContent('x');
+
+    // A lone modifier binds on release; Escape cancels without binding.
+    fireEvent.click(screen.getByTestId('hotkey-editor-key-moveDown'));
+    pressKey('keydown', 'Control', 'ControlLeft');
+    pressKey('keyup', 'Control', 'ControlLeft');
+    expect(screen.getByRole('alert')).toHaveTextContent('Move down must be a single key without modifiers');
+    fireEvent.click(screen.getByTestId('hotkey-editor-key-moveDown'));
+    pressKey('keydown', 'Escape', 'Escape');
+    expect(screen.getByTestId('hotkey-editor-key-moveDown')).toHaveTextContent('q');
+    expect(screen.getByText('Keyboard Shortcuts')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset' }));
+    expect(useHotkeyStore.getState().overrides).toEqual({});
+  });
+
+  it('toggles the panel with a rebound help key', () => {
+    useHotkeyStore.setState({ overrides: { showHelp: 'k' } });
+    useUIStore.setState({ touchMode: true });
+    renderModal();
+
+    act(() => {
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'k', code: 'KeyK', bubbles: true }));
+    });
+    expect(screen.getByText('Keyboard Shortcuts')).toBeInTheDocument();
+  });
 });
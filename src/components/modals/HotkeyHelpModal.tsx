@@ -1,11 +1,14 @@
 import { Fragment, useCallback, useId, useRef, useState } from 'react';
 import { useHotkeys } from 'react-hotkeys-hook';
-import { HOTKEYS } from '../../config/hotkeys';
+import { useHotkeyBindings } from '../../hooks/useHotkeyBindings';
 import { modalStyles } from '../../theme';
 import { CloseIcon, InfoIcon } from '../../icons';
 import { ModalDialogShell } from '../ui/ModalDialogShell';
+import { HotkeyEditorPanel } from './HotkeyEditorPanel';
 import { useHotkeyHelpStoreFacade } from './useHotkeyHelpStoreFacade';
 import {
+  CUSTOMIZE_TAB_ID,
+  CUSTOMIZE_TAB_TITLE,
   ESSENTIALS_TAB_ID,
   HOTKEY_HELP_FOOTER_CLASS,
   HOTKEY_HELP_FOOTER_KEY_CLASS,
@@ -39,8 +42,8 @@ import { shouldHideChromeWithButtons } from '../layout/autoHideChromePolicy';
  * Modal that displays all available keyboard shortcuts, split into tabs so the
  * long list no longer floods the page (revision 2026-07-10). The first tab,
  * Essentials, curates the most-used shortcuts and is re-selected every time the
- * panel opens. Toggle with Shift+? (question mark) or I; also opened by the
- * desktop top-left info button.
+ * panel opens; the last, Customize, rebinds them. Toggle with Shift+? (question
+ * mark) or I; also opened by the desktop top-left info button.
  */
 export function HotkeyHelpModal() {
   const titleId = useId();
@@ -48,6 +51,7 @@ export function HotkeyHelpModal() {
   const [isOpen, setIsOpen] = useState(false);
   const [activeTabId, setActiveTabId] = useState<HotkeyHelpTabId>(ESSENTIALS_TAB_ID);
   const mode = useHotkeyHelpStoreFacade();
+  const hotkeys = useHotkeyBindings();
   const hideWithButtons = shouldHideChromeWithButtons({
     autoHideButtons: mode.autoHideButtons,
     isIdle: mode.isIdle,
@@ -65,16 +69,19 @@ export function HotkeyHelpModal() {
 
   // Toggle help panel with ? or I (global scope, always available)
   useHotkeys(
-    HOTKEYS.showHelp.keys,
+    hotkeys.showHelp.keys,
     togglePanel,
     {
-      scopes: HOTKEYS.showHelp.scopes,
-      preventDefault: HOTKEYS.showHelp.preventDefault,
+      scopes: hotkeys.showHelp.scopes,
+      preventDefault: hotkeys.showHelp.preventDefault,
     },
     [togglePanel]
   );
 
-  const tabs = getHotkeyHelpTabs();
+  const tabs = [
+    ...getHotkeyHelpTabs(hotkeys),
+    { id: CUSTOMIZE_TAB_ID, title: CUSTOMIZE_TAB_TITLE, rows: [] },
+  ];
   const activeTab = tabs.find((tab) => tab.id === activeTabId) ?? tabs[0];
 
   return (
@@ -145,14 +152,17 @@ export function HotkeyHelpModal() {
 
         {/* Active tab rows (scrolls independently so the shell stays fixed).
             Flat context-menu-style rows: a description that grows and a right-aligned
-            mono key combo — no table, no boxed <kbd>, and not clickable. */}
+            mono key combo — no table, no boxed <kbd>, and not clickable. The
+            Customize tab swaps in the editor, whose combos are buttons. */}
         <div
           className={HOTKEY_HELP_TAB_PANEL_CLASS}
           role="tabpanel"
           id="hotkey-help-tabpanel"
           aria-labelledby={`hotkey-help-tab-${activeTab.id}`}
         >
-          {activeTab.rows.map((row) => (
+          {activeTab.id === CUSTOMIZE_TAB_ID ? (
+            <HotkeyEditorPanel hotkeys={hotkeys} />
+          ) : activeTab.rows.map((row) => (
             <div key={row.id} className={HOTKEY_HELP_ROW_CLASS}>
               <span className={HOTKEY_HELP_ROW_DESCRIPTION_CLASS}>{row.description}</span>
               <span className={HOTKEY_HELP_ROW_KEY_CLASS}>{row.keyCombo}</span>
@@ -163,7 +173,7 @@ export function HotkeyHelpModal() {
         {/* Footer hint */}
         <div className={HOTKEY_HELP_FOOTER_CLASS}>
           {HOTKEY_HELP_FOOTER_PREFIX}{' '}
-          {getHotkeyHelpToggleKeyLabels().map((label, index) => (
+          {getHotkeyHelpToggleKeyLabels(hotkeys.showHelp.keys).map((label, index) => (
             <Fragment key={label}>
               {index > 0 && <>{' '}or{' '}</>}
               <kbd className={HOTKEY_HELP_FOOTER_KEY_CLASS}>{label}</kbd>
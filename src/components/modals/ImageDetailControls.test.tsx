@@ -33,6 +33,31 @@ describe('ImageDetailControls', () => {
     expect(setShowPoints3D).toHaveBeenCalledWith(true);
   });
 
+  it('offers the residual explorer and splat error toggles next to the point toggles when provided', () => {
+    const setActive = vi.fn();
+    const setSplatErrorMapActive = vi.fn();
+
+    render(
+      <TouchImageControls
+        {...buildSharedControlProps()}
+        reprojection={{ active: false, setActive }}
+        splatErrorMap={{ active: true, setActive: setSplatErrorMapActive }}
+        hasPrev={false}
+        hasNext
+        currentIndex={0}
+        imageCount={2}
+        onPrev={vi.fn()}
+        onNext={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /residuals/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Splat Error' }));
+
+    expect(setActive).toHaveBeenCalledWith(true);
+    expect(setSplatErrorMapActive).toHaveBeenCalledWith(false);
+  });
+
   it('renders touch match controls and reports opacity updates', () => {
     const setMatchLineOpacity = vi.fn();
 
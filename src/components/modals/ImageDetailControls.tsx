@@ -9,9 +9,14 @@ import type { ConnectedImageOption } from './imageDetailViewModel';
 import {
   getImageDetailControlVisibilityState,
   getImageDetailPointToggleDescriptors,
+  type ImageDetailMatchSourceControl,
   type ImageDetailPointToggleKey,
+  type ImageDetailReprojectionControl,
+  type ImageDetailSplatErrorMapControl,
 } from './imageDetailControlsViewModel';
 
+const REPROJECTION_TOGGLE_INACTIVE_COUNT_CLASS = 'text-ds-warning';
+
 interface SharedControlProps {
   isMarkedForDeletion: boolean;
   showPoints2D: boolean;
@@ -27,6 +32,9 @@ interface SharedControlProps {
   setShowMatchesInModal: (show: boolean) => void;
   setMatchedImageId: (imageId: ImageId | null) => void;
   setMatchLineOpacity: (opacity: number) => void;
+  matchSource?: ImageDetailMatchSourceControl | null;
+  reprojection?: ImageDetailReprojectionControl | null;
+  splatErrorMap?: ImageDetailSplatErrorMapControl | null;
 }
 
 interface TouchImageControlsProps extends SharedControlProps {
@@ -57,6 +65,9 @@ export function TouchImageControls({
   setShowMatchesInModal,
   setMatchedImageId,
   setMatchLineOpacity,
+  matchSource,
+  reprojection,
+  splatErrorMap,
   onPrev,
   onNext,
 }: TouchImageControlsProps) {
@@ -85,6 +96,27 @@ export function TouchImageControls({
                 onToggle={getPointToggleSetter(descriptor.key, setShowPoints2D, setShowPoints3D)}
               />
             ))}
+            {reprojection && (
+              <ImageDetailPointToggleButton
+                variant="touch"
+                label="Residuals"
+                count={numPoints3D}
+                inactiveCountClass={REPROJECTION_TOGGLE_INACTIVE_COUNT_CLASS}
+                active={reprojection.active}
+                isMarkedForDeletion={isMarkedForDeletion}
+                onToggle={reprojection.setActive}
+              />
+            )}
+            {splatErrorMap && (
+              <ImageDetailPointToggleButton
+                variant="touch"
+                label="Splat Error"
+                inactiveCountClass={REPROJECTION_TOGGLE_INACTIVE_COUNT_CLASS}
+                active={splatErrorMap.active}
+                isMarkedForDeletion={isMarkedForDeletion}
+                onToggle={splatErrorMap.setActive}
+              />
+            )}
           </>
         )}
         <ImageDetailMatchesToggleButton
@@ -99,6 +131,7 @@ export function TouchImageControls({
             matchedImageId={matchedImageId}
             connectedImages={connectedImages}
             setMatchedImageId={setMatchedImageId}
+            matchSource={matchSource}
           />
         )}
       </div>
@@ -169,6 +202,9 @@ export function DesktopImageControls({
   setShowMatchesInModal,
   setMatchedImageId,
   setMatchLineOpacity,
+  matchSource,
+  reprojection,
+  splatErrorMap,
   onPrev,
   onNext,
   onMatchedImageWheel,
@@ -204,6 +240,27 @@ export function DesktopImageControls({
                 onToggle={getPointToggleSetter(descriptor.key, setShowPoints2D, setShowPoints3D)}
               />
             ))}
+            {reprojection && (
+              <ImageDetailPointToggleButton
+                variant="desktop"
+                label="Residuals"
+                count={numPoints3D}
+                inactiveCountClass={REPROJECTION_TOGGLE_INACTIVE_COUNT_CLASS}
+                active={reprojection.active}
+                isMarkedForDeletion={isMarkedForDeletion}
+                onToggle={reprojection.setActive}
+              />
+            )}
+            {splatErrorMap && (
+              <ImageDetailPointToggleButton
+                variant="desktop"
+                label="Splat Error"
+                inactiveCountClass={REPROJECTION_TOGGLE_INACTIVE_COUNT_CLASS}
+                active={splatErrorMap.active}
+                isMarkedForDeletion={isMarkedForDeletion}
+                onToggle={splatErrorMap.setActive}
+              />
+            )}
           </>
         )}
 
@@ -220,6 +277,7 @@ export function DesktopImageControls({
             matchedImageId={matchedImageId}
             connectedImages={connectedImages}
             setMatchedImageId={setMatchedImageId}
+            matchSource={matchSource}
             onWheel={onMatchedImageWheel}
           />
         )}
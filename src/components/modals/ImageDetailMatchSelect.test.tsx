@@ -59,4 +59,25 @@ describe('ImageDetailMatchSelect', () => {
     fireEvent.change(select, { target: { value: '' } });
     expect(setMatchedImageId).toHaveBeenCalledWith(null);
   });
+
+  it('offers a match-source switch when a database is loaded', () => {
+    const setMatchesSource = vi.fn();
+
+    render(
+      <ImageDetailMatchSelect
+        variant="desktop"
+        matchedImageId={null}
+        connectedImages={[]}
+        setMatchedImageId={vi.fn()}
+        matchSource={{ matchesSource: 'raw', setMatchesSource }}
+      />
+    );
+
+    const sourceSelect = screen.getByRole('combobox', { name: 'Match source' });
+    expect(sourceSelect).toHaveValue('raw');
+    expect(screen.getByRole('option', { name: 'Inliers' })).toBeInTheDocument();
+
+    fireEvent.change(sourceSelect, { target: { value: 'verified' } });
+    expect(setMatchesSource).toHaveBeenCalledWith('verified');
+  });
 });
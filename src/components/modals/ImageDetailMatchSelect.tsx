@@ -3,7 +3,10 @@ import type { ImageId } from '../../types/colmap';
 import type { ConnectedImageOption } from './imageDetailViewModel';
 import {
   getImageDetailMatchSelectState,
+  getImageDetailMatchSourceSelectState,
+  parseMatchesSourceValue,
   parseOptionalImageId,
+  type ImageDetailMatchSourceControl,
 } from './imageDetailControlsViewModel';
 
 interface ImageDetailMatchSelectProps {
@@ -11,6 +14,7 @@ interface ImageDetailMatchSelectProps {
   matchedImageId: ImageId | null;
   connectedImages: ConnectedImageOption[];
   setMatchedImageId: (imageId: ImageId | null) => void;
+  matchSource?: ImageDetailMatchSourceControl | null;
   onWheel?: (event: WheelEvent<HTMLSelectElement>) => void;
 }
 
@@ -19,6 +23,7 @@ export function ImageDetailMatchSelect({
   matchedImageId,
   connectedImages,
   setMatchedImageId,
+  matchSource = null,
   onWheel,
 }: ImageDetailMatchSelectProps) {
   const selectState = getImageDetailMatchSelectState({
@@ -28,16 +33,52 @@ export function ImageDetailMatchSelect({
   });
   const style = selectState.minHeight === undefined ? undefined : { minHeight: selectState.minHeight };
 
+  return (
+    <>
+      {matchSource && (
+        <ImageDetailMatchSourceSelect variant={variant} matchSource={matchSource} />
+      )}
+      <select
+        value={selectState.value}
+        onChange={(event) => setMatchedImageId(parseOptionalImageId(event.target.value))}
+        onWheel={onWheel}
+        className={selectState.className}
+        style={style}
+      >
+        <option value="">{selectState.placeholderLabel}</option>
+        {selectState.options.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+function ImageDetailMatchSourceSelect({
+  variant,
+  matchSource,
+}: {
+  variant: 'touch' | 'desktop';
+  matchSource: ImageDetailMatchSourceControl;
+}) {
+  const sourceState = getImageDetailMatchSourceSelectState(variant, matchSource.matchesSource);
+  const style = sourceState.minHeight === undefined ? undefined : { minHeight: sourceState.minHeight };
+
   return (
     <select
-      value={selectState.value}
-      onChange={(event) => setMatchedImageId(parseOptionalImageId(event.target.value))}
-      onWheel={onWheel}
-      className={selectState.className}
+      value={sourceState.value}
+      onChange={(event) => {
+        const source = parseMatchesSourceValue(event.target.value);
+        if (source) matchSource.setMatchesSource(source);
+      }}
+      className={sourceState.className}
       style={style}
+      title={sourceState.title}
+      aria-label="Match source"
     >
-      <option value="">{selectState.placeholderLabel}</option>
-      {selectState.options.map(({ value, label }) => (
+      {sourceState.options.map(({ value, label }) => (
         <option key={value} value={value}>
           {label}
         </option>
@@ -1,11 +1,13 @@
 import { memo, useEffect, useRef, type CSSProperties } from 'react';
 import type { Camera, Point2D } from '../../types/colmap';
+import type { ReprojectionResidual } from '../../utils/reprojectionErrors';
 import type { MatchViewLayout } from './imageDetailLayoutViewModel';
 import {
   drawDeletedCrossOverlay,
   drawImagePlaceholder,
   drawKeypoints,
   drawMatchLines,
+  drawReprojectionResiduals,
 } from './imageDetailCanvasDrawing';
 import { buildCameraPoseDisplayModel } from './imageDetailCameraPoseViewModel';
 import {
@@ -117,6 +119,63 @@ export const KeypointCanvas = memo(function KeypointCanvas({
   );
 });
 
+interface ReprojectionResidualCanvasProps {
+  residuals: readonly ReprojectionResidual[];
+  camera: Camera;
+  imageWidth: number;
+  imageHeight: number;
+  containerWidth: number;
+  containerHeight: number;
+  magnification: number;
+  colorScale: number;
+}
+
+export const ReprojectionResidualCanvas = memo(function ReprojectionResidualCanvas({
+  residuals,
+  camera,
+  imageWidth,
+  imageHeight,
+  containerWidth,
+  containerHeight,
+  magnification,
+  colorScale,
+}: ReprojectionResidualCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    drawReprojectionResiduals(ctx, {
+      residuals,
+      camera,
+      imageWidth,
+      imageHeight,
+      magnification,
+      colorScale,
+    });
+  }, [residuals, camera, imageWidth, imageHeight, magnification, colorScale]);
+
+  const canvasState = getCenteredCanvasOverlayState({
+    imageWidth,
+    imageHeight,
+    containerWidth,
+    containerHeight,
+  });
+
+  if (!canvasState.canRender) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={canvasState.width}
+      height={canvasState.height}
+      className="absolute pointer-events-none"
+      style={canvasState.style}
+    />
+  );
+});
+
 interface MatchCanvasProps {
   lines: { point1: [number, number]; point2: [number, number] }[];
   layout: MatchViewLayout;
@@ -233,3 +292,42 @@ export function DeletedCrossOverlay({ width, height, style }: DeletedCrossOverla
     />
   );
 }
+
+interface SplatErrorMapCanvasProps {
+  pixels: Uint8ClampedArray<ArrayBuffer>;
+  width: number;
+  height: number;
+  label: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+/** Draws one read-back error-map pane at its render size; CSS scales it to the pane. */
+export const SplatErrorMapCanvas = memo(function SplatErrorMapCanvas({
+  pixels,
+  width,
+  height,
+  label,
+  className,
+  style,
+}: SplatErrorMapCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || pixels.length !== width * height * 4) return;
+
+    ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  }, [pixels, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      aria-label={label}
+      className={className}
+      style={style}
+    />
+  );
+});
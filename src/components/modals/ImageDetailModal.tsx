@@ -1,14 +1,18 @@
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { useHotkeys } from 'react-hotkeys-hook';
-import { HOTKEYS } from '../../config/hotkeys';
+import { useHotkeyBindings } from '../../hooks/useHotkeyBindings';
 import { DesktopImageDetailFrame, TouchImageDetailFrame } from './ImageDetailModalFrames';
+import { getImageDetailGcpMarkers } from './imageDetailGcpViewModel';
+import { useImageDetailDatabaseMatches } from './useImageDetailDatabaseMatches';
 import { useImageDetailDeletionActions } from './useImageDetailDeletionActions';
 import { useImageDetailFiles } from './useImageDetailFiles';
 import { useImageDetailMaskState } from './useImageDetailMaskState';
 import { useImageDetailModalData } from './useImageDetailModalData';
 import { useImageDetailMatchOpacity } from './useImageDetailMatchOpacity';
 import { useImageDetailNavigationHandlers } from './useImageDetailNavigationHandlers';
+import { useImageDetailReprojectionErrors } from './useImageDetailReprojectionErrors';
+import { useImageDetailSplatErrorMaps } from './useImageDetailSplatErrorMaps';
 import { useImageDetailStoreFacade } from './useImageDetailStoreFacade';
 import { useLazyImagePoints2D } from './useLazyImagePoints2D';
 
@@ -29,11 +33,24 @@ export function ImageDetailModal() {
       setShowPoints3D,
       showMatchesInModal,
       setShowMatchesInModal,
+      showReprojectionErrors,
+      setShowReprojectionErrors,
       matchedImageId,
       setMatchedImageId,
+      matchesSource,
+      setMatchesSource,
+      showSplatErrorMaps,
+      setShowSplatErrorMaps,
+      splatErrorMapViews,
+      toggleSplatErrorMapView,
+      splatErrorMapLayout,
+      setSplatErrorMapLayout,
       touchMode,
       showModalControls,
     },
+    database,
+    gcp: { isPicking: isPickingGcp, gcps, activeGcpId, addObservation },
+    splat,
   } = useImageDetailStoreFacade();
 
   const {
@@ -67,10 +84,24 @@ export function ImageDetailModal() {
     imageDetailId,
     matchedImageId,
     showPoints2D,
-    showPoints3D,
+    // The residual explorer needs the image's observations loaded too.
+    showPoints3D: showPoints3D || showReprojectionErrors,
     showMatchesInModal,
   });
 
+  const { databaseMatches, databasePair, databaseLineData } = useImageDetailDatabaseMatches({
+    database,
+    matchesSource,
+    imageDetailId,
+    matchedImageId,
+    showMatchesInModal,
+  });
+  const hasDatabase = database.summary !== null;
+  const matchSource = useMemo(
+    () => (hasDatabase ? { matchesSource, setMatchesSource } : null),
+    [hasDatabase, matchesSource, setMatchesSource]
+  );
+
   const {
     camera,
     connectedImages,
@@ -107,6 +138,8 @@ export function ImageDetailModal() {
     showMatchesInModal,
     pendingDeletions,
     lazyPoints2D,
+    databaseMatches,
+    databaseLineData,
   });
 
   const {
@@ -124,6 +157,59 @@ export function ImageDetailModal() {
   });
   const hasMask = !!maskFile;
 
+  const reprojection = useMemo(
+    () => ({ active: showReprojectionErrors, setActive: setShowReprojectionErrors }),
+    [showReprojectionErrors, setShowReprojectionErrors]
+  );
+  const reprojectionAnalysis = useImageDetailReprojectionErrors({
+    enabled: showReprojectionErrors && !isMatchViewMode,
+    reconstruction,
+    wasmReconstruction,
+    image,
+    camera,
+    points2D: effectivePoints2D,
+  });
+
+  const splatErrorMapsAvailable = Boolean(splat.splatFile) && splat.errorMapsAvailable;
+  const splatErrorMap = useMemo(
+    () => (splatErrorMapsAvailable ? { active: showSplatErrorMaps, setActive: setShowSplatErrorMaps } : null),
+    [splatErrorMapsAvailable, showSplatErrorMaps, setShowSplatErrorMaps]
+  );
+  const splatErrorMapState = useImageDetailSplatErrorMaps({
+    enabled: splatErrorMapsAvailable && showSplatErrorMaps && !isMatchViewMode,
+    dataset,
+    splatFile: splat.splatFile,
+    image,
+    camera,
+    transform: splat.transform,
+    splatTransform: splat.splatTransform,
+  });
+  const splatErrorMapView = useMemo(
+    () => (splatErrorMapState
+      ? {
+        state: splatErrorMapState,
+        views: splatErrorMapViews,
+        layout: splatErrorMapLayout,
+        onToggleView: toggleSplatErrorMapView,
+        onLayoutChange: setSplatErrorMapLayout,
+      }
+      : null),
+    [splatErrorMapState, splatErrorMapViews, splatErrorMapLayout, toggleSplatErrorMapView, setSplatErrorMapLayout]
+  );
+
+  const imageId = image?.imageId ?? null;
+  const gcp = useMemo(() => {
+    if (imageId === null) return null;
+    const markers = getImageDetailGcpMarkers(gcps, imageId, activeGcpId);
+    if (!isPickingGcp && markers.length === 0) return null;
+    return {
+      markers,
+      onImagePointClick: isPickingGcp
+        ? (point: { x: number; y: number }) => addObservation({ imageId, ...point })
+        : null,
+    };
+  }, [imageId, gcps, activeGcpId, isPickingGcp, addObservation]);
+
   const goToPrev = useCallback(() => {
     if (prevImageId !== null) {
       openImageDetail(prevImageId);
@@ -164,24 +250,25 @@ export function ImageDetailModal() {
   });
 
   // Handle keyboard shortcuts using centralized hotkey system
+  const hotkeys = useHotkeyBindings();
   useHotkeys(
-    HOTKEYS.closeModal.keys,
+    hotkeys.closeModal.keys,
     closeImageDetail,
-    { scopes: HOTKEYS.closeModal.scopes, enabled: imageDetailId !== null },
+    { scopes: hotkeys.closeModal.scopes, enabled: imageDetailId !== null },
     [closeImageDetail]
   );
 
   useHotkeys(
-    HOTKEYS.prevImage.keys,
+    hotkeys.prevImage.keys,
     goToPrev,
-    { scopes: HOTKEYS.prevImage.scopes, enabled: imageDetailId !== null && hasPrev },
+    { scopes: hotkeys.prevImage.scopes, enabled: imageDetailId !== null && hasPrev },
     [hasPrev, goToPrev]
   );
 
   useHotkeys(
-    HOTKEYS.nextImage.keys,
+    hotkeys.nextImage.keys,
     goToNext,
-    { scopes: HOTKEYS.nextImage.scopes, enabled: imageDetailId !== null && hasNext },
+    { scopes: hotkeys.nextImage.scopes, enabled: imageDetailId !== null && hasNext },
     [hasNext, goToNext]
   );
 
@@ -195,6 +282,7 @@ export function ImageDetailModal() {
         connectedImages={connectedImages}
         containerSize={containerSize}
         currentIndex={currentIndex}
+        databasePair={databasePair}
         effectivePoints2D={effectivePoints2D}
         handleTouchEnd={handleTouchEnd}
         handleTouchMove={handleTouchMove}
@@ -213,6 +301,12 @@ export function ImageDetailModal() {
         matchedImage={matchedImage}
         matchedImageId={matchedImageId}
         matchedImageSrc={matchedImageSrc}
+        matchSource={matchSource}
+        gcp={gcp}
+        reprojection={reprojection}
+        reprojectionAnalysis={reprojectionAnalysis}
+        splatErrorMap={splatErrorMap}
+        splatErrorMapView={splatErrorMapView}
         numPoints2D={numPoints2D}
         numPoints3D={numPoints3D}
         setMatchedImageId={setMatchedImageId}
@@ -242,6 +336,7 @@ export function ImageDetailModal() {
       containerSize={containerSize}
       currentMatchCount={currentMatchCount}
       cycleMaskMode={cycleMaskMode}
+      databasePair={databasePair}
       effectivePoints2D={effectivePoints2D}
       frameAllMarked={frameAllMarked}
       frameImageIds={frameImageIds}
@@ -276,6 +371,12 @@ export function ImageDetailModal() {
       matchedImage={matchedImage}
       matchedImageId={matchedImageId}
       matchedImageSrc={matchedImageSrc}
+      matchSource={matchSource}
+      gcp={gcp}
+      reprojection={reprojection}
+      reprojectionAnalysis={reprojectionAnalysis}
+      splatErrorMap={splatErrorMap}
+      splatErrorMapView={splatErrorMapView}
       multiCamera={multiCamera}
       numPoints2D={numPoints2D}
       numPoints3D={numPoints3D}
@@ -29,6 +29,7 @@ describe('ImageDetailModalFrames', () => {
         connectedImages={[]}
         containerSize={containerSize}
         currentIndex={0}
+        databasePair={null}
         effectivePoints2D={[]}
         handleTouchEnd={vi.fn()}
         handleTouchMove={vi.fn()}
@@ -47,6 +48,12 @@ describe('ImageDetailModalFrames', () => {
         matchedImage={null}
         matchedImageId={null}
         matchedImageSrc={null}
+        matchSource={null}
+        gcp={null}
+        reprojection={null}
+        reprojectionAnalysis={null}
+        splatErrorMap={null}
+        splatErrorMapView={null}
         numPoints2D={2}
         numPoints3D={1}
         setMatchedImageId={vi.fn()}
@@ -94,6 +101,7 @@ describe('ImageDetailModalFrames', () => {
         containerSize={containerSize}
         currentMatchCount={0}
         cycleMaskMode={cycleMaskMode}
+        databasePair={null}
         effectivePoints2D={[]}
         frameAllMarked={false}
         frameImageIds={[7, 8]}
@@ -128,6 +136,12 @@ describe('ImageDetailModalFrames', () => {
         matchedImage={matchedImage}
         matchedImageId={8}
         matchedImageSrc={IMAGE_SRC}
+        matchSource={null}
+        gcp={null}
+        reprojection={null}
+        reprojectionAnalysis={null}
+        splatErrorMap={null}
+        splatErrorMapView={null}
         multiCamera
         numPoints2D={3}
         numPoints3D={2}
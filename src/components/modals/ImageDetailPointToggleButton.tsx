@@ -3,7 +3,8 @@ import { getImageDetailPointToggleButtonState } from './imageDetailControlsViewM
 interface ImageDetailPointToggleButtonProps {
   variant: 'touch' | 'desktop';
   label: string;
-  count: number;
+  /** Omitted for toggles without an item count. */
+  count?: number;
   inactiveCountClass: string;
   active: boolean;
   isMarkedForDeletion: boolean;
@@ -42,7 +43,7 @@ export function ImageDetailPointToggleButton({
       className={buttonState.className}
       style={buttonStyle}
     >
-      {label} <span className={buttonState.countClass}>({count})</span>
+      {label}{count !== undefined && <> <span className={buttonState.countClass}>({count})</span></>}
     </button>
   );
 }
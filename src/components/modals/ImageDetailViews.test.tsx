@@ -62,6 +62,34 @@ describe('ImageDetailViews', () => {
     expect(container.querySelectorAll('canvas')).toHaveLength(0);
   });
 
+  it('shows the two-view geometry inspector for a database pair', () => {
+    render(
+      <MatchImagePair
+        image={buildImage({ name: 'primary.jpg' })}
+        camera={buildCamera()}
+        imageSrc={IMAGE_SRC}
+        matchedImage={buildImage({ imageId: 2, name: 'matched.jpg' })}
+        matchedCamera={buildCamera({ cameraId: 2 })}
+        matchedImageSrc={IMAGE_SRC}
+        layout={buildMatchViewLayout()}
+        containerSize={buildContainerSize()}
+        matchLines={[]}
+        matchLineOpacity={0.5}
+        databasePair={{
+          imageId1: 1,
+          imageId2: 2,
+          rawMatches: new Uint32Array([0, 0, 1, 1]),
+          inlierMatches: new Uint32Array([0, 0]),
+          geometry: { config: 4, F: null, E: null, H: [1, 0, 0, 0, 1, 0, 0, 0, 1], qvec: null, tvec: null },
+        }}
+      />
+    );
+
+    expect(screen.getByText('Planar')).toBeInTheDocument();
+    expect(screen.getByText(/2 raw · 1 inliers/)).toBeInTheDocument();
+    expect(screen.getByTitle('Homography matrix (#1 → #2)')).toBeInTheDocument();
+  });
+
   it('renders the mask and wires mask interactions only when enabled', () => {
     const onMaskClick = vi.fn();
     const onMaskMouseMove = vi.fn();
@@ -134,6 +162,153 @@ describe('ImageDetailViews', () => {
 
     expect(onMaskClick).not.toHaveBeenCalled();
   });
+
+  it('shows the reprojection explorer with distortion warnings', () => {
+    render(
+      <SingleImageView
+        image={buildImage({ name: 'main.jpg' })}
+        camera={buildCamera()}
+        imageSrc={IMAGE_SRC}
+        layout={buildSingleImageLayout()}
+        containerSize={buildContainerSize()}
+        isMarkedForDeletion={false}
+        showPoints2D={false}
+        showPoints3D={false}
+        points2D={[]}
+        reprojection={{
+          residuals: [{ point2DIdx: 0, point3DId: 1n, observed: [10, 10], projected: [11, 10], error: 1 }],
+          meanError: 1,
+          medianError: 1,
+          maxError: 1,
+          grid: { cols: 1, rows: 1, cells: [1] },
+          radialBins: [{ radius: 0.5, count: 1, meanError: 1, meanRadialError: 1 }],
+          distortionWarnings: ['Border residuals point outward consistently'],
+        }}
+      />
+    );
+
+    expect(screen.getByText(/1 residuals · mean 1.00/)).toBeInTheDocument();
+    expect(screen.getByText(/point outward consistently — check the distortion parameters/)).toBeInTheDocument();
+  });
+
+  it('draws GCP markers and routes clicks to image pixels while GCP picking is on', () => {
+    const onMaskClick = vi.fn();
+    const onImagePointClick = vi.fn();
+
+    const { container } = render(
+      <SingleImageView
+        image={buildImage({ name: 'main.jpg' })}
+        camera={buildCamera({ width: 640, height: 480 })}
+        imageSrc={IMAGE_SRC}
+        maskSrc={MASK_SRC}
+        layout={buildSingleImageLayout()}
+        containerSize={buildContainerSize()}
+        isMarkedForDeletion={false}
+        showPoints2D={false}
+        showPoints3D={false}
+        points2D={[]}
+        maskMode="hover"
+        splitX={0.5}
+        maskEnabled
+        onMaskClick={onMaskClick}
+        gcp={{ markers: [{ gcpId: 1, label: 'GCP 1', x: 320, y: 240, isActive: true }], onImagePointClick }}
+      />
+    );
+
+    expect(screen.getByTitle('GCP 1')).toHaveClass('border-ds-accent');
+
+    const root = getRenderedRoot(container);
+    expect(root).toHaveStyle({ cursor: 'crosshair' });
+    fireEvent.click(root, { clientX: 170, clientY: 140 });
+    fireEvent.click(root, { clientX: 0, clientY: 0 });
+
+    expect(onImagePointClick).toHaveBeenCalledOnce();
+    expect(onImagePointClick).toHaveBeenCalledWith({ x: 320, y: 240 });
+    expect(onMaskClick).not.toHaveBeenCalled();
+  });
+
+  it('covers the image with splat error panes and their pickers', () => {
+    const onToggleView = vi.fn();
+    const onLayoutChange = vi.fn();
+    const onMaskClick = vi.fn();
+    const pixels = () => new Uint8ClampedArray(2 * 1 * 4);
+
+    render(
+      <SingleImageView
+        image={buildImage({ name: 'main.jpg' })}
+        camera={buildCamera()}
+        imageSrc={IMAGE_SRC}
+        maskSrc={MASK_SRC}
+        layout={buildSingleImageLayout()}
+        containerSize={buildContainerSize()}
+        isMarkedForDeletion={false}
+        showPoints2D={false}
+        showPoints3D={false}
+        points2D={[]}
+        maskEnabled
+        onMaskClick={onMaskClick}
+        splatErrorMaps={{
+          state: {
+            status: 'ready',
+            maps: {
+              width: 2,
+              height: 1,
+              rendered: pixels(),
+              groundTruth: pixels(),
+              difference: pixels(),
+              ssim: pixels(),
+              differenceScale: 64,
+              result: { psnr: 30, ssim: 0.95, mse: 0.06, sumSquaredError: 0.12, validPixelCount: 2 },
+            },
+          },
+          views: ['rendered', 'difference'],
+          layout: 'sideBySide',
+          onToggleView,
+          onLayoutChange,
+        }}
+      />
+    );
+
+    const view = screen.getByTestId('splat-error-map-view');
+    expect(view).toHaveStyle({ left: '10px', top: '20px', width: '320px', height: '240px' });
+    expect(screen.getByLabelText('Rendered')).toBeInTheDocument();
+    expect(screen.getByLabelText('|Δ| heatmap')).toBeInTheDocument();
+    expect(screen.queryByLabelText('SSIM map')).not.toBeInTheDocument();
+    expect(screen.getByText(/PSNR 30.00 dB · SSIM 0.950/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'SSIM map' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Swipe' }));
+    fireEvent.click(view);
+
+    expect(onToggleView).toHaveBeenCalledWith('ssim');
+    expect(onLayoutChange).toHaveBeenCalledWith('swipe');
+    expect(onMaskClick).not.toHaveBeenCalled();
+  });
+
+  it('reports splat error map failures in place of the panes', () => {
+    render(
+      <SingleImageView
+        image={buildImage({ name: 'main.jpg' })}
+        camera={buildCamera()}
+        imageSrc={IMAGE_SRC}
+        layout={buildSingleImageLayout()}
+        containerSize={buildContainerSize()}
+        isMarkedForDeletion={false}
+        showPoints2D={false}
+        showPoints3D={false}
+        points2D={[]}
+        splatErrorMaps={{
+          state: { status: 'error', message: 'Device lost' },
+          views: ['rendered'],
+          layout: 'swipe',
+          onToggleView: vi.fn(),
+          onLayoutChange: vi.fn(),
+        }}
+      />
+    );
+
+    expect(screen.getAllByText(/Failed: Device lost/)).toHaveLength(2);
+  });
 });
 
 function buildContainerSize(): Size2D {
@@ -1,15 +1,47 @@
-import type { MouseEvent } from 'react';
+import { useState, type MouseEvent } from 'react';
+import { SPLAT_ERROR_MAP_LAYOUTS, SPLAT_ERROR_MAP_VIEWS } from '../../store/types';
 import type { Camera, Image, Point2D } from '../../types/colmap';
-import { getMatchImagePairRenderState } from './imageDetailMatchImagePairViewModel';
+import type { DatabasePairMatches } from '../../types/colmapDatabase';
+import type { ReprojectionErrorAnalysis } from '../../utils/reprojectionErrors';
+import {
+  getImageDetailGcpMarkerStyle,
+  getImagePixelFromClientPoint,
+  type ImageDetailGcpControl,
+} from './imageDetailGcpViewModel';
+import {
+  getMatchImagePairRenderState,
+  getMatchPairGeometryState,
+  type MatchPairGeometryState,
+} from './imageDetailMatchImagePairViewModel';
 import type { MatchViewLayout, SingleImageLayout, Size2D } from './imageDetailLayoutViewModel';
 import type { MaskMode } from './imageDetailMaskViewModel';
+import {
+  REPROJECTION_RADIAL_PLOT_HEIGHT,
+  REPROJECTION_RADIAL_PLOT_WIDTH,
+  getReprojectionColorScale,
+  getReprojectionErrorPanelState,
+  getResidualMagnification,
+  type ReprojectionErrorPanelState,
+} from './imageDetailReprojectionViewModel';
 import { getSingleImageViewRenderState } from './imageDetailSingleImageViewModel';
+import {
+  SPLAT_ERROR_MAP_LAYOUT_LABELS,
+  SPLAT_ERROR_MAP_VIEW_LABELS,
+  getSplatErrorMapOverlayStyle,
+  getSplatErrorMapPanelState,
+  getSplatErrorMapStatusLabel,
+  getSplatErrorMapSwipeClipStyle,
+  type ImageDetailSplatErrorMapViewControl,
+  type SplatErrorMapPane,
+} from './imageDetailSplatErrorMapViewModel';
 import type { MatchLine } from './imageDetailViewModel';
 import {
   DeletedCrossOverlay,
   ImagePlaceholder,
   KeypointCanvas,
   MatchCanvas,
+  ReprojectionResidualCanvas,
+  SplatErrorMapCanvas,
 } from './ImageDetailMedia';
 
 interface MatchImagePairProps {
@@ -23,6 +55,8 @@ interface MatchImagePairProps {
   containerSize: Size2D;
   matchLines: MatchLine[];
   matchLineOpacity: number;
+  /** Database pair being inspected; null when showing triangulated matches. */
+  databasePair?: DatabasePairMatches | null;
 }
 
 export function MatchImagePair({
@@ -36,6 +70,7 @@ export function MatchImagePair({
   containerSize,
   matchLines,
   matchLineOpacity,
+  databasePair = null,
 }: MatchImagePairProps) {
   const { image1, image2 } = layout;
   const viewState = getMatchImagePairRenderState({
@@ -45,6 +80,7 @@ export function MatchImagePair({
     hasMatchedCamera: Boolean(matchedCamera),
     matchLineCount: matchLines.length,
   });
+  const geometryState = getMatchPairGeometryState(databasePair);
 
   return (
     <>
@@ -95,10 +131,223 @@ export function MatchImagePair({
           lineOpacity={matchLineOpacity}
         />
       )}
+      {geometryState && <MatchPairGeometryPanel state={geometryState} />}
     </>
   );
 }
 
+function MatchPairGeometryPanel({ state }: { state: MatchPairGeometryState }) {
+  return (
+    <details className="absolute top-2 left-2 z-10 max-w-[calc(100%-1rem)] px-2 py-1 bg-ds-void/80 text-ds-secondary text-xs rounded">
+      <summary className="cursor-pointer select-none whitespace-nowrap">
+        <span className="text-ds-primary">{state.configLabel}</span> · {state.countsLabel}
+      </summary>
+      <div className="mt-1 flex flex-wrap gap-3 font-mono">
+        {state.matrices.length === 0 && <span>No F/E/H stored for this pair</span>}
+        {state.matrices.map((matrix) => (
+          <div key={matrix.label}>
+            <div className="text-ds-primary" title={`${matrix.title} matrix (${state.directionLabel})`}>
+              {matrix.label} <span className="text-ds-muted">{state.directionLabel}</span>
+            </div>
+            <table>
+              <tbody>
+                {matrix.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((value, columnIndex) => (
+                      <td key={columnIndex} className="pr-2 text-right">{value}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function ReprojectionErrorPanel({ state }: { state: ReprojectionErrorPanelState }) {
+  return (
+    <details
+      className="absolute top-2 left-2 z-10 max-w-[calc(100%-1rem)] px-2 py-1 bg-ds-void/80 text-ds-secondary text-xs rounded"
+      onClick={(event) => event.stopPropagation()}
+    >
+      <summary className="cursor-pointer select-none whitespace-nowrap">
+        <span className={state.warnings.length > 0 ? 'text-ds-warning' : 'text-ds-primary'}>Reprojection</span>
+        {' '}· {state.summaryLabel}
+      </summary>
+      <div className="mt-1 flex flex-wrap gap-3">
+        <div title="Mean error per sensor cell">
+          <div className="text-ds-primary">Sensor</div>
+          <div style={state.heatmapStyle} className="border border-ds-border">
+            {state.heatmapCells.map((cell) => (
+              <div key={cell.key} style={{ backgroundColor: cell.color }} title={cell.title} />
+            ))}
+          </div>
+        </div>
+        <div title="Mean error (solid) and radial bias (dashed, outward up) from centre to corner">
+          <div className="text-ds-primary">Radial <span className="text-ds-muted">0–{state.radialMaxLabel}</span></div>
+          <svg width={REPROJECTION_RADIAL_PLOT_WIDTH} height={REPROJECTION_RADIAL_PLOT_HEIGHT} className="border border-ds-border">
+            <line
+              x1={0}
+              x2={REPROJECTION_RADIAL_PLOT_WIDTH}
+              y1={REPROJECTION_RADIAL_PLOT_HEIGHT / 2}
+              y2={REPROJECTION_RADIAL_PLOT_HEIGHT / 2}
+              stroke="currentColor"
+              strokeOpacity={0.3}
+            />
+            <polyline points={state.radialErrorPoints} fill="none" stroke="currentColor" />
+            <polyline points={state.radialBiasPoints} fill="none" stroke="currentColor" strokeDasharray="3 2" />
+          </svg>
+        </div>
+      </div>
+      <div className="mt-1 text-ds-muted">{state.magnificationLabel} · {state.colorScaleLabel}</div>
+      {state.warnings.map((warning) => (
+        <div key={warning} className="text-ds-warning">{warning} — check the distortion parameters</div>
+      ))}
+    </details>
+  );
+}
+
+function SplatErrorMapPaneView({
+  pane,
+  width,
+  height,
+  legendGradient,
+  captionSide = 'left',
+}: {
+  pane: SplatErrorMapPane;
+  width: number;
+  height: number;
+  legendGradient: string;
+  captionSide?: 'left' | 'right';
+}) {
+  return (
+    <div className="relative min-w-0 min-h-0 w-full h-full">
+      <SplatErrorMapCanvas
+        pixels={pane.pixels}
+        width={width}
+        height={height}
+        label={pane.label}
+        className="absolute inset-0 w-full h-full object-contain"
+      />
+      <div
+        className={`absolute bottom-1 ${captionSide === 'left' ? 'left-1' : 'right-1'} px-1.5 py-0.5 bg-ds-void/80 text-ds-secondary text-xs rounded pointer-events-none whitespace-nowrap`}
+      >
+        <span className="text-ds-primary">{pane.label}</span>
+        {pane.legend && (
+          <span className="ml-2 inline-flex items-center gap-1 text-ds-muted">
+            <span className="inline-block w-12 h-2 rounded-sm" style={{ background: legendGradient }} />
+            {pane.legend}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SplatErrorMapView({
+  control,
+  layout,
+}: {
+  control: ImageDetailSplatErrorMapViewControl;
+  layout: SingleImageLayout;
+}) {
+  const [splitX, setSplitX] = useState(0.5);
+  const { state } = control;
+  const panel = state.status === 'ready'
+    ? getSplatErrorMapPanelState(state.maps, control.views, control.layout)
+    : null;
+  const statusLabel = getSplatErrorMapStatusLabel(state);
+  const handleSwipeMove = (event: MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width > 0) setSplitX((event.clientX - rect.left) / rect.width);
+  };
+
+  return (
+    <div
+      className="absolute bg-ds-void"
+      style={getSplatErrorMapOverlayStyle(layout)}
+      onClick={(event) => event.stopPropagation()}
+      onMouseMove={panel?.swipeOverlay ? handleSwipeMove : undefined}
+      data-testid="splat-error-map-view"
+    >
+      {state.status === 'ready' && panel ? (
+        <>
+          <div className="absolute inset-0" style={panel.gridStyle}>
+            {panel.panes.map((pane) => (
+              <SplatErrorMapPaneView
+                key={pane.view}
+                pane={pane}
+                width={state.maps.width}
+                height={state.maps.height}
+                legendGradient={panel.legendGradient}
+                captionSide={panel.swipeOverlay ? 'right' : 'left'}
+              />
+            ))}
+          </div>
+          {panel.swipeOverlay && (
+            <>
+              <div className="absolute inset-0" style={getSplatErrorMapSwipeClipStyle(splitX)}>
+                <SplatErrorMapPaneView
+                  pane={panel.swipeOverlay}
+                  width={state.maps.width}
+                  height={state.maps.height}
+                  legendGradient={panel.legendGradient}
+                />
+              </div>
+              <div
+                className="absolute top-0 bottom-0 w-px bg-ds-light pointer-events-none"
+                style={{ left: `${splitX * 100}%` }}
+              />
+            </>
+          )}
+        </>
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-ds-secondary">
+          {statusLabel}
+        </div>
+      )}
+      <details className="absolute top-2 right-2 z-10 max-w-[calc(100%-1rem)] px-2 py-1 bg-ds-void/80 text-ds-secondary text-xs rounded">
+        <summary className="cursor-pointer select-none whitespace-nowrap">
+          <span className={state.status === 'error' ? 'text-ds-warning' : 'text-ds-primary'}>Splat error</span>
+          {' '}· {panel?.summaryLabel ?? statusLabel}
+        </summary>
+        <div className="mt-1 flex flex-wrap gap-2">
+          {SPLAT_ERROR_MAP_VIEWS.map((view) => {
+            const active = control.views.includes(view);
+            return (
+              <button
+                key={view}
+                type="button"
+                aria-pressed={active}
+                className={active ? 'text-ds-primary' : 'text-ds-muted hover:text-ds-secondary'}
+                onClick={() => control.onToggleView(view)}
+              >
+                {SPLAT_ERROR_MAP_VIEW_LABELS[view]}
+              </button>
+            );
+          })}
+        </div>
+        <div className="mt-1 flex gap-2">
+          {SPLAT_ERROR_MAP_LAYOUTS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={control.layout === option}
+              className={control.layout === option ? 'text-ds-primary' : 'text-ds-muted hover:text-ds-secondary'}
+              onClick={() => control.onLayoutChange(option)}
+            >
+              {SPLAT_ERROR_MAP_LAYOUT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
+
 interface SingleImageViewProps {
   image: Image;
   camera: Camera;
@@ -116,6 +365,11 @@ interface SingleImageViewProps {
   onMaskClick?: () => void;
   onMaskMouseMove?: (event: MouseEvent<HTMLDivElement>) => void;
   onMaskMouseLeave?: () => void;
+  gcp?: ImageDetailGcpControl | null;
+  /** Reprojection residuals of the shown image; null when the explorer is off. */
+  reprojection?: ReprojectionErrorAnalysis | null;
+  /** Splat error panes covering the image; null when the view is off. */
+  splatErrorMaps?: ImageDetailSplatErrorMapViewControl | null;
 }
 
 export function SingleImageView({
@@ -135,6 +389,9 @@ export function SingleImageView({
   onMaskClick,
   onMaskMouseMove,
   onMaskMouseLeave,
+  gcp = null,
+  reprojection = null,
+  splatErrorMaps = null,
 }: SingleImageViewProps) {
   const { renderedImageWidth, renderedImageHeight } = layout;
   const viewState = getSingleImageViewRenderState({
@@ -149,13 +406,30 @@ export function SingleImageView({
     hasMaskSrc: Boolean(maskSrc),
   });
 
+  const magnification = reprojection
+    ? getResidualMagnification(reprojection.medianError, renderedImageWidth / camera.width)
+    : 1;
+  const onImagePointClick = gcp?.onImagePointClick ?? null;
+  // GCP picking takes clicks over mask cycling.
+  const handleClick = onImagePointClick
+    ? (event: MouseEvent<HTMLDivElement>) => {
+      const pixel = getImagePixelFromClientPoint(
+        { x: event.clientX, y: event.clientY },
+        event.currentTarget.getBoundingClientRect(),
+        layout,
+        camera
+      );
+      if (pixel) onImagePointClick(pixel);
+    }
+    : viewState.canShowMask ? onMaskClick : undefined;
+
   return (
     <div
       className="group absolute inset-0"
-      onClick={viewState.canShowMask ? onMaskClick : undefined}
+      onClick={handleClick}
       onMouseMove={viewState.canShowMask ? onMaskMouseMove : undefined}
       onMouseLeave={viewState.canShowMask ? onMaskMouseLeave : undefined}
-      style={viewState.containerStyle}
+      style={onImagePointClick ? { ...viewState.containerStyle, cursor: 'crosshair' } : viewState.containerStyle}
     >
       {viewState.canShowRenderedArea && (imageSrc ? (
         <>
@@ -205,6 +479,35 @@ export function SingleImageView({
           showPoints3D={showPoints3D}
         />
       )}
+      {viewState.canShowRenderedArea && reprojection && (
+        <>
+          <ReprojectionResidualCanvas
+            residuals={reprojection.residuals}
+            camera={camera}
+            imageWidth={renderedImageWidth}
+            imageHeight={renderedImageHeight}
+            containerWidth={containerSize.width}
+            containerHeight={containerSize.height}
+            magnification={magnification}
+            colorScale={getReprojectionColorScale(reprojection)}
+          />
+          <ReprojectionErrorPanel state={getReprojectionErrorPanelState(reprojection, magnification)} />
+        </>
+      )}
+      {viewState.canShowRenderedArea && splatErrorMaps && (
+        <SplatErrorMapView control={splatErrorMaps} layout={layout} />
+      )}
+      {viewState.canShowRenderedArea && gcp?.markers.map((marker) => (
+        <div
+          key={marker.gcpId}
+          className={`absolute rounded-full border-2 pointer-events-none ${
+            marker.isActive ? 'border-ds-accent' : 'border-ds-light'
+          }`}
+          style={getImageDetailGcpMarkerStyle(marker, layout, camera)}
+          title={marker.label}
+          data-testid="image-detail-gcp-marker"
+        />
+      ))}
     </div>
   );
 }
@@ -0,0 +1,236 @@
+/**
+ * Per-camera intrinsics calibration report: residuals aggregated over every
+ * image sharing a camera, sensor coverage, the distortion curve and how the
+ * simpler convertible models would fit. Exports as JSON or standalone HTML.
+ * Triggered from the Export panel.
+ */
+
+import { memo, useCallback, useMemo, useState } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { writeIntrinsicsReportHtml, writeIntrinsicsReportJson } from '../../parsers/intrinsicsReportExport';
+import { controlPanelStyles, inputStyles } from '../../theme';
+import type { CameraId, ImageId, Reconstruction } from '../../types/colmap';
+import { buildTimestampedFilename, downloadFile } from '../../utils/download';
+import { buildIntrinsicsReports, type CameraIntrinsicsReport } from '../../utils/intrinsicsReport';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import {
+  DISTORTION_PLOT_HEIGHT,
+  DISTORTION_PLOT_WIDTH,
+  INTRINSICS_REPORT_MODAL_ESTIMATED_HEIGHT,
+  INTRINSICS_REPORT_MODAL_WIDTH,
+  getDistortionCurvePlot,
+  getIntrinsicsReportPanelStyle,
+  getIntrinsicsReportSummary,
+  getSimplerModelRows,
+  getWorstImageRows,
+} from './intrinsicsReportModalViewModel';
+import { useIntrinsicsReportStoreFacade } from './useIntrinsicsReportStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface IntrinsicsReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface GeneratedReports {
+  reconstruction: Reconstruction;
+  reports: CameraIntrinsicsReport[];
+}
+
+export const IntrinsicsReportModal = memo(function IntrinsicsReportModal({
+  isOpen,
+  onClose,
+}: IntrinsicsReportModalProps) {
+  const {
+    data: { reconstruction, wasmReconstruction },
+    selection: { setSelectedImageId, flyToImage },
+  } = useIntrinsicsReportStoreFacade();
+  const [generated, setGenerated] = useState<GeneratedReports | null>(null);
+  const [selectedCameraId, setSelectedCameraId] = useState<CameraId | null>(null);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: INTRINSICS_REPORT_MODAL_WIDTH,
+    estimatedHeight: INTRINSICS_REPORT_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  // Reports of an earlier model no longer describe the loaded cameras.
+  const reports = generated && generated.reconstruction === reconstruction ? generated.reports : null;
+  const report = reports?.find((item) => item.cameraId === selectedCameraId) ?? reports?.[0] ?? null;
+  const summary = report ? getIntrinsicsReportSummary(report) : null;
+  const simplerModels = useMemo(() => (report ? getSimplerModelRows(report) : []), [report]);
+  const worstImages = useMemo(() => (report ? getWorstImageRows(report) : []), [report]);
+  const distortionPlot = useMemo(() => (report ? getDistortionCurvePlot(report.distortionCurve) : null), [report]);
+
+  const handleGenerate = useCallback(() => {
+    if (!reconstruction) return;
+    setGenerated({
+      reconstruction,
+      reports: buildIntrinsicsReports(
+        reconstruction,
+        (image) => wasmReconstruction?.getImagePoints2DArray(image.imageId) ?? [],
+        wasmReconstruction
+      ),
+    });
+  }, [reconstruction, wasmReconstruction]);
+
+  const handleExportJson = useCallback(() => {
+    if (reports) downloadFile(writeIntrinsicsReportJson(reports), buildTimestampedFilename('intrinsics-report', 'json'));
+  }, [reports]);
+
+  const handleExportHtml = useCallback(() => {
+    if (reports) {
+      downloadFile(
+        writeIntrinsicsReportHtml(reports, 'Intrinsics calibration report'),
+        buildTimestampedFilename('intrinsics-report', 'html')
+      );
+    }
+  }, [reports]);
+
+  const handleSelectImage = useCallback((imageId: ImageId) => {
+    setSelectedImageId(imageId);
+    flyToImage(imageId);
+  }, [flyToImage, setSelectedImageId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Intrinsics Report"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getIntrinsicsReportPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to build a report.</div>
+        ) : (
+          <>
+            <div className={styles.actionGroup}>
+              <button type="button" onClick={handleGenerate} className={styles.actionButton}>
+                {reports ? 'Regenerate' : 'Generate Report'}
+              </button>
+              <button
+                type="button"
+                onClick={handleExportJson}
+                className={styles.presetButton}
+                disabled={!reports}
+              >
+                JSON
+              </button>
+              <button
+                type="button"
+                onClick={handleExportHtml}
+                className={styles.presetButton}
+                disabled={!reports}
+              >
+                HTML
+              </button>
+            </div>
+
+            {reports && reports.length > 1 && (
+              <select
+                value={report ? String(report.cameraId) : ''}
+                onChange={(event) => setSelectedCameraId(Number(event.target.value))}
+                className={`${inputStyles.select} ${inputStyles.selectSizes.xs} w-full`}
+                aria-label="Camera"
+              >
+                {reports.map((item) => (
+                  <option key={item.cameraId} value={item.cameraId}>
+                    Camera {item.cameraId} · {item.modelName} · {item.imageCount} images
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {report && summary && (
+              <>
+                <div className="space-y-0.5 text-ds-secondary">
+                  <div className="text-ds-primary">{summary.titleLabel}</div>
+                  <div>{summary.observationLabel}</div>
+                  <div>{summary.errorLabel}</div>
+                  {summary.spreadLabel && <div>{summary.spreadLabel}</div>}
+                  <div>{summary.coverageLabel}</div>
+                </div>
+
+                {report.distortionWarnings.map((warning) => (
+                  <div key={warning} className="text-ds-warning">{warning}</div>
+                ))}
+
+                {distortionPlot && (
+                  <div>
+                    <div className="text-ds-secondary mb-0.5">Distortion curve ({distortionPlot.maxLabel})</div>
+                    <svg
+                      width={DISTORTION_PLOT_WIDTH}
+                      height={DISTORTION_PLOT_HEIGHT}
+                      className="rounded border border-ds-border"
+                    >
+                      <line
+                        x1={0}
+                        y1={DISTORTION_PLOT_HEIGHT / 2}
+                        x2={DISTORTION_PLOT_WIDTH}
+                        y2={DISTORTION_PLOT_HEIGHT / 2}
+                        stroke="currentColor"
+                        strokeOpacity={0.3}
+                      />
+                      <polyline points={distortionPlot.points} fill="none" stroke="currentColor" strokeWidth={1.5} />
+                    </svg>
+                  </div>
+                )}
+
+                {simplerModels.length > 0 && (
+                  <div>
+                    <div className="text-ds-secondary mb-0.5">Simpler models (mean error)</div>
+                    {simplerModels.map((row) => (
+                      <div key={row.label} className="flex gap-2 text-ds-secondary">
+                        <span className="flex-1 truncate">{row.label}</span>
+                        <span className={row.comparable ? 'whitespace-nowrap text-ds-success' : 'whitespace-nowrap'}>
+                          {row.detail}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {worstImages.length > 0 && (
+                  <div>
+                    <div className="text-ds-secondary mb-0.5">Largest per-image error</div>
+                    {worstImages.map((row) => (
+                      <button
+                        key={row.imageId}
+                        type="button"
+                        onClick={() => handleSelectImage(row.imageId)}
+                        className="flex w-full gap-2 text-left text-ds-secondary hover-ds-text-primary"
+                      >
+                        <span className="truncate flex-1">{row.label}</span>
+                        <span className="whitespace-nowrap">{row.detail}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className={styles.hint}>
+              Reprojection residuals are pooled over every image using the camera. Simpler models are
+              converted from the current parameters and re-scored on the same observations; green
+              ones fit within 10% of the current error. The HTML export adds the radial residual
+              plot and sensor coverage grid.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
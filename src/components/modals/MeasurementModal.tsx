@@ -0,0 +1,217 @@
+/**
+ * Measurements: pick distances, polylines, areas, angles and heights on the
+ * point cloud, rename or remove them, and export them as CSV or JSON.
+ * Values use the displayed frame, so the active transform's scale applies.
+ * Triggered from the Transform panel.
+ */
+
+import { memo, useCallback, useMemo } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { writeMeasurementsCsv, writeMeasurementsJson } from '../../parsers/measurementExport';
+import { controlPanelStyles } from '../../theme';
+import { buildTimestampedFilename, downloadFile } from '../../utils/download';
+import {
+  canFinishMeasurement,
+  evaluateMeasurements,
+  getMeasurementFloor,
+  MEASUREMENT_POINT_COUNTS,
+  MEASUREMENT_TYPE_LABELS,
+} from '../../utils/measurementGeometry';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { SelectRow, ToggleRow } from '../viewer3d/ControlComponents';
+import {
+  MEASUREMENT_MODAL_ESTIMATED_HEIGHT,
+  MEASUREMENT_MODAL_WIDTH,
+  MEASUREMENT_TOOL_OPTIONS,
+  getMeasurementDraftStatus,
+  getMeasurementFloorNote,
+  getMeasurementListStyle,
+  getMeasurementModalPanelStyle,
+} from './measurementModalViewModel';
+import { useMeasurementStoreFacade } from './useMeasurementStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface MeasurementModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const MeasurementModal = memo(function MeasurementModal({
+  isOpen,
+  onClose,
+}: MeasurementModalProps) {
+  const {
+    data: { reconstruction, measurements, tool, draftPoints, showLabels, transform, detectedPlane, normalFlipped, isPicking },
+    actions: {
+      setMeasurementTool,
+      finishMeasurement,
+      removeLastMeasurementPoint,
+      cancelMeasurement,
+      renameMeasurement,
+      removeMeasurement,
+      setShowLabels,
+      clearMeasurements,
+      setPickingMode,
+    },
+  } = useMeasurementStoreFacade();
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: MEASUREMENT_MODAL_WIDTH,
+    estimatedHeight: MEASUREMENT_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const floor = useMemo(() => getMeasurementFloor(detectedPlane, normalFlipped), [detectedPlane, normalFlipped]);
+  const evaluated = useMemo(
+    () => (isOpen ? evaluateMeasurements(measurements, transform, floor) : []),
+    [isOpen, measurements, transform, floor]
+  );
+  const floorNote = getMeasurementFloorNote(tool, floor !== null);
+  const canFinish = canFinishMeasurement(tool, draftPoints.length);
+
+  const handleTogglePicking = useCallback(() => {
+    setPickingMode(isPicking ? 'off' : 'measure');
+  }, [isPicking, setPickingMode]);
+
+  const handleExportCsv = useCallback(() => {
+    downloadFile(writeMeasurementsCsv(evaluated), buildTimestampedFilename('measurements', 'csv'));
+  }, [evaluated]);
+
+  const handleExportJson = useCallback(() => {
+    downloadFile(writeMeasurementsJson(evaluated), buildTimestampedFilename('measurements', 'json'));
+  }, [evaluated]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Measurements"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getMeasurementModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to measure it.</div>
+        ) : (
+          <>
+            <SelectRow label="Tool" value={tool} onChange={setMeasurementTool} options={MEASUREMENT_TOOL_OPTIONS} />
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={handleTogglePicking}
+                className={isPicking ? styles.actionButtonPrimary : styles.actionButton}
+              >
+                {isPicking ? 'Stop Picking' : 'Pick Points'}
+              </button>
+              {!MEASUREMENT_POINT_COUNTS[tool].fixed && (
+                <button
+                  type="button"
+                  onClick={finishMeasurement}
+                  className={canFinish ? styles.presetButton : styles.actionButtonDisabled}
+                  disabled={!canFinish}
+                >
+                  Finish
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={removeLastMeasurementPoint}
+                className={styles.presetButton}
+                disabled={draftPoints.length === 0}
+              >
+                Undo Point
+              </button>
+              <button
+                type="button"
+                onClick={cancelMeasurement}
+                className={styles.presetButton}
+                disabled={draftPoints.length === 0}
+              >
+                Cancel
+              </button>
+            </div>
+
+            <div className="text-ds-secondary">{getMeasurementDraftStatus(tool, draftPoints.length)}</div>
+            {floorNote && <div className="text-ds-secondary">{floorNote}</div>}
+
+            {evaluated.length > 0 && (
+              <div className="overflow-y-auto space-y-1" style={getMeasurementListStyle()}>
+                {evaluated.map(({ measurement, label }) => (
+                  <div
+                    key={measurement.id}
+                    className="flex items-center gap-2 rounded border border-ds px-2 py-1"
+                    data-testid="measurement-row"
+                  >
+                    <input
+                      type="text"
+                      value={measurement.name}
+                      onChange={(event) => renameMeasurement(measurement.id, event.target.value)}
+                      className={`${styles.valueInput} w-28`}
+                      aria-label="Measurement name"
+                    />
+                    <span className="text-ds-secondary">{MEASUREMENT_TYPE_LABELS[measurement.type]}</span>
+                    <span className="flex-1 text-right font-mono">{label}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeMeasurement(measurement.id)}
+                      className="text-ds-secondary hover-ds-text-primary"
+                      title="Remove measurement"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ToggleRow label="Labels" checked={showLabels} onChange={setShowLabels} />
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={handleExportCsv}
+                className={styles.presetButton}
+                disabled={measurements.length === 0}
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                onClick={handleExportJson}
+                className={styles.presetButton}
+                disabled={measurements.length === 0}
+              >
+                Export JSON
+              </button>
+              {measurements.length > 0 && (
+                <button type="button" onClick={clearMeasurements} className={styles.presetButton}>
+                  Clear
+                </button>
+              )}
+            </div>
+
+            <div className={styles.hint}>
+              While picking, clicks on the point cloud add points to the current measurement. Distances,
+              angles and heights are stored on their last point; polylines and areas are stored with
+              Finish. Measurements are saved with the config and share links and follow the data when
+              the transform is applied.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -0,0 +1,181 @@
+/**
+ * Point editing: select 3D points with a box or lasso drawn over the view or
+ * with the viewing volume of the selected image, delete them from the
+ * reconstruction and undo recent deletions. Exports write the edited model.
+ * Triggered from the Point Cloud panel.
+ */
+
+import { memo, useCallback, useState, type MouseEvent } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useHotkeyBindings } from '../../hooks/useHotkeyBindings';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import type { PointSelectionTool } from '../../store';
+import { controlPanelStyles } from '../../theme';
+import { getPointSelectionMode } from '../../utils/pointSelection';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import {
+  POINT_EDIT_MODAL_ESTIMATED_HEIGHT,
+  POINT_EDIT_MODAL_WIDTH,
+  canUndoPointEdit,
+  getPointEditModalPanelStyle,
+  getPointEditSelectionLabel,
+  getPointEditUndoLabel,
+  parseFrustumMaxDepth,
+} from './pointEditModalViewModel';
+import { usePointEditStoreFacade } from './usePointEditStoreFacade';
+
+const styles = controlPanelStyles;
+
+const TOOLS: { tool: PointSelectionTool; label: string }[] = [
+  { tool: 'box', label: 'Box' },
+  { tool: 'lasso', label: 'Lasso' },
+];
+
+export interface PointEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const PointEditModal = memo(function PointEditModal({
+  isOpen,
+  onClose,
+}: PointEditModalProps) {
+  const {
+    data: { reconstruction, selectedImageId, tool, selectedPointIds, undoStack },
+    actions: { setTool, requestSelection, clearSelection, deleteSelectedPoints, undoPointDeletion },
+  } = usePointEditStoreFacade();
+  const [maxDepth, setMaxDepth] = useState('');
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: POINT_EDIT_MODAL_WIDTH,
+    estimatedHeight: POINT_EDIT_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  // The drawing overlay and the deletion highlight only make sense while the tool is open.
+  const handleClose = useCallback(() => {
+    setTool('off');
+    clearSelection();
+    onClose();
+  }, [clearSelection, onClose, setTool]);
+
+  const canDelete = selectedPointIds.size > 0;
+  const canUndo = canUndoPointEdit(undoStack, reconstruction);
+
+  useHotkeys('escape', handleClose, { enabled: isOpen }, [isOpen, handleClose]);
+  const hotkeys = useHotkeyBindings();
+  useHotkeys(
+    hotkeys.deleteSelectedPoints.keys,
+    () => { deleteSelectedPoints(); },
+    { scopes: hotkeys.deleteSelectedPoints.scopes, enabled: isOpen && canDelete },
+    [isOpen, canDelete, deleteSelectedPoints]
+  );
+
+  const handleSelectFrustum = useCallback((event: MouseEvent<HTMLButtonElement>) => {
+    if (selectedImageId === null) return;
+    requestSelection({
+      kind: 'frustum',
+      imageId: selectedImageId,
+      maxDepth: parseFrustumMaxDepth(maxDepth),
+      mode: getPointSelectionMode(event),
+    });
+  }, [maxDepth, requestSelection, selectedImageId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Edit Points"
+      onClose={handleClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getPointEditModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to edit points.</div>
+        ) : (
+          <>
+            <div className={styles.actionGroup}>
+              {TOOLS.map((item) => (
+                <button
+                  key={item.tool}
+                  type="button"
+                  onClick={() => setTool(tool === item.tool ? 'off' : item.tool)}
+                  className={tool === item.tool ? styles.actionButtonPrimary : styles.actionButton}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handleSelectFrustum}
+                className={selectedImageId !== null ? styles.presetButton : styles.actionButtonDisabled}
+                disabled={selectedImageId === null}
+                data-tooltip="Select the points the selected image sees"
+                data-tooltip-pos="bottom"
+              >
+                Image Frustum
+              </button>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={maxDepth}
+                onChange={(event) => setMaxDepth(event.target.value)}
+                placeholder="Max depth"
+                className={`${styles.valueInput} w-20`}
+                aria-label="Frustum max depth"
+              />
+            </div>
+
+            <div className="text-ds-secondary">{getPointEditSelectionLabel(selectedPointIds.size)}</div>
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={() => { deleteSelectedPoints(); }}
+                className={canDelete ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+                disabled={!canDelete}
+              >
+                Delete Selected
+              </button>
+              <button
+                type="button"
+                onClick={clearSelection}
+                className={styles.presetButton}
+                disabled={!canDelete}
+              >
+                Clear
+              </button>
+              <button
+                type="button"
+                onClick={() => { undoPointDeletion(); }}
+                className={canUndo ? styles.presetButton : styles.actionButtonDisabled}
+                disabled={!canUndo}
+              >
+                {getPointEditUndoLabel(undoStack)}
+              </button>
+            </div>
+
+            <div className={styles.hint}>
+              With Box or Lasso active, drag over the view to select visible points (camera
+              navigation pauses until the tool is turned off). Hold Shift to add to the selection
+              and Alt to subtract. Deleting removes the points' tracks and unlinks their 2D
+              observations; exports write the edited reconstruction.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -0,0 +1,214 @@
+/**
+ * Compare the loaded reconstruction against a second model of the same scene:
+ * images matched by name, Sim3d-aligned on camera centres, with per-image
+ * pose error distributions. Triggered from the Cameras panel.
+ */
+
+import { memo, useCallback, useMemo, useRef, type ChangeEvent } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { controlPanelStyles, histogramStyles } from '../../theme';
+import type { ImageId } from '../../types/colmap';
+import { computeReconstructionDiff } from '../../utils/reconstructionDiff';
+import { StatHistogramChart } from '../layout/StatHistogramChart';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { RECONSTRUCTION_DIFF_MAX_ROTATION_DEG } from '../viewer3d/reconstructionDiffOverlayPolicy';
+import {
+  RECONSTRUCTION_DIFF_MODAL_ESTIMATED_HEIGHT,
+  RECONSTRUCTION_DIFF_MODAL_WIDTH,
+  getReconstructionDiffHistograms,
+  getReconstructionDiffPanelStyle,
+  getReconstructionDiffSummary,
+  getUnmatchedImageItems,
+  getWorstReconstructionDiffImages,
+  type ReconstructionDiffListItem,
+} from './reconstructionDiffModalViewModel';
+import { useReconstructionDiffStoreFacade } from './useReconstructionDiffStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface ReconstructionDiffModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface DiffImageListProps {
+  title: string;
+  items: ReconstructionDiffListItem[];
+  hiddenCount?: number;
+  onSelect?: (imageId: ImageId) => void;
+}
+
+function DiffImageList({ title, items, hiddenCount = 0, onSelect }: DiffImageListProps) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <div className="text-ds-secondary mb-0.5">{title}</div>
+      <div className="max-h-24 overflow-y-auto space-y-0.5">
+        {items.map((item) => (onSelect ? (
+          <button
+            key={item.imageId}
+            type="button"
+            onClick={() => onSelect(item.imageId)}
+            className="flex w-full gap-2 text-left text-ds-secondary hover-ds-text-primary"
+          >
+            <span className="truncate flex-1">{item.label}</span>
+            {item.detail && <span className="whitespace-nowrap">{item.detail}</span>}
+          </button>
+        ) : (
+          <div key={item.imageId} className="truncate text-ds-muted">{item.label}</div>
+        )))}
+        {hiddenCount > 0 && <div className="text-ds-muted">…and {hiddenCount} more</div>}
+      </div>
+    </div>
+  );
+}
+
+export const ReconstructionDiffModal = memo(function ReconstructionDiffModal({
+  isOpen,
+  onClose,
+}: ReconstructionDiffModalProps) {
+  const {
+    data: { reconstruction, status, compareLabel, compareImages, error, showDiffOverlay },
+    actions: { loadCompareFiles, setShowDiffOverlay, clearCompare },
+    selection: { setSelectedImageId, flyToImage },
+  } = useReconstructionDiffStoreFacade();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: RECONSTRUCTION_DIFF_MODAL_WIDTH,
+    estimatedHeight: RECONSTRUCTION_DIFF_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const diff = useMemo(
+    () => (isOpen && reconstruction && compareImages
+      ? computeReconstructionDiff(reconstruction.images.values(), compareImages.values())
+      : null),
+    [isOpen, reconstruction, compareImages]
+  );
+  const summary = diff ? getReconstructionDiffSummary(diff) : null;
+  const histograms = useMemo(() => (diff?.alignment ? getReconstructionDiffHistograms(diff) : null), [diff]);
+  const worstImages = useMemo(() => (diff ? getWorstReconstructionDiffImages(diff) : []), [diff]);
+  const onlyInReference = useMemo(() => getUnmatchedImageItems(diff?.onlyInReference ?? []), [diff]);
+  const onlyInCompare = useMemo(() => getUnmatchedImageItems(diff?.onlyInCompare ?? []), [diff]);
+
+  const handleFilesChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) void loadCompareFiles(files);
+  }, [loadCompareFiles]);
+
+  const handleSelectImage = useCallback((imageId: ImageId) => {
+    setSelectedImageId(imageId);
+    flyToImage(imageId);
+  }, [flyToImage, setSelectedImageId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Compare Reconstruction"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getReconstructionDiffPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to compare against.</div>
+        ) : (
+          <>
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className={styles.actionButton}
+                disabled={status === 'loading'}
+              >
+                {compareImages ? 'Replace Compare Model' : 'Load Compare Model'}
+              </button>
+              {compareImages && (
+                <button type="button" onClick={clearCompare} className={styles.presetButton}>
+                  Clear
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".bin,.txt"
+                multiple
+                className="hidden"
+                onChange={handleFilesChange}
+              />
+            </div>
+
+            {status === 'loading' && <div className="text-ds-secondary">Reading {compareLabel}…</div>}
+            {status === 'error' && <div className="text-ds-error">{error}</div>}
+
+            {summary && (
+              <div className="space-y-0.5 text-ds-secondary">
+                <div className="truncate text-ds-primary" title={compareLabel ?? undefined}>{compareLabel}</div>
+                <div>{summary.matchLabel}</div>
+                <div className={diff?.alignment ? undefined : 'text-ds-warning'}>{summary.alignmentLabel}</div>
+                {summary.positionLabel && <div>{summary.positionLabel}</div>}
+                {summary.rotationLabel && <div>{summary.rotationLabel}</div>}
+              </div>
+            )}
+
+            {histograms && (
+              <>
+                <div>
+                  <div className={histogramStyles.title}>Position Error Distribution</div>
+                  <StatHistogramChart bins={histograms.position.bins} />
+                </div>
+                <div>
+                  <div className={histogramStyles.title}>Rotation Error Distribution (°)</div>
+                  <StatHistogramChart bins={histograms.rotation.bins} />
+                </div>
+              </>
+            )}
+
+            <DiffImageList title="Largest errors" items={worstImages} onSelect={handleSelectImage} />
+            <DiffImageList
+              title="Only in loaded model"
+              items={onlyInReference.items}
+              hiddenCount={onlyInReference.hiddenCount}
+              onSelect={handleSelectImage}
+            />
+            <DiffImageList
+              title="Only in compare model"
+              items={onlyInCompare.items}
+              hiddenCount={onlyInCompare.hiddenCount}
+            />
+
+            {diff?.alignment && (
+              <label className="flex items-center gap-2 text-ds-secondary">
+                <input
+                  type="checkbox"
+                  checked={showDiffOverlay}
+                  onChange={(event) => setShowDiffOverlay(event.target.checked)}
+                />
+                Show error vectors in 3D view
+              </label>
+            )}
+
+            <div className={styles.hint}>
+              Pick images.bin/.txt (and cameras) of another model of the same scene.
+              Error vectors run from each loaded camera to its aligned counterpart,
+              green to red up to {RECONSTRUCTION_DIFF_MAX_ROTATION_DEG}° rotation error.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
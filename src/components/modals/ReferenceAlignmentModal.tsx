@@ -0,0 +1,244 @@
+/**
+ * Georeference the reconstruction from a reference pose file (TUM, KITTI or
+ * name,x,y,z CSV): RANSAC Sim3d from matched camera centres, previewed through
+ * the scene transform. Triggered from the Transform panel.
+ */
+
+import { memo, useCallback, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { controlPanelStyles } from '../../theme';
+import type { ImageId } from '../../types/colmap';
+import {
+  computeReferencePoseAlignment,
+  getDefaultReferenceInlierThreshold,
+  matchReferencePoses,
+} from '../../utils/referencePoseAlignment';
+import { sim3dToEuler } from '../../utils/sim3dTransforms';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import {
+  REFERENCE_ALIGNMENT_MODAL_ESTIMATED_HEIGHT,
+  REFERENCE_ALIGNMENT_MODAL_WIDTH,
+  formatInlierThreshold,
+  getReferenceAlignmentPanelStyle,
+  getReferenceAlignmentSummary,
+  getReferenceMatchLabel,
+  getWorstReferenceResiduals,
+  parseInlierThresholdInput,
+} from './referenceAlignmentModalViewModel';
+import { useReferenceAlignmentStoreFacade } from './useReferenceAlignmentStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface ReferenceAlignmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const ReferenceAlignmentModal = memo(function ReferenceAlignmentModal({
+  isOpen,
+  onClose,
+}: ReferenceAlignmentModalProps) {
+  const {
+    data: { reconstruction, status, fileLabel, poses, error, alignment, alignedReconstruction, showResiduals },
+    actions: { loadReferenceFile, setAlignment, setShowResiduals, clearReference, setTransform },
+    selection: { setSelectedImageId, flyToImage },
+  } = useReferenceAlignmentStoreFacade();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [solveError, setSolveError] = useState<string | null>(null);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: REFERENCE_ALIGNMENT_MODAL_WIDTH,
+    estimatedHeight: REFERENCE_ALIGNMENT_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const matches = useMemo(
+    () => (isOpen && reconstruction && poses ? matchReferencePoses(reconstruction.images.values(), poses) : null),
+    [isOpen, reconstruction, poses]
+  );
+  const defaultThreshold = useMemo(
+    () => (matches ? getDefaultReferenceInlierThreshold(matches.matches) : 0),
+    [matches]
+  );
+  // Residuals of an earlier model no longer describe the loaded cameras.
+  const currentAlignment = alignment && alignedReconstruction === reconstruction ? alignment : null;
+  const summary = currentAlignment ? getReferenceAlignmentSummary(currentAlignment) : null;
+  const worstResiduals = useMemo(
+    () => (currentAlignment ? getWorstReferenceResiduals(currentAlignment) : []),
+    [currentAlignment]
+  );
+
+  const handleFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setSolveError(null);
+    void loadReferenceFile(file);
+  }, [loadReferenceFile]);
+
+  const handleSolve = useCallback(() => {
+    if (!reconstruction || !matches) return;
+    const threshold = parseInlierThresholdInput(thresholdInput) ?? defaultThreshold;
+    const result = computeReferencePoseAlignment(reconstruction.images, matches.matches, threshold);
+    setAlignment(result, result ? reconstruction : null);
+    setSolveError(result ? null : 'Need at least 3 matched, non-collinear cameras to align');
+  }, [reconstruction, matches, thresholdInput, defaultThreshold, setAlignment]);
+
+  const handleApply = useCallback(() => {
+    if (currentAlignment) setTransform(sim3dToEuler(currentAlignment.sim3d));
+  }, [currentAlignment, setTransform]);
+
+  const handleClear = useCallback(() => {
+    setSolveError(null);
+    clearReference();
+  }, [clearReference]);
+
+  const handleSelectImage = useCallback((imageId: ImageId) => {
+    setSelectedImageId(imageId);
+    flyToImage(imageId);
+  }, [flyToImage, setSelectedImageId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Align to Reference Poses"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getReferenceAlignmentPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className="px-4 py-2 space-y-2 text-xs">
+        {!reconstruction ? (
+          <div className="text-ds-secondary text-sm py-2">Load a reconstruction to align.</div>
+        ) : (
+          <>
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className={styles.actionButton}
+                disabled={status === 'loading'}
+              >
+                {poses ? 'Replace Reference File' : 'Load Reference File'}
+              </button>
+              {poses && (
+                <button type="button" onClick={handleClear} className={styles.presetButton}>
+                  Clear
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.csv"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+
+            {status === 'loading' && <div className="text-ds-secondary">Reading {fileLabel}…</div>}
+            {status === 'error' && <div className="text-ds-error">{error}</div>}
+
+            {poses && matches && (
+              <>
+                <div className="space-y-0.5 text-ds-secondary">
+                  <div className="truncate text-ds-primary" title={fileLabel ?? undefined}>{fileLabel}</div>
+                  <div>{getReferenceMatchLabel(poses, matches)}</div>
+                </div>
+
+                <label className="flex items-center gap-2 text-ds-secondary">
+                  Inlier threshold
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={thresholdInput}
+                    placeholder={formatInlierThreshold(defaultThreshold)}
+                    onChange={(event) => setThresholdInput(event.target.value)}
+                    className={`${styles.valueInput} w-20 font-mono`}
+                  />
+                </label>
+
+                <div className={styles.actionGroup}>
+                  <button
+                    type="button"
+                    onClick={handleSolve}
+                    className={styles.actionButton}
+                    disabled={matches.matches.length < 3}
+                  >
+                    Solve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleApply}
+                    className={currentAlignment ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+                    disabled={!currentAlignment}
+                  >
+                    Apply Transform
+                  </button>
+                </div>
+              </>
+            )}
+
+            {solveError && <div className="text-ds-warning">{solveError}</div>}
+
+            {summary && currentAlignment && (
+              <>
+                <div className="space-y-0.5 text-ds-secondary">
+                  <div>{summary.inlierLabel}</div>
+                  <div>{summary.rmseLabel}</div>
+                  <div>{summary.scaleLabel}</div>
+                </div>
+
+                <div>
+                  <div className="text-ds-secondary mb-0.5">Largest residuals</div>
+                  <div className="max-h-24 overflow-y-auto space-y-0.5">
+                    {worstResiduals.map((item) => (
+                      <button
+                        key={item.imageId}
+                        type="button"
+                        onClick={() => handleSelectImage(item.imageId)}
+                        className="flex w-full gap-2 text-left text-ds-secondary hover-ds-text-primary"
+                      >
+                        <span className="truncate flex-1">{item.label}</span>
+                        <span className={item.inlier ? 'whitespace-nowrap' : 'whitespace-nowrap text-ds-warning'}>
+                          {item.detail}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-ds-secondary">
+                  <input
+                    type="checkbox"
+                    checked={showResiduals}
+                    onChange={(event) => setShowResiduals(event.target.checked)}
+                  />
+                  Show residuals on cameras
+                </label>
+              </>
+            )}
+
+            <div className={styles.hint}>
+              TUM rows match images named by timestamp, KITTI rows follow sorted image order,
+              CSV rows match by image name. Residual vectors run from each camera to its reference
+              position, green to red at twice the threshold. "Apply" in the Transform panel bakes
+              the previewed transform into the data.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -0,0 +1,171 @@
+/**
+ * A/B comparison between the active splat (A) and a second splat source of
+ * the same scene (B): B is drawn right of a split or swipe divider in the 3D
+ * view, and measuring it over the dataset images gives a per-image
+ * PSNR_A − PSNR_B for frustum colouring and gallery sorting. Triggered from
+ * the Point Cloud panel.
+ */
+
+import { memo, useCallback, useMemo } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { controlPanelStyles } from '../../theme';
+import {
+  buildSplatPsnrDeltaMetrics,
+  getSplatComparisonCandidates,
+  summarizeSplatPsnrDelta,
+} from '../../utils/splatComparisonPolicy';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { SelectRow } from '../viewer3d/ControlComponents';
+import {
+  SPLAT_COMPARE_MODAL_ESTIMATED_HEIGHT,
+  SPLAT_COMPARE_MODAL_WIDTH,
+  SPLAT_COMPARE_NONE_VALUE,
+  SPLAT_COMPARISON_LAYOUT_OPTIONS,
+  getSplatCompareModalPanelStyle,
+  getSplatCompareSourceOptions,
+  getSplatComparisonProgressLabel,
+  getSplatComparisonStatusLabel,
+  getSplatPsnrDeltaSummaryLabel,
+} from './splatCompareModalViewModel';
+import { useSplatCompareStoreFacade } from './useSplatCompareStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface SplatCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SplatCompareModal = memo(function SplatCompareModal({
+  isOpen,
+  onClose,
+}: SplatCompareModalProps) {
+  const {
+    data: {
+      activeSplatSourceId,
+      splatFileSources,
+      gpuPsnr,
+      splatPsnrMetrics,
+      splatPsnrComputing,
+      sourceId,
+      status,
+      error,
+      layout,
+      metrics,
+      metricErrors,
+      computing,
+    },
+    actions: {
+      selectSplatComparisonSource,
+      clearSplatComparison,
+      setLayout,
+      requestCompute,
+      requestSplatPsnrCompute,
+    },
+  } = useSplatCompareStoreFacade();
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: SPLAT_COMPARE_MODAL_WIDTH,
+    estimatedHeight: SPLAT_COMPARE_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const sourceOptions = useMemo(
+    () => getSplatCompareSourceOptions(getSplatComparisonCandidates(splatFileSources, activeSplatSourceId)),
+    [activeSplatSourceId, splatFileSources]
+  );
+  const summary = useMemo(
+    () => summarizeSplatPsnrDelta(buildSplatPsnrDeltaMetrics(splatPsnrMetrics, metrics)),
+    [metrics, splatPsnrMetrics]
+  );
+
+  const handleSourceChange = useCallback((value: string) => {
+    void selectSplatComparisonSource(value === SPLAT_COMPARE_NONE_VALUE ? null : value);
+  }, [selectSplatComparisonSource]);
+
+  // A's metrics come from the regular evaluator; measure them too when missing.
+  const handleCompute = useCallback(() => {
+    requestCompute();
+    if (splatPsnrMetrics.size === 0 && !splatPsnrComputing) {
+      requestSplatPsnrCompute('all');
+    }
+  }, [requestCompute, requestSplatPsnrCompute, splatPsnrComputing, splatPsnrMetrics.size]);
+
+  if (!isOpen) return null;
+
+  const statusLabel = getSplatComparisonStatusLabel(status, error);
+  const canCompute = gpuPsnr && status === 'ready' && !computing;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Compare Splats"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getSplatCompareModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className={`px-4 py-3 ${styles.panelContent}`}>
+        {!activeSplatSourceId ? (
+          <div className="text-ds-secondary text-sm py-2">Load a Gaussian splat to compare it.</div>
+        ) : (
+          <>
+            <div className="text-ds-secondary text-sm">A: {activeSplatSourceId}</div>
+            <SelectRow
+              label="B"
+              value={sourceId ?? SPLAT_COMPARE_NONE_VALUE}
+              onChange={handleSourceChange}
+              options={sourceOptions}
+            />
+            {statusLabel && (
+              <div className={status === 'error' ? 'text-ds-error text-sm' : 'text-ds-secondary text-sm'}>
+                {statusLabel}
+              </div>
+            )}
+            <SelectRow label="Layout" value={layout} onChange={setLayout} options={SPLAT_COMPARISON_LAYOUT_OPTIONS} />
+
+            <div className="text-ds-secondary text-sm">
+              {computing
+                ? getSplatComparisonProgressLabel(metrics.size, metricErrors.size)
+                : getSplatPsnrDeltaSummaryLabel(summary)}
+            </div>
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={handleCompute}
+                className={canCompute ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+                disabled={!canCompute}
+              >
+                Compute Metrics
+              </button>
+              <button
+                type="button"
+                onClick={clearSplatComparison}
+                className={sourceId ? styles.actionButton : styles.actionButtonDisabled}
+                disabled={!sourceId}
+              >
+                Stop Comparing
+              </button>
+            </div>
+
+            <div className={styles.hint}>
+              B is drawn right of the divider while splats render with WebGPU.
+              {gpuPsnr
+                ? ' Colour frustums or sort the gallery by Δ PSNR (A − B) once both splats are measured.'
+                : ' Comparison metrics need WebGPU.'}
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -0,0 +1,274 @@
+/**
+ * Gaussian splat editing: crop to an axis-aligned or oriented box placed with
+ * the transform gizmo, prune faint or oversized splats, preview the edit in
+ * the view and export it as SPZ, PLY or .splat with the splat transform
+ * applied. Triggered from the Point Cloud panel.
+ */
+
+import { memo, useCallback, useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import type { GaussianCloud } from '../../splat/gaussianCloud';
+import {
+  SPLAT_EXPORT_FORMATS,
+  createDefaultSplatCropBox,
+  getSplatEditKeepMask,
+  getSplatMaxScaleMagnitude,
+  getSplatViewerMatrix,
+  isSplatEditActive,
+} from '../../splat/splatEditSelection';
+import { controlPanelStyles } from '../../theme';
+import { downloadFile } from '../../utils/download';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { SelectRow, SliderRow, ToggleRow } from '../viewer3d/ControlComponents';
+import {
+  SPLAT_CROP_MODE_OPTIONS,
+  SPLAT_CROP_SIZE_AXES,
+  SPLAT_EDIT_MODAL_ESTIMATED_HEIGHT,
+  SPLAT_EDIT_MODAL_WIDTH,
+  formatSplatCropSize,
+  getSplatEditModalPanelStyle,
+  getSplatEditRemainingLabel,
+  getSplatMaxScaleFromSlider,
+  getSplatMaxScaleSliderStep,
+  getSplatMaxScaleSliderValue,
+  parseSplatCropSize,
+  setSplatCropBoxSize,
+} from './splatEditModalViewModel';
+import { useSplatEditStoreFacade } from './useSplatEditStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface SplatEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SplatEditModal = memo(function SplatEditModal({
+  isOpen,
+  onClose,
+}: SplatEditModalProps) {
+  const {
+    data: {
+      sourceFile,
+      isEditApplied,
+      cropEnabled,
+      cropMode,
+      cropBox,
+      minOpacity,
+      maxScale,
+      exportFormat,
+      transform,
+      splatTransform,
+    },
+    actions: {
+      setCropEnabled,
+      setCropMode,
+      setCropBox,
+      setMinOpacity,
+      setMaxScale,
+      setExportFormat,
+      loadSplatEditSourceCloud,
+      applySplatEditToView,
+      revertSplatEdit,
+      buildEditedSplatExport,
+      addNotification,
+    },
+  } = useSplatEditStoreFacade();
+  const [loaded, setLoaded] = useState<{ file: File; cloud: GaussianCloud } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: SPLAT_EDIT_MODAL_WIDTH,
+    estimatedHeight: SPLAT_EDIT_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  // Decode the original once per file; the loader caches it for the renderers too.
+  useEffect(() => {
+    if (!isOpen || !sourceFile || loaded?.file === sourceFile) return;
+    let cancelled = false;
+    loadSplatEditSourceCloud()
+      .then((cloud) => {
+        if (!cancelled && cloud) setLoaded({ file: sourceFile, cloud });
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) addNotification('warning', `Could not decode splat: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return () => { cancelled = true; };
+  }, [addNotification, isOpen, loadSplatEditSourceCloud, loaded, sourceFile]);
+
+  const cloud = loaded && loaded.file === sourceFile ? loaded.cloud : null;
+  const viewerMatrix = useMemo(
+    () => getSplatViewerMatrix(transform, splatTransform),
+    [transform, splatTransform]
+  );
+  const maxScaleMagnitude = useMemo(() => (cloud ? getSplatMaxScaleMagnitude(cloud) : 0), [cloud]);
+
+  const settings = useMemo(() => ({
+    crop: cropEnabled && cropBox ? { mode: cropMode, box: cropBox } : null,
+    minOpacity,
+    maxScale,
+  }), [cropBox, cropEnabled, cropMode, maxScale, minOpacity]);
+  // Dragging the gizmo or a slider should not wait on a full pass over the cloud.
+  const deferredSettings = useDeferredValue(settings);
+  const remaining = useMemo(
+    () => (cloud ? getSplatEditKeepMask(cloud, deferredSettings, viewerMatrix).remaining : null),
+    [cloud, deferredSettings, viewerMatrix]
+  );
+
+  const handleCropEnabledChange = useCallback((enabled: boolean) => {
+    if (enabled && !cropBox && cloud) {
+      setCropBox(createDefaultSplatCropBox(cloud, viewerMatrix));
+    }
+    setCropEnabled(enabled);
+  }, [cloud, cropBox, setCropBox, setCropEnabled, viewerMatrix]);
+
+  const handleApply = useCallback(async () => {
+    setBusy(true);
+    try {
+      const count = await applySplatEditToView();
+      if (count !== null) addNotification('info', `Showing edited splat (${count.toLocaleString()} splats)`);
+    } catch (error) {
+      addNotification('warning', `Could not apply splat edit: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  }, [addNotification, applySplatEditToView]);
+
+  const handleExport = useCallback(async () => {
+    setBusy(true);
+    try {
+      const exported = await buildEditedSplatExport();
+      if (exported) downloadFile(exported.data, exported.fileName);
+    } catch (error) {
+      addNotification('warning', `Could not export splat: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(false);
+    }
+  }, [addNotification, buildEditedSplatExport]);
+
+  if (!isOpen) return null;
+
+  const canApply = !!cloud && !busy && isSplatEditActive(settings);
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Edit Splat"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getSplatEditModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className={`px-4 py-3 ${styles.panelContent}`}>
+        {!sourceFile ? (
+          <div className="text-ds-secondary text-sm py-2">Load a Gaussian splat to edit it.</div>
+        ) : (
+          <>
+            <ToggleRow label="Crop box" checked={cropEnabled} onChange={handleCropEnabledChange} />
+            {cropEnabled && cropBox && (
+              <>
+                <SelectRow label="Box" value={cropMode} onChange={setCropMode} options={SPLAT_CROP_MODE_OPTIONS} />
+                <div className={styles.row}>
+                  <label className={styles.label}>Size</label>
+                  {SPLAT_CROP_SIZE_AXES.map((axisLabel, axis) => (
+                    <input
+                      key={`${axisLabel}-${cropBox.size[axis]}`}
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={formatSplatCropSize(cropBox.size[axis])}
+                      onBlur={(event) => {
+                        const size = parseSplatCropSize(event.target.value);
+                        if (size === null) {
+                          event.target.value = formatSplatCropSize(cropBox.size[axis]);
+                        } else if (size !== cropBox.size[axis]) {
+                          setCropBox(setSplatCropBoxSize(cropBox, axis, size));
+                        }
+                      }}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') event.currentTarget.blur();
+                      }}
+                      className={`${styles.valueInput} w-14`}
+                      aria-label={`Crop box size ${axisLabel}`}
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+
+            <SliderRow
+              label="Min opacity"
+              value={minOpacity}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={setMinOpacity}
+              formatValue={(value) => value.toFixed(2)}
+            />
+            {maxScaleMagnitude > 0 && (
+              <SliderRow
+                label="Max scale"
+                value={getSplatMaxScaleSliderValue(maxScale, maxScaleMagnitude)}
+                min={0}
+                max={maxScaleMagnitude}
+                step={getSplatMaxScaleSliderStep(maxScaleMagnitude)}
+                onChange={(value) => setMaxScale(getSplatMaxScaleFromSlider(value, maxScaleMagnitude))}
+                formatValue={(value) => (value >= maxScaleMagnitude ? 'off' : value.toPrecision(2))}
+              />
+            )}
+
+            <div className="text-ds-secondary text-sm">
+              {getSplatEditRemainingLabel(remaining, cloud?.count ?? null)}
+            </div>
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={() => { void handleApply(); }}
+                className={canApply ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+                disabled={!canApply}
+              >
+                Apply to View
+              </button>
+              <button
+                type="button"
+                onClick={revertSplatEdit}
+                className={isEditApplied && !busy ? styles.actionButton : styles.actionButtonDisabled}
+                disabled={!isEditApplied || busy}
+              >
+                Revert
+              </button>
+            </div>
+
+            <SelectRow label="Format" value={exportFormat} onChange={setExportFormat} options={SPLAT_EXPORT_FORMATS} />
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={() => { void handleExport(); }}
+                className={cloud && !busy ? styles.actionButton : styles.actionButtonDisabled}
+                disabled={!cloud || busy}
+              >
+                Export Splat
+              </button>
+            </div>
+
+            <div className={styles.hint}>
+              The crop box is placed in view coordinates; drag its gizmo to move it (and rotate
+              it when oriented). Apply to View replaces the displayed splat with the edited copy.
+              Exports are in the splat file's coordinates with the current splat transform applied.
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -0,0 +1,260 @@
+/**
+ * Offline novel-view video: renders the active splat frame by frame along a
+ * camera path at a fixed resolution, and downloads the MP4. The path runs
+ * either through the registered image poses (in name order, optionally
+ * smoothed into a spline) or along the keyframe camera path authored in the
+ * viewer, sampled at the video frame rate. Triggered from the Screenshot panel.
+ */
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { controlPanelStyles } from '../../theme';
+import {
+  getCameraPathFrameCount,
+  getColmapImageCameraPathKeyframes,
+  sampleCameraPath,
+  type CameraPathInterpolation,
+} from '../../utils/cameraPathPolicy';
+import {
+  createCameraPathTimeline,
+  getCameraPathTimelineFrameCount,
+  sampleCameraPathTimeline,
+} from '../../utils/cameraPathTimelinePolicy';
+import { buildTimestampedFilename, downloadBlob } from '../../utils/download';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { SelectRow, SliderRow } from '../viewer3d/ControlComponents';
+import { RECORDING_QUALITY_OPTIONS } from '../viewer3d/panels/screenshotPanelRecording';
+import { isWebCodecsRuntimeSupported, type RecordingQuality } from '../viewer3d/screenshotRecordingPolicy';
+import {
+  SPLAT_PATH_FPS_OPTIONS,
+  SPLAT_PATH_INTERPOLATION_OPTIONS,
+  SPLAT_PATH_RESOLUTION_OPTIONS,
+  SPLAT_PATH_SOURCE_OPTIONS,
+  SPLAT_PATH_VIDEO_MODAL_ESTIMATED_HEIGHT,
+  SPLAT_PATH_VIDEO_MODAL_WIDTH,
+  getSplatPathVideoModalPanelStyle,
+  getSplatPathVideoProgressLabel,
+  getSplatPathVideoProgressPercent,
+  getSplatPathVideoSummaryLabel,
+  parseSplatPathResolution,
+  type SplatPathResolution,
+  type SplatPathSource,
+  type SplatPathVideoProgress,
+} from './splatPathVideoModalViewModel';
+import { useSplatPathVideoStoreFacade } from './useSplatPathVideoStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface SplatPathVideoModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SplatPathVideoModal = memo(function SplatPathVideoModal({
+  isOpen,
+  onClose,
+}: SplatPathVideoModalProps) {
+  const {
+    data: { reconstruction, splatFile, transform, splatTransform, gpuRender, cameraPathKeyframes, cameraFov },
+    actions: { addNotification },
+  } = useSplatPathVideoStoreFacade();
+  const [source, setSource] = useState<SplatPathSource>('images');
+  const [interpolation, setInterpolation] = useState<CameraPathInterpolation>('spline');
+  const [stride, setStride] = useState(1);
+  const [framesPerSegment, setFramesPerSegment] = useState(30);
+  const [resolution, setResolution] = useState<SplatPathResolution>('1920x1080');
+  const [fps, setFps] = useState(30);
+  const [quality, setQuality] = useState<RecordingQuality>('high');
+  const [progress, setProgress] = useState<SplatPathVideoProgress | null>(null);
+  const cancelRef = useRef(false);
+
+  const { position, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: SPLAT_PATH_VIDEO_MODAL_WIDTH,
+    estimatedHeight: SPLAT_PATH_VIDEO_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  // Closing the window abandons the render rather than leaving it running unseen.
+  const handleClose = useCallback(() => {
+    cancelRef.current = true;
+    onClose();
+  }, [onClose]);
+
+  useHotkeys('escape', handleClose, { enabled: isOpen }, [isOpen, handleClose]);
+
+  useEffect(() => () => {
+    cancelRef.current = true;
+  }, []);
+
+  const keyframes = useMemo(
+    () => reconstruction ? getColmapImageCameraPathKeyframes(reconstruction, { transform, stride }) : [],
+    [reconstruction, stride, transform]
+  );
+  const timeline = useMemo(() => createCameraPathTimeline(cameraPathKeyframes), [cameraPathKeyframes]);
+  const keyframeCount = source === 'images' ? keyframes.length : cameraPathKeyframes.length;
+  const frameCount = source === 'images'
+    ? getCameraPathFrameCount(keyframes.length, { interpolation, framesPerSegment })
+    : timeline ? getCameraPathTimelineFrameCount(timeline.duration, fps) : 0;
+  const hasPath = source === 'images' ? keyframes.length > 0 : timeline !== null;
+
+  const handleRender = useCallback(async () => {
+    if (!splatFile) return;
+    let poses;
+    if (source === 'images') {
+      if (keyframes.length === 0) return;
+      poses = sampleCameraPath(keyframes, { interpolation, framesPerSegment });
+    } else {
+      if (!timeline) return;
+      poses = sampleCameraPathTimeline(timeline, fps, cameraFov);
+    }
+    const { width, height } = parseSplatPathResolution(resolution);
+    cancelRef.current = false;
+    setProgress({ renderedFrames: 0, frameCount: poses.length });
+    try {
+      const { renderSplatPathVideo } = await import('../viewer3d/splatPathVideoRuntime');
+      const blob = await renderSplatPathVideo({
+        splatFile,
+        poses,
+        width,
+        height,
+        fps,
+        quality,
+        transform,
+        splatTransform,
+        shouldCancel: () => cancelRef.current,
+        onProgress: (renderedFrames) => setProgress({ renderedFrames, frameCount: poses.length }),
+      });
+      if (blob) {
+        downloadBlob(blob, buildTimestampedFilename('splat-path', 'mp4'));
+        addNotification('info', `Rendered ${poses.length} frames along the camera path`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      addNotification('warning', `Path video failed: ${message}`);
+    } finally {
+      setProgress(null);
+    }
+  }, [
+    addNotification,
+    cameraFov,
+    fps,
+    framesPerSegment,
+    interpolation,
+    keyframes,
+    quality,
+    resolution,
+    source,
+    splatFile,
+    splatTransform,
+    timeline,
+    transform,
+  ]);
+
+  const handleCancel = useCallback(() => {
+    cancelRef.current = true;
+  }, []);
+
+  if (!isOpen) return null;
+
+  const webCodecsSupported = isWebCodecsRuntimeSupported();
+  const rendering = progress !== null;
+  const canRender = gpuRender && webCodecsSupported && hasPath && !rendering;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Render Path Video"
+      onClose={handleClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getSplatPathVideoModalPanelStyle(position)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className={`px-4 py-3 ${styles.panelContent}`}>
+        {!splatFile ? (
+          <div className="text-ds-secondary text-sm py-2">Load a Gaussian splat to render it along a path.</div>
+        ) : (
+          <>
+            <SelectRow label="Source" value={source} onChange={setSource} options={SPLAT_PATH_SOURCE_OPTIONS} />
+            {source === 'images' && (
+              <>
+                <SelectRow
+                  label="Path"
+                  value={interpolation}
+                  onChange={setInterpolation}
+                  options={SPLAT_PATH_INTERPOLATION_OPTIONS}
+                />
+                <SliderRow
+                  label="Image step"
+                  value={stride}
+                  min={1}
+                  max={20}
+                  step={1}
+                  onChange={setStride}
+                  formatValue={(v) => `every ${v}`}
+                  inputMax={1000}
+                />
+                {interpolation === 'spline' && (
+                  <SliderRow
+                    label="Frames/step"
+                    value={framesPerSegment}
+                    min={2}
+                    max={120}
+                    step={1}
+                    onChange={setFramesPerSegment}
+                    inputMax={600}
+                  />
+                )}
+              </>
+            )}
+            <SelectRow label="Size" value={resolution} onChange={setResolution} options={SPLAT_PATH_RESOLUTION_OPTIONS} />
+            <SelectRow
+              label="Frame rate"
+              value={String(fps)}
+              onChange={(v) => setFps(Number(v))}
+              options={SPLAT_PATH_FPS_OPTIONS}
+            />
+            <SelectRow label="Quality" value={quality} onChange={setQuality} options={RECORDING_QUALITY_OPTIONS} />
+
+            <div className="text-ds-secondary text-sm">
+              {progress
+                ? `${getSplatPathVideoProgressLabel(progress)} (${getSplatPathVideoProgressPercent(progress)}%)`
+                : getSplatPathVideoSummaryLabel(source, keyframeCount, frameCount, fps)}
+            </div>
+
+            <div className={styles.actionGroup}>
+              <button
+                type="button"
+                onClick={() => void handleRender()}
+                className={canRender ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+                disabled={!canRender}
+              >
+                Render MP4
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className={rendering ? styles.actionButton : styles.actionButtonDisabled}
+                disabled={!rendering}
+              >
+                Cancel
+              </button>
+            </div>
+
+            <div className={styles.hint}>
+              Every frame is rendered and encoded in turn, so the video never drops frames however long it takes.
+              {source === 'cameraPath' && ' The camera path keeps its keyframe timing and the viewer field of view.'}
+              {!gpuRender && ' Path rendering needs the WebGPU splat renderer.'}
+              {!webCodecsSupported && ' This browser cannot encode MP4 (WebCodecs).'}
+            </div>
+          </>
+        )}
+      </div>
+    </FloatingWindowShell>
+  );
+});
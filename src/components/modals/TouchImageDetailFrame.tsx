@@ -1,10 +1,19 @@
 import type { RefObject, TouchEventHandler } from 'react';
 import type { Camera, Image, ImageId, Point2D } from '../../types/colmap';
+import type { DatabasePairMatches } from '../../types/colmapDatabase';
+import type { ReprojectionErrorAnalysis } from '../../utils/reprojectionErrors';
 import { TouchImageControls } from './ImageDetailControls';
 import { TouchImageDetailHeader } from './ImageDetailModalHeader';
 import { MatchImagePair, SingleImageView } from './ImageDetailViews';
+import type { ImageDetailGcpControl } from './imageDetailGcpViewModel';
 import { TOUCH_IMAGE_DETAIL_FRAME_CLASS } from './imageDetailFrameViewModel';
+import type {
+  ImageDetailMatchSourceControl,
+  ImageDetailReprojectionControl,
+  ImageDetailSplatErrorMapControl,
+} from './imageDetailControlsViewModel';
 import type { MatchViewLayout, SingleImageLayout, Size2D } from './imageDetailLayoutViewModel';
+import type { ImageDetailSplatErrorMapViewControl } from './imageDetailSplatErrorMapViewModel';
 import type {
   ConnectedImageOption,
   MatchLine,
@@ -16,6 +25,7 @@ interface TouchImageDetailFrameProps {
   connectedImages: ConnectedImageOption[];
   containerSize: Size2D;
   currentIndex: number;
+  databasePair: DatabasePairMatches | null;
   effectivePoints2D: Point2D[];
   handleTouchEnd: TouchEventHandler<HTMLDivElement>;
   handleTouchMove: TouchEventHandler<HTMLDivElement>;
@@ -34,6 +44,12 @@ interface TouchImageDetailFrameProps {
   matchedImage: Image | null;
   matchedImageId: ImageId | null;
   matchedImageSrc: string | null;
+  matchSource: ImageDetailMatchSourceControl | null;
+  gcp: ImageDetailGcpControl | null;
+  reprojection: ImageDetailReprojectionControl | null;
+  reprojectionAnalysis: ReprojectionErrorAnalysis | null;
+  splatErrorMap: ImageDetailSplatErrorMapControl | null;
+  splatErrorMapView: ImageDetailSplatErrorMapViewControl | null;
   numPoints2D: number;
   numPoints3D: number;
   setMatchedImageId: (imageId: ImageId | null) => void;
@@ -57,6 +73,7 @@ export function TouchImageDetailFrame({
   connectedImages,
   containerSize,
   currentIndex,
+  databasePair,
   effectivePoints2D,
   handleTouchEnd,
   handleTouchMove,
@@ -75,6 +92,12 @@ export function TouchImageDetailFrame({
   matchedImage,
   matchedImageId,
   matchedImageSrc,
+  matchSource,
+  gcp,
+  reprojection,
+  reprojectionAnalysis,
+  splatErrorMap,
+  splatErrorMapView,
   numPoints2D,
   numPoints3D,
   setMatchedImageId,
@@ -121,6 +144,7 @@ export function TouchImageDetailFrame({
             containerSize={containerSize}
             matchLines={matchLines}
             matchLineOpacity={matchLineOpacity}
+            databasePair={databasePair}
           />
         ) : (
           <SingleImageView
@@ -133,6 +157,9 @@ export function TouchImageDetailFrame({
             showPoints2D={showPoints2D}
             showPoints3D={showPoints3D}
             points2D={effectivePoints2D}
+            gcp={gcp}
+            reprojection={reprojectionAnalysis}
+            splatErrorMaps={splatErrorMapView}
           />
         )}
       </div>
@@ -157,6 +184,9 @@ export function TouchImageDetailFrame({
           setShowMatchesInModal={setShowMatchesInModal}
           setMatchedImageId={setMatchedImageId}
           setMatchLineOpacity={setMatchLineOpacity}
+          matchSource={matchSource}
+          reprojection={reprojection}
+          splatErrorMap={splatErrorMap}
           onPrev={onPrev}
           onNext={onNext}
         />
@@ -0,0 +1,152 @@
+/**
+ * Trajectory player: flies the viewer through the registered image cameras in
+ * capture order, easing between consecutive poses and matching each camera's
+ * field of view. Playback runs in the trackball frame loop.
+ */
+
+import { memo, useCallback, useMemo } from 'react';
+import { useHotkeys } from 'react-hotkeys-hook';
+import { useModalDrag } from '../../hooks/useModalDrag';
+import { useModalZIndex } from '../../hooks/useModalZIndex';
+import { useTrajectoryPlaybackPosition } from '../../hooks/useTrajectoryPlaybackPosition';
+import { controlPanelStyles } from '../../theme';
+import {
+  TRAJECTORY_MAX_SPEED,
+  TRAJECTORY_MIN_SPEED,
+  getTrajectoryImageIds,
+  getTrajectoryImageIndex,
+  hasTrajectoryFrameIds,
+} from '../../utils/trajectoryPlaybackPolicy';
+import { FloatingWindowShell } from '../ui/FloatingWindowShell';
+import { SelectRow, SliderRow, ToggleRow } from '../viewer3d/ControlComponents';
+import {
+  TRAJECTORY_MODAL_ESTIMATED_HEIGHT,
+  TRAJECTORY_MODAL_WIDTH,
+  formatTrajectorySpeed,
+  getTrajectoryModalPanelStyle,
+  getTrajectoryOrderOptions,
+  getTrajectoryPositionLabel,
+  shouldRestartTrajectory,
+} from './trajectoryModalViewModel';
+import { useTrajectoryStoreFacade } from './useTrajectoryStoreFacade';
+
+const styles = controlPanelStyles;
+
+export interface TrajectoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const TrajectoryModal = memo(function TrajectoryModal({
+  isOpen,
+  onClose,
+}: TrajectoryModalProps) {
+  const {
+    data: { reconstruction, order, speed, loop, showPhoto, status, position, startTime },
+    actions: { setOrder, setSpeed, setLoop, setShowPhoto, play, pause, seek, stop, stopCameraPath },
+  } = useTrajectoryStoreFacade();
+
+  const { position: panelPosition, panelRef, handleDragStart } = useModalDrag({
+    estimatedWidth: TRAJECTORY_MODAL_WIDTH,
+    estimatedHeight: TRAJECTORY_MODAL_ESTIMATED_HEIGHT,
+    isOpen,
+  });
+  const { zIndex, bringToFront } = useModalZIndex(isOpen);
+
+  useHotkeys('escape', onClose, { enabled: isOpen }, [isOpen, onClose]);
+
+  const imageIds = useMemo(
+    () => (reconstruction ? getTrajectoryImageIds(reconstruction, order) : []),
+    [order, reconstruction]
+  );
+  const orderOptions = useMemo(
+    () => getTrajectoryOrderOptions(reconstruction ? hasTrajectoryFrameIds(reconstruction) : false),
+    [reconstruction]
+  );
+  const playbackPosition = useTrajectoryPlaybackPosition(
+    { status, position, startTime, speed },
+    loop,
+    imageIds.length,
+    isOpen
+  );
+  const imageIndex = getTrajectoryImageIndex(playbackPosition, imageIds.length);
+  const imageName = reconstruction?.images.get(imageIds[imageIndex])?.name ?? null;
+  const playing = status === 'playing';
+  const canPlay = imageIds.length > 1;
+
+  const handlePlay = useCallback(() => {
+    stopCameraPath();
+    if (shouldRestartTrajectory(playbackPosition, imageIds.length, loop)) seek(0);
+    play();
+  }, [imageIds.length, loop, play, playbackPosition, seek, stopCameraPath]);
+
+  if (!isOpen) return null;
+
+  return (
+    <FloatingWindowShell
+      isOpen={isOpen}
+      title="Trajectory"
+      onClose={onClose}
+      panelRef={panelRef}
+      overlayStyle={{ zIndex }}
+      panelStyle={getTrajectoryModalPanelStyle(panelPosition)}
+      headerStyle={{ touchAction: 'none' }}
+      onPanelPointerDown={bringToFront}
+      onHeaderPointerDown={handleDragStart}
+    >
+      <div className={`px-4 py-3 ${styles.panelContent}`}>
+        <div className={styles.actionGroup}>
+          <button
+            type="button"
+            onClick={playing ? pause : handlePlay}
+            className={canPlay ? styles.actionButtonPrimary : styles.actionButtonDisabled}
+            disabled={!canPlay}
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <button
+            type="button"
+            onClick={stop}
+            className={status !== 'stopped' ? styles.actionButton : styles.actionButtonDisabled}
+            disabled={status === 'stopped'}
+          >
+            Stop
+          </button>
+        </div>
+
+        <SelectRow label="Order" value={order} onChange={setOrder} options={orderOptions} />
+        <SliderRow
+          label="Speed"
+          value={speed}
+          min={TRAJECTORY_MIN_SPEED}
+          max={TRAJECTORY_MAX_SPEED}
+          step={0.5}
+          onChange={setSpeed}
+          formatValue={formatTrajectorySpeed}
+        />
+        {canPlay && (
+          <SliderRow
+            label="Image"
+            value={imageIndex}
+            min={0}
+            max={imageIds.length - 1}
+            step={1}
+            onChange={seek}
+            formatValue={(value) => String(value + 1)}
+          />
+        )}
+        <ToggleRow label="Loop" checked={loop} onChange={setLoop} />
+        <ToggleRow label="Photo" checked={showPhoto} onChange={setShowPhoto} />
+
+        <div className="text-ds-secondary text-sm truncate" title={imageName ?? undefined}>
+          {getTrajectoryPositionLabel(imageIndex, imageIds.length, imageName)}
+        </div>
+
+        <div className={styles.hint}>
+          Pause to look around from the current image. Stop hands the camera and its field of
+          view back to the viewer.
+        </div>
+      </div>
+    </FloatingWindowShell>
+  );
+});
@@ -15,6 +15,7 @@ import {
   getCameraConversionModalPanelStyle,
   getCameraConversionNotificationMessage,
   getCameraConversionParameterRowDisplay,
+  getCameraRefitSummaryLines,
   getCommonConversionTargetModels,
   getEffectiveConversionTargetModelId,
   getReconstructionCameraEntries,
@@ -22,10 +23,12 @@ import {
   getSourceConversionModelIds,
   parseCameraConversionSelection,
   parseCameraConversionTarget,
+  refitConversionCameras,
 } from './cameraConversionModalViewModel';
 import { buildCamera, buildReconstruction } from '../../test/builders';
 import { CameraModelId } from '../../types/colmap';
 import type { ConversionPreview } from '../../utils/cameraModelConversions';
+import type { CameraRefitResult } from '../../utils/cameraModelRefit';
 
 describe('CameraConversionModal view-model helpers', () => {
   it('builds camera options and selected camera lists from a reconstruction', () => {
@@ -161,6 +164,10 @@ describe('CameraConversionModal view-model helpers', () => {
       canConvert: false,
       label: 'Convert',
     });
+    expect(getCameraConversionActionState(CameraModelId.OPENCV, 2, true)).toEqual({
+      canConvert: false,
+      label: 'Convert (2)',
+    });
   });
 
   it('derives parameter preview row display state from status and values', () => {
@@ -263,4 +270,83 @@ describe('CameraConversionModal view-model helpers', () => {
       targetModelId: CameraModelId.OPENCV_FISHEYE,
     })).toBeNull();
   });
+
+  it('offers refit-only targets as approximate when refitting is enabled', () => {
+    const analytic = getCommonConversionTargetModels([CameraModelId.OPENCV_FISHEYE]);
+    const withRefit = getCommonConversionTargetModels([CameraModelId.OPENCV_FISHEYE], true);
+
+    expect(analytic.some((target) => target.modelId === CameraModelId.OPENCV)).toBe(false);
+    expect(withRefit).toContainEqual({ modelId: CameraModelId.OPENCV, compatibility: 'approximate' });
+    expect(withRefit).toEqual(expect.arrayContaining(analytic));
+    expect(withRefit.map((target) => target.modelId)).not.toContain(CameraModelId.EQUIRECTANGULAR);
+    expect(withRefit.map((target) => target.modelId)).toEqual(
+      [...withRefit.map((target) => target.modelId)].sort((a, b) => a - b)
+    );
+  });
+
+  it('refits selected cameras and converts only those with refit parameters', () => {
+    const fisheye = buildCamera({
+      cameraId: 1,
+      modelId: CameraModelId.OPENCV_FISHEYE,
+      params: [500, 500, 320, 240, 0.05, -0.01, 0, 0],
+    });
+    const unobserved = buildCamera({ cameraId: 2, modelId: CameraModelId.SIMPLE_RADIAL, params: [500, 320, 240, 0.1] });
+    const reconstruction = buildReconstruction({ cameras: [fisheye, unobserved] });
+
+    const refits = refitConversionCameras({
+      cameras: [fisheye],
+      targetModelId: CameraModelId.FULL_OPENCV,
+      source: 'distortionField',
+      observationSamples: null,
+    });
+    expect([...refits.keys()]).toEqual([1]);
+    expect(refitConversionCameras({
+      cameras: [fisheye],
+      targetModelId: CameraModelId.FULL_OPENCV,
+      source: 'observations',
+      observationSamples: new Map(),
+    }).size).toBe(0);
+
+    const result = applyCameraModelConversion({
+      reconstruction,
+      selectedCameras: [fisheye, unobserved],
+      targetModelId: CameraModelId.FULL_OPENCV,
+      refits,
+    });
+    expect(result).toMatchObject({ convertedCount: 1, approximateCount: 0, refitCount: 1 });
+    expect(result?.reconstruction.cameras.get(1)).toMatchObject({
+      modelId: CameraModelId.FULL_OPENCV,
+      params: refits.get(1)!.params,
+    });
+    expect(result?.reconstruction.cameras.get(2)).toBe(unobserved);
+    expect(getCameraConversionNotificationMessage({
+      convertedCount: 1,
+      approximateCount: 0,
+      refitCount: 1,
+      targetModelId: CameraModelId.FULL_OPENCV,
+    })).toBe('Refit 1 camera(s) to Full OpenCV');
+  });
+
+  it('summarizes refit RMS deviation for the worst camera', () => {
+    const refit = (rms: number): CameraRefitResult => ({
+      params: [],
+      sourceRms: 0.4,
+      initialRms: 12.5,
+      rms,
+      sampleCount: 200,
+      iterations: 5,
+    });
+
+    expect(getCameraRefitSummaryLines(new Map([[1, refit(0.01234)]]), 'distortionField', 1)).toEqual([
+      'RMS: 12.5 px \u2192 0.012 px (200 samples)',
+    ]);
+    expect(getCameraRefitSummaryLines(new Map([[1, refit(0.2)], [2, refit(0.6)]]), 'observations', 3)).toEqual([
+      'Worst RMS: 12.5 px \u2192 0.600 px (200 samples)',
+      'Source model RMS: 0.400 px',
+      '1 camera(s) lack samples and are skipped.',
+    ]);
+    expect(getCameraRefitSummaryLines(new Map(), 'observations', 1)).toEqual([
+      'Not enough triangulated observations to refit.',
+    ]);
+  });
 });
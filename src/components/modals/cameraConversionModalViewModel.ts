@@ -2,11 +2,20 @@ import type { CSSProperties } from 'react';
 import {
   convertCameraModel,
   getValidTargetModels,
+  PARAM_NAMES,
   type ConversionCompatibility,
   type ConversionPreview,
 } from '../../utils/cameraModelConversions';
 import { getCameraModelName } from '../../utils/cameraModelNames';
 import { isCameraModelId } from '../../utils/cameraModelPolicy';
+import {
+  canRefitCameraModel,
+  getCameraRefitSamples,
+  refitCameraModel,
+  type CameraRefitResult,
+  type CameraRefitSample,
+  type CameraRefitSource,
+} from '../../utils/cameraModelRefit';
 import { CameraModelId, type Camera, type CameraId, type Reconstruction } from '../../types/colmap';
 import { STATUS_COLORS } from '../../theme';
 import { parseSafeIntegerString } from '../../utils/numberParsing';
@@ -53,6 +62,7 @@ export interface CameraConversionApplyResult {
   reconstruction: Reconstruction;
   convertedCount: number;
   approximateCount: number;
+  refitCount: number;
 }
 
 export interface CameraConversionModalPosition {
@@ -85,7 +95,33 @@ export function getSourceConversionModelIds(cameras: Camera[]): CameraModelId[]
   return Array.from(models);
 }
 
-export function getCommonConversionTargetModels(sourceModels: CameraModelId[]): CameraConversionTarget[] {
+export const CAMERA_REFIT_SOURCE_OPTIONS: { value: CameraRefitSource; label: string }[] = [
+  { value: 'distortionField', label: 'Distortion field' },
+  { value: 'observations', label: 'Observations' },
+];
+
+/**
+ * Targets every source model converts to. With `includeRefitTargets`, models
+ * reachable only by a least-squares refit are added as approximate targets.
+ */
+export function getCommonConversionTargetModels(
+  sourceModels: CameraModelId[],
+  includeRefitTargets = false
+): CameraConversionTarget[] {
+  const analyticTargets = getCommonAnalyticConversionTargetModels(sourceModels);
+  if (!includeRefitTargets || sourceModels.length === 0) return analyticTargets;
+
+  const analyticIds = new Set(analyticTargets.map((target) => target.modelId));
+  const refitTargets = Object.values(CameraModelId)
+    .filter((value): value is CameraModelId => typeof value === 'number')
+    .filter((modelId) => !analyticIds.has(modelId))
+    .filter((modelId) => sourceModels.every((sourceModel) => canRefitCameraModel(sourceModel, modelId)))
+    .map((modelId) => ({ modelId, compatibility: 'approximate' as const }));
+
+  return [...analyticTargets, ...refitTargets].sort((a, b) => a.modelId - b.modelId);
+}
+
+function getCommonAnalyticConversionTargetModels(sourceModels: CameraModelId[]): CameraConversionTarget[] {
   if (sourceModels.length === 0) return [];
 
   const targetSets = sourceModels.map((model) =>
@@ -156,9 +192,10 @@ export function buildCameraConversionTargetOptions(
 
 export function getCameraConversionActionState(
   effectiveTargetModelId: CameraModelId | null,
-  selectedCameraCount: number
+  selectedCameraCount: number,
+  awaitingRefit = false
 ): CameraConversionActionState {
-  const canConvert = effectiveTargetModelId !== null && selectedCameraCount > 0;
+  const canConvert = effectiveTargetModelId !== null && selectedCameraCount > 0 && !awaitingRefit;
   const countSuffix = selectedCameraCount > 1 ? ` (${selectedCameraCount})` : '';
 
   return {
@@ -245,20 +282,104 @@ export function buildCameraConversionParameterRows(
   return rows;
 }
 
+/** Refit each camera to the target model, keyed by camera; cameras without enough samples are left out. */
+export function refitConversionCameras({
+  cameras,
+  targetModelId,
+  source,
+  observationSamples,
+}: {
+  cameras: readonly Camera[];
+  targetModelId: CameraModelId;
+  source: CameraRefitSource;
+  observationSamples: ReadonlyMap<CameraId, CameraRefitSample[]> | null;
+}): Map<CameraId, CameraRefitResult> {
+  const results = new Map<CameraId, CameraRefitResult>();
+  for (const camera of cameras) {
+    const result = refitCameraModel(
+      camera,
+      targetModelId,
+      getCameraRefitSamples(camera, source, observationSamples)
+    );
+    if (result) results.set(camera.cameraId, result);
+  }
+  return results;
+}
+
+/** Preview of a camera converted with refit parameters. */
+export function getRefitConversionPreview(
+  camera: Camera,
+  targetModelId: CameraModelId,
+  refit: CameraRefitResult
+): ConversionPreview {
+  return {
+    sourceParamNames: PARAM_NAMES[camera.modelId] ?? [],
+    sourceParams: [...camera.params],
+    targetParamNames: PARAM_NAMES[targetModelId] ?? [],
+    targetParams: refit.params,
+    characterization: 'approximation',
+    isLossy: true,
+    isExpansion: false,
+    description: 'Least-squares refit',
+  };
+}
+
+function formatRefitRms(rms: number): string {
+  return `${rms < 10 ? rms.toFixed(3) : rms.toFixed(1)} px`;
+}
+
+/**
+ * RMS pixel deviation before and after the refit. Several cameras report the
+ * worst one; observation refits also give the source camera's own error.
+ */
+export function getCameraRefitSummaryLines(
+  results: ReadonlyMap<CameraId, CameraRefitResult>,
+  source: CameraRefitSource,
+  cameraCount: number
+): string[] {
+  const values = Array.from(results.values());
+  if (values.length === 0) {
+    return [source === 'observations'
+      ? 'Not enough triangulated observations to refit.'
+      : 'The source model has no valid samples to refit.'];
+  }
+  const worst = values.reduce((a, b) => (b.rms > a.rms ? b : a));
+  const prefix = values.length > 1 ? 'Worst RMS' : 'RMS';
+  const lines = [
+    `${prefix}: ${formatRefitRms(worst.initialRms)} \u2192 ${formatRefitRms(worst.rms)} (${worst.sampleCount} samples)`,
+  ];
+  if (source === 'observations') lines.push(`Source model RMS: ${formatRefitRms(worst.sourceRms)}`);
+  if (values.length < cameraCount) lines.push(`${cameraCount - values.length} camera(s) lack samples and are skipped.`);
+  return lines;
+}
+
 export function applyCameraModelConversion({
   reconstruction,
   selectedCameras,
   targetModelId,
+  refits = null,
 }: {
   reconstruction: Reconstruction;
   selectedCameras: Camera[];
   targetModelId: CameraModelId;
+  /** Refit parameters by camera; when given, only refit cameras are converted. */
+  refits?: ReadonlyMap<CameraId, CameraRefitResult> | null;
 }): CameraConversionApplyResult | null {
   const cameras = new Map(reconstruction.cameras);
   let convertedCount = 0;
   let approximateCount = 0;
+  let refitCount = 0;
 
   for (const camera of selectedCameras) {
+    if (refits) {
+      const refit = refits.get(camera.cameraId);
+      if (!refit) continue;
+      cameras.set(camera.cameraId, { ...camera, modelId: targetModelId, params: [...refit.params] });
+      convertedCount++;
+      refitCount++;
+      continue;
+    }
+
     const result = convertCameraModel(camera, targetModelId);
     if (result.type === 'incompatible') continue;
 
@@ -277,6 +398,7 @@ export function applyCameraModelConversion({
     reconstruction: { ...reconstruction, cameras },
     convertedCount,
     approximateCount,
+    refitCount,
   };
 }
 
@@ -371,13 +493,16 @@ export function getCameraConversionCharacterizationLabel(
 export function getCameraConversionNotificationMessage({
   convertedCount,
   approximateCount,
+  refitCount = 0,
   targetModelId,
 }: {
   convertedCount: number;
   approximateCount: number;
+  refitCount?: number;
   targetModelId: CameraModelId;
 }): string {
   const targetName = getCameraModelName(targetModelId);
+  if (refitCount > 0) return `Refit ${refitCount} camera(s) to ${targetName}`;
   return approximateCount > 0
     ? `Converted ${convertedCount} camera(s) to ${targetName} (~)`
     : `Converted ${convertedCount} camera(s) to ${targetName}`;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCameraPathTime,
+  getCameraPathModalPanelStyle,
+  getCameraPathSummaryLabel,
+  getCameraPathTimelinePercent,
+  parseCameraPathEasing,
+} from './cameraPathModalViewModel';
+
+describe('cameraPathModalViewModel', () => {
+  it('formats path times in seconds, then minutes', () => {
+    expect(formatCameraPathTime(0)).toBe('0.0s');
+    expect(formatCameraPathTime(12.34)).toBe('12.3s');
+    expect(formatCameraPathTime(65.5)).toBe('1:05.5');
+  });
+
+  it('summarizes the path', () => {
+    expect(getCameraPathSummaryLabel(0, 0)).toBe('No keyframes yet.');
+    expect(getCameraPathSummaryLabel(1, 0)).toBe('1 keyframe — add another to make a path.');
+    expect(getCameraPathSummaryLabel(3, 4)).toBe('3 keyframes, 4.0s');
+  });
+
+  it('parses easing select values', () => {
+    expect(parseCameraPathEasing('easeInOut')).toBe('easeInOut');
+    expect(parseCameraPathEasing('bounce')).toBe('linear');
+  });
+
+  it('places times on the timeline bar', () => {
+    expect(getCameraPathTimelinePercent(1, 4)).toBe(25);
+    expect(getCameraPathTimelinePercent(5, 4)).toBe(100);
+    expect(getCameraPathTimelinePercent(1, 0)).toBe(0);
+  });
+
+  it('positions the draggable panel', () => {
+    expect(getCameraPathModalPanelStyle({ x: 10, y: 20 })).toEqual({ left: 10, top: 20, width: 360 });
+  });
+});
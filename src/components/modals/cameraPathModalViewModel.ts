@@ -0,0 +1,43 @@
+import type { CSSProperties } from 'react';
+import { CAMERA_PATH_EASINGS, type CameraPathEasing } from '../../store/types';
+
+export const CAMERA_PATH_MODAL_WIDTH = 360;
+export const CAMERA_PATH_MODAL_ESTIMATED_HEIGHT = 420;
+
+export const CAMERA_PATH_EASING_OPTIONS: readonly { value: CameraPathEasing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'easeIn', label: 'Ease in' },
+  { value: 'easeOut', label: 'Ease out' },
+  { value: 'easeInOut', label: 'Ease in-out' },
+];
+
+export function parseCameraPathEasing(value: string): CameraPathEasing {
+  return CAMERA_PATH_EASINGS.find((easing) => easing === value) ?? 'linear';
+}
+
+export function formatCameraPathTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds - minutes * 60;
+  if (minutes === 0) return `${remainder.toFixed(1)}s`;
+  return `${minutes}:${remainder.toFixed(1).padStart(4, '0')}`;
+}
+
+export function getCameraPathSummaryLabel(keyframeCount: number, duration: number): string {
+  if (keyframeCount === 0) return 'No keyframes yet.';
+  if (keyframeCount === 1) return '1 keyframe — add another to make a path.';
+  return `${keyframeCount} keyframes, ${formatCameraPathTime(duration)}`;
+}
+
+/** Left offset of a time on the timeline bar, as a CSS percentage. */
+export function getCameraPathTimelinePercent(time: number, duration: number): number {
+  if (duration <= 0) return 0;
+  return Math.min(100, Math.max(0, time / duration * 100));
+}
+
+export function getCameraPathModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: CAMERA_PATH_MODAL_WIDTH,
+  };
+}
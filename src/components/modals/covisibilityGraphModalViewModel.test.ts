@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { VIZ_COLORS } from '../../theme';
+import type { ConnectedImagesIndex } from '../../types/colmap';
+import { buildCovisibilityGraph } from '../../utils/covisibilityGraph';
+import {
+  drawCovisibilityGraph,
+  findCovisibilityGraphNodeAt,
+  getCovisibilityAttentionItems,
+  getCovisibilityCanvasTransform,
+  getCovisibilityComponentColor,
+  getCovisibilityGraphSummary,
+  getCovisibilityNodeColor,
+  getCovisibilityThresholdMax,
+  parseCovisibilityLayoutMode,
+  type CovisibilityGraphCanvasContext,
+} from './covisibilityGraphModalViewModel';
+
+function buildIndex(pairs: [number, number, number][]): ConnectedImagesIndex {
+  const index: ConnectedImagesIndex = new Map();
+  for (const [a, b, weight] of pairs) {
+    index.set(a, (index.get(a) ?? new Map()).set(b, weight));
+    index.set(b, (index.get(b) ?? new Map()).set(a, weight));
+  }
+  return index;
+}
+
+// Chain 1-2-3 with a detached pair 4-5.
+const graph = buildCovisibilityGraph(
+  [1, 2, 3, 4, 5],
+  buildIndex([[1, 2, 20], [2, 3, 30], [4, 5, 10]]),
+  1
+);
+
+function createMockContext(): CovisibilityGraphCanvasContext & { fills: string[] } {
+  const fills: string[] = [];
+  const ctx = {
+    fills,
+    fillStyle: '',
+    globalAlpha: 1,
+    lineWidth: 1,
+    strokeStyle: '',
+    arc: vi.fn(),
+    beginPath: vi.fn(),
+    clearRect: vi.fn(),
+    fill: vi.fn(() => fills.push(String(ctx.fillStyle))),
+    lineTo: vi.fn(),
+    moveTo: vi.fn(),
+    stroke: vi.fn(),
+  };
+  return ctx;
+}
+
+describe('CovisibilityGraphModal view-model helpers', () => {
+  it('parses layout modes and clamps the threshold slider range', () => {
+    expect(parseCovisibilityLayoutMode('force')).toBe('force');
+    expect(parseCovisibilityLayoutMode('other')).toBe('pose');
+    expect(getCovisibilityThresholdMax(0)).toBe(1);
+    expect(getCovisibilityThresholdMax(80)).toBe(80);
+    expect(getCovisibilityThresholdMax(5000)).toBe(500);
+  });
+
+  it('summarizes components and articulation images', () => {
+    expect(getCovisibilityGraphSummary(graph)).toEqual({
+      nodeLabel: '5 images · 3 edges',
+      componentLabel: '2 components · 2 images outside the largest',
+      articulationLabel: '1 articulation image',
+      isSplit: true,
+    });
+  });
+
+  it('colors selected, articulation and detached nodes distinctly', () => {
+    expect(getCovisibilityNodeColor(graph, 0, 0)).toBe(VIZ_COLORS.frustum.selected);
+    expect(getCovisibilityNodeColor(graph, 1, -1)).toBe('#ffb020');
+    expect(getCovisibilityNodeColor(graph, 3, -1)).toBe(getCovisibilityComponentColor(1));
+    expect(getCovisibilityComponentColor(1)).not.toBe(getCovisibilityComponentColor(0));
+  });
+
+  it('lists articulation images before detached components', () => {
+    const items = getCovisibilityAttentionItems(graph, (imageId) => `img${imageId}.jpg`);
+
+    expect(items).toEqual([
+      { kind: 'articulation', imageId: 2, label: '#2 img2.jpg' },
+      { kind: 'component', imageId: 4, label: '2 images from #4 img4.jpg', color: getCovisibilityComponentColor(1) },
+    ]);
+    expect(getCovisibilityAttentionItems(graph, () => '', 1)).toHaveLength(1);
+  });
+
+  it('hit-tests nodes in canvas space', () => {
+    const layout = new Float32Array([0, 0, 1, 1]);
+    const { scale, offsetX, offsetY } = getCovisibilityCanvasTransform(200, 100);
+
+    expect(scale).toBe(76);
+    expect(findCovisibilityGraphNodeAt(layout, 200, 100, offsetX + 2, offsetY)).toBe(0);
+    expect(findCovisibilityGraphNodeAt(layout, 200, 100, offsetX + scale, offsetY + scale - 3)).toBe(1);
+    expect(findCovisibilityGraphNodeAt(layout, 200, 100, offsetX + scale / 2, offsetY + scale / 2)).toBe(-1);
+  });
+
+  it('draws every edge and paints the selected node last', () => {
+    const ctx = createMockContext();
+    const layout = new Float32Array([0, 0, 0.5, 0, 1, 0, 0, 1, 1, 1]);
+
+    drawCovisibilityGraph(ctx, { graph, layout, width: 200, height: 200, selectedNode: 0 });
+
+    expect(ctx.clearRect).toHaveBeenCalledWith(0, 0, 200, 200);
+    expect(ctx.stroke).toHaveBeenCalledTimes(3);
+    expect(ctx.fills).toHaveLength(5);
+    expect(ctx.fills.at(-1)).toBe(VIZ_COLORS.frustum.selected);
+  });
+});
@@ -0,0 +1,245 @@
+import type { CSSProperties } from 'react';
+import { CANVAS_COLORS, VIZ_COLORS } from '../../theme';
+import type { ImageId, Reconstruction } from '../../types/colmap';
+import { getImageWorldPosition } from '../../utils/colmapTransforms';
+import {
+  computeForceGraphLayout,
+  computePoseGraphLayout,
+  normalizeLayout,
+  type CovisibilityGraph,
+  type CovisibilityLayout,
+  type CovisibilityLayoutMode,
+} from '../../utils/covisibilityGraph';
+
+export const COVISIBILITY_GRAPH_MODAL_WIDTH = 560;
+export const COVISIBILITY_GRAPH_MODAL_ESTIMATED_HEIGHT = 560;
+export const COVISIBILITY_GRAPH_CANVAS_WIDTH = 528;
+export const COVISIBILITY_GRAPH_CANVAS_HEIGHT = 360;
+export const COVISIBILITY_GRAPH_DEFAULT_THRESHOLD = 15;
+export const COVISIBILITY_GRAPH_ATTENTION_LIMIT = 12;
+
+const CANVAS_PADDING = 12;
+const NODE_RADIUS = 3;
+const HIT_RADIUS = 7;
+
+const MAIN_COMPONENT_COLOR = CANVAS_COLORS.textSecondary;
+const ARTICULATION_COLOR = '#ffb020';
+const DETACHED_COMPONENT_COLORS = ['#ff4d4d', '#4da6ff', '#b36bff', '#4dd2a6', '#ff8cc6', '#c6e04d'] as const;
+const EDGE_COLOR = '#6699aa';
+
+export const COVISIBILITY_LAYOUT_OPTIONS: { value: CovisibilityLayoutMode; label: string }[] = [
+  { value: 'pose', label: 'Pose-anchored' },
+  { value: 'force', label: 'Force-directed' },
+];
+
+export interface CovisibilityGraphSummary {
+  nodeLabel: string;
+  componentLabel: string;
+  articulationLabel: string;
+  isSplit: boolean;
+}
+
+export type CovisibilityAttentionItem =
+  | { kind: 'articulation'; imageId: ImageId; label: string }
+  | { kind: 'component'; imageId: ImageId; label: string; color: string };
+
+export interface CovisibilityCanvasTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface CovisibilityGraphCanvasContext {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  globalAlpha: number;
+  lineWidth: number;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number): void;
+  beginPath(): void;
+  clearRect(x: number, y: number, width: number, height: number): void;
+  fill(): void;
+  lineTo(x: number, y: number): void;
+  moveTo(x: number, y: number): void;
+  stroke(): void;
+}
+
+export interface DrawCovisibilityGraphOptions {
+  graph: CovisibilityGraph;
+  layout: CovisibilityLayout;
+  width: number;
+  height: number;
+  selectedNode: number;
+}
+
+export function parseCovisibilityLayoutMode(value: string): CovisibilityLayoutMode {
+  return value === 'force' ? 'force' : 'pose';
+}
+
+export function getCovisibilityThresholdMax(maxWeight: number): number {
+  return Math.max(1, Math.min(maxWeight, 500));
+}
+
+export function getCovisibilityImageCenters(
+  reconstruction: Reconstruction,
+  imageIds: readonly ImageId[]
+): [number, number, number][] {
+  return imageIds.map((imageId) => {
+    const image = reconstruction.images.get(imageId);
+    if (!image) return [0, 0, 0];
+    const position = getImageWorldPosition(image);
+    return [position.x, position.y, position.z];
+  });
+}
+
+/** Normalized node layout; the force layout is seeded from the pose layout so reruns are stable. */
+export function buildCovisibilityGraphLayout(
+  graph: CovisibilityGraph,
+  centers: readonly (readonly [number, number, number])[],
+  mode: CovisibilityLayoutMode
+): CovisibilityLayout {
+  const poseLayout = normalizeLayout(computePoseGraphLayout(centers));
+  return mode === 'force' ? normalizeLayout(computeForceGraphLayout(graph, poseLayout)) : poseLayout;
+}
+
+export function getCovisibilityGraphSummary(graph: CovisibilityGraph): CovisibilityGraphSummary {
+  const componentCount = graph.componentSizes.length;
+  const detached = componentCount > 0 ? graph.imageIds.length - graph.componentSizes[0] : 0;
+
+  return {
+    nodeLabel: `${graph.imageIds.length} images · ${graph.edges.length} edges`,
+    componentLabel: componentCount <= 1
+      ? 'Connected'
+      : `${componentCount} components · ${detached} images outside the largest`,
+    articulationLabel: graph.articulationCount === 0
+      ? 'No articulation images'
+      : `${graph.articulationCount} articulation image${graph.articulationCount === 1 ? '' : 's'}`,
+    isSplit: componentCount > 1,
+  };
+}
+
+export function getCovisibilityComponentColor(component: number): string {
+  return component === 0
+    ? MAIN_COMPONENT_COLOR
+    : DETACHED_COMPONENT_COLORS[(component - 1) % DETACHED_COMPONENT_COLORS.length];
+}
+
+export function getCovisibilityNodeColor(graph: CovisibilityGraph, node: number, selectedNode: number): string {
+  if (node === selectedNode) return VIZ_COLORS.frustum.selected;
+  if (graph.articulation[node]) return ARTICULATION_COLOR;
+  return getCovisibilityComponentColor(graph.componentOf[node]);
+}
+
+/**
+ * Images worth looking at first: cut vertices of the main component (where it
+ * would split), then the first image of each detached component.
+ */
+export function getCovisibilityAttentionItems(
+  graph: CovisibilityGraph,
+  getImageName: (imageId: ImageId) => string,
+  limit = COVISIBILITY_GRAPH_ATTENTION_LIMIT
+): CovisibilityAttentionItem[] {
+  const items: CovisibilityAttentionItem[] = [];
+  const seenComponents = new Set<number>();
+
+  for (let node = 0; node < graph.imageIds.length && items.length < limit; node++) {
+    if (!graph.articulation[node]) continue;
+    const imageId = graph.imageIds[node];
+    items.push({ kind: 'articulation', imageId, label: `#${imageId} ${getImageName(imageId)}` });
+  }
+  for (let node = 0; node < graph.imageIds.length && items.length < limit; node++) {
+    const component = graph.componentOf[node];
+    if (component === 0 || seenComponents.has(component)) continue;
+    seenComponents.add(component);
+    const imageId = graph.imageIds[node];
+    const size = graph.componentSizes[component];
+    items.push({
+      kind: 'component',
+      imageId,
+      label: `${size} image${size === 1 ? '' : 's'} from #${imageId} ${getImageName(imageId)}`,
+      color: getCovisibilityComponentColor(component),
+    });
+  }
+  return items;
+}
+
+export function getCovisibilityCanvasTransform(width: number, height: number): CovisibilityCanvasTransform {
+  const scale = Math.max(0, Math.min(width, height) - CANVAS_PADDING * 2);
+  return {
+    scale,
+    offsetX: (width - scale) / 2,
+    offsetY: (height - scale) / 2,
+  };
+}
+
+export function findCovisibilityGraphNodeAt(
+  layout: CovisibilityLayout,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): number {
+  const { scale, offsetX, offsetY } = getCovisibilityCanvasTransform(width, height);
+  let closest = -1;
+  let closestDistance = HIT_RADIUS;
+  for (let node = 0; node * 2 < layout.length; node++) {
+    const distance = Math.hypot(
+      layout[node * 2] * scale + offsetX - x,
+      layout[node * 2 + 1] * scale + offsetY - y
+    );
+    if (distance <= closestDistance) {
+      closest = node;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+export function drawCovisibilityGraph(
+  ctx: CovisibilityGraphCanvasContext,
+  { graph, layout, width, height, selectedNode }: DrawCovisibilityGraphOptions
+): void {
+  ctx.clearRect(0, 0, width, height);
+  const { scale, offsetX, offsetY } = getCovisibilityCanvasTransform(width, height);
+  if (scale <= 0) return;
+
+  const px = (node: number) => layout[node * 2] * scale + offsetX;
+  const py = (node: number) => layout[node * 2 + 1] * scale + offsetY;
+  const logMax = Math.log1p(Math.max(1, graph.maxWeight));
+
+  ctx.strokeStyle = EDGE_COLOR;
+  for (const { source, target, weight } of graph.edges) {
+    const strength = Math.log1p(weight) / logMax;
+    ctx.globalAlpha = 0.1 + 0.5 * strength;
+    ctx.lineWidth = 0.5 + 1.5 * strength;
+    ctx.beginPath();
+    ctx.moveTo(px(source), py(source));
+    ctx.lineTo(px(target), py(target));
+    ctx.stroke();
+  }
+
+  ctx.globalAlpha = 1;
+  // Highlighted nodes last so they sit on top of the main component.
+  const order = graph.imageIds
+    .map((_, node) => node)
+    .sort((a, b) => nodeDrawRank(graph, a, selectedNode) - nodeDrawRank(graph, b, selectedNode));
+  for (const node of order) {
+    ctx.fillStyle = getCovisibilityNodeColor(graph, node, selectedNode);
+    ctx.beginPath();
+    ctx.arc(px(node), py(node), node === selectedNode ? NODE_RADIUS * 2 : NODE_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function nodeDrawRank(graph: CovisibilityGraph, node: number, selectedNode: number): number {
+  if (node === selectedNode) return 3;
+  if (graph.articulation[node]) return 2;
+  return graph.componentOf[node] === 0 ? 0 : 1;
+}
+
+export function getCovisibilityGraphPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: COVISIBILITY_GRAPH_MODAL_WIDTH,
+  };
+}
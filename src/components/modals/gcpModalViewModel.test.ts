@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { GroundControlPoint } from '../../store/stores/gcpStore';
+import {
+  getGcpAlignmentSummary,
+  getGcpCsvRows,
+  getGcpModelStatusLabel,
+  getGcpResidualLabel,
+  updateGcpCoordinate,
+} from './gcpModalViewModel';
+
+function gcp(overrides: Partial<GroundControlPoint> = {}): GroundControlPoint {
+  return { id: 1, name: 'A', world: null, pickedPosition: null, point3DId: null, observations: [], ...overrides };
+}
+
+describe('gcpModalViewModel', () => {
+  it('labels where each GCP model position comes from', () => {
+    const observations = [{ imageId: 1, x: 0, y: 0 }, { imageId: 2, x: 0, y: 0 }];
+
+    expect(getGcpModelStatusLabel(gcp({ pickedPosition: [0, 0, 0] }), new THREE.Vector3())).toBe('picked');
+    expect(getGcpModelStatusLabel(gcp(), null)).toBe('unplaced');
+    expect(getGcpModelStatusLabel(gcp({ observations }), new THREE.Vector3())).toBe('2 views');
+    expect(getGcpModelStatusLabel(gcp({ observations: observations.slice(0, 1) }), null))
+      .toBe('1 view · not triangulated');
+  });
+
+  it('summarizes the alignment and looks up residuals per GCP', () => {
+    const alignment = {
+      sim3d: { scale: 2, rotation: new THREE.Quaternion(), translation: new THREE.Vector3() },
+      residuals: [{ gcpId: 1, name: 'A', residual: 0.0125 }],
+      rmse: 0.0125,
+    };
+
+    expect(getGcpAlignmentSummary(alignment)).toEqual({
+      countLabel: '1 GCPs used',
+      rmseLabel: 'RMSE 0.0125',
+      scaleLabel: 'Sim3d scale 2.000',
+    });
+    expect(getGcpResidualLabel(alignment, 1)).toBe('0.0125');
+    expect(getGcpResidualLabel(alignment, 2)).toBe('—');
+    expect(getGcpResidualLabel(null, 1)).toBe('—');
+  });
+
+  it('commits coordinate edits axis by axis and ignores invalid input', () => {
+    expect(updateGcpCoordinate(null, 1, '5')).toEqual([0, 5, 0]);
+    expect(updateGcpCoordinate([1, 2, 3], 2, '-4.5')).toEqual([1, 2, -4.5]);
+    expect(updateGcpCoordinate([1, 2, 3], 0, '')).toEqual([1, 2, 3]);
+    expect(updateGcpCoordinate(null, 0, 'abc')).toBeNull();
+  });
+
+  it('exports model positions alongside world coordinates', () => {
+    const rows = getGcpCsvRows(
+      [gcp({ world: [1, 2, 3] }), gcp({ id: 2, name: 'B' })],
+      new Map([[1, new THREE.Vector3(4, 5, 6)]])
+    );
+
+    expect(rows).toEqual([
+      { name: 'A', world: [1, 2, 3], model: [4, 5, 6] },
+      { name: 'B', world: null, model: null },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { CSSProperties } from 'react';
+import type * as THREE from 'three';
+import type { GcpCsvRow } from '../../parsers/gcpCsv';
+import type { GroundControlPoint, Vec3Tuple } from '../../store/stores/gcpStore';
+import { MIN_GCP_ALIGNMENT_COUNT, type GcpAlignment } from '../../utils/gcpAlignment';
+
+export const GCP_MODAL_WIDTH = 400;
+export const GCP_MODAL_ESTIMATED_HEIGHT = 520;
+
+export interface GcpAlignmentSummary {
+  countLabel: string;
+  rmseLabel: string;
+  scaleLabel: string;
+}
+
+function formatLength(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 1 ? value.toFixed(3) : value.toPrecision(3);
+}
+
+/** Where the GCP's model position comes from, e.g. "picked" or "2 views". */
+export function getGcpModelStatusLabel(gcp: GroundControlPoint, modelPosition: THREE.Vector3 | null): string {
+  if (gcp.pickedPosition) return 'picked';
+  if (gcp.observations.length === 0) return 'unplaced';
+  const views = `${gcp.observations.length} ${gcp.observations.length === 1 ? 'view' : 'views'}`;
+  return modelPosition ? views : `${views} · not triangulated`;
+}
+
+export function getGcpResidualLabel(alignment: GcpAlignment | null, gcpId: number): string {
+  const residual = alignment?.residuals.find((item) => item.gcpId === gcpId);
+  return residual ? formatLength(residual.residual) : '—';
+}
+
+/** Status line while fewer than three GCPs have both positions. */
+export function getGcpReadinessLabel(usableCount: number): string {
+  return `${usableCount} of ${MIN_GCP_ALIGNMENT_COUNT} GCPs with model and world positions`;
+}
+
+export function getGcpAlignmentSummary(alignment: GcpAlignment): GcpAlignmentSummary {
+  return {
+    countLabel: `${alignment.residuals.length} GCPs used`,
+    rmseLabel: `RMSE ${formatLength(alignment.rmse)}`,
+    scaleLabel: `Sim3d scale ${alignment.sim3d.scale.toPrecision(4)}`,
+  };
+}
+
+/** Text for one world-coordinate input; empty when the GCP has no world position. */
+export function formatGcpCoordinate(world: Vec3Tuple | null, axis: 0 | 1 | 2): string {
+  return world ? String(world[axis]) : '';
+}
+
+/** World position after committing one axis input; blank or invalid input leaves it unchanged. */
+export function updateGcpCoordinate(world: Vec3Tuple | null, axis: 0 | 1 | 2, value: string): Vec3Tuple | null {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) return world;
+  const next: Vec3Tuple = world ? [...world] : [0, 0, 0];
+  next[axis] = parsed;
+  return next;
+}
+
+export function getGcpCsvRows(
+  gcps: readonly GroundControlPoint[],
+  modelPositions: ReadonlyMap<number, THREE.Vector3>
+): GcpCsvRow[] {
+  return gcps.map((gcp) => {
+    const model = modelPositions.get(gcp.id);
+    return { name: gcp.name, world: gcp.world, model: model ? [model.x, model.y, model.z] : null };
+  });
+}
+
+export function getGcpModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: GCP_MODAL_WIDTH,
+  };
+}
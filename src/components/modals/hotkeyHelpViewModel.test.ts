@@ -22,6 +22,7 @@ import {
   HOTKEY_INFO_BUTTON_CLASS,
   HOTKEY_INFO_BUTTON_ICON_CLASS,
   HOTKEY_INFO_BUTTON_TITLE,
+  getHotkeyEditorSections,
   getHotkeyHelpOverlayStyle,
   getHotkeyHelpPanelStyle,
   getHotkeyHelpSections,
@@ -29,6 +30,7 @@ import {
   getHotkeyHelpToggleKeyLabels,
   getHotkeyInfoButtonClassName,
   getHotkeyInfoButtonStyle,
+  getHotkeyRebindError,
   shouldShowHotkeyInfoButton,
 } from './hotkeyHelpViewModel';
 import {
@@ -36,6 +38,8 @@ import {
   ESSENTIAL_HOTKEY_IDS,
   ESSENTIAL_IMAGE_NAV_ROW_ID,
   ESSENTIAL_WASD_ROW_ID,
+  HOTKEYS,
+  resolveHotkeys,
   type HotkeyRegistry,
 } from '../../config/hotkeys';
 import { Z_INDEX, contextMenuStyles, modalStyles } from '../../theme';
@@ -419,4 +423,39 @@ describe('hotkey help tabs view model', () => {
       expect(cls).not.toContain('hover:');
     }
   });
+
+});
+
+describe('hotkey editor view model', () => {
+  it('lists every hotkey by category with overrides and display-only rows flagged', () => {
+    const overrides = { resetView: 'x' };
+    const sections = getHotkeyEditorSections(resolveHotkeys(overrides), overrides);
+    const rows = sections.flatMap((section) => section.rows);
+
+    expect(sections.map((section) => section.title)).toEqual(['General', 'Image Modal', 'Camera Controls']);
+    expect(rows).toHaveLength(Object.keys(HOTKEYS).length);
+    expect(rows.find((row) => row.id === 'resetView')).toMatchObject({ keyCombo: 'x', overridden: true });
+    expect(rows.find((row) => row.id === 'moveUp')).toMatchObject({ keyCombo: 'e / Space', overridden: false });
+    expect(rows.find((row) => row.id === 'adjustPointSize')?.remappable).toBe(false);
+    expect(rows.every((row) => row.conflictsWith.length === 0)).toBe(true);
+  });
+
+  it('flags conflicting rows loaded from a profile on both sides', () => {
+    const overrides = { toggleGrid: 'r' };
+    const rows = getHotkeyEditorSections(resolveHotkeys(overrides), overrides).flatMap((section) => section.rows);
+
+    expect(rows.find((row) => row.id === 'toggleGrid')?.conflictsWith).toEqual(['Reset view']);
+    expect(rows.find((row) => row.id === 'resetView')?.conflictsWith).toEqual(['Toggle grid']);
+  });
+
+  it('refuses rebinds that are invalid or clash with an active hotkey', () => {
+    expect(getHotkeyRebindError('resetView', 'x', HOTKEYS)).toBeNull();
+    expect(getHotkeyRebindError('resetView', 'escape', HOTKEYS)).toBeNull();
+    expect(getHotkeyRebindError('resetView', 'shift+/', HOTKEYS)).toBe(
+      'Shift + / is already used by Show keyboard shortcuts'
+    );
+    expect(getHotkeyRebindError('moveForward', 'ctrl+w', HOTKEYS)).toBe(
+      'Move forward must be a single key without modifiers'
+    );
+  });
 });
@@ -14,8 +14,12 @@ import {
   ESSENTIAL_WASD_ROW_ID,
   HOTKEYS,
   HOTKEY_CATEGORIES,
+  findHotkeyConflicts,
+  formatKeyAlternatives,
   formatKeyCombo,
+  validateHotkeyKeys,
   type HotkeyCategory,
+  type HotkeyOverrides,
   type HotkeyRegistry,
 } from '../../config/hotkeys';
 import { Z_INDEX, modalStyles } from '../../theme';
@@ -36,8 +40,16 @@ export interface HotkeyHelpSection {
 export const ESSENTIALS_TAB_ID = 'essentials' as const;
 export const ESSENTIALS_TAB_TITLE = 'Essentials';
 
+/**
+ * Id of the Customize tab (user request: remappable hotkeys). It lists every
+ * registry hotkey for rebinding, so it renders editor rows rather than the
+ * HotkeyHelpTab rows and is appended by the modal after the category tabs.
+ */
+export const CUSTOMIZE_TAB_ID = 'customize' as const;
+export const CUSTOMIZE_TAB_TITLE = 'Customize';
+
 /** A tab in the help panel: the Essentials overlay plus one per non-empty category. */
-export type HotkeyHelpTabId = typeof ESSENTIALS_TAB_ID | HotkeyCategory;
+export type HotkeyHelpTabId = typeof ESSENTIALS_TAB_ID | HotkeyCategory | typeof CUSTOMIZE_TAB_ID;
 
 export interface HotkeyHelpTab {
   id: HotkeyHelpTabId;
@@ -112,6 +124,25 @@ export const HOTKEY_HELP_TAB_ACTIVE_CLASS =
 export const HOTKEY_HELP_TAB_PANEL_CLASS = 'flex-1 min-h-0 overflow-auto py-2';
 // Footer key chips: same mono/uppercase idiom as the row combos (no boxed chip).
 export const HOTKEY_HELP_FOOTER_KEY_CLASS = 'font-mono uppercase tracking-wide text-gray-500';
+// Customize tab. The key combo becomes a button styled like the read-only
+// combo (same literal tokens) plus the hover brightening the tabs use; while
+// listening it switches to the accent colour and drops `uppercase` so the
+// prompt reads as a sentence. Reset links reuse the same flat-text idiom.
+export const HOTKEY_EDITOR_KEY_BUTTON_CLASS =
+  'text-xs font-mono text-gray-500 ml-auto uppercase tracking-wide bg-transparent hover-ds-text-primary cursor-pointer';
+export const HOTKEY_EDITOR_KEY_CAPTURING_CLASS =
+  'text-xs font-mono text-ds-accent ml-auto tracking-wide bg-transparent cursor-pointer';
+export const HOTKEY_EDITOR_RESET_CLASS = 'text-xs text-ds-secondary bg-transparent hover-ds-text-primary cursor-pointer';
+export const HOTKEY_EDITOR_CONFLICT_CLASS = 'text-xs text-ds-warning';
+export const HOTKEY_EDITOR_HINT_CLASS = 'px-4 py-1 text-xs text-ds-muted';
+export const HOTKEY_EDITOR_ERROR_CLASS = 'px-4 py-1 text-xs text-ds-error';
+export const HOTKEY_EDITOR_SECTION_TITLE_CLASS = 'px-4 py-1 text-ds-secondary text-sm font-medium';
+export const HOTKEY_EDITOR_HINT =
+  'Click a shortcut, then press the new keys (Esc cancels). Keys match by position on a US layout.';
+export const HOTKEY_EDITOR_CAPTURE_LABEL = 'Press keys…';
+export const HOTKEY_EDITOR_RESET_LABEL = 'Reset';
+export const HOTKEY_EDITOR_RESET_ALL_LABEL = 'Reset all shortcuts';
+
 export const HOTKEY_HELP_FOOTER_PREFIX = 'Press';
 export const HOTKEY_HELP_FOOTER_SUFFIX = 'to toggle this panel';
 
@@ -288,6 +319,78 @@ export function getHotkeyHelpTabs(
   return [essentialsTab, ...categoryTabs];
 }
 
+export interface HotkeyEditorRow {
+  id: string;
+  description: string;
+  /** Every alternative of the binding ('E / Space'). */
+  keyCombo: string;
+  remappable: boolean;
+  /** Bound to something other than the default. */
+  overridden: boolean;
+  /** Descriptions of the hotkeys sharing one of this row's combos. */
+  conflictsWith: string[];
+}
+
+export interface HotkeyEditorSection {
+  category: HotkeyCategory;
+  title: string;
+  rows: HotkeyEditorRow[];
+}
+
+function describeHotkey(id: string, hotkeys: HotkeyRegistry): string {
+  return hotkeys[id]?.description ?? id;
+}
+
+/**
+ * Rows for the Customize tab: every registry hotkey grouped by category,
+ * including the General and Image Modal ones the help tabs leave out.
+ * Conflicts are flagged on both rows, since bindings loaded from a profile
+ * or config file are not checked when they are applied.
+ */
+export function getHotkeyEditorSections(
+  hotkeys: HotkeyRegistry,
+  overrides: HotkeyOverrides,
+  categoryLabels: Record<HotkeyCategory, string> = HOTKEY_CATEGORIES
+): HotkeyEditorSection[] {
+  const conflicts = findHotkeyConflicts(hotkeys);
+  const conflictsFor = (id: string) => conflicts
+    .filter((conflict) => conflict.ids.includes(id))
+    .map((conflict) => describeHotkey(conflict.ids[0] === id ? conflict.ids[1] : conflict.ids[0], hotkeys));
+
+  return (Object.entries(categoryLabels) as [HotkeyCategory, string][])
+    .map(([category, title]) => ({
+      category,
+      title,
+      rows: Object.entries(hotkeys)
+        .filter(([, hotkey]) => hotkey.category === category)
+        .map(([id, hotkey]) => ({
+          id,
+          description: hotkey.description,
+          keyCombo: formatKeyAlternatives(hotkey.keys),
+          remappable: hotkey.remappable !== false,
+          overridden: Object.hasOwn(overrides, id) && overrides[id] === hotkey.keys,
+          conflictsWith: [...new Set(conflictsFor(id))],
+        })),
+    }))
+    .filter((section) => section.rows.length > 0);
+}
+
+/**
+ * Check a captured binding before it is saved. Returns the message to show
+ * when it is refused (invalid for this hotkey, or already used by a hotkey
+ * that can be active at the same time), or null when it can be saved.
+ */
+export function getHotkeyRebindError(id: string, keys: string, hotkeys: HotkeyRegistry): string | null {
+  const invalid = validateHotkeyKeys(id, keys, hotkeys);
+  if (invalid) return invalid;
+
+  const candidate: HotkeyRegistry = { ...hotkeys, [id]: { ...hotkeys[id], keys } };
+  const conflict = findHotkeyConflicts(candidate).find((entry) => entry.ids.includes(id));
+  if (!conflict) return null;
+  const otherId = conflict.ids[0] === id ? conflict.ids[1] : conflict.ids[0];
+  return `${formatKeyCombo(conflict.combo)} is already used by ${describeHotkey(otherId, hotkeys)}`;
+}
+
 /**
  * Labels for every combo that toggles the help panel (comma-separated in the
  * registry, e.g. 'shift+/, i'). '?' is shown for the shift+/ combo; single
@@ -6,6 +6,7 @@ import {
   drawImagePlaceholder,
   drawKeypoints,
   drawMatchLines,
+  drawReprojectionResiduals,
   type ImageDetailCanvasContext,
 } from './imageDetailCanvasDrawing';
 import type { MatchViewLayout } from './imageDetailLayoutViewModel';
@@ -98,6 +99,25 @@ describe('image detail canvas drawing', () => {
     expect(ctx.calls.filter(call => call.startsWith('fill:'))).toHaveLength(2);
   });
 
+  it('draws magnified residual vectors from each observation, coloured by error', () => {
+    const ctx = new RecordingCanvasContext();
+
+    drawReprojectionResiduals(ctx, {
+      residuals: [{ point2DIdx: 0, point3DId: 7n, observed: [10, 5], projected: [11, 5], error: 1 }],
+      camera: buildCamera({ width: 100, height: 50 }),
+      imageWidth: 200,
+      imageHeight: 100,
+      magnification: 10,
+      colorScale: 1,
+    });
+
+    expect(ctx.calls[0]).toBe('clearRect:0:0:200:100');
+    expect(ctx.calls).toContain('moveTo:20:10');
+    expect(ctx.calls).toContain('lineTo:40:10');
+    expect(ctx.calls).toContain('stroke:hsl(0, 90%, 50%):1:1');
+    expect(ctx.calls).toContain('arc:20:10:1.5');
+  });
+
   it('draws match lines and endpoint markers from image placements', () => {
     const ctx = new RecordingCanvasContext();
 
@@ -1,7 +1,9 @@
 import type { Camera, Point2D } from '../../types/colmap';
 import { UNMATCHED_POINT3D_ID } from '../../types/colmap';
 import { CANVAS_COLORS, VIZ_COLORS } from '../../theme';
+import type { ReprojectionResidual } from '../../utils/reprojectionErrors';
 import type { MatchViewLayout } from './imageDetailLayoutViewModel';
+import { getReprojectionErrorColor } from './imageDetailReprojectionViewModel';
 
 export interface ImageDetailCanvasContext {
   fillStyle: string | CanvasGradient | CanvasPattern;
@@ -36,6 +38,16 @@ export interface DrawKeypointsOptions {
   showPoints3D: boolean;
 }
 
+export interface DrawReprojectionResidualsOptions {
+  residuals: readonly ReprojectionResidual[];
+  camera: Camera;
+  imageWidth: number;
+  imageHeight: number;
+  /** Residual vectors are scaled by this factor so sub-pixel errors stay visible. */
+  magnification: number;
+  colorScale: number;
+}
+
 export interface DrawMatchLinesOptions {
   lines: { point1: [number, number]; point2: [number, number] }[];
   layout: MatchViewLayout;
@@ -106,6 +118,40 @@ export function drawKeypoints(
   }
 }
 
+export function drawReprojectionResiduals(
+  ctx: ImageDetailCanvasContext,
+  {
+    residuals,
+    camera,
+    imageWidth,
+    imageHeight,
+    magnification,
+    colorScale,
+  }: DrawReprojectionResidualsOptions
+): void {
+  ctx.clearRect(0, 0, imageWidth, imageHeight);
+
+  const scaleX = imageWidth / camera.width;
+  const scaleY = imageHeight / camera.height;
+  ctx.lineWidth = 1;
+
+  for (const { observed, projected, error } of residuals) {
+    const x = observed[0] * scaleX;
+    const y = observed[1] * scaleY;
+    const color = getReprojectionErrorColor(error, colorScale);
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(
+      x + (projected[0] - observed[0]) * magnification * scaleX,
+      y + (projected[1] - observed[1]) * magnification * scaleY
+    );
+    ctx.stroke();
+    ctx.fillStyle = color;
+    drawCircle(ctx, x, y, 1.5);
+  }
+}
+
 export function drawMatchLines(
   ctx: ImageDetailCanvasContext,
   {
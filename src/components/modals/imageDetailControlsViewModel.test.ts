@@ -6,6 +6,7 @@ import {
   getImageDetailControlVisibilityState,
   getImageDetailMatchOpacityControlState,
   getImageDetailMatchSelectState,
+  getImageDetailMatchSourceSelectState,
   getImageDetailMatchesToggleButtonState,
   getImageDetailPointToggleDescriptors,
   getImageDetailPointToggleButtonState,
@@ -14,6 +15,7 @@ import {
   getImageJumpInputState,
   getPointCountClass,
   parseMatchLineOpacityValue,
+  parseMatchesSourceValue,
   parseOptionalImageId,
   shouldShowImageDetailMatchOpacity,
   shouldShowImageDetailMatchSelector,
@@ -67,6 +69,8 @@ describe('imageDetailControlsViewModel', () => {
   it('derives match-select rendering state for touch and desktop controls', () => {
     expect(formatImageDetailMatchSelectOptionLabel('touch', 'image-a.jpg', 4)).toBe('image-a.jpg (4)');
     expect(formatImageDetailMatchSelectOptionLabel('desktop', 'image-a.jpg', 4)).toBe('image-a.jpg (4 matches)');
+    expect(formatImageDetailMatchSelectOptionLabel('desktop', 'image-c.jpg', 9, false))
+      .toBe('image-c.jpg (9 matches) (unregistered)');
 
     expect(getImageDetailMatchSelectState({
       variant: 'touch',
@@ -102,6 +106,22 @@ describe('imageDetailControlsViewModel', () => {
     });
   });
 
+  it('derives match-source select state and parses selected sources', () => {
+    expect(getImageDetailMatchSourceSelectState('touch', 'verified')).toMatchObject({
+      value: 'verified',
+      minHeight: 36,
+      options: [
+        { value: 'triangulated', label: 'Triangulated' },
+        { value: 'verified', label: 'Inliers' },
+        { value: 'raw', label: 'Raw' },
+      ],
+    });
+    expect(getImageDetailMatchSourceSelectState('desktop', 'raw').minHeight).toBeUndefined();
+
+    expect(parseMatchesSourceValue('raw')).toBe('raw');
+    expect(parseMatchesSourceValue('bogus')).toBeNull();
+  });
+
   it('derives match-opacity rendering state for touch and desktop controls', () => {
     expect(getImageDetailMatchOpacityControlState({
       variant: 'touch',
@@ -1,4 +1,5 @@
 import { TOUCH, buttonStyles, inputStyles } from '../../theme';
+import { MATCHES_SOURCES, type MatchesSource } from '../../store/types';
 import type { ImageId } from '../../types/colmap';
 import {
   parseFiniteNumberString,
@@ -90,6 +91,7 @@ export interface ImageDetailMatchSelectConnectedImage {
   imageId: ImageId;
   matchCount: number;
   name: string;
+  isRegistered?: boolean;
 }
 
 export interface ImageDetailMatchSelectStateOptions {
@@ -111,6 +113,32 @@ export interface ImageDetailMatchSelectState {
   options: ImageDetailMatchSelectOptionState[];
 }
 
+/** Match source switch, only offered when a database.db is loaded. */
+export interface ImageDetailMatchSourceControl {
+  matchesSource: MatchesSource;
+  setMatchesSource: (source: MatchesSource) => void;
+}
+
+/** Reprojection residual explorer toggle, offered for single-image views. */
+export interface ImageDetailReprojectionControl {
+  active: boolean;
+  setActive: (show: boolean) => void;
+}
+
+/** Splat error-map toggle, offered for single-image views while the WebGPU metric path is up. */
+export interface ImageDetailSplatErrorMapControl {
+  active: boolean;
+  setActive: (show: boolean) => void;
+}
+
+export interface ImageDetailMatchSourceSelectState {
+  value: MatchesSource;
+  title: string;
+  className: string;
+  minHeight?: number;
+  options: { value: MatchesSource; label: string }[];
+}
+
 export interface ImageDetailMatchOpacityControlStateOptions {
   variant: ImageDetailControlVariant;
   opacity: number;
@@ -168,6 +196,14 @@ const DESKTOP_MATCHES_TOGGLE_INACTIVE_CLASS =
 const TOUCH_MATCH_SELECT_CLASS = `${inputStyles.select} flex-1 min-w-0 py-1.5 text-xs`;
 const DESKTOP_MATCH_SELECT_CLASS = `${inputStyles.select} py-1 pl-2 pr-1 text-xs`;
 
+const TOUCH_MATCH_SOURCE_SELECT_CLASS = `${inputStyles.select} flex-shrink-0 py-1.5 text-xs`;
+
+const MATCH_SOURCE_LABELS: Record<MatchesSource, string> = {
+  triangulated: 'Triangulated',
+  verified: 'Inliers',
+  raw: 'Raw',
+};
+
 const IMAGE_JUMP_INPUT_CONTAINER_CLASS = 'flex items-center text-xs';
 const IMAGE_JUMP_INPUT_FIELD_CLASS = `${inputStyles.base} py-1 w-14 rounded-l rounded-r-none text-center text-xs`;
 const IMAGE_JUMP_INPUT_COUNT_CLASS =
@@ -273,9 +309,11 @@ export function parseMatchLineOpacityValue(value: string): number | null {
 export function formatImageDetailMatchSelectOptionLabel(
   variant: ImageDetailControlVariant,
   name: string,
-  matchCount: number
+  matchCount: number,
+  isRegistered = true
 ): string {
-  return `${name} (${matchCount}${variant === 'touch' ? '' : ' matches'})`;
+  const label = `${name} (${matchCount}${variant === 'touch' ? '' : ' matches'})`;
+  return isRegistered ? label : `${label} (unregistered)`;
 }
 
 export function getImageDetailMatchSelectState({
@@ -290,13 +328,32 @@ export function getImageDetailMatchSelectState({
     placeholderLabel: isTouch ? 'Select image...' : 'Select connected image...',
     className: isTouch ? TOUCH_MATCH_SELECT_CLASS : DESKTOP_MATCH_SELECT_CLASS,
     minHeight: isTouch ? TOUCH.compactButtonHeight : undefined,
-    options: connectedImages.map(({ imageId, matchCount, name }) => ({
+    options: connectedImages.map(({ imageId, matchCount, name, isRegistered }) => ({
       value: String(imageId),
-      label: formatImageDetailMatchSelectOptionLabel(variant, name, matchCount),
+      label: formatImageDetailMatchSelectOptionLabel(variant, name, matchCount, isRegistered),
     })),
   };
 }
 
+export function getImageDetailMatchSourceSelectState(
+  variant: ImageDetailControlVariant,
+  matchesSource: MatchesSource
+): ImageDetailMatchSourceSelectState {
+  const isTouch = variant === 'touch';
+
+  return {
+    value: matchesSource,
+    title: 'Match source: triangulated points2D, raw descriptor matches, or two-view geometry inliers',
+    className: isTouch ? TOUCH_MATCH_SOURCE_SELECT_CLASS : DESKTOP_MATCH_SELECT_CLASS,
+    minHeight: isTouch ? TOUCH.compactButtonHeight : undefined,
+    options: MATCHES_SOURCES.map((value) => ({ value, label: MATCH_SOURCE_LABELS[value] })),
+  };
+}
+
+export function parseMatchesSourceValue(value: string): MatchesSource | null {
+  return (MATCHES_SOURCES as readonly string[]).includes(value) ? value as MatchesSource : null;
+}
+
 export function formatImageDetailOpacityPercent(opacity: number): string {
   return `${Math.round(opacity * 100)}%`;
 }
@@ -4,6 +4,8 @@ export interface ImageFetchPlanOptions {
   reconstruction: Reconstruction | null;
   imageDetailId: ImageId | null;
   matchedImageId: ImageId | null;
+  /** Name for a matched image that is only known from the database (unregistered). */
+  matchedImageName?: string | null;
   hasImages: boolean;
   isImageCached: (imageName: string) => boolean;
 }
@@ -19,6 +21,7 @@ export function getImageNamesToFetch({
   reconstruction,
   imageDetailId,
   matchedImageId,
+  matchedImageName = null,
   hasImages,
   isImageCached,
 }: ImageFetchPlanOptions): string[] {
@@ -28,9 +31,10 @@ export function getImageNamesToFetch({
   for (const id of [imageDetailId, matchedImageId]) {
     if (id === null) continue;
 
-    const image = reconstruction.images.get(id);
-    if (image && !isImageCached(image.name)) {
-      names.push(image.name);
+    const name = reconstruction.images.get(id)?.name
+      ?? (id === matchedImageId ? matchedImageName : null);
+    if (name && !isImageCached(name)) {
+      names.push(name);
     }
   }
 
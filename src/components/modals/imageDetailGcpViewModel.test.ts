@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { GroundControlPoint } from '../../store/stores/gcpStore';
+import {
+  IMAGE_DETAIL_GCP_MARKER_SIZE,
+  getImageDetailGcpMarkerStyle,
+  getImageDetailGcpMarkers,
+  getImagePixelFromClientPoint,
+} from './imageDetailGcpViewModel';
+
+const layout = { offsetX: 20, offsetY: 10, renderedImageWidth: 320, renderedImageHeight: 240 };
+const camera = { width: 640, height: 480 };
+
+function buildGcp(id: number, observations: GroundControlPoint['observations']): GroundControlPoint {
+  return { id, name: `GCP ${id}`, world: null, pickedPosition: null, point3DId: null, observations };
+}
+
+describe('image detail GCP view-model helpers', () => {
+  it('lists the GCP observations made in this image', () => {
+    const gcps = [
+      buildGcp(1, [{ imageId: 5, x: 10, y: 20 }]),
+      buildGcp(2, [{ imageId: 6, x: 1, y: 1 }]),
+      buildGcp(3, [{ imageId: 6, x: 2, y: 2 }, { imageId: 5, x: 30, y: 40 }]),
+    ];
+
+    expect(getImageDetailGcpMarkers(gcps, 5, 3)).toEqual([
+      { gcpId: 1, label: 'GCP 1', x: 10, y: 20, isActive: false },
+      { gcpId: 3, label: 'GCP 3', x: 30, y: 40, isActive: true },
+    ]);
+  });
+
+  it('maps clicks on the rendered image to image pixels', () => {
+    expect(getImagePixelFromClientPoint({ x: 120 + 160, y: 50 + 120 }, { left: 100, top: 40 }, layout, camera))
+      .toEqual({ x: 320, y: 240 });
+    expect(getImagePixelFromClientPoint({ x: 105, y: 60 }, { left: 100, top: 40 }, layout, camera)).toBeNull();
+  });
+
+  it('centres markers on their observation', () => {
+    const style = getImageDetailGcpMarkerStyle({ gcpId: 1, label: 'A', x: 640, y: 0, isActive: false }, layout, camera);
+
+    expect(style).toMatchObject({ left: 340 - IMAGE_DETAIL_GCP_MARKER_SIZE / 2, top: 10 - IMAGE_DETAIL_GCP_MARKER_SIZE / 2 });
+  });
+});
@@ -0,0 +1,63 @@
+import type { CSSProperties } from 'react';
+import type { GroundControlPoint } from '../../store/stores/gcpStore';
+import type { Camera, ImageId } from '../../types/colmap';
+import type { SingleImageLayout } from './imageDetailLayoutViewModel';
+
+export const IMAGE_DETAIL_GCP_MARKER_SIZE = 14;
+
+export interface ImageDetailGcpMarker {
+  gcpId: number;
+  label: string;
+  x: number;
+  y: number;
+  isActive: boolean;
+}
+
+/** GCP observations drawn on the single-image view, plus the click handler while GCP picking is on. */
+export interface ImageDetailGcpControl {
+  markers: ImageDetailGcpMarker[];
+  onImagePointClick: ((point: { x: number; y: number }) => void) | null;
+}
+
+export function getImageDetailGcpMarkers(
+  gcps: readonly GroundControlPoint[],
+  imageId: ImageId,
+  activeGcpId: number | null
+): ImageDetailGcpMarker[] {
+  const markers: ImageDetailGcpMarker[] = [];
+  for (const gcp of gcps) {
+    const observation = gcp.observations.find((candidate) => candidate.imageId === imageId);
+    if (observation) {
+      markers.push({ gcpId: gcp.id, label: gcp.name, x: observation.x, y: observation.y, isActive: gcp.id === activeGcpId });
+    }
+  }
+  return markers;
+}
+
+/** Image pixel under a click in the single-image view, or null outside the rendered image. */
+export function getImagePixelFromClientPoint(
+  client: { x: number; y: number },
+  containerRect: { left: number; top: number },
+  layout: SingleImageLayout,
+  camera: Pick<Camera, 'width' | 'height'>
+): { x: number; y: number } | null {
+  const { renderedImageWidth, renderedImageHeight, offsetX, offsetY } = layout;
+  if (renderedImageWidth <= 0 || renderedImageHeight <= 0) return null;
+  const u = (client.x - containerRect.left - offsetX) / renderedImageWidth;
+  const v = (client.y - containerRect.top - offsetY) / renderedImageHeight;
+  if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+  return { x: u * camera.width, y: v * camera.height };
+}
+
+export function getImageDetailGcpMarkerStyle(
+  marker: ImageDetailGcpMarker,
+  layout: SingleImageLayout,
+  camera: Pick<Camera, 'width' | 'height'>
+): CSSProperties {
+  return {
+    left: layout.offsetX + (marker.x / camera.width) * layout.renderedImageWidth - IMAGE_DETAIL_GCP_MARKER_SIZE / 2,
+    top: layout.offsetY + (marker.y / camera.height) * layout.renderedImageHeight - IMAGE_DETAIL_GCP_MARKER_SIZE / 2,
+    width: IMAGE_DETAIL_GCP_MARKER_SIZE,
+    height: IMAGE_DETAIL_GCP_MARKER_SIZE,
+  };
+}
@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest';
-import { getMatchImagePairRenderState } from './imageDetailMatchImagePairViewModel';
+import {
+  formatGeometryMatrixEntry,
+  getMatchImagePairRenderState,
+  getMatchPairGeometryState,
+} from './imageDetailMatchImagePairViewModel';
 import type { MatchViewLayout } from './imageDetailLayoutViewModel';
 
 describe('imageDetailMatchImagePairViewModel', () => {
@@ -75,6 +79,52 @@ describe('imageDetailMatchImagePairViewModel', () => {
     expect(state.primaryImage.showImage).toBe(false);
     expect(state.showMatchLines).toBe(false);
   });
+
+  it('summarizes database pair geometry, skipping unestimated zero matrices', () => {
+    const state = getMatchPairGeometryState({
+      imageId1: 7,
+      imageId2: 3,
+      rawMatches: new Uint32Array([0, 1, 2, 3, 4, 5]),
+      inlierMatches: new Uint32Array([0, 1]),
+      geometry: {
+        config: 2,
+        F: [0, 0, 0.0001, 0, 0, -0.02, 0.00005, 0.02, 1],
+        E: [0, 0, 0, 0, 0, 0, 0, 0, 0],
+        H: null,
+        qvec: [1, 0, 0, 0],
+        tvec: [1, 0, 0],
+      },
+    });
+
+    expect(state).toEqual({
+      configLabel: 'Calibrated',
+      countsLabel: '3 raw · 1 inliers',
+      directionLabel: '#3 → #7',
+      matrices: [{
+        label: 'F',
+        title: 'Fundamental',
+        rows: [
+          ['0', '0', '1.000e-4'],
+          ['0', '0', '-0.0200'],
+          ['5.000e-5', '0.0200', '1.0000'],
+        ],
+      }],
+    });
+  });
+
+  it('reports unverified pairs and formats matrix entries', () => {
+    expect(getMatchPairGeometryState(null)).toBeNull();
+    expect(getMatchPairGeometryState({
+      imageId1: 1,
+      imageId2: 2,
+      rawMatches: new Uint32Array([0, 0]),
+      inlierMatches: new Uint32Array(0),
+      geometry: null,
+    })).toMatchObject({ configLabel: 'Not verified', matrices: [] });
+
+    expect(formatGeometryMatrixEntry(12345.6)).toBe('1.235e+4');
+    expect(formatGeometryMatrixEntry(-0.5)).toBe('-0.5000');
+  });
 });
 
 function buildMatchLayout(overrides: Partial<MatchViewLayout> = {}): MatchViewLayout {
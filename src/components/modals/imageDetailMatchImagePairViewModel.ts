@@ -1,4 +1,6 @@
 import type { CSSProperties } from 'react';
+import type { DatabasePairMatches } from '../../types/colmapDatabase';
+import { formatTwoViewGeometryConfig } from '../../utils/colmapDatabaseMatches';
 import type { ImagePlacement, MatchViewLayout } from './imageDetailLayoutViewModel';
 
 interface MatchImagePairRenderStateOptions {
@@ -71,3 +73,56 @@ function getMatchImageRenderState({
     },
   };
 }
+
+export interface MatchPairGeometryMatrix {
+  label: 'F' | 'E' | 'H';
+  title: string;
+  rows: string[][];
+}
+
+/** Inspector summary for a database pair: config, match counts and stored model matrices. */
+export interface MatchPairGeometryState {
+  configLabel: string;
+  countsLabel: string;
+  /** COLMAP stores geometry relative to the smaller image id, regardless of view order. */
+  directionLabel: string;
+  matrices: MatchPairGeometryMatrix[];
+}
+
+const GEOMETRY_MATRIX_TITLES: Record<MatchPairGeometryMatrix['label'], string> = {
+  F: 'Fundamental',
+  E: 'Essential',
+  H: 'Homography',
+};
+
+export function formatGeometryMatrixEntry(value: number): string {
+  if (value === 0) return '0';
+  const magnitude = Math.abs(value);
+  return magnitude >= 1e-3 && magnitude < 1e4 ? value.toFixed(4) : value.toExponential(3);
+}
+
+export function getMatchPairGeometryState(pair: DatabasePairMatches | null): MatchPairGeometryState | null {
+  if (!pair) return null;
+
+  const geometry = pair.geometry;
+  const matrices: MatchPairGeometryMatrix[] = [];
+  if (geometry) {
+    for (const label of ['F', 'E', 'H'] as const) {
+      const values = geometry[label];
+      // COLMAP stores zero matrices for models that were not estimated.
+      if (!values || values.every((value) => value === 0)) continue;
+      matrices.push({
+        label,
+        title: GEOMETRY_MATRIX_TITLES[label],
+        rows: [0, 1, 2].map((row) => values.slice(row * 3, row * 3 + 3).map(formatGeometryMatrixEntry)),
+      });
+    }
+  }
+
+  return {
+    configLabel: formatTwoViewGeometryConfig(geometry?.config ?? null),
+    countsLabel: `${pair.rawMatches.length / 2} raw · ${pair.inlierMatches.length / 2} inliers`,
+    directionLabel: `#${Math.min(pair.imageId1, pair.imageId2)} → #${Math.max(pair.imageId1, pair.imageId2)}`,
+    matrices,
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { ReprojectionErrorAnalysis } from '../../utils/reprojectionErrors';
+import {
+  getReprojectionErrorColor,
+  getReprojectionErrorPanelState,
+  getResidualMagnification,
+} from './imageDetailReprojectionViewModel';
+
+function buildAnalysis(overrides: Partial<ReprojectionErrorAnalysis> = {}): ReprojectionErrorAnalysis {
+  return {
+    residuals: [],
+    meanError: 0.5,
+    medianError: 0.4,
+    maxError: 3,
+    grid: { cols: 2, rows: 1, cells: [0.25, null] },
+    radialBins: [
+      { radius: 0.25, count: 4, meanError: 0.5, meanRadialError: 0.25 },
+      { radius: 0.75, count: 0, meanError: 0, meanRadialError: 0 },
+    ],
+    distortionWarnings: [],
+    ...overrides,
+  };
+}
+
+describe('imageDetailReprojectionViewModel', () => {
+  it('magnifies residual vectors in nice steps so the median stays visible', () => {
+    expect(getResidualMagnification(0.4, 0.5)).toBe(20);
+    expect(getResidualMagnification(20, 1)).toBe(1);
+    expect(getResidualMagnification(0, 1)).toBe(1);
+  });
+
+  it('colours errors from green to red across the colour scale', () => {
+    expect(getReprojectionErrorColor(0, 1)).toBe('hsl(120, 90%, 50%)');
+    expect(getReprojectionErrorColor(0.5, 1)).toBe('hsl(60, 90%, 50%)');
+    expect(getReprojectionErrorColor(5, 1)).toBe('hsl(0, 90%, 50%)');
+  });
+
+  it('builds the summary, heatmap and radial plot of the explorer panel', () => {
+    const state = getReprojectionErrorPanelState(
+      buildAnalysis({ distortionWarnings: ['Border residuals point outward consistently'] }),
+      20
+    );
+
+    expect(state.summaryLabel).toBe('0 residuals · mean 0.50 · median 0.40 · max 3.00 px');
+    expect(state.magnificationLabel).toBe('Vectors ×20');
+    expect(state.colorScaleLabel).toBe('Red ≥ 1.00 px');
+    expect(state.heatmapCells.map((cell) => cell.color)).toEqual(['hsl(90, 90%, 50%)', 'transparent']);
+    expect(state.radialErrorPoints).toBe('40.0,0.0');
+    expect(state.radialBiasPoints).toBe('40.0,15.0');
+    expect(state.warnings).toHaveLength(1);
+  });
+});
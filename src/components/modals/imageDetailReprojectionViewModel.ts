@@ -0,0 +1,90 @@
+import type { CSSProperties } from 'react';
+import type { RadialErrorBin, ReprojectionErrorAnalysis, ReprojectionErrorGrid } from '../../utils/reprojectionErrors';
+
+/** Residual vectors are drawn magnified so the median lands near this many screen pixels. */
+const TARGET_VECTOR_DISPLAY_PX = 8;
+const MAGNIFICATION_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500];
+
+export const REPROJECTION_RADIAL_PLOT_WIDTH = 160;
+export const REPROJECTION_RADIAL_PLOT_HEIGHT = 60;
+export const REPROJECTION_HEATMAP_CELL_SIZE = 12;
+
+export interface ReprojectionErrorPanelState {
+  summaryLabel: string;
+  magnificationLabel: string;
+  colorScaleLabel: string;
+  heatmapCells: { key: number; color: string; title: string }[];
+  heatmapStyle: CSSProperties;
+  radialErrorPoints: string;
+  radialBiasPoints: string;
+  radialMaxLabel: string;
+  warnings: string[];
+}
+
+function formatPixels(value: number): string {
+  return value >= 10 ? value.toFixed(1) : value.toFixed(2);
+}
+
+/** Largest magnification step that keeps the median residual near the target length on screen. */
+export function getResidualMagnification(medianError: number, displayScale: number): number {
+  if (medianError <= 0 || displayScale <= 0) return 1;
+  const ideal = TARGET_VECTOR_DISPLAY_PX / (medianError * displayScale);
+  let magnification = MAGNIFICATION_STEPS[0];
+  for (const step of MAGNIFICATION_STEPS) {
+    if (step <= ideal) magnification = step;
+  }
+  return magnification;
+}
+
+/** Errors at or above this value draw fully red. */
+export function getReprojectionColorScale(analysis: Pick<ReprojectionErrorAnalysis, 'meanError'>): number {
+  return Math.max(analysis.meanError * 2, 1e-6);
+}
+
+/** Green through yellow to red as the error approaches the colour scale. */
+export function getReprojectionErrorColor(error: number, colorScale: number): string {
+  const t = Math.min(1, Math.max(0, error / colorScale));
+  return `hsl(${Math.round(120 * (1 - t))}, 90%, 50%)`;
+}
+
+function getHeatmapCells(grid: ReprojectionErrorGrid, colorScale: number): ReprojectionErrorPanelState['heatmapCells'] {
+  return grid.cells.map((value, key) => ({
+    key,
+    color: value === null ? 'transparent' : getReprojectionErrorColor(value, colorScale),
+    title: value === null ? 'No observations' : `${formatPixels(value)} px mean`,
+  }));
+}
+
+function getPolylinePoints(bins: readonly RadialErrorBin[], toY: (bin: RadialErrorBin) => number): string {
+  return bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => `${(bin.radius * REPROJECTION_RADIAL_PLOT_WIDTH).toFixed(1)},${toY(bin).toFixed(1)}`)
+    .join(' ');
+}
+
+export function getReprojectionErrorPanelState(
+  analysis: ReprojectionErrorAnalysis,
+  magnification: number
+): ReprojectionErrorPanelState {
+  const colorScale = getReprojectionColorScale(analysis);
+  const radialMax = Math.max(1e-6, ...analysis.radialBins.map((bin) => Math.max(bin.meanError, Math.abs(bin.meanRadialError))));
+  const height = REPROJECTION_RADIAL_PLOT_HEIGHT;
+
+  return {
+    summaryLabel: `${analysis.residuals.length} residuals · mean ${formatPixels(analysis.meanError)} · `
+      + `median ${formatPixels(analysis.medianError)} · max ${formatPixels(analysis.maxError)} px`,
+    magnificationLabel: `Vectors ×${magnification}`,
+    colorScaleLabel: `Red ≥ ${formatPixels(colorScale)} px`,
+    heatmapCells: getHeatmapCells(analysis.grid, colorScale),
+    heatmapStyle: {
+      display: 'grid',
+      gridTemplateColumns: `repeat(${analysis.grid.cols}, ${REPROJECTION_HEATMAP_CELL_SIZE}px)`,
+      gridAutoRows: REPROJECTION_HEATMAP_CELL_SIZE,
+    },
+    // Mean error from the bottom edge; signed radial bias around the middle line.
+    radialErrorPoints: getPolylinePoints(analysis.radialBins, (bin) => height - (bin.meanError / radialMax) * height),
+    radialBiasPoints: getPolylinePoints(analysis.radialBins, (bin) => height / 2 - (bin.meanRadialError / radialMax) * (height / 2)),
+    radialMaxLabel: `${formatPixels(radialMax)} px`,
+    warnings: analysis.distortionWarnings,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatErrorMaps } from '../viewer3d/splatErrorMapRuntime';
+import {
+  getSplatErrorMapGridStyle,
+  getSplatErrorMapLegendGradient,
+  getSplatErrorMapPanelState,
+  getSplatErrorMapStatusLabel,
+  getSplatErrorMapSwipeClipStyle,
+} from './imageDetailSplatErrorMapViewModel';
+
+function buildMaps(overrides: Partial<SplatErrorMaps> = {}): SplatErrorMaps {
+  const pixels = () => new Uint8ClampedArray(2 * 1 * 4);
+  return {
+    width: 2,
+    height: 1,
+    rendered: pixels(),
+    groundTruth: pixels(),
+    difference: pixels(),
+    ssim: pixels(),
+    differenceScale: 64,
+    result: { psnr: 24.256, ssim: 0.9123, mse: 1, sumSquaredError: 2, validPixelCount: 2 },
+    ...overrides,
+  };
+}
+
+describe('imageDetailSplatErrorMapViewModel', () => {
+  it('lays out the chosen panes side by side with heatmap legends', () => {
+    const maps = buildMaps();
+    const state = getSplatErrorMapPanelState(maps, ['rendered', 'difference', 'ssim'], 'sideBySide');
+
+    expect(state.summaryLabel).toBe('PSNR 24.26 dB · SSIM 0.912 · 2×1');
+    expect(state.panes.map((pane) => [pane.view, pane.legend])).toEqual([
+      ['rendered', null],
+      ['difference', 'mean |Δ| 0–64/255'],
+      ['ssim', '1 − SSIM 0–1'],
+    ]);
+    expect(state.panes[1].pixels).toBe(maps.difference);
+    expect(state.swipeOverlay).toBeNull();
+    expect(state.gridStyle).toMatchObject({
+      gridTemplateColumns: 'repeat(2, minmax(0, 1fr))',
+      gridTemplateRows: 'repeat(2, minmax(0, 1fr))',
+    });
+  });
+
+  it('swipes the first chosen view over the second', () => {
+    const state = getSplatErrorMapPanelState(buildMaps(), ['rendered', 'groundTruth', 'ssim'], 'swipe');
+
+    expect(state.swipeOverlay?.view).toBe('rendered');
+    expect(state.panes.map((pane) => pane.view)).toEqual(['groundTruth']);
+    expect(getSplatErrorMapPanelState(buildMaps(), ['ssim'], 'swipe')).toMatchObject({
+      panes: [{ view: 'ssim' }],
+      swipeOverlay: null,
+    });
+    expect(getSplatErrorMapSwipeClipStyle(0.25)).toEqual({ clipPath: 'inset(0 75% 0 0)' });
+    expect(getSplatErrorMapSwipeClipStyle(2)).toEqual({ clipPath: 'inset(0 0% 0 0)' });
+  });
+
+  it('labels lossless renders, missing SSIM and pending work', () => {
+    const state = getSplatErrorMapPanelState(
+      buildMaps({ result: { psnr: Number.POSITIVE_INFINITY, mse: 0, sumSquaredError: 0, validPixelCount: 2 } }),
+      ['rendered'],
+      'sideBySide'
+    );
+
+    expect(state.summaryLabel).toBe('PSNR ∞ dB · SSIM n/a · 2×1');
+    expect(getSplatErrorMapGridStyle(1)).toMatchObject({ gridTemplateColumns: 'repeat(1, minmax(0, 1fr))' });
+    expect(getSplatErrorMapStatusLabel({ status: 'loading' })).toBe('Rendering…');
+    expect(getSplatErrorMapStatusLabel({ status: 'error', message: 'lost' })).toBe('Failed: lost');
+  });
+
+  it('matches the shader jet ramp from blue to red', () => {
+    expect(getSplatErrorMapLegendGradient()).toMatch(/^linear-gradient\(to right, rgb\(0, 0, \d+\), .*rgb\(\d+, 0, 0\)\)$/);
+  });
+});
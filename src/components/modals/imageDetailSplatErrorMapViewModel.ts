@@ -0,0 +1,128 @@
+import type { CSSProperties } from 'react';
+import type { SplatErrorMapLayout, SplatErrorMapView } from '../../store/types';
+import { jetColormap } from '../../utils/colorUtils';
+import type { SplatErrorMaps } from '../viewer3d/splatErrorMapRuntime';
+import type { SingleImageLayout } from './imageDetailLayoutViewModel';
+
+export type ImageDetailSplatErrorMapState =
+  | { status: 'loading' }
+  | { status: 'ready'; maps: SplatErrorMaps }
+  | { status: 'error'; message: string };
+
+/** Splat error panes over the single-image view, plus the pane and layout pickers. */
+export interface ImageDetailSplatErrorMapViewControl {
+  state: ImageDetailSplatErrorMapState;
+  views: SplatErrorMapView[];
+  layout: SplatErrorMapLayout;
+  onToggleView: (view: SplatErrorMapView) => void;
+  onLayoutChange: (layout: SplatErrorMapLayout) => void;
+}
+
+export interface SplatErrorMapPane {
+  view: SplatErrorMapView;
+  label: string;
+  pixels: Uint8ClampedArray<ArrayBuffer>;
+  /** Colour-scale caption for heatmap panes; null for photographs. */
+  legend: string | null;
+}
+
+export interface SplatErrorMapPanelState {
+  summaryLabel: string;
+  legendGradient: string;
+  panes: SplatErrorMapPane[];
+  /** First view, revealed left of the swipe handle over the second; null outside a two-view swipe. */
+  swipeOverlay: SplatErrorMapPane | null;
+  gridStyle: CSSProperties;
+}
+
+export const SPLAT_ERROR_MAP_VIEW_LABELS: Record<SplatErrorMapView, string> = {
+  rendered: 'Rendered',
+  groundTruth: 'Ground truth',
+  difference: '|Δ| heatmap',
+  ssim: 'SSIM map',
+};
+
+export const SPLAT_ERROR_MAP_LAYOUT_LABELS: Record<SplatErrorMapLayout, string> = {
+  sideBySide: 'Side by side',
+  swipe: 'Swipe',
+};
+
+const LEGEND_STOPS = 5;
+
+function toCssColor([r, g, b]: [number, number, number]): string {
+  return `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+}
+
+/** The shader's jet ramp as a CSS gradient, low error on the left. */
+export function getSplatErrorMapLegendGradient(): string {
+  const stops = Array.from({ length: LEGEND_STOPS }, (_, index) =>
+    toCssColor(jetColormap(index / (LEGEND_STOPS - 1)))
+  );
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
+
+function getPaneLegend(view: SplatErrorMapView, differenceScale: number): string | null {
+  if (view === 'difference') return `mean |Δ| 0–${differenceScale}/255`;
+  if (view === 'ssim') return '1 − SSIM 0–1';
+  return null;
+}
+
+/** Two columns once more than one pane is on, filling rows top to bottom. */
+export function getSplatErrorMapGridStyle(paneCount: number): CSSProperties {
+  const columns = paneCount > 1 ? 2 : 1;
+  const rows = Math.max(1, Math.ceil(paneCount / columns));
+  return {
+    display: 'grid',
+    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+    gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`,
+    gap: 2,
+  };
+}
+
+/** The panes replace the photo, so they cover exactly its rendered rectangle. */
+export function getSplatErrorMapOverlayStyle(layout: SingleImageLayout): CSSProperties {
+  return {
+    left: layout.offsetX,
+    top: layout.offsetY,
+    width: layout.renderedImageWidth,
+    height: layout.renderedImageHeight,
+  };
+}
+
+export function getSplatErrorMapStatusLabel(state: ImageDetailSplatErrorMapState): string | null {
+  if (state.status === 'loading') return 'Rendering…';
+  if (state.status === 'error') return `Failed: ${state.message}`;
+  return null;
+}
+
+/** Clip the swipe overlay so it shows left of the handle at `splitX` (0–1). */
+export function getSplatErrorMapSwipeClipStyle(splitX: number): CSSProperties {
+  const clamped = Math.max(0, Math.min(1, splitX));
+  return { clipPath: `inset(0 ${(1 - clamped) * 100}% 0 0)` };
+}
+
+function formatSsim(ssim: number | undefined): string {
+  return ssim === undefined || !Number.isFinite(ssim) ? 'n/a' : ssim.toFixed(3);
+}
+
+export function getSplatErrorMapPanelState(
+  maps: SplatErrorMaps,
+  views: readonly SplatErrorMapView[],
+  layout: SplatErrorMapLayout
+): SplatErrorMapPanelState {
+  const panes = views.map((view) => ({
+    view,
+    label: SPLAT_ERROR_MAP_VIEW_LABELS[view],
+    pixels: maps[view],
+    legend: getPaneLegend(view, maps.differenceScale),
+  }));
+  const psnr = Number.isFinite(maps.result.psnr) ? `${maps.result.psnr.toFixed(2)} dB` : '∞ dB';
+
+  return {
+    summaryLabel: `PSNR ${psnr} · SSIM ${formatSsim(maps.result.ssim)} · ${maps.width}×${maps.height}`,
+    legendGradient: getSplatErrorMapLegendGradient(),
+    panes: layout === 'swipe' ? [panes[1] ?? panes[0]] : panes,
+    swipeOverlay: layout === 'swipe' && panes.length > 1 ? panes[0] : null,
+    gridStyle: getSplatErrorMapGridStyle(layout === 'swipe' ? 1 : panes.length),
+  };
+}
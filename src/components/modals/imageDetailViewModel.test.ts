@@ -1,12 +1,18 @@
 import { describe, expect, it } from 'vitest';
 import {
   buildConnectedImages,
+  buildDatabaseConnectedImages,
+  buildDatabaseMatchLines,
   buildImageNavigation,
   buildMatchLines,
   getCurrentMatchCount,
   getEffectivePoints2D,
   getPointCounts,
+  resolveDetailCamera,
+  resolveDetailImage,
+  type ImageDetailDatabaseMatches,
 } from './imageDetailViewModel';
+import { buildDatabasePairIndex } from '../../utils/colmapDatabaseMatches';
 import {
   areAllMarkedForDeletion,
   getCameraImageIds,
@@ -157,6 +163,58 @@ describe('ImageDetailModal view-model helpers', () => {
     ]);
   });
 
+  it('builds database match partners, including unregistered images', () => {
+    const reconstruction = buildReconstruction({
+      images: [buildImage({ imageId: 1, name: 'a.jpg' }), buildImage({ imageId: 2, name: 'b.jpg' })],
+      cameras: [buildCamera({ cameraId: 1, width: 640, height: 480 })],
+    });
+    const unregisteredCamera = buildCamera({ cameraId: 5, width: 320, height: 240 });
+    const database: ImageDetailDatabaseMatches = {
+      source: 'raw',
+      summary: {
+        cameras: new Map([[5, unregisteredCamera]]),
+        images: new Map([[3, {
+          imageId: 3,
+          name: 'c.jpg',
+          cameraId: 5,
+          numKeypoints: 10,
+          numDescriptors: 10,
+          descriptorDim: 128,
+        }]]),
+        pairs: [],
+      },
+      pairIndex: buildDatabasePairIndex([
+        { imageId1: 1, imageId2: 2, numMatches: 20, numInliers: 15, config: 2 },
+        { imageId1: 1, imageId2: 3, numMatches: 30, numInliers: 0, config: null },
+      ]),
+    };
+
+    expect(buildDatabaseConnectedImages(reconstruction, database, 1, new Set())).toEqual([
+      { imageId: 3, matchCount: 30, name: 'c.jpg', isRegistered: false },
+      { imageId: 2, matchCount: 20, name: 'b.jpg', isRegistered: true },
+    ]);
+    expect(buildDatabaseConnectedImages(reconstruction, { ...database, source: 'verified' }, 1, new Set([2])))
+      .toEqual([]);
+
+    const standIn = resolveDetailImage(reconstruction, database.summary, 3);
+    expect(standIn).toMatchObject({ imageId: 3, name: 'c.jpg', cameraId: 5, points2D: [] });
+    expect(resolveDetailCamera(reconstruction, database.summary, standIn)).toBe(unregisteredCamera);
+    expect(resolveDetailImage(reconstruction, database.summary, 2)).toBe(reconstruction.images.get(2));
+    expect(resolveDetailImage(reconstruction, null, 3)).toBeNull();
+  });
+
+  it('builds match lines from database keypoints and skips out-of-range indices', () => {
+    const keypoints1 = new Float32Array([1, 2, 3, 4]);
+    const keypoints2 = new Float32Array([10, 20]);
+    const matches = new Uint32Array([1, 0, 0, 5]);
+
+    expect(buildDatabaseMatchLines(true, matches, keypoints1, keypoints2)).toEqual([
+      { point1: [3, 4], point2: [10, 20] },
+    ]);
+    expect(buildDatabaseMatchLines(false, matches, keypoints1, keypoints2)).toEqual([]);
+    expect(buildDatabaseMatchLines(true, matches, keypoints1, undefined)).toEqual([]);
+  });
+
   it('plans and applies lazy WASM point loading with LRU eviction', () => {
     const currentPoints = [buildPoint2D({ xy: [1, 2], point3DId: 1n })];
     const matchedPoints = [buildPoint2D({ xy: [3, 4], point3DId: 2n })];
@@ -235,6 +293,15 @@ describe('ImageDetailModal view-model helpers', () => {
       isImageCached: () => false,
     })).toEqual([]);
 
+    expect(getImageNamesToFetch({
+      reconstruction,
+      imageDetailId: selected.imageId,
+      matchedImageId: 42,
+      matchedImageName: 'unregistered.jpg',
+      hasImages: true,
+      isImageCached: () => false,
+    })).toEqual([selected.name, 'unregistered.jpg']);
+
     expect(getMaskNameToFetch({
       reconstruction,
       imageDetailId: selected.imageId,
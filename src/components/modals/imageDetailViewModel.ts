@@ -1,10 +1,16 @@
 import {
   UNMATCHED_POINT3D_ID,
+  type Camera,
   type Image,
   type ImageId,
   type Point2D,
   type Reconstruction,
 } from '../../types/colmap';
+import type { ColmapDatabaseSummary, DatabasePairIndex } from '../../types/colmapDatabase';
+import {
+  getDatabasePairMatchCount,
+  type DatabaseMatchesSource,
+} from '../../utils/colmapDatabaseMatches';
 
 export {
   clampPositionToViewport,
@@ -104,6 +110,15 @@ export interface ConnectedImageOption {
   imageId: ImageId;
   matchCount: number;
   name: string;
+  /** False for database partners that are not part of the reconstruction. */
+  isRegistered?: boolean;
+}
+
+/** Database-backed match data; the modal uses reconstruction tracks when this is null. */
+export interface ImageDetailDatabaseMatches {
+  source: DatabaseMatchesSource;
+  summary: ColmapDatabaseSummary;
+  pairIndex: DatabasePairIndex;
 }
 
 export interface ImageNavigationState {
@@ -182,6 +197,94 @@ export function buildConnectedImages(
     }));
 }
 
+export function buildDatabaseConnectedImages(
+  reconstruction: Reconstruction | null,
+  database: ImageDetailDatabaseMatches,
+  imageDetailId: ImageId | null,
+  pendingDeletions: Set<ImageId>
+): ConnectedImageOption[] {
+  if (imageDetailId === null) return [];
+
+  const partners = database.pairIndex.get(imageDetailId);
+  if (!partners) return [];
+
+  const options: ConnectedImageOption[] = [];
+  for (const [id, pair] of partners) {
+    const matchCount = getDatabasePairMatchCount(pair, database.source);
+    if (matchCount === 0 || pendingDeletions.has(id)) continue;
+
+    const registeredImage = reconstruction?.images.get(id);
+    options.push({
+      imageId: id,
+      matchCount,
+      name: registeredImage?.name ?? database.summary.images.get(id)?.name ?? `Image ${id}`,
+      isRegistered: registeredImage !== undefined,
+    });
+  }
+  return options.sort((a, b) => b.matchCount - a.matchCount);
+}
+
+/**
+ * Resolve an image for display, falling back to an unposed stand-in built from
+ * the database so unregistered match partners can still be shown.
+ */
+export function resolveDetailImage(
+  reconstruction: Reconstruction | null,
+  summary: ColmapDatabaseSummary | null,
+  imageId: ImageId | null
+): Image | null {
+  if (imageId === null) return null;
+
+  const image = reconstruction?.images.get(imageId);
+  if (image) return image;
+
+  const databaseImage = summary?.images.get(imageId);
+  if (!databaseImage) return null;
+  return {
+    imageId,
+    qvec: [1, 0, 0, 0],
+    tvec: [0, 0, 0],
+    cameraId: databaseImage.cameraId,
+    name: databaseImage.name,
+    points2D: [],
+    numPoints2D: 0,
+  };
+}
+
+export function resolveDetailCamera(
+  reconstruction: Reconstruction | null,
+  summary: ColmapDatabaseSummary | null,
+  image: Image | null
+): Camera | null {
+  if (!image) return null;
+  return reconstruction?.cameras.get(image.cameraId) ?? summary?.cameras.get(image.cameraId) ?? null;
+}
+
+/** Match lines between database keypoints; matches are (index in image 1, index in image 2) pairs. */
+export function buildDatabaseMatchLines(
+  enabled: boolean,
+  matches: Uint32Array | undefined,
+  keypoints1: Float32Array | undefined,
+  keypoints2: Float32Array | undefined
+): MatchLine[] {
+  if (!enabled || !matches || !keypoints1 || !keypoints2) return [];
+
+  const count1 = keypoints1.length / 2;
+  const count2 = keypoints2.length / 2;
+  const lines: MatchLine[] = [];
+  for (let i = 0; i + 1 < matches.length; i += 2) {
+    const idx1 = matches[i];
+    const idx2 = matches[i + 1];
+    if (idx1 >= count1 || idx2 >= count2) continue;
+
+    lines.push({
+      point1: [keypoints1[idx1 * 2], keypoints1[idx1 * 2 + 1]],
+      point2: [keypoints2[idx2 * 2], keypoints2[idx2 * 2 + 1]],
+    });
+  }
+  return lines;
+}
+
 export function getCurrentMatchCount(
   connectedImages: ConnectedImageOption[],
   matchedImageId: ImageId | null
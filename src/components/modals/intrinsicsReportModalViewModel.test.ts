@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraIntrinsicsReport } from '../../utils/intrinsicsReport';
+import {
+  DISTORTION_PLOT_HEIGHT,
+  getDistortionCurvePlot,
+  getIntrinsicsReportSummary,
+  getSimplerModelRows,
+  getWorstImageRows,
+} from './intrinsicsReportModalViewModel';
+
+const report: CameraIntrinsicsReport = {
+  cameraId: 3,
+  modelName: 'OPENCV',
+  width: 640,
+  height: 480,
+  params: [],
+  imageCount: 3,
+  keypointCount: 90,
+  residualCount: 60,
+  meanError: 1,
+  medianError: 0.9,
+  maxError: 4,
+  radialBins: [],
+  distortionWarnings: [],
+  coverage: { cols: 2, rows: 2, counts: [1, 1, 1, 0], coveredFraction: 0.75 },
+  distortionCurve: [
+    { radius: 0, displacement: 0 },
+    { radius: 0.5, displacement: -2 },
+    { radius: 1, displacement: null },
+  ],
+  simplerModels: [
+    { modelName: 'RADIAL', paramCount: 5, compatibility: 'approximate', maxModelDifference: 0.2, meanError: 1.05 },
+    { modelName: 'PINHOLE', paramCount: 4, compatibility: 'approximate', maxModelDifference: 6, meanError: 2.5 },
+  ],
+  imageErrors: [
+    { imageId: 2, name: 'b.jpg', residualCount: 30, meanError: 1.4 },
+    { imageId: 1, name: 'a.jpg', residualCount: 30, meanError: 0.6 },
+    { imageId: 9, name: 'empty.jpg', residualCount: 0, meanError: 0 },
+  ],
+};
+
+describe('intrinsicsReportModalViewModel', () => {
+  it('summarizes the camera, its error and per-image spread', () => {
+    expect(getIntrinsicsReportSummary(report)).toEqual({
+      titleLabel: 'Camera 3 · OPENCV · 640×480',
+      observationLabel: '3 images · 90 keypoints · 60 observations',
+      errorLabel: 'Mean 1.00 px · median 0.90 px · max 4.00 px',
+      spreadLabel: 'Per-image mean 0.60 px – 1.40 px',
+      coverageLabel: 'Keypoints cover 75% of the sensor',
+    });
+  });
+
+  it('marks simpler models that fit about as well and lists the worst images', () => {
+    expect(getSimplerModelRows(report)).toEqual([
+      { label: 'RADIAL (5)', detail: '1.05 px (+0.05)', comparable: true },
+      { label: 'PINHOLE (4)', detail: '2.50 px (+1.50)', comparable: false },
+    ]);
+    expect(getWorstImageRows(report, 1)).toEqual([{ imageId: 2, label: 'b.jpg', detail: '1.40 px · 30 obs' }]);
+    expect(getWorstImageRows(report)).toHaveLength(2);
+  });
+
+  it('plots the valid part of the distortion curve around the middle line', () => {
+    const plot = getDistortionCurvePlot(report.distortionCurve);
+
+    expect(plot).toEqual({ points: `0.0,${(DISTORTION_PLOT_HEIGHT / 2).toFixed(1)} 80.0,48.0`, maxLabel: '±2.0 px' });
+    expect(getDistortionCurvePlot([{ radius: 0, displacement: 0 }])).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import type { CSSProperties } from 'react';
+import type { ImageId } from '../../types/colmap';
+import type { CameraIntrinsicsReport, DistortionCurveSample } from '../../utils/intrinsicsReport';
+
+export const INTRINSICS_REPORT_MODAL_WIDTH = 400;
+export const INTRINSICS_REPORT_MODAL_ESTIMATED_HEIGHT = 540;
+export const INTRINSICS_REPORT_WORST_IMAGE_LIMIT = 5;
+export const DISTORTION_PLOT_WIDTH = 160;
+export const DISTORTION_PLOT_HEIGHT = 48;
+
+/** A simpler model within this share of the current mean error fits about as well. */
+const SIMPLER_MODEL_TOLERANCE = 0.1;
+
+export interface IntrinsicsReportSummary {
+  titleLabel: string;
+  observationLabel: string;
+  errorLabel: string;
+  spreadLabel: string | null;
+  coverageLabel: string;
+}
+
+export interface SimplerModelRow {
+  label: string;
+  detail: string;
+  /** True when the simpler model fits the observations about as well. */
+  comparable: boolean;
+}
+
+export interface WorstImageRow {
+  imageId: ImageId;
+  label: string;
+  detail: string;
+}
+
+export interface DistortionCurvePlot {
+  points: string;
+  maxLabel: string;
+}
+
+function formatPixels(value: number): string {
+  return Number.isFinite(value) ? `${value.toFixed(2)} px` : '–';
+}
+
+export function getIntrinsicsReportSummary(report: CameraIntrinsicsReport): IntrinsicsReportSummary {
+  const imageErrors = report.imageErrors.filter((image) => image.residualCount > 0);
+  return {
+    titleLabel: `Camera ${report.cameraId} · ${report.modelName} · ${report.width}×${report.height}`,
+    observationLabel: `${report.imageCount} images · ${report.keypointCount} keypoints · `
+      + `${report.residualCount} observations`,
+    errorLabel: `Mean ${formatPixels(report.meanError)} · median ${formatPixels(report.medianError)} · `
+      + `max ${formatPixels(report.maxError)}`,
+    spreadLabel: imageErrors.length > 1
+      ? `Per-image mean ${formatPixels(imageErrors[imageErrors.length - 1].meanError)} – `
+        + formatPixels(imageErrors[0].meanError)
+      : null,
+    coverageLabel: `Keypoints cover ${(report.coverage.coveredFraction * 100).toFixed(0)}% of the sensor`,
+  };
+}
+
+export function getSimplerModelRows(report: CameraIntrinsicsReport): SimplerModelRow[] {
+  return report.simplerModels.map((model) => {
+    const increase = model.meanError - report.meanError;
+    return {
+      label: `${model.modelName} (${model.paramCount})`,
+      detail: `${formatPixels(model.meanError)} (${increase >= 0 ? '+' : ''}${increase.toFixed(2)})`,
+      comparable: increase <= SIMPLER_MODEL_TOLERANCE * report.meanError,
+    };
+  });
+}
+
+export function getWorstImageRows(
+  report: CameraIntrinsicsReport,
+  limit = INTRINSICS_REPORT_WORST_IMAGE_LIMIT
+): WorstImageRow[] {
+  return report.imageErrors
+    .filter((image) => image.residualCount > 0)
+    .slice(0, limit)
+    .map((image) => ({
+      imageId: image.imageId,
+      label: image.name,
+      detail: `${formatPixels(image.meanError)} · ${image.residualCount} obs`,
+    }));
+}
+
+/** SVG polyline for the distortion curve, zero displacement along the vertical middle. */
+export function getDistortionCurvePlot(curve: readonly DistortionCurveSample[]): DistortionCurvePlot | null {
+  const valid = curve.filter((sample): sample is { radius: number; displacement: number } => sample.displacement !== null);
+  if (valid.length < 2) return null;
+  const max = Math.max(1e-6, ...valid.map((sample) => Math.abs(sample.displacement)));
+  const mid = DISTORTION_PLOT_HEIGHT / 2;
+  return {
+    points: valid
+      .map((sample) => `${(sample.radius * DISTORTION_PLOT_WIDTH).toFixed(1)},${(mid - (sample.displacement / max) * mid).toFixed(1)}`)
+      .join(' '),
+    maxLabel: `±${max.toFixed(1)} px`,
+  };
+}
+
+export function getIntrinsicsReportPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: INTRINSICS_REPORT_MODAL_WIDTH,
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getMeasurementDraftStatus,
+  getMeasurementFloorNote,
+  MEASUREMENT_TOOL_OPTIONS,
+} from './measurementModalViewModel';
+
+describe('measurementModalViewModel', () => {
+  it('offers every measurement kind as a tool', () => {
+    expect(MEASUREMENT_TOOL_OPTIONS.map((option) => option.label))
+      .toEqual(['Distance', 'Polyline', 'Area', 'Angle', 'Height']);
+  });
+
+  it('describes the progress of the measurement being placed', () => {
+    expect(getMeasurementDraftStatus('distance', 0)).toBe('Pick 2 points');
+    expect(getMeasurementDraftStatus('height', 0)).toBe('Pick 1 point');
+    expect(getMeasurementDraftStatus('area', 0)).toBe('Pick at least 3 points');
+    expect(getMeasurementDraftStatus('angle', 1)).toBe('1 point of 3');
+    expect(getMeasurementDraftStatus('polyline', 3)).toBe('3 points · Finish to store');
+  });
+
+  it('explains how the floor plane affects heights and areas', () => {
+    expect(getMeasurementFloorNote('height', false)).toBe('Detect a floor plane to measure heights');
+    expect(getMeasurementFloorNote('height', true)).toBe('Height above the detected floor plane');
+    expect(getMeasurementFloorNote('area', true)).toBe('Area projected onto the floor plane');
+    expect(getMeasurementFloorNote('distance', true)).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import type { CSSProperties } from 'react';
+import { MEASUREMENT_TYPES, type MeasurementType } from '../../store/types';
+import {
+  canFinishMeasurement,
+  MEASUREMENT_POINT_COUNTS,
+  MEASUREMENT_TYPE_LABELS,
+} from '../../utils/measurementGeometry';
+
+export const MEASUREMENT_MODAL_WIDTH = 380;
+export const MEASUREMENT_MODAL_ESTIMATED_HEIGHT = 480;
+const MEASUREMENT_LIST_MAX_HEIGHT = 256;
+
+export const MEASUREMENT_TOOL_OPTIONS: readonly { value: MeasurementType; label: string }[] =
+  MEASUREMENT_TYPES.map((type) => ({ value: type, label: MEASUREMENT_TYPE_LABELS[type] }));
+
+function pluralizePoints(count: number): string {
+  return `${count} ${count === 1 ? 'point' : 'points'}`;
+}
+
+/** Progress of the measurement being placed, e.g. "Pick 2 points" or "3 points · Finish to store". */
+export function getMeasurementDraftStatus(tool: MeasurementType, draftCount: number): string {
+  const { min, fixed } = MEASUREMENT_POINT_COUNTS[tool];
+  if (draftCount === 0) return `Pick ${fixed ? '' : 'at least '}${pluralizePoints(min)}`;
+  if (!canFinishMeasurement(tool, draftCount)) return `${pluralizePoints(draftCount)} of ${min}`;
+  return `${pluralizePoints(draftCount)} · Finish to store`;
+}
+
+/** How the detected floor affects the selected tool, or null when it does not. */
+export function getMeasurementFloorNote(tool: MeasurementType, hasFloor: boolean): string | null {
+  if (tool === 'height') return hasFloor ? 'Height above the detected floor plane' : 'Detect a floor plane to measure heights';
+  if (tool === 'area') return hasFloor ? 'Area projected onto the floor plane' : 'Area in the polygon\'s best-fit plane';
+  return null;
+}
+
+export function getMeasurementModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: MEASUREMENT_MODAL_WIDTH,
+  };
+}
+
+export function getMeasurementListStyle(): CSSProperties {
+  return { maxHeight: MEASUREMENT_LIST_MAX_HEIGHT };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildReconstruction } from '../../test/builders';
+import {
+  canUndoPointEdit,
+  getPointEditSelectionLabel,
+  getPointEditUndoLabel,
+  parseFrustumMaxDepth,
+} from './pointEditModalViewModel';
+
+describe('pointEditModalViewModel', () => {
+  it('labels the selection size', () => {
+    expect(getPointEditSelectionLabel(0)).toBe('No points selected');
+    expect(getPointEditSelectionLabel(1)).toBe('1 point selected');
+    expect(getPointEditSelectionLabel(1200)).toBe(`${(1200).toLocaleString()} points selected`);
+  });
+
+  it('offers undo only while the edited reconstruction is loaded', () => {
+    const before = buildReconstruction();
+    const after = buildReconstruction();
+    const undoStack = [{ before, after, deletedCount: 12 }];
+
+    expect(canUndoPointEdit(undoStack, after)).toBe(true);
+    expect(canUndoPointEdit(undoStack, before)).toBe(false);
+    expect(canUndoPointEdit([], after)).toBe(false);
+    expect(getPointEditUndoLabel(undoStack)).toBe('Undo (12)');
+    expect(getPointEditUndoLabel([])).toBe('Undo');
+  });
+
+  it('treats blank or non-positive frustum depth as unlimited', () => {
+    expect(parseFrustumMaxDepth('')).toBeNull();
+    expect(parseFrustumMaxDepth('0')).toBeNull();
+    expect(parseFrustumMaxDepth('2.5')).toBe(2.5);
+  });
+});
@@ -0,0 +1,36 @@
+import type { CSSProperties } from 'react';
+import type { PointDeletionEdit } from '../../store/stores/pointEditStore';
+import type { Reconstruction } from '../../types/colmap';
+
+export const POINT_EDIT_MODAL_WIDTH = 300;
+export const POINT_EDIT_MODAL_ESTIMATED_HEIGHT = 300;
+
+export function getPointEditSelectionLabel(count: number): string {
+  if (count === 0) return 'No points selected';
+  return `${count.toLocaleString()} point${count === 1 ? '' : 's'} selected`;
+}
+
+/** Undo only applies while the reconstruction the deletion produced is still loaded. */
+export function canUndoPointEdit(undoStack: readonly PointDeletionEdit[], reconstruction: Reconstruction | null): boolean {
+  const last = undoStack[undoStack.length - 1];
+  return !!last && last.after === reconstruction;
+}
+
+export function getPointEditUndoLabel(undoStack: readonly PointDeletionEdit[]): string {
+  const last = undoStack[undoStack.length - 1];
+  return last ? `Undo (${last.deletedCount.toLocaleString()})` : 'Undo';
+}
+
+/** Empty or non-positive input means no depth limit. */
+export function parseFrustumMaxDepth(value: string): number | null {
+  const depth = Number.parseFloat(value);
+  return Number.isFinite(depth) && depth > 0 ? depth : null;
+}
+
+export function getPointEditModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: POINT_EDIT_MODAL_WIDTH,
+  };
+}
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { ReconstructionDiff, ReconstructionDiffImage } from '../../utils/reconstructionDiff';
+import {
+  getReconstructionDiffHistograms,
+  getReconstructionDiffSummary,
+  getUnmatchedImageItems,
+  getWorstReconstructionDiffImages,
+} from './reconstructionDiffModalViewModel';
+
+function buildDiffImage(name: string, positionError: number, rotationErrorDeg: number, id: number): ReconstructionDiffImage {
+  return {
+    name,
+    referenceImageId: id,
+    compareImageId: id + 100,
+    referencePosition: new THREE.Vector3(),
+    referenceQuaternion: new THREE.Quaternion(),
+    alignedPosition: new THREE.Vector3(),
+    alignedQuaternion: new THREE.Quaternion(),
+    positionError,
+    rotationErrorDeg,
+  };
+}
+
+const diff: ReconstructionDiff = {
+  alignment: { scale: 2, rotation: new THREE.Quaternion(), translation: new THREE.Vector3() },
+  sharedImageCount: 3,
+  matched: [
+    buildDiffImage('a.jpg', 0.01, 0.5, 1),
+    buildDiffImage('b.jpg', 0.2, 3, 2),
+    buildDiffImage('c.jpg', 0.05, 3, 3),
+  ],
+  onlyInReference: [{ imageId: 4, name: 'd.jpg' }, { imageId: 5, name: 'e.jpg' }],
+  onlyInCompare: [],
+  positionRmse: 0.12,
+  medianPositionError: 0.05,
+  medianRotationErrorDeg: 3,
+  maxRotationErrorDeg: 3,
+};
+
+describe('ReconstructionDiffModal view-model helpers', () => {
+  it('summarizes matches, alignment and error statistics', () => {
+    expect(getReconstructionDiffSummary(diff)).toEqual({
+      matchLabel: '3 images matched by name · 2 only in loaded · 0 only in compare',
+      alignmentLabel: 'Sim3d scale 2.000',
+      positionLabel: 'Position RMSE 0.120 · median 0.0500',
+      rotationLabel: 'Rotation median 3.00° · max 3.00°',
+    });
+    expect(getReconstructionDiffSummary({ ...diff, alignment: null, matched: [] }).alignmentLabel)
+      .toMatch(/at least 3/);
+  });
+
+  it('bins position and rotation errors separately', () => {
+    const { position, rotation } = getReconstructionDiffHistograms(diff);
+
+    expect(position.total).toBe(3);
+    expect(rotation.mean).toBeCloseTo(6.5 / 3);
+    expect(rotation.bins.at(-1)?.count).toBe(2);
+  });
+
+  it('ranks the worst images by rotation, then position error', () => {
+    expect(getWorstReconstructionDiffImages(diff, 2)).toEqual([
+      { imageId: 2, label: 'b.jpg', detail: '3.00° · 0.200' },
+      { imageId: 3, label: 'c.jpg', detail: '3.00° · 0.0500' },
+    ]);
+  });
+
+  it('truncates long unmatched lists', () => {
+    expect(getUnmatchedImageItems(diff.onlyInReference, 1)).toEqual({
+      items: [{ imageId: 4, label: 'd.jpg' }],
+      hiddenCount: 1,
+    });
+  });
+});
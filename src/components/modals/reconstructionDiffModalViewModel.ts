@@ -0,0 +1,91 @@
+import type { CSSProperties } from 'react';
+import type { ImageId } from '../../types/colmap';
+import type { ReconstructionDiff } from '../../utils/reconstructionDiff';
+import { computeHistogramFromSamples, type HistogramData } from '../layout/statHistogramViewModel';
+
+export const RECONSTRUCTION_DIFF_MODAL_WIDTH = 360;
+export const RECONSTRUCTION_DIFF_MODAL_ESTIMATED_HEIGHT = 620;
+export const RECONSTRUCTION_DIFF_LIST_LIMIT = 50;
+export const RECONSTRUCTION_DIFF_WORST_LIMIT = 8;
+
+export interface ReconstructionDiffSummary {
+  matchLabel: string;
+  alignmentLabel: string;
+  positionLabel: string;
+  rotationLabel: string;
+}
+
+export interface ReconstructionDiffHistograms {
+  position: HistogramData;
+  rotation: HistogramData;
+}
+
+export interface ReconstructionDiffListItem {
+  imageId: ImageId;
+  label: string;
+  detail?: string;
+}
+
+function formatLength(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 1 ? value.toFixed(3) : value.toPrecision(3);
+}
+
+export function getReconstructionDiffSummary(diff: ReconstructionDiff): ReconstructionDiffSummary {
+  const matchLabel = `${diff.sharedImageCount} images matched by name · `
+    + `${diff.onlyInReference.length} only in loaded · ${diff.onlyInCompare.length} only in compare`;
+  if (!diff.alignment) {
+    return {
+      matchLabel,
+      alignmentLabel: 'Need at least 3 shared, non-collinear cameras to align',
+      positionLabel: '',
+      rotationLabel: '',
+    };
+  }
+  return {
+    matchLabel,
+    alignmentLabel: `Sim3d scale ${diff.alignment.scale.toPrecision(4)}`,
+    positionLabel: `Position RMSE ${formatLength(diff.positionRmse)} · median ${formatLength(diff.medianPositionError)}`,
+    rotationLabel: `Rotation median ${diff.medianRotationErrorDeg.toFixed(2)}° · max ${diff.maxRotationErrorDeg.toFixed(2)}°`,
+  };
+}
+
+export function getReconstructionDiffHistograms(diff: ReconstructionDiff): ReconstructionDiffHistograms {
+  return {
+    position: computeHistogramFromSamples(diff.matched.map((image) => image.positionError)),
+    rotation: computeHistogramFromSamples(diff.matched.map((image) => image.rotationErrorDeg)),
+  };
+}
+
+/** Matched images with the largest rotation error, then position error. */
+export function getWorstReconstructionDiffImages(
+  diff: ReconstructionDiff,
+  limit = RECONSTRUCTION_DIFF_WORST_LIMIT
+): ReconstructionDiffListItem[] {
+  return [...diff.matched]
+    .sort((a, b) => b.rotationErrorDeg - a.rotationErrorDeg || b.positionError - a.positionError)
+    .slice(0, limit)
+    .map((image) => ({
+      imageId: image.referenceImageId,
+      label: image.name,
+      detail: `${image.rotationErrorDeg.toFixed(2)}° · ${formatLength(image.positionError)}`,
+    }));
+}
+
+export function getUnmatchedImageItems(
+  images: ReconstructionDiff['onlyInReference'],
+  limit = RECONSTRUCTION_DIFF_LIST_LIMIT
+): { items: ReconstructionDiffListItem[]; hiddenCount: number } {
+  return {
+    items: images.slice(0, limit).map(({ imageId, name }) => ({ imageId, label: name })),
+    hiddenCount: Math.max(0, images.length - limit),
+  };
+}
+
+export function getReconstructionDiffPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: RECONSTRUCTION_DIFF_MODAL_WIDTH,
+  };
+}
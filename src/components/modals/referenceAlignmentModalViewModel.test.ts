@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { ReferencePoseAlignment } from '../../utils/referencePoseAlignment';
+import {
+  getReferenceAlignmentSummary,
+  getReferenceMatchLabel,
+  getWorstReferenceResiduals,
+  parseInlierThresholdInput,
+} from './referenceAlignmentModalViewModel';
+
+function buildResidual(imageId: number, residual: number, inlier: boolean) {
+  return {
+    imageId,
+    name: `img${imageId}.jpg`,
+    cameraPosition: new THREE.Vector3(),
+    referencePosition: new THREE.Vector3(),
+    residual,
+    inlier,
+  };
+}
+
+const alignment: ReferencePoseAlignment = {
+  sim3d: { scale: 12.5, rotation: new THREE.Quaternion(), translation: new THREE.Vector3() },
+  inlierThreshold: 0.5,
+  residuals: [buildResidual(1, 0.1, true), buildResidual(2, 3, false), buildResidual(3, 0.25, true)],
+  inlierCount: 2,
+  inlierRmse: 0.19,
+};
+
+describe('ReferenceAlignmentModal view-model helpers', () => {
+  it('describes how reference rows were matched', () => {
+    const entries = Array.from({ length: 5 }, () => ({ name: null, timestamp: null, position: [0, 0, 0] as [number, number, number] }));
+    const matches = [1, 2, 3, 4].map((imageId) => ({ imageId, name: `${imageId}.png`, referencePosition: new THREE.Vector3() }));
+
+    expect(getReferenceMatchLabel(
+      { format: 'kitti', entries, skippedLineCount: 0 },
+      { mode: 'order', matches, unmatchedEntryCount: 1 }
+    )).toBe('KITTI · 4 of 5 rows matched by image order');
+  });
+
+  it('summarizes inliers, residual RMSE and scale', () => {
+    expect(getReferenceAlignmentSummary(alignment)).toEqual({
+      inlierLabel: '2 of 3 cameras within 0.500',
+      rmseLabel: 'Inlier RMSE 0.190',
+      scaleLabel: 'Sim3d scale 12.50',
+    });
+  });
+
+  it('lists the largest residuals first and marks outliers', () => {
+    expect(getWorstReferenceResiduals(alignment, 2)).toEqual([
+      { imageId: 2, label: 'img2.jpg', detail: '3.000 · outlier', inlier: false },
+      { imageId: 3, label: 'img3.jpg', detail: '0.250', inlier: true },
+    ]);
+  });
+
+  it('accepts only positive thresholds', () => {
+    expect(parseInlierThresholdInput('0.75')).toBe(0.75);
+    expect(parseInlierThresholdInput('')).toBeNull();
+    expect(parseInlierThresholdInput('-1')).toBeNull();
+    expect(parseInlierThresholdInput('abc')).toBeNull();
+  });
+});
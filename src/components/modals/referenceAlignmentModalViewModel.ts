@@ -0,0 +1,80 @@
+import type { CSSProperties } from 'react';
+import type { ReferencePoses } from '../../parsers/referencePoses';
+import type { ImageId } from '../../types/colmap';
+import type { ReferencePoseAlignment, ReferencePoseMatches } from '../../utils/referencePoseAlignment';
+
+export const REFERENCE_ALIGNMENT_MODAL_WIDTH = 360;
+export const REFERENCE_ALIGNMENT_MODAL_ESTIMATED_HEIGHT = 480;
+export const REFERENCE_ALIGNMENT_WORST_LIMIT = 8;
+
+export interface ReferenceAlignmentSummary {
+  inlierLabel: string;
+  rmseLabel: string;
+  scaleLabel: string;
+}
+
+export interface ReferenceResidualListItem {
+  imageId: ImageId;
+  label: string;
+  detail: string;
+  inlier: boolean;
+}
+
+const MATCH_MODE_LABELS: Record<ReferencePoseMatches['mode'], string> = {
+  name: 'by image name',
+  timestamp: 'by timestamp',
+  order: 'by image order',
+};
+
+function formatLength(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 1 ? value.toFixed(3) : value.toPrecision(3);
+}
+
+export function getReferenceMatchLabel(poses: ReferencePoses, matches: ReferencePoseMatches): string {
+  return `${poses.format.toUpperCase()} · ${matches.matches.length} of ${poses.entries.length} rows matched `
+    + MATCH_MODE_LABELS[matches.mode];
+}
+
+export function getReferenceAlignmentSummary(alignment: ReferencePoseAlignment): ReferenceAlignmentSummary {
+  return {
+    inlierLabel: `${alignment.inlierCount} of ${alignment.residuals.length} cameras within `
+      + formatLength(alignment.inlierThreshold),
+    rmseLabel: `Inlier RMSE ${formatLength(alignment.inlierRmse)}`,
+    scaleLabel: `Sim3d scale ${alignment.sim3d.scale.toPrecision(4)}`,
+  };
+}
+
+/** Matched cameras with the largest residual first. */
+export function getWorstReferenceResiduals(
+  alignment: ReferencePoseAlignment,
+  limit = REFERENCE_ALIGNMENT_WORST_LIMIT
+): ReferenceResidualListItem[] {
+  return [...alignment.residuals]
+    .sort((a, b) => b.residual - a.residual)
+    .slice(0, limit)
+    .map((residual) => ({
+      imageId: residual.imageId,
+      label: residual.name,
+      detail: `${formatLength(residual.residual)}${residual.inlier ? '' : ' · outlier'}`,
+      inlier: residual.inlier,
+    }));
+}
+
+/** Positive finite threshold, or null to fall back to the default. */
+export function parseInlierThresholdInput(value: string): number | null {
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function formatInlierThreshold(value: number): string {
+  return formatLength(value);
+}
+
+export function getReferenceAlignmentPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: REFERENCE_ALIGNMENT_MODAL_WIDTH,
+  };
+}
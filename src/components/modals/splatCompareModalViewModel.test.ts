@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getSplatCompareSourceOptions,
+  getSplatComparisonProgressLabel,
+  getSplatComparisonStatusLabel,
+  getSplatPsnrDeltaSummaryLabel,
+} from './splatCompareModalViewModel';
+
+describe('splatCompareModalViewModel', () => {
+  it('lists candidate sources after a None option', () => {
+    expect(getSplatCompareSourceOptions([
+      { id: 'runs/b.spz', path: 'runs/b.spz', url: 'https://example.com/runs/b.spz' },
+    ])).toEqual([
+      { value: '', label: 'None' },
+      { value: 'runs/b.spz', label: 'runs/b.spz' },
+    ]);
+  });
+
+  it('describes loading, errors and measuring progress', () => {
+    expect(getSplatComparisonStatusLabel('ready', null)).toBeNull();
+    expect(getSplatComparisonStatusLabel('loading', null)).toBe('Loading comparison splat...');
+    expect(getSplatComparisonStatusLabel('error', 'Failed to fetch splat (404)'))
+      .toBe('Could not load comparison splat: Failed to fetch splat (404)');
+    expect(getSplatComparisonProgressLabel(1, 0)).toBe('Measuring B: 1 image');
+    expect(getSplatComparisonProgressLabel(4, 2)).toBe('Measuring B: 4 images, 2 failed');
+  });
+
+  it('summarizes the per-image delta', () => {
+    expect(getSplatPsnrDeltaSummaryLabel({ comparedCount: 0, meanDelta: null, aBetterCount: 0, bBetterCount: 0 }))
+      .toBe('No images measured on both splats yet.');
+    expect(getSplatPsnrDeltaSummaryLabel({ comparedCount: 3, meanDelta: 1.04, aBetterCount: 2, bBetterCount: 1 }))
+      .toBe('Mean Δ PSNR +1.0 dB over 3 images; A better on 2, B better on 1.');
+  });
+});
@@ -0,0 +1,54 @@
+import type { CSSProperties } from 'react';
+import type { SplatComparisonLayout, SplatComparisonSourceStatus } from '../../store';
+import type { SplatFileSource } from '../../types/colmap';
+import type { SplatPsnrDeltaSummary } from '../../utils/splatComparisonPolicy';
+import { formatSplatPsnrDeltaValue } from '../viewer3d/splatPsnrMetric';
+
+export const SPLAT_COMPARE_MODAL_WIDTH = 320;
+export const SPLAT_COMPARE_MODAL_ESTIMATED_HEIGHT = 320;
+
+/** Select value for "no comparison splat". */
+export const SPLAT_COMPARE_NONE_VALUE = '';
+
+export const SPLAT_COMPARISON_LAYOUT_OPTIONS: readonly { value: SplatComparisonLayout; label: string }[] = [
+  { value: 'split', label: 'Split' },
+  { value: 'swipe', label: 'Swipe' },
+];
+
+export function getSplatCompareSourceOptions(
+  candidates: readonly SplatFileSource[]
+): { value: string; label: string }[] {
+  return [
+    { value: SPLAT_COMPARE_NONE_VALUE, label: 'None' },
+    ...candidates.map((source) => ({ value: source.id, label: source.path })),
+  ];
+}
+
+export function getSplatComparisonStatusLabel(
+  status: SplatComparisonSourceStatus,
+  error: string | null
+): string | null {
+  if (status === 'loading') return 'Loading comparison splat...';
+  if (status === 'error') return `Could not load comparison splat: ${error ?? 'unknown error'}`;
+  return null;
+}
+
+export function getSplatComparisonProgressLabel(measuredCount: number, failedCount: number): string {
+  const failed = failedCount > 0 ? `, ${failedCount} failed` : '';
+  return `Measuring B: ${measuredCount} image${measuredCount === 1 ? '' : 's'}${failed}`;
+}
+
+export function getSplatPsnrDeltaSummaryLabel(summary: SplatPsnrDeltaSummary): string {
+  if (summary.comparedCount === 0) return 'No images measured on both splats yet.';
+  const mean = summary.meanDelta === null ? '--' : formatSplatPsnrDeltaValue(summary.meanDelta);
+  const images = `${summary.comparedCount} image${summary.comparedCount === 1 ? '' : 's'}`;
+  return `Mean Δ PSNR ${mean} dB over ${images}; A better on ${summary.aBetterCount}, B better on ${summary.bBetterCount}.`;
+}
+
+export function getSplatCompareModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: SPLAT_COMPARE_MODAL_WIDTH,
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatCropBox } from '../../store';
+import {
+  formatSplatCropSize,
+  getSplatEditModalPanelStyle,
+  getSplatEditRemainingLabel,
+  getSplatMaxScaleFromSlider,
+  getSplatMaxScaleSliderStep,
+  getSplatMaxScaleSliderValue,
+  parseSplatCropSize,
+  setSplatCropBoxSize,
+} from './splatEditModalViewModel';
+
+describe('splatEditModalViewModel', () => {
+  it('labels the live remaining count', () => {
+    expect(getSplatEditRemainingLabel(null, null)).toBe('Decoding splat...');
+    expect(getSplatEditRemainingLabel(1500, 2000)).toBe('1,500 of 2,000 splats kept (75%)');
+    expect(getSplatEditRemainingLabel(0, 0)).toBe('0 of 0 splats kept (0%)');
+  });
+
+  it('treats the top of the scale slider as no limit', () => {
+    expect(getSplatMaxScaleSliderStep(4)).toBe(0.02);
+    expect(getSplatMaxScaleSliderValue(null, 4)).toBe(4);
+    expect(getSplatMaxScaleSliderValue(1.5, 4)).toBe(1.5);
+    expect(getSplatMaxScaleFromSlider(4, 4)).toBeNull();
+    expect(getSplatMaxScaleFromSlider(2, 4)).toBe(2);
+  });
+
+  it('edits one crop box axis at a time', () => {
+    const box: SplatCropBox = { center: [0, 0, 0], size: [1, 2, 3], rotation: [0, 0, 0] };
+    const resized = setSplatCropBoxSize(box, 1, 5);
+
+    expect(resized.size).toEqual([1, 5, 3]);
+    expect(box.size).toEqual([1, 2, 3]);
+    expect(parseSplatCropSize('2.5')).toBe(2.5);
+    expect(parseSplatCropSize('0')).toBeNull();
+    expect(parseSplatCropSize('')).toBeNull();
+    expect(formatSplatCropSize(1.234567)).toBe('1.235');
+  });
+
+  it('positions the panel at the dragged position', () => {
+    expect(getSplatEditModalPanelStyle({ x: 10, y: 20 })).toEqual({ left: 10, top: 20, width: 320 });
+  });
+});
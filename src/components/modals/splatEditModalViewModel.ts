@@ -0,0 +1,59 @@
+import type { CSSProperties } from 'react';
+import type { SplatCropBox, SplatCropMode } from '../../store';
+
+export const SPLAT_EDIT_MODAL_WIDTH = 320;
+export const SPLAT_EDIT_MODAL_ESTIMATED_HEIGHT = 420;
+
+/** Steps across the scale pruning slider. */
+const SPLAT_MAX_SCALE_SLIDER_STEPS = 200;
+
+export const SPLAT_CROP_MODE_OPTIONS: readonly { value: SplatCropMode; label: string }[] = [
+  { value: 'aabb', label: 'Axis-aligned' },
+  { value: 'oriented', label: 'Oriented' },
+];
+
+export const SPLAT_CROP_SIZE_AXES = ['X', 'Y', 'Z'] as const;
+
+export function getSplatEditRemainingLabel(remaining: number | null, total: number | null): string {
+  if (remaining === null || total === null) return 'Decoding splat...';
+  const percent = total > 0 ? Math.round((remaining / total) * 100) : 0;
+  return `${remaining.toLocaleString()} of ${total.toLocaleString()} splats kept (${percent}%)`;
+}
+
+export function getSplatMaxScaleSliderStep(maxMagnitude: number): number {
+  return maxMagnitude > 0 ? maxMagnitude / SPLAT_MAX_SCALE_SLIDER_STEPS : 1;
+}
+
+/** The slider sits at its maximum while scale pruning is off. */
+export function getSplatMaxScaleSliderValue(maxScale: number | null, maxMagnitude: number): number {
+  return maxScale === null ? maxMagnitude : Math.min(maxScale, maxMagnitude);
+}
+
+/** Dragging the slider back to its maximum turns scale pruning off. */
+export function getSplatMaxScaleFromSlider(value: number, maxMagnitude: number): number | null {
+  return value >= maxMagnitude ? null : Math.max(value, 0);
+}
+
+/** A typed crop box edge length, or null for empty or non-positive input. */
+export function parseSplatCropSize(value: string): number | null {
+  const size = Number.parseFloat(value);
+  return Number.isFinite(size) && size > 0 ? size : null;
+}
+
+export function setSplatCropBoxSize(box: SplatCropBox, axis: number, size: number): SplatCropBox {
+  const nextSize: SplatCropBox['size'] = [...box.size];
+  nextSize[axis] = size;
+  return { ...box, size: nextSize };
+}
+
+export function formatSplatCropSize(size: number): string {
+  return Number(size.toPrecision(4)).toString();
+}
+
+export function getSplatEditModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: SPLAT_EDIT_MODAL_WIDTH,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SPLAT_PATH_RESOLUTION_OPTIONS,
+  getSplatPathVideoModalPanelStyle,
+  getSplatPathVideoProgressLabel,
+  getSplatPathVideoProgressPercent,
+  getSplatPathVideoSummaryLabel,
+  parseSplatPathResolution,
+} from './splatPathVideoModalViewModel';
+
+describe('splatPathVideoModalViewModel', () => {
+  it('parses every resolution option into even dimensions', () => {
+    expect(parseSplatPathResolution('1920x1080')).toEqual({ width: 1920, height: 1080 });
+    for (const option of SPLAT_PATH_RESOLUTION_OPTIONS) {
+      const { width, height } = parseSplatPathResolution(option.value);
+      expect(width % 2).toBe(0);
+      expect(height % 2).toBe(0);
+    }
+  });
+
+  it('summarizes the path length and reports render progress', () => {
+    expect(getSplatPathVideoSummaryLabel('images', 0, 0, 30)).toBe('No registered images to follow.');
+    expect(getSplatPathVideoSummaryLabel('cameraPath', 1, 0, 30)).toBe('Add at least two camera path keyframes.');
+    expect(getSplatPathVideoSummaryLabel('images', 5, 121, 30)).toBe('5 keyframes → 121 frames (4.0s)');
+    expect(getSplatPathVideoProgressLabel({ renderedFrames: 9, frameCount: 120 })).toBe('Rendering frame 10 of 120...');
+    expect(getSplatPathVideoProgressLabel({ renderedFrames: 120, frameCount: 120 })).toBe('Finalizing MP4...');
+    expect(getSplatPathVideoProgressPercent({ renderedFrames: 30, frameCount: 120 })).toBe(25);
+    expect(getSplatPathVideoProgressPercent({ renderedFrames: 0, frameCount: 0 })).toBe(0);
+  });
+
+  it('positions the draggable panel', () => {
+    expect(getSplatPathVideoModalPanelStyle({ x: 10, y: 20 })).toEqual({ left: 10, top: 20, width: 320 });
+  });
+});
@@ -0,0 +1,76 @@
+import type { CSSProperties } from 'react';
+import type { CameraPathInterpolation } from '../../utils/cameraPathPolicy';
+
+export const SPLAT_PATH_VIDEO_MODAL_WIDTH = 320;
+export const SPLAT_PATH_VIDEO_MODAL_ESTIMATED_HEIGHT = 380;
+
+/** Where the poses come from: the registered images, or the keyframe camera path authored in the viewer. */
+export type SplatPathSource = 'images' | 'cameraPath';
+
+export const SPLAT_PATH_SOURCE_OPTIONS: readonly { value: SplatPathSource; label: string }[] = [
+  { value: 'images', label: 'Image poses' },
+  { value: 'cameraPath', label: 'Camera path' },
+];
+
+export const SPLAT_PATH_INTERPOLATION_OPTIONS: readonly { value: CameraPathInterpolation; label: string }[] = [
+  { value: 'spline', label: 'Smooth spline' },
+  { value: 'keyframes', label: 'Image poses only' },
+];
+
+/** Even sizes only: AVC encodes 4:2:0 chroma. */
+export const SPLAT_PATH_RESOLUTION_OPTIONS = [
+  { value: '1280x720', label: '1280×720' },
+  { value: '1920x1080', label: '1920×1080' },
+  { value: '2560x1440', label: '2560×1440' },
+  { value: '3840x2160', label: '3840×2160' },
+  { value: '1080x1080', label: '1080×1080' },
+  { value: '1080x1920', label: '1080×1920' },
+] as const;
+
+export type SplatPathResolution = typeof SPLAT_PATH_RESOLUTION_OPTIONS[number]['value'];
+
+export const SPLAT_PATH_FPS_OPTIONS = [
+  { value: '24', label: '24 fps' },
+  { value: '30', label: '30 fps' },
+  { value: '60', label: '60 fps' },
+];
+
+export interface SplatPathVideoProgress {
+  renderedFrames: number;
+  frameCount: number;
+}
+
+export function parseSplatPathResolution(value: SplatPathResolution): { width: number; height: number } {
+  const [width, height] = value.split('x').map(Number);
+  return { width, height };
+}
+
+export function getSplatPathVideoSummaryLabel(
+  source: SplatPathSource,
+  keyframeCount: number,
+  frameCount: number,
+  fps: number
+): string {
+  if (source === 'images' && keyframeCount === 0) return 'No registered images to follow.';
+  if (source === 'cameraPath' && keyframeCount < 2) return 'Add at least two camera path keyframes.';
+  const seconds = (frameCount / fps).toFixed(1);
+  return `${keyframeCount} keyframe${keyframeCount === 1 ? '' : 's'} → ${frameCount} frame${frameCount === 1 ? '' : 's'} (${seconds}s)`;
+}
+
+export function getSplatPathVideoProgressLabel({ renderedFrames, frameCount }: SplatPathVideoProgress): string {
+  if (renderedFrames >= frameCount) return 'Finalizing MP4...';
+  return `Rendering frame ${renderedFrames + 1} of ${frameCount}...`;
+}
+
+export function getSplatPathVideoProgressPercent({ renderedFrames, frameCount }: SplatPathVideoProgress): number {
+  if (frameCount <= 0) return 0;
+  return Math.round(renderedFrames / frameCount * 100);
+}
+
+export function getSplatPathVideoModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: SPLAT_PATH_VIDEO_MODAL_WIDTH,
+  };
+}
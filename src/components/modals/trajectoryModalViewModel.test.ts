@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTrajectorySpeed,
+  getTrajectoryModalPanelStyle,
+  getTrajectoryOrderOptions,
+  getTrajectoryPositionLabel,
+  shouldRestartTrajectory,
+} from './trajectoryModalViewModel';
+
+describe('trajectoryModalViewModel', () => {
+  it('offers rig frame order only when the reconstruction has frames', () => {
+    expect(getTrajectoryOrderOptions(false).map(({ value }) => value)).toEqual(['name']);
+    expect(getTrajectoryOrderOptions(true).map(({ value }) => value)).toEqual(['name', 'frameId']);
+  });
+
+  it('formats the playback speed', () => {
+    expect(formatTrajectorySpeed(5)).toBe('5.0 img/s');
+  });
+
+  it('labels the current image', () => {
+    expect(getTrajectoryPositionLabel(0, 0, null)).toBe('No registered images.');
+    expect(getTrajectoryPositionLabel(2, 10, 'frame_003.jpg')).toBe('3 / 10 · frame_003.jpg');
+    expect(getTrajectoryPositionLabel(2, 10, null)).toBe('3 / 10');
+  });
+
+  it('restarts a finished one-shot trajectory', () => {
+    expect(shouldRestartTrajectory(9, 10, false)).toBe(true);
+    expect(shouldRestartTrajectory(9, 10, true)).toBe(false);
+    expect(shouldRestartTrajectory(4.5, 10, false)).toBe(false);
+  });
+
+  it('positions the draggable panel', () => {
+    expect(getTrajectoryModalPanelStyle({ x: 10, y: 20 })).toEqual({ left: 10, top: 20, width: 320 });
+  });
+});
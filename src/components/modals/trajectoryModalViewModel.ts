@@ -0,0 +1,36 @@
+import type { CSSProperties } from 'react';
+import type { TrajectoryOrder } from '../../store/types';
+
+export const TRAJECTORY_MODAL_WIDTH = 320;
+export const TRAJECTORY_MODAL_ESTIMATED_HEIGHT = 300;
+
+export function getTrajectoryOrderOptions(
+  hasFrameIds: boolean
+): readonly { value: TrajectoryOrder; label: string }[] {
+  return hasFrameIds
+    ? [{ value: 'name', label: 'Image name' }, { value: 'frameId', label: 'Rig frame' }]
+    : [{ value: 'name', label: 'Image name' }];
+}
+
+export function formatTrajectorySpeed(speed: number): string {
+  return `${speed.toFixed(1)} img/s`;
+}
+
+export function getTrajectoryPositionLabel(index: number, imageCount: number, imageName: string | null): string {
+  if (imageCount === 0) return 'No registered images.';
+  const counter = `${index + 1} / ${imageCount}`;
+  return imageName ? `${counter} · ${imageName}` : counter;
+}
+
+/** Playing again from the last image of a one-shot trajectory starts it over. */
+export function shouldRestartTrajectory(position: number, imageCount: number, loop: boolean): boolean {
+  return !loop && imageCount > 1 && position >= imageCount - 1;
+}
+
+export function getTrajectoryModalPanelStyle(position: { x: number; y: number }): CSSProperties {
+  return {
+    left: position.x,
+    top: position.y,
+    width: TRAJECTORY_MODAL_WIDTH,
+  };
+}
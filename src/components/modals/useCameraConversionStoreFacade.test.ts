@@ -4,7 +4,7 @@ import {
   useNotificationStore,
   useReconstructionStore,
 } from '../../store';
-import { buildReconstruction } from '../../test/builders';
+import { buildReconstruction, buildWasmReconstructionWrapper } from '../../test/builders';
 import { useCameraConversionStoreFacade } from './useCameraConversionStoreFacade';
 
 describe('useCameraConversionStoreFacade', () => {
@@ -15,12 +15,14 @@ describe('useCameraConversionStoreFacade', () => {
 
   it('collects camera-conversion dependencies from owning stores', () => {
     const reconstruction = buildReconstruction();
-    useReconstructionStore.setState({ reconstruction });
+    const wasmReconstruction = buildWasmReconstructionWrapper();
+    useReconstructionStore.setState({ reconstruction, wasmReconstruction });
 
     const { result } = renderHook(() => useCameraConversionStoreFacade());
 
     expect(result.current.data.reconstruction).toBe(reconstruction);
-    expect(typeof result.current.actions.setReconstruction).toBe('function');
+    expect(result.current.data.wasmReconstruction).toBe(wasmReconstruction);
+    expect(typeof result.current.actions.replaceActiveModelReconstruction).toBe('function');
     expect(typeof result.current.actions.addNotification).toBe('function');
   });
 
@@ -29,7 +31,7 @@ describe('useCameraConversionStoreFacade', () => {
     const { result } = renderHook(() => useCameraConversionStoreFacade());
 
     act(() => {
-      result.current.actions.setReconstruction(reconstruction);
+      result.current.actions.replaceActiveModelReconstruction(reconstruction);
       result.current.actions.addNotification('info', 'Converted cameras', 2500);
     });
 
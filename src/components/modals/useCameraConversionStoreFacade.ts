@@ -4,15 +4,17 @@ import {
   type NotificationState,
 } from '../../store';
 import type { Reconstruction } from '../../types/colmap';
+import type { WasmReconstructionWrapper } from '../../wasm/reconstruction';
 
-type SetReconstruction = ReturnType<typeof useReconstructionStore.getState>['setReconstruction'];
+type ReplaceActiveModelReconstruction = ReturnType<typeof useReconstructionStore.getState>['replaceActiveModelReconstruction'];
 
 interface CameraConversionDataFacade {
   reconstruction: Reconstruction | null;
+  wasmReconstruction: WasmReconstructionWrapper | null;
 }
 
 interface CameraConversionActionsFacade {
-  setReconstruction: SetReconstruction;
+  replaceActiveModelReconstruction: ReplaceActiveModelReconstruction;
   addNotification: NotificationState['addNotification'];
 }
 
@@ -23,13 +25,14 @@ export interface CameraConversionStoreFacade {
 
 export function useCameraConversionStoreFacade(): CameraConversionStoreFacade {
   const reconstruction = useReconstructionStore((s) => s.reconstruction);
-  const setReconstruction = useReconstructionStore((s) => s.setReconstruction);
+  const wasmReconstruction = useReconstructionStore((s) => s.wasmReconstruction);
+  const replaceActiveModelReconstruction = useReconstructionStore((s) => s.replaceActiveModelReconstruction);
   const addNotification = useNotificationStore((s) => s.addNotification);
 
   return {
-    data: { reconstruction },
+    data: { reconstruction, wasmReconstruction },
     actions: {
-      setReconstruction,
+      replaceActiveModelReconstruction,
       addNotification,
     },
   };
@@ -0,0 +1,39 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraPathStore, useCameraStore } from '../../store';
+import type { CameraViewState } from '../../store/types';
+import { useCameraPathStoreFacade } from './useCameraPathStoreFacade';
+
+const view: CameraViewState = {
+  position: [0, 0, 5],
+  quaternion: [0, 0, 0, 1],
+  target: [0, 0, 0],
+  distance: 5,
+};
+
+describe('useCameraPathStoreFacade', () => {
+  beforeEach(() => {
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
+    useCameraStore.setState({ currentViewState: null, flyToViewState: null });
+  });
+
+  it('exposes the path and adds the current view as a keyframe', () => {
+    useCameraStore.getState().setCurrentViewState(view);
+    const { result } = renderHook(() => useCameraPathStoreFacade());
+    expect(result.current.data.currentViewState).toEqual(view);
+
+    act(() => {
+      result.current.actions.addKeyframe(view);
+      result.current.actions.setLoop(true);
+    });
+
+    expect(result.current.data.keyframes).toEqual([{ id: 1, view, duration: 2, easing: 'linear' }]);
+    expect(result.current.data.loop).toBe(true);
+  });
+
+  it('flies to a keyframe view through the camera store', () => {
+    const { result } = renderHook(() => useCameraPathStoreFacade());
+    act(() => result.current.actions.flyToState(view));
+    expect(useCameraStore.getState().flyToViewState).toEqual(view);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  useCameraPathStore,
+  useCameraStore,
+  type CameraPathState,
+  type CameraState,
+} from '../../store';
+
+interface CameraPathDataFacade {
+  keyframes: CameraPathState['keyframes'];
+  loop: CameraPathState['loop'];
+  playbackStartTime: CameraPathState['playbackStartTime'];
+  currentViewState: CameraState['currentViewState'];
+}
+
+interface CameraPathActionsFacade {
+  addKeyframe: CameraPathState['addKeyframe'];
+  setKeyframeView: CameraPathState['setKeyframeView'];
+  setKeyframeDuration: CameraPathState['setKeyframeDuration'];
+  setKeyframeEasing: CameraPathState['setKeyframeEasing'];
+  moveKeyframe: CameraPathState['moveKeyframe'];
+  removeKeyframe: CameraPathState['removeKeyframe'];
+  clearPath: CameraPathState['clearPath'];
+  setLoop: CameraPathState['setLoop'];
+  play: CameraPathState['play'];
+  stop: CameraPathState['stop'];
+  flyToState: CameraState['flyToState'];
+}
+
+export interface CameraPathStoreFacade {
+  data: CameraPathDataFacade;
+  actions: CameraPathActionsFacade;
+}
+
+export function useCameraPathStoreFacade(): CameraPathStoreFacade {
+  const keyframes = useCameraPathStore((s) => s.keyframes);
+  const loop = useCameraPathStore((s) => s.loop);
+  const playbackStartTime = useCameraPathStore((s) => s.playbackStartTime);
+  const addKeyframe = useCameraPathStore((s) => s.addKeyframe);
+  const setKeyframeView = useCameraPathStore((s) => s.setKeyframeView);
+  const setKeyframeDuration = useCameraPathStore((s) => s.setKeyframeDuration);
+  const setKeyframeEasing = useCameraPathStore((s) => s.setKeyframeEasing);
+  const moveKeyframe = useCameraPathStore((s) => s.moveKeyframe);
+  const removeKeyframe = useCameraPathStore((s) => s.removeKeyframe);
+  const clearPath = useCameraPathStore((s) => s.clearPath);
+  const setLoop = useCameraPathStore((s) => s.setLoop);
+  const play = useCameraPathStore((s) => s.play);
+  const stop = useCameraPathStore((s) => s.stop);
+  const currentViewState = useCameraStore((s) => s.currentViewState);
+  const flyToState = useCameraStore((s) => s.flyToState);
+
+  return {
+    data: {
+      keyframes,
+      loop,
+      playbackStartTime,
+      currentViewState,
+    },
+    actions: {
+      addKeyframe,
+      setKeyframeView,
+      setKeyframeDuration,
+      setKeyframeEasing,
+      moveKeyframe,
+      removeKeyframe,
+      clearPath,
+      setLoop,
+      play,
+      stop,
+      flyToState,
+    },
+  };
+}
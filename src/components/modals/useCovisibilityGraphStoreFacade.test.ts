@@ -0,0 +1,37 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraStore, useReconstructionStore, useUIStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useCovisibilityGraphStoreFacade } from './useCovisibilityGraphStoreFacade';
+
+describe('useCovisibilityGraphStoreFacade', () => {
+  beforeEach(() => {
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useUIStore.setState(useUIStore.getInitialState(), true);
+  });
+
+  it('collects the reconstruction and current selection', () => {
+    const reconstruction = buildReconstruction();
+    useReconstructionStore.setState({ reconstruction });
+    useCameraStore.setState({ selectedImageId: 4 });
+
+    const { result } = renderHook(() => useCovisibilityGraphStoreFacade());
+
+    expect(result.current.data.reconstruction).toBe(reconstruction);
+    expect(result.current.selection.selectedImageId).toBe(4);
+  });
+
+  it('routes selection actions back to the owning stores', () => {
+    const { result } = renderHook(() => useCovisibilityGraphStoreFacade());
+
+    act(() => {
+      result.current.selection.setSelectedImageId(7);
+      result.current.selection.flyToImage(7);
+      result.current.selection.openImageDetail(7);
+    });
+
+    expect(useCameraStore.getState()).toMatchObject({ selectedImageId: 7, flyToImageId: 7 });
+    expect(useUIStore.getState().imageDetailId).toBe(7);
+  });
+});
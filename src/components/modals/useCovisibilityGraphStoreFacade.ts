@@ -0,0 +1,44 @@
+import {
+  useCameraStore,
+  useReconstructionStore,
+  useUIStore,
+  type CameraState,
+  type UIState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface CovisibilityGraphDataFacade {
+  reconstruction: Reconstruction | null;
+}
+
+interface CovisibilityGraphSelectionFacade {
+  selectedImageId: CameraState['selectedImageId'];
+  setSelectedImageId: CameraState['setSelectedImageId'];
+  flyToImage: CameraState['flyToImage'];
+  openImageDetail: UIState['openImageDetail'];
+}
+
+export interface CovisibilityGraphStoreFacade {
+  data: CovisibilityGraphDataFacade;
+  selection: CovisibilityGraphSelectionFacade;
+}
+
+export function useCovisibilityGraphStoreFacade(): CovisibilityGraphStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const selectedImageId = useCameraStore((s) => s.selectedImageId);
+  const setSelectedImageId = useCameraStore((s) => s.setSelectedImageId);
+  const flyToImage = useCameraStore((s) => s.flyToImage);
+  const openImageDetail = useUIStore((s) => s.openImageDetail);
+
+  return {
+    data: {
+      reconstruction,
+    },
+    selection: {
+      selectedImageId,
+      setSelectedImageId,
+      flyToImage,
+      openImageDetail,
+    },
+  };
+}
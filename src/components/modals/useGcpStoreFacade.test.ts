@@ -0,0 +1,47 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useGcpStore, usePointPickingStore, useReconstructionStore, useTransformStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useGcpStoreFacade } from './useGcpStoreFacade';
+
+describe('useGcpStoreFacade', () => {
+  beforeEach(() => {
+    useGcpStore.setState(useGcpStore.getInitialState(), true);
+    usePointPickingStore.setState(usePointPickingStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+  });
+
+  it('collects the reconstruction, GCP list and picking state', () => {
+    const reconstruction = buildReconstruction();
+    useReconstructionStore.setState({ reconstruction });
+    usePointPickingStore.setState({ pickingMode: 'gcp' });
+    useGcpStore.getState().addGcp();
+
+    const { result } = renderHook(() => useGcpStoreFacade());
+
+    expect(result.current.data).toMatchObject({
+      reconstruction,
+      activeGcpId: 1,
+      isPicking: true,
+      transform: useTransformStore.getState().transform,
+    });
+    expect(result.current.data.gcps).toHaveLength(1);
+  });
+
+  it('routes GCP, picking and transform actions to the owning stores', () => {
+    const { result } = renderHook(() => useGcpStoreFacade());
+
+    act(() => {
+      result.current.actions.importGcps([{ name: 'A', world: [1, 2, 3], model: null }]);
+      result.current.actions.setPickingMode('gcp');
+      result.current.actions.setTransform({ scale: 3 });
+    });
+    expect(useGcpStore.getState().gcps[0]).toMatchObject({ name: 'A', world: [1, 2, 3] });
+    expect(usePointPickingStore.getState().pickingMode).toBe('gcp');
+    expect(useTransformStore.getState().transform.scale).toBe(3);
+
+    act(() => result.current.actions.clearGcps());
+    expect(useGcpStore.getState().gcps).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  useGcpStore,
+  usePointPickingStore,
+  useReconstructionStore,
+  useTransformStore,
+  type GcpState,
+  type PointPickingState,
+  type TransformState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface GcpDataFacade {
+  reconstruction: Reconstruction | null;
+  gcps: GcpState['gcps'];
+  activeGcpId: GcpState['activeGcpId'];
+  isPicking: boolean;
+  /** The displayed transform; fits are composed with it on Apply. */
+  transform: TransformState['transform'];
+}
+
+interface GcpActionsFacade {
+  addGcp: GcpState['addGcp'];
+  setActiveGcpId: GcpState['setActiveGcpId'];
+  renameGcp: GcpState['renameGcp'];
+  setGcpWorld: GcpState['setGcpWorld'];
+  clearGcpPick: GcpState['clearGcpPick'];
+  removeGcp: GcpState['removeGcp'];
+  importGcps: GcpState['importGcps'];
+  clearGcps: GcpState['clearGcps'];
+  setPickingMode: PointPickingState['setPickingMode'];
+  setTransform: TransformState['setTransform'];
+}
+
+export interface GcpStoreFacade {
+  data: GcpDataFacade;
+  actions: GcpActionsFacade;
+}
+
+export function useGcpStoreFacade(): GcpStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const gcps = useGcpStore((s) => s.gcps);
+  const activeGcpId = useGcpStore((s) => s.activeGcpId);
+  const isPicking = usePointPickingStore((s) => s.pickingMode === 'gcp');
+  const addGcp = useGcpStore((s) => s.addGcp);
+  const setActiveGcpId = useGcpStore((s) => s.setActiveGcpId);
+  const renameGcp = useGcpStore((s) => s.renameGcp);
+  const setGcpWorld = useGcpStore((s) => s.setGcpWorld);
+  const clearGcpPick = useGcpStore((s) => s.clearGcpPick);
+  const removeGcp = useGcpStore((s) => s.removeGcp);
+  const importGcps = useGcpStore((s) => s.importGcps);
+  const clearGcps = useGcpStore((s) => s.clearGcps);
+  const setPickingMode = usePointPickingStore((s) => s.setPickingMode);
+  const transform = useTransformStore((s) => s.transform);
+  const setTransform = useTransformStore((s) => s.setTransform);
+
+  return {
+    data: {
+      reconstruction,
+      gcps,
+      activeGcpId,
+      isPicking,
+      transform,
+    },
+    actions: {
+      addGcp,
+      setActiveGcpId,
+      renameGcp,
+      setGcpWorld,
+      clearGcpPick,
+      removeGcp,
+      importGcps,
+      clearGcps,
+      setPickingMode,
+      setTransform,
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useHotkeyStore } from '../../store';
+import { useHotkeyEditorStoreFacade } from './useHotkeyEditorStoreFacade';
+
+describe('useHotkeyEditorStoreFacade', () => {
+  beforeEach(() => {
+    useHotkeyStore.setState(useHotkeyStore.getInitialState(), true);
+  });
+
+  it('reads and edits hotkey overrides through the hotkey store', () => {
+    const { result } = renderHook(() => useHotkeyEditorStoreFacade());
+    expect(result.current.data.overrides).toEqual({});
+
+    act(() => {
+      result.current.actions.setHotkeyOverride('resetView', 'x');
+      result.current.actions.setHotkeyOverride('toggleGrid', 'k');
+    });
+    expect(result.current.data.overrides).toEqual({ resetView: 'x', toggleGrid: 'k' });
+
+    act(() => {
+      result.current.actions.resetHotkeyOverride('resetView');
+    });
+    expect(useHotkeyStore.getState().overrides).toEqual({ toggleGrid: 'k' });
+
+    act(() => {
+      result.current.actions.resetAllHotkeyOverrides();
+    });
+    expect(result.current.data.overrides).toEqual({});
+  });
+});
@@ -0,0 +1,29 @@
+import { useHotkeyStore, type HotkeyState } from '../../store';
+
+interface HotkeyEditorDataFacade {
+  overrides: HotkeyState['overrides'];
+}
+
+interface HotkeyEditorActionsFacade {
+  setHotkeyOverride: HotkeyState['setHotkeyOverride'];
+  resetHotkeyOverride: HotkeyState['resetHotkeyOverride'];
+  resetAllHotkeyOverrides: HotkeyState['resetAllHotkeyOverrides'];
+}
+
+export interface HotkeyEditorStoreFacade {
+  data: HotkeyEditorDataFacade;
+  actions: HotkeyEditorActionsFacade;
+}
+
+/** Store facade for the help panel's Customize tab (hotkey rebinds). */
+export function useHotkeyEditorStoreFacade(): HotkeyEditorStoreFacade {
+  const overrides = useHotkeyStore((s) => s.overrides);
+  const setHotkeyOverride = useHotkeyStore((s) => s.setHotkeyOverride);
+  const resetHotkeyOverride = useHotkeyStore((s) => s.resetHotkeyOverride);
+  const resetAllHotkeyOverrides = useHotkeyStore((s) => s.resetAllHotkeyOverrides);
+
+  return {
+    data: { overrides },
+    actions: { setHotkeyOverride, resetHotkeyOverride, resetAllHotkeyOverrides },
+  };
+}
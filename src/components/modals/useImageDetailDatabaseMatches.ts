@@ -0,0 +1,65 @@
+import { useEffect, useMemo } from 'react';
+import type { MatchesSource } from '../../store/types';
+import type { ImageId } from '../../types/colmap';
+import type { DatabasePairMatches } from '../../types/colmapDatabase';
+import { getDatabasePairKey } from '../../utils/colmapDatabaseMatches';
+import type { ImageDetailDatabaseFacade } from './useImageDetailStoreFacade';
+import type { ImageDetailDatabaseMatches } from './imageDetailViewModel';
+
+interface UseImageDetailDatabaseMatchesOptions {
+  database: ImageDetailDatabaseFacade;
+  matchesSource: MatchesSource;
+  imageDetailId: ImageId | null;
+  matchedImageId: ImageId | null;
+  showMatchesInModal: boolean;
+}
+
+export interface ImageDetailDatabaseMatchLineData {
+  matches: Uint32Array | undefined;
+  keypoints1: Float32Array | undefined;
+  keypoints2: Float32Array | undefined;
+}
+
+/**
+ * Select database-backed matches for the modal when a database source is active,
+ * and read the pair's match and keypoint blobs on demand while the match view is open.
+ */
+export function useImageDetailDatabaseMatches({
+  database,
+  matchesSource,
+  imageDetailId,
+  matchedImageId,
+  showMatchesInModal,
+}: UseImageDetailDatabaseMatchesOptions) {
+  const { summary, pairIndex, keypoints, pairMatches, requestKeypoints, requestPairMatches } = database;
+
+  const databaseMatches = useMemo<ImageDetailDatabaseMatches | null>(() => {
+    if (matchesSource === 'triangulated' || !summary || !pairIndex) return null;
+    return { source: matchesSource, summary, pairIndex };
+  }, [matchesSource, summary, pairIndex]);
+
+  const isActive = databaseMatches !== null && showMatchesInModal
+    && imageDetailId !== null && matchedImageId !== null;
+
+  useEffect(() => {
+    if (!isActive || imageDetailId === null || matchedImageId === null) return;
+    requestPairMatches(imageDetailId, matchedImageId);
+    requestKeypoints(imageDetailId);
+    requestKeypoints(matchedImageId);
+  }, [isActive, imageDetailId, matchedImageId, requestKeypoints, requestPairMatches]);
+
+  const databasePair: DatabasePairMatches | null = isActive && imageDetailId !== null && matchedImageId !== null
+    ? pairMatches.get(getDatabasePairKey(imageDetailId, matchedImageId)) ?? null
+    : null;
+
+  const databaseLineData = useMemo<ImageDetailDatabaseMatchLineData | null>(() => {
+    if (!databaseMatches || !databasePair) return null;
+    return {
+      matches: databaseMatches.source === 'verified' ? databasePair.inlierMatches : databasePair.rawMatches,
+      keypoints1: keypoints.get(databasePair.imageId1)?.xy,
+      keypoints2: keypoints.get(databasePair.imageId2)?.xy,
+    };
+  }, [databaseMatches, databasePair, keypoints]);
+
+  return { databaseMatches, databasePair, databaseLineData };
+}
@@ -38,6 +38,7 @@ export function useImageDetailFiles({
       reconstruction,
       imageDetailId,
       matchedImageId,
+      matchedImageName: matchedImage?.name ?? null,
       hasImages: dataset.hasImages(),
       isImageCached: (imageName) => dataset.getImageSync(imageName) !== undefined,
     });
@@ -53,7 +54,7 @@ export function useImageDetailFiles({
     return () => {
       cancelled = true;
     };
-  }, [dataset, reconstruction, imageDetailId, matchedImageId]);
+  }, [dataset, reconstruction, imageDetailId, matchedImageId, matchedImage?.name]);
 
   useEffect(() => {
     const maskName = getMaskNameToFetch({
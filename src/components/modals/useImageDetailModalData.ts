@@ -3,12 +3,18 @@ import { GAP } from '../../theme';
 import type { ImageId, Point2D, Reconstruction } from '../../types/colmap';
 import {
   buildConnectedImages,
+  buildDatabaseConnectedImages,
+  buildDatabaseMatchLines,
   buildImageNavigation,
   buildMatchLines,
   getCurrentMatchCount,
   getEffectivePoints2D,
   getPointCounts,
+  resolveDetailCamera,
+  resolveDetailImage,
+  type ImageDetailDatabaseMatches,
 } from './imageDetailViewModel';
+import type { ImageDetailDatabaseMatchLineData } from './useImageDetailDatabaseMatches';
 import {
   getSideBySideMatchLayout,
   getSingleImageLayout,
@@ -23,6 +29,9 @@ interface UseImageDetailModalDataOptions {
   showMatchesInModal: boolean;
   pendingDeletions: Set<ImageId>;
   lazyPoints2D: Map<ImageId, Point2D[]>;
+  /** Active database match source; null when matches come from reconstruction tracks. */
+  databaseMatches: ImageDetailDatabaseMatches | null;
+  databaseLineData: ImageDetailDatabaseMatchLineData | null;
 }
 
 export function useImageDetailModalData({
@@ -32,11 +41,17 @@ export function useImageDetailModalData({
   showMatchesInModal,
   pendingDeletions,
   lazyPoints2D,
+  databaseMatches,
+  databaseLineData,
 }: UseImageDetailModalDataOptions) {
+  const databaseSummary = databaseMatches?.summary ?? null;
   const image = imageDetailId !== null ? reconstruction?.images.get(imageDetailId) ?? null : null;
   const camera = image ? reconstruction?.cameras.get(image.cameraId) : null;
-  const matchedImage = matchedImageId !== null ? reconstruction?.images.get(matchedImageId) ?? null : null;
-  const matchedCamera = matchedImage ? reconstruction?.cameras.get(matchedImage.cameraId) : null;
+  const matchedImage = useMemo(
+    () => resolveDetailImage(reconstruction, databaseSummary, matchedImageId),
+    [reconstruction, databaseSummary, matchedImageId]
+  );
+  const matchedCamera = resolveDetailCamera(reconstruction, databaseSummary, matchedImage);
 
   const navigation = useMemo(
     () => buildImageNavigation(reconstruction, imageDetailId),
@@ -51,8 +66,10 @@ export function useImageDetailModalData({
   );
 
   const connectedImages = useMemo(
-    () => buildConnectedImages(reconstruction, imageDetailId, pendingDeletions),
-    [reconstruction, imageDetailId, pendingDeletions]
+    () => databaseMatches
+      ? buildDatabaseConnectedImages(reconstruction, databaseMatches, imageDetailId, pendingDeletions)
+      : buildConnectedImages(reconstruction, imageDetailId, pendingDeletions),
+    [reconstruction, databaseMatches, imageDetailId, pendingDeletions]
   );
 
   const currentMatchCount = useMemo(
@@ -70,16 +87,25 @@ export function useImageDetailModalData({
     [matchedImage, lazyPoints2D]
   );
 
-  const matchLines = useMemo(() => buildMatchLines(
-    showMatchesInModal && matchedImageId !== null && !!reconstruction && !!image && !!matchedImage,
-    effectivePoints2D,
-    effectiveMatchedPoints2D
-  ), [
+  const matchLines = useMemo(() => {
+    const enabled = showMatchesInModal && matchedImageId !== null && !!reconstruction && !!image && !!matchedImage;
+    if (databaseMatches) {
+      return buildDatabaseMatchLines(
+        enabled,
+        databaseLineData?.matches,
+        databaseLineData?.keypoints1,
+        databaseLineData?.keypoints2
+      );
+    }
+    return buildMatchLines(enabled, effectivePoints2D, effectiveMatchedPoints2D);
+  }, [
     showMatchesInModal,
     matchedImageId,
     reconstruction,
     image,
     matchedImage,
+    databaseMatches,
+    databaseLineData,
     effectivePoints2D,
     effectiveMatchedPoints2D,
   ]);
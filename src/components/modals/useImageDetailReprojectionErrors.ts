@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import type { Camera, Image, Point2D, Reconstruction } from '../../types/colmap';
+import {
+  analyzeReprojectionResiduals,
+  collectPoint3DPositions,
+  computeImageReprojectionResiduals,
+  getTriangulatedPoint3DIds,
+  type ReprojectionErrorAnalysis,
+} from '../../utils/reprojectionErrors';
+import type { WasmReconstructionWrapper } from '../../wasm/reconstruction';
+
+interface UseImageDetailReprojectionErrorsOptions {
+  enabled: boolean;
+  reconstruction: Reconstruction | null;
+  wasmReconstruction: WasmReconstructionWrapper | null;
+  image: Image | null | undefined;
+  camera: Camera | null | undefined;
+  points2D: Point2D[];
+}
+
+/**
+ * Reproject the shown image's triangulated observations while the residual
+ * explorer is on. Positions come from the points3D map when one was built,
+ * otherwise from a single scan of the WASM point arrays.
+ */
+export function useImageDetailReprojectionErrors({
+  enabled,
+  reconstruction,
+  wasmReconstruction,
+  image,
+  camera,
+  points2D,
+}: UseImageDetailReprojectionErrorsOptions): ReprojectionErrorAnalysis | null {
+  return useMemo(() => {
+    if (!enabled || !image || !camera || points2D.length === 0) return null;
+    const positions = collectPoint3DPositions(
+      getTriangulatedPoint3DIds(points2D),
+      reconstruction?.points3D,
+      wasmReconstruction
+    );
+    const residuals = computeImageReprojectionResiduals(image, camera, points2D, positions);
+    return residuals.length > 0 ? analyzeReprojectionResiduals(residuals, camera) : null;
+  }, [enabled, reconstruction, wasmReconstruction, image, camera, points2D]);
+}
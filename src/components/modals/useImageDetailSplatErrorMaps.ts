@@ -0,0 +1,106 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { DatasetManager } from '../../dataset';
+import type { Camera, Image } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+import { appLogger } from '../../utils/logger';
+import type { ImageDetailSplatErrorMapState } from './imageDetailSplatErrorMapViewModel';
+
+interface UseImageDetailSplatErrorMapsOptions {
+  enabled: boolean;
+  dataset: DatasetManager;
+  splatFile: File | null;
+  image: Image | null | undefined;
+  camera: Camera | null | undefined;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+}
+
+interface SplatErrorMapRequestKey {
+  dataset: DatasetManager;
+  splatFile: File;
+  image: Image;
+  camera: Camera;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+}
+
+interface SettledSplatErrorMaps {
+  key: SplatErrorMapRequestKey;
+  state: Exclude<ImageDetailSplatErrorMapState, { status: 'loading' }>;
+}
+
+/**
+ * Render the shown image's splat error maps while the view is on. The WebGPU
+ * runtime is loaded on first use, and its session is released when the view
+ * is turned off or the modal closes.
+ */
+export function useImageDetailSplatErrorMaps({
+  enabled,
+  dataset,
+  splatFile,
+  image,
+  camera,
+  transform,
+  splatTransform,
+}: UseImageDetailSplatErrorMapsOptions): ImageDetailSplatErrorMapState | null {
+  const [settled, setSettled] = useState<SettledSplatErrorMaps | null>(null);
+
+  const key = useMemo<SplatErrorMapRequestKey | null>(() => {
+    if (!enabled || !splatFile || !image || !camera) return null;
+    return { dataset, splatFile, image, camera, transform, splatTransform };
+  }, [enabled, dataset, splatFile, image, camera, transform, splatTransform]);
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    const settle = (state: SettledSplatErrorMaps['state']) => {
+      if (!cancelled) setSettled({ key, state });
+    };
+
+    void (async () => {
+      const { renderSplatErrorMaps } = await import('../viewer3d/splatErrorMapRuntime');
+      const imageFile = await key.dataset.getMetricImage(key.image.name);
+      if (cancelled) return;
+      if (!imageFile) {
+        settle({ status: 'error', message: 'Missing image file' });
+        return;
+      }
+      const maskFile = key.dataset.hasMasks() ? await key.dataset.getMask(key.image.name) : null;
+      if (cancelled) return;
+
+      const maps = await renderSplatErrorMaps({
+        splatFile: key.splatFile,
+        imageFile,
+        maskFile,
+        image: key.image,
+        camera: key.camera,
+        transform: key.transform,
+        splatTransform: key.splatTransform,
+      });
+      settle({ status: 'ready', maps });
+    })().catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!cancelled) {
+        appLogger.warn(`[PSNR] Failed to render error maps for ${key.image.name}: ${message}`);
+      }
+      settle({ status: 'error', message });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return () => {
+      void import('../viewer3d/splatErrorMapRuntime').then(({ releaseSplatErrorMapSession }) => {
+        releaseSplatErrorMapSession();
+      });
+    };
+  }, [enabled]);
+
+  if (!key) return null;
+  return settled?.key === key ? settled.state : { status: 'loading' };
+}
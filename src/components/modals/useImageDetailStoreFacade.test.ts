@@ -1,13 +1,26 @@
 import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { useReconstructionStore, useUIStore } from '../../store';
+import {
+  useColmapDatabaseStore,
+  useGcpStore,
+  usePointPickingStore,
+  useReconstructionStore,
+  useSplatBackendStore,
+  useTransformStore,
+  useUIStore,
+} from '../../store';
 import { buildFile, buildLoadedFiles, buildReconstruction } from '../../test/builders';
+import { buildDatabasePairIndex } from '../../utils/colmapDatabaseMatches';
 import { useImageDetailStoreFacade } from './useImageDetailStoreFacade';
 
 describe('useImageDetailStoreFacade', () => {
   beforeEach(() => {
     useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
     useUIStore.setState(useUIStore.getInitialState(), true);
+    useColmapDatabaseStore.setState(useColmapDatabaseStore.getInitialState(), true);
+    usePointPickingStore.setState(usePointPickingStore.getInitialState(), true);
+    useGcpStore.setState(useGcpStore.getInitialState(), true);
+    useSplatBackendStore.setState(useSplatBackendStore.getInitialState(), true);
   });
 
   it('collects image-detail data and UI dependencies', () => {
@@ -46,6 +59,28 @@ describe('useImageDetailStoreFacade', () => {
     });
   });
 
+  it('exposes database match state only once the database is ready', () => {
+    const summary = { cameras: new Map(), images: new Map(), pairs: [] };
+    const pairIndex = buildDatabasePairIndex([]);
+    useUIStore.setState({ matchesSource: 'raw' });
+    useColmapDatabaseStore.setState({ status: 'loading', summary, pairIndex });
+
+    const { result, rerender } = renderHook(() => useImageDetailStoreFacade());
+
+    expect(result.current.ui.matchesSource).toBe('raw');
+    expect(result.current.database.summary).toBeNull();
+    expect(result.current.database.pairIndex).toBeNull();
+
+    act(() => {
+      useColmapDatabaseStore.setState({ status: 'ready' });
+    });
+    rerender();
+
+    expect(result.current.database.summary).toBe(summary);
+    expect(result.current.database.pairIndex).toBe(pairIndex);
+    expect(result.current.database.requestPairMatches).toBe(useColmapDatabaseStore.getState().requestPairMatches);
+  });
+
   it('routes UI callbacks back to the owning store', () => {
     const { result } = renderHook(() => useImageDetailStoreFacade());
 
@@ -54,13 +89,17 @@ describe('useImageDetailStoreFacade', () => {
       result.current.ui.setShowPoints2D(true);
       result.current.ui.setShowPoints3D(true);
       result.current.ui.setMatchedImageId(8);
+      result.current.ui.setMatchesSource('verified');
+      result.current.ui.setShowReprojectionErrors(true);
     });
 
     expect(useUIStore.getState()).toMatchObject({
       imageDetailId: 7,
       showPoints2D: true,
       showPoints3D: true,
+      showReprojectionErrors: true,
       matchedImageId: 8,
+      matchesSource: 'verified',
     });
 
     act(() => {
@@ -70,4 +109,59 @@ describe('useImageDetailStoreFacade', () => {
     expect(useUIStore.getState().imageDetailId).toBeNull();
     expect(useUIStore.getState().matchedImageId).toBeNull();
   });
+
+  it('exposes GCP observation picking while the GCP mode is on', () => {
+    const { result } = renderHook(() => useImageDetailStoreFacade());
+    expect(result.current.gcp.isPicking).toBe(false);
+
+    act(() => usePointPickingStore.getState().setPickingMode('gcp'));
+    act(() => result.current.gcp.addObservation({ imageId: 1, x: 5, y: 6 }));
+
+    expect(result.current.gcp.isPicking).toBe(true);
+    expect(result.current.gcp.activeGcpId).toBe(1);
+    expect(result.current.gcp.gcps[0].observations).toEqual([{ imageId: 1, x: 5, y: 6 }]);
+  });
+
+  it('exposes the loaded splat for error maps only on the WebGPU metric path', () => {
+    const splatFile = buildFile('scene.spz', 'splat');
+    useReconstructionStore.setState({ loadedFiles: buildLoadedFiles({ splatFile }) });
+
+    const { result } = renderHook(() => useImageDetailStoreFacade());
+
+    expect(result.current.splat).toMatchObject({
+      splatFile,
+      errorMapsAvailable: false,
+      transform: useTransformStore.getState().transform,
+      splatTransform: useTransformStore.getState().splatTransform,
+    });
+
+    act(() => {
+      useSplatBackendStore.getState().setWebGpuMetricState('ready');
+    });
+
+    expect(result.current.splat.errorMapsAvailable).toBe(true);
+  });
+
+  it('keeps at least one splat error pane in canonical order', () => {
+    const { result } = renderHook(() => useImageDetailStoreFacade());
+
+    act(() => {
+      result.current.ui.setShowSplatErrorMaps(true);
+      result.current.ui.toggleSplatErrorMapView('rendered');
+      result.current.ui.toggleSplatErrorMapView('groundTruth');
+      result.current.ui.toggleSplatErrorMapView('ssim');
+      result.current.ui.toggleSplatErrorMapView('difference');
+    });
+
+    expect(result.current.ui.showSplatErrorMaps).toBe(true);
+    expect(result.current.ui.splatErrorMapViews).toEqual(['difference']);
+
+    act(() => {
+      result.current.ui.toggleSplatErrorMapView('rendered');
+      result.current.ui.setSplatErrorMapLayout('swipe');
+    });
+
+    expect(result.current.ui.splatErrorMapViews).toEqual(['rendered', 'difference']);
+    expect(result.current.ui.splatErrorMapLayout).toBe('swipe');
+  });
 });
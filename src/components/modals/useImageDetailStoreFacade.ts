@@ -1,6 +1,19 @@
 import { useDataset, type DatasetManager } from '../../dataset';
-import { useReconstructionStore, useUIStore, type UIState } from '../../store';
+import {
+  useColmapDatabaseStore,
+  useGcpStore,
+  usePointPickingStore,
+  useReconstructionStore,
+  useSplatBackendStore,
+  useTransformStore,
+  useUIStore,
+  type ColmapDatabaseState,
+  type GcpState,
+  type UIState,
+} from '../../store';
+import type { MatchesSource } from '../../store/types';
 import type { ImageId, Reconstruction } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
 import type { WasmReconstructionWrapper } from '../../wasm/reconstruction';
 
 interface ImageDetailDataFacade {
@@ -14,7 +27,9 @@ interface ImageDetailUiFacade {
   showPoints2D: boolean;
   showPoints3D: boolean;
   showMatchesInModal: boolean;
+  showReprojectionErrors: boolean;
   matchedImageId: ImageId | null;
+  matchesSource: MatchesSource;
   touchMode: boolean;
   showModalControls: boolean;
   openImageDetail: UIState['openImageDetail'];
@@ -22,12 +37,49 @@ interface ImageDetailUiFacade {
   setShowPoints2D: UIState['setShowPoints2D'];
   setShowPoints3D: UIState['setShowPoints3D'];
   setShowMatchesInModal: UIState['setShowMatchesInModal'];
+  setShowReprojectionErrors: UIState['setShowReprojectionErrors'];
   setMatchedImageId: UIState['setMatchedImageId'];
+  setMatchesSource: UIState['setMatchesSource'];
+  showSplatErrorMaps: boolean;
+  splatErrorMapViews: UIState['splatErrorMapViews'];
+  splatErrorMapLayout: UIState['splatErrorMapLayout'];
+  setShowSplatErrorMaps: UIState['setShowSplatErrorMaps'];
+  toggleSplatErrorMapView: UIState['toggleSplatErrorMapView'];
+  setSplatErrorMapLayout: UIState['setSplatErrorMapLayout'];
+}
+
+/** Loaded splat and the transforms the metric renders it with; error maps need the WebGPU metric path. */
+export interface ImageDetailSplatFacade {
+  splatFile: File | null;
+  errorMapsAvailable: boolean;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+}
+
+/** Loaded database.db state; summary and pairIndex are null until a database is ready. */
+export interface ImageDetailDatabaseFacade {
+  summary: ColmapDatabaseState['summary'];
+  pairIndex: ColmapDatabaseState['pairIndex'];
+  keypoints: ColmapDatabaseState['keypoints'];
+  pairMatches: ColmapDatabaseState['pairMatches'];
+  requestKeypoints: ColmapDatabaseState['requestKeypoints'];
+  requestPairMatches: ColmapDatabaseState['requestPairMatches'];
+}
+
+/** Ground control points; image clicks record observations only while GCP picking is on. */
+export interface ImageDetailGcpFacade {
+  isPicking: boolean;
+  gcps: GcpState['gcps'];
+  activeGcpId: GcpState['activeGcpId'];
+  addObservation: GcpState['addObservation'];
 }
 
 export interface ImageDetailStoreFacade {
   data: ImageDetailDataFacade;
   ui: ImageDetailUiFacade;
+  database: ImageDetailDatabaseFacade;
+  gcp: ImageDetailGcpFacade;
+  splat: ImageDetailSplatFacade;
 }
 
 export function useImageDetailStoreFacade(): ImageDetailStoreFacade {
@@ -44,11 +96,39 @@ export function useImageDetailStoreFacade(): ImageDetailStoreFacade {
   const setShowPoints3D = useUIStore((s) => s.setShowPoints3D);
   const showMatchesInModal = useUIStore((s) => s.showMatchesInModal);
   const setShowMatchesInModal = useUIStore((s) => s.setShowMatchesInModal);
+  const showReprojectionErrors = useUIStore((s) => s.showReprojectionErrors);
+  const setShowReprojectionErrors = useUIStore((s) => s.setShowReprojectionErrors);
   const matchedImageId = useUIStore((s) => s.matchedImageId);
   const setMatchedImageId = useUIStore((s) => s.setMatchedImageId);
+  const matchesSource = useUIStore((s) => s.matchesSource);
+  const setMatchesSource = useUIStore((s) => s.setMatchesSource);
+  const showSplatErrorMaps = useUIStore((s) => s.showSplatErrorMaps);
+  const setShowSplatErrorMaps = useUIStore((s) => s.setShowSplatErrorMaps);
+  const splatErrorMapViews = useUIStore((s) => s.splatErrorMapViews);
+  const toggleSplatErrorMapView = useUIStore((s) => s.toggleSplatErrorMapView);
+  const splatErrorMapLayout = useUIStore((s) => s.splatErrorMapLayout);
+  const setSplatErrorMapLayout = useUIStore((s) => s.setSplatErrorMapLayout);
   const touchMode = useUIStore((s) => s.touchMode);
   const showModalControls = useUIStore((s) => s.touchUI.modalControls);
 
+  const databaseReady = useColmapDatabaseStore((s) => s.status === 'ready');
+  const databaseSummary = useColmapDatabaseStore((s) => s.summary);
+  const databasePairIndex = useColmapDatabaseStore((s) => s.pairIndex);
+  const databaseKeypoints = useColmapDatabaseStore((s) => s.keypoints);
+  const databasePairMatches = useColmapDatabaseStore((s) => s.pairMatches);
+  const requestKeypoints = useColmapDatabaseStore((s) => s.requestKeypoints);
+  const requestPairMatches = useColmapDatabaseStore((s) => s.requestPairMatches);
+
+  const isGcpPicking = usePointPickingStore((s) => s.pickingMode === 'gcp');
+  const gcps = useGcpStore((s) => s.gcps);
+  const activeGcpId = useGcpStore((s) => s.activeGcpId);
+  const addObservation = useGcpStore((s) => s.addObservation);
+
+  const splatFile = useReconstructionStore((s) => s.loadedFiles?.splatFile ?? null);
+  const splatErrorMapsAvailable = useSplatBackendStore((s) => s.metricCapability.gpuPsnr);
+  const transform = useTransformStore((s) => s.transform);
+  const splatTransform = useTransformStore((s) => s.splatTransform);
+
   return {
     data: {
       dataset,
@@ -60,7 +140,9 @@ export function useImageDetailStoreFacade(): ImageDetailStoreFacade {
       showPoints2D,
       showPoints3D,
       showMatchesInModal,
+      showReprojectionErrors,
       matchedImageId,
+      matchesSource,
       touchMode,
       showModalControls,
       openImageDetail,
@@ -68,7 +150,35 @@ export function useImageDetailStoreFacade(): ImageDetailStoreFacade {
       setShowPoints2D,
       setShowPoints3D,
       setShowMatchesInModal,
+      setShowReprojectionErrors,
       setMatchedImageId,
+      setMatchesSource,
+      showSplatErrorMaps,
+      splatErrorMapViews,
+      splatErrorMapLayout,
+      setShowSplatErrorMaps,
+      toggleSplatErrorMapView,
+      setSplatErrorMapLayout,
+    },
+    database: {
+      summary: databaseReady ? databaseSummary : null,
+      pairIndex: databaseReady ? databasePairIndex : null,
+      keypoints: databaseKeypoints,
+      pairMatches: databasePairMatches,
+      requestKeypoints,
+      requestPairMatches,
+    },
+    gcp: {
+      isPicking: isGcpPicking,
+      gcps,
+      activeGcpId,
+      addObservation,
+    },
+    splat: {
+      splatFile,
+      errorMapsAvailable: splatErrorMapsAvailable,
+      transform,
+      splatTransform,
     },
   };
 }
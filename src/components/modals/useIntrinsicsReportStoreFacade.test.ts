@@ -0,0 +1,26 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraStore, useReconstructionStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useIntrinsicsReportStoreFacade } from './useIntrinsicsReportStoreFacade';
+
+describe('useIntrinsicsReportStoreFacade', () => {
+  beforeEach(() => {
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+  });
+
+  it('exposes the loaded reconstruction and routes image selection to the camera store', () => {
+    const reconstruction = buildReconstruction();
+    useReconstructionStore.setState({ reconstruction });
+    const { result } = renderHook(() => useIntrinsicsReportStoreFacade());
+
+    expect(result.current.data).toEqual({ reconstruction, wasmReconstruction: null });
+
+    act(() => {
+      result.current.selection.setSelectedImageId(3);
+      result.current.selection.flyToImage(3);
+    });
+    expect(useCameraStore.getState()).toMatchObject({ selectedImageId: 3, flyToImageId: 3 });
+  });
+});
@@ -0,0 +1,36 @@
+import { useCameraStore, useReconstructionStore, type CameraState } from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+import type { WasmReconstructionWrapper } from '../../wasm/reconstruction';
+
+interface IntrinsicsReportDataFacade {
+  reconstruction: Reconstruction | null;
+  wasmReconstruction: WasmReconstructionWrapper | null;
+}
+
+interface IntrinsicsReportSelectionFacade {
+  setSelectedImageId: CameraState['setSelectedImageId'];
+  flyToImage: CameraState['flyToImage'];
+}
+
+export interface IntrinsicsReportStoreFacade {
+  data: IntrinsicsReportDataFacade;
+  selection: IntrinsicsReportSelectionFacade;
+}
+
+export function useIntrinsicsReportStoreFacade(): IntrinsicsReportStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const wasmReconstruction = useReconstructionStore((s) => s.wasmReconstruction);
+  const setSelectedImageId = useCameraStore((s) => s.setSelectedImageId);
+  const flyToImage = useCameraStore((s) => s.flyToImage);
+
+  return {
+    data: {
+      reconstruction,
+      wasmReconstruction,
+    },
+    selection: {
+      setSelectedImageId,
+      flyToImage,
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useMeasurementStore, usePointPickingStore, useReconstructionStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useMeasurementStoreFacade } from './useMeasurementStoreFacade';
+
+describe('useMeasurementStoreFacade', () => {
+  beforeEach(() => {
+    useMeasurementStore.setState(useMeasurementStore.getInitialState(), true);
+    usePointPickingStore.setState(usePointPickingStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+  });
+
+  it('collects the reconstruction, measurements and picking state', () => {
+    const reconstruction = buildReconstruction();
+    useReconstructionStore.setState({ reconstruction });
+    usePointPickingStore.setState({ pickingMode: 'measure' });
+    useMeasurementStore.getState().addMeasurementPoint([0, 0, 0]);
+    useMeasurementStore.getState().addMeasurementPoint([1, 0, 0]);
+
+    const { result } = renderHook(() => useMeasurementStoreFacade());
+
+    expect(result.current.data).toMatchObject({ reconstruction, tool: 'distance', isPicking: true, showLabels: true });
+    expect(result.current.data.measurements).toHaveLength(1);
+  });
+
+  it('routes measurement and picking actions to the owning stores', () => {
+    const { result } = renderHook(() => useMeasurementStoreFacade());
+
+    act(() => {
+      result.current.actions.setMeasurementTool('area');
+      result.current.actions.setShowLabels(false);
+      result.current.actions.setPickingMode('measure');
+    });
+    expect(useMeasurementStore.getState()).toMatchObject({ tool: 'area', showLabels: false });
+    expect(usePointPickingStore.getState().pickingMode).toBe('measure');
+
+    act(() => {
+      useMeasurementStore.getState().addMeasurementPoint([0, 0, 0]);
+      result.current.actions.cancelMeasurement();
+    });
+    expect(useMeasurementStore.getState().draftPoints).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  useFloorPlaneStore,
+  useMeasurementStore,
+  usePointPickingStore,
+  useReconstructionStore,
+  useTransformStore,
+  type FloorPlaneState,
+  type MeasurementState,
+  type PointPickingState,
+  type TransformState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface MeasurementDataFacade {
+  reconstruction: Reconstruction | null;
+  measurements: MeasurementState['measurements'];
+  tool: MeasurementState['tool'];
+  draftPoints: MeasurementState['draftPoints'];
+  showLabels: MeasurementState['showLabels'];
+  transform: TransformState['transform'];
+  detectedPlane: FloorPlaneState['detectedPlane'];
+  normalFlipped: FloorPlaneState['normalFlipped'];
+  isPicking: boolean;
+}
+
+interface MeasurementActionsFacade {
+  setMeasurementTool: MeasurementState['setMeasurementTool'];
+  finishMeasurement: MeasurementState['finishMeasurement'];
+  removeLastMeasurementPoint: MeasurementState['removeLastMeasurementPoint'];
+  cancelMeasurement: MeasurementState['cancelMeasurement'];
+  renameMeasurement: MeasurementState['renameMeasurement'];
+  removeMeasurement: MeasurementState['removeMeasurement'];
+  setShowLabels: MeasurementState['setShowLabels'];
+  clearMeasurements: MeasurementState['clearMeasurements'];
+  setPickingMode: PointPickingState['setPickingMode'];
+}
+
+export interface MeasurementStoreFacade {
+  data: MeasurementDataFacade;
+  actions: MeasurementActionsFacade;
+}
+
+export function useMeasurementStoreFacade(): MeasurementStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const measurements = useMeasurementStore((s) => s.measurements);
+  const tool = useMeasurementStore((s) => s.tool);
+  const draftPoints = useMeasurementStore((s) => s.draftPoints);
+  const showLabels = useMeasurementStore((s) => s.showLabels);
+  const transform = useTransformStore((s) => s.transform);
+  const detectedPlane = useFloorPlaneStore((s) => s.detectedPlane);
+  const normalFlipped = useFloorPlaneStore((s) => s.normalFlipped);
+  const isPicking = usePointPickingStore((s) => s.pickingMode === 'measure');
+  const setMeasurementTool = useMeasurementStore((s) => s.setMeasurementTool);
+  const finishMeasurement = useMeasurementStore((s) => s.finishMeasurement);
+  const removeLastMeasurementPoint = useMeasurementStore((s) => s.removeLastMeasurementPoint);
+  const cancelMeasurement = useMeasurementStore((s) => s.cancelMeasurement);
+  const renameMeasurement = useMeasurementStore((s) => s.renameMeasurement);
+  const removeMeasurement = useMeasurementStore((s) => s.removeMeasurement);
+  const setShowLabels = useMeasurementStore((s) => s.setShowLabels);
+  const clearMeasurements = useMeasurementStore((s) => s.clearMeasurements);
+  const setPickingMode = usePointPickingStore((s) => s.setPickingMode);
+
+  return {
+    data: {
+      reconstruction,
+      measurements,
+      tool,
+      draftPoints,
+      showLabels,
+      transform,
+      detectedPlane,
+      normalFlipped,
+      isPicking,
+    },
+    actions: {
+      setMeasurementTool,
+      finishMeasurement,
+      removeLastMeasurementPoint,
+      cancelMeasurement,
+      renameMeasurement,
+      removeMeasurement,
+      setShowLabels,
+      clearMeasurements,
+      setPickingMode,
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraStore, usePointEditStore, useReconstructionStore } from '../../store';
+import { buildImage, buildPoint2D, buildPoint3D, buildReconstruction } from '../../test/builders';
+import { usePointEditStoreFacade } from './usePointEditStoreFacade';
+
+describe('usePointEditStoreFacade', () => {
+  beforeEach(() => {
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    usePointEditStore.getState().reset();
+  });
+
+  it('exposes the edit state and routes deletion and undo through the store actions', () => {
+    const reconstruction = buildReconstruction({
+      images: [buildImage({ imageId: 1, points2D: [buildPoint2D({ point3DId: 4n })] })],
+      points3D: [buildPoint3D({ point3DId: 4n, track: [{ imageId: 1, point2DIdx: 0 }] })],
+    });
+    useReconstructionStore.setState({ reconstruction });
+    useCameraStore.setState({ selectedImageId: 1 });
+    const { result } = renderHook(() => usePointEditStoreFacade());
+
+    expect(result.current.data).toMatchObject({ reconstruction, selectedImageId: 1, tool: 'off' });
+
+    act(() => {
+      result.current.actions.setTool('box');
+      usePointEditStore.getState().resolveSelection(new Set([4n]), 'replace');
+    });
+    expect(result.current.data.tool).toBe('box');
+    expect(result.current.data.selectedPointIds.size).toBe(1);
+
+    act(() => {
+      result.current.actions.deleteSelectedPoints();
+    });
+    expect(result.current.data.reconstruction?.points3D?.size).toBe(0);
+    expect(result.current.data.undoStack).toHaveLength(1);
+
+    act(() => {
+      result.current.actions.undoPointDeletion();
+    });
+    expect(result.current.data.reconstruction).toBe(reconstruction);
+  });
+});
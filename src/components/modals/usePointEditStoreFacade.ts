@@ -0,0 +1,58 @@
+import {
+  deleteSelectedPoints,
+  undoPointDeletion,
+  useCameraStore,
+  usePointEditStore,
+  useReconstructionStore,
+  type PointEditState,
+} from '../../store';
+import type { ImageId, Reconstruction } from '../../types/colmap';
+
+interface PointEditDataFacade {
+  reconstruction: Reconstruction | null;
+  selectedImageId: ImageId | null;
+  tool: PointEditState['tool'];
+  selectedPointIds: PointEditState['selectedPointIds'];
+  undoStack: PointEditState['undoStack'];
+}
+
+interface PointEditActionsFacade {
+  setTool: PointEditState['setTool'];
+  requestSelection: PointEditState['requestSelection'];
+  clearSelection: PointEditState['clearSelection'];
+  deleteSelectedPoints: typeof deleteSelectedPoints;
+  undoPointDeletion: typeof undoPointDeletion;
+}
+
+export interface PointEditStoreFacade {
+  data: PointEditDataFacade;
+  actions: PointEditActionsFacade;
+}
+
+export function usePointEditStoreFacade(): PointEditStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const selectedImageId = useCameraStore((s) => s.selectedImageId);
+  const tool = usePointEditStore((s) => s.tool);
+  const selectedPointIds = usePointEditStore((s) => s.selectedPointIds);
+  const undoStack = usePointEditStore((s) => s.undoStack);
+  const setTool = usePointEditStore((s) => s.setTool);
+  const requestSelection = usePointEditStore((s) => s.requestSelection);
+  const clearSelection = usePointEditStore((s) => s.clearSelection);
+
+  return {
+    data: {
+      reconstruction,
+      selectedImageId,
+      tool,
+      selectedPointIds,
+      undoStack,
+    },
+    actions: {
+      setTool,
+      requestSelection,
+      clearSelection,
+      deleteSelectedPoints,
+      undoPointDeletion,
+    },
+  };
+}
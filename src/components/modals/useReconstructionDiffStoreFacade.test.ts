@@ -0,0 +1,46 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraStore, useReconstructionDiffStore, useReconstructionStore } from '../../store';
+import { buildImage, buildReconstruction } from '../../test/builders';
+import { useReconstructionDiffStoreFacade } from './useReconstructionDiffStoreFacade';
+
+describe('useReconstructionDiffStoreFacade', () => {
+  beforeEach(() => {
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useReconstructionDiffStore.setState(useReconstructionDiffStore.getInitialState(), true);
+  });
+
+  it('collects the reference reconstruction and compare model state', () => {
+    const reconstruction = buildReconstruction();
+    const compareImages = new Map([[1, buildImage()]]);
+    useReconstructionStore.setState({ reconstruction });
+    useReconstructionDiffStore.setState({ status: 'ready', compareLabel: 'sparse/1/images.bin', compareImages });
+
+    const { result } = renderHook(() => useReconstructionDiffStoreFacade());
+
+    expect(result.current.data).toMatchObject({
+      reconstruction,
+      status: 'ready',
+      compareLabel: 'sparse/1/images.bin',
+      compareImages,
+      showDiffOverlay: true,
+    });
+  });
+
+  it('routes overlay, clear and selection actions to the owning stores', () => {
+    useReconstructionDiffStore.setState({ status: 'ready', compareImages: new Map() });
+    const { result } = renderHook(() => useReconstructionDiffStoreFacade());
+
+    act(() => {
+      result.current.actions.setShowDiffOverlay(false);
+      result.current.selection.setSelectedImageId(3);
+      result.current.selection.flyToImage(3);
+    });
+    expect(useReconstructionDiffStore.getState().showDiffOverlay).toBe(false);
+    expect(useCameraStore.getState()).toMatchObject({ selectedImageId: 3, flyToImageId: 3 });
+
+    act(() => result.current.actions.clearCompare());
+    expect(useReconstructionDiffStore.getState()).toMatchObject({ status: 'idle', compareImages: null });
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  useCameraStore,
+  useReconstructionDiffStore,
+  useReconstructionStore,
+  type CameraState,
+  type ReconstructionDiffState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface ReconstructionDiffDataFacade {
+  reconstruction: Reconstruction | null;
+  status: ReconstructionDiffState['status'];
+  compareLabel: ReconstructionDiffState['compareLabel'];
+  compareImages: ReconstructionDiffState['compareImages'];
+  error: ReconstructionDiffState['error'];
+  showDiffOverlay: boolean;
+}
+
+interface ReconstructionDiffActionsFacade {
+  loadCompareFiles: ReconstructionDiffState['loadCompareFiles'];
+  setShowDiffOverlay: ReconstructionDiffState['setShowDiffOverlay'];
+  clearCompare: ReconstructionDiffState['clearCompare'];
+}
+
+interface ReconstructionDiffSelectionFacade {
+  setSelectedImageId: CameraState['setSelectedImageId'];
+  flyToImage: CameraState['flyToImage'];
+}
+
+export interface ReconstructionDiffStoreFacade {
+  data: ReconstructionDiffDataFacade;
+  actions: ReconstructionDiffActionsFacade;
+  selection: ReconstructionDiffSelectionFacade;
+}
+
+export function useReconstructionDiffStoreFacade(): ReconstructionDiffStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const status = useReconstructionDiffStore((s) => s.status);
+  const compareLabel = useReconstructionDiffStore((s) => s.compareLabel);
+  const compareImages = useReconstructionDiffStore((s) => s.compareImages);
+  const error = useReconstructionDiffStore((s) => s.error);
+  const showDiffOverlay = useReconstructionDiffStore((s) => s.showDiffOverlay);
+  const loadCompareFiles = useReconstructionDiffStore((s) => s.loadCompareFiles);
+  const setShowDiffOverlay = useReconstructionDiffStore((s) => s.setShowDiffOverlay);
+  const clearCompare = useReconstructionDiffStore((s) => s.clearCompare);
+  const setSelectedImageId = useCameraStore((s) => s.setSelectedImageId);
+  const flyToImage = useCameraStore((s) => s.flyToImage);
+
+  return {
+    data: {
+      reconstruction,
+      status,
+      compareLabel,
+      compareImages,
+      error,
+      showDiffOverlay,
+    },
+    actions: {
+      loadCompareFiles,
+      setShowDiffOverlay,
+      clearCompare,
+    },
+    selection: {
+      setSelectedImageId,
+      flyToImage,
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraStore, useReconstructionStore, useReferenceAlignmentStore, useTransformStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useReferenceAlignmentStoreFacade } from './useReferenceAlignmentStoreFacade';
+
+describe('useReferenceAlignmentStoreFacade', () => {
+  beforeEach(() => {
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useReferenceAlignmentStore.setState(useReferenceAlignmentStore.getInitialState(), true);
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+  });
+
+  it('collects the reconstruction and reference file state', () => {
+    const reconstruction = buildReconstruction();
+    const poses = { format: 'csv' as const, entries: [], skippedLineCount: 0 };
+    useReconstructionStore.setState({ reconstruction });
+    useReferenceAlignmentStore.setState({ status: 'ready', fileLabel: 'gps.csv', poses });
+
+    const { result } = renderHook(() => useReferenceAlignmentStoreFacade());
+
+    expect(result.current.data).toMatchObject({
+      reconstruction,
+      status: 'ready',
+      fileLabel: 'gps.csv',
+      poses,
+      alignment: null,
+      showResiduals: true,
+    });
+  });
+
+  it('routes residual, transform, clear and selection actions to the owning stores', () => {
+    useReferenceAlignmentStore.setState({ status: 'ready', fileLabel: 'gps.csv' });
+    const { result } = renderHook(() => useReferenceAlignmentStoreFacade());
+
+    act(() => {
+      result.current.actions.setShowResiduals(false);
+      result.current.actions.setTransform({ scale: 4 });
+      result.current.selection.setSelectedImageId(2);
+      result.current.selection.flyToImage(2);
+    });
+    expect(useReferenceAlignmentStore.getState().showResiduals).toBe(false);
+    expect(useTransformStore.getState().transform.scale).toBe(4);
+    expect(useCameraStore.getState()).toMatchObject({ selectedImageId: 2, flyToImageId: 2 });
+
+    act(() => result.current.actions.clearReference());
+    expect(useReferenceAlignmentStore.getState()).toMatchObject({ status: 'idle', fileLabel: null });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  useCameraStore,
+  useReconstructionStore,
+  useReferenceAlignmentStore,
+  useTransformStore,
+  type CameraState,
+  type ReferenceAlignmentState,
+  type TransformState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface ReferenceAlignmentDataFacade {
+  reconstruction: Reconstruction | null;
+  status: ReferenceAlignmentState['status'];
+  fileLabel: ReferenceAlignmentState['fileLabel'];
+  poses: ReferenceAlignmentState['poses'];
+  error: ReferenceAlignmentState['error'];
+  alignment: ReferenceAlignmentState['alignment'];
+  alignedReconstruction: ReferenceAlignmentState['alignedReconstruction'];
+  showResiduals: boolean;
+}
+
+interface ReferenceAlignmentActionsFacade {
+  loadReferenceFile: ReferenceAlignmentState['loadReferenceFile'];
+  setAlignment: ReferenceAlignmentState['setAlignment'];
+  setShowResiduals: ReferenceAlignmentState['setShowResiduals'];
+  clearReference: ReferenceAlignmentState['clearReference'];
+  setTransform: TransformState['setTransform'];
+}
+
+interface ReferenceAlignmentSelectionFacade {
+  setSelectedImageId: CameraState['setSelectedImageId'];
+  flyToImage: CameraState['flyToImage'];
+}
+
+export interface ReferenceAlignmentStoreFacade {
+  data: ReferenceAlignmentDataFacade;
+  actions: ReferenceAlignmentActionsFacade;
+  selection: ReferenceAlignmentSelectionFacade;
+}
+
+export function useReferenceAlignmentStoreFacade(): ReferenceAlignmentStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const status = useReferenceAlignmentStore((s) => s.status);
+  const fileLabel = useReferenceAlignmentStore((s) => s.fileLabel);
+  const poses = useReferenceAlignmentStore((s) => s.poses);
+  const error = useReferenceAlignmentStore((s) => s.error);
+  const alignment = useReferenceAlignmentStore((s) => s.alignment);
+  const alignedReconstruction = useReferenceAlignmentStore((s) => s.alignedReconstruction);
+  const showResiduals = useReferenceAlignmentStore((s) => s.showResiduals);
+  const loadReferenceFile = useReferenceAlignmentStore((s) => s.loadReferenceFile);
+  const setAlignment = useReferenceAlignmentStore((s) => s.setAlignment);
+  const setShowResiduals = useReferenceAlignmentStore((s) => s.setShowResiduals);
+  const clearReference = useReferenceAlignmentStore((s) => s.clearReference);
+  const setTransform = useTransformStore((s) => s.setTransform);
+  const setSelectedImageId = useCameraStore((s) => s.setSelectedImageId);
+  const flyToImage = useCameraStore((s) => s.flyToImage);
+
+  return {
+    data: {
+      reconstruction,
+      status,
+      fileLabel,
+      poses,
+      error,
+      alignment,
+      alignedReconstruction,
+      showResiduals,
+    },
+    actions: {
+      loadReferenceFile,
+      setAlignment,
+      setShowResiduals,
+      clearReference,
+      setTransform,
+    },
+    selection: {
+      setSelectedImageId,
+      flyToImage,
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useReconstructionStore, useSplatComparisonStore } from '../../store';
+import { useSplatCompareStoreFacade } from './useSplatCompareStoreFacade';
+
+describe('useSplatCompareStoreFacade', () => {
+  const activeFile = new File(['a'], 'a.spz');
+
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useSplatComparisonStore.getState().reset();
+  });
+
+  it('exposes the active source, the catalog and the comparison state', async () => {
+    const sources = [
+      { id: 'a.spz', path: 'a.spz', file: activeFile },
+      { id: 'b.spz', path: 'b.spz', file: new File(['b'], 'b.spz') },
+    ];
+    useReconstructionStore.setState({
+      loadedFiles: { imageFiles: new Map(), hasMasks: false, splatFile: activeFile, splatFileSources: sources },
+    });
+
+    const { result } = renderHook(() => useSplatCompareStoreFacade());
+    expect(result.current.data.activeSplatSourceId).toBe('a.spz');
+    expect(result.current.data.splatFileSources).toBe(sources);
+
+    await act(async () => {
+      await result.current.actions.selectSplatComparisonSource('b.spz');
+    });
+    act(() => {
+      result.current.actions.setLayout('swipe');
+      result.current.actions.requestCompute();
+    });
+
+    expect(result.current.data).toMatchObject({ sourceId: 'b.spz', status: 'ready', layout: 'swipe' });
+    expect(useSplatComparisonStore.getState().computeRequest).toEqual({ id: 1 });
+
+    act(() => {
+      result.current.actions.clearSplatComparison();
+    });
+    expect(result.current.data.sourceId).toBeNull();
+  });
+});
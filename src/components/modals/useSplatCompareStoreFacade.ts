@@ -0,0 +1,85 @@
+import {
+  clearSplatComparison,
+  selectSplatComparisonSource,
+  useImageMetricsStore,
+  useReconstructionStore,
+  useSplatBackendStore,
+  useSplatComparisonStore,
+  type ImageMetricsState,
+  type SplatComparisonState,
+} from '../../store';
+import type { SplatFileSource } from '../../types/colmap';
+import { getActiveSplatSourceId } from '../../utils/splatFileSourcePolicy';
+
+const NO_SPLAT_SOURCES: SplatFileSource[] = [];
+
+interface SplatCompareDataFacade {
+  activeSplatSourceId: string | null;
+  splatFileSources: SplatFileSource[];
+  /** Comparison metrics need the WebGPU metric session; the CPU fallback measures at reduced size. */
+  gpuPsnr: boolean;
+  splatPsnrMetrics: ImageMetricsState['splatPsnrMetrics'];
+  splatPsnrComputing: ImageMetricsState['splatPsnrComputing'];
+  sourceId: SplatComparisonState['sourceId'];
+  status: SplatComparisonState['status'];
+  error: SplatComparisonState['error'];
+  layout: SplatComparisonState['layout'];
+  metrics: SplatComparisonState['metrics'];
+  metricErrors: SplatComparisonState['metricErrors'];
+  computing: SplatComparisonState['computing'];
+}
+
+interface SplatCompareActionsFacade {
+  selectSplatComparisonSource: typeof selectSplatComparisonSource;
+  clearSplatComparison: typeof clearSplatComparison;
+  setLayout: SplatComparisonState['setLayout'];
+  requestCompute: SplatComparisonState['requestCompute'];
+  requestSplatPsnrCompute: ImageMetricsState['requestSplatPsnrCompute'];
+}
+
+export interface SplatCompareStoreFacade {
+  data: SplatCompareDataFacade;
+  actions: SplatCompareActionsFacade;
+}
+
+export function useSplatCompareStoreFacade(): SplatCompareStoreFacade {
+  const activeSplatSourceId = useReconstructionStore((s) => getActiveSplatSourceId(s.loadedFiles));
+  const splatFileSources = useReconstructionStore((s) => s.loadedFiles?.splatFileSources ?? NO_SPLAT_SOURCES);
+  const gpuPsnr = useSplatBackendStore((s) => s.metricCapability.gpuPsnr);
+  const splatPsnrMetrics = useImageMetricsStore((s) => s.splatPsnrMetrics);
+  const splatPsnrComputing = useImageMetricsStore((s) => s.splatPsnrComputing);
+  const requestSplatPsnrCompute = useImageMetricsStore((s) => s.requestSplatPsnrCompute);
+  const sourceId = useSplatComparisonStore((s) => s.sourceId);
+  const status = useSplatComparisonStore((s) => s.status);
+  const error = useSplatComparisonStore((s) => s.error);
+  const layout = useSplatComparisonStore((s) => s.layout);
+  const metrics = useSplatComparisonStore((s) => s.metrics);
+  const metricErrors = useSplatComparisonStore((s) => s.metricErrors);
+  const computing = useSplatComparisonStore((s) => s.computing);
+  const setLayout = useSplatComparisonStore((s) => s.setLayout);
+  const requestCompute = useSplatComparisonStore((s) => s.requestCompute);
+
+  return {
+    data: {
+      activeSplatSourceId,
+      splatFileSources,
+      gpuPsnr,
+      splatPsnrMetrics,
+      splatPsnrComputing,
+      sourceId,
+      status,
+      error,
+      layout,
+      metrics,
+      metricErrors,
+      computing,
+    },
+    actions: {
+      selectSplatComparisonSource,
+      clearSplatComparison,
+      setLayout,
+      requestCompute,
+      requestSplatPsnrCompute,
+    },
+  };
+}
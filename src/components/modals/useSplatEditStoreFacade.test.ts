@@ -0,0 +1,50 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useReconstructionStore, useSplatEditStore } from '../../store';
+import { useSplatEditStoreFacade } from './useSplatEditStoreFacade';
+
+describe('useSplatEditStoreFacade', () => {
+  const originalFile = new File(['a'], 'scene.spz');
+  const editedFile = new File(['b'], 'scene-edited.spz');
+
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useSplatEditStore.getState().reset();
+  });
+
+  it('edits from the original while an applied edit is shown', () => {
+    useReconstructionStore.setState({
+      loadedFiles: { imageFiles: new Map(), hasMasks: false, splatFile: editedFile },
+    });
+    useSplatEditStore.getState().setAppliedEdit({ originalFile, editedFile });
+
+    const { result } = renderHook(() => useSplatEditStoreFacade());
+
+    expect(result.current.data.sourceFile).toBe(originalFile);
+    expect(result.current.data.isEditApplied).toBe(true);
+  });
+
+  it('falls back to the active splat once another file is shown', () => {
+    useReconstructionStore.setState({
+      loadedFiles: { imageFiles: new Map(), hasMasks: false, splatFile: originalFile },
+    });
+    useSplatEditStore.getState().setAppliedEdit({ originalFile, editedFile });
+
+    const { result } = renderHook(() => useSplatEditStoreFacade());
+
+    expect(result.current.data.sourceFile).toBe(originalFile);
+    expect(result.current.data.isEditApplied).toBe(false);
+  });
+
+  it('routes setting changes to the splat edit store', () => {
+    const { result } = renderHook(() => useSplatEditStoreFacade());
+
+    act(() => {
+      result.current.actions.setMinOpacity(0.25);
+      result.current.actions.setExportFormat('ply');
+    });
+
+    expect(result.current.data.minOpacity).toBe(0.25);
+    expect(useSplatEditStore.getState().exportFormat).toBe('ply');
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  applySplatEditToView,
+  buildEditedSplatExport,
+  getSplatEditSourceFile,
+  loadSplatEditSourceCloud,
+  revertSplatEdit,
+  useNotificationStore,
+  useReconstructionStore,
+  useSplatEditStore,
+  useTransformStore,
+  type NotificationState,
+  type SplatEditState,
+  type TransformState,
+} from '../../store';
+
+interface SplatEditDataFacade {
+  /** The unedited splat edits are computed from, or null when none is loaded. */
+  sourceFile: File | null;
+  /** True while the view shows an applied edit rather than the original. */
+  isEditApplied: boolean;
+  cropEnabled: SplatEditState['cropEnabled'];
+  cropMode: SplatEditState['cropMode'];
+  cropBox: SplatEditState['cropBox'];
+  minOpacity: SplatEditState['minOpacity'];
+  maxScale: SplatEditState['maxScale'];
+  exportFormat: SplatEditState['exportFormat'];
+  transform: TransformState['transform'];
+  splatTransform: TransformState['splatTransform'];
+}
+
+interface SplatEditActionsFacade {
+  setCropEnabled: SplatEditState['setCropEnabled'];
+  setCropMode: SplatEditState['setCropMode'];
+  setCropBox: SplatEditState['setCropBox'];
+  setMinOpacity: SplatEditState['setMinOpacity'];
+  setMaxScale: SplatEditState['setMaxScale'];
+  setExportFormat: SplatEditState['setExportFormat'];
+  loadSplatEditSourceCloud: typeof loadSplatEditSourceCloud;
+  applySplatEditToView: typeof applySplatEditToView;
+  revertSplatEdit: typeof revertSplatEdit;
+  buildEditedSplatExport: typeof buildEditedSplatExport;
+  addNotification: NotificationState['addNotification'];
+}
+
+export interface SplatEditStoreFacade {
+  data: SplatEditDataFacade;
+  actions: SplatEditActionsFacade;
+}
+
+export function useSplatEditStoreFacade(): SplatEditStoreFacade {
+  const activeSplatFile = useReconstructionStore((s) => s.loadedFiles?.splatFile ?? null);
+  const appliedEdit = useSplatEditStore((s) => s.appliedEdit);
+  const cropEnabled = useSplatEditStore((s) => s.cropEnabled);
+  const cropMode = useSplatEditStore((s) => s.cropMode);
+  const cropBox = useSplatEditStore((s) => s.cropBox);
+  const minOpacity = useSplatEditStore((s) => s.minOpacity);
+  const maxScale = useSplatEditStore((s) => s.maxScale);
+  const exportFormat = useSplatEditStore((s) => s.exportFormat);
+  const setCropEnabled = useSplatEditStore((s) => s.setCropEnabled);
+  const setCropMode = useSplatEditStore((s) => s.setCropMode);
+  const setCropBox = useSplatEditStore((s) => s.setCropBox);
+  const setMinOpacity = useSplatEditStore((s) => s.setMinOpacity);
+  const setMaxScale = useSplatEditStore((s) => s.setMaxScale);
+  const setExportFormat = useSplatEditStore((s) => s.setExportFormat);
+  const transform = useTransformStore((s) => s.transform);
+  const splatTransform = useTransformStore((s) => s.splatTransform);
+  const addNotification = useNotificationStore((s) => s.addNotification);
+
+  return {
+    data: {
+      sourceFile: getSplatEditSourceFile(appliedEdit, activeSplatFile),
+      isEditApplied: appliedEdit !== null && appliedEdit.editedFile === activeSplatFile,
+      cropEnabled,
+      cropMode,
+      cropBox,
+      minOpacity,
+      maxScale,
+      exportFormat,
+      transform,
+      splatTransform,
+    },
+    actions: {
+      setCropEnabled,
+      setCropMode,
+      setCropBox,
+      setMinOpacity,
+      setMaxScale,
+      setExportFormat,
+      loadSplatEditSourceCloud,
+      applySplatEditToView,
+      revertSplatEdit,
+      buildEditedSplatExport,
+      addNotification,
+    },
+  };
+}
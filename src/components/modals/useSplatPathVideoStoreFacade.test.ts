@@ -0,0 +1,42 @@
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraPathStore, useCameraStore, useReconstructionStore, useSplatBackendStore } from '../../store';
+import type { CameraViewState } from '../../store/types';
+import { buildLoadedFiles, buildReconstruction } from '../../test/builders';
+import { useSplatPathVideoStoreFacade } from './useSplatPathVideoStoreFacade';
+
+describe('useSplatPathVideoStoreFacade', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useSplatBackendStore.setState(useSplatBackendStore.getInitialState(), true);
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
+  });
+
+  it('exposes the active splat and whether the WebGPU renderer can draw it', () => {
+    const splatFile = new File(['a'], 'a.spz');
+    const reconstruction = buildReconstruction();
+    useReconstructionStore.setState({ reconstruction, loadedFiles: buildLoadedFiles({ splatFile }) });
+
+    const { result, rerender } = renderHook(() => useSplatPathVideoStoreFacade());
+    expect(result.current.data).toMatchObject({ reconstruction, splatFile, gpuRender: false });
+
+    useSplatBackendStore.getState().setRequestedBackend('webgpu');
+    useSplatBackendStore.getState().setWebGpuBackendState('ready');
+    useSplatBackendStore.getState().setWebGpuMetricState('ready');
+    rerender();
+
+    expect(result.current.data.gpuRender).toBe(true);
+  });
+
+  it('exposes the authored camera path and the field of view it was recorded with', () => {
+    const view: CameraViewState = { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5 };
+    useCameraPathStore.getState().addKeyframe(view);
+    useCameraStore.getState().setCameraFov(45);
+
+    const { result } = renderHook(() => useSplatPathVideoStoreFacade());
+
+    expect(result.current.data.cameraPathKeyframes).toMatchObject([{ view }]);
+    expect(result.current.data.cameraFov).toBe(45);
+  });
+});
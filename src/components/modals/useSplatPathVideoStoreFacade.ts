@@ -0,0 +1,60 @@
+import {
+  useCameraPathStore,
+  useCameraStore,
+  useNotificationStore,
+  useReconstructionStore,
+  useSplatBackendStore,
+  useTransformStore,
+  type NotificationState,
+} from '../../store';
+import type { CameraPathKeyframe } from '../../store/types';
+import type { Reconstruction } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+
+interface SplatPathVideoDataFacade {
+  reconstruction: Reconstruction | null;
+  splatFile: File | null;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+  /** Frames come from the WebGPU splat renderer, which Spark does not provide. */
+  gpuRender: boolean;
+  /** The keyframe camera path authored in the viewer, offered as a pose source. */
+  cameraPathKeyframes: CameraPathKeyframe[];
+  /** Vertical field of view the camera path was authored with. */
+  cameraFov: number;
+}
+
+interface SplatPathVideoActionsFacade {
+  addNotification: NotificationState['addNotification'];
+}
+
+export interface SplatPathVideoStoreFacade {
+  data: SplatPathVideoDataFacade;
+  actions: SplatPathVideoActionsFacade;
+}
+
+export function useSplatPathVideoStoreFacade(): SplatPathVideoStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const splatFile = useReconstructionStore((s) => s.loadedFiles?.splatFile ?? null);
+  const transform = useTransformStore((s) => s.transform);
+  const splatTransform = useTransformStore((s) => s.splatTransform);
+  const gpuRender = useSplatBackendStore((s) => s.metricCapability.gpuPsnr);
+  const cameraPathKeyframes = useCameraPathStore((s) => s.keyframes);
+  const cameraFov = useCameraStore((s) => s.cameraFov);
+  const addNotification = useNotificationStore((s) => s.addNotification);
+
+  return {
+    data: {
+      reconstruction,
+      splatFile,
+      transform,
+      splatTransform,
+      gpuRender,
+      cameraPathKeyframes,
+      cameraFov,
+    },
+    actions: {
+      addNotification,
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useCameraPathStore, useTrajectoryStore } from '../../store';
+import { useTrajectoryStoreFacade } from './useTrajectoryStoreFacade';
+
+describe('useTrajectoryStoreFacade', () => {
+  beforeEach(() => {
+    useTrajectoryStore.setState(useTrajectoryStore.getInitialState(), true);
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
+  });
+
+  it('exposes the player settings and routes controls to the trajectory store', () => {
+    const { result } = renderHook(() => useTrajectoryStoreFacade());
+    expect(result.current.data).toMatchObject({ order: 'name', speed: 5, loop: false, showPhoto: true, status: 'stopped' });
+
+    act(() => {
+      result.current.actions.setLoop(true);
+      result.current.actions.setShowPhoto(false);
+      result.current.actions.seek(3);
+    });
+
+    expect(result.current.data).toMatchObject({ loop: true, showPhoto: false, status: 'paused', position: 3 });
+
+    act(() => result.current.actions.stop());
+    expect(result.current.data).toMatchObject({ status: 'stopped', position: 0 });
+  });
+
+  it('stops camera path playback', () => {
+    useCameraPathStore.setState({ playbackStartTime: 100 });
+    const { result } = renderHook(() => useTrajectoryStoreFacade());
+
+    act(() => result.current.actions.stopCameraPath());
+
+    expect(useCameraPathStore.getState().playbackStartTime).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  useCameraPathStore,
+  useReconstructionStore,
+  useTrajectoryStore,
+  type CameraPathState,
+  type TrajectoryState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface TrajectoryDataFacade {
+  reconstruction: Reconstruction | null;
+  order: TrajectoryState['order'];
+  speed: TrajectoryState['speed'];
+  loop: TrajectoryState['loop'];
+  showPhoto: TrajectoryState['showPhoto'];
+  status: TrajectoryState['status'];
+  position: TrajectoryState['position'];
+  startTime: TrajectoryState['startTime'];
+}
+
+interface TrajectoryActionsFacade {
+  setOrder: TrajectoryState['setOrder'];
+  setSpeed: TrajectoryState['setSpeed'];
+  setLoop: TrajectoryState['setLoop'];
+  setShowPhoto: TrajectoryState['setShowPhoto'];
+  play: TrajectoryState['play'];
+  pause: TrajectoryState['pause'];
+  seek: TrajectoryState['seek'];
+  stop: TrajectoryState['stop'];
+  stopCameraPath: CameraPathState['stop'];
+}
+
+export interface TrajectoryStoreFacade {
+  data: TrajectoryDataFacade;
+  actions: TrajectoryActionsFacade;
+}
+
+export function useTrajectoryStoreFacade(): TrajectoryStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const order = useTrajectoryStore((s) => s.order);
+  const speed = useTrajectoryStore((s) => s.speed);
+  const loop = useTrajectoryStore((s) => s.loop);
+  const showPhoto = useTrajectoryStore((s) => s.showPhoto);
+  const status = useTrajectoryStore((s) => s.status);
+  const position = useTrajectoryStore((s) => s.position);
+  const startTime = useTrajectoryStore((s) => s.startTime);
+  const setOrder = useTrajectoryStore((s) => s.setOrder);
+  const setSpeed = useTrajectoryStore((s) => s.setSpeed);
+  const setLoop = useTrajectoryStore((s) => s.setLoop);
+  const setShowPhoto = useTrajectoryStore((s) => s.setShowPhoto);
+  const play = useTrajectoryStore((s) => s.play);
+  const pause = useTrajectoryStore((s) => s.pause);
+  const seek = useTrajectoryStore((s) => s.seek);
+  const stop = useTrajectoryStore((s) => s.stop);
+  const stopCameraPath = useCameraPathStore((s) => s.stop);
+
+  return {
+    data: {
+      reconstruction,
+      order,
+      speed,
+      loop,
+      showPhoto,
+      status,
+      position,
+      startTime,
+    },
+    actions: {
+      setOrder,
+      setSpeed,
+      setLoop,
+      setShowPhoto,
+      play,
+      pause,
+      seek,
+      stop,
+      stopCameraPath,
+    },
+  };
+}
@@ -34,6 +34,7 @@ export function CameraFrustums() {
       cameras,
       selection,
       matches,
+      matchConnections,
       nav,
       isAlignmentMode,
       touchMode,
@@ -114,10 +115,10 @@ export function CameraFrustums() {
   }, [reconstruction]);
 
   // Compute matched image IDs when matches are shown
-  // Uses pre-computed connectedImagesIndex (avoids iterating points3D Map)
+  // Uses the active match source's connection index (avoids iterating points3D Map)
   const matchedImageIds = useMemo(() => {
-    return buildMatchedImageIds(reconstruction, selectedImageId, showMatches);
-  }, [reconstruction, selectedImageId, showMatches]);
+    return buildMatchedImageIds(reconstruction, selectedImageId, showMatches, matchConnections);
+  }, [reconstruction, selectedImageId, showMatches, matchConnections]);
 
   // Get the last navigation target for "back" hint display
   const lastNavigationToImageId = useMemo(() => {
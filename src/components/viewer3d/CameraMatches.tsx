@@ -15,7 +15,7 @@ import {
 import { useCameraMatchesStoreFacade } from './useCameraMatchesStoreFacade';
 
 export function CameraMatches() {
-  const { reconstruction } = useCameraMatchesStoreFacade();
+  const { reconstruction, matchConnections } = useCameraMatchesStoreFacade();
 
   const cameras = useCamerasNode();
   const selection = useSelectionNode();
@@ -38,7 +38,8 @@ export function CameraMatches() {
     selectedImageId,
     showMatches,
     cameraDisplayMode,
-  }), [reconstruction, selectedImageId, showMatches, cameraDisplayMode]);
+    connectedImagesIndex: matchConnections,
+  }), [reconstruction, selectedImageId, showMatches, cameraDisplayMode, matchConnections]);
 
   const fatLines = useMemo(() => {
     if (!linePositions) return null;
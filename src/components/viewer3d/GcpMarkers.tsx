@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { INTERACTION_HOVER_COLOR, OPACITY, VIZ_COLORS, hexToInt } from '../../theme';
+import { getGcpMarkerItems, getGcpMarkerScale } from './gcpMarkersViewModel';
+import { HoverCard3D } from './HoverCard3D';
+import { getScreenPoint, type ScreenPoint } from './selectedPointMarkersViewModel';
+import { useGcpMarkersStoreFacade } from './useGcpMarkersStoreFacade';
+
+const GCP_MARKER_COLOR = hexToInt(VIZ_COLORS.frustum.selected);
+const ACTIVE_GCP_MARKER_COLOR = hexToInt(VIZ_COLORS.interaction.axisY);
+
+/** Ground control points at their picked or triangulated model positions; click to make one active. */
+export function GcpMarkers() {
+  const {
+    data: { reconstruction, gcps, activeGcpId },
+    actions: { setActiveGcpId },
+  } = useGcpMarkersStoreFacade();
+  const [hovered, setHovered] = useState<{ gcpId: number; mousePos: ScreenPoint } | null>(null);
+
+  const items = useMemo(
+    () => getGcpMarkerItems(gcps, reconstruction, activeGcpId),
+    [gcps, reconstruction, activeGcpId]
+  );
+  const markerScale = useMemo(() => getGcpMarkerScale(items), [items]);
+
+  const sphereGeometry = useMemo(() => new THREE.SphereGeometry(1, 8, 8), []);
+  useEffect(() => () => { sphereGeometry.dispose(); }, [sphereGeometry]);
+
+  if (items.length === 0) return null;
+  const hoveredItem = hovered ? items.find((item) => item.gcpId === hovered.gcpId) : undefined;
+
+  return (
+    <group>
+      {items.map((item) => (
+        <mesh
+          key={item.gcpId}
+          position={item.position}
+          scale={markerScale}
+          geometry={sphereGeometry}
+          onClick={(e) => { e.stopPropagation(); setActiveGcpId(item.gcpId); }}
+          onPointerOver={(e) => {
+            setHovered({ gcpId: item.gcpId, mousePos: getScreenPoint(e.nativeEvent.clientX, e.nativeEvent.clientY) });
+          }}
+          onPointerOut={() => setHovered(null)}
+        >
+          <meshBasicMaterial
+            color={hovered?.gcpId === item.gcpId
+              ? INTERACTION_HOVER_COLOR
+              : item.isActive ? ACTIVE_GCP_MARKER_COLOR : GCP_MARKER_COLOR}
+            transparent
+            opacity={OPACITY.interaction.marker}
+            depthTest={false}
+          />
+        </mesh>
+      ))}
+
+      {hovered && hoveredItem && (
+        <HoverCard3D mousePos={hovered.mousePos} title={hoveredItem.name} subtitle={hoveredItem.detail} />
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { CANVAS_COLORS, INTERACTION_HOVER_COLOR, OPACITY } from '../../theme';
+import {
+  evaluateMeasurements,
+  getMeasurementFloor,
+  getMeasurementWorldPoints,
+  type MeasurementPoint,
+} from '../../utils/measurementGeometry';
+import { BillboardLabel } from './BillboardLabel';
+import { getMeasurementLayerData, getMeasurementLayerScale } from './measurementLayerViewModel';
+import { useMeasurementLayerStoreFacade } from './useMeasurementLayerStoreFacade';
+
+interface MeasurementLayerProps {
+  /** Scene radius in model units; scaled by the active transform for labels and markers. */
+  boundsRadius: number;
+}
+
+function useLineSegments(positions: readonly number[], color: string | number): THREE.LineSegments | null {
+  const lines = useMemo(() => {
+    if (positions.length === 0) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    const material = new THREE.LineBasicMaterial({ color, transparent: true, opacity: OPACITY.interaction.markerHighlight, depthTest: false });
+    return new THREE.LineSegments(geometry, material);
+  }, [positions, color]);
+
+  useEffect(() => () => {
+    lines?.geometry.dispose();
+    (lines?.material as THREE.Material | undefined)?.dispose();
+  }, [lines]);
+
+  return lines;
+}
+
+function MeasurementMarkers({
+  positions,
+  scale,
+  color,
+  geometry,
+}: {
+  positions: readonly MeasurementPoint[];
+  scale: number;
+  color: string | number;
+  geometry: THREE.BufferGeometry;
+}) {
+  return (
+    <>
+      {positions.map((position, index) => (
+        <mesh key={index} position={position} scale={scale} geometry={geometry}>
+          <meshBasicMaterial color={color} transparent opacity={OPACITY.interaction.marker} depthTest={false} />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Persistent measurement overlay: stored measurements with their value
+ * labels, plus the picks of the measurement being placed. Points are stored
+ * in model coordinates and drawn through the active transform.
+ */
+export function MeasurementLayer({ boundsRadius }: MeasurementLayerProps) {
+  const {
+    data: { measurements, draftPoints, tool, showLabels, transform, detectedPlane, normalFlipped },
+  } = useMeasurementLayerStoreFacade();
+
+  const floor = useMemo(() => getMeasurementFloor(detectedPlane, normalFlipped), [detectedPlane, normalFlipped]);
+  const layer = useMemo(() => getMeasurementLayerData(
+    evaluateMeasurements(measurements, transform, floor),
+    getMeasurementWorldPoints(draftPoints, transform),
+    tool,
+    floor
+  ), [measurements, draftPoints, tool, transform, floor]);
+  const { fontSize, markerScale } = getMeasurementLayerScale(boundsRadius * transform.scale);
+
+  const lines = useLineSegments(layer.linePositions, CANVAS_COLORS.white);
+  const draftLines = useLineSegments(layer.draftLinePositions, INTERACTION_HOVER_COLOR);
+
+  const sphereGeometry = useMemo(() => new THREE.SphereGeometry(1, 8, 8), []);
+  useEffect(() => () => { sphereGeometry.dispose(); }, [sphereGeometry]);
+
+  if (layer.markerPositions.length === 0 && layer.draftMarkerPositions.length === 0) return null;
+
+  return (
+    <group>
+      {lines && <primitive object={lines} />}
+      {draftLines && <primitive object={draftLines} />}
+      <MeasurementMarkers
+        positions={layer.markerPositions}
+        scale={markerScale}
+        color={CANVAS_COLORS.white}
+        geometry={sphereGeometry}
+      />
+      <MeasurementMarkers
+        positions={layer.draftMarkerPositions}
+        scale={markerScale}
+        color={INTERACTION_HOVER_COLOR}
+        geometry={sphereGeometry}
+      />
+      {showLabels && layer.labels.map((label) => (
+        <BillboardLabel
+          key={label.id}
+          label={label.text}
+          fontSize={fontSize}
+          color={CANVAS_COLORS.white}
+          position={label.position}
+          anchorX="center"
+        />
+      ))}
+    </group>
+  );
+}
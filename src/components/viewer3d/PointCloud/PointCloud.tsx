@@ -7,6 +7,7 @@
 import React, { useMemo, useEffect, useLayoutEffect } from 'react';
 import * as THREE from 'three';
 import { usePointCloudData } from '../../../hooks/pointCloud/usePointCloudData';
+import { usePointEditSelection } from '../../../hooks/pointCloud/usePointEditSelection';
 import { usePointPicking } from '../../../hooks/pointCloud/usePointPicking';
 import { useSelectionAnimation } from '../../../hooks/pointCloud/useSelectionAnimation';
 import { SelectionOverlay } from './SelectionOverlay';
@@ -19,6 +20,8 @@ import {
   shouldRenderPointGeometry,
 } from './pointCloudRenderPolicy';
 
+const POINT_EDIT_SELECTION_COLOR = '#ff2626';
+
 /**
  * Main point cloud component.
  *
@@ -38,11 +41,13 @@ export function PointCloud(): React.JSX.Element | null {
       pointPicking,
       floor,
       deletion,
+      pointEdit,
       splatFile,
     },
     actions: {
       addSelectedPoint,
       setHoveredPoint,
+      resolvePointSelection,
     },
   } = usePointCloudStoreFacade();
 
@@ -96,7 +101,7 @@ export function PointCloud(): React.JSX.Element | null {
   });
 
   // Compute point cloud data (positions, colors, selection)
-  const { positions, colors, selectedPositions, selectedColors, indexToPoint3DIdRef } =
+  const { positions, colors, selectedPositions, selectedColors, indexToPoint3DId, indexToPoint3DIdRef } =
     usePointCloudData({
       enabled: computePointCloudData,
       reconstruction,
@@ -123,6 +128,17 @@ export function PointCloud(): React.JSX.Element | null {
     setHoveredPoint,
   });
 
+  // Resolve box/lasso/frustum selections and highlight points selected for deletion
+  const { selectedPositions: editPositions, selectedColors: editColors } = usePointEditSelection({
+    positions,
+    indexToPoint3DId,
+    pointsRef,
+    reconstruction,
+    pendingShape: pointEdit.pendingShape,
+    selectedPointIds: pointEdit.selectedPointIds,
+    resolveSelection: resolvePointSelection,
+  });
+
   // Create geometry for main point cloud
   const geometry = useMemo(() => {
     if (!positions || positions.length === 0) return null;
@@ -194,6 +210,19 @@ export function PointCloud(): React.JSX.Element | null {
           selectionColor={selectionColor}
         />
       )}
+
+      {/* Points selected for deletion in the point edit tool */}
+      {showPointGeometry && editPositions && editColors && (
+        <SelectionOverlay
+          selectedPositions={editPositions}
+          selectedColors={editColors}
+          pointSize={pointSize}
+          selectedImageId={null}
+          selectionColorMode="static"
+          selectionAnimationSpeed={selectionAnimationSpeed}
+          selectionColor={POINT_EDIT_SELECTION_COLOR}
+        />
+      )}
     </>
   );
 }
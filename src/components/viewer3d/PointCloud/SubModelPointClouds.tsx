@@ -0,0 +1,68 @@
+/**
+ * Inactive sub-models of a multi-model load, drawn as tinted point clouds
+ * next to the active reconstruction.
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { ReconstructionModel } from '../../../store/reconstructionStore';
+import { buildSubModelPointData, getSubModelOverlayModels } from './subModelPointCloudPolicy';
+import { useSubModelPointCloudsStoreFacade } from './useSubModelPointCloudsStoreFacade';
+
+interface SubModelPointsProps {
+  model: ReconstructionModel;
+  pointSize: number;
+  pointOpacity: number;
+}
+
+function SubModelPoints({ model, pointSize, pointOpacity }: SubModelPointsProps): React.JSX.Element | null {
+  const geometry = useMemo(() => {
+    const data = buildSubModelPointData(model);
+    if (!data) return null;
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(data.positions, 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(data.colors, 3));
+    geo.computeBoundingSphere();
+    return geo;
+  }, [model]);
+
+  useEffect(() => {
+    return () => {
+      geometry?.dispose();
+    };
+  }, [geometry]);
+
+  if (!geometry) return null;
+
+  return (
+    <points matrixAutoUpdate={false} geometry={geometry}>
+      <pointsMaterial
+        size={pointSize}
+        vertexColors
+        sizeAttenuation={false}
+        transparent
+        opacity={pointOpacity}
+      />
+    </points>
+  );
+}
+
+export function SubModelPointClouds(): React.JSX.Element | null {
+  const {
+    data: { models, activeModelId, pointSize, pointOpacity },
+  } = useSubModelPointCloudsStoreFacade();
+  const overlayModels = useMemo(
+    () => getSubModelOverlayModels(models, activeModelId),
+    [models, activeModelId]
+  );
+
+  if (overlayModels.length === 0) return null;
+
+  return (
+    <>
+      {overlayModels.map((model) => (
+        <SubModelPoints key={model.id} model={model} pointSize={pointSize} pointOpacity={pointOpacity} />
+      ))}
+    </>
+  );
+}
@@ -5,3 +5,4 @@
 export { PointCloud } from './PointCloud';
 export { SelectionOverlay, type SelectionOverlayProps } from './SelectionOverlay';
 export { SplatLayer } from './SplatLayer';
+export { SubModelPointClouds } from './SubModelPointClouds';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { ReconstructionModel } from '../../../store/reconstructionStore';
+import { buildPoint3D, buildReconstruction, buildWasmReconstructionWrapper } from '../../../test/builders';
+import { buildSubModelPointData, getSubModelOverlayModels } from './subModelPointCloudPolicy';
+
+function buildModel(id: string, overrides: Partial<ReconstructionModel> = {}): ReconstructionModel {
+  return {
+    id,
+    label: id,
+    reconstruction: buildReconstruction(),
+    wasmReconstruction: null,
+    files: {},
+    pointCount: 0,
+    visible: true,
+    tint: '#ff0000',
+    ...overrides,
+  };
+}
+
+describe('sub-model point cloud policy', () => {
+  it('overlays visible models other than the active one', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1'), buildModel('sparse/2', { visible: false })];
+
+    expect(getSubModelOverlayModels(models, 'sparse/0').map((model) => model.id)).toEqual(['sparse/1']);
+    expect(getSubModelOverlayModels([], null)).toEqual([]);
+  });
+
+  it('tints WASM point colors toward the model tint', () => {
+    const wasmReconstruction = buildWasmReconstructionWrapper({
+      positions: new Float32Array([1, 2, 3]),
+      colors: new Float32Array([0, 1, 0]),
+    });
+
+    const data = buildSubModelPointData({ reconstruction: buildReconstruction(), wasmReconstruction, tint: '#ff0000' }, 0.5);
+
+    expect(Array.from(data?.positions ?? [])).toEqual([1, 2, 3]);
+    expect(Array.from(data?.colors ?? [])).toEqual([0.5, 0.5, 0]);
+  });
+
+  it('falls back to the JS points3D map', () => {
+    const reconstruction = buildReconstruction({
+      points3D: [buildPoint3D({ point3DId: 1n, xyz: [4, 5, 6], rgb: [255, 0, 0] })],
+    });
+
+    const data = buildSubModelPointData({ reconstruction, wasmReconstruction: null, tint: '#0000ff' }, 0);
+
+    expect(Array.from(data?.positions ?? [])).toEqual([4, 5, 6]);
+    expect(Array.from(data?.colors ?? [])).toEqual([1, 0, 0]);
+    expect(buildSubModelPointData({ reconstruction: buildReconstruction(), wasmReconstruction: null, tint: '#fff' })).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import * as THREE from 'three';
+import type { ReconstructionModel } from '../../../store/reconstructionStore';
+
+/** How far inactive model colors are pulled toward their tint (0 = RGB, 1 = flat tint). */
+export const SUB_MODEL_TINT_STRENGTH = 0.6;
+
+export interface SubModelPointData {
+  positions: Float32Array;
+  colors: Float32Array;
+}
+
+/** Models drawn as overlays: visible and not the active reconstruction. */
+export function getSubModelOverlayModels(
+  models: readonly ReconstructionModel[],
+  activeModelId: string | null
+): ReconstructionModel[] {
+  return models.filter((model) => model.visible && model.id !== activeModelId);
+}
+
+/**
+ * Positions and tinted colors for an overlay model, from its WASM arrays when
+ * available, otherwise from the JS points3D map.
+ */
+export function buildSubModelPointData(
+  model: Pick<ReconstructionModel, 'reconstruction' | 'wasmReconstruction' | 'tint'>,
+  tintStrength = SUB_MODEL_TINT_STRENGTH
+): SubModelPointData | null {
+  const tint = new THREE.Color(model.tint);
+  const tintRgb = [tint.r, tint.g, tint.b];
+  const mix = (channel: number, value: number) => value * (1 - tintStrength) + tintRgb[channel] * tintStrength;
+
+  const wasmPositions = model.wasmReconstruction?.getPositionsCopy() ?? null;
+  const wasmColors = model.wasmReconstruction?.getColors() ?? null;
+  if (wasmPositions && wasmColors && wasmPositions.length > 0) {
+    const colors = new Float32Array(wasmPositions.length);
+    for (let i = 0; i < colors.length; i++) {
+      colors[i] = mix(i % 3, wasmColors[i] ?? 0);
+    }
+    return { positions: wasmPositions, colors };
+  }
+
+  const points3D = model.reconstruction.points3D;
+  if (!points3D || points3D.size === 0) {
+    return null;
+  }
+  const positions = new Float32Array(points3D.size * 3);
+  const colors = new Float32Array(points3D.size * 3);
+  let offset = 0;
+  for (const point of points3D.values()) {
+    for (let channel = 0; channel < 3; channel++) {
+      positions[offset + channel] = point.xyz[channel];
+      colors[offset + channel] = mix(channel, point.rgb[channel] / 255);
+    }
+    offset += 3;
+  }
+  return { positions, colors };
+}
@@ -5,9 +5,13 @@ import {
   useCameraStore,
   useDeletionStore,
   useFloorPlaneStore,
+  useGcpStore,
+  useMeasurementStore,
   usePointCloudStore,
+  usePointEditStore,
   usePointPickingStore,
   useReconstructionStore,
+  useTransformStore,
 } from '../../../store';
 import { buildReconstruction } from '../../../test/builders';
 import { usePointCloudStoreFacade } from './usePointCloudStoreFacade';
@@ -114,4 +118,55 @@ describe('usePointCloudStoreFacade', () => {
       hoveredPoint,
     });
   });
+
+  it('turns picks into ground control points in GCP mode, in model coordinates', () => {
+    useGcpStore.getState().clearGcps();
+    useTransformStore.setState({
+      transform: { ...useTransformStore.getInitialState().transform, scale: 2, translationX: 3 },
+    });
+    usePointPickingStore.setState({ pickingMode: 'gcp' });
+
+    const { result } = renderHook(() => usePointCloudStoreFacade());
+
+    act(() => {
+      result.current.actions.addSelectedPoint({ position: new THREE.Vector3(5, 4, 6), point3DId: 4n });
+    });
+
+    expect(usePointPickingStore.getState().selectedPoints).toEqual([]);
+    expect(useGcpStore.getState().gcps).toMatchObject([{ pickedPosition: [1, 2, 3], point3DId: 4n }]);
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+  });
+
+  it('adds picks to the measurement being placed in measure mode, in model coordinates', () => {
+    useMeasurementStore.getState().clearMeasurements();
+    useMeasurementStore.getState().setMeasurementTool('polyline');
+    useTransformStore.setState({ transform: { ...useTransformStore.getInitialState().transform, scale: 2 } });
+    usePointPickingStore.setState({ pickingMode: 'measure' });
+
+    const { result } = renderHook(() => usePointCloudStoreFacade());
+
+    act(() => {
+      result.current.actions.addSelectedPoint({ position: new THREE.Vector3(2, 4, 6), point3DId: 4n });
+    });
+
+    expect(usePointPickingStore.getState().selectedPoints).toEqual([]);
+    expect(useMeasurementStore.getState().draftPoints).toEqual([[1, 2, 3]]);
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+  });
+
+  it('exposes point edit selections and routes resolved shapes to the point edit store', () => {
+    usePointEditStore.getState().reset();
+    const shape = { kind: 'polygon' as const, points: [[0, 0], [1, 0], [0, 1]] as [number, number][], mode: 'add' as const };
+    usePointEditStore.getState().requestSelection(shape);
+
+    const { result } = renderHook(() => usePointCloudStoreFacade());
+    expect(result.current.data.pointEdit.pendingShape).toBe(shape);
+
+    act(() => {
+      result.current.actions.resolvePointSelection(new Set([5n]), 'add');
+    });
+
+    expect(usePointEditStore.getState().pendingShape).toBeNull();
+    expect([...result.current.data.pointEdit.selectedPointIds]).toEqual([5n]);
+  });
 });
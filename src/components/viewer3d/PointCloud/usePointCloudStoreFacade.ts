@@ -5,12 +5,16 @@ import {
   type SelectionNode,
 } from '../../../nodes';
 import {
+  addGcpPick,
+  addMeasurementPick,
   useDeletionStore,
   useFloorPlaneStore,
+  usePointEditStore,
   usePointPickingStore,
   useReconstructionStore,
   type DeletionState,
   type FloorPlaneState,
+  type PointEditState,
   type PointPickingState,
 } from '../../../store';
 import type { Reconstruction } from '../../../types/colmap';
@@ -34,11 +38,17 @@ interface PointCloudDataFacade {
   deletion: {
     pendingDeletions: DeletionState['pendingDeletions'];
   };
+  pointEdit: {
+    pendingShape: PointEditState['pendingShape'];
+    selectedPointIds: PointEditState['selectedPointIds'];
+  };
 }
 
 interface PointCloudActionsFacade {
+  /** In GCP and measure modes picks go to those tools instead of the transform tool points. */
   addSelectedPoint: PointPickingState['addSelectedPoint'];
   setHoveredPoint: PointPickingState['setHoveredPoint'];
+  resolvePointSelection: PointEditState['resolveSelection'];
 }
 
 export interface PointCloudStoreFacade {
@@ -54,12 +64,15 @@ export function usePointCloudStoreFacade(): PointCloudStoreFacade {
   const selection = useSelectionNode();
   const pickingMode = usePointPickingStore((s) => s.pickingMode);
   const selectedPointsLength = usePointPickingStore((s) => s.selectedPoints.length);
-  const addSelectedPoint = usePointPickingStore((s) => s.addSelectedPoint);
+  const addPickingPoint = usePointPickingStore((s) => s.addSelectedPoint);
   const setHoveredPoint = usePointPickingStore((s) => s.setHoveredPoint);
   const pointDistances = useFloorPlaneStore((s) => s.pointDistances);
   const distanceThreshold = useFloorPlaneStore((s) => s.distanceThreshold);
   const floorColorMode = useFloorPlaneStore((s) => s.floorColorMode);
   const pendingDeletions = useDeletionStore((s) => s.pendingDeletions);
+  const pendingShape = usePointEditStore((s) => s.pendingShape);
+  const selectedPointIds = usePointEditStore((s) => s.selectedPointIds);
+  const resolvePointSelection = usePointEditStore((s) => s.resolveSelection);
 
   return {
     data: {
@@ -80,10 +93,17 @@ export function usePointCloudStoreFacade(): PointCloudStoreFacade {
       deletion: {
         pendingDeletions,
       },
+      pointEdit: {
+        pendingShape,
+        selectedPointIds,
+      },
     },
     actions: {
-      addSelectedPoint,
+      addSelectedPoint: pickingMode === 'gcp'
+        ? addGcpPick
+        : pickingMode === 'measure' ? addMeasurementPick : addPickingPoint,
       setHoveredPoint,
+      resolvePointSelection,
     },
   };
 }
@@ -0,0 +1,25 @@
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { usePointCloudStore, useReconstructionStore } from '../../../store';
+import { useSubModelPointCloudsStoreFacade } from './useSubModelPointCloudsStoreFacade';
+
+describe('useSubModelPointCloudsStoreFacade', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    usePointCloudStore.setState(usePointCloudStore.getInitialState(), true);
+  });
+
+  it('collects sub-models and shared point styling', () => {
+    useReconstructionStore.setState({ models: [], activeModelId: 'sparse/1' });
+    usePointCloudStore.setState({ pointSize: 4, pointOpacity: 0.7 });
+
+    const { result } = renderHook(() => useSubModelPointCloudsStoreFacade());
+
+    expect(result.current.data).toEqual({
+      models: [],
+      activeModelId: 'sparse/1',
+      pointSize: 4,
+      pointOpacity: 0.7,
+    });
+  });
+});
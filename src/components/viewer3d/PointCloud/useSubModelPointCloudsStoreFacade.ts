@@ -0,0 +1,17 @@
+import { usePointsNode } from '../../../nodes';
+import { useReconstructionStore } from '../../../store';
+
+export function useSubModelPointCloudsStoreFacade() {
+  const models = useReconstructionStore((s) => s.models);
+  const activeModelId = useReconstructionStore((s) => s.activeModelId);
+  const points = usePointsNode();
+
+  return {
+    data: {
+      models,
+      activeModelId,
+      pointSize: points.size,
+      pointOpacity: points.opacity,
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useRef, useState, type PointerEvent } from 'react';
+import { getPointSelectionMode } from '../../utils/pointSelection';
+import {
+  POINT_SELECTION_OVERLAY_CLASS,
+  appendLassoPoint,
+  getSelectionPolygon,
+  getSvgPolygonPoints,
+  isSelectionPolygonUsable,
+  toNdcPolygon,
+  type ScreenPoint,
+} from './pointSelectionShapeOverlayViewModel';
+import { usePointSelectionShapeOverlayStoreFacade } from './usePointSelectionShapeOverlayStoreFacade';
+
+/**
+ * Captures box and lasso drags over the 3D view while a point edit tool is
+ * active. The finished shape is handed to the point cloud, which resolves it
+ * against the rendered points with the live camera.
+ */
+export function PointSelectionShapeOverlay() {
+  const { tool, requestSelection } = usePointSelectionShapeOverlayStoreFacade();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [points, setPoints] = useState<ScreenPoint[]>([]);
+
+  const getLocalPoint = useCallback((event: PointerEvent<HTMLDivElement>): ScreenPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [event.clientX - rect.left, event.clientY - rect.top];
+  }, []);
+
+  const handlePointerDown = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setPoints([getLocalPoint(event)]);
+  }, [getLocalPoint]);
+
+  const handlePointerMove = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    if (points.length === 0) return;
+    const next = getLocalPoint(event);
+    setPoints((current) => (tool === 'box' ? [current[0], next] : appendLassoPoint(current, next)));
+  }, [getLocalPoint, points.length, tool]);
+
+  const handlePointerUp = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    if (points.length === 0) return;
+    const polygon = getSelectionPolygon(tool, points);
+    setPoints([]);
+    const container = containerRef.current;
+    if (!container || !isSelectionPolygonUsable(tool, polygon)) return;
+    const { width, height } = container.getBoundingClientRect();
+    requestSelection({
+      kind: 'polygon',
+      points: toNdcPolygon(polygon, { width, height }),
+      mode: getPointSelectionMode(event),
+    });
+  }, [points, requestSelection, tool]);
+
+  if (tool === 'off') return null;
+
+  const polygon = getSelectionPolygon(tool, points);
+
+  return (
+    <div
+      ref={containerRef}
+      className={POINT_SELECTION_OVERLAY_CLASS}
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setPoints([])}
+      data-testid="point-selection-overlay"
+    >
+      {polygon.length > 1 && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polygon
+            points={getSvgPolygonPoints(polygon)}
+            fill="rgba(255, 60, 60, 0.12)"
+            stroke="rgb(255, 60, 60)"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useMemo } from 'react';
+import { computeReconstructionDiff } from '../../utils/reconstructionDiff';
+import { createFatLineSegmentsObject, disposeFatLineSegmentsObject } from './fatLineSegments';
+import { buildReconstructionDiffOverlayData } from './reconstructionDiffOverlayPolicy';
+import { useReconstructionDiffOverlayStoreFacade } from './useReconstructionDiffOverlayStoreFacade';
+
+/**
+ * Reconstruction diff overlay: per-image error vectors from each reference
+ * camera to its aligned compare camera, plus the compare viewing directions.
+ */
+export function ReconstructionDiffOverlay() {
+  const { reconstruction, compareImages, showDiffOverlay } = useReconstructionDiffOverlayStoreFacade();
+
+  const overlayData = useMemo(() => {
+    if (!showDiffOverlay || !reconstruction || !compareImages) return null;
+    return buildReconstructionDiffOverlayData(
+      computeReconstructionDiff(reconstruction.images.values(), compareImages.values())
+    );
+  }, [showDiffOverlay, reconstruction, compareImages]);
+
+  const fatLines = useMemo(() => {
+    if (!overlayData) return null;
+    return createFatLineSegmentsObject({
+      positions: overlayData.positions,
+      colors: overlayData.colors,
+      lineWidth: 2,
+      depthWrite: false,
+      depthTest: true,
+      renderOrder: 3,
+    });
+  }, [overlayData]);
+
+  useEffect(() => {
+    if (!fatLines) return undefined;
+    return () => disposeFatLineSegmentsObject(fatLines);
+  }, [fatLines]);
+
+  if (!fatLines) return null;
+
+  return <primitive object={fatLines.object} />;
+}
@@ -0,0 +1,39 @@
+import { useEffect, useMemo } from 'react';
+import { createFatLineSegmentsObject, disposeFatLineSegmentsObject } from './fatLineSegments';
+import { buildReferenceResidualOverlayData } from './referenceAlignmentOverlayPolicy';
+import { useReferenceAlignmentOverlayStoreFacade } from './useReferenceAlignmentOverlayStoreFacade';
+
+/**
+ * Reference alignment residuals: a vector from each matched camera to its
+ * reference position. Hidden once the reconstruction changes (e.g. after the
+ * transform is baked into the data), since the residuals no longer apply.
+ */
+export function ReferenceAlignmentOverlay() {
+  const { reconstruction, alignment, alignedReconstruction, showResiduals } = useReferenceAlignmentOverlayStoreFacade();
+
+  const overlayData = useMemo(() => {
+    if (!showResiduals || !alignment || !reconstruction || alignedReconstruction !== reconstruction) return null;
+    return buildReferenceResidualOverlayData(alignment);
+  }, [showResiduals, alignment, reconstruction, alignedReconstruction]);
+
+  const fatLines = useMemo(() => {
+    if (!overlayData) return null;
+    return createFatLineSegmentsObject({
+      positions: overlayData.positions,
+      colors: overlayData.colors,
+      lineWidth: 2,
+      depthWrite: false,
+      depthTest: true,
+      renderOrder: 3,
+    });
+  }, [overlayData]);
+
+  useEffect(() => {
+    if (!fatLines) return undefined;
+    return () => disposeFatLineSegmentsObject(fatLines);
+  }, [fatLines]);
+
+  if (!fatLines) return null;
+
+  return <primitive object={fatLines.object} />;
+}
@@ -1,21 +1,35 @@
 import { lazy, Suspense, useCallback, useMemo, useEffect } from 'react';
 import { Canvas, useThree } from '@react-three/fiber';
 import { PointCloud } from './PointCloud/PointCloud';
+import { SubModelPointClouds } from './PointCloud/SubModelPointClouds';
 import { CameraFrustums, CameraMatches } from './CameraFrustums';
 import { wasFrustumTapRecent } from './frustumTouchGuards';
 import { RigConnections } from './RigConnections';
+import { ReconstructionDiffOverlay } from './ReconstructionDiffOverlay';
+import { ReferenceAlignmentOverlay } from './ReferenceAlignmentOverlay';
 import { ViewerControls } from './ViewerControls';
 import { TrackballControls } from './TrackballControls';
 import { OriginAxes, OriginGrid } from './OriginVisualization';
 import { TransformGizmo } from './TransformGizmo';
+import { SplatCropBoxOverlay } from './SplatCropBoxOverlay';
 import { SelectedPointMarkers } from './SelectedPointMarkers';
+import { GcpMarkers } from './GcpMarkers';
+import { MeasurementLayer } from './MeasurementLayer';
 import { FloorPlaneWidget } from './FloorPlaneWidget';
 import { PickingCursor } from './PickingCursor';
+import { PointSelectionShapeOverlay } from './PointSelectionShapeOverlay';
+import { TrajectoryPhotoOverlay } from './TrajectoryPhotoOverlay';
 import { ScreenshotCapture } from './ScreenshotCapture';
 import { FpsTracker } from './FpsTracker';
 import { FooterBranding } from './FooterBranding';
 import { SplatPsnrEvaluator } from './SplatPsnrEvaluator';
 import { SplatBackendStatusNotifier } from './SplatBackendStatusNotifier';
+import { SplatComparisonDivider } from './SplatComparisonDivider';
+import { SplatComparisonMetricRunner } from './SplatComparisonMetricRunner';
+import {
+  getSplatComparisonClipPath,
+  getSplatComparisonDividerPosition,
+} from './splatComparisonViewModel';
 import {
   shouldClearUnavailableForcedWebGpuSplatLoading,
   shouldMountWebGpuSplatCanvas,
@@ -206,6 +220,7 @@ function SceneContent() {
   const transformableContent = (
     <>
       {visibleLayers.points && <PointCloud />}
+      {visibleLayers.points && <SubModelPointClouds />}
       {sparkSplatLayerNeeded && (
         <Suspense fallback={null}>
           <LazySplatLayer modelMatrix={splatTransformMatrix} visible={visibleLayers.points} />
@@ -214,6 +229,10 @@ function SceneContent() {
       {visibleLayers.cameras && <CameraFrustums />}
       {visibleLayers.matches && <CameraMatches />}
       {visibleLayers.rigs && <RigConnections />}
+      {visibleLayers.cameras && <ReconstructionDiffOverlay />}
+      {visibleLayers.cameras && <ReferenceAlignmentOverlay />}
+      {/* GCP positions are model coordinates, like the points they were picked on */}
+      <GcpMarkers />
     </>
   );
   const e2eProbeEnabled = import.meta.env.DEV
@@ -253,8 +272,12 @@ function SceneContent() {
       {/* Transform gizmo follows the transformed data - hidden during alignment mode */}
       {visibleLayers.gizmo && <TransformGizmo center={transformedCenter} size={bounds.radius * transform.scale * axes.scale} />}
 
+      {/* Splat crop box lives in viewer coordinates, outside the transform group */}
+      <SplatCropBoxOverlay />
+
       {/* Point picking markers - rendered outside transform group for stable display */}
       <SelectedPointMarkers />
+      <MeasurementLayer boundsRadius={bounds.radius} />
 
       {/* Floor plane widget - rendered outside transform group for stable display */}
       <FloorPlaneWidget boundsRadius={bounds.radius} />
@@ -310,6 +333,11 @@ export function Scene3D() {
       splatBackendResolution,
       splatsVisible,
       pointsLayerVisible,
+      activeSplatSourceId,
+      comparisonSourceId,
+      comparisonSplatFile,
+      comparisonLayout,
+      comparisonSplitPosition,
     },
     actions: {
       addNotification,
@@ -320,6 +348,7 @@ export function Scene3D() {
       getUrlProgress,
       setUrlLoading,
       setUrlProgress,
+      setComparisonSplitPosition,
     },
   } = useSceneContainerStoreFacade();
   const sceneContextMenu = useSceneContextMenuController();
@@ -339,6 +368,13 @@ export function Scene3D() {
     splatFile,
     splatsVisible
   ) && pointsLayerVisible;
+  // The comparison splat (B) is drawn by a second WebGPU canvas over the right
+  // of the divider, so it needs the active splat on the WebGPU canvas too.
+  const splatComparisonVisible = webGpuSplatCanvasVisible && Boolean(comparisonSplatFile);
+  const splatComparisonDividerPosition = getSplatComparisonDividerPosition(
+    comparisonLayout,
+    comparisonSplitPosition
+  );
   const webGpuSplatBackendSelected = splatBackendResolution.status === 'resolved'
     && splatBackendResolution.backend === 'webgpu';
   const webGpuSplatCanvasReportsLoading = requestedSplatBackend === 'webgpu'
@@ -422,6 +458,15 @@ export function Scene3D() {
         onRuntimeFailed={handleWebGpuSplatRuntimeFailed}
         onAdapterUnavailable={handleWebGpuSplatAdapterUnavailable}
       />
+      {splatComparisonVisible && comparisonSplatFile && (
+        <WebGpuSplatCanvasLayer
+          visible
+          splatFile={comparisonSplatFile}
+          reportLoadingProgress={false}
+          clipPath={getSplatComparisonClipPath(splatComparisonDividerPosition)}
+        />
+      )}
+      <SplatComparisonMetricRunner />
       <SplatBackendStatusNotifier
         addNotification={addNotification}
         requestedBackend={requestedSplatBackend}
@@ -458,6 +503,17 @@ export function Scene3D() {
           </Suspense>
         </Canvas>
       </Scene3DErrorBoundary>
+      {splatComparisonVisible && (
+        <SplatComparisonDivider
+          position={splatComparisonDividerPosition}
+          draggable={comparisonLayout === 'swipe'}
+          labelA={activeSplatSourceId ?? 'Active splat'}
+          labelB={comparisonSourceId ?? 'Comparison splat'}
+          onPositionChange={setComparisonSplitPosition}
+        />
+      )}
+      <PointSelectionShapeOverlay />
+      <TrajectoryPhotoOverlay />
       <ViewerControls />
       <FooterBranding />
       <PickingCursor />
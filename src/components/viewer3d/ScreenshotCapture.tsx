@@ -14,6 +14,7 @@ import { useScreenshotDownloadTrigger } from './useScreenshotDownloadTrigger';
 import { useScreenshotLogo } from './useScreenshotLogo';
 import { useScreenshotRecordingStop } from './useScreenshotRecordingStop';
 import { useScreenshotRecordingFrameLoop } from './useScreenshotRecordingFrameLoop';
+import { createMp4WebCodecsMuxer } from './screenshotMp4Muxer';
 import { startScreenshotGifRecording } from './screenshotGifRecordingStart';
 import { startScreenshotMediaRecorderRecording } from './screenshotMediaRecorderStart';
 import {
@@ -36,6 +37,7 @@ export function ScreenshotCapture() {
       gifSpeed,
       recordingQuality,
       recordingFormat,
+      cameraPathRecordingDuration,
     },
     actions: {
       setGetScreenshotBlob,
@@ -45,8 +47,10 @@ export function ScreenshotCapture() {
       setGifRenderProgress,
       setGifBlobUrl,
       addNotification,
+      playCameraPath,
     },
   } = useScreenshotCaptureStoreFacade();
+  const recordingDuration = cameraPathRecordingDuration ?? gifDuration;
   const addLogoToCanvas = useScreenshotLogo();
 
   useScreenshotBlobCapture({
@@ -115,7 +119,7 @@ export function ScreenshotCapture() {
       sourceWidth: gl.domElement.width,
       sourceHeight: gl.domElement.height,
       downsample: gifDownsample,
-      durationMs: gifDuration * 1000,
+      durationMs: recordingDuration * 1000,
       speedFactor: gifSpeed,
       recordingQuality,
       hardwareConcurrency: navigator.hardwareConcurrency,
@@ -134,23 +138,17 @@ export function ScreenshotCapture() {
       setIsRecordingGif,
       createGifRecorder: (options) => new GIF(options),
     });
-  }, [gl, setIsRecordingGif, setGifBlobUrl, setGifRenderProgress, gifDuration, gifDownsample, gifSpeed, recordingQuality]);
+  }, [gl, setIsRecordingGif, setGifBlobUrl, setGifRenderProgress, recordingDuration, gifDownsample, gifSpeed, recordingQuality]);
 
   // Start WebCodecs-based video recording (preferred for MP4 with proper speed control)
   const startWebCodecsRecording = useCallback(async (): Promise<Blob | null> => {
-    const {
-      BufferTarget,
-      EncodedPacket,
-      EncodedVideoPacketSource,
-      Mp4OutputFormat,
-      Output,
-    } = await import('mediabunny');
+    const mediabunny = await import('mediabunny');
 
     return startScreenshotWebCodecsRecording({
       sourceWidth: gl.domElement.width,
       sourceHeight: gl.domElement.height,
       downsample: gifDownsample,
-      durationMs: gifDuration * 1000,
+      durationMs: recordingDuration * 1000,
       speedFactor: gifSpeed,
       recordingQuality,
       videoEncoderRef,
@@ -165,43 +163,12 @@ export function ScreenshotCapture() {
       webCodecsResolveRef: webCodecsResolve,
       lastProgressNotificationTimeRef: lastProgressNotificationTime,
       setIsRecordingGif,
-      createMuxer: () => {
-        const target = new BufferTarget();
-        const output = new Output({
-          format: new Mp4OutputFormat({ fastStart: 'in-memory' }),
-          target,
-        });
-        const videoSource = new EncodedVideoPacketSource('avc');
-        // Scale the muxer timescale by speed so sped-up frames stay on distinct
-        // ticks (see getVideoTrackOptions). A fixed 30fps timescale dropped frames
-        // at 2x/3x/4x.
-        output.addVideoTrack(videoSource, getVideoTrackOptions(gifSpeed));
-        let pendingVideoWrites = Promise.resolve();
-        let videoWriteError: unknown = null;
-
-        return {
-          target,
-          start: () => output.start(),
-          addVideoChunk: (chunk, meta) => {
-            const write = pendingVideoWrites.then(() =>
-              videoSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)
-            );
-            pendingVideoWrites = write.catch((error: unknown) => {
-              videoWriteError ??= error;
-            });
-            return write;
-          },
-          finalize: async () => {
-            await pendingVideoWrites;
-            if (videoWriteError) {
-              throw videoWriteError;
-            }
-            await output.finalize();
-          },
-        };
-      },
+      // Scale the muxer timescale by speed so sped-up frames stay on distinct
+      // ticks (see getVideoTrackOptions). A fixed 30fps timescale dropped frames
+      // at 2x/3x/4x.
+      createMuxer: () => createMp4WebCodecsMuxer(mediabunny, getVideoTrackOptions(gifSpeed)),
     });
-  }, [gl, gifDuration, gifDownsample, gifSpeed, recordingQuality, setIsRecordingGif]);
+  }, [gl, recordingDuration, gifDownsample, gifSpeed, recordingQuality, setIsRecordingGif]);
 
   // Finish WebCodecs recording
   const finishWebCodecsRecording = useCallback(async () => {
@@ -224,7 +191,7 @@ export function ScreenshotCapture() {
       sourceWidth: gl.domElement.width,
       sourceHeight: gl.domElement.height,
       downsample: gifDownsample,
-      durationMs: gifDuration * 1000,
+      durationMs: recordingDuration * 1000,
       speedFactor: gifSpeed,
       recordingQuality,
       webmRecorderRef,
@@ -241,7 +208,7 @@ export function ScreenshotCapture() {
       setGifBlobUrl,
       setIsRecordingGif,
     });
-  }, [gl, setIsRecordingGif, setGifBlobUrl, gifDuration, gifDownsample, gifSpeed, recordingQuality]);
+  }, [gl, setIsRecordingGif, setGifBlobUrl, recordingDuration, gifDownsample, gifSpeed, recordingQuality]);
 
   // Start video recording - uses WebCodecs for MP4 when available, MediaRecorder as fallback
   const startVideoRecording = useCallback((format: 'webm' | 'mp4'): Promise<Blob | null> => {
@@ -258,11 +225,13 @@ export function ScreenshotCapture() {
 
   // Combined recording function that chooses format
   const startRecording = useCallback((): Promise<Blob | null> => {
+    // Start the path on the first captured frame so the clip spans it exactly.
+    if (cameraPathRecordingDuration !== null) playCameraPath();
     if (recordingFormat === 'webm' || recordingFormat === 'mp4') {
       return startVideoRecording(recordingFormat);
     }
     return startGifRecording();
-  }, [recordingFormat, startGifRecording, startVideoRecording]);
+  }, [cameraPathRecordingDuration, playCameraPath, recordingFormat, startGifRecording, startVideoRecording]);
 
   // Helper to show progress notification
   const showProgressNotification = useCallback((elapsed: number, total: number) => {
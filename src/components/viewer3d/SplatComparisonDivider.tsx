@@ -0,0 +1,69 @@
+import { useCallback, useRef, type PointerEvent } from 'react';
+import { getSplatComparisonPointerPosition } from './splatComparisonViewModel';
+
+interface SplatComparisonDividerProps {
+  position: number;
+  draggable: boolean;
+  labelA: string;
+  labelB: string;
+  onPositionChange: (position: number) => void;
+}
+
+/** Divider and A/B labels drawn over the 3D view while two splats are compared. */
+export function SplatComparisonDivider({
+  position,
+  draggable,
+  labelA,
+  labelB,
+  onPositionChange,
+}: SplatComparisonDividerProps) {
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+
+  const updateFromPointer = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+    onPositionChange(getSplatComparisonPointerPosition(event.clientX, overlay.getBoundingClientRect()));
+  }, [onPositionChange]);
+
+  const handlePointerDown = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    updateFromPointer(event);
+  }, [updateFromPointer]);
+
+  const handlePointerMove = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    updateFromPointer(event);
+  }, [updateFromPointer]);
+
+  const left = `${position * 100}%`;
+
+  return (
+    <div
+      ref={overlayRef}
+      className="pointer-events-none absolute inset-0 z-20"
+      data-testid="splat-comparison-divider"
+    >
+      <div className="absolute top-0 bottom-0 w-px -translate-x-1/2 bg-ds-accent" style={{ left }} />
+      {draggable && (
+        <div
+          role="slider"
+          aria-label="Comparison divider"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(position * 100)}
+          className="pointer-events-auto absolute top-0 bottom-0 w-3 -translate-x-1/2 cursor-ew-resize"
+          style={{ left }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+        />
+      )}
+      <span className="absolute top-2 rounded bg-ds-tertiary/80 px-1.5 py-0.5 text-xs text-ds-primary" style={{ right: `calc(${100 - position * 100}% + 8px)` }}>
+        A: {labelA}
+      </span>
+      <span className="absolute top-2 rounded bg-ds-tertiary/80 px-1.5 py-0.5 text-xs text-ds-primary" style={{ left: `calc(${left} + 8px)` }}>
+        B: {labelB}
+      </span>
+    </div>
+  );
+}
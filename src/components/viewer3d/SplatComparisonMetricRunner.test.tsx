@@ -0,0 +1,69 @@
+import { act, render, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useReconstructionStore, useSplatComparisonStore } from '../../store';
+import { buildFile, buildReconstruction } from '../../test/builders';
+import { SplatComparisonMetricRunner } from './SplatComparisonMetricRunner';
+import {
+  computeSplatComparisonMetrics,
+  releaseSplatComparisonMetricSession,
+} from './splatComparisonMetricRuntime';
+
+vi.mock('./splatComparisonMetricRuntime', () => ({
+  computeSplatComparisonMetrics: vi.fn(),
+  releaseSplatComparisonMetricSession: vi.fn(),
+}));
+
+describe('SplatComparisonMetricRunner', () => {
+  const comparisonFile = buildFile('b.spz', 'splat');
+
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useReconstructionStore.setState({ reconstruction: buildReconstruction() });
+    useSplatComparisonStore.getState().reset();
+    useSplatComparisonStore.getState().setSourceLoading('b.spz');
+    useSplatComparisonStore.getState().setSourceReady('b.spz', comparisonFile);
+  });
+
+  afterEach(() => {
+    vi.mocked(computeSplatComparisonMetrics).mockReset();
+    vi.mocked(releaseSplatComparisonMetricSession).mockReset();
+  });
+
+  it('measures the comparison splat once per request and stores its metrics', async () => {
+    vi.mocked(computeSplatComparisonMetrics).mockImplementation(async ({ onMetric, onError }) => {
+      onMetric({
+        imageId: 1,
+        psnr: 28,
+        ssim: 0.8,
+        mse: 0.002,
+        validPixelCount: 4,
+        width: 640,
+        height: 480,
+        computedAt: 1,
+      });
+      onError(2, 'Missing image file');
+    });
+    render(<SplatComparisonMetricRunner />);
+    expect(computeSplatComparisonMetrics).not.toHaveBeenCalled();
+
+    act(() => {
+      useSplatComparisonStore.getState().requestCompute();
+    });
+
+    await waitFor(() => expect(useSplatComparisonStore.getState().computing).toBe(false));
+    expect(computeSplatComparisonMetrics).toHaveBeenCalledOnce();
+    expect(computeSplatComparisonMetrics).toHaveBeenCalledWith(expect.objectContaining({ splatFile: comparisonFile }));
+    expect(useSplatComparisonStore.getState().metrics.get(1)?.psnr).toBe(28);
+    expect(useSplatComparisonStore.getState().metricErrors.get(2)).toBe('Missing image file');
+  });
+
+  it('releases the session when the comparison ends', async () => {
+    render(<SplatComparisonMetricRunner />);
+
+    act(() => {
+      useSplatComparisonStore.getState().reset();
+    });
+
+    await waitFor(() => expect(releaseSplatComparisonMetricSession).toHaveBeenCalledOnce());
+  });
+});
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+import { useLatestRef } from '../../hooks/useLatestRef';
+import { appLogger } from '../../utils/logger';
+import { useSplatComparisonMetricRunnerStoreFacade } from './useSplatComparisonMetricRunnerStoreFacade';
+
+/**
+ * Measures the comparison splat (B) when the compare window asks for it. The
+ * WebGPU runtime is loaded on first use and released when the comparison ends.
+ */
+export function SplatComparisonMetricRunner(): null {
+  const {
+    data: { reconstruction, dataset, splatFile, computeRequest, transform, splatTransform },
+    actions: { startCompute, setMetric, setMetricError, finishCompute, addNotification },
+  } = useSplatComparisonMetricRunnerStoreFacade();
+  const handledRequestIdRef = useRef<number | null>(null);
+  const transformsRef = useLatestRef({ transform, splatTransform });
+
+  useEffect(() => {
+    if (!computeRequest || computeRequest.id === handledRequestIdRef.current) return;
+    if (!reconstruction || !splatFile) return;
+    handledRequestIdRef.current = computeRequest.id;
+
+    let cancelled = false;
+    let settled = false;
+    startCompute();
+    void (async () => {
+      const { computeSplatComparisonMetrics } = await import('./splatComparisonMetricRuntime');
+      if (cancelled) return;
+      await computeSplatComparisonMetrics({
+        reconstruction,
+        dataset,
+        splatFile,
+        ...transformsRef.current,
+        shouldCancel: () => cancelled,
+        onMetric: setMetric,
+        onError: setMetricError,
+      });
+    })().catch((error: unknown) => {
+      if (cancelled) return;
+      const message = error instanceof Error ? error.message : String(error);
+      appLogger.warn(`[PSNR] Failed to compute comparison metrics for ${splatFile.name}: ${message}`);
+      addNotification('warning', `Comparison metrics failed: ${message}`);
+    }).finally(() => {
+      settled = true;
+      if (!cancelled) finishCompute();
+    });
+
+    // A superseded run stops where it is; the request stays handled, so the
+    // partial metrics remain until the user computes again.
+    return () => {
+      cancelled = true;
+      if (!settled) finishCompute();
+    };
+  }, [
+    addNotification,
+    computeRequest,
+    dataset,
+    finishCompute,
+    reconstruction,
+    setMetric,
+    setMetricError,
+    splatFile,
+    startCompute,
+    transformsRef,
+  ]);
+
+  useEffect(() => {
+    if (!splatFile) return;
+    return () => {
+      void import('./splatComparisonMetricRuntime').then(({ releaseSplatComparisonMetricSession }) => {
+        releaseSplatComparisonMetricSession();
+      });
+    };
+  }, [splatFile]);
+
+  return null;
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { VIZ_COLORS } from '../../theme';
+import type { Sim3dEuler } from '../../types/sim3d';
+import {
+  applySplatCropBoxGizmoChange,
+  getSplatCropBoxDisplayRotation,
+  getSplatCropBoxGizmoSize,
+  getSplatCropBoxGizmoValue,
+} from './splatCropBoxOverlayViewModel';
+import { TransformGizmo } from './TransformGizmo';
+import { useSplatCropBoxOverlayStoreFacade } from './useSplatCropBoxOverlayStoreFacade';
+
+/**
+ * Splat crop box outline with a gizmo to move it (and rotate it in oriented
+ * mode). Drawn in viewer coordinates, over both the Spark and WebGPU splats.
+ */
+export function SplatCropBoxOverlay() {
+  const {
+    data: { visible, cropBox, cropMode },
+    actions: { setCropBox },
+  } = useSplatCropBoxOverlayStoreFacade();
+
+  const edgesGeometry = useMemo(() => {
+    const box = new THREE.BoxGeometry(1, 1, 1);
+    const edges = new THREE.EdgesGeometry(box);
+    box.dispose();
+    return edges;
+  }, []);
+  useEffect(() => () => { edgesGeometry.dispose(); }, [edgesGeometry]);
+
+  const gizmoValue = useMemo(() => (cropBox ? getSplatCropBoxGizmoValue(cropBox) : undefined), [cropBox]);
+  const handleGizmoChange = useCallback((change: Partial<Sim3dEuler>) => {
+    if (!cropBox) return;
+    setCropBox(applySplatCropBoxGizmoChange(cropBox, change, cropMode));
+  }, [cropBox, cropMode, setCropBox]);
+
+  if (!visible || !cropBox) return null;
+
+  return (
+    <>
+      <lineSegments
+        geometry={edgesGeometry}
+        position={cropBox.center}
+        rotation={getSplatCropBoxDisplayRotation(cropBox, cropMode)}
+        scale={cropBox.size}
+        renderOrder={998}
+      >
+        <lineBasicMaterial color={VIZ_COLORS.interaction.hover} depthTest={false} transparent />
+      </lineSegments>
+      <TransformGizmo
+        center={cropBox.center}
+        size={getSplatCropBoxGizmoSize(cropBox)}
+        value={gizmoValue}
+        onChange={handleGizmoChange}
+      />
+    </>
+  );
+}
@@ -3,6 +3,7 @@ import { resolve } from 'node:path';
 import { describe, expect, it } from 'vitest';
 
 const forbiddenStaticImports = [
+  'cpuSplat',
   'gs-toolbox',
   'gaussianRenderer',
   'psnrSplatSession',
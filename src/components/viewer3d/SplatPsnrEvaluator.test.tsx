@@ -21,6 +21,7 @@ import {
 
 const {
   deviceLossListenerRef,
+  createCpuSplatPsnrSessionMock,
   createWebGpuSplatPsnrSessionMock,
   ensureSplatPsnrWebGpuDeviceMock,
   loadGaussianCloudFromFileMock,
@@ -31,6 +32,7 @@ const {
   deviceLossListenerRef: {
     current: null as ((info: GPUDeviceLostInfo) => void) | null,
   },
+  createCpuSplatPsnrSessionMock: vi.fn(),
   createWebGpuSplatPsnrSessionMock: vi.fn(),
   ensureSplatPsnrWebGpuDeviceMock: vi.fn(),
   loadGaussianCloudFromFileMock: vi.fn(),
@@ -47,6 +49,10 @@ vi.mock('../../splat/webgpu/psnrSplatSession', () => ({
   createWebGpuSplatPsnrSession: createWebGpuSplatPsnrSessionMock,
 }));
 
+vi.mock('../../splat/cpu/cpuSplatPsnrSession', () => ({
+  createCpuSplatPsnrSession: createCpuSplatPsnrSessionMock,
+}));
+
 vi.mock('../../splat/gaussianCloudLoader', () => ({
   loadGaussianCloudFromFile: loadGaussianCloudFromFileMock,
 }));
@@ -83,6 +89,7 @@ function createMetricCapability(): SplatMetricCapability {
   return {
     backend: 'webgpu',
     gpuPsnr: true,
+    cpuPsnr: false,
     status: 'available',
     reason: 'WebGPU PSNR is available',
   };
@@ -323,6 +330,51 @@ describe('SplatPsnrEvaluator', () => {
     expect(prefetchFrustumTexturesInBackgroundMock).not.toHaveBeenCalled();
   });
 
+  it('computes metrics through the CPU fallback session at reduced resolution when WebGPU is unavailable', async () => {
+    const computeImageMetric = vi.fn().mockResolvedValue({ psnr: 24, ssim: 0.8, mse: 260, validPixelCount: 76800 });
+    createCpuSplatPsnrSessionMock.mockResolvedValue({
+      maxRenderDimension: 320,
+      computeImageMetric,
+      dispose: vi.fn(),
+    });
+    const camera = buildCamera({ width: 640, height: 480 });
+    const image = buildImage({ cameraId: camera.cameraId });
+    const { facade, actions } = createFacade({
+      reconstruction: buildReconstruction({ cameras: [camera], images: [image] }),
+      splatPsnrComputeRequest: { id: 1, scope: 'selected', selectedImageId: image.imageId },
+      splatBackendResolution: {
+        status: 'resolved',
+        requested: 'auto',
+        backend: 'spark',
+        reason: 'Spark fallback selected because WebGPU is unsupported',
+        gpuPsnr: false,
+      },
+      splatMetricCapability: {
+        backend: 'spark',
+        gpuPsnr: false,
+        cpuPsnr: true,
+        status: 'available',
+        reason: 'Spark PSNR/SSIM metric capability is ready',
+      },
+    });
+    useSplatPsnrEvaluatorStoreFacadeMock.mockImplementation(() => facade);
+
+    render(<SplatPsnrEvaluator />);
+
+    await waitFor(() => {
+      expect(actions.setSplatPsnrMetric).toHaveBeenCalledWith(expect.objectContaining({
+        imageId: image.imageId,
+        psnr: 24,
+        width: 320,
+        height: 240,
+      }));
+    });
+    expect(computeImageMetric).toHaveBeenCalledWith(expect.objectContaining({ image, width: 320, height: 240 }));
+    expect(createCpuSplatPsnrSessionMock).toHaveBeenCalledWith({ splatFile: facade.data.splatFile });
+    expect(ensureSplatPsnrWebGpuDeviceMock).not.toHaveBeenCalled();
+    expect(createWebGpuSplatPsnrSessionMock).not.toHaveBeenCalled();
+  });
+
   it('does not probe the PSNR WebGPU device before the visible WebGPU renderer is ready', async () => {
     const { facade } = createFacade({
       splatBackendResolution: {
@@ -335,6 +387,7 @@ describe('SplatPsnrEvaluator', () => {
       splatMetricCapability: {
         backend: null,
         gpuPsnr: false,
+        cpuPsnr: false,
         status: 'unavailable',
         reason: 'WebGPU PSNR is not ready',
       },
@@ -1342,6 +1395,7 @@ describe('SplatPsnrEvaluator', () => {
       status: 'unavailable',
       backend: null,
       gpuPsnr: false,
+      cpuPsnr: false,
       reason: 'WebGPU PSNR failed to initialize: adapter reset',
     };
     facade.data.splatPsnrFrameReady = false;
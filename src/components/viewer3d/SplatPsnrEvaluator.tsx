@@ -7,14 +7,9 @@ import type { LoadedGaussianCloud } from '../../splat/gaussianCloud';
 import { prefetchFrustumTexturesInBackground } from '../../hooks/useFrustumTexture';
 import { useLatestRef } from '../../hooks/useLatestRef';
 import { appLogger } from '../../utils/logger';
-import {
-  composeSim3d,
-  createSim3dFromEuler,
-  isIdentityEuler,
-  sim3dToEuler,
-} from '../../utils/sim3dTransforms';
 import {
   ensureSplatPsnrWebGpuDevice,
+  getSplatModelTransform,
   getSplatPsnrRenderSize,
   subscribeSplatPsnrWebGpuDeviceLoss,
   type PsnrResult,
@@ -42,7 +37,16 @@ import {
   getSplatPsnrImageSelection,
 } from './splatPsnrImageIds';
 
+/**
+ * Which renderer computes metrics: the WebGPU metric session at full camera
+ * resolution, or the CPU rasterizer worker at reduced resolution when the
+ * visible splat is drawn by Spark because WebGPU is unavailable.
+ */
+type SplatPsnrBackend = 'webgpu' | 'cpu';
+
 interface SplatPsnrRenderSession {
+  /** Longest render side; unset renders at full camera resolution. */
+  maxRenderDimension?: number;
   computeImageMetric: (options: {
     imageFile: File;
     maskFile?: File | null;
@@ -109,6 +113,7 @@ interface SplatPsnrDataIdentity {
   reconstruction: Reconstruction;
   dataset: SplatPsnrDatasetIdentity;
   splatFile: File;
+  backend: SplatPsnrBackend;
 }
 
 interface SplatPsnrEvaluatorSnapshot {
@@ -116,6 +121,7 @@ interface SplatPsnrEvaluatorSnapshot {
   dataset: DatasetManager;
   datasetIdentity: SplatPsnrDatasetIdentity;
   splatFile?: File;
+  metricBackend: SplatPsnrBackend | null;
   splatPsnrFrameReady: boolean;
   splatPsnrComputeRequest: SplatPsnrComputeRequest | null;
   transform: Sim3dEuler;
@@ -137,30 +143,17 @@ const BACKGROUND_PSNR_START_DELAY_MS = 1500;
 const BACKGROUND_IMAGE_PLANE_TEXTURE_COLLECT_BATCH_SIZE = 32;
 const WEBGPU_METRIC_ADAPTER_RETRY_DELAY_MS = 5000;
 
-function getSplatModelTransform(
-  transform: Sim3dEuler,
-  splatTransform: Sim3dEuler
-): Sim3dEuler | undefined {
-  const hasTransform = !isIdentityEuler(transform);
-  const hasSplatTransform = !isIdentityEuler(splatTransform);
-  if (!hasTransform && !hasSplatTransform) return undefined;
-  if (!hasTransform) return splatTransform;
-  if (!hasSplatTransform) return transform;
-  return sim3dToEuler(composeSim3d(
-    createSim3dFromEuler(transform),
-    createSim3dFromEuler(splatTransform)
-  ));
-}
-
 function getSplatPsnrDataIdentity(snapshot: {
   reconstruction: Reconstruction;
   datasetIdentity: SplatPsnrDatasetIdentity;
   splatFile: File;
+  backend: SplatPsnrBackend;
 }): SplatPsnrDataIdentity {
   return {
     reconstruction: snapshot.reconstruction,
     dataset: snapshot.datasetIdentity,
     splatFile: snapshot.splatFile,
+    backend: snapshot.backend,
   };
 }
 
@@ -174,6 +167,7 @@ function getSplatPsnrDataIdentityMismatchReason(
   if (a.dataset.maskUrlBase !== b.dataset.maskUrlBase) return 'dataset mask base changed';
   if (a.dataset.loadedFiles !== b.dataset.loadedFiles) return 'dataset files changed';
   if (a.splatFile !== b.splatFile) return 'splat file changed';
+  if (a.backend !== b.backend) return 'metric backend changed';
   return null;
 }
 
@@ -233,9 +227,16 @@ function getWebGpuDeviceLostMessage(info: GPUDeviceLostInfo): string {
 
 async function createSplatPsnrRenderSession({
   splatFile,
+  backend,
 }: {
   splatFile: File;
+  backend: SplatPsnrBackend;
 }): Promise<SplatPsnrRenderSession> {
+  if (backend === 'cpu') {
+    const { createCpuSplatPsnrSession } = await import('../../splat/cpu/cpuSplatPsnrSession');
+    return createCpuSplatPsnrSession({ splatFile });
+  }
+
   const [
     { loadGaussianCloudFromFile },
     { createWebGpuSplatPsnrSession },
@@ -411,7 +412,7 @@ async function prepareSplatPsnrImage(
     shouldCancel: () => task.cancelled,
   });
 
-  const size = getSplatPsnrRenderSize(camera);
+  const size = getSplatPsnrRenderSize(camera, task.renderSession?.maxRenderDimension);
   if (size.width <= 0 || size.height <= 0) {
     setSplatPsnrImageError(imageId, 'Invalid render size');
     return null;
@@ -800,7 +801,11 @@ export function SplatPsnrEvaluator() {
   const imagePlaneTexturePrefetchRunRef = useRef(0);
   const visibleWebGpuSplatReady = splatBackendResolution.status === 'resolved'
     && splatBackendResolution.backend === 'webgpu';
-  const gpuPsnrAvailable = visibleWebGpuSplatReady && splatMetricCapability.gpuPsnr;
+  const metricBackend: SplatPsnrBackend | null = visibleWebGpuSplatReady && splatMetricCapability.gpuPsnr
+    ? 'webgpu'
+    : splatMetricCapability.cpuPsnr
+      ? 'cpu'
+      : null;
   const currentActions = useMemo<SplatPsnrTaskActions>(() => ({
     setSplatPsnrPending,
     setSplatPsnrComputingImage,
@@ -838,7 +843,10 @@ export function SplatPsnrEvaluator() {
     }
 
     releaseCachedRenderSession();
-    const renderSession = await createSplatPsnrRenderSession({ splatFile: nextSplatFile });
+    const renderSession = await createSplatPsnrRenderSession({
+      splatFile: nextSplatFile,
+      backend: dataIdentity.backend,
+    });
     cachedRenderSessionRef.current = {
       dataIdentity,
       renderSession,
@@ -851,6 +859,7 @@ export function SplatPsnrEvaluator() {
     dataset,
     datasetIdentity,
     splatFile,
+    metricBackend,
     splatPsnrFrameReady,
     splatPsnrComputeRequest,
     transform,
@@ -865,7 +874,7 @@ export function SplatPsnrEvaluator() {
     reconstruction
     && splatFile
     && splatPsnrFrameReady
-    && gpuPsnrAvailable
+    && metricBackend
   );
 
   useEffect(() => {
@@ -940,7 +949,7 @@ export function SplatPsnrEvaluator() {
   useEffect(() => {
     let cancelled = false;
 
-    if (!reconstruction || !splatFile || !gpuPsnrAvailable) {
+    if (!reconstruction || !splatFile || !metricBackend) {
       setSplatPsnrFrameReady(false);
       return () => {
         cancelled = true;
@@ -959,7 +968,7 @@ export function SplatPsnrEvaluator() {
       setSplatPsnrFrameReady(false);
     };
   }, [
-    gpuPsnrAvailable,
+    metricBackend,
     reconstruction,
     setSplatPsnrFrameReady,
     splatFile,
@@ -989,13 +998,13 @@ export function SplatPsnrEvaluator() {
     if (
       !snapshot?.reconstruction
       || !snapshot.splatFile
-      || !gpuPsnrAvailable
+      || !metricBackend
     ) {
       const reason = !snapshot?.reconstruction
         ? 'reconstruction unloaded'
         : !snapshot.splatFile
           ? 'splat file unloaded'
-          : 'GPU metrics became unavailable';
+          : 'metrics became unavailable';
       cancelSplatPsnrTask(
         task,
         snapshot?.actions ?? currentActions,
@@ -1011,6 +1020,7 @@ export function SplatPsnrEvaluator() {
       reconstruction: snapshot.reconstruction,
       datasetIdentity: snapshot.datasetIdentity,
       splatFile: snapshot.splatFile,
+      backend: metricBackend,
     });
     const mismatchReason = getSplatPsnrDataIdentityMismatchReason(task.dataIdentity, nextIdentity);
     if (mismatchReason) {
@@ -1023,7 +1033,7 @@ export function SplatPsnrEvaluator() {
   }, [
     currentActions,
     datasetIdentity,
-    gpuPsnrAvailable,
+    metricBackend,
     latestSnapshotRef,
     releaseCachedRenderSession,
     reconstruction,
@@ -1034,7 +1044,7 @@ export function SplatPsnrEvaluator() {
     const cached = cachedRenderSessionRef.current;
     if (!cached) return;
 
-    if (!reconstruction || !splatFile || !gpuPsnrAvailable) {
+    if (!reconstruction || !splatFile || !metricBackend) {
       releaseCachedRenderSession();
       return;
     }
@@ -1043,20 +1053,21 @@ export function SplatPsnrEvaluator() {
       reconstruction,
       datasetIdentity,
       splatFile,
+      backend: metricBackend,
     });
     if (getSplatPsnrDataIdentityMismatchReason(cached.dataIdentity, nextIdentity)) {
       releaseCachedRenderSession();
     }
   }, [
     datasetIdentity,
-    gpuPsnrAvailable,
+    metricBackend,
     reconstruction,
     releaseCachedRenderSession,
     splatFile,
   ]);
 
   useEffect(() => {
-    if (!reconstruction || !splatFile || !gpuPsnrAvailable || reconstruction.images.size === 0) {
+    if (!reconstruction || !splatFile || !metricBackend || reconstruction.images.size === 0) {
       imagePlaneTexturePrefetchIdentityRef.current = null;
       return;
     }
@@ -1065,6 +1076,7 @@ export function SplatPsnrEvaluator() {
       reconstruction,
       datasetIdentity,
       splatFile,
+      backend: metricBackend,
     });
     if (hasSameSplatPsnrDataIdentity(imagePlaneTexturePrefetchIdentityRef.current, dataIdentity)) {
       return;
@@ -1094,7 +1106,7 @@ export function SplatPsnrEvaluator() {
   }, [
     dataset,
     datasetIdentity,
-    gpuPsnrAvailable,
+    metricBackend,
     reconstruction,
     splatFile,
   ]);
@@ -1104,6 +1116,7 @@ export function SplatPsnrEvaluator() {
       !featureReady
       || !reconstruction
       || !splatFile
+      || !metricBackend
       || reconstruction.images.size === 0
       || splatPsnrComputeRequest
     ) {
@@ -1114,6 +1127,7 @@ export function SplatPsnrEvaluator() {
       reconstruction,
       datasetIdentity,
       splatFile,
+      backend: metricBackend,
     });
     if (hasSameSplatPsnrDataIdentity(autoPsnrDataIdentityRef.current, dataIdentity)) {
       return;
@@ -1124,6 +1138,7 @@ export function SplatPsnrEvaluator() {
       if (
         !snapshot?.reconstruction
         || !snapshot.splatFile
+        || !snapshot.metricBackend
         || !snapshot.splatPsnrFrameReady
         || snapshot.splatPsnrComputeRequest
         || activeTaskRef.current
@@ -1135,6 +1150,7 @@ export function SplatPsnrEvaluator() {
         reconstruction: snapshot.reconstruction,
         datasetIdentity: snapshot.datasetIdentity,
         splatFile: snapshot.splatFile,
+        backend: snapshot.metricBackend,
       });
       if (!hasSameSplatPsnrDataIdentity(dataIdentity, latestIdentity)) {
         return;
@@ -1151,6 +1167,7 @@ export function SplatPsnrEvaluator() {
     datasetIdentity,
     featureReady,
     latestSnapshotRef,
+    metricBackend,
     reconstruction,
     requestSplatPsnrCompute,
     splatFile,
@@ -1183,6 +1200,7 @@ export function SplatPsnrEvaluator() {
       !featureReady
       || !snapshot?.reconstruction
       || !snapshot.splatFile
+      || !snapshot.metricBackend
       || !snapshot.splatPsnrFrameReady
       || !request
     ) {
@@ -1217,6 +1235,7 @@ export function SplatPsnrEvaluator() {
       reconstruction: snapshot.reconstruction,
       datasetIdentity: snapshot.datasetIdentity,
       splatFile: snapshot.splatFile,
+      backend: snapshot.metricBackend,
     });
     const task: SplatPsnrTaskControl = {
       requestId: nextRequestId,
@@ -5,6 +5,8 @@ import { useNavigationNode, useAxesNode, useCamerasNode, useSelectionNode } from
 import { useNavigationNodeActions, useCamerasNodeActions, usePointsNodeActions } from '../../nodes';
 import { getCameraScaleValue } from './cameraFrustumViewModel';
 import type { CameraViewState } from '../../store/types';
+import { getMovementKeyMap } from '../../config/hotkeys';
+import { useHotkeyBindings } from '../../hooks/useHotkeyBindings';
 import { getWorldUp } from '../../utils/coordinateSystems';
 import { isSphericalCameraModel } from '../../utils/cameraModelRegistry';
 import { CONTROLS } from '../../theme';
@@ -20,8 +22,10 @@ import {
   useTrackballViewResets,
   useTrackballViewStateSync,
 } from './useTrackballCameraLifecycle';
+import { useTrackballCameraPathPlayback } from './useTrackballCameraPathPlayback';
 import { useTrackballFlyTo, type TrackballAnimationTarget } from './useTrackballFlyTo';
 import { useTrackballFrameLoop } from './useTrackballFrameLoop';
+import { useTrackballTrajectoryPlayback } from './useTrackballTrajectoryPlayback';
 import { useTrackballInputHandlers } from './useTrackballInputHandlers';
 import { useTrackballControlsStoreFacade } from './useTrackballControlsStoreFacade';
 
@@ -41,7 +45,14 @@ export function TrackballControls({ target, radius, resetTrigger, viewDirection,
       pickingMode,
       transform,
       touchMode,
+      cameraPathKeyframes,
+      cameraPathLoop,
+      cameraPathPlaybackStartTime,
+      trajectoryOrder,
+      trajectoryLoop,
+      trajectoryClock,
     },
+    actions: { stopCameraPath, finishTrajectory },
   } = useTrackballControlsStoreFacade();
 
   // Node hooks for reading state
@@ -105,6 +116,8 @@ export function TrackballControls({ target, radius, resetTrigger, viewDirection,
 
   // Fly mode state
   const keysPressed = useRef<Set<string>>(new Set());
+  const hotkeys = useHotkeyBindings();
+  const movementKeys = useMemo(() => getMovementKeyMap(hotkeys), [hotkeys]);
   const flyVelocity = useRef(new THREE.Vector3());
 
   // Ref to allow other components to signal that they handled a wheel event
@@ -140,6 +153,29 @@ export function TrackballControls({ target, radius, resetTrigger, viewDirection,
   // Track dragging state - shared with other components to disable interactions during orbit
   const dragging = useRef(false);
 
+  const cameraPathPlayback = useTrackballCameraPathPlayback({
+    keyframes: cameraPathKeyframes,
+    loop: cameraPathLoop,
+    playbackStartTime: cameraPathPlaybackStartTime,
+    stop: stopCameraPath,
+  });
+
+  const trajectoryPlayback = useTrackballTrajectoryPlayback({
+    reconstruction,
+    transform,
+    horizonLock,
+    worldUpVec,
+    cameraScale,
+    undistortionEnabled,
+    camera,
+    cameraFov,
+    distanceRef: distance,
+    order: trajectoryOrder,
+    loop: trajectoryLoop,
+    clock: trajectoryClock,
+    finish: finishTrajectory,
+  });
+
   const rotateSpeed = CONTROLS.rotateSpeed;
   const panSpeed = CONTROLS.panSpeed;
   const zoomSpeed = CONTROLS.zoomSpeed;
@@ -164,6 +200,8 @@ export function TrackballControls({ target, radius, resetTrigger, viewDirection,
     flyVelocityRef: flyVelocity,
     keysPressedRef: keysPressed,
     animationTargetRef: animationTarget,
+    cameraPathPlaybackRef: cameraPathPlayback,
+    trajectoryPlaybackRef: trajectoryPlayback,
   });
 
   useTrackballViewResets({
@@ -303,6 +341,7 @@ export function TrackballControls({ target, radius, resetTrigger, viewDirection,
     lastMouseRef: lastMouse,
     lastTimeRef: lastTime,
     keysPressedRef: keysPressed,
+    movementKeys,
     wheelHandledRef: wheelHandled,
     animationTargetRef: animationTarget,
     touchPointersRef: touchPointers,
@@ -0,0 +1,60 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDataset } from '../../dataset';
+import { useThumbnail } from '../../hooks/useThumbnail';
+import { useTrajectoryPlaybackPosition } from '../../hooks/useTrajectoryPlaybackPosition';
+import { getTrajectoryImageIds, getTrajectoryImageIndex } from '../../utils/trajectoryPlaybackPolicy';
+import { useTrajectoryPhotoOverlayStoreFacade } from './useTrajectoryPhotoOverlayStoreFacade';
+
+/**
+ * Picture-in-picture of the photo taken at the trajectory player's current
+ * image, so the render can be checked against what the camera saw.
+ */
+export function TrajectoryPhotoOverlay() {
+  const { reconstruction, order, loop, showPhoto, clock } = useTrajectoryPhotoOverlayStoreFacade();
+  const dataset = useDataset();
+  const [imageCacheVersion, setImageCacheVersion] = useState(0);
+  const visible = showPhoto && clock.status !== 'stopped' && reconstruction !== null;
+
+  const imageIds = useMemo(
+    () => (visible && reconstruction ? getTrajectoryImageIds(reconstruction, order) : []),
+    [order, reconstruction, visible]
+  );
+  const position = useTrajectoryPlaybackPosition(clock, loop, imageIds.length, visible);
+  const imageId = imageIds[getTrajectoryImageIndex(position, imageIds.length)];
+  const imageName = (imageId !== undefined ? reconstruction?.images.get(imageId)?.name : undefined) ?? null;
+
+  useEffect(() => {
+    if (!imageName || !dataset.hasImages() || dataset.getImageSync(imageName) !== undefined) return;
+    let cancelled = false;
+    dataset.getImage(imageName).then((file) => {
+      if (!cancelled && file) setImageCacheVersion((version) => version + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset, imageName]);
+
+  const file = useMemo(() => {
+    void imageCacheVersion;
+    return imageName ? dataset.getImageSync(imageName) : undefined;
+  }, [dataset, imageCacheVersion, imageName]);
+  const src = useThumbnail(file, imageName ?? '', visible && file !== undefined);
+
+  if (!visible || !imageName) return null;
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 w-64 rounded border border-ds-border bg-ds-tertiary/80 p-1 pointer-events-none"
+      data-testid="trajectory-photo-overlay"
+    >
+      {src ? (
+        <img src={src} alt={imageName} className="w-full rounded" draggable={false} />
+      ) : (
+        <div className="h-36 flex items-center justify-center text-xs text-ds-muted">
+          {dataset.hasImages() ? 'Loading…' : 'No image files loaded'}
+        </div>
+      )}
+      <div className="mt-1 truncate text-xs text-ds-primary">{imageName}</div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useRef, useState, useCallback, useEffect } from 'react';
 import * as THREE from 'three';
 import { useThree, type ThreeEvent } from '@react-three/fiber';
 import { VIZ_COLORS } from '../../theme';
+import type { Sim3dEuler } from '../../types/sim3d';
 import {
   RotationArc,
   TranslationArrow,
@@ -36,18 +37,24 @@ import { useTransformGizmoStoreFacade } from './useTransformGizmoStoreFacade';
 interface TransformGizmoProps {
   center: [number, number, number];
   size: number;
+  /**
+   * Pose to manipulate instead of the scene transform (e.g. the splat crop
+   * box). The scene transform context menu is disabled while set.
+   */
+  value?: Sim3dEuler;
+  onChange?: (transform: Partial<Sim3dEuler>) => void;
 }
 
-export function TransformGizmo({ center, size }: TransformGizmoProps) {
+export function TransformGizmo({ center, size, value, onChange }: TransformGizmoProps) {
   const { camera, gl } = useThree();
   const controls = useTrackballControlsApi();
   const {
     data: {
-      transform,
+      transform: sceneTransform,
       droppedFiles,
     },
     actions: {
-      setTransform,
+      setTransform: setSceneTransform,
       resetTransform,
       setShowGizmo,
       applyTransformToData,
@@ -55,6 +62,9 @@ export function TransformGizmo({ center, size }: TransformGizmoProps) {
       processFiles,
     },
   } = useTransformGizmoStoreFacade();
+  const transform = value ?? sceneTransform;
+  const setTransform = onChange ?? setSceneTransform;
+  const hasContextMenu = !onChange;
 
   // Drag state
   const [hoveredAxis, setHoveredAxis] = useState<GizmoAxis>(null);
@@ -195,8 +205,10 @@ export function TransformGizmo({ center, size }: TransformGizmoProps) {
     // Also stop native DOM event to prevent global context menu from opening
     e.nativeEvent.stopPropagation();
     e.nativeEvent.preventDefault();
-    setContextMenu({ x: e.nativeEvent.clientX, y: e.nativeEvent.clientY });
-  }, []);
+    if (hasContextMenu) {
+      setContextMenu({ x: e.nativeEvent.clientX, y: e.nativeEvent.clientY });
+    }
+  }, [hasContextMenu]);
 
   const handleContextPointerDown = useCallback((e: ThreeEvent<PointerEvent>) => {
     markSceneObjectTouchDownForTouchPointer(e.nativeEvent.pointerType);
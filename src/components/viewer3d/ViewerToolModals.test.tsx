@@ -39,12 +39,120 @@ vi.mock('../modals/AutoHideModal', () => ({
   ),
 }));
 
+vi.mock('../modals/CovisibilityGraphModal', () => ({
+  CovisibilityGraphModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="covisibility-graph-modal" data-open={String(isOpen)} onClick={onClose}>
+      covisibility
+    </button>
+  ),
+}));
+
+vi.mock('../modals/ReconstructionDiffModal', () => ({
+  ReconstructionDiffModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="reconstruction-diff-modal" data-open={String(isOpen)} onClick={onClose}>
+      reconstruction-diff
+    </button>
+  ),
+}));
+
+vi.mock('../modals/ReferenceAlignmentModal', () => ({
+  ReferenceAlignmentModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="reference-alignment-modal" data-open={String(isOpen)} onClick={onClose}>
+      reference-alignment
+    </button>
+  ),
+}));
+
+vi.mock('../modals/GcpModal', () => ({
+  GcpModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="gcp-modal" data-open={String(isOpen)} onClick={onClose}>
+      gcp
+    </button>
+  ),
+}));
+
+vi.mock('../modals/IntrinsicsReportModal', () => ({
+  IntrinsicsReportModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="intrinsics-report-modal" data-open={String(isOpen)} onClick={onClose}>
+      intrinsics-report
+    </button>
+  ),
+}));
+
+vi.mock('../modals/PointEditModal', () => ({
+  PointEditModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="point-edit-modal" data-open={String(isOpen)} onClick={onClose}>
+      point-edit
+    </button>
+  ),
+}));
+
+vi.mock('../modals/SplatEditModal', () => ({
+  SplatEditModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="splat-edit-modal" data-open={String(isOpen)} onClick={onClose}>
+      splat-edit
+    </button>
+  ),
+}));
+
+vi.mock('../modals/SplatCompareModal', () => ({
+  SplatCompareModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="splat-compare-modal" data-open={String(isOpen)} onClick={onClose}>
+      splat-compare
+    </button>
+  ),
+}));
+
+vi.mock('../modals/SplatPathVideoModal', () => ({
+  SplatPathVideoModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="splat-path-video-modal" data-open={String(isOpen)} onClick={onClose}>
+      splat-path-video
+    </button>
+  ),
+}));
+
+vi.mock('../modals/CameraPathModal', () => ({
+  CameraPathModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="camera-path-modal" data-open={String(isOpen)} onClick={onClose}>
+      camera-path
+    </button>
+  ),
+}));
+
+vi.mock('../modals/MeasurementModal', () => ({
+  MeasurementModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="measurement-modal" data-open={String(isOpen)} onClick={onClose}>
+      measurements
+    </button>
+  ),
+}));
+
+vi.mock('../modals/TrajectoryModal', () => ({
+  TrajectoryModal: ({ isOpen, onClose }: MockModalProps) => (
+    <button data-testid="trajectory-modal" data-open={String(isOpen)} onClick={onClose}>
+      trajectory
+    </button>
+  ),
+}));
+
 describe('ViewerToolModals', () => {
   it('passes open state and close handlers to each tool modal', () => {
     const setShowFloorModal = vi.fn();
     const setShowDeletionModal = vi.fn();
     const setShowConversionModal = vi.fn();
     const setShowAutoHideEditor = vi.fn();
+    const setShowCovisibilityGraph = vi.fn();
+    const setShowReconstructionDiff = vi.fn();
+    const setShowReferenceAlignment = vi.fn();
+    const setShowGcp = vi.fn();
+    const setShowIntrinsicsReport = vi.fn();
+    const setShowPointEdit = vi.fn();
+    const setShowSplatEdit = vi.fn();
+    const setShowSplatCompare = vi.fn();
+    const setShowSplatPathVideo = vi.fn();
+    const setShowCameraPath = vi.fn();
+    const setShowTrajectory = vi.fn();
+    const setShowMeasurements = vi.fn();
 
     render(
       <ViewerToolModals
@@ -56,6 +164,30 @@ describe('ViewerToolModals', () => {
         setShowConversionModal={setShowConversionModal}
         showAutoHideEditor={false}
         setShowAutoHideEditor={setShowAutoHideEditor}
+        showCovisibilityGraph={true}
+        setShowCovisibilityGraph={setShowCovisibilityGraph}
+        showReconstructionDiff={true}
+        setShowReconstructionDiff={setShowReconstructionDiff}
+        showReferenceAlignment={true}
+        setShowReferenceAlignment={setShowReferenceAlignment}
+        showGcp={true}
+        setShowGcp={setShowGcp}
+        showIntrinsicsReport={true}
+        setShowIntrinsicsReport={setShowIntrinsicsReport}
+        showPointEdit={true}
+        setShowPointEdit={setShowPointEdit}
+        showSplatEdit={true}
+        setShowSplatEdit={setShowSplatEdit}
+        showSplatCompare={false}
+        setShowSplatCompare={setShowSplatCompare}
+        showSplatPathVideo={true}
+        setShowSplatPathVideo={setShowSplatPathVideo}
+        showCameraPath={false}
+        setShowCameraPath={setShowCameraPath}
+        showTrajectory={true}
+        setShowTrajectory={setShowTrajectory}
+        showMeasurements={true}
+        setShowMeasurements={setShowMeasurements}
       />
     );
 
@@ -63,15 +195,51 @@ describe('ViewerToolModals', () => {
     expect(screen.getByTestId('deletion-modal')).toHaveAttribute('data-open', 'false');
     expect(screen.getByTestId('conversion-modal')).toHaveAttribute('data-open', 'true');
     expect(screen.getByTestId('auto-hide-modal')).toHaveAttribute('data-open', 'false');
+    expect(screen.getByTestId('covisibility-graph-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('reconstruction-diff-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('reference-alignment-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('gcp-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('intrinsics-report-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('point-edit-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('splat-edit-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('splat-compare-modal')).toHaveAttribute('data-open', 'false');
+    expect(screen.getByTestId('splat-path-video-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('camera-path-modal')).toHaveAttribute('data-open', 'false');
+    expect(screen.getByTestId('trajectory-modal')).toHaveAttribute('data-open', 'true');
+    expect(screen.getByTestId('measurement-modal')).toHaveAttribute('data-open', 'true');
 
     fireEvent.click(screen.getByTestId('floor-modal'));
     fireEvent.click(screen.getByTestId('deletion-modal'));
     fireEvent.click(screen.getByTestId('conversion-modal'));
     fireEvent.click(screen.getByTestId('auto-hide-modal'));
+    fireEvent.click(screen.getByTestId('covisibility-graph-modal'));
+    fireEvent.click(screen.getByTestId('reconstruction-diff-modal'));
+    fireEvent.click(screen.getByTestId('reference-alignment-modal'));
+    fireEvent.click(screen.getByTestId('gcp-modal'));
+    fireEvent.click(screen.getByTestId('intrinsics-report-modal'));
+    fireEvent.click(screen.getByTestId('point-edit-modal'));
+    fireEvent.click(screen.getByTestId('splat-edit-modal'));
+    fireEvent.click(screen.getByTestId('splat-compare-modal'));
+    fireEvent.click(screen.getByTestId('splat-path-video-modal'));
+    fireEvent.click(screen.getByTestId('camera-path-modal'));
+    fireEvent.click(screen.getByTestId('trajectory-modal'));
+    fireEvent.click(screen.getByTestId('measurement-modal'));
 
     expect(setShowFloorModal).toHaveBeenCalledWith(false);
     expect(setShowDeletionModal).toHaveBeenCalledWith(false);
     expect(setShowConversionModal).toHaveBeenCalledWith(false);
     expect(setShowAutoHideEditor).toHaveBeenCalledWith(false);
+    expect(setShowCovisibilityGraph).toHaveBeenCalledWith(false);
+    expect(setShowReconstructionDiff).toHaveBeenCalledWith(false);
+    expect(setShowReferenceAlignment).toHaveBeenCalledWith(false);
+    expect(setShowGcp).toHaveBeenCalledWith(false);
+    expect(setShowIntrinsicsReport).toHaveBeenCalledWith(false);
+    expect(setShowPointEdit).toHaveBeenCalledWith(false);
+    expect(setShowSplatEdit).toHaveBeenCalledWith(false);
+    expect(setShowSplatCompare).toHaveBeenCalledWith(false);
+    expect(setShowSplatPathVideo).toHaveBeenCalledWith(false);
+    expect(setShowCameraPath).toHaveBeenCalledWith(false);
+    expect(setShowTrajectory).toHaveBeenCalledWith(false);
+    expect(setShowMeasurements).toHaveBeenCalledWith(false);
   });
 });
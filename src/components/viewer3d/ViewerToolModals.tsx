@@ -1,7 +1,19 @@
 import { AutoHideModal } from '../modals/AutoHideModal';
 import { CameraConversionModal } from '../modals/CameraConversionModal';
+import { CameraPathModal } from '../modals/CameraPathModal';
+import { CovisibilityGraphModal } from '../modals/CovisibilityGraphModal';
 import { DeletionModal } from '../modals/DeletionModal';
 import { FloorDetectionModal } from '../modals/FloorDetectionModal';
+import { GcpModal } from '../modals/GcpModal';
+import { IntrinsicsReportModal } from '../modals/IntrinsicsReportModal';
+import { MeasurementModal } from '../modals/MeasurementModal';
+import { PointEditModal } from '../modals/PointEditModal';
+import { ReconstructionDiffModal } from '../modals/ReconstructionDiffModal';
+import { ReferenceAlignmentModal } from '../modals/ReferenceAlignmentModal';
+import { SplatCompareModal } from '../modals/SplatCompareModal';
+import { SplatEditModal } from '../modals/SplatEditModal';
+import { SplatPathVideoModal } from '../modals/SplatPathVideoModal';
+import { TrajectoryModal } from '../modals/TrajectoryModal';
 
 export interface ViewerToolModalsProps {
   showFloorModal: boolean;
@@ -12,6 +24,30 @@ export interface ViewerToolModalsProps {
   setShowConversionModal: (show: boolean) => void;
   showAutoHideEditor: boolean;
   setShowAutoHideEditor: (show: boolean) => void;
+  showCovisibilityGraph: boolean;
+  setShowCovisibilityGraph: (show: boolean) => void;
+  showReconstructionDiff: boolean;
+  setShowReconstructionDiff: (show: boolean) => void;
+  showReferenceAlignment: boolean;
+  setShowReferenceAlignment: (show: boolean) => void;
+  showGcp: boolean;
+  setShowGcp: (show: boolean) => void;
+  showIntrinsicsReport: boolean;
+  setShowIntrinsicsReport: (show: boolean) => void;
+  showPointEdit: boolean;
+  setShowPointEdit: (show: boolean) => void;
+  showSplatEdit: boolean;
+  setShowSplatEdit: (show: boolean) => void;
+  showSplatCompare: boolean;
+  setShowSplatCompare: (show: boolean) => void;
+  showSplatPathVideo: boolean;
+  setShowSplatPathVideo: (show: boolean) => void;
+  showCameraPath: boolean;
+  setShowCameraPath: (show: boolean) => void;
+  showTrajectory: boolean;
+  setShowTrajectory: (show: boolean) => void;
+  showMeasurements: boolean;
+  setShowMeasurements: (show: boolean) => void;
 }
 
 export function ViewerToolModals({
@@ -23,6 +59,30 @@ export function ViewerToolModals({
   setShowConversionModal,
   showAutoHideEditor,
   setShowAutoHideEditor,
+  showCovisibilityGraph,
+  setShowCovisibilityGraph,
+  showReconstructionDiff,
+  setShowReconstructionDiff,
+  showReferenceAlignment,
+  setShowReferenceAlignment,
+  showGcp,
+  setShowGcp,
+  showIntrinsicsReport,
+  setShowIntrinsicsReport,
+  showPointEdit,
+  setShowPointEdit,
+  showSplatEdit,
+  setShowSplatEdit,
+  showSplatCompare,
+  setShowSplatCompare,
+  showSplatPathVideo,
+  setShowSplatPathVideo,
+  showCameraPath,
+  setShowCameraPath,
+  showTrajectory,
+  setShowTrajectory,
+  showMeasurements,
+  setShowMeasurements,
 }: ViewerToolModalsProps) {
   return (
     <>
@@ -42,6 +102,54 @@ export function ViewerToolModals({
         isOpen={showAutoHideEditor}
         onClose={() => setShowAutoHideEditor(false)}
       />
+      <CovisibilityGraphModal
+        isOpen={showCovisibilityGraph}
+        onClose={() => setShowCovisibilityGraph(false)}
+      />
+      <ReconstructionDiffModal
+        isOpen={showReconstructionDiff}
+        onClose={() => setShowReconstructionDiff(false)}
+      />
+      <ReferenceAlignmentModal
+        isOpen={showReferenceAlignment}
+        onClose={() => setShowReferenceAlignment(false)}
+      />
+      <GcpModal
+        isOpen={showGcp}
+        onClose={() => setShowGcp(false)}
+      />
+      <IntrinsicsReportModal
+        isOpen={showIntrinsicsReport}
+        onClose={() => setShowIntrinsicsReport(false)}
+      />
+      <PointEditModal
+        isOpen={showPointEdit}
+        onClose={() => setShowPointEdit(false)}
+      />
+      <SplatEditModal
+        isOpen={showSplatEdit}
+        onClose={() => setShowSplatEdit(false)}
+      />
+      <SplatCompareModal
+        isOpen={showSplatCompare}
+        onClose={() => setShowSplatCompare(false)}
+      />
+      <SplatPathVideoModal
+        isOpen={showSplatPathVideo}
+        onClose={() => setShowSplatPathVideo(false)}
+      />
+      <CameraPathModal
+        isOpen={showCameraPath}
+        onClose={() => setShowCameraPath(false)}
+      />
+      <TrajectoryModal
+        isOpen={showTrajectory}
+        onClose={() => setShowTrajectory(false)}
+      />
+      <MeasurementModal
+        isOpen={showMeasurements}
+        onClose={() => setShowMeasurements(false)}
+      />
     </>
   );
 }
@@ -252,12 +252,14 @@ describe('WebGpuSplatCanvasLayer', () => {
     expect(shouldMountWebGpuSplatCanvas('webgpu', readyWebGpuAvailability, new File(['x'], 'scene.PLY')))
       .toBe(true);
     expect(shouldMountWebGpuSplatCanvas('webgpu', readyWebGpuAvailability, new File(['x'], 'scene.splat')))
+      .toBe(true);
+    expect(shouldMountWebGpuSplatCanvas('webgpu', readyWebGpuAvailability, new File(['x'], 'scene.sog')))
       .toBe(false);
     expect(shouldMountWebGpuSplatCanvas('spark', unavailableWebGpuAvailability, new File(['x'], 'scene.spz')))
       .toBe(false);
     expect(shouldMountWebGpuSplatCanvas('spark', readyWebGpuAvailability, new File(['x'], 'scene.spz')))
       .toBe(false);
-    expect(shouldMountWebGpuSplatCanvas('auto', unavailableWebGpuAvailability, new File(['x'], 'scene.splat')))
+    expect(shouldMountWebGpuSplatCanvas('auto', unavailableWebGpuAvailability, new File(['x'], 'scene.sog')))
       .toBe(false);
     expect(shouldMountWebGpuSplatCanvas('auto', { webGpu: 'unsupported', spark: true }, new File(['x'], 'scene.spz')))
       .toBe(false);
@@ -86,6 +86,7 @@ export function WebGpuSplatCanvasLayer({
   onMetricRuntimeReady,
   onRuntimeFailed,
   onAdapterUnavailable,
+  clipPath,
 }: {
   mounted?: boolean;
   visible: boolean;
@@ -100,6 +101,8 @@ export function WebGpuSplatCanvasLayer({
   onMetricRuntimeReady?: () => void;
   onRuntimeFailed?: (reason: string) => void;
   onAdapterUnavailable?: (reason: string) => void;
+  /** CSS clip-path; the comparison canvas uses it to show only its side of the divider. */
+  clipPath?: string;
 }): JSX.Element | null {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const rendererRef = useRef<VisibleWebGpuSplatRendererAdapter | null>(null);
@@ -561,6 +564,7 @@ export function WebGpuSplatCanvasLayer({
       aria-hidden="true"
       data-testid="webgpu-splat-canvas"
       className={`pointer-events-none absolute inset-0 z-0 h-full w-full ${visible ? 'opacity-100' : 'opacity-0'}`}
+      style={clipPath ? { clipPath } : undefined}
     />
   );
 }
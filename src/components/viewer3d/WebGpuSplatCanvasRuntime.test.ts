@@ -105,4 +105,31 @@ describe('WebGPU splat canvas runtime', () => {
     unregister();
     expect(getActiveWebGpuSplatCanvasHost()).toBeNull();
   });
+
+  it('routes frame snapshots to a comparison canvas alongside the active one', () => {
+    const active = document.createElement('canvas');
+    const comparison = document.createElement('canvas');
+    const unregisterActive = registerWebGpuSplatCanvasHost({
+      canvas: active,
+      setFrameSnapshot: (snapshot) => resizeWebGpuSplatCanvas(active, snapshot.viewport),
+    });
+    const unregisterComparison = registerWebGpuSplatCanvasHost({
+      canvas: comparison,
+      setFrameSnapshot: (snapshot) => resizeWebGpuSplatCanvas(comparison, snapshot.viewport),
+    });
+
+    syncWebGpuSplatFrameSnapshot(createWebGpuSplatFrameSnapshot({
+      camera: new THREE.PerspectiveCamera(),
+      width: 100,
+      height: 50,
+      dpr: 1,
+    }));
+
+    expect(getActiveWebGpuSplatCanvasHost()?.canvas).toBe(active);
+    expect(comparison.width).toBe(100);
+    unregisterComparison();
+    expect(getActiveWebGpuSplatCanvasHost()?.canvas).toBe(active);
+    unregisterActive();
+    expect(getActiveWebGpuSplatCanvasHost()).toBeNull();
+  });
 });
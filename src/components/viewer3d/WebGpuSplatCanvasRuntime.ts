@@ -14,23 +14,28 @@ export interface WebGpuSplatCanvasHost {
   setFrameSnapshot: (snapshot: WebGpuSplatFrameSnapshot) => void;
 }
 
-let activeHost: WebGpuSplatCanvasHost | null = null;
+// The first host is the active splat's canvas; a comparison canvas registers
+// after it and follows the same camera.
+const hosts: WebGpuSplatCanvasHost[] = [];
 
 export function registerWebGpuSplatCanvasHost(host: WebGpuSplatCanvasHost): () => void {
-  activeHost = host;
+  hosts.push(host);
   return () => {
-    if (activeHost === host) {
-      activeHost = null;
+    const index = hosts.indexOf(host);
+    if (index >= 0) {
+      hosts.splice(index, 1);
     }
   };
 }
 
 export function syncWebGpuSplatFrameSnapshot(snapshot: WebGpuSplatFrameSnapshot): void {
-  activeHost?.setFrameSnapshot(snapshot);
+  for (const host of hosts) {
+    host.setFrameSnapshot(snapshot);
+  }
 }
 
 export function getActiveWebGpuSplatCanvasHost(): WebGpuSplatCanvasHost | null {
-  return activeHost;
+  return hosts[0] ?? null;
 }
 
 export function createWebGpuSplatViewportSnapshot(
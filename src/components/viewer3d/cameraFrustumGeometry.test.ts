@@ -314,9 +314,10 @@ describe('getFrustumPlaneSize spherical guard', () => {
 });
 
 describe('splat-metric color mode helpers', () => {
-  it('isSplatMetricColorMode is true only for the PSNR/SSIM metric modes', () => {
+  it('isSplatMetricColorMode is true only for the PSNR/SSIM/delta metric modes', () => {
     expect(isSplatMetricColorMode('splatPsnr')).toBe(true);
     expect(isSplatMetricColorMode('splatSsim')).toBe(true);
+    expect(isSplatMetricColorMode('splatPsnrDelta')).toBe(true);
     expect(isSplatMetricColorMode('single')).toBe(false);
     expect(isSplatMetricColorMode('byCamera')).toBe(false);
     expect(isSplatMetricColorMode('byRigFrame')).toBe(false);
@@ -339,6 +340,20 @@ describe('splat-metric color mode helpers', () => {
     expect(color).not.toBe(SPLAT_PSNR_UNAVAILABLE_COLOR);
   });
 
+  it('colors the PSNR delta mode from the per-image delta on a symmetric scale', () => {
+    const map = new Map([
+      [1 as ImageId, { psnr: 30, psnrDelta: 2 }],
+      [2 as ImageId, { psnr: 25, psnrDelta: -1 }],
+    ]);
+    const scale = getFrustumMetricColorScale('splatPsnrDelta', [1 as ImageId, 2 as ImageId], map);
+
+    expect(scale).toEqual({ min: -2, max: 2 });
+    expect(getFrustumBaseColor('splatPsnrDelta', true, 0, 1 as ImageId, new Map(), '#000000', map, scale))
+      .toBe('#22c55e');
+    expect(getFrustumBaseColor('splatPsnrDelta', true, 0, 3 as ImageId, new Map(), '#000000', map, scale))
+      .toBe(SPLAT_PSNR_UNAVAILABLE_COLOR);
+  });
+
   it('buildFrustumLineGeometryData colors a fisheye camera byCamera under splatPsnr', () => {
     const item = buildFrustumGeometryItem({ modelId: CameraModelId.FISHEYE, cameraIndex: 0, imageId: 1 as ImageId });
     const { baseColors } = buildFrustumLineGeometryData([item], 0.1, {
@@ -7,17 +7,20 @@ import { cameraModelHasPinholeIntrinsics } from '../../utils/cameraModelRegistry
 import { cameraModelSupportsSplatMetric } from '../../splat/splatMetricCapability';
 import {
   computeSplatMetricColorScale,
+  computeSplatPsnrDeltaColorScale,
   getSplatMetricScaleColor,
   getSplatPsnrColor,
+  getSplatPsnrDeltaColor,
   getSplatSsimColor,
   type SplatMetricColorScale,
 } from './splatPsnrMetric';
 
-export type FrustumColorMode = 'single' | 'byCamera' | 'byRigFrame' | 'splatPsnr' | 'splatSsim';
-export type FrustumPsnrMetricSource = ReadonlyMap<ImageId, { psnr: number; ssim?: number }>;
+export type FrustumColorMode = 'single' | 'byCamera' | 'byRigFrame' | 'splatPsnr' | 'splatSsim' | 'splatPsnrDelta';
+/** `psnrDelta` is PSNR_A − PSNR_B, set only while a comparison splat has been measured. */
+export type FrustumPsnrMetricSource = ReadonlyMap<ImageId, { psnr: number; ssim?: number; psnrDelta?: number }>;
 
 export function isSplatMetricColorMode(mode: FrustumColorMode): boolean {
-  return mode === 'splatPsnr' || mode === 'splatSsim';
+  return mode === 'splatPsnr' || mode === 'splatSsim' || mode === 'splatPsnrDelta';
 }
 
 export interface FrustumImageSource {
@@ -82,6 +85,9 @@ export function getFrustumBaseColor(
       ? getSplatMetricScaleColor(ssim, metricColorScale)
       : getSplatSsimColor(ssim);
   }
+  if (frustumColorMode === 'splatPsnrDelta') {
+    return getSplatPsnrDeltaColor(splatPsnrByImage?.get(imageId)?.psnrDelta, metricColorScale);
+  }
   if (frustumColorMode === 'byCamera') {
     return getCameraColor(cameraIndex);
   }
@@ -104,6 +110,11 @@ export function getFrustumMetricColorScale(
   if (frustumColorMode === 'splatSsim') {
     return computeSplatMetricColorScale(Array.from(imageIds, (imageId) => splatPsnrByImage.get(imageId)?.ssim));
   }
+  if (frustumColorMode === 'splatPsnrDelta') {
+    return computeSplatPsnrDeltaColorScale(
+      Array.from(imageIds, (imageId) => splatPsnrByImage.get(imageId)?.psnrDelta)
+    );
+  }
   return null;
 }
 
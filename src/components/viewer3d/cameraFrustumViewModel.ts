@@ -16,6 +16,7 @@ export {
   getFrustumBaseColor,
   getFrustumMetricColorScale,
   getFrustumPlaneSize,
+  isSplatMetricColorMode,
   type CameraFrustumItem,
   type FrustumColorMode,
   type FrustumGeometryItem,
@@ -93,4 +93,27 @@ describe('camera matches view-model helpers', () => {
       0, -2, 0,
     ]);
   });
+
+  it('draws connections from an override index for database match sources', () => {
+    const selected = buildImage({ imageId: 1, tvec: [1, 0, 0] });
+    const matched = buildImage({ imageId: 2, tvec: [0, 2, 0] });
+    const other = buildImage({ imageId: 3, tvec: [0, 0, 3] });
+    const reconstruction = buildReconstruction({
+      images: [selected, matched, other],
+      connectedImagesIndex: new Map([[selected.imageId, new Map([[matched.imageId, 5]])]]),
+    });
+
+    const positions = buildCameraMatchLinePositions({
+      reconstruction,
+      selectedImageId: selected.imageId,
+      showMatches: true,
+      cameraDisplayMode: 'frustum',
+      connectedImagesIndex: new Map([[selected.imageId, new Map([[other.imageId, 40]])]]),
+    });
+
+    expect(Array.from(positions ?? [])).toEqual([
+      -1, 0, 0,
+      0, 0, -3,
+    ]);
+  });
 });
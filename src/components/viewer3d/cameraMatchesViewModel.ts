@@ -1,5 +1,5 @@
 import type { CameraDisplayMode } from '../../store/types';
-import type { ImageId, Reconstruction } from '../../types/colmap';
+import type { ConnectedImagesIndex, ImageId, Reconstruction } from '../../types/colmap';
 import { getImageWorldPosition } from '../../utils/colmapTransforms';
 
 export interface CameraMatchLinePositionsOptions {
@@ -7,6 +7,8 @@ export interface CameraMatchLinePositionsOptions {
   selectedImageId: ImageId | null;
   showMatches: boolean;
   cameraDisplayMode: CameraDisplayMode;
+  /** Connections for the active match source; defaults to the reconstruction's. */
+  connectedImagesIndex?: ConnectedImagesIndex | null;
 }
 
 export function buildCameraMatchLinePositions({
@@ -14,6 +16,7 @@ export function buildCameraMatchLinePositions({
   selectedImageId,
   showMatches,
   cameraDisplayMode,
+  connectedImagesIndex,
 }: CameraMatchLinePositionsOptions): Float32Array | null {
   if (!reconstruction || selectedImageId === null || !showMatches || cameraDisplayMode === 'imageplane') {
     return null;
@@ -22,7 +25,7 @@ export function buildCameraMatchLinePositions({
   const selectedImage = reconstruction.images.get(selectedImageId);
   if (!selectedImage) return null;
 
-  const connections = reconstruction.connectedImagesIndex.get(selectedImageId);
+  const connections = (connectedImagesIndex ?? reconstruction.connectedImagesIndex).get(selectedImageId);
   if (!connections || connections.size === 0) return null;
 
   const selectedPosition = getImageWorldPosition(selectedImage);
@@ -2,9 +2,11 @@ import type { MouseEvent, PointerEvent, RefObject } from 'react';
 import type { ContextMenuAction } from '../../../store';
 import { modalStyles } from '../../../theme';
 import { formatKeyCombo } from '../../../config/hotkeys';
+import { useHotkeyBindings } from '../../../hooks/useHotkeyBindings';
 import { ToggleSwitch } from '../../ui/ToggleSwitch';
 import { FloatingWindowShell } from '../../ui/FloatingWindowShell';
 import {
+  getContextMenuActionHotkey,
   getContextMenuEditorActionStyle,
   getContextMenuEditorContentStyle,
   getContextMenuEditorOverlayStyle,
@@ -43,6 +45,8 @@ export function ContextMenuEditor({
   onDragStart,
   onMouseDown,
 }: ContextMenuEditorProps) {
+  const hotkeys = useHotkeyBindings();
+
   const handlePanelPointerDown = (event: PointerEvent<HTMLDivElement>) => {
     stopContextMenuSurfacePointerEvent(event);
   };
@@ -52,27 +56,30 @@ export function ContextMenuEditor({
     onMouseDown();
   };
 
-  const renderAction = (action: ActionDef) => (
-    <label
-      key={action.id}
-      className="flex items-center gap-2 cursor-pointer hover-ds-hover rounded px-2 py-1"
-      style={getContextMenuEditorActionStyle()}
-    >
-      <span className="w-4 h-4 flex-shrink-0 opacity-60">{action.icon}</span>
-      <span className="text-sm text-ds-primary whitespace-nowrap">{action.label}</span>
-      {action.hotkey && (
-        <span className="text-xs font-mono text-gray-500 uppercase tracking-wide">
-          ({formatKeyCombo(action.hotkey)})
+  const renderAction = (action: ActionDef) => {
+    const hotkey = getContextMenuActionHotkey(action, hotkeys);
+    return (
+      <label
+        key={action.id}
+        className="flex items-center gap-2 cursor-pointer hover-ds-hover rounded px-2 py-1"
+        style={getContextMenuEditorActionStyle()}
+      >
+        <span className="w-4 h-4 flex-shrink-0 opacity-60">{action.icon}</span>
+        <span className="text-sm text-ds-primary whitespace-nowrap">{action.label}</span>
+        {hotkey && (
+          <span className="text-xs font-mono text-gray-500 uppercase tracking-wide">
+            ({formatKeyCombo(hotkey)})
+          </span>
+        )}
+        <span className="ml-auto">
+          <ToggleSwitch
+            checked={enabledActionIds.includes(action.id)}
+            onChange={() => onToggleAction(action.id)}
+          />
         </span>
-      )}
-      <span className="ml-auto">
-        <ToggleSwitch
-          checked={enabledActionIds.includes(action.id)}
-          onChange={() => onToggleAction(action.id)}
-        />
-      </span>
-    </label>
-  );
+      </label>
+    );
+  };
 
   const renderSection = (group: ContextMenuConfigGroup<ActionDef>, colCount = 1) => {
     const columns = splitActionsIntoColumns(group.actions, colCount);
@@ -2,7 +2,9 @@ import type { RefObject } from 'react';
 import type { ContextMenuAction } from '../../../store';
 import { contextMenuStyles } from '../../../theme';
 import { formatKeyCombo } from '../../../config/hotkeys';
+import { useHotkeyBindings } from '../../../hooks/useHotkeyBindings';
 import {
+  getContextMenuActionHotkey,
   getContextMenuListStyle,
   type ContextMenuActionGroup,
   type MenuPosition,
@@ -31,6 +33,8 @@ export function ContextMenuList({
   editMenuAction,
   onAction,
 }: ContextMenuListProps) {
+  const hotkeys = useHotkeyBindings();
+
   return (
     <div
       ref={menuRef}
@@ -45,21 +49,24 @@ export function ContextMenuList({
       {groupedActions.map((group, groupIndex) => (
         <div key={group.section}>
           {groupIndex > 0 && <div className="border-t border-ds my-1" />}
-          {group.actions.map((action) => (
-            <button
-              key={action.id}
-              className={contextMenuStyles.button}
-              onClick={() => void onAction(action.id)}
-            >
-              <span className={contextMenuStyles.icon}>{action.icon}</span>
-              <span className="flex-1">{action.label}</span>
-              {action.hotkey && (
-                <span className={contextMenuStyles.hotkey}>
-                  ({formatKeyCombo(action.hotkey)})
-                </span>
-              )}
-            </button>
-          ))}
+          {group.actions.map((action) => {
+            const hotkey = getContextMenuActionHotkey(action, hotkeys);
+            return (
+              <button
+                key={action.id}
+                className={contextMenuStyles.button}
+                onClick={() => void onAction(action.id)}
+              >
+                <span className={contextMenuStyles.icon}>{action.icon}</span>
+                <span className="flex-1">{action.label}</span>
+                {hotkey && (
+                  <span className={contextMenuStyles.hotkey}>
+                    ({formatKeyCombo(hotkey)})
+                  </span>
+                )}
+              </button>
+            );
+          })}
         </div>
       ))}
       <div className="border-t border-ds my-1" />
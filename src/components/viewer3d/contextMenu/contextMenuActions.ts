@@ -1,6 +1,5 @@
 import { createElement, type ReactElement } from 'react';
 import type { ContextMenuAction } from '../../../store';
-import { HOTKEYS } from '../../../theme';
 import {
   ResetIcon, ReloadIcon, CheckIcon, SettingsIcon, FullscreenIcon, FilterIcon, SpeedIcon, SpeedDimIcon,
   PlusCircleIcon, MinusCircleIcon, CrosshairIcon,
@@ -18,35 +17,38 @@ export interface ActionDef {
   label: string;
   icon: ReactElement;
   section: ContextMenuSectionId;
+  /** Registry hotkey shown as the hint; follows the user's rebinds. */
+  hotkeyId?: string;
+  /** Fixed hint for shortcuts the registry does not own (browser F11). */
   hotkey?: string;
 }
 
 export const CONTEXT_MENU_ACTIONS: ActionDef[] = [
-  { id: 'resetView', label: 'Reset View', section: 'view', hotkey: HOTKEYS.resetView.keys, icon: createElement(ResetIcon) },
-  { id: 'viewPosX', label: 'View +X', section: 'view', hotkey: HOTKEYS.viewX.keys, icon: ViewPosXIcon },
-  { id: 'viewPosY', label: 'View +Y', section: 'view', hotkey: HOTKEYS.viewY.keys, icon: ViewPosYIcon },
-  { id: 'viewPosZ', label: 'View +Z', section: 'view', hotkey: HOTKEYS.viewZ.keys, icon: ViewPosZIcon },
+  { id: 'resetView', label: 'Reset View', section: 'view', hotkeyId: 'resetView', icon: createElement(ResetIcon) },
+  { id: 'viewPosX', label: 'View +X', section: 'view', hotkeyId: 'viewX', icon: ViewPosXIcon },
+  { id: 'viewPosY', label: 'View +Y', section: 'view', hotkeyId: 'viewY', icon: ViewPosYIcon },
+  { id: 'viewPosZ', label: 'View +Z', section: 'view', hotkeyId: 'viewZ', icon: ViewPosZIcon },
   { id: 'toggleFullscreen', label: 'Fullscreen', section: 'view', hotkey: 'F11', icon: createElement(FullscreenIcon) },
   { id: 'toggleProjection', label: 'Persp/Ortho', section: 'view', icon: ProjectionIcon },
-  { id: 'toggleCameraMode', label: 'Camera Mode', section: 'view', hotkey: HOTKEYS.toggleCameraMode.keys, icon: CameraModeIcon },
+  { id: 'toggleCameraMode', label: 'Camera Mode', section: 'view', hotkeyId: 'toggleCameraMode', icon: CameraModeIcon },
   { id: 'toggleHorizonLock', label: 'Horizon Lock', section: 'view', icon: HorizonLockIcon },
   { id: 'cycleAutoRotate', label: 'Auto Orbit', section: 'view', icon: AutoRotateIcon },
-  { id: 'toggleBackground', label: 'Background', section: 'display', hotkey: HOTKEYS.toggleBackground.keys, icon: createElement(BgIcon) },
+  { id: 'toggleBackground', label: 'Background', section: 'display', hotkeyId: 'toggleBackground', icon: createElement(BgIcon) },
   { id: 'toggleAxes', label: 'Toggle Axes', section: 'display', icon: createElement(AxesIcon) },
   { id: 'toggleGallery', label: 'Gallery Panel', section: 'display', icon: GalleryPanelIcon },
   { id: 'cycleCoordinateSystem', label: 'Coord System', section: 'display', icon: CoordSystemIcon },
   { id: 'cycleFrustumColor', label: 'Frustum Color', section: 'display', icon: FrustumColorIcon },
-  { id: 'cyclePointColor', label: 'Point Color', section: 'display', hotkey: HOTKEYS.cyclePointSize.keys, icon: PointColorIcon },
+  { id: 'cyclePointColor', label: 'Point Color', section: 'display', hotkeyId: 'cyclePointSize', icon: PointColorIcon },
   { id: 'pointSizeUp', label: 'Point Size +', section: 'display', icon: createElement(PlusCircleIcon) },
   { id: 'pointSizeDown', label: 'Point Size -', section: 'display', icon: createElement(MinusCircleIcon) },
   { id: 'togglePointFiltering', label: 'Min Track', section: 'display', icon: createElement(FilterIcon) },
-  { id: 'cycleCameraDisplay', label: 'Camera Display', section: 'cameras', hotkey: HOTKEYS.cycleCameraDisplay.keys, icon: createElement(FrustumIcon) },
-  { id: 'cycleMatchesDisplay', label: 'Matches', section: 'cameras', hotkey: HOTKEYS.cycleMatchesDisplay.keys, icon: MatchesIcon },
+  { id: 'cycleCameraDisplay', label: 'Camera Display', section: 'cameras', hotkeyId: 'cycleCameraDisplay', icon: createElement(FrustumIcon) },
+  { id: 'cycleMatchesDisplay', label: 'Matches', section: 'cameras', hotkeyId: 'cycleMatchesDisplay', icon: MatchesIcon },
   { id: 'cycleSelectionColor', label: 'Selection Color', section: 'cameras', icon: SelectionColorIcon },
   { id: 'deselectAll', label: 'Deselect All', section: 'cameras', icon: DeselectAllIcon },
   { id: 'toggleImagePlanes', label: 'Image Planes', section: 'cameras', icon: ImagePlanesIcon },
   { id: 'toggleUndistort', label: 'Undistort (U)', section: 'cameras', icon: UndistortIcon },
-  { id: 'toggleGizmo', label: 'Transform Gizmo', section: 'transform', hotkey: HOTKEYS.toggleGizmo.keys, icon: createElement(TransformIcon) },
+  { id: 'toggleGizmo', label: 'Transform Gizmo', section: 'transform', hotkeyId: 'toggleGizmo', icon: createElement(TransformIcon) },
   { id: 'centerAtOrigin', label: 'Center at Origin', section: 'transform', icon: CenterOriginIcon },
   { id: 'onePointOrigin', label: '1-Point Origin', section: 'transform', icon: OnePointOriginIcon },
   { id: 'twoPointScale', label: '2-Point Scale', section: 'transform', icon: TwoPointScaleIcon },
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { resolveHotkeys } from '../../../config/hotkeys';
 import type { ContextMenuAction } from '../../../store';
 import {
   CONTEXT_MENU_EDITOR_COLUMN_MIN_WIDTH,
@@ -27,6 +28,7 @@ import {
   getNextSelectionColorMenuState,
   getCenteredPopupPosition,
   getConfigurableActions,
+  getContextMenuActionHotkey,
   groupConfigurableActions,
   groupContextMenuActions,
   shouldCloseContextMenuAfterAction,
@@ -58,6 +60,14 @@ describe('global context menu view-model helpers', () => {
     ]);
   });
 
+  it('shows rebound registry keys as action hints', () => {
+    const hotkeys = resolveHotkeys({ resetView: 'x' });
+    expect(getContextMenuActionHotkey({ hotkeyId: 'resetView' }, hotkeys)).toBe('x');
+    expect(getContextMenuActionHotkey({ hotkeyId: 'toggleGizmo' }, hotkeys)).toBe('t');
+    expect(getContextMenuActionHotkey({ hotkey: 'F11' }, hotkeys)).toBe('F11');
+    expect(getContextMenuActionHotkey({}, hotkeys)).toBeUndefined();
+  });
+
   it('groups visible actions by section and canonical action order', () => {
     const groups = groupContextMenuActions(actions, [
       'takeScreenshot',
@@ -1,4 +1,5 @@
 import type { CSSProperties } from 'react';
+import type { HotkeyRegistry } from '../../../config/hotkeys';
 import type { ContextMenuAction } from '../../../store';
 import { Z_INDEX } from '../../../theme/zIndex';
 
@@ -112,6 +113,18 @@ export function getActionById<TAction extends ContextMenuActionDescriptor>(
   return actions.find(action => action.id === id);
 }
 
+/**
+ * Key hint for an action: the current binding of its registry hotkey (so
+ * rebinds show up in the menu), else its fixed hint.
+ */
+export function getContextMenuActionHotkey(
+  action: { hotkeyId?: string; hotkey?: string },
+  hotkeys: HotkeyRegistry
+): string | undefined {
+  if (action.hotkeyId !== undefined) return hotkeys[action.hotkeyId]?.keys;
+  return action.hotkey;
+}
+
 export function getConfigurableActions<TAction extends ContextMenuActionDescriptor>(
   actions: readonly TAction[]
 ): TAction[] {
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { GroundControlPoint } from '../../store/stores/gcpStore';
+import { getGcpMarkerItems, getGcpMarkerScale } from './gcpMarkersViewModel';
+
+function gcp(overrides: Partial<GroundControlPoint>): GroundControlPoint {
+  return { id: 1, name: 'A', world: null, pickedPosition: null, point3DId: null, observations: [], ...overrides };
+}
+
+describe('gcpMarkersViewModel', () => {
+  it('places markers at picked positions and skips unplaced GCPs', () => {
+    const items = getGcpMarkerItems(
+      [
+        gcp({ pickedPosition: [1, 2, 3], world: [0, 0, 0] }),
+        gcp({ id: 2, name: 'B' }),
+      ],
+      null,
+      1
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ gcpId: 1, name: 'A', isActive: true, detail: 'Picked · world set' });
+    expect(items[0].position.toArray()).toEqual([1, 2, 3]);
+  });
+
+  it('scales markers with the GCP spread', () => {
+    const near = getGcpMarkerItems([gcp({ pickedPosition: [0, 0, 0] })], null, null);
+    const far = getGcpMarkerItems(
+      [gcp({ pickedPosition: [0, 0, 0] }), gcp({ id: 2, pickedPosition: [100, 0, 0] })],
+      null,
+      null
+    );
+
+    expect(getGcpMarkerScale(near)).toBe(0.015);
+    expect(getGcpMarkerScale(far)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import type { GroundControlPoint } from '../../store/stores/gcpStore';
+import type { Reconstruction } from '../../types/colmap';
+import { getGcpModelPosition } from '../../utils/gcpAlignment';
+
+const SINGLE_GCP_MARKER_SCALE = 0.015;
+/** Marker radius as a fraction of the GCP spread. */
+const SPREAD_MARKER_SCALE = 0.01;
+
+export interface GcpMarkerItem {
+  gcpId: number;
+  name: string;
+  position: THREE.Vector3;
+  isActive: boolean;
+  /** Hover subtitle: where the position comes from and whether world coordinates are set. */
+  detail: string;
+}
+
+export function getGcpMarkerItems(
+  gcps: readonly GroundControlPoint[],
+  reconstruction: Pick<Reconstruction, 'images' | 'cameras'> | null,
+  activeGcpId: number | null
+): GcpMarkerItem[] {
+  const items: GcpMarkerItem[] = [];
+  for (const gcp of gcps) {
+    const position = getGcpModelPosition(gcp, reconstruction);
+    if (!position) continue;
+    const source = gcp.pickedPosition ? 'Picked' : `Triangulated from ${gcp.observations.length} views`;
+    items.push({
+      gcpId: gcp.id,
+      name: gcp.name,
+      position,
+      isActive: gcp.id === activeGcpId,
+      detail: `${source} · ${gcp.world ? 'world set' : 'no world coordinates'}`,
+    });
+  }
+  return items;
+}
+
+export function getGcpMarkerScale(items: readonly GcpMarkerItem[]): number {
+  if (items.length < 2) return SINGLE_GCP_MARKER_SCALE;
+  const bounds = new THREE.Box3().setFromPoints(items.map((item) => item.position));
+  return Math.max(SINGLE_GCP_MARKER_SCALE, bounds.getSize(new THREE.Vector3()).length() * SPREAD_MARKER_SCALE);
+}
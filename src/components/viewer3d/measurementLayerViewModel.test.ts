@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { EvaluatedMeasurement } from '../../utils/measurementGeometry';
+import {
+  getMeasurementLabelPosition,
+  getMeasurementLayerData,
+  getMeasurementLayerScale,
+} from './measurementLayerViewModel';
+
+const floor = { normal: [0, 1, 0] as [number, number, number], d: 0 };
+
+function evaluated(overrides: Partial<EvaluatedMeasurement['measurement']>): EvaluatedMeasurement {
+  const measurement = { id: 1, name: 'M', type: 'distance' as const, points: [], ...overrides };
+  return {
+    measurement,
+    worldPoints: measurement.points,
+    measured: { value: 1, unit: 'length', projectedOnFloor: false },
+    label: '1.000',
+  };
+}
+
+describe('measurementLayerViewModel', () => {
+  it('places labels on the middle segment, the centroid, the vertex or halfway down a height', () => {
+    expect(getMeasurementLabelPosition('polyline', [[0, 0, 0], [2, 0, 0], [2, 2, 0], [4, 2, 0]], null)).toEqual([2, 1, 0]);
+    expect(getMeasurementLabelPosition('area', [[0, 0, 0], [3, 0, 0], [0, 3, 0]], null)).toEqual([1, 1, 0]);
+    expect(getMeasurementLabelPosition('angle', [[1, 0, 0], [0, 0, 0], [0, 1, 0]], null)).toEqual([0, 0, 0]);
+    expect(getMeasurementLabelPosition('height', [[1, 4, 1]], floor)).toEqual([1, 2, 1]);
+  });
+
+  it('closes area outlines and drops height lines to the floor', () => {
+    const layer = getMeasurementLayerData(
+      [
+        evaluated({ id: 1, type: 'area', points: [[0, 0, 0], [1, 0, 0], [1, 0, 1]] }),
+        evaluated({ id: 2, type: 'height', points: [[0, 2, 0]] }),
+      ],
+      [[5, 5, 5], [6, 5, 5]],
+      'polyline',
+      floor
+    );
+
+    expect(layer.linePositions).toHaveLength(4 * 6);
+    expect(layer.linePositions.slice(-6)).toEqual([0, 2, 0, 0, 0, 0]);
+    expect(layer.markerPositions).toHaveLength(4);
+    expect(layer.draftLinePositions).toEqual([5, 5, 5, 6, 5, 5]);
+    expect(layer.labels.map((label) => label.id)).toEqual([1, 2]);
+  });
+
+  it('scales labels and markers with the scene and falls back for empty scenes', () => {
+    expect(getMeasurementLayerScale(100)).toEqual({ fontSize: 3, markerScale: 0.5 });
+    expect(getMeasurementLayerScale(0)).toEqual({ fontSize: 0.03, markerScale: 0.005 });
+  });
+});
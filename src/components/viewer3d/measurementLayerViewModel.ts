@@ -0,0 +1,121 @@
+import type { MeasurementType } from '../../store/types';
+import {
+  getFloorFoot,
+  type EvaluatedMeasurement,
+  type MeasurementPoint,
+} from '../../utils/measurementGeometry';
+import type { Plane } from '../../utils/ransac';
+
+/** Label font size and marker radius as fractions of the displayed scene radius. */
+const LABEL_FONT_SCALE = 0.03;
+const MARKER_SCALE = 0.005;
+
+export interface MeasurementLabelItem {
+  id: number;
+  text: string;
+  position: MeasurementPoint;
+}
+
+export interface MeasurementLayerData {
+  /** Segment pairs for stored measurements (LineSegments layout). */
+  linePositions: number[];
+  /** Segment pairs connecting the picks of the measurement being placed. */
+  draftLinePositions: number[];
+  markerPositions: MeasurementPoint[];
+  draftMarkerPositions: MeasurementPoint[];
+  labels: MeasurementLabelItem[];
+}
+
+export interface MeasurementLayerScale {
+  fontSize: number;
+  markerScale: number;
+}
+
+function pushSegment(positions: number[], a: MeasurementPoint, b: MeasurementPoint): void {
+  positions.push(a[0], a[1], a[2], b[0], b[1], b[2]);
+}
+
+function pushPath(positions: number[], points: readonly MeasurementPoint[], closed: boolean): void {
+  for (let i = 1; i < points.length; i++) pushSegment(positions, points[i - 1], points[i]);
+  if (closed && points.length > 2) pushSegment(positions, points[points.length - 1], points[0]);
+}
+
+function midpoint(a: MeasurementPoint, b: MeasurementPoint): MeasurementPoint {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+}
+
+function centroid(points: readonly MeasurementPoint[]): MeasurementPoint {
+  const sum: MeasurementPoint = [0, 0, 0];
+  for (const point of points) {
+    sum[0] += point[0];
+    sum[1] += point[1];
+    sum[2] += point[2];
+  }
+  return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length];
+}
+
+/**
+ * Where a measurement's value is shown: the middle of a distance or of the
+ * polyline's middle segment, the polygon centroid, the angle's vertex, or
+ * halfway down a height line.
+ */
+export function getMeasurementLabelPosition(
+  type: MeasurementType,
+  points: readonly MeasurementPoint[],
+  floor: Plane | null
+): MeasurementPoint {
+  switch (type) {
+    case 'distance':
+    case 'polyline': {
+      const segment = Math.floor((points.length - 1) / 2);
+      return midpoint(points[segment], points[segment + 1]);
+    }
+    case 'area':
+      return centroid(points);
+    case 'angle':
+      return [...points[1]];
+    case 'height':
+      return floor ? midpoint(points[0], getFloorFoot(points[0], floor)) : [...points[0]];
+  }
+}
+
+export function getMeasurementLayerData(
+  measurements: readonly EvaluatedMeasurement[],
+  draftPoints: readonly MeasurementPoint[],
+  draftType: MeasurementType,
+  floor: Plane | null
+): MeasurementLayerData {
+  const linePositions: number[] = [];
+  const markerPositions: MeasurementPoint[] = [];
+  const labels: MeasurementLabelItem[] = [];
+
+  for (const { measurement, worldPoints, label } of measurements) {
+    markerPositions.push(...worldPoints);
+    if (measurement.type === 'height') {
+      if (floor) pushSegment(linePositions, worldPoints[0], getFloorFoot(worldPoints[0], floor));
+    } else {
+      pushPath(linePositions, worldPoints, measurement.type === 'area');
+    }
+    labels.push({
+      id: measurement.id,
+      text: label,
+      position: getMeasurementLabelPosition(measurement.type, worldPoints, floor),
+    });
+  }
+
+  const draftLinePositions: number[] = [];
+  pushPath(draftLinePositions, draftPoints, draftType === 'area');
+
+  return {
+    linePositions,
+    draftLinePositions,
+    markerPositions,
+    draftMarkerPositions: [...draftPoints],
+    labels,
+  };
+}
+
+export function getMeasurementLayerScale(sceneRadius: number): MeasurementLayerScale {
+  const radius = sceneRadius > 0 && Number.isFinite(sceneRadius) ? sceneRadius : 1;
+  return { fontSize: radius * LABEL_FONT_SCALE, markerScale: radius * MARKER_SCALE };
+}
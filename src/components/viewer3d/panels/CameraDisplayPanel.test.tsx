@@ -1,4 +1,4 @@
-import { cleanup, render, screen } from '@testing-library/react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import { CameraDisplayPanel, type CameraDisplayPanelProps } from './CameraDisplayPanel';
 
@@ -41,7 +41,9 @@ function renderPanel(overrides: Partial<CameraDisplayPanelProps> = {}) {
     autoFovEnabled: true,
     setAutoFovEnabled: vi.fn(),
     splatMetricVisualizationsAvailable: false,
+    splatComparisonActive: false,
     onCycleCameraDisplayMode: vi.fn(),
+    onOpenReconstructionDiff: vi.fn(),
     ...overrides,
   };
 
@@ -72,4 +74,13 @@ describe('CameraDisplayPanel spherical-only controls', () => {
     expect(screen.queryByText('Standby α')).not.toBeNull();
     expect(screen.queryByText('Unselected α')).not.toBeNull();
   });
+
+  it('opens the reconstruction comparison tool', () => {
+    const onOpenReconstructionDiff = vi.fn();
+    renderPanel({ onOpenReconstructionDiff });
+
+    fireEvent.click(screen.getByText('Compare Reconstruction'));
+
+    expect(onOpenReconstructionDiff).toHaveBeenCalledTimes(1);
+  });
 });
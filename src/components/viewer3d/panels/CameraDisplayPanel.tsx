@@ -69,7 +69,9 @@ export interface CameraDisplayPanelProps {
   autoFovEnabled: boolean;
   setAutoFovEnabled: (enabled: boolean) => void;
   splatMetricVisualizationsAvailable: boolean;
+  splatComparisonActive: boolean;
   onCycleCameraDisplayMode: () => void;
+  onOpenReconstructionDiff: () => void;
 }
 
 export function CameraDisplayPanel({
@@ -106,12 +108,15 @@ export function CameraDisplayPanel({
   autoFovEnabled,
   setAutoFovEnabled,
   splatMetricVisualizationsAvailable,
+  splatComparisonActive,
   onCycleCameraDisplayMode,
+  onOpenReconstructionDiff,
 }: CameraDisplayPanelProps) {
   const buttonState = getCameraDisplayButtonState(showCameras, cameraDisplayMode);
   const frustumColorModeOptions = getFrustumColorModeOptions({
     hasRigData,
     hasSplatPsnr: splatMetricVisualizationsAvailable,
+    hasSplatPsnrDelta: splatComparisonActive,
   });
   const hint = getCameraDisplayHint(cameraDisplayMode);
 
@@ -247,6 +252,16 @@ export function CameraDisplayPanel({
             </div>
           </>
         )}
+        <div className={styles.actionGroup}>
+          <button
+            onClick={onOpenReconstructionDiff}
+            className={styles.presetButton}
+            data-tooltip="Align another model of this scene and compare camera poses"
+            data-tooltip-pos="bottom"
+          >
+            Compare Reconstruction
+          </button>
+        </div>
         <div className={styles.hint}>
           <div className="mb-1 font-medium">{hint.title}</div>
           {hint.lines.map((line) => (
@@ -45,6 +45,8 @@ export interface CameraModePanelProps {
   autoRotateSpeed: number;
   setAutoRotateSpeed: (speed: number) => void;
   onToggleCameraMode: () => void;
+  onOpenCameraPath: () => void;
+  onOpenTrajectory: () => void;
 }
 
 export function CameraModePanel({
@@ -65,6 +67,8 @@ export function CameraModePanel({
   autoRotateSpeed,
   setAutoRotateSpeed,
   onToggleCameraMode,
+  onOpenCameraPath,
+  onOpenTrajectory,
 }: CameraModePanelProps) {
   const buttonState = getCameraModeButtonState(cameraMode);
   const showAutoRotateControls = shouldShowAutoRotateControls(cameraMode);
@@ -140,6 +144,22 @@ export function CameraModePanel({
             />
           </>
         )}
+        <button
+          onClick={onOpenCameraPath}
+          className={`${styles.actionButton} w-full`}
+          data-tooltip="Author a fly-through from keyframed views"
+          data-tooltip-pos="bottom"
+        >
+          Camera Path
+        </button>
+        <button
+          onClick={onOpenTrajectory}
+          className={`${styles.actionButton} w-full`}
+          data-tooltip="Play back the image cameras in capture order"
+          data-tooltip-pos="bottom"
+        >
+          Play Trajectory
+        </button>
         <div className={styles.hint}>
           <div className="mb-1 font-medium">Mouse:</div>
           {mouseHintLines.map((line) => (
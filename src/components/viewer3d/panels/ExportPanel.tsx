@@ -8,15 +8,30 @@ import { useFileDropzone } from '../../../hooks/useFileDropzone';
 import { controlPanelStyles } from '../../../theme';
 import { ExportIcon } from '../../../icons';
 import { ControlButton, type PanelType } from '../ControlComponents';
-import { exportReconstructionText, exportReconstructionBinary, exportPointsPLY, downloadReconstructionZip, downloadImagesZip, downloadMasksZip } from '../../../parsers';
+import {
+  exportReconstructionText,
+  exportReconstructionBinary,
+  exportPointsPLY,
+  exportTransformsJson,
+  exportLlffPosesBounds,
+  downloadUndistortedReconstructionZip,
+  downloadReconstructionZip,
+  downloadImagesZip,
+  downloadMasksZip,
+} from '../../../parsers';
+import { writeSplatMetricReportCsv, writeSplatMetricReportJson } from '../../../parsers/splatMetricReportExport';
 import { useDataset } from '../../../dataset';
 import { createSim3dFromEuler, isIdentityEuler, transformReconstruction } from '../../../utils/sim3dTransforms';
-import { isByteLessActiveSplatFile } from '../../../utils/splatFileSourcePolicy';
+import { getActiveSplatSourceId, isByteLessActiveSplatFile } from '../../../utils/splatFileSourcePolicy';
+import { buildSplatMetricReport } from '../../../utils/splatMetricReport';
 import { requestConfirmation } from '../../../utils/confirmation';
 import { appLogger } from '../../../utils/logger';
-import { downloadBlob } from '../../../utils/download';
+import { buildTimestampedFilename, downloadBlob, downloadFile } from '../../../utils/download';
 import {
   getCameraModelSummary,
+  getSplatMetricCoverageLabel,
+  getSplatMetricMeanLabel,
+  getSplatMetricWorstPreview,
   type ExportFormat,
 } from './exportPanelViewModel';
 import { runReconstructionExport } from './exportPanelReconstructionExport';
@@ -25,6 +40,7 @@ import {
   ExportMediaSection,
   ExportReconstructionSection,
   ExportReloadSection,
+  ExportSplatMetricsSection,
 } from './ExportPanelSections';
 import { useExportPanelStoreFacade } from './useExportPanelStoreFacade';
 
@@ -35,6 +51,7 @@ export interface ExportPanelProps {
   setActivePanel: (panel: PanelType) => void;
   onOpenDeletionModal: () => void;
   onOpenConversionModal: () => void;
+  onOpenIntrinsicsReport: () => void;
 }
 
 export const ExportPanel = memo(function ExportPanel({
@@ -42,12 +59,14 @@ export const ExportPanel = memo(function ExportPanel({
   setActivePanel,
   onOpenDeletionModal,
   onOpenConversionModal,
+  onOpenIntrinsicsReport,
 }: ExportPanelProps) {
   const {
     data: {
       reconstruction,
       loadedFiles,
       droppedFiles,
+      undistortionMode,
       getLiveReconstruction,
     },
     transform: {
@@ -60,6 +79,10 @@ export const ExportPanel = memo(function ExportPanel({
       getPendingDeletionCount,
       applyDeletionsToData,
     },
+    splatMetrics: {
+      splatPsnrMetrics,
+      splatPsnrError,
+    },
     actions: {
       addNotification,
       confirmReload,
@@ -79,6 +102,7 @@ export const ExportPanel = memo(function ExportPanel({
 
   // Format export state
   const [exportFormat, setExportFormat] = useState<ExportFormat>('binary');
+  const [reconstructionExportProgress, setReconstructionExportProgress] = useState<number | null>(null);
 
   // Get cameras from reconstruction
   const cameras = useMemo(() => {
@@ -96,6 +120,9 @@ export const ExportPanel = memo(function ExportPanel({
     await runReconstructionExport({
       exportFormat,
       loadedImageFiles: loadedFiles?.imageFiles,
+      includeMasks: dataset.hasMasks(),
+      undistortionMode,
+      jpegQualityPercent: jpegQuality,
     }, {
       getPendingDeletionCount,
       confirmPendingDeletions: (count) => requestConfirmation({
@@ -120,7 +147,12 @@ export const ExportPanel = memo(function ExportPanel({
         exportText: exportReconstructionText,
         exportPly: exportPointsPLY,
         downloadZip: downloadReconstructionZip,
+        exportTransformsJson,
+        exportLlffPosesBounds,
+        downloadUndistortedZip: downloadUndistortedReconstructionZip,
       },
+      fetchImage: (name) => dataset.getImage(name),
+      setProgress: setReconstructionExportProgress,
       addNotification,
       logError: appLogger.error,
     });
@@ -128,6 +160,9 @@ export const ExportPanel = memo(function ExportPanel({
     reconstruction,
     loadedFiles,
     exportFormat,
+    dataset,
+    undistortionMode,
+    jpegQuality,
     getPendingDeletionCount,
     applyDeletionsToData,
     getTransform,
@@ -192,6 +227,26 @@ export const ExportPanel = memo(function ExportPanel({
     }
   }, [addNotification, getSplatTransform, getTransform, loadedFiles]);
 
+  const splatMetricReport = useMemo(() => {
+    if (!reconstruction || !loadedFiles?.splatFile) return null;
+    return buildSplatMetricReport({
+      reconstruction,
+      metrics: splatPsnrMetrics,
+      errors: splatPsnrError,
+      splatSourceId: getActiveSplatSourceId(loadedFiles),
+    });
+  }, [reconstruction, loadedFiles, splatPsnrMetrics, splatPsnrError]);
+
+  const handleDownloadSplatMetricsCsv = useCallback(() => {
+    if (!splatMetricReport) return;
+    downloadFile(writeSplatMetricReportCsv(splatMetricReport), buildTimestampedFilename('splat-metrics', 'csv'));
+  }, [splatMetricReport]);
+
+  const handleDownloadSplatMetricsJson = useCallback(() => {
+    if (!splatMetricReport) return;
+    downloadFile(writeSplatMetricReportJson(splatMetricReport), buildTimestampedFilename('splat-metrics', 'json'));
+  }, [splatMetricReport]);
+
   // Reload data from original files
   const handleReload = useCallback(async () => {
     if (!droppedFiles) return;
@@ -222,10 +277,12 @@ export const ExportPanel = memo(function ExportPanel({
             hasCameras={hasCameras}
             hasPendingDeletions={hasPendingDeletions}
             hasReconstruction={Boolean(reconstruction)}
+            exportProgress={reconstructionExportProgress}
             cameraModelSummary={cameraModelSummary}
             pendingDeletionCount={pendingDeletions.size}
             onExportFormatChange={setExportFormat}
             onOpenConversionModal={onOpenConversionModal}
+            onOpenIntrinsicsReport={onOpenIntrinsicsReport}
             onOpenDeletionModal={onOpenDeletionModal}
             onDownload={handleExportFormat}
             onDownloadSplat={handleDownloadSplat}
@@ -241,6 +298,16 @@ export const ExportPanel = memo(function ExportPanel({
             onExportMasks={handleExportMasks}
             onJpegQualityChange={setJpegQuality}
           />
+          {splatMetricReport && (
+            <ExportSplatMetricsSection
+              coverageLabel={getSplatMetricCoverageLabel(splatMetricReport.summary)}
+              meanLabel={getSplatMetricMeanLabel(splatMetricReport.summary)}
+              worst={getSplatMetricWorstPreview(splatMetricReport)}
+              canDownload={splatMetricReport.rows.length > 0}
+              onDownloadCsv={handleDownloadSplatMetricsCsv}
+              onDownloadJson={handleDownloadSplatMetricsJson}
+            />
+          )}
           <ExportReloadSection
             canReload={Boolean(droppedFiles)}
             onReload={handleReload}
@@ -4,9 +4,11 @@ import {
   ExportMediaSection,
   ExportReconstructionSection,
   ExportReloadSection,
+  ExportSplatMetricsSection,
   type ExportMediaSectionProps,
   type ExportReconstructionSectionProps,
   type ExportReloadSectionProps,
+  type ExportSplatMetricsSectionProps,
 } from './ExportPanelSections';
 
 afterEach(() => {
@@ -21,10 +23,12 @@ function createReconstructionProps(
     hasCameras: true,
     hasPendingDeletions: true,
     hasReconstruction: true,
+    exportProgress: null,
     cameraModelSummary: '2x Pinhole',
     pendingDeletionCount: 2,
     onExportFormatChange: vi.fn(),
     onOpenConversionModal: vi.fn(),
+    onOpenIntrinsicsReport: vi.fn(),
     onOpenDeletionModal: vi.fn(),
     onDownload: vi.fn(),
     onDownloadSplat: vi.fn(),
@@ -59,6 +63,20 @@ function createReloadProps(
   };
 }
 
+function createSplatMetricsProps(
+  overrides: Partial<ExportSplatMetricsSectionProps> = {}
+): ExportSplatMetricsSectionProps {
+  return {
+    coverageLabel: '2 / 3 images measured',
+    meanLabel: 'Mean PSNR 25.00 dB',
+    worst: [{ imageId: 2, name: 'b.jpg', label: '20.00 dB' }],
+    canDownload: true,
+    onDownloadCsv: vi.fn(),
+    onDownloadJson: vi.fn(),
+    ...overrides,
+  };
+}
+
 describe('ExportPanelSections', () => {
   it('routes reconstruction format and action callbacks', () => {
     const props = createReconstructionProps();
@@ -70,12 +88,14 @@ describe('ExportPanelSections', () => {
 
     fireEvent.change(screen.getByRole('combobox'), { target: { value: 'zip' } });
     fireEvent.click(screen.getByRole('button', { name: 'Convert Camera Model' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Intrinsics Report' }));
     fireEvent.click(screen.getByRole('button', { name: 'Delete Images from Model (2)' }));
     fireEvent.click(screen.getByRole('button', { name: 'Download COLMAP' }));
     fireEvent.click(screen.getByRole('button', { name: 'Download Splat File' }));
 
     expect(props.onExportFormatChange).toHaveBeenCalledWith('zip');
     expect(props.onOpenConversionModal).toHaveBeenCalledTimes(1);
+    expect(props.onOpenIntrinsicsReport).toHaveBeenCalledTimes(1);
     expect(props.onOpenDeletionModal).toHaveBeenCalledTimes(1);
     expect(props.onDownload).toHaveBeenCalledTimes(1);
     expect(props.onDownloadSplat).toHaveBeenCalledTimes(1);
@@ -91,11 +111,22 @@ describe('ExportPanelSections', () => {
     })} />);
 
     expect(screen.queryByRole('button', { name: 'Convert Camera Model' })).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Intrinsics Report' })).toBeNull();
     expect(screen.getByRole('button', { name: 'Delete Images from Model' })).toBeVisible();
     expect(screen.getByRole('button', { name: 'Download COLMAP' })).toBeDisabled();
     expect(screen.queryByRole('button', { name: 'Download Splat File' })).toBeNull();
   });
 
+  it('shows undistorted export progress in place of the download button', () => {
+    render(<ExportReconstructionSection {...createReconstructionProps({
+      exportFormat: 'undistorted',
+      exportProgress: 40,
+    })} />);
+
+    expect(screen.queryByRole('button', { name: 'Download COLMAP' })).toBeNull();
+    expect(screen.getByText('Exporting undistorted images... 40%')).toBeVisible();
+  });
+
   it('routes media quality, image export, and mask export callbacks', () => {
     const props = createMediaProps();
     render(<ExportMediaSection {...props} />);
@@ -138,4 +169,24 @@ describe('ExportPanelSections', () => {
 
     expect(screen.getByRole('button', { name: 'Reload' })).toBeDisabled();
   });
+
+  it('previews splat metrics and routes report downloads', () => {
+    const props = createSplatMetricsProps();
+    render(<ExportSplatMetricsSection {...props} />);
+
+    expect(screen.getByText('2 / 3 images measured')).toBeVisible();
+    expect(screen.getByText('b.jpg')).toBeVisible();
+    expect(screen.getByText('20.00 dB')).toBeVisible();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download Metrics CSV' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Download Metrics JSON' }));
+    expect(props.onDownloadCsv).toHaveBeenCalledTimes(1);
+    expect(props.onDownloadJson).toHaveBeenCalledTimes(1);
+
+    cleanup();
+    render(<ExportSplatMetricsSection {...createSplatMetricsProps({ canDownload: false, meanLabel: null, worst: [] })} />);
+
+    expect(screen.getByRole('button', { name: 'Download Metrics CSV' })).toBeDisabled();
+    expect(screen.queryByText('Worst images:')).toBeNull();
+  });
 });
@@ -6,6 +6,7 @@ import {
   EXPORT_FORMAT_OPTIONS,
   getExportProgressStyle,
   type ExportFormat,
+  type SplatMetricPreviewItem,
 } from './exportPanelViewModel';
 
 const styles = controlPanelStyles;
@@ -15,10 +16,13 @@ export interface ExportReconstructionSectionProps {
   hasCameras: boolean;
   hasPendingDeletions: boolean;
   hasReconstruction: boolean;
+  /** Progress of a running undistorted export, null when idle. */
+  exportProgress: number | null;
   cameraModelSummary: string | null;
   pendingDeletionCount: number;
   onExportFormatChange: (format: ExportFormat) => void;
   onOpenConversionModal: () => void;
+  onOpenIntrinsicsReport: () => void;
   onOpenDeletionModal: () => void;
   onDownload: () => void;
   onDownloadSplat: () => void;
@@ -30,10 +34,12 @@ export const ExportReconstructionSection = memo(function ExportReconstructionSec
   hasCameras,
   hasPendingDeletions,
   hasReconstruction,
+  exportProgress,
   cameraModelSummary,
   pendingDeletionCount,
   onExportFormatChange,
   onOpenConversionModal,
+  onOpenIntrinsicsReport,
   onOpenDeletionModal,
   onDownload,
   onDownloadSplat,
@@ -61,19 +67,31 @@ export const ExportReconstructionSection = memo(function ExportReconstructionSec
             Convert Camera Model
           </button>
         )}
+        {hasCameras && (
+          <button
+            onClick={onOpenIntrinsicsReport}
+            className={styles.actionButton}
+          >
+            Intrinsics Report
+          </button>
+        )}
         <button
           onClick={onOpenDeletionModal}
           className={styles.actionButton}
         >
           Delete Images from Model{hasPendingDeletions ? ` (${pendingDeletionCount})` : ''}
         </button>
-        <button
-          onClick={onDownload}
-          disabled={!hasReconstruction}
-          className={hasReconstruction ? styles.actionButton : styles.actionButtonDisabled}
-        >
-          Download COLMAP
-        </button>
+        {exportProgress !== null ? (
+          <ExportProgress label="undistorted images" progress={exportProgress} />
+        ) : (
+          <button
+            onClick={onDownload}
+            disabled={!hasReconstruction}
+            className={hasReconstruction ? styles.actionButton : styles.actionButtonDisabled}
+          >
+            Download COLMAP
+          </button>
+        )}
         {hasSplatFile && (
           <button
             onClick={onDownloadSplat}
@@ -159,6 +177,63 @@ export const ExportMediaSection = memo(function ExportMediaSection({
   );
 });
 
+export interface ExportSplatMetricsSectionProps {
+  coverageLabel: string;
+  meanLabel: string | null;
+  worst: SplatMetricPreviewItem[];
+  canDownload: boolean;
+  onDownloadCsv: () => void;
+  onDownloadJson: () => void;
+}
+
+export const ExportSplatMetricsSection = memo(function ExportSplatMetricsSection({
+  coverageLabel,
+  meanLabel,
+  worst,
+  canDownload,
+  onDownloadCsv,
+  onDownloadJson,
+}: ExportSplatMetricsSectionProps) {
+  const buttonClassName = canDownload ? styles.actionButton : styles.actionButtonDisabled;
+
+  return (
+    <>
+      <div className="text-ds-primary text-sm mb-1 mt-3">Splat Metrics:</div>
+      <div className="text-ds-tertiary text-xs">{coverageLabel}</div>
+      {meanLabel && <div className="text-ds-tertiary text-xs">{meanLabel}</div>}
+      {worst.length > 0 && (
+        <>
+          <div className="text-ds-secondary text-xs mt-1">Worst images:</div>
+          <ul className="text-ds-tertiary text-xs mb-1">
+            {worst.map((item) => (
+              <li key={item.imageId} className="flex justify-between gap-2">
+                <span className="truncate" title={item.name}>{item.name}</span>
+                <span>{item.label}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <div className="flex flex-col gap-2 mt-1">
+        <button
+          onClick={onDownloadCsv}
+          disabled={!canDownload}
+          className={buttonClassName}
+        >
+          Download Metrics CSV
+        </button>
+        <button
+          onClick={onDownloadJson}
+          disabled={!canDownload}
+          className={buttonClassName}
+        >
+          Download Metrics JSON
+        </button>
+      </div>
+    </>
+  );
+});
+
 export interface ExportReloadSectionProps {
   canReload: boolean;
   onReload: () => void;
@@ -182,7 +257,7 @@ export const ExportReloadSection = memo(function ExportReloadSection({
 });
 
 interface ExportProgressProps {
-  label: 'images' | 'masks';
+  label: 'images' | 'masks' | 'undistorted images';
   progress: number;
 }
 
@@ -1,4 +1,4 @@
-import type { MatchesDisplayMode } from '../../../store/types';
+import type { MatchesDisplayMode, MatchesSource } from '../../../store/types';
 import { controlPanelStyles } from '../../../theme';
 import {
   ControlButton,
@@ -12,6 +12,7 @@ import { renderMatchesButtonIcon } from '../viewerControlButtonIcons';
 import type { MatchesButtonIcon, ViewerControlButtonState } from '../viewerControlsViewModel';
 import {
   MATCHES_DISPLAY_MODE_OPTIONS,
+  MATCHES_SOURCE_OPTIONS,
   getMatchesPanelHint,
 } from './matchesPanelViewModel';
 
@@ -25,6 +26,9 @@ export interface MatchesPanelProps {
   setShowMatches: (visible: boolean) => void;
   matchesDisplayMode: MatchesDisplayMode;
   setMatchesDisplayMode: (mode: MatchesDisplayMode) => void;
+  matchesSource: MatchesSource;
+  setMatchesSource: (source: MatchesSource) => void;
+  hasMatchesDatabase: boolean;
   matchesOpacity: number;
   setMatchesOpacity: (opacity: number) => void;
   matchesColor: string;
@@ -32,6 +36,7 @@ export interface MatchesPanelProps {
   matchesLineWidth: number;
   setMatchesLineWidth: (lineWidth: number) => void;
   onCycleMatchesDisplayMode: () => void;
+  onOpenCovisibilityGraph: () => void;
 }
 
 export function MatchesPanel({
@@ -42,6 +47,9 @@ export function MatchesPanel({
   setShowMatches,
   matchesDisplayMode,
   setMatchesDisplayMode,
+  matchesSource,
+  setMatchesSource,
+  hasMatchesDatabase,
   matchesOpacity,
   setMatchesOpacity,
   matchesColor,
@@ -49,6 +57,7 @@ export function MatchesPanel({
   matchesLineWidth,
   setMatchesLineWidth,
   onCycleMatchesDisplayMode,
+  onOpenCovisibilityGraph,
 }: MatchesPanelProps) {
   const hint = getMatchesPanelHint(showMatches, matchesDisplayMode);
 
@@ -73,6 +82,14 @@ export function MatchesPanel({
             options={MATCHES_DISPLAY_MODE_OPTIONS}
           />
         )}
+        {showMatches && hasMatchesDatabase && (
+          <SelectRow
+            label="Source"
+            value={matchesSource}
+            onChange={setMatchesSource}
+            options={MATCHES_SOURCE_OPTIONS}
+          />
+        )}
         {showMatches && (
           <>
             <SliderRow
@@ -96,6 +113,16 @@ export function MatchesPanel({
             <HueRow label="Color" value={matchesColor} onChange={setMatchesColor} />
           </>
         )}
+        <div className={styles.actionGroup}>
+          <button
+            onClick={onOpenCovisibilityGraph}
+            className={styles.presetButton}
+            data-tooltip="Image graph weighted by shared 3D points"
+            data-tooltip-pos="bottom"
+          >
+            Co-visibility Graph
+          </button>
+        </div>
         <div className={styles.hint}>
           <div className="mb-1 font-medium">{hint.title}</div>
           {hint.lines.map((line) => (
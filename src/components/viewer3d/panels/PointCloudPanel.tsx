@@ -13,6 +13,7 @@ import {
 import { renderPointCloudButtonIcon } from '../viewerControlButtonIcons';
 import { getPointCloudButtonState } from '../viewerControlsViewModel';
 import {
+  canCompareSplatSources,
   formatMaxReprojectionError,
   getActiveSplatSourceSelectValue,
   getMaxReprojectionErrorFromSliderValue,
@@ -59,6 +60,9 @@ export interface PointCloudPanelProps {
   selectionAnimationSpeed: number;
   setSelectionAnimationSpeed: (speed: number) => void;
   onCycleColorMode: () => void;
+  onOpenPointEdit: () => void;
+  onOpenSplatEdit: () => void;
+  onOpenSplatCompare: () => void;
 }
 
 export function PointCloudPanel({
@@ -88,6 +92,9 @@ export function PointCloudPanel({
   selectionAnimationSpeed,
   setSelectionAnimationSpeed,
   onCycleColorMode,
+  onOpenPointEdit,
+  onOpenSplatEdit,
+  onOpenSplatCompare,
 }: PointCloudPanelProps) {
   const buttonState = getPointCloudButtonState(showPointCloud, colorMode);
   const maxError = getPointCloudMaxErrorLimit(reconstruction?.globalStats.maxError);
@@ -101,6 +108,7 @@ export function PointCloudPanel({
   const colorModeOptions = getPointColorModeOptions(hasSplatData);
   const splatSourceOptions = getSplatSourceSelectOptionsWithNone(splatFileSources);
   const activeSplatSourceValue = getActiveSplatSourceSelectValue(splatFileSources, activeSplatSourceId);
+  const canCompareSplats = canCompareSplatSources(splatFileSources);
 
   return (
     <ControlButton
@@ -193,6 +201,36 @@ export function PointCloudPanel({
           formatValue={(v) => formatMaxReprojectionError(maxReprojectionError, v)}
         />
 
+        <div className={styles.actionGroup}>
+          <button
+            onClick={onOpenPointEdit}
+            disabled={!reconstruction}
+            className={reconstruction ? styles.presetButton : styles.actionButtonDisabled}
+            data-tooltip="Select and delete 3D points"
+            data-tooltip-pos="bottom"
+          >
+            Edit Points
+          </button>
+          <button
+            onClick={onOpenSplatEdit}
+            disabled={!hasSplatData}
+            className={hasSplatData ? styles.presetButton : styles.actionButtonDisabled}
+            data-tooltip="Crop and prune Gaussian splats, then export"
+            data-tooltip-pos="bottom"
+          >
+            Edit Splat
+          </button>
+          <button
+            onClick={onOpenSplatCompare}
+            disabled={!canCompareSplats}
+            className={canCompareSplats ? styles.presetButton : styles.actionButtonDisabled}
+            data-tooltip="Compare two splat sources side by side"
+            data-tooltip-pos="bottom"
+          >
+            Compare Splats
+          </button>
+        </div>
+
         <div className={styles.hint}>
           <div className="mb-1 font-medium">{colorHint.title}</div>
           {colorHint.lines.map((line) => (
@@ -1,12 +1,13 @@
 /**
  * Screenshot and recording panel extracted from ViewerControls.tsx.
- * Handles static screenshots and dynamic recording (GIF, WebM, MP4).
+ * Handles static screenshots and dynamic recording (GIF, WebM, MP4), optionally
+ * timed to play the camera path, and opens the offline splat path video renderer.
  */
 
 import { useState, useCallback, memo } from 'react';
 import { controlPanelStyles } from '../../../theme';
 import { ScreenshotIcon } from '../../../icons';
-import { ControlButton, SliderRow, SelectRow, type PanelType } from '../ControlComponents';
+import { ControlButton, SliderRow, SelectRow, ToggleRow, type PanelType } from '../ControlComponents';
 import { copyScreenshotToClipboard } from '../../../utils/clipboard';
 import {
   GIF_DOWNSAMPLE_OPTIONS,
@@ -27,11 +28,15 @@ const styles = controlPanelStyles;
 export interface ScreenshotPanelProps {
   activePanel: PanelType;
   setActivePanel: (panel: PanelType) => void;
+  hasSplatData: boolean;
+  onOpenSplatPathVideo: () => void;
 }
 
 export const ScreenshotPanel = memo(function ScreenshotPanel({
   activePanel,
   setActivePanel,
+  hasSplatData,
+  onOpenSplatPathVideo,
 }: ScreenshotPanelProps) {
   const [recordCountdown, setRecordCountdown] = useState<number | null>(null);
   const {
@@ -62,6 +67,10 @@ export const ScreenshotPanel = memo(function ScreenshotPanel({
       setRecordingQuality,
       gifSpeed,
       setGifSpeed,
+      hasCameraPath,
+      recordWithCameraPath,
+      cameraPathRecordingDuration,
+      setRecordWithCameraPath,
     },
     addNotification,
   } = useScreenshotPanelStoreFacade();
@@ -148,16 +157,26 @@ export const ScreenshotPanel = memo(function ScreenshotPanel({
           onChange={setRecordingQuality}
           options={RECORDING_QUALITY_OPTIONS}
         />
-        <SliderRow
-          label="Duration"
-          value={gifDuration}
-          min={5}
-          max={120}
-          step={5}
-          onChange={setGifDuration}
-          formatValue={(v) => `${v}s`}
-          inputMax={3600}
-        />
+        {hasCameraPath && (
+          <ToggleRow label="Camera Path" checked={recordWithCameraPath} onChange={setRecordWithCameraPath} />
+        )}
+        {cameraPathRecordingDuration !== null ? (
+          <div className={styles.row}>
+            <label className={styles.label}>Duration</label>
+            <span className="flex-1 text-right text-ds-secondary">{cameraPathRecordingDuration.toFixed(1)}s (path)</span>
+          </div>
+        ) : (
+          <SliderRow
+            label="Duration"
+            value={gifDuration}
+            min={5}
+            max={120}
+            step={5}
+            onChange={setGifDuration}
+            formatValue={(v) => `${v}s`}
+            inputMax={3600}
+          />
+        )}
         <SelectRow
           label="Scale"
           value={String(gifDownsample)}
@@ -194,6 +213,15 @@ export const ScreenshotPanel = memo(function ScreenshotPanel({
             {saveRecordingButtonState.label}
           </button>
         </div>
+        <button
+          onClick={onOpenSplatPathVideo}
+          disabled={!hasSplatData}
+          className={`${hasSplatData ? styles.actionButton : styles.actionButtonDisabled} w-full mt-2`}
+          data-tooltip="Render the splat frame by frame along a camera path"
+          data-tooltip-pos="bottom"
+        >
+          Render Path Video
+        </button>
         <div
           onClick={() => setScreenshotHideLogo(!screenshotHideLogo)}
           className={`group text-sm mt-3 cursor-pointer ${screenshotHideLogo ? 'text-blue-400' : ''}`}
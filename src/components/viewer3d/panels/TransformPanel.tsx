@@ -1,8 +1,9 @@
 import { memo, useCallback } from 'react';
 import { useHotkeys } from 'react-hotkeys-hook';
 import { useFileDropzone } from '../../../hooks/useFileDropzone';
+import { useHotkeyBindings } from '../../../hooks/useHotkeyBindings';
 import { TransformIcon } from '../../../icons';
-import { controlPanelStyles, HOTKEYS } from '../../../theme';
+import { controlPanelStyles } from '../../../theme';
 import {
   ControlButton,
   SliderRow,
@@ -27,12 +28,18 @@ export interface TransformPanelProps {
   activePanel: PanelType;
   setActivePanel: (panel: PanelType) => void;
   onOpenFloorModal: () => void;
+  onOpenReferenceAlignment: () => void;
+  onOpenGcp: () => void;
+  onOpenMeasurements: () => void;
 }
 
 export const TransformPanel = memo(function TransformPanel({
   activePanel,
   setActivePanel,
   onOpenFloorModal,
+  onOpenReferenceAlignment,
+  onOpenGcp,
+  onOpenMeasurements,
 }: TransformPanelProps) {
   const {
     data: {
@@ -93,10 +100,11 @@ export const TransformPanel = memo(function TransformPanel({
     setPickingMode(nextMode);
   }, [colorMode, setColorMode, setPickingMode, setShowPointCloud, showPointCloud]);
 
+  const hotkeys = useHotkeyBindings();
   useHotkeys(
-    HOTKEYS.toggleGizmo.keys,
+    hotkeys.toggleGizmo.keys,
     toggleGizmo,
-    { scopes: HOTKEYS.toggleGizmo.scopes },
+    { scopes: hotkeys.toggleGizmo.scopes },
     [toggleGizmo]
   );
 
@@ -226,6 +234,33 @@ export const TransformPanel = memo(function TransformPanel({
           >
             Floor Detection
           </button>
+          <button
+            onClick={onOpenReferenceAlignment}
+            disabled={!reconstruction}
+            className={reconstruction ? styles.presetButton : styles.actionButtonDisabled}
+            data-tooltip="Fit Sim3d to a TUM, KITTI or CSV reference trajectory"
+            data-tooltip-pos="bottom"
+          >
+            Reference Poses
+          </button>
+          <button
+            onClick={onOpenGcp}
+            disabled={!reconstruction}
+            className={reconstruction ? styles.presetButton : styles.actionButtonDisabled}
+            data-tooltip="Align to surveyed ground control points"
+            data-tooltip-pos="bottom"
+          >
+            GCPs
+          </button>
+          <button
+            onClick={onOpenMeasurements}
+            disabled={!reconstruction}
+            className={reconstruction ? styles.presetButton : styles.actionButtonDisabled}
+            data-tooltip="Measure distances, areas, angles and heights"
+            data-tooltip-pos="bottom"
+          >
+            Measure
+          </button>
         </div>
 
         <div className={styles.actionGroup}>
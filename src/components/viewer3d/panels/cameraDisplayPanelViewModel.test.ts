@@ -37,6 +37,13 @@ describe('camera display panel view-model helpers', () => {
     ]);
   });
 
+  it('adds the PSNR delta color only while a comparison splat is loaded', () => {
+    expect(getFrustumColorModeOptions({ hasRigData: false, hasSplatPsnr: true, hasSplatPsnrDelta: true }).at(-1))
+      .toEqual({ value: 'splatPsnrDelta', label: 'Δ PSNR (A − B)' });
+    expect(getFrustumColorModeOptions({ hasRigData: false, hasSplatPsnr: false, hasSplatPsnrDelta: true })
+      .map((option) => option.value)).not.toContain('splatPsnrDelta');
+  });
+
   it('returns fresh frustum color options for each call', () => {
     const options = getFrustumColorModeOptions({ hasRigData: true, hasSplatPsnr: true });
 
@@ -46,6 +46,11 @@ const SPLAT_SSIM_COLOR_MODE_OPTION: SelectOption<FrustumColorMode> = {
   label: 'SSIM',
 };
 
+const SPLAT_PSNR_DELTA_COLOR_MODE_OPTION: SelectOption<FrustumColorMode> = {
+  value: 'splatPsnrDelta',
+  label: 'Δ PSNR (A − B)',
+};
+
 const CAMERA_DISPLAY_HINTS: Record<CameraDisplayMode, CameraDisplayHint> = {
   frustum: {
     title: 'Frustum:',
@@ -69,14 +74,18 @@ export function getSupportedCameraDisplayMode(value: string): CameraDisplayMode
 export function getFrustumColorModeOptions({
   hasRigData,
   hasSplatPsnr,
+  hasSplatPsnrDelta = false,
 }: {
   hasRigData: boolean;
   hasSplatPsnr: boolean;
+  /** A comparison splat is loaded, so PSNR_A − PSNR_B can be shown. */
+  hasSplatPsnrDelta?: boolean;
 }): SelectOption<FrustumColorMode>[] {
   return [
     ...BASE_FRUSTUM_COLOR_MODE_OPTIONS,
     ...(hasRigData ? [RIG_FRAME_COLOR_MODE_OPTION] : []),
     ...(hasSplatPsnr ? [SPLAT_PSNR_COLOR_MODE_OPTION, SPLAT_SSIM_COLOR_MODE_OPTION] : []),
+    ...(hasSplatPsnr && hasSplatPsnrDelta ? [SPLAT_PSNR_DELTA_COLOR_MODE_OPTION] : []),
   ];
 }
 
@@ -36,7 +36,16 @@ function createDeps(overrides: Partial<RunReconstructionExportDeps> = {}): RunRe
       exportText: vi.fn(),
       exportPly: vi.fn(),
       downloadZip: vi.fn(async () => undefined),
+      exportTransformsJson: vi.fn(() => ({ exportedImageCount: 1, skippedImageCount: 0 })),
+      exportLlffPosesBounds: vi.fn(() => ({ exportedImageCount: 1, skippedImageCount: 0 })),
+      downloadUndistortedZip: vi.fn(async () => ({
+        exportedImageCount: 1,
+        failedImageCount: 0,
+        unchangedImageCount: 0,
+      })),
     },
+    fetchImage: vi.fn(async () => null),
+    setProgress: vi.fn(),
     addNotification: vi.fn(),
     logError: vi.fn(),
     ...overrides,
@@ -57,6 +66,60 @@ describe('runReconstructionExport', () => {
     expect(deps.writers.exportPly).toHaveBeenCalled();
   });
 
+  it('writes training pose formats and warns about skipped images', async () => {
+    const deps = createDeps();
+    vi.mocked(deps.writers.exportLlffPosesBounds).mockReturnValue({ exportedImageCount: 1, skippedImageCount: 2 });
+
+    await runReconstructionExport({ exportFormat: 'nerfstudio', includeMasks: true }, deps);
+    expect(deps.writers.exportTransformsJson).toHaveBeenCalledWith(
+      expect.any(Object),
+      { format: 'nerfstudio', includeMasks: true }
+    );
+    expect(deps.addNotification).not.toHaveBeenCalled();
+
+    await runReconstructionExport({ exportFormat: 'llff' }, deps);
+    expect(deps.writers.exportLlffPosesBounds).toHaveBeenCalled();
+    expect(deps.addNotification).toHaveBeenCalledWith(
+      'warning',
+      'Skipped 2 image(s) whose camera model the format cannot describe.',
+      6000
+    );
+  });
+
+  it('exports the undistorted dataset with progress and reports incomplete images', async () => {
+    const deps = createDeps();
+    vi.mocked(deps.writers.downloadUndistortedZip).mockResolvedValue({
+      exportedImageCount: 3,
+      failedImageCount: 1,
+      unchangedImageCount: 2,
+    });
+
+    await runReconstructionExport(
+      { exportFormat: 'undistorted', undistortionMode: 'cropped', jpegQualityPercent: 90 },
+      deps
+    );
+
+    expect(deps.writers.downloadUndistortedZip).toHaveBeenCalledWith(
+      expect.any(Object),
+      { mode: 'cropped', jpegQuality: 0.9 },
+      deps.fetchImage,
+      null,
+      deps.setProgress
+    );
+    expect(deps.setProgress).toHaveBeenNthCalledWith(1, 0);
+    expect(deps.setProgress).toHaveBeenLastCalledWith(null);
+    expect(deps.addNotification).toHaveBeenCalledWith(
+      'warning',
+      '1 image(s) could not be loaded and are missing from the undistorted export.',
+      6000
+    );
+    expect(deps.addNotification).toHaveBeenCalledWith(
+      'info',
+      'Copied 2 spherical camera image(s) without undistortion.',
+      6000
+    );
+  });
+
   it('downloads reconstruction ZIP with loaded image files', async () => {
     const deps = createDeps();
     const imageFiles = new Map<string, File>();
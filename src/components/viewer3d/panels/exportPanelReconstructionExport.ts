@@ -1,3 +1,6 @@
+import type { NerfExportSummary, TransformsJsonOptions } from '../../../parsers/nerfExport';
+import type { UndistortedZipExportSummary } from '../../../parsers/undistortedZipExport';
+import type { UndistortionMode } from '../../../store/types';
 import type { Reconstruction } from '../../../types/colmap';
 import type { Sim3dEuler } from '../../../types/sim3d';
 import type { WasmReconstructionWrapper } from '../../../wasm/reconstruction';
@@ -11,6 +14,11 @@ export interface LiveReconstructionExportState {
 export interface RunReconstructionExportOptions {
   exportFormat: ExportFormat;
   loadedImageFiles?: Map<string, File> | null;
+  /** Reference mask files from transforms.json frames. */
+  includeMasks?: boolean;
+  /** Undistortion mode of the undistorted dataset export. */
+  undistortionMode?: UndistortionMode;
+  jpegQualityPercent?: number;
 }
 
 export interface ReconstructionExportWriters {
@@ -32,6 +40,21 @@ export interface ReconstructionExportWriters {
     imageFiles?: Map<string, File> | null,
     wasmReconstruction?: WasmReconstructionWrapper | null
   ) => Promise<void>;
+  exportTransformsJson: (
+    reconstruction: Reconstruction,
+    options: TransformsJsonOptions
+  ) => NerfExportSummary;
+  exportLlffPosesBounds: (
+    reconstruction: Reconstruction,
+    wasmReconstruction?: WasmReconstructionWrapper | null
+  ) => NerfExportSummary;
+  downloadUndistortedZip: (
+    reconstruction: Reconstruction,
+    options: { mode: UndistortionMode; jpegQuality: number },
+    fetchImage: (name: string) => Promise<File | null>,
+    wasmReconstruction?: WasmReconstructionWrapper | null,
+    onProgress?: (percent: number) => void
+  ) => Promise<UndistortedZipExportSummary>;
 }
 
 export interface RunReconstructionExportDeps {
@@ -48,12 +71,53 @@ export interface RunReconstructionExportDeps {
     wasmReconstruction: WasmReconstructionWrapper | null
   ) => Reconstruction;
   writers: ReconstructionExportWriters;
+  fetchImage: (name: string) => Promise<File | null>;
+  /** Progress of long-running exports in percent, null when done. */
+  setProgress: (progress: number | null) => void;
   addNotification: (type: 'info' | 'warning', message: string, duration?: number) => void;
   logError: (message: string, error: unknown) => void;
 }
 
+function notifySkippedImages(
+  { skippedImageCount }: NerfExportSummary,
+  deps: Pick<RunReconstructionExportDeps, 'addNotification'>
+): void {
+  if (skippedImageCount === 0) return;
+  deps.addNotification(
+    'warning',
+    `Skipped ${skippedImageCount} image(s) whose camera model the format cannot describe.`,
+    6000
+  );
+}
+
+function notifyUndistortedExport(
+  { failedImageCount, unchangedImageCount }: UndistortedZipExportSummary,
+  deps: Pick<RunReconstructionExportDeps, 'addNotification'>
+): void {
+  if (failedImageCount > 0) {
+    deps.addNotification(
+      'warning',
+      `${failedImageCount} image(s) could not be loaded and are missing from the undistorted export.`,
+      6000
+    );
+  }
+  if (unchangedImageCount > 0) {
+    deps.addNotification(
+      'info',
+      `Copied ${unchangedImageCount} spherical camera image(s) without undistortion.`,
+      6000
+    );
+  }
+}
+
 export async function runReconstructionExport(
-  { exportFormat, loadedImageFiles }: RunReconstructionExportOptions,
+  {
+    exportFormat,
+    loadedImageFiles,
+    includeMasks = false,
+    undistortionMode = 'fullFrame',
+    jpegQualityPercent = 85,
+  }: RunReconstructionExportOptions,
   deps: RunReconstructionExportDeps
 ): Promise<void> {
   const pendingDeletionCount = deps.getPendingDeletionCount();
@@ -102,6 +166,33 @@ export async function runReconstructionExport(
           wasmReconstruction
         );
         break;
+      case 'undistorted':
+        deps.setProgress(0);
+        try {
+          notifyUndistortedExport(
+            await deps.writers.downloadUndistortedZip(
+              exportReconstruction,
+              { mode: undistortionMode, jpegQuality: jpegQualityPercent / 100 },
+              deps.fetchImage,
+              wasmReconstruction,
+              deps.setProgress
+            ),
+            deps
+          );
+        } finally {
+          deps.setProgress(null);
+        }
+        break;
+      case 'instantNgp':
+      case 'nerfstudio':
+        notifySkippedImages(
+          deps.writers.exportTransformsJson(exportReconstruction, { format: exportFormat, includeMasks }),
+          deps
+        );
+        break;
+      case 'llff':
+        notifySkippedImages(deps.writers.exportLlffPosesBounds(exportReconstruction, wasmReconstruction), deps);
+        break;
     }
   } catch (err) {
     deps.logError('Export failed:', err);
@@ -6,6 +6,9 @@ import {
   EXPORT_FORMAT_OPTIONS,
   getCameraModelSummary,
   getExportProgressStyle,
+  getSplatMetricCoverageLabel,
+  getSplatMetricMeanLabel,
+  getSplatMetricWorstPreview,
 } from './exportPanelViewModel';
 
 describe('export panel view-model helpers', () => {
@@ -15,11 +18,17 @@ describe('export panel view-model helpers', () => {
       'text',
       'ply',
       'zip',
+      'undistorted',
+      'instantNgp',
+      'nerfstudio',
+      'llff',
     ]);
     expect(EXPORT_FORMAT_DESCRIPTIONS.binary).toContain('COLMAP binary');
     expect(EXPORT_FORMAT_DESCRIPTIONS.text).toContain('Human-readable');
     expect(EXPORT_FORMAT_DESCRIPTIONS.ply).toContain('Point cloud');
     expect(EXPORT_FORMAT_DESCRIPTIONS.zip).toContain('archive');
+    expect(EXPORT_FORMAT_DESCRIPTIONS.undistorted).toContain('image_undistorter');
+    expect(EXPORT_FORMAT_DESCRIPTIONS.llff).toContain('near/far');
   });
 
   it('summarizes empty, single-model, and mixed camera model sets', () => {
@@ -47,4 +56,43 @@ describe('export panel view-model helpers', () => {
     expect(getExportProgressStyle(42)).toEqual({ width: '42%' });
     expect(getExportProgressStyle(100)).toEqual({ width: '100%' });
   });
+
+  it('labels splat metric coverage, means and the worst images', () => {
+    const summary = {
+      imageCount: 4,
+      measuredCount: 3,
+      errorCount: 1,
+      psnr: { mean: 25.126, median: 25, min: 20, max: 30 },
+      ssim: { mean: 0.8123, median: 0.8, min: 0.6, max: 1 },
+      meanMaskCoverage: 1,
+    };
+    const row = {
+      imageId: 2,
+      name: 'b.jpg',
+      cameraId: 1,
+      cameraModel: 'PINHOLE',
+      psnr: 20,
+      ssim: 0.6,
+      mse: 0.01,
+      maskCoverage: 1,
+      renderWidth: 64,
+      renderHeight: 48,
+      splatSourceId: null,
+    };
+
+    expect(getSplatMetricCoverageLabel(summary)).toBe('3 / 4 images measured · 1 failed');
+    expect(getSplatMetricCoverageLabel({ ...summary, errorCount: 0 })).toBe('3 / 4 images measured');
+    expect(getSplatMetricMeanLabel(summary)).toBe('Mean PSNR 25.13 dB · SSIM 0.812');
+    expect(getSplatMetricMeanLabel({ ...summary, psnr: null })).toBeNull();
+    expect(getSplatMetricWorstPreview({
+      splatSourceId: null,
+      rows: [],
+      summary,
+      worst: [row, { ...row, imageId: 3, name: 'c.jpg', psnr: Infinity }],
+      errors: [],
+    })).toEqual([
+      { imageId: 2, name: 'b.jpg', label: '20.00 dB' },
+      { imageId: 3, name: 'c.jpg', label: '∞ dB' },
+    ]);
+  });
 });
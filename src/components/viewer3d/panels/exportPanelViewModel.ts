@@ -1,7 +1,8 @@
 import type { CSSProperties } from 'react';
 import { CAMERA_MODEL_NAMES } from '../../../utils/cameraModelNames';
+import type { SplatMetricReport } from '../../../utils/splatMetricReport';
 
-export type ExportFormat = 'binary' | 'text' | 'ply' | 'zip';
+export type ExportFormat = 'binary' | 'text' | 'ply' | 'zip' | 'undistorted' | 'instantNgp' | 'nerfstudio' | 'llff';
 
 interface CameraModelSummaryCamera {
   modelId: number;
@@ -12,6 +13,10 @@ export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
   { value: 'text', label: 'Text (.txt)' },
   { value: 'ply', label: 'Points (.ply)' },
   { value: 'zip', label: 'ZIP (.zip)' },
+  { value: 'undistorted', label: 'Undistorted (.zip)' },
+  { value: 'instantNgp', label: 'instant-ngp (transforms.json)' },
+  { value: 'nerfstudio', label: 'Nerfstudio (transforms.json)' },
+  { value: 'llff', label: 'LLFF (poses_bounds.npy)' },
 ];
 
 export const EXPORT_FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
@@ -19,6 +24,10 @@ export const EXPORT_FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
   text: 'COLMAP text format. Human-readable, useful for debugging.',
   ply: 'Point cloud only. Compatible with MeshLab, CloudCompare.',
   zip: 'Binary files (.bin) in a single archive.',
+  undistorted: 'Undistorted images with PINHOLE cameras, like colmap image_undistorter. Uses the (U) undistortion mode.',
+  instantNgp: 'Camera poses and per-camera intrinsics with distortion for instant-ngp, in OpenGL camera axes.',
+  nerfstudio: 'Camera poses, intrinsics, distortion and mask paths for Nerfstudio and 3DGS trainers.',
+  llff: 'Poses, focal lengths and near/far depth bounds of perspective cameras for LLFF-style loaders.',
 };
 
 export function getCameraModelSummary(
@@ -44,3 +53,31 @@ export function getCameraModelSummary(
 export function getExportProgressStyle(progress: number): CSSProperties {
   return { width: `${progress}%` };
 }
+
+/** Worst images listed in the panel; the exported report keeps its own, longer list. */
+export const SPLAT_METRIC_PREVIEW_COUNT = 5;
+
+export interface SplatMetricPreviewItem {
+  imageId: number;
+  name: string;
+  label: string;
+}
+
+export function getSplatMetricCoverageLabel(summary: SplatMetricReport['summary']): string {
+  const failed = summary.errorCount > 0 ? ` · ${summary.errorCount} failed` : '';
+  return `${summary.measuredCount} / ${summary.imageCount} images measured${failed}`;
+}
+
+export function getSplatMetricMeanLabel(summary: SplatMetricReport['summary']): string | null {
+  if (!summary.psnr) return null;
+  const ssim = summary.ssim ? ` · SSIM ${summary.ssim.mean.toFixed(3)}` : '';
+  return `Mean PSNR ${summary.psnr.mean.toFixed(2)} dB${ssim}`;
+}
+
+export function getSplatMetricWorstPreview(report: SplatMetricReport): SplatMetricPreviewItem[] {
+  return report.worst.slice(0, SPLAT_METRIC_PREVIEW_COUNT).map((row) => ({
+    imageId: row.imageId,
+    name: row.name,
+    label: Number.isFinite(row.psnr) ? `${row.psnr.toFixed(2)} dB` : '∞ dB',
+  }));
+}
@@ -56,7 +56,9 @@ describe('viewer line width controls', () => {
         autoFovEnabled={true}
         setAutoFovEnabled={vi.fn()}
         splatMetricVisualizationsAvailable={false}
+        splatComparisonActive={false}
         onCycleCameraDisplayMode={vi.fn()}
+        onOpenReconstructionDiff={vi.fn()}
       />
     );
 
@@ -80,6 +82,9 @@ describe('viewer line width controls', () => {
         setShowMatches={vi.fn()}
         matchesDisplayMode="static"
         setMatchesDisplayMode={vi.fn()}
+        matchesSource="triangulated"
+        setMatchesSource={vi.fn()}
+        hasMatchesDatabase={false}
         matchesOpacity={0.8}
         setMatchesOpacity={vi.fn()}
         matchesColor="#00ff00"
@@ -87,6 +92,7 @@ describe('viewer line width controls', () => {
         matchesLineWidth={1.5}
         setMatchesLineWidth={setMatchesLineWidth}
         onCycleMatchesDisplayMode={vi.fn()}
+        onOpenCovisibilityGraph={vi.fn()}
       />
     );
 
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   MATCHES_DISPLAY_MODE_OPTIONS,
+  MATCHES_SOURCE_OPTIONS,
   getMatchesPanelHint,
   getSupportedMatchesDisplayMode,
 } from './matchesPanelViewModel';
@@ -13,6 +14,10 @@ describe('matches panel view-model helpers', () => {
     ]);
   });
 
+  it('lists one source option per match source', () => {
+    expect(MATCHES_SOURCE_OPTIONS.map((option) => option.value)).toEqual(['triangulated', 'verified', 'raw']);
+  });
+
   it('returns the hidden hint when matches are off', () => {
     expect(getMatchesPanelHint(false, 'static')).toEqual({
       title: 'Off:',
@@ -1,4 +1,4 @@
-import type { MatchesDisplayMode } from '../../../store/types';
+import type { MatchesDisplayMode, MatchesSource } from '../../../store/types';
 
 interface SelectOption<T extends string> {
   value: T;
@@ -15,6 +15,12 @@ export const MATCHES_DISPLAY_MODE_OPTIONS: SelectOption<MatchesDisplayMode>[] =
   { value: 'blink', label: 'Blink' },
 ];
 
+export const MATCHES_SOURCE_OPTIONS: SelectOption<MatchesSource>[] = [
+  { value: 'triangulated', label: 'Triangulated' },
+  { value: 'verified', label: 'Verified (db)' },
+  { value: 'raw', label: 'Raw (db)' },
+];
+
 const MATCHES_OFF_HINT: MatchesPanelHint = {
   title: 'Off:',
   lines: ['Match lines hidden.'],
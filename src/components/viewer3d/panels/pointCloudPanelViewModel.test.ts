@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   POINT_COLOR_MODE_OPTIONS,
+  canCompareSplatSources,
   formatMaxReprojectionError,
   getActiveSplatFileSelectValue,
   getMaxReprojectionErrorFromSliderValue,
@@ -126,6 +127,9 @@ describe('point cloud panel view-model helpers', () => {
     expect(getActiveSplatSourceSelectValue(sources, 'splats/b.spz')).toBe('splats/b.spz');
     expect(getActiveSplatSourceSelectValue(sources, null)).toBe(''); // COLMAP only
     expect(getActiveSplatSourceSelectValue(sources, 'missing')).toBe('');
+
+    expect(canCompareSplatSources(sources)).toBe(true);
+    expect(canCompareSplatSources([sources[0]])).toBe(false);
   });
 
   it('uses the reconstruction max error when available and keeps the fallback otherwise', () => {
@@ -139,6 +139,11 @@ export function getSplatSourceSelectOptionsWithNone(
   return [COLMAP_ONLY_SPLAT_OPTION, ...getSplatSourceSelectOptions(sources)];
 }
 
+/** A/B comparison needs a second source besides the active one. */
+export function canCompareSplatSources(sources: readonly SplatFileSource[]): boolean {
+  return sources.length >= 2;
+}
+
 export function getSplatFileFromSelectValue(
   files: readonly File[],
   value: string
@@ -1,7 +1,9 @@
 import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+  useCameraStore,
   useDeletionStore,
+  useImageMetricsStore,
   useNotificationStore,
   useReconstructionStore,
   useTransformStore,
@@ -18,9 +20,11 @@ import { useExportPanelStoreFacade } from './useExportPanelStoreFacade';
 describe('useExportPanelStoreFacade', () => {
   beforeEach(() => {
     useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useCameraStore.setState(useCameraStore.getInitialState(), true);
     useTransformStore.setState(useTransformStore.getInitialState(), true);
     useDeletionStore.setState(useDeletionStore.getInitialState(), true);
     useNotificationStore.setState(useNotificationStore.getInitialState(), true);
+    useImageMetricsStore.setState(useImageMetricsStore.getInitialState(), true);
   });
 
   it('collects export-panel dependencies from owning stores', () => {
@@ -40,6 +44,18 @@ describe('useExportPanelStoreFacade', () => {
       droppedFiles,
     });
     useDeletionStore.setState({ pendingDeletions: new Set([1, 2]) });
+    useCameraStore.setState({ undistortionMode: 'cropped' });
+    const splatPsnrMetrics = new Map([[1, {
+      imageId: 1,
+      psnr: 30,
+      mse: 0.001,
+      validPixelCount: 4,
+      width: 2,
+      height: 2,
+      computedAt: 0,
+    }]]);
+    const splatPsnrError = new Map([[2, 'Missing image file']]);
+    useImageMetricsStore.setState({ splatPsnrMetrics, splatPsnrError });
 
     const { result } = renderHook(() => useExportPanelStoreFacade());
 
@@ -47,6 +63,7 @@ describe('useExportPanelStoreFacade', () => {
       reconstruction,
       loadedFiles,
       droppedFiles,
+      undistortionMode: 'cropped',
     });
     expect(result.current.data.getLiveReconstruction()).toEqual({
       reconstruction,
@@ -55,6 +72,7 @@ describe('useExportPanelStoreFacade', () => {
     expect(result.current.deletion.pendingDeletions).toEqual(new Set([1, 2]));
     expect(result.current.deletion.getPendingDeletionCount()).toBe(2);
     expect(typeof result.current.deletion.applyDeletionsToData).toBe('function');
+    expect(result.current.splatMetrics).toEqual({ splatPsnrMetrics, splatPsnrError });
     expect(typeof result.current.actions.confirmReload).toBe('function');
   });
 
@@ -1,11 +1,15 @@
 import {
   applyDeletionsToData,
   confirmReload,
+  useCameraStore,
   useDeletionStore,
+  useImageMetricsStore,
   useNotificationStore,
   useReconstructionStore,
   useTransformStore,
+  type CameraState,
   type DeletionState,
+  type ImageMetricsState,
   type NotificationState,
   type TransformState,
 } from '../../../store';
@@ -21,6 +25,7 @@ interface ExportPanelDataFacade {
   reconstruction: Reconstruction | null;
   loadedFiles: LoadedFiles | null;
   droppedFiles: Map<string, File> | null;
+  undistortionMode: CameraState['undistortionMode'];
   getLiveReconstruction: () => ExportPanelLiveReconstruction;
 }
 
@@ -36,6 +41,11 @@ interface ExportPanelDeletionFacade {
   applyDeletionsToData: typeof applyDeletionsToData;
 }
 
+interface ExportPanelSplatMetricsFacade {
+  splatPsnrMetrics: ImageMetricsState['splatPsnrMetrics'];
+  splatPsnrError: ImageMetricsState['splatPsnrError'];
+}
+
 interface ExportPanelActionsFacade {
   addNotification: NotificationState['addNotification'];
   confirmReload: typeof confirmReload;
@@ -45,6 +55,7 @@ export interface ExportPanelStoreFacade {
   data: ExportPanelDataFacade;
   transform: ExportPanelTransformFacade;
   deletion: ExportPanelDeletionFacade;
+  splatMetrics: ExportPanelSplatMetricsFacade;
   actions: ExportPanelActionsFacade;
 }
 
@@ -52,8 +63,11 @@ export function useExportPanelStoreFacade(): ExportPanelStoreFacade {
   const reconstruction = useReconstructionStore((s) => s.reconstruction);
   const loadedFiles = useReconstructionStore((s) => s.loadedFiles);
   const droppedFiles = useReconstructionStore((s) => s.droppedFiles);
+  const undistortionMode = useCameraStore((s) => s.undistortionMode);
   const resetTransform = useTransformStore((s) => s.resetTransform);
   const pendingDeletions = useDeletionStore((s) => s.pendingDeletions);
+  const splatPsnrMetrics = useImageMetricsStore((s) => s.splatPsnrMetrics);
+  const splatPsnrError = useImageMetricsStore((s) => s.splatPsnrError);
   const addNotification = useNotificationStore((s) => s.addNotification);
 
   return {
@@ -61,6 +75,7 @@ export function useExportPanelStoreFacade(): ExportPanelStoreFacade {
       reconstruction,
       loadedFiles,
       droppedFiles,
+      undistortionMode,
       getLiveReconstruction: () => {
         const liveStore = useReconstructionStore.getState();
         return {
@@ -79,6 +94,10 @@ export function useExportPanelStoreFacade(): ExportPanelStoreFacade {
       getPendingDeletionCount: () => useDeletionStore.getState().pendingDeletions.size,
       applyDeletionsToData,
     },
+    splatMetrics: {
+      splatPsnrMetrics,
+      splatPsnrError,
+    },
     actions: {
       addNotification,
       confirmReload,
@@ -1,12 +1,14 @@
 import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { useExportStore, useNotificationStore } from '../../../store';
+import { useCameraPathStore, useExportStore, useNotificationStore } from '../../../store';
+import type { CameraViewState } from '../../../store/types';
 import { useScreenshotPanelStoreFacade } from './useScreenshotPanelStoreFacade';
 
 describe('useScreenshotPanelStoreFacade', () => {
   beforeEach(() => {
     useExportStore.setState(useExportStore.getInitialState(), true);
     useNotificationStore.setState(useNotificationStore.getInitialState(), true);
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
   });
 
   it('collects screenshot and recording state from the owning stores', () => {
@@ -86,4 +88,22 @@ describe('useScreenshotPanelStoreFacade', () => {
       duration: 500,
     });
   });
+
+  it('offers recording with the camera path once it has two keyframes', () => {
+    const view: CameraViewState = { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5 };
+    const { result } = renderHook(() => useScreenshotPanelStoreFacade());
+    expect(result.current.recording).toMatchObject({ hasCameraPath: false, cameraPathRecordingDuration: null });
+
+    act(() => {
+      useCameraPathStore.getState().addKeyframe(view);
+      useCameraPathStore.getState().addKeyframe({ ...view, position: [5, 0, 0] });
+      result.current.recording.setRecordWithCameraPath(true);
+    });
+
+    expect(result.current.recording).toMatchObject({
+      hasCameraPath: true,
+      recordWithCameraPath: true,
+      cameraPathRecordingDuration: 2,
+    });
+  });
 });
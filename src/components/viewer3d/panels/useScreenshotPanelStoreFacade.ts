@@ -1,9 +1,12 @@
 import {
+  useCameraPathStore,
   useExportStore,
   useNotificationStore,
+  type CameraPathState,
   type ExportState,
   type NotificationState,
 } from '../../../store';
+import { getCameraPathRecordingDuration } from '../../../utils/cameraPathTimelinePolicy';
 
 interface ScreenshotPanelStaticFacade {
   size: ExportState['screenshotSize'];
@@ -33,6 +36,12 @@ interface ScreenshotPanelRecordingFacade {
   setRecordingQuality: ExportState['setRecordingQuality'];
   downloadGif: ExportState['downloadGif'];
   stopRecording: ExportState['stopRecording'];
+  /** A playable camera path exists (two or more keyframes). */
+  hasCameraPath: boolean;
+  recordWithCameraPath: boolean;
+  /** Replaces the set duration while recording with the camera path. */
+  cameraPathRecordingDuration: number | null;
+  setRecordWithCameraPath: CameraPathState['setRecordWithPath'];
 }
 
 export interface ScreenshotPanelStoreFacade {
@@ -67,6 +76,12 @@ export function useScreenshotPanelStoreFacade(): ScreenshotPanelStoreFacade {
   const setRecordingQuality = useExportStore((s) => s.setRecordingQuality);
   const downloadGif = useExportStore((s) => s.downloadGif);
   const stopRecording = useExportStore((s) => s.stopRecording);
+  const hasCameraPath = useCameraPathStore((s) => s.keyframes.length >= 2);
+  const recordWithCameraPath = useCameraPathStore((s) => s.recordWithPath);
+  const cameraPathRecordingDuration = useCameraPathStore(
+    (s) => getCameraPathRecordingDuration(s.keyframes, s.recordWithPath)
+  );
+  const setRecordWithCameraPath = useCameraPathStore((s) => s.setRecordWithPath);
   const addNotification = useNotificationStore((s) => s.addNotification);
 
   return {
@@ -97,6 +112,10 @@ export function useScreenshotPanelStoreFacade(): ScreenshotPanelStoreFacade {
       setRecordingQuality,
       downloadGif,
       stopRecording,
+      hasCameraPath,
+      recordWithCameraPath,
+      cameraPathRecordingDuration,
+      setRecordWithCameraPath,
     },
     addNotification,
   };
@@ -52,6 +52,8 @@ describe('picking cursor view model', () => {
       nextLabel: 'P1',
       nextColor: MARKER_COLORS_CSS[0],
     });
+    expect(getPickingCursorViewModel('gcp', 0)).toMatchObject({ isVisible: true, nextLabel: 'GCP' });
+    expect(getPickingCursorViewModel('measure', 0)).toMatchObject({ isVisible: true, nextLabel: 'measurement point' });
   });
 
   it('offsets the cursor tooltip from the mouse position', () => {
@@ -23,6 +23,13 @@ export const PICKING_CURSOR_MARKER_CLASS = 'w-3 h-3 rounded-full inline-block';
 export const PICKING_CURSOR_LABEL_PREFIX = 'Select';
 
 export const POINT_LABELS = ['P1', 'P2', 'P3'] as const;
+export const GCP_PICKING_CURSOR_LABEL = 'GCP';
+export const MEASURE_PICKING_CURSOR_LABEL = 'measurement point';
+
+const TOOL_PICKING_CURSOR_LABELS: Partial<Record<PointPickingMode, string>> = {
+  gcp: GCP_PICKING_CURSOR_LABEL,
+  measure: MEASURE_PICKING_CURSOR_LABEL,
+};
 
 export function getPickingCursorLabel(pointIndex: number): string {
   return POINT_LABELS[pointIndex] ?? POINT_LABELS[0];
@@ -51,7 +58,7 @@ export function getPickingCursorViewModel(
   return {
     isVisible: shouldShowPickingCursor(pickingMode, selectedPointCount),
     nextPointIndex,
-    nextLabel: getPickingCursorLabel(nextPointIndex),
+    nextLabel: TOOL_PICKING_CURSOR_LABELS[pickingMode] ?? getPickingCursorLabel(nextPointIndex),
     nextColor: getPickingCursorColor(nextPointIndex),
   };
 }
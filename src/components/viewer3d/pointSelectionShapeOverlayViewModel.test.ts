@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendLassoPoint,
+  getSelectionPolygon,
+  getSvgPolygonPoints,
+  isSelectionPolygonUsable,
+  toNdcPolygon,
+} from './pointSelectionShapeOverlayViewModel';
+
+describe('pointSelectionShapeOverlayViewModel', () => {
+  it('builds a box from the drag start and end and a lasso from every vertex', () => {
+    const drag: [number, number][] = [[10, 20], [15, 25], [50, 60]];
+
+    expect(getSelectionPolygon('box', drag)).toEqual([[10, 20], [50, 20], [50, 60], [10, 60]]);
+    expect(getSelectionPolygon('lasso', drag)).toEqual(drag);
+    expect(getSelectionPolygon('box', [])).toEqual([]);
+  });
+
+  it('skips lasso vertices that barely move', () => {
+    const points = appendLassoPoint([[0, 0]], [1, 1]);
+
+    expect(points).toEqual([[0, 0]]);
+    expect(appendLassoPoint(points, [5, 0])).toEqual([[0, 0], [5, 0]]);
+  });
+
+  it('ignores click-sized boxes and degenerate lassos', () => {
+    expect(isSelectionPolygonUsable('box', getSelectionPolygon('box', [[0, 0], [2, 30]]))).toBe(false);
+    expect(isSelectionPolygonUsable('box', getSelectionPolygon('box', [[0, 0], [20, 30]]))).toBe(true);
+    expect(isSelectionPolygonUsable('lasso', [[0, 0], [10, 0]])).toBe(false);
+  });
+
+  it('converts overlay pixels to normalized device coordinates', () => {
+    expect(toNdcPolygon([[0, 0], [400, 300], [800, 600]], { width: 800, height: 600 }))
+      .toEqual([[-1, 1], [0, 0], [1, -1]]);
+    expect(getSvgPolygonPoints([[1, 2], [3, 4]])).toBe('1,2 3,4');
+  });
+});
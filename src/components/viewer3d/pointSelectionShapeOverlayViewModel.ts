@@ -0,0 +1,56 @@
+import type { PointSelectionTool } from '../../store/stores/pointEditStore';
+
+export type ScreenPoint = [number, number];
+
+/** Box drags smaller than this (px) are treated as clicks and ignored. */
+export const MIN_SELECTION_BOX_SIZE = 4;
+/** Lasso vertices closer than this (px) to the previous one are skipped. */
+export const MIN_LASSO_SEGMENT_LENGTH = 3;
+
+export const POINT_SELECTION_OVERLAY_CLASS = 'absolute inset-0 z-10 cursor-crosshair';
+
+export function getBoxPolygon(start: ScreenPoint, end: ScreenPoint): ScreenPoint[] {
+  return [
+    [start[0], start[1]],
+    [end[0], start[1]],
+    [end[0], end[1]],
+    [start[0], end[1]],
+  ];
+}
+
+export function appendLassoPoint(points: readonly ScreenPoint[], next: ScreenPoint): ScreenPoint[] {
+  const last = points[points.length - 1];
+  if (last && Math.hypot(next[0] - last[0], next[1] - last[1]) < MIN_LASSO_SEGMENT_LENGTH) {
+    return points as ScreenPoint[];
+  }
+  return [...points, next];
+}
+
+/** The polygon the current drag describes, in overlay pixels. */
+export function getSelectionPolygon(
+  tool: PointSelectionTool,
+  points: readonly ScreenPoint[]
+): ScreenPoint[] {
+  if (points.length === 0) return [];
+  if (tool === 'box') return getBoxPolygon(points[0], points[points.length - 1]);
+  return points.slice();
+}
+
+export function isSelectionPolygonUsable(tool: PointSelectionTool, polygon: readonly ScreenPoint[]): boolean {
+  if (polygon.length < 3) return false;
+  if (tool !== 'box') return true;
+  const [start, , end] = polygon;
+  return Math.abs(end[0] - start[0]) >= MIN_SELECTION_BOX_SIZE && Math.abs(end[1] - start[1]) >= MIN_SELECTION_BOX_SIZE;
+}
+
+/** Overlay pixels (y down) to normalized device coordinates (y up). */
+export function toNdcPolygon(
+  polygon: readonly ScreenPoint[],
+  size: { width: number; height: number }
+): ScreenPoint[] {
+  return polygon.map(([x, y]) => [(x / size.width) * 2 - 1, 1 - (y / size.height) * 2]);
+}
+
+export function getSvgPolygonPoints(polygon: readonly ScreenPoint[]): string {
+  return polygon.map(([x, y]) => `${x},${y}`).join(' ');
+}
@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { ReconstructionDiffImage } from '../../utils/reconstructionDiff';
+import {
+  RECONSTRUCTION_DIFF_COMPARE_COLOR,
+  buildReconstructionDiffOverlayData,
+  getPoseErrorColor,
+  getReconstructionDiffDirectionLength,
+} from './reconstructionDiffOverlayPolicy';
+
+function buildDiffImage(overrides: Partial<ReconstructionDiffImage> = {}): ReconstructionDiffImage {
+  return {
+    name: 'a.jpg',
+    referenceImageId: 1,
+    compareImageId: 1,
+    referencePosition: new THREE.Vector3(),
+    referenceQuaternion: new THREE.Quaternion(),
+    alignedPosition: new THREE.Vector3(),
+    alignedQuaternion: new THREE.Quaternion(),
+    positionError: 0,
+    rotationErrorDeg: 0,
+    ...overrides,
+  };
+}
+
+describe('reconstructionDiffOverlayPolicy', () => {
+  it('ramps error colors from green through yellow to red', () => {
+    expect(getPoseErrorColor(0).getHexString()).toBe('33dd55');
+    expect(getPoseErrorColor(2.5).getHexString()).toBe('ffcc00');
+    expect(getPoseErrorColor(50).getHexString()).toBe('ff3333');
+  });
+
+  it('scales direction ticks with the reference camera spread', () => {
+    const matched = [
+      buildDiffImage({ referencePosition: new THREE.Vector3(0, 0, 0) }),
+      buildDiffImage({ referencePosition: new THREE.Vector3(30, 40, 0) }),
+    ];
+
+    expect(getReconstructionDiffDirectionLength({ matched })).toBeCloseTo(1.5);
+    expect(getReconstructionDiffDirectionLength({ matched: matched.slice(0, 1) })).toBe(1);
+    expect(getReconstructionDiffDirectionLength({ matched: [] })).toBe(0);
+  });
+
+  it('emits an error vector and a viewing-direction tick per matched image', () => {
+    const image = buildDiffImage({
+      referencePosition: new THREE.Vector3(1, 0, 0),
+      alignedPosition: new THREE.Vector3(1, 1, 0),
+      rotationErrorDeg: 10,
+    });
+
+    const data = buildReconstructionDiffOverlayData({ matched: [image] }, 2);
+
+    expect(Array.from(data?.positions ?? [])).toEqual([1, 0, 0, 1, 1, 0, 1, 1, 0, 1, 1, 2]);
+    const compare = new THREE.Color(RECONSTRUCTION_DIFF_COMPARE_COLOR);
+    const error = getPoseErrorColor(10);
+    expect(data?.colors[0]).toBeCloseTo(error.r);
+    expect(data?.colors[4]).toBeCloseTo(error.g);
+    expect(data?.colors[9]).toBeCloseTo(compare.r);
+    expect(buildReconstructionDiffOverlayData({ matched: [] })).toBeNull();
+  });
+});
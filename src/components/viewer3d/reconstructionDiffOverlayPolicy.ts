@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import type { ReconstructionDiff } from '../../utils/reconstructionDiff';
+
+/** Viewing-direction ticks of the aligned compare cameras. */
+export const RECONSTRUCTION_DIFF_COMPARE_COLOR = '#33ccff';
+/** Rotation error (degrees) at which error vectors reach full red. */
+export const RECONSTRUCTION_DIFF_MAX_ROTATION_DEG = 5;
+/** Direction tick length as a fraction of the reference camera spread. */
+const DIRECTION_LENGTH_FRACTION = 0.03;
+
+const LOW_ERROR_COLOR = new THREE.Color('#33dd55');
+const MID_ERROR_COLOR = new THREE.Color('#ffcc00');
+const HIGH_ERROR_COLOR = new THREE.Color('#ff3333');
+const CAMERA_FORWARD = new THREE.Vector3(0, 0, 1);
+
+export interface ReconstructionDiffOverlayData {
+  positions: Float32Array;
+  colors: Float32Array;
+}
+
+/** Green at zero, yellow at half of `maxDeg`, red at and above it. */
+export function getPoseErrorColor(
+  rotationErrorDeg: number,
+  maxDeg = RECONSTRUCTION_DIFF_MAX_ROTATION_DEG
+): THREE.Color {
+  const t = THREE.MathUtils.clamp(maxDeg > 0 ? rotationErrorDeg / maxDeg : 1, 0, 1);
+  return t < 0.5
+    ? LOW_ERROR_COLOR.clone().lerp(MID_ERROR_COLOR, t * 2)
+    : MID_ERROR_COLOR.clone().lerp(HIGH_ERROR_COLOR, (t - 0.5) * 2);
+}
+
+export function getReconstructionDiffDirectionLength(diff: Pick<ReconstructionDiff, 'matched'>): number {
+  if (diff.matched.length === 0) return 0;
+  const bounds = new THREE.Box3();
+  for (const image of diff.matched) bounds.expandByPoint(image.referencePosition);
+  const diagonal = bounds.getSize(new THREE.Vector3()).length();
+  return diagonal > 0 ? diagonal * DIRECTION_LENGTH_FRACTION : 1;
+}
+
+/**
+ * Two segments per matched image: the error vector from the reference centre
+ * to the aligned compare centre (coloured by rotation error), and the aligned
+ * compare camera's viewing direction.
+ */
+export function buildReconstructionDiffOverlayData(
+  diff: Pick<ReconstructionDiff, 'matched'>,
+  directionLength = getReconstructionDiffDirectionLength(diff)
+): ReconstructionDiffOverlayData | null {
+  if (diff.matched.length === 0) return null;
+
+  const positions = new Float32Array(diff.matched.length * 12);
+  const colors = new Float32Array(diff.matched.length * 12);
+  const compareColor = new THREE.Color(RECONSTRUCTION_DIFF_COMPARE_COLOR);
+  const tip = new THREE.Vector3();
+
+  diff.matched.forEach((image, i) => {
+    const offset = i * 12;
+    const errorColor = getPoseErrorColor(image.rotationErrorDeg);
+    tip.copy(CAMERA_FORWARD).applyQuaternion(image.alignedQuaternion)
+      .multiplyScalar(directionLength)
+      .add(image.alignedPosition);
+
+    image.referencePosition.toArray(positions, offset);
+    image.alignedPosition.toArray(positions, offset + 3);
+    image.alignedPosition.toArray(positions, offset + 6);
+    tip.toArray(positions, offset + 9);
+    errorColor.toArray(colors, offset);
+    errorColor.toArray(colors, offset + 3);
+    compareColor.toArray(colors, offset + 6);
+    compareColor.toArray(colors, offset + 9);
+  });
+
+  return { positions, colors };
+}
@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { ReferencePoseResidual } from '../../utils/referencePoseAlignment';
+import { buildReferenceResidualOverlayData } from './referenceAlignmentOverlayPolicy';
+
+function buildResidual(overrides: Partial<ReferencePoseResidual> = {}): ReferencePoseResidual {
+  return {
+    imageId: 1,
+    name: 'a.jpg',
+    cameraPosition: new THREE.Vector3(),
+    referencePosition: new THREE.Vector3(),
+    residual: 0,
+    inlier: true,
+    ...overrides,
+  };
+}
+
+const identity = { scale: 1, rotation: new THREE.Quaternion(), translation: new THREE.Vector3() };
+
+describe('referenceAlignmentOverlayPolicy', () => {
+  it('maps reference positions back into reconstruction coordinates', () => {
+    const data = buildReferenceResidualOverlayData({
+      sim3d: { scale: 2, rotation: new THREE.Quaternion(), translation: new THREE.Vector3(10, 0, 0) },
+      inlierThreshold: 1,
+      residuals: [
+        buildResidual({ cameraPosition: new THREE.Vector3(1, 0, 0), referencePosition: new THREE.Vector3(14, 2, 0) }),
+      ],
+    });
+
+    expect(Array.from(data!.positions)).toEqual([1, 0, 0, 2, 1, 0]);
+  });
+
+  it('colors residuals relative to the inlier threshold', () => {
+    const data = buildReferenceResidualOverlayData({
+      sim3d: identity,
+      inlierThreshold: 0.5,
+      residuals: [buildResidual({ residual: 0 }), buildResidual({ residual: 5, inlier: false })],
+    });
+
+    const [r0, g0] = data!.colors.slice(0, 2);
+    const [r1, g1] = data!.colors.slice(6, 8);
+    expect(g0).toBeGreaterThan(r0);
+    expect(r1).toBeCloseTo(1);
+    expect(g1).toBeLessThan(0.3);
+    expect(buildReferenceResidualOverlayData({ sim3d: identity, inlierThreshold: 1, residuals: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import type { ReferencePoseAlignment } from '../../utils/referencePoseAlignment';
+import { inverseSim3d, transformPoint } from '../../utils/sim3dTransforms';
+import { getPoseErrorColor } from './reconstructionDiffOverlayPolicy';
+
+export interface ReferenceResidualOverlayData {
+  positions: Float32Array;
+  colors: Float32Array;
+}
+
+/**
+ * One segment per matched camera, from its centre to its reference position
+ * mapped back into reconstruction coordinates, so the vectors sit on the
+ * frustums under whatever transform is currently previewed. Inliers ramp
+ * green to yellow at the inlier threshold; outliers continue to red at twice it.
+ */
+export function buildReferenceResidualOverlayData(
+  alignment: Pick<ReferencePoseAlignment, 'sim3d' | 'residuals' | 'inlierThreshold'>
+): ReferenceResidualOverlayData | null {
+  if (alignment.residuals.length === 0) return null;
+
+  const positions = new Float32Array(alignment.residuals.length * 6);
+  const colors = new Float32Array(alignment.residuals.length * 6);
+  const reconstructionFromReference = inverseSim3d(alignment.sim3d);
+  const maxResidual = alignment.inlierThreshold * 2;
+
+  alignment.residuals.forEach((residual, i) => {
+    const offset = i * 6;
+    const color = getPoseErrorColor(residual.residual, maxResidual);
+    const target = transformPoint(reconstructionFromReference, [
+      residual.referencePosition.x,
+      residual.referencePosition.y,
+      residual.referencePosition.z,
+    ]);
+
+    residual.cameraPosition.toArray(positions, offset);
+    positions.set(target, offset + 3);
+    color.toArray(colors, offset);
+    color.toArray(colors, offset + 3);
+  });
+
+  return { positions, colors };
+}
@@ -0,0 +1,64 @@
+import type {
+  BufferTarget,
+  EncodedPacket,
+  EncodedVideoPacketSource,
+  Mp4OutputFormat,
+  Output,
+} from 'mediabunny';
+import type { VideoTrackOptions } from './screenshotRecordingPolicy';
+import type { WebCodecsMuxer } from './screenshotWebCodecsStart';
+
+/** The parts of a dynamically imported `mediabunny` the MP4 muxer uses. */
+export interface Mp4MuxerModule {
+  BufferTarget: typeof BufferTarget;
+  EncodedPacket: typeof EncodedPacket;
+  EncodedVideoPacketSource: typeof EncodedVideoPacketSource;
+  Mp4OutputFormat: typeof Mp4OutputFormat;
+  Output: typeof Output;
+}
+
+/**
+ * An in-memory AVC MP4 muxer. Chunks are written strictly in the order the
+ * encoder emits them; the first failed write is rethrown from `finalize`.
+ */
+export function createMp4WebCodecsMuxer(
+  {
+    BufferTarget,
+    EncodedPacket,
+    EncodedVideoPacketSource,
+    Mp4OutputFormat,
+    Output,
+  }: Mp4MuxerModule,
+  trackOptions: VideoTrackOptions
+): WebCodecsMuxer {
+  const target = new BufferTarget();
+  const output = new Output({
+    format: new Mp4OutputFormat({ fastStart: 'in-memory' }),
+    target,
+  });
+  const videoSource = new EncodedVideoPacketSource('avc');
+  output.addVideoTrack(videoSource, trackOptions);
+  let pendingVideoWrites = Promise.resolve();
+  let videoWriteError: unknown = null;
+
+  return {
+    target,
+    start: () => output.start(),
+    addVideoChunk: (chunk, meta) => {
+      const write = pendingVideoWrites.then(() =>
+        videoSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)
+      );
+      pendingVideoWrites = write.catch((error: unknown) => {
+        videoWriteError ??= error;
+      });
+      return write;
+    },
+    finalize: async () => {
+      await pendingVideoWrites;
+      if (videoWriteError) {
+        throw videoWriteError;
+      }
+      await output.finalize();
+    },
+  };
+}
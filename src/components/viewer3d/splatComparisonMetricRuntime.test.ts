@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildCamera, buildFile, buildImage, buildReconstruction } from '../../test/builders';
+import { createWebGpuSplatPsnrSession } from '../../splat/webgpu/psnrSplatSession';
+import {
+  computeSplatComparisonMetrics,
+  releaseSplatComparisonMetricSession,
+  type SplatComparisonMetricRun,
+} from './splatComparisonMetricRuntime';
+
+vi.mock('../../splat/gaussianCloudLoader', () => ({
+  loadGaussianCloudFromFile: vi.fn(async (file: File) => ({
+    file,
+    format: 'spz',
+    byteLength: 1,
+    cloud: { count: 0, shDegree: 0 },
+  })),
+}));
+
+vi.mock('../../splat/webgpu/psnrSplatSession', () => ({
+  createWebGpuSplatPsnrSession: vi.fn(),
+}));
+
+vi.mock('../../splat/webgpu/visibleSplatRuntimeRegistry', () => ({
+  createVisibleWebGpuSplatSceneId: (file: File) => file.name,
+  getVisibleWebGpuSplatSharedRuntime: () => null,
+}));
+
+vi.mock('../../splat/webgpu/webGpuSplatLimits', () => ({
+  getWebGpuSplatRequiredLimitsForCloud: () => null,
+}));
+
+vi.mock('./splatPsnrRuntime', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./splatPsnrRuntime')>(),
+  ensureSplatPsnrWebGpuDevice: vi.fn(async () => ({}) as GPUDevice),
+}));
+
+function createSessionMock() {
+  return {
+    computeImageMetric: vi.fn(async () => ({ psnr: 30, ssim: 0.9, mse: 0.001, validPixelCount: 4 })),
+    submitImageMetric: vi.fn(),
+    renderImageErrorMaps: vi.fn(),
+    dispose: vi.fn(),
+  };
+}
+
+function buildRun(overrides: Partial<SplatComparisonMetricRun> = {}): SplatComparisonMetricRun {
+  const identity = {
+    scale: 1,
+    rotationX: 0,
+    rotationY: 0,
+    rotationZ: 0,
+    translationX: 0,
+    translationY: 0,
+    translationZ: 0,
+  };
+  return {
+    reconstruction: buildReconstruction({
+      cameras: [buildCamera({ width: 3200, height: 2400 })],
+      images: [
+        buildImage({ imageId: 1, name: 'a.jpg' }),
+        buildImage({ imageId: 2, name: 'b.jpg' }),
+      ],
+    }),
+    dataset: {
+      getMetricImage: vi.fn(async (name: string) => buildFile(name)),
+      hasMasks: () => false,
+      getMask: vi.fn(),
+    },
+    splatFile: buildFile('b.spz', 'splat'),
+    transform: identity,
+    splatTransform: identity,
+    shouldCancel: () => false,
+    onMetric: vi.fn(),
+    onError: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('splatComparisonMetricRuntime', () => {
+  afterEach(() => {
+    releaseSplatComparisonMetricSession();
+    vi.mocked(createWebGpuSplatPsnrSession).mockReset();
+  });
+
+  it('measures every image at full resolution through one session per splat file', async () => {
+    const session = createSessionMock();
+    vi.mocked(createWebGpuSplatPsnrSession).mockResolvedValue(session as never);
+    const run = buildRun();
+
+    await computeSplatComparisonMetrics(run);
+    await computeSplatComparisonMetrics(run);
+
+    expect(createWebGpuSplatPsnrSession).toHaveBeenCalledTimes(1);
+    expect(session.computeImageMetric).toHaveBeenCalledWith(expect.objectContaining({ width: 3200, height: 2400 }));
+    expect(run.onMetric).toHaveBeenCalledWith(expect.objectContaining({ imageId: 2, psnr: 30, width: 3200 }));
+    expect(run.onError).not.toHaveBeenCalled();
+  });
+
+  it('reports per-image failures and stops when cancelled', async () => {
+    const session = createSessionMock();
+    session.computeImageMetric
+      .mockResolvedValueOnce({ psnr: Number.NaN, ssim: 0, mse: 0, validPixelCount: 0 })
+      .mockRejectedValueOnce(new Error('Render failed'));
+    vi.mocked(createWebGpuSplatPsnrSession).mockResolvedValue(session as never);
+    const run = buildRun();
+
+    await computeSplatComparisonMetrics(run);
+    expect(run.onError).toHaveBeenCalledWith(1, 'No valid ground truth pixels');
+    expect(run.onError).toHaveBeenCalledWith(2, 'Render failed');
+
+    const cancelled = buildRun({ shouldCancel: () => true });
+    await computeSplatComparisonMetrics(cancelled);
+    expect(cancelled.onMetric).not.toHaveBeenCalled();
+    expect(cancelled.onError).not.toHaveBeenCalled();
+  });
+});
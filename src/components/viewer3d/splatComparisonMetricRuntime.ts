@@ -0,0 +1,159 @@
+import type { DatasetManager } from '../../dataset';
+import type { ImageId, Reconstruction } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+import type { LoadedGaussianCloud } from '../../splat/gaussianCloud';
+import { loadGaussianCloudFromFile } from '../../splat/gaussianCloudLoader';
+import {
+  createWebGpuSplatPsnrSession,
+  type WebGpuSplatPsnrSession,
+} from '../../splat/webgpu/psnrSplatSession';
+import {
+  createVisibleWebGpuSplatSceneId,
+  getVisibleWebGpuSplatSharedRuntime,
+} from '../../splat/webgpu/visibleSplatRuntimeRegistry';
+import { getWebGpuSplatRequiredLimitsForCloud } from '../../splat/webgpu/webGpuSplatLimits';
+import type { SplatPsnrMetric } from '../../store/stores/imageMetricsStore';
+import { getRequestedSplatPsnrImageIds } from './splatPsnrImageIds';
+import {
+  ensureSplatPsnrWebGpuDevice,
+  getSplatModelTransform,
+  getSplatPsnrRenderSize,
+} from './splatPsnrRuntime';
+
+export interface SplatComparisonMetricRun {
+  reconstruction: Reconstruction;
+  dataset: Pick<DatasetManager, 'getMetricImage' | 'hasMasks' | 'getMask'>;
+  splatFile: File;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+  shouldCancel: () => boolean;
+  onMetric: (metric: SplatPsnrMetric) => void;
+  onError: (imageId: ImageId, message: string) => void;
+}
+
+interface CachedSplatComparisonSession {
+  splatFile: File;
+  session: Promise<WebGpuSplatPsnrSession>;
+}
+
+// One session for the comparison splat, separate from the evaluator's so
+// measuring B never cancels or replaces the session measuring A.
+let cachedSession: CachedSplatComparisonSession | null = null;
+
+/**
+ * Measure the comparison splat over the same images, cameras, masks and full
+ * render size the evaluator uses for the active splat, so the two PSNRs are
+ * directly comparable.
+ */
+export async function computeSplatComparisonMetrics({
+  reconstruction,
+  dataset,
+  splatFile,
+  transform,
+  splatTransform,
+  shouldCancel,
+  onMetric,
+  onError,
+}: SplatComparisonMetricRun): Promise<void> {
+  const imageIds = getRequestedSplatPsnrImageIds({ id: 0, scope: 'all' }, reconstruction);
+  if (imageIds.length === 0) return;
+
+  const sessionPromise = getSplatComparisonSession(splatFile);
+  let session: WebGpuSplatPsnrSession;
+  try {
+    session = await sessionPromise;
+  } catch (error) {
+    if (cachedSession?.session === sessionPromise) {
+      releaseSplatComparisonMetricSession();
+    }
+    throw error;
+  }
+  const modelTransform = getSplatModelTransform(transform, splatTransform);
+
+  for (const imageId of imageIds) {
+    if (shouldCancel()) return;
+    const image = reconstruction.images.get(imageId);
+    const camera = image ? reconstruction.cameras.get(image.cameraId) : undefined;
+    if (!image || !camera) {
+      onError(imageId, 'Missing camera or image');
+      continue;
+    }
+
+    try {
+      const imageFile = await dataset.getMetricImage(image.name);
+      if (shouldCancel()) return;
+      if (!imageFile) {
+        onError(imageId, 'Missing image file');
+        continue;
+      }
+      const maskFile = dataset.hasMasks() ? await dataset.getMask(image.name) : null;
+      if (shouldCancel()) return;
+
+      const size = getSplatPsnrRenderSize(camera);
+      const metric = await session.computeImageMetric({
+        imageFile,
+        maskFile,
+        image,
+        camera,
+        width: size.width,
+        height: size.height,
+        transform,
+        modelTransform,
+      });
+      if (shouldCancel()) return;
+      if (!Number.isFinite(metric.psnr) && metric.psnr !== Infinity) {
+        onError(imageId, 'No valid ground truth pixels');
+        continue;
+      }
+      onMetric({
+        imageId,
+        psnr: metric.psnr,
+        ssim: metric.ssim,
+        mse: metric.mse,
+        validPixelCount: metric.validPixelCount,
+        width: size.width,
+        height: size.height,
+        computedAt: Date.now(),
+      });
+    } catch (error) {
+      if (shouldCancel()) return;
+      onError(imageId, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+export function releaseSplatComparisonMetricSession(): void {
+  const released = cachedSession;
+  cachedSession = null;
+  void released?.session.then((session) => session.dispose(), () => undefined);
+}
+
+function getSplatComparisonSession(splatFile: File): Promise<WebGpuSplatPsnrSession> {
+  if (cachedSession?.splatFile === splatFile) {
+    return cachedSession.session;
+  }
+
+  releaseSplatComparisonMetricSession();
+  const session = createSplatComparisonSession(splatFile);
+  cachedSession = { splatFile, session };
+  return session;
+}
+
+async function createSplatComparisonSession(splatFile: File): Promise<WebGpuSplatPsnrSession> {
+  const sharedRuntime = getVisibleWebGpuSplatSharedRuntime(createVisibleWebGpuSplatSceneId(splatFile));
+  const loadedCloud: LoadedGaussianCloud = await loadGaussianCloudFromFile(splatFile);
+  if (sharedRuntime) {
+    return createWebGpuSplatPsnrSession({
+      device: sharedRuntime.device,
+      splatFile,
+      loadedCloud,
+      sharedScene: {
+        sceneId: sharedRuntime.sceneId,
+        resourceManager: sharedRuntime.sceneResourceManager,
+      },
+    });
+  }
+
+  const device = await ensureSplatPsnrWebGpuDevice(getWebGpuSplatRequiredLimitsForCloud(loadedCloud.cloud));
+  return createWebGpuSplatPsnrSession({ device, splatFile, loadedCloud });
+}
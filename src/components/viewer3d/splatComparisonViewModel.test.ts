@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getSplatComparisonClipPath,
+  getSplatComparisonDividerPosition,
+  getSplatComparisonPointerPosition,
+} from './splatComparisonViewModel';
+
+describe('splatComparisonViewModel', () => {
+  it('centres the split divider and follows the swipe position', () => {
+    expect(getSplatComparisonDividerPosition('split', 0.2)).toBe(0.5);
+    expect(getSplatComparisonDividerPosition('swipe', 0.2)).toBe(0.2);
+  });
+
+  it('clips the comparison canvas to the right of the divider', () => {
+    expect(getSplatComparisonClipPath(0.5)).toBe('inset(0 0 0 50%)');
+    expect(getSplatComparisonClipPath(1 / 3)).toBe('inset(0 0 0 33.33%)');
+    expect(getSplatComparisonClipPath(2)).toBe('inset(0 0 0 100%)');
+  });
+
+  it('maps a pointer to a clamped divider position', () => {
+    expect(getSplatComparisonPointerPosition(150, { left: 100, width: 200 })).toBe(0.25);
+    expect(getSplatComparisonPointerPosition(50, { left: 100, width: 200 })).toBe(0);
+    expect(getSplatComparisonPointerPosition(50, { left: 0, width: 0 })).toBe(0.5);
+  });
+});
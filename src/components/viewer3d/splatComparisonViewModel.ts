@@ -0,0 +1,23 @@
+import type { SplatComparisonLayout } from '../../store';
+
+/** Split keeps the divider centred; swipe lets the user drag it. */
+export function getSplatComparisonDividerPosition(
+  layout: SplatComparisonLayout,
+  splitPosition: number
+): number {
+  return layout === 'swipe' ? splitPosition : 0.5;
+}
+
+/** Clip the comparison canvas to the right of the divider, leaving A visible on the left. */
+export function getSplatComparisonClipPath(position: number): string {
+  const percent = Math.round(Math.min(1, Math.max(0, position)) * 10000) / 100;
+  return `inset(0 0 0 ${percent}%)`;
+}
+
+export function getSplatComparisonPointerPosition(
+  clientX: number,
+  bounds: Pick<DOMRect, 'left' | 'width'>
+): number {
+  if (bounds.width <= 0) return 0.5;
+  return Math.min(1, Math.max(0, (clientX - bounds.left) / bounds.width));
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatCropBox } from '../../store';
+import {
+  applySplatCropBoxGizmoChange,
+  getSplatCropBoxDisplayRotation,
+  getSplatCropBoxGizmoSize,
+  getSplatCropBoxGizmoValue,
+} from './splatCropBoxOverlayViewModel';
+
+const BOX: SplatCropBox = { center: [1, 2, 3], size: [4, 6, 2], rotation: [0, 0.5, 0] };
+
+describe('splatCropBoxOverlayViewModel', () => {
+  it('maps the box pose to a unit-scale gizmo transform', () => {
+    expect(getSplatCropBoxGizmoValue(BOX)).toEqual({
+      scale: 1,
+      rotationX: 0,
+      rotationY: 0.5,
+      rotationZ: 0,
+      translationX: 1,
+      translationY: 2,
+      translationZ: 3,
+    });
+    expect(getSplatCropBoxGizmoSize(BOX)).toBe(6);
+  });
+
+  it('moves the box and rotates it only in oriented mode', () => {
+    const change = { translationX: 5, rotationZ: 1 };
+
+    expect(applySplatCropBoxGizmoChange(BOX, change, 'oriented')).toEqual({
+      center: [5, 2, 3],
+      size: [4, 6, 2],
+      rotation: [0, 0.5, 1],
+    });
+    expect(applySplatCropBoxGizmoChange(BOX, change, 'aabb').rotation).toEqual([0, 0.5, 0]);
+    expect(getSplatCropBoxDisplayRotation(BOX, 'aabb')).toEqual([0, 0, 0]);
+    expect(getSplatCropBoxDisplayRotation(BOX, 'oriented')).toEqual([0, 0.5, 0]);
+  });
+});
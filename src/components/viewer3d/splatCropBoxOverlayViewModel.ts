@@ -0,0 +1,49 @@
+import type { SplatCropBox, SplatCropMode } from '../../store';
+import type { Sim3dEuler } from '../../types/sim3d';
+
+/** Crop box pose as a gizmo transform: translation is the box center. */
+export function getSplatCropBoxGizmoValue(box: SplatCropBox): Sim3dEuler {
+  return {
+    scale: 1,
+    rotationX: box.rotation[0],
+    rotationY: box.rotation[1],
+    rotationZ: box.rotation[2],
+    translationX: box.center[0],
+    translationY: box.center[1],
+    translationZ: box.center[2],
+  };
+}
+
+/** Apply a gizmo drag to the box; axis-aligned boxes ignore rotation drags. */
+export function applySplatCropBoxGizmoChange(
+  box: SplatCropBox,
+  change: Partial<Sim3dEuler>,
+  mode: SplatCropMode
+): SplatCropBox {
+  const rotation: SplatCropBox['rotation'] = mode === 'oriented'
+    ? [
+      change.rotationX ?? box.rotation[0],
+      change.rotationY ?? box.rotation[1],
+      change.rotationZ ?? box.rotation[2],
+    ]
+    : box.rotation;
+  return {
+    center: [
+      change.translationX ?? box.center[0],
+      change.translationY ?? box.center[1],
+      change.translationZ ?? box.center[2],
+    ],
+    size: box.size,
+    rotation,
+  };
+}
+
+/** Rotation the box is drawn with: none for axis-aligned crops. */
+export function getSplatCropBoxDisplayRotation(box: SplatCropBox, mode: SplatCropMode): SplatCropBox['rotation'] {
+  return mode === 'oriented' ? box.rotation : [0, 0, 0];
+}
+
+/** Gizmo sized to the box so its handles stay reachable inside large boxes. */
+export function getSplatCropBoxGizmoSize(box: SplatCropBox): number {
+  return Math.max(...box.size);
+}
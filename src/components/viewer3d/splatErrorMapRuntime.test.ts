@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildCamera, buildFile, buildImage } from '../../test/builders';
+import { createWebGpuSplatPsnrSession } from '../../splat/webgpu/psnrSplatSession';
+import {
+  releaseSplatErrorMapSession,
+  renderSplatErrorMaps,
+  type SplatErrorMapRequest,
+} from './splatErrorMapRuntime';
+
+vi.mock('../../splat/gaussianCloudLoader', () => ({
+  loadGaussianCloudFromFile: vi.fn(async (file: File) => ({
+    file,
+    format: 'spz',
+    byteLength: 1,
+    cloud: { count: 0, shDegree: 0 },
+  })),
+}));
+
+vi.mock('../../splat/webgpu/psnrSplatSession', () => ({
+  createWebGpuSplatPsnrSession: vi.fn(),
+}));
+
+vi.mock('../../splat/webgpu/visibleSplatRuntimeRegistry', () => ({
+  createVisibleWebGpuSplatSceneId: (file: File) => file.name,
+  getVisibleWebGpuSplatSharedRuntime: () => null,
+}));
+
+vi.mock('../../splat/webgpu/webGpuSplatLimits', () => ({
+  getWebGpuSplatRequiredLimitsForCloud: () => null,
+}));
+
+vi.mock('./splatPsnrRuntime', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./splatPsnrRuntime')>(),
+  ensureSplatPsnrWebGpuDevice: vi.fn(async () => ({}) as GPUDevice),
+}));
+
+function createSessionMock() {
+  return {
+    computeImageMetric: vi.fn(),
+    submitImageMetric: vi.fn(),
+    renderImageErrorMaps: vi.fn(async () => ({ width: 1 })),
+    dispose: vi.fn(),
+  };
+}
+
+function buildRequest(overrides: Partial<SplatErrorMapRequest> = {}): SplatErrorMapRequest {
+  const identity = {
+    scale: 1,
+    rotationX: 0,
+    rotationY: 0,
+    rotationZ: 0,
+    translationX: 0,
+    translationY: 0,
+    translationZ: 0,
+  };
+  return {
+    splatFile: buildFile('scene.spz', 'splat'),
+    imageFile: buildFile('image.jpg'),
+    image: buildImage(),
+    camera: buildCamera({ width: 3200, height: 2400 }),
+    transform: identity,
+    splatTransform: { ...identity, translationX: 1 },
+    ...overrides,
+  };
+}
+
+describe('splatErrorMapRuntime', () => {
+  afterEach(() => {
+    releaseSplatErrorMapSession();
+    vi.mocked(createWebGpuSplatPsnrSession).mockReset();
+  });
+
+  it('renders capped maps through one session per splat file', async () => {
+    const session = createSessionMock();
+    vi.mocked(createWebGpuSplatPsnrSession).mockResolvedValue(session as never);
+    const request = buildRequest();
+
+    await renderSplatErrorMaps(request);
+    await renderSplatErrorMaps(request);
+
+    expect(createWebGpuSplatPsnrSession).toHaveBeenCalledTimes(1);
+    expect(session.renderImageErrorMaps).toHaveBeenLastCalledWith(expect.objectContaining({
+      width: 1600,
+      height: 1200,
+      modelTransform: request.splatTransform,
+    }));
+
+    await renderSplatErrorMaps({ ...request, splatFile: buildFile('other.spz', 'splat') });
+    await vi.waitFor(() => expect(session.dispose).toHaveBeenCalledOnce());
+    expect(createWebGpuSplatPsnrSession).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the session after a failed render so the next request starts fresh', async () => {
+    const failing = createSessionMock();
+    failing.renderImageErrorMaps.mockRejectedValue(new Error('Device lost'));
+    const healthy = createSessionMock();
+    vi.mocked(createWebGpuSplatPsnrSession)
+      .mockResolvedValueOnce(failing as never)
+      .mockResolvedValueOnce(healthy as never);
+
+    await expect(renderSplatErrorMaps(buildRequest())).rejects.toThrow('Device lost');
+    await vi.waitFor(() => expect(failing.dispose).toHaveBeenCalledOnce());
+
+    await renderSplatErrorMaps(buildRequest());
+    expect(healthy.renderImageErrorMaps).toHaveBeenCalledOnce();
+  });
+});
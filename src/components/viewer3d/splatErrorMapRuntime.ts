@@ -0,0 +1,116 @@
+import type { Camera, Image } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+import type { LoadedGaussianCloud } from '../../splat/gaussianCloud';
+import { loadGaussianCloudFromFile } from '../../splat/gaussianCloudLoader';
+import {
+  createWebGpuSplatPsnrSession,
+  type WebGpuSplatPsnrErrorMaps,
+  type WebGpuSplatPsnrSession,
+} from '../../splat/webgpu/psnrSplatSession';
+import {
+  createVisibleWebGpuSplatSceneId,
+  getVisibleWebGpuSplatSharedRuntime,
+} from '../../splat/webgpu/visibleSplatRuntimeRegistry';
+import { getWebGpuSplatRequiredLimitsForCloud } from '../../splat/webgpu/webGpuSplatLimits';
+import {
+  ensureSplatPsnrWebGpuDevice,
+  getSplatModelTransform,
+  getSplatPsnrRenderSize,
+} from './splatPsnrRuntime';
+
+/** Error maps are viewed, not measured; cap the read-back size like a screen-sized image. */
+export const SPLAT_ERROR_MAP_MAX_DIMENSION = 1600;
+
+export type SplatErrorMaps = WebGpuSplatPsnrErrorMaps;
+
+export interface SplatErrorMapRequest {
+  splatFile: File;
+  imageFile: File;
+  maskFile?: File | null;
+  image: Image;
+  camera: Camera;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+  maxDimension?: number;
+}
+
+interface CachedSplatErrorMapSession {
+  splatFile: File;
+  session: Promise<WebGpuSplatPsnrSession>;
+}
+
+// One session for the image detail view, separate from the evaluator's so
+// opening the maps never cancels a running metric pass.
+let cachedSession: CachedSplatErrorMapSession | null = null;
+
+export async function renderSplatErrorMaps({
+  splatFile,
+  imageFile,
+  maskFile,
+  image,
+  camera,
+  transform,
+  splatTransform,
+  maxDimension = SPLAT_ERROR_MAP_MAX_DIMENSION,
+}: SplatErrorMapRequest): Promise<SplatErrorMaps> {
+  const size = getSplatPsnrRenderSize(camera, maxDimension);
+  if (size.width <= 0 || size.height <= 0) {
+    throw new Error(`Invalid error map size for ${image.name}`);
+  }
+
+  const sessionPromise = getSplatErrorMapSession(splatFile);
+  try {
+    const session = await sessionPromise;
+    return await session.renderImageErrorMaps({
+      imageFile,
+      maskFile,
+      image,
+      camera,
+      width: size.width,
+      height: size.height,
+      modelTransform: getSplatModelTransform(transform, splatTransform),
+    });
+  } catch (error) {
+    // A lost device or failed load must not poison later requests.
+    if (cachedSession?.session === sessionPromise) {
+      releaseSplatErrorMapSession();
+    }
+    throw error;
+  }
+}
+
+export function releaseSplatErrorMapSession(): void {
+  const released = cachedSession;
+  cachedSession = null;
+  void released?.session.then((session) => session.dispose(), () => undefined);
+}
+
+function getSplatErrorMapSession(splatFile: File): Promise<WebGpuSplatPsnrSession> {
+  if (cachedSession?.splatFile === splatFile) {
+    return cachedSession.session;
+  }
+
+  releaseSplatErrorMapSession();
+  const session = createSplatErrorMapSession(splatFile);
+  cachedSession = { splatFile, session };
+  return session;
+}
+
+async function createSplatErrorMapSession(splatFile: File): Promise<WebGpuSplatPsnrSession> {
+  const sharedRuntime = getVisibleWebGpuSplatSharedRuntime(createVisibleWebGpuSplatSceneId(splatFile));
+  const loadedCloud: LoadedGaussianCloud = await loadGaussianCloudFromFile(splatFile);
+  if (sharedRuntime) {
+    return createWebGpuSplatPsnrSession({
+      device: sharedRuntime.device,
+      splatFile,
+      loadedCloud,
+      sharedScene: {
+        sceneId: sharedRuntime.sceneId,
+        resourceManager: sharedRuntime.sceneResourceManager,
+      },
+    });
+  }
+
+  const device = await ensureSplatPsnrWebGpuDevice(getWebGpuSplatRequiredLimitsForCloud(loadedCloud.cloud));
+  return createWebGpuSplatPsnrSession({ device, splatFile, loadedCloud });
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildEncodedVideoChunk,
+  buildVideoEncoder,
+  buildVideoFrame,
+  type TestVideoEncoder,
+} from '../../test/builders';
+import type { WebCodecsMuxer } from './screenshotWebCodecsStart';
+import { encodeSplatPathVideo, type SplatPathVideoEncodeOptions } from './splatPathVideoEncode';
+
+function createFixture(overrides: Partial<SplatPathVideoEncodeOptions> = {}) {
+  let encoder: TestVideoEncoder | null = null;
+  const encode = vi.fn();
+  const close = vi.fn();
+  const muxer: WebCodecsMuxer = {
+    target: { buffer: new ArrayBuffer(8) },
+    start: vi.fn().mockResolvedValue(undefined),
+    addVideoChunk: vi.fn().mockResolvedValue(undefined),
+    finalize: vi.fn().mockResolvedValue(undefined),
+  };
+  const frames: VideoFrameBufferInit[] = [];
+  const videoFrameClose = vi.fn();
+
+  const options: SplatPathVideoEncodeOptions = {
+    frameCount: 3,
+    width: 4,
+    height: 2,
+    fps: 2,
+    quality: 'medium',
+    renderFrame: vi.fn(async () => new Uint8ClampedArray(32)),
+    createMuxer: vi.fn(() => muxer),
+    shouldCancel: () => false,
+    onProgress: vi.fn(),
+    createEncoder: vi.fn((init: VideoEncoderInit) => {
+      encoder = buildVideoEncoder({ init, encode, close });
+      return encoder;
+    }),
+    createVideoFrame: vi.fn((_pixels, init) => {
+      frames.push(init);
+      return buildVideoFrame({ close: videoFrameClose, timestamp: init.timestamp });
+    }),
+    createBlob: vi.fn((buffer: ArrayBuffer) => new Blob([buffer], { type: 'video/mp4' })),
+    log: vi.fn(),
+    ...overrides,
+  };
+
+  return {
+    options,
+    muxer,
+    encode,
+    close,
+    frames,
+    videoFrameClose,
+    get encoder() {
+      return encoder;
+    },
+  };
+}
+
+describe('encodeSplatPathVideo', () => {
+  it('encodes one frame per pose on fixed timestamps and muxes them into an MP4', async () => {
+    const fixture = createFixture();
+
+    const blob = await encodeSplatPathVideo(fixture.options);
+
+    expect(fixture.options.createMuxer).toHaveBeenCalledWith({ width: 4, height: 2, fps: 2 });
+    expect(fixture.encoder?.init).toBeDefined();
+    expect(fixture.frames.map((frame) => frame.timestamp)).toEqual([0, 500_000, 1_000_000]);
+    expect(fixture.frames[0]).toMatchObject({ format: 'RGBA', codedWidth: 4, codedHeight: 2, duration: 500_000 });
+    expect(fixture.encode.mock.calls.map(([, options]) => options)).toEqual([
+      { keyFrame: true },
+      { keyFrame: false },
+      { keyFrame: true },
+    ]);
+    expect(fixture.videoFrameClose).toHaveBeenCalledTimes(3);
+    expect(fixture.options.onProgress).toHaveBeenLastCalledWith(3);
+    expect(fixture.muxer.finalize).toHaveBeenCalledOnce();
+    expect(blob?.type).toBe('video/mp4');
+    expect(fixture.close).toHaveBeenCalledOnce();
+  });
+
+  it('forwards encoded chunks to the muxer', async () => {
+    const fixture = createFixture({ frameCount: 1 });
+    fixture.encode.mockImplementation(() => {
+      fixture.encoder?.init?.output(buildEncodedVideoChunk({ timestamp: 0 }), {});
+    });
+
+    await encodeSplatPathVideo(fixture.options);
+
+    expect(fixture.muxer.addVideoChunk).toHaveBeenCalledOnce();
+  });
+
+  it('waits for the encoder to drain before rendering the next frame', async () => {
+    let queueSize = 0;
+    const fixture = createFixture({ frameCount: 2, maxEncodeQueueSize: 1 });
+    const createEncoder = fixture.options.createEncoder!;
+    fixture.options.createEncoder = (init) => {
+      const encoder = createEncoder(init);
+      Object.defineProperty(encoder, 'encodeQueueSize', { get: () => queueSize });
+      return encoder;
+    };
+    fixture.encode.mockImplementationOnce(() => {
+      queueSize = 2;
+    });
+    const run = encodeSplatPathVideo(fixture.options);
+    await vi.waitFor(() => expect(fixture.encode).toHaveBeenCalledOnce());
+    await Promise.resolve();
+
+    expect(fixture.options.renderFrame).toHaveBeenCalledTimes(1);
+    queueSize = 0;
+    fixture.encoder?.dispatchEvent(new Event('dequeue'));
+
+    await run;
+    expect(fixture.options.renderFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops without finalizing when cancelled and rejects on encoder errors', async () => {
+    let cancelled = false;
+    const cancelledFixture = createFixture({ shouldCancel: () => cancelled });
+    cancelledFixture.encode.mockImplementation(() => {
+      cancelled = true;
+    });
+
+    await expect(encodeSplatPathVideo(cancelledFixture.options)).resolves.toBeNull();
+    expect(cancelledFixture.options.renderFrame).toHaveBeenCalledOnce();
+    expect(cancelledFixture.muxer.finalize).not.toHaveBeenCalled();
+    expect(cancelledFixture.close).toHaveBeenCalledOnce();
+
+    const failingFixture = createFixture();
+    failingFixture.encode.mockImplementation(() => {
+      failingFixture.encoder?.init?.error(new DOMException('Encoder failed'));
+    });
+
+    await expect(encodeSplatPathVideo(failingFixture.options)).rejects.toThrow('Encoder failed');
+    expect(failingFixture.muxer.finalize).not.toHaveBeenCalled();
+  });
+});
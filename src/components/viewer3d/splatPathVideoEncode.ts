@@ -0,0 +1,139 @@
+import { appLogger } from '../../utils/logger';
+import {
+  formatBitrateMbps,
+  getAvcCodecForDimensions,
+  getVideoBitrate,
+  type RecordingQuality,
+} from './screenshotRecordingPolicy';
+import type { WebCodecsMuxer } from './screenshotWebCodecsStart';
+
+interface CreateSplatPathVideoMuxerOptions {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface SplatPathVideoEncodeOptions {
+  frameCount: number;
+  /** Even, as AVC requires. */
+  width: number;
+  height: number;
+  fps: number;
+  quality: RecordingQuality;
+  renderFrame: (index: number) => Promise<Uint8ClampedArray<ArrayBuffer>>;
+  createMuxer: (options: CreateSplatPathVideoMuxerOptions) => WebCodecsMuxer;
+  shouldCancel: () => boolean;
+  onProgress?: (renderedFrames: number) => void;
+  /** Frames the encoder may hold before rendering waits for it to catch up. */
+  maxEncodeQueueSize?: number;
+  createEncoder?: (init: VideoEncoderInit) => VideoEncoder;
+  createVideoFrame?: (pixels: Uint8ClampedArray<ArrayBuffer>, init: VideoFrameBufferInit) => VideoFrame;
+  createBlob?: (buffer: ArrayBuffer) => Blob;
+  log?: (message: string) => void;
+}
+
+const DEFAULT_MAX_ENCODE_QUEUE_SIZE = 4;
+
+/**
+ * Encode one MP4 frame per path pose. Frames are timed by index rather than
+ * wall clock and rendering waits for the encoder to drain, so a slow GPU or
+ * encoder makes the render take longer but never drops or duplicates a frame.
+ * Resolves null when cancelled.
+ */
+export async function encodeSplatPathVideo({
+  frameCount,
+  width,
+  height,
+  fps,
+  quality,
+  renderFrame,
+  createMuxer,
+  shouldCancel,
+  onProgress,
+  maxEncodeQueueSize = DEFAULT_MAX_ENCODE_QUEUE_SIZE,
+  createEncoder = (init) => new VideoEncoder(init),
+  createVideoFrame = (pixels, init) => new VideoFrame(pixels, init),
+  createBlob = (buffer) => new Blob([buffer], { type: 'video/mp4' }),
+  log = appLogger.info,
+}: SplatPathVideoEncodeOptions): Promise<Blob | null> {
+  const muxer = createMuxer({ width, height, fps });
+  let failed = false;
+  let failureError: unknown = null;
+  let rejectFailure: (error: unknown) => void = () => {};
+  const failure = new Promise<never>((_, reject) => {
+    rejectFailure = (error) => {
+      if (!failed) {
+        failed = true;
+        failureError = error;
+      }
+      reject(error);
+    };
+  });
+  // Only raced against, so an unobserved rejection is not an error.
+  failure.catch(() => undefined);
+  const throwIfFailed = () => {
+    if (failed) throw failureError;
+  };
+
+  const encoder = createEncoder({
+    output: (chunk, meta) => {
+      void muxer.addVideoChunk(chunk, meta ?? undefined).catch(rejectFailure);
+    },
+    error: rejectFailure,
+  });
+  const bitrate = getVideoBitrate(width, height, quality);
+  const codec = getAvcCodecForDimensions(width, height);
+  const frameDurationUs = 1e6 / fps;
+
+  try {
+    encoder.configure({ codec, width, height, bitrate, framerate: fps });
+    log(`Splat path video: ${frameCount} frames, ${width}x${height}@${fps}fps, ${codec}, ${formatBitrateMbps(bitrate)}Mbps`);
+    await Promise.race([muxer.start(), failure]);
+
+    for (let index = 0; index < frameCount; index++) {
+      if (shouldCancel()) return null;
+      const pixels = await Promise.race([renderFrame(index), failure]);
+      if (shouldCancel()) return null;
+      const frame = createVideoFrame(pixels, {
+        format: 'RGBA',
+        codedWidth: width,
+        codedHeight: height,
+        timestamp: Math.round(index * frameDurationUs),
+        duration: Math.round(frameDurationUs),
+      });
+      try {
+        encoder.encode(frame, { keyFrame: index % Math.max(1, Math.round(fps)) === 0 });
+      } finally {
+        frame.close();
+      }
+      throwIfFailed();
+      onProgress?.(index + 1);
+      await Promise.race([waitForEncodeQueue(encoder, maxEncodeQueueSize), failure]);
+    }
+
+    await Promise.race([encoder.flush(), failure]);
+    throwIfFailed();
+    await Promise.race([muxer.finalize(), failure]);
+    const { buffer } = muxer.target;
+    if (!buffer) {
+      throw new Error('MP4 muxer did not produce a finalized buffer.');
+    }
+    return createBlob(buffer);
+  } finally {
+    if (encoder.state !== 'closed') {
+      encoder.close();
+    }
+  }
+}
+
+function waitForEncodeQueue(encoder: VideoEncoder, maxQueueSize: number): Promise<void> {
+  if (encoder.encodeQueueSize <= maxQueueSize) return Promise.resolve();
+  return new Promise((resolve) => {
+    const handleDequeue = () => {
+      if (encoder.encodeQueueSize > maxQueueSize) return;
+      encoder.removeEventListener('dequeue', handleDequeue);
+      resolve();
+    };
+    encoder.addEventListener('dequeue', handleDequeue);
+  });
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildFile } from '../../test/builders';
+import { createWebGpuSplatNovelViewSession } from '../../splat/webgpu/novelViewSplatSession';
+import { createMp4WebCodecsMuxer } from './screenshotMp4Muxer';
+import { encodeSplatPathVideo } from './splatPathVideoEncode';
+import { renderSplatPathVideo, type SplatPathVideoRun } from './splatPathVideoRuntime';
+
+vi.mock('mediabunny', () => ({}));
+
+vi.mock('../../splat/gaussianCloudLoader', () => ({
+  loadGaussianCloudFromFile: vi.fn(async (file: File) => ({
+    file,
+    format: 'spz',
+    byteLength: 1,
+    cloud: { count: 0, shDegree: 0 },
+  })),
+}));
+
+vi.mock('../../splat/webgpu/novelViewSplatSession', () => ({
+  createWebGpuSplatNovelViewSession: vi.fn(),
+}));
+
+vi.mock('../../splat/webgpu/visibleSplatRuntimeRegistry', () => ({
+  createVisibleWebGpuSplatSceneId: (file: File) => file.name,
+  getVisibleWebGpuSplatSharedRuntime: () => null,
+}));
+
+vi.mock('../../splat/webgpu/webGpuSplatLimits', () => ({
+  getWebGpuSplatRequiredLimitsForCloud: () => null,
+}));
+
+vi.mock('./splatPsnrRuntime', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./splatPsnrRuntime')>(),
+  ensureSplatPsnrWebGpuDevice: vi.fn(async () => ({}) as GPUDevice),
+}));
+
+vi.mock('./screenshotMp4Muxer', () => ({
+  createMp4WebCodecsMuxer: vi.fn(() => ({})),
+}));
+
+vi.mock('./splatPathVideoEncode', () => ({
+  encodeSplatPathVideo: vi.fn(),
+}));
+
+const identity = {
+  scale: 1,
+  rotationX: 0,
+  rotationY: 0,
+  rotationZ: 0,
+  translationX: 0,
+  translationY: 0,
+  translationZ: 0,
+};
+
+function buildRun(overrides: Partial<SplatPathVideoRun> = {}): SplatPathVideoRun {
+  return {
+    splatFile: buildFile('scene.spz', 'splat'),
+    poses: [
+      { position: [0, 0, 0], quaternion: [0, 0, 0, 1], fovY: 50 },
+      { position: [1, 0, 0], quaternion: [0, 0, 0, 1], fovY: 50 },
+    ],
+    width: 64,
+    height: 32,
+    fps: 24,
+    quality: 'high',
+    transform: identity,
+    splatTransform: identity,
+    shouldCancel: () => false,
+    onProgress: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('splatPathVideoRuntime', () => {
+  afterEach(() => {
+    vi.mocked(createWebGpuSplatNovelViewSession).mockReset();
+    vi.mocked(encodeSplatPathVideo).mockReset();
+  });
+
+  it('renders every pose at the output size and disposes the session afterwards', async () => {
+    const session = {
+      renderFrame: vi.fn(async () => new Uint8ClampedArray(64 * 32 * 4)),
+      dispose: vi.fn(),
+    };
+    const blob = new Blob(['mp4'], { type: 'video/mp4' });
+    vi.mocked(createWebGpuSplatNovelViewSession).mockResolvedValue(session);
+    vi.mocked(encodeSplatPathVideo).mockImplementation(async ({ frameCount, renderFrame, createMuxer }) => {
+      createMuxer({ width: 64, height: 32, fps: 24 });
+      for (let index = 0; index < frameCount; index++) {
+        await renderFrame(index);
+      }
+      return blob;
+    });
+
+    await expect(renderSplatPathVideo(buildRun())).resolves.toBe(blob);
+
+    expect(encodeSplatPathVideo).toHaveBeenCalledWith(expect.objectContaining({
+      frameCount: 2,
+      width: 64,
+      height: 32,
+      fps: 24,
+      quality: 'high',
+    }));
+    expect(session.renderFrame).toHaveBeenCalledTimes(2);
+    expect(session.renderFrame).toHaveBeenCalledWith(expect.objectContaining({ width: 64, height: 32 }));
+    expect(createMp4WebCodecsMuxer).toHaveBeenCalledWith(expect.anything(), { frameRate: 24 });
+    expect(session.dispose).toHaveBeenCalledOnce();
+  });
+
+  it('disposes the session when encoding fails', async () => {
+    const session = { renderFrame: vi.fn(), dispose: vi.fn() };
+    vi.mocked(createWebGpuSplatNovelViewSession).mockResolvedValue(session);
+    vi.mocked(encodeSplatPathVideo).mockRejectedValue(new Error('Encoder failed'));
+
+    await expect(renderSplatPathVideo(buildRun())).rejects.toThrow('Encoder failed');
+    expect(session.dispose).toHaveBeenCalledOnce();
+  });
+});
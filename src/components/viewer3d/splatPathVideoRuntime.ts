@@ -0,0 +1,90 @@
+import type { Sim3dEuler } from '../../types/sim3d';
+import type { CameraPathPose } from '../../utils/cameraPathPolicy';
+import { loadGaussianCloudFromFile } from '../../splat/gaussianCloudLoader';
+import { createCameraPathWebGpuSplatFrame } from '../../splat/webgpu/cameraFrames';
+import {
+  createWebGpuSplatNovelViewSession,
+  type WebGpuSplatNovelViewSession,
+} from '../../splat/webgpu/novelViewSplatSession';
+import {
+  createVisibleWebGpuSplatSceneId,
+  getVisibleWebGpuSplatSharedRuntime,
+} from '../../splat/webgpu/visibleSplatRuntimeRegistry';
+import { getWebGpuSplatRequiredLimitsForCloud } from '../../splat/webgpu/webGpuSplatLimits';
+import { createMp4WebCodecsMuxer } from './screenshotMp4Muxer';
+import type { RecordingQuality } from './screenshotRecordingPolicy';
+import { encodeSplatPathVideo } from './splatPathVideoEncode';
+import { ensureSplatPsnrWebGpuDevice, getSplatModelTransform } from './splatPsnrRuntime';
+
+export interface SplatPathVideoRun {
+  splatFile: File;
+  poses: readonly CameraPathPose[];
+  width: number;
+  height: number;
+  fps: number;
+  quality: RecordingQuality;
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+  shouldCancel: () => boolean;
+  onProgress: (renderedFrames: number) => void;
+}
+
+/**
+ * Render the splat at every pose and mux the frames into an MP4. Resolves
+ * null when cancelled. The render session lives only as long as the run.
+ */
+export async function renderSplatPathVideo({
+  splatFile,
+  poses,
+  width,
+  height,
+  fps,
+  quality,
+  transform,
+  splatTransform,
+  shouldCancel,
+  onProgress,
+}: SplatPathVideoRun): Promise<Blob | null> {
+  const session = await createSplatPathVideoSession(splatFile);
+  const modelTransform = getSplatModelTransform(transform, splatTransform);
+
+  try {
+    const mediabunny = await import('mediabunny');
+    return await encodeSplatPathVideo({
+      frameCount: poses.length,
+      width,
+      height,
+      fps,
+      quality,
+      renderFrame: (index) => session.renderFrame({
+        frame: createCameraPathWebGpuSplatFrame({ pose: poses[index], width, height, modelTransform }),
+        width,
+        height,
+      }),
+      createMuxer: () => createMp4WebCodecsMuxer(mediabunny, { frameRate: fps }),
+      shouldCancel,
+      onProgress,
+    });
+  } finally {
+    session.dispose();
+  }
+}
+
+async function createSplatPathVideoSession(splatFile: File): Promise<WebGpuSplatNovelViewSession> {
+  const sharedRuntime = getVisibleWebGpuSplatSharedRuntime(createVisibleWebGpuSplatSceneId(splatFile));
+  const loadedCloud = await loadGaussianCloudFromFile(splatFile);
+  if (sharedRuntime) {
+    return createWebGpuSplatNovelViewSession({
+      device: sharedRuntime.device,
+      splatFile,
+      loadedCloud,
+      sharedScene: {
+        sceneId: sharedRuntime.sceneId,
+        resourceManager: sharedRuntime.sceneResourceManager,
+      },
+    });
+  }
+
+  const device = await ensureSplatPsnrWebGpuDevice(getWebGpuSplatRequiredLimitsForCloud(loadedCloud.cloud));
+  return createWebGpuSplatNovelViewSession({ device, splatFile, loadedCloud });
+}
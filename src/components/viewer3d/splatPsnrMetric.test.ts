@@ -7,17 +7,20 @@ import { getCameraIntrinsics } from '../../utils/cameraIntrinsics';
 import { distortNormalized } from '../../utils/cameraUndistortion';
 import {
   computeSplatMetricColorScale,
+  computeSplatPsnrDeltaColorScale,
   computePsnrAndSsimFromRgba,
   computePsnrFromRgba,
   computePsnrFromRgbaWebGpu,
   createColmapPsnrCamera,
   createUndistortedGroundTruthPixelsFromImageData,
   ensureSplatPsnrWebGpuDevice,
+  formatSplatPsnrDeltaValue,
   formatSplatPsnrMetric,
   formatSplatPsnrValue,
   formatSplatSsimMetric,
   formatSplatSsimValue,
   getSplatMetricScaleColor,
+  getSplatPsnrDeltaColor,
   getSplatPsnrColor,
   getSplatPsnrRenderSize,
   getSplatSsimColor,
@@ -30,6 +33,11 @@ describe('splatPsnrMetric helpers', () => {
     expect(formatSplatPsnrValue(undefined)).toBe('--');
     expect(formatSplatPsnrMetric(31.24)).toBe('31.2 dB PSNR');
     expect(formatSplatPsnrValue(Infinity)).toBe('99+');
+    expect(formatSplatPsnrDeltaValue(1.24)).toBe('+1.2');
+    expect(formatSplatPsnrDeltaValue(-0.44)).toBe('−0.4');
+    expect(formatSplatPsnrDeltaValue(-0.01)).toBe('0.0');
+    expect(formatSplatPsnrDeltaValue(-Infinity)).toBe('−∞');
+    expect(formatSplatPsnrDeltaValue(undefined)).toBe('--');
 
     expect(getSplatPsnrColor(undefined)).toBe('#6b7280');
     expect(getSplatPsnrColor(8)).toBe('#ef4444');
@@ -55,6 +63,20 @@ describe('splatPsnrMetric helpers', () => {
     expect(getSplatMetricScaleColor(50, scale)).toBe('#22c55e');
   });
 
+  it('maps PSNR deltas onto a symmetric red-yellow-green scale', () => {
+    const scale = computeSplatPsnrDeltaColorScale([-1, 0.5, 4, Infinity, undefined]);
+
+    expect(scale).toEqual({ min: -4, max: 4 });
+    expect(computeSplatPsnrDeltaColorScale([undefined, NaN])).toBeNull();
+    expect(getSplatPsnrDeltaColor(undefined, scale)).toBe('#6b7280');
+    expect(getSplatPsnrDeltaColor(0, scale)).toBe('#facc15');
+    expect(getSplatPsnrDeltaColor(4, scale)).toBe('#22c55e');
+    expect(getSplatPsnrDeltaColor(-8, scale)).toBe('#ef4444');
+    expect(getSplatPsnrDeltaColor(Infinity, scale)).toBe('#22c55e');
+    expect(getSplatPsnrDeltaColor(-Infinity, scale)).toBe('#ef4444');
+    expect(getSplatPsnrDeltaColor(0, { min: 0, max: 0 })).toBe('#facc15');
+  });
+
   it('uses full-resolution render dimensions by default', () => {
     expect(getSplatPsnrRenderSize(buildCamera({ width: 1000, height: 500 }))).toEqual({
       width: 1000,
@@ -40,7 +40,7 @@ interface SampledColor {
   a: number;
 }
 
-interface RgbaMetricOptions {
+export interface RgbaMetricOptions {
   width: number;
   height: number;
   maskPixels?: Uint8Array | Uint8ClampedArray | null;
@@ -91,6 +91,16 @@ export function formatSplatPsnrMetric(psnr: number | null | undefined): string {
   return value === '--' ? 'PSNR --' : `${value} dB PSNR`;
 }
 
+/** Signed PSNR_A − PSNR_B, e.g. "+1.2" or "−0.4"; a pixel-exact side shows as ±∞. */
+export function formatSplatPsnrDeltaValue(delta: number | null | undefined): string {
+  if (delta === undefined || delta === null || Number.isNaN(delta)) return '--';
+  if (delta === Infinity) return '+∞';
+  if (delta === -Infinity) return '−∞';
+  const value = Math.abs(delta).toFixed(1);
+  if (value === '0.0') return '0.0';
+  return `${delta > 0 ? '+' : '−'}${value}`;
+}
+
 export function hasSplatSsimValue(ssim: number | null | undefined): ssim is number {
   return ssim !== undefined && ssim !== null && Number.isFinite(ssim);
 }
@@ -167,6 +177,40 @@ export function getSplatMetricScaleColor(
   return interpolateHexColor(SPLAT_PSNR_YELLOW, SPLAT_PSNR_GREEN, (t - 2 / 3) * 3);
 }
 
+/** Symmetric around zero so two equally good runs land on the neutral middle colour. */
+export function computeSplatPsnrDeltaColorScale(
+  deltas: Iterable<number | null | undefined>
+): SplatMetricColorScale | null {
+  let extent = -Infinity;
+  for (const delta of deltas) {
+    if (delta === undefined || delta === null || !Number.isFinite(delta)) {
+      continue;
+    }
+    extent = Math.max(extent, Math.abs(delta));
+  }
+  return extent >= 0 ? { min: -extent, max: extent } : null;
+}
+
+/** Diverging PSNR_A − PSNR_B colour: red where A is worse, yellow where they match, green where A is better. */
+export function getSplatPsnrDeltaColor(
+  delta: number | null | undefined,
+  scale: SplatMetricColorScale | null | undefined
+): string {
+  if (delta === undefined || delta === null || Number.isNaN(delta)) {
+    return SPLAT_PSNR_UNAVAILABLE_COLOR;
+  }
+  if (delta === Infinity) return SPLAT_PSNR_GREEN;
+  if (delta === -Infinity) return SPLAT_PSNR_RED;
+  if (!scale || !Number.isFinite(scale.max) || scale.max <= 0) {
+    return SPLAT_PSNR_YELLOW;
+  }
+
+  const t = Math.max(-1, Math.min(1, delta / scale.max));
+  return t < 0
+    ? interpolateHexColor(SPLAT_PSNR_YELLOW, SPLAT_PSNR_RED, -t)
+    : interpolateHexColor(SPLAT_PSNR_YELLOW, SPLAT_PSNR_GREEN, t);
+}
+
 export function getSplatPsnrColor(psnr: number | null | undefined): string {
   if (psnr === undefined || psnr === null || Number.isNaN(psnr)) {
     return SPLAT_PSNR_UNAVAILABLE_COLOR;
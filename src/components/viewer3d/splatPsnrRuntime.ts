@@ -1,4 +1,11 @@
 import type { Camera } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+import {
+  composeSim3d,
+  createSim3dFromEuler,
+  isIdentityEuler,
+  sim3dToEuler,
+} from '../../utils/sim3dTransforms';
 import {
   assertWebGpuDeviceMeetsSplatRequiredLimits,
   createWebGpuRequiredLimitsDescriptor,
@@ -60,6 +67,22 @@ export function getSplatPsnrRenderSize(
   };
 }
 
+/** The single splat model transform the metric renders with: reconstruction transform after the splat's own. */
+export function getSplatModelTransform(
+  transform: Sim3dEuler,
+  splatTransform: Sim3dEuler
+): Sim3dEuler | undefined {
+  const hasTransform = !isIdentityEuler(transform);
+  const hasSplatTransform = !isIdentityEuler(splatTransform);
+  if (!hasTransform && !hasSplatTransform) return undefined;
+  if (!hasTransform) return splatTransform;
+  if (!hasSplatTransform) return transform;
+  return sim3dToEuler(composeSim3d(
+    createSim3dFromEuler(transform),
+    createSim3dFromEuler(splatTransform)
+  ));
+}
+
 async function getWebGpuPsnrDevice(
   requiredLimits?: Partial<WebGpuSplatRequiredLimits> | null
 ): Promise<GPUDevice> {
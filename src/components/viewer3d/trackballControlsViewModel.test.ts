@@ -9,6 +9,7 @@ import {
   getFlyWheelMoveAmount,
   getKeyboardMovementAcceleration,
   getKeyboardMoveSpeed,
+  getMovementKey,
   getOrthoWheelZoom,
   getPanMultiplier,
   getPanOffset,
@@ -64,6 +65,10 @@ describe('trackball controls view-model helpers', () => {
     expect(shouldCaptureMovementKey({ key: 'w', ctrlKey: false, metaKey: false, target: document.body })).toBe(true);
     expect(shouldCaptureMovementKey({ key: 'w', ctrlKey: true, metaKey: false, target: document.body })).toBe(false);
     expect(shouldCaptureMovementKey({ key: 'w', ctrlKey: false, metaKey: false, target: input })).toBe(false);
+    expect(getMovementKey({ key: ' ', code: 'Space' })).toBe('e');
+    expect(getMovementKey({ key: 'ArrowUp' })).toBe('arrowup');
+    expect(getMovementKey({ key: 'x', code: 'KeyX' }, new Map([['x', 'w']]))).toBe('w');
+    expect(getMovementKey({ key: 'w', code: 'KeyW' }, new Map())).toBeNull();
   });
 
   it('builds keyboard acceleration from pressed movement keys', () => {
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { getKeyboardEventKeyName, getMovementKeyMap } from '../../config/hotkeys';
 import type { CameraMode } from '../../store/types';
 export {
   buildCameraViewState,
@@ -20,6 +21,7 @@ export type TouchGesture = 'none' | 'drag' | 'pinch' | 'pan';
 
 export interface KeyboardCaptureEvent {
   key: string;
+  code?: string;
   ctrlKey: boolean;
   metaKey: boolean;
   target: EventTarget | null;
@@ -43,6 +45,9 @@ export interface PointerDelta {
 
 export type PointerDragInteraction = 'rotate' | 'pan' | 'none';
 
+/** Bound key name -> internal movement key ('w', 'shift', ...); see getMovementKeyMap. */
+export type MovementKeyMap = ReadonlyMap<string, string>;
+
 export type WheelIntent = 'cameraScale' | 'pointSize' | 'navigation';
 
 export interface PanMultiplierOptions {
@@ -71,6 +76,11 @@ const MOVEMENT_KEYS = new Set([
   'arrowright',
 ]);
 
+const DEFAULT_MOVEMENT_KEY_MAP = getMovementKeyMap();
+
+// Arrow keys are swallowed while flying so they never scroll the page.
+const ARROW_KEY_NAMES = new Set(['up', 'down', 'left', 'right']);
+
 export function getTouchDistance(p1: TouchPointer, p2: TouchPointer): number {
   return getPointDistance(p1, p2);
 }
@@ -277,9 +287,27 @@ export function isTextEntryTarget(target: EventTarget | null): boolean {
   );
 }
 
-export function shouldCaptureMovementKey(event: KeyboardCaptureEvent): boolean {
+/**
+ * The internal movement key an event drives under the current bindings, or
+ * null when its key is not bound to movement. Keys are matched by physical
+ * position, like every other hotkey.
+ */
+export function getMovementKey(
+  event: Pick<KeyboardCaptureEvent, 'key' | 'code'>,
+  movementKeys: MovementKeyMap = DEFAULT_MOVEMENT_KEY_MAP
+): string | null {
+  const name = getKeyboardEventKeyName(event);
+  const movementKey = movementKeys.get(name);
+  if (movementKey !== undefined) return movementKey;
+  return ARROW_KEY_NAMES.has(name) ? `arrow${name}` : null;
+}
+
+export function shouldCaptureMovementKey(
+  event: KeyboardCaptureEvent,
+  movementKeys: MovementKeyMap = DEFAULT_MOVEMENT_KEY_MAP
+): boolean {
   if (event.ctrlKey || event.metaKey) return false;
-  return isMovementKey(event.key) && !isTextEntryTarget(event.target);
+  return getMovementKey(event, movementKeys) !== null && !isTextEntryTarget(event.target);
 }
 
 export function getKeyboardMoveSpeed(
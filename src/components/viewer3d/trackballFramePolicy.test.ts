@@ -3,6 +3,7 @@ import * as THREE from 'three';
 import {
   computeGotoFrameQuaternion,
   getAutoRotateDelta,
+  getCameraPathPlaybackTime,
   getCappedFrameDeltaMs,
   getFrameDamping,
   getOrbitDistanceStep,
@@ -111,3 +112,16 @@ describe('computeGotoFrameQuaternion', () => {
     expect(q.angleTo(ref)).toBeLessThan(1e-9);
   });
 });
+
+describe('getCameraPathPlaybackTime', () => {
+  it('runs once and reports the end of the path', () => {
+    const clock = { duration: 4, startTime: 1000, loop: false };
+    expect(getCameraPathPlaybackTime(clock, 2500)).toEqual({ time: 1.5, finished: false });
+    expect(getCameraPathPlaybackTime(clock, 6000)).toEqual({ time: 4, finished: true });
+  });
+
+  it('wraps a looping path and never finishes it', () => {
+    const clock = { duration: 4, startTime: 1000, loop: true };
+    expect(getCameraPathPlaybackTime(clock, 10000)).toEqual({ time: 1, finished: false });
+  });
+});
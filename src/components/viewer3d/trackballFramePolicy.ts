@@ -98,3 +98,23 @@ export function computeGotoFrameQuaternion(
   GOTO_LOOK_MATRIX.lookAt(GOTO_ORIGIN, forward, worldUp);
   return out.setFromRotationMatrix(GOTO_LOOK_MATRIX);
 }
+
+export interface CameraPathPlaybackClock {
+  /** Path length in seconds. */
+  duration: number;
+  /** performance.now() at time zero of the path. */
+  startTime: number;
+  loop: boolean;
+}
+
+/** Path time for the frame, wrapped when looping; `finished` once a one-shot path has ended. */
+export function getCameraPathPlaybackTime(
+  { duration, startTime, loop }: CameraPathPlaybackClock,
+  now: number
+): { time: number; finished: boolean } {
+  const elapsed = Math.max(0, (now - startTime) / 1000);
+  if (loop && duration > 0) {
+    return { time: elapsed % duration, finished: false };
+  }
+  return { time: Math.min(elapsed, duration), finished: elapsed >= duration };
+}
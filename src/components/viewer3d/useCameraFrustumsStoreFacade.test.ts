@@ -8,6 +8,7 @@ import {
   usePointPickingStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useUIStore,
 } from '../../store';
 import type { CameraViewState, NavigationHistoryEntry } from '../../store/types';
@@ -37,6 +38,7 @@ describe('useCameraFrustumsStoreFacade', () => {
     useSplatBackendStore.setState(useSplatBackendStore.getInitialState(), true);
     usePointPickingStore.setState(usePointPickingStore.getInitialState(), true);
     useFloorPlaneStore.setState(useFloorPlaneStore.getInitialState(), true);
+    useSplatComparisonStore.getState().reset();
   });
 
   it('collects frustum render dependencies from stores, nodes, and dataset state', () => {
@@ -98,6 +100,7 @@ describe('useCameraFrustumsStoreFacade', () => {
       color: '#123456',
       lineWidth: 2,
     });
+    expect(result.current.data.matchConnections).toBe(reconstruction.connectedImagesIndex);
     expect(result.current.data.nav).toMatchObject({
       fov: 45,
       autoFovEnabled: true,
@@ -154,6 +157,25 @@ describe('useCameraFrustumsStoreFacade', () => {
     expect(result.current.data.splatPsnrByImage.get(1)?.ssim).toBe(0.94);
   });
 
+  it('adds the comparison splat PSNR delta in the delta color mode', () => {
+    const splatFile = buildFile('scene.spz', 'splat');
+    useReconstructionStore.setState({
+      reconstruction: buildReconstruction(),
+      loadedFiles: buildLoadedFiles({ splatFile }),
+    });
+    useSplatBackendStore.getState().setRequestedBackend('webgpu');
+    useSplatBackendStore.getState().setWebGpuBackendState('ready');
+    useSplatBackendStore.getState().setWebGpuMetricState('ready');
+    useCameraStore.setState({ frustumColorMode: 'splatPsnrDelta' });
+    const metric = { imageId: 1, psnr: 30.5, mse: 58, validPixelCount: 128, width: 80, height: 60, computedAt: 321 };
+    useImageMetricsStore.getState().setSplatPsnrMetric(metric);
+    useSplatComparisonStore.getState().setMetric({ ...metric, psnr: 28 });
+
+    const { result } = renderHook(() => useCameraFrustumsStoreFacade());
+
+    expect(result.current.data.splatPsnrByImage.get(1)).toMatchObject({ psnr: 30.5, psnrDelta: 2.5 });
+  });
+
   it('does not expose stale splat metrics while Spark is active', () => {
     const splatFile = buildFile('scene.spz', 'splat');
     useReconstructionStore.setState({ loadedFiles: buildLoadedFiles({ splatFile }) });
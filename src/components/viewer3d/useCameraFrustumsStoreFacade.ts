@@ -15,20 +15,25 @@ import {
   type SelectionNodeActions,
 } from '../../nodes';
 import {
+  useColmapDatabaseStore,
   useDeletionStore,
   useImageMetricsStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useUIStore,
   type DeletionState,
   type ImageMetricsState,
+  type SplatComparisonState,
   type UIState,
 } from '../../store';
 import { useIsAlignmentMode } from '../../hooks/useAlignmentMode';
 import { shouldExposeSplatMetricVisualizations } from '../../utils/splatBackendPolicy';
+import { buildSplatPsnrDeltaMetrics } from '../../utils/splatComparisonPolicy';
 import { reconstructionHasSplatMetricCapableCamera } from '../../splat/splatMetricCapability';
-import type { Reconstruction } from '../../types/colmap';
-import type { FrustumPsnrMetricSource } from './cameraFrustumViewModel';
+import type { ConnectedImagesIndex, Reconstruction } from '../../types/colmap';
+import { resolveMatchConnectionsIndex } from '../../utils/colmapDatabaseMatches';
+import { isSplatMetricColorMode, type FrustumPsnrMetricSource } from './cameraFrustumViewModel';
 
 const EMPTY_SPLAT_PSNR_BY_IMAGE: FrustumPsnrMetricSource = new Map();
 
@@ -38,6 +43,8 @@ interface CameraFrustumsDataFacade {
   cameras: CamerasNode;
   selection: SelectionNode;
   matches: MatchesNode;
+  /** Connections for the active match source (database pairs when one is loaded). */
+  matchConnections: ConnectedImagesIndex | null;
   nav: NavigationNode;
   isAlignmentMode: boolean;
   touchMode: UIState['touchMode'];
@@ -77,15 +84,31 @@ export function useCameraFrustumsStoreFacade(): CameraFrustumsStoreFacade {
     metricAvailability: splatMetricAvailability,
     metricCapability: splatMetricCapability,
   });
-  const splatPsnrByImage = useImageMetricsStore(useCallback(
-    (state: ImageMetricsState) => splatMetricVisualizationsAvailable
-      && (cameras.colorMode === 'splatPsnr' || cameras.colorMode === 'splatSsim')
+  const splatPsnrMetrics = useImageMetricsStore(useCallback(
+    (state: ImageMetricsState) => splatMetricVisualizationsAvailable && isSplatMetricColorMode(cameras.colorMode)
       ? state.splatPsnrMetrics
       : EMPTY_SPLAT_PSNR_BY_IMAGE,
     [cameras.colorMode, splatMetricVisualizationsAvailable]
   ));
+  const comparisonMetrics = useSplatComparisonStore(useCallback(
+    (state: SplatComparisonState) => splatMetricVisualizationsAvailable && cameras.colorMode === 'splatPsnrDelta'
+      ? state.metrics
+      : EMPTY_SPLAT_PSNR_BY_IMAGE,
+    [cameras.colorMode, splatMetricVisualizationsAvailable]
+  ));
+  const splatPsnrByImage = useMemo<FrustumPsnrMetricSource>(
+    () => cameras.colorMode === 'splatPsnrDelta'
+      ? buildSplatPsnrDeltaMetrics(splatPsnrMetrics, comparisonMetrics)
+      : splatPsnrMetrics,
+    [cameras.colorMode, splatPsnrMetrics, comparisonMetrics]
+  );
   const selection = useSelectionNode();
   const matches = useMatchesNode();
+  const databasePairIndex = useColmapDatabaseStore((s) => s.pairIndex);
+  const matchConnections = useMemo(
+    () => resolveMatchConnectionsIndex(reconstruction?.connectedImagesIndex ?? null, matches.source, databasePairIndex),
+    [reconstruction, matches.source, databasePairIndex]
+  );
   const nav = useNavigationNode();
   const navActions = useNavigationNodeActions();
   const selectionActions = useSelectionNodeActions();
@@ -103,6 +126,7 @@ export function useCameraFrustumsStoreFacade(): CameraFrustumsStoreFacade {
       cameras,
       selection,
       matches,
+      matchConnections,
       nav,
       isAlignmentMode,
       touchMode,
@@ -1,12 +1,15 @@
 import { renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { useReconstructionStore } from '../../store';
+import { useColmapDatabaseStore, useReconstructionStore, useUIStore } from '../../store';
 import { buildReconstruction } from '../../test/builders/colmapBuilders';
+import { buildDatabasePairIndex } from '../../utils/colmapDatabaseMatches';
 import { useCameraMatchesStoreFacade } from './useCameraMatchesStoreFacade';
 
 describe('useCameraMatchesStoreFacade', () => {
   beforeEach(() => {
     useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useColmapDatabaseStore.setState(useColmapDatabaseStore.getInitialState(), true);
+    useUIStore.setState({ matchesSource: 'triangulated' });
   });
 
   it('collects reconstruction state for camera match rendering', () => {
@@ -16,5 +19,20 @@ describe('useCameraMatchesStoreFacade', () => {
     const { result } = renderHook(() => useCameraMatchesStoreFacade());
 
     expect(result.current.reconstruction).toBe(reconstruction);
+    expect(result.current.matchConnections).toBe(reconstruction.connectedImagesIndex);
+  });
+
+  it('uses database pair connections for database match sources', () => {
+    useReconstructionStore.setState({ reconstruction: buildReconstruction() });
+    useColmapDatabaseStore.setState({
+      pairIndex: buildDatabasePairIndex([
+        { imageId1: 1, imageId2: 2, numMatches: 30, numInliers: 12, config: 2 },
+      ]),
+    });
+    useUIStore.setState({ matchesSource: 'verified' });
+
+    const { result } = renderHook(() => useCameraMatchesStoreFacade());
+
+    expect(result.current.matchConnections?.get(2)).toEqual(new Map([[1, 12]]));
   });
 });
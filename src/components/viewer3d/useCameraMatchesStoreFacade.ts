@@ -1,11 +1,23 @@
-import { useReconstructionStore } from '../../store';
+import { useMemo } from 'react';
+import { useMatchesNode } from '../../nodes';
+import { useColmapDatabaseStore, useReconstructionStore } from '../../store';
+import type { ConnectedImagesIndex } from '../../types/colmap';
+import { resolveMatchConnectionsIndex } from '../../utils/colmapDatabaseMatches';
 
 export interface CameraMatchesStoreFacade {
   reconstruction: ReturnType<typeof useReconstructionStore.getState>['reconstruction'];
+  /** Connections for the active match source (database pairs when one is loaded). */
+  matchConnections: ConnectedImagesIndex | null;
 }
 
 export function useCameraMatchesStoreFacade(): CameraMatchesStoreFacade {
   const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const databasePairIndex = useColmapDatabaseStore((s) => s.pairIndex);
+  const { source } = useMatchesNode();
+  const matchConnections = useMemo(
+    () => resolveMatchConnectionsIndex(reconstruction?.connectedImagesIndex ?? null, source, databasePairIndex),
+    [reconstruction, source, databasePairIndex]
+  );
 
-  return { reconstruction };
+  return { reconstruction, matchConnections };
 }
@@ -0,0 +1,32 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useGcpStore, useReconstructionStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useGcpMarkersStoreFacade } from './useGcpMarkersStoreFacade';
+
+describe('useGcpMarkersStoreFacade', () => {
+  beforeEach(() => {
+    useGcpStore.setState(useGcpStore.getInitialState(), true);
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+  });
+
+  it('collects GCPs with the reconstruction used for triangulation', () => {
+    const reconstruction = buildReconstruction();
+    useReconstructionStore.setState({ reconstruction });
+    useGcpStore.getState().addGcp();
+
+    const { result } = renderHook(() => useGcpMarkersStoreFacade());
+
+    expect(result.current.data.reconstruction).toBe(reconstruction);
+    expect(result.current.data.gcps).toHaveLength(1);
+    expect(result.current.data.activeGcpId).toBe(1);
+  });
+
+  it('routes marker selection to the GCP store', () => {
+    const { result } = renderHook(() => useGcpMarkersStoreFacade());
+
+    act(() => result.current.actions.setActiveGcpId(4));
+
+    expect(useGcpStore.getState().activeGcpId).toBe(4);
+  });
+});
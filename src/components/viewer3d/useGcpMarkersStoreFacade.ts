@@ -0,0 +1,39 @@
+import {
+  useGcpStore,
+  useReconstructionStore,
+  type GcpState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+interface GcpMarkersDataFacade {
+  reconstruction: Reconstruction | null;
+  gcps: GcpState['gcps'];
+  activeGcpId: GcpState['activeGcpId'];
+}
+
+interface GcpMarkersActionsFacade {
+  setActiveGcpId: GcpState['setActiveGcpId'];
+}
+
+export interface GcpMarkersStoreFacade {
+  data: GcpMarkersDataFacade;
+  actions: GcpMarkersActionsFacade;
+}
+
+export function useGcpMarkersStoreFacade(): GcpMarkersStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const gcps = useGcpStore((s) => s.gcps);
+  const activeGcpId = useGcpStore((s) => s.activeGcpId);
+  const setActiveGcpId = useGcpStore((s) => s.setActiveGcpId);
+
+  return {
+    data: {
+      reconstruction,
+      gcps,
+      activeGcpId,
+    },
+    actions: {
+      setActiveGcpId,
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useFloorPlaneStore, useMeasurementStore, useTransformStore } from '../../store';
+import { useMeasurementLayerStoreFacade } from './useMeasurementLayerStoreFacade';
+
+describe('useMeasurementLayerStoreFacade', () => {
+  beforeEach(() => {
+    useMeasurementStore.setState(useMeasurementStore.getInitialState(), true);
+    useFloorPlaneStore.setState(useFloorPlaneStore.getInitialState(), true);
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+  });
+
+  it('collects measurements with the transform and floor they are measured against', () => {
+    const plane = { normal: [0, 1, 0] as [number, number, number], d: 0, centroid: [0, 0, 0] as [number, number, number], inlierCount: 10, radius: 1 };
+    useMeasurementStore.getState().setMeasurementTool('height');
+    useMeasurementStore.getState().addMeasurementPoint([0, 2, 0]);
+    useMeasurementStore.getState().setMeasurementTool('polyline');
+    useMeasurementStore.getState().addMeasurementPoint([1, 1, 1]);
+    useFloorPlaneStore.setState({ detectedPlane: plane, normalFlipped: true });
+    useTransformStore.getState().setTransform({ scale: 3 });
+
+    const { result } = renderHook(() => useMeasurementLayerStoreFacade());
+
+    expect(result.current.data).toMatchObject({
+      measurements: [{ type: 'height', points: [[0, 2, 0]] }],
+      draftPoints: [[1, 1, 1]],
+      tool: 'polyline',
+      showLabels: true,
+      transform: { scale: 3 },
+      detectedPlane: plane,
+      normalFlipped: true,
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  useFloorPlaneStore,
+  useMeasurementStore,
+  useTransformStore,
+  type FloorPlaneState,
+  type MeasurementState,
+  type TransformState,
+} from '../../store';
+
+interface MeasurementLayerDataFacade {
+  measurements: MeasurementState['measurements'];
+  draftPoints: MeasurementState['draftPoints'];
+  tool: MeasurementState['tool'];
+  showLabels: MeasurementState['showLabels'];
+  transform: TransformState['transform'];
+  detectedPlane: FloorPlaneState['detectedPlane'];
+  normalFlipped: FloorPlaneState['normalFlipped'];
+}
+
+export interface MeasurementLayerStoreFacade {
+  data: MeasurementLayerDataFacade;
+}
+
+export function useMeasurementLayerStoreFacade(): MeasurementLayerStoreFacade {
+  const measurements = useMeasurementStore((s) => s.measurements);
+  const draftPoints = useMeasurementStore((s) => s.draftPoints);
+  const tool = useMeasurementStore((s) => s.tool);
+  const showLabels = useMeasurementStore((s) => s.showLabels);
+  const transform = useTransformStore((s) => s.transform);
+  const detectedPlane = useFloorPlaneStore((s) => s.detectedPlane);
+  const normalFlipped = useFloorPlaneStore((s) => s.normalFlipped);
+
+  return {
+    data: {
+      measurements,
+      draftPoints,
+      tool,
+      showLabels,
+      transform,
+      detectedPlane,
+      normalFlipped,
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { usePointEditStore } from '../../store';
+import { usePointSelectionShapeOverlayStoreFacade } from './usePointSelectionShapeOverlayStoreFacade';
+
+describe('usePointSelectionShapeOverlayStoreFacade', () => {
+  beforeEach(() => {
+    usePointEditStore.getState().reset();
+  });
+
+  it('exposes the active tool and routes drawn shapes to the point edit store', () => {
+    usePointEditStore.getState().setTool('lasso');
+    const { result } = renderHook(() => usePointSelectionShapeOverlayStoreFacade());
+
+    expect(result.current.tool).toBe('lasso');
+
+    const shape = { kind: 'polygon' as const, points: [[0, 0], [1, 0], [0, 1]] as [number, number][], mode: 'replace' as const };
+    act(() => {
+      result.current.requestSelection(shape);
+    });
+    expect(usePointEditStore.getState().pendingShape).toBe(shape);
+  });
+});
@@ -0,0 +1,16 @@
+import { usePointEditStore, type PointEditState, type PointSelectionTool } from '../../store';
+
+export interface PointSelectionShapeOverlayStoreFacade {
+  tool: PointSelectionTool;
+  requestSelection: PointEditState['requestSelection'];
+}
+
+export function usePointSelectionShapeOverlayStoreFacade(): PointSelectionShapeOverlayStoreFacade {
+  const tool = usePointEditStore((s) => s.tool);
+  const requestSelection = usePointEditStore((s) => s.requestSelection);
+
+  return {
+    tool,
+    requestSelection,
+  };
+}
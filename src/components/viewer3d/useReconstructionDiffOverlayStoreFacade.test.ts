@@ -0,0 +1,23 @@
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useReconstructionDiffStore, useReconstructionStore } from '../../store';
+import { buildImage, buildReconstruction } from '../../test/builders';
+import { useReconstructionDiffOverlayStoreFacade } from './useReconstructionDiffOverlayStoreFacade';
+
+describe('useReconstructionDiffOverlayStoreFacade', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useReconstructionDiffStore.setState(useReconstructionDiffStore.getInitialState(), true);
+  });
+
+  it('collects the reference reconstruction and loaded compare poses', () => {
+    const reconstruction = buildReconstruction();
+    const compareImages = new Map([[1, buildImage()]]);
+    useReconstructionStore.setState({ reconstruction });
+    useReconstructionDiffStore.setState({ compareImages, showDiffOverlay: false });
+
+    const { result } = renderHook(() => useReconstructionDiffOverlayStoreFacade());
+
+    expect(result.current).toEqual({ reconstruction, compareImages, showDiffOverlay: false });
+  });
+});
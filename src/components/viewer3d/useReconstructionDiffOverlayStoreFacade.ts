@@ -0,0 +1,16 @@
+import { useReconstructionDiffStore, useReconstructionStore, type ReconstructionDiffState } from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+export interface ReconstructionDiffOverlayStoreFacade {
+  reconstruction: Reconstruction | null;
+  compareImages: ReconstructionDiffState['compareImages'];
+  showDiffOverlay: boolean;
+}
+
+export function useReconstructionDiffOverlayStoreFacade(): ReconstructionDiffOverlayStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const compareImages = useReconstructionDiffStore((s) => s.compareImages);
+  const showDiffOverlay = useReconstructionDiffStore((s) => s.showDiffOverlay);
+
+  return { reconstruction, compareImages, showDiffOverlay };
+}
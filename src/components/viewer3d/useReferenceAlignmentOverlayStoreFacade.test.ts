@@ -0,0 +1,35 @@
+import * as THREE from 'three';
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useReconstructionStore, useReferenceAlignmentStore } from '../../store';
+import { buildReconstruction } from '../../test/builders';
+import { useReferenceAlignmentOverlayStoreFacade } from './useReferenceAlignmentOverlayStoreFacade';
+
+describe('useReferenceAlignmentOverlayStoreFacade', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useReferenceAlignmentStore.setState(useReferenceAlignmentStore.getInitialState(), true);
+  });
+
+  it('collects the current reconstruction and the solved reference alignment', () => {
+    const reconstruction = buildReconstruction();
+    const alignment = {
+      sim3d: { scale: 1, rotation: new THREE.Quaternion(), translation: new THREE.Vector3() },
+      inlierThreshold: 1,
+      residuals: [],
+      inlierCount: 0,
+      inlierRmse: 0,
+    };
+    useReconstructionStore.setState({ reconstruction });
+    useReferenceAlignmentStore.setState({ alignment, alignedReconstruction: reconstruction, showResiduals: false });
+
+    const { result } = renderHook(() => useReferenceAlignmentOverlayStoreFacade());
+
+    expect(result.current).toEqual({
+      reconstruction,
+      alignment,
+      alignedReconstruction: reconstruction,
+      showResiduals: false,
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { useReconstructionStore, useReferenceAlignmentStore, type ReferenceAlignmentState } from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+
+export interface ReferenceAlignmentOverlayStoreFacade {
+  reconstruction: Reconstruction | null;
+  alignment: ReferenceAlignmentState['alignment'];
+  alignedReconstruction: ReferenceAlignmentState['alignedReconstruction'];
+  showResiduals: boolean;
+}
+
+export function useReferenceAlignmentOverlayStoreFacade(): ReferenceAlignmentOverlayStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const alignment = useReferenceAlignmentStore((s) => s.alignment);
+  const alignedReconstruction = useReferenceAlignmentStore((s) => s.alignedReconstruction);
+  const showResiduals = useReferenceAlignmentStore((s) => s.showResiduals);
+
+  return { reconstruction, alignment, alignedReconstruction, showResiduals };
+}
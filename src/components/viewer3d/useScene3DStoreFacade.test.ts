@@ -6,6 +6,7 @@ import {
   usePointCloudStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useTransformStore,
   useUIStore,
 } from '../../store';
@@ -25,6 +26,7 @@ describe('useScene3DStoreFacade', () => {
     useSplatBackendStore.setState(useSplatBackendStore.getInitialState(), true);
     useTransformStore.setState(useTransformStore.getInitialState(), true);
     useUIStore.setState(useUIStore.getInitialState(), true);
+    useSplatComparisonStore.getState().reset();
   });
 
   it('collects scene content dependencies from owning stores', () => {
@@ -161,4 +163,30 @@ describe('useScene3DStoreFacade', () => {
 
     expect(result.current.data.pointsLayerVisible).toBe(false);
   });
+
+  it('exposes the comparison splat and moves its divider', () => {
+    const splatFile = buildFile('a.spz');
+    const comparisonFile = buildFile('b.spz');
+    useReconstructionStore.setState({
+      loadedFiles: buildLoadedFiles({
+        splatFile,
+        splatFileSources: [{ id: 'runs/a.spz', path: 'runs/a.spz', file: splatFile }],
+      }),
+    });
+    useSplatComparisonStore.getState().setSourceLoading('runs/b.spz');
+    useSplatComparisonStore.getState().setSourceReady('runs/b.spz', comparisonFile);
+
+    const { result } = renderHook(() => useSceneContainerStoreFacade());
+
+    expect(result.current.data).toMatchObject({
+      activeSplatSourceId: 'runs/a.spz',
+      comparisonSourceId: 'runs/b.spz',
+      comparisonSplatFile: comparisonFile,
+      comparisonLayout: 'split',
+    });
+    act(() => {
+      result.current.actions.setComparisonSplitPosition(0.3);
+    });
+    expect(result.current.data.comparisonSplitPosition).toBe(0.3);
+  });
 });
@@ -3,11 +3,13 @@ import {
   useNotificationStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useTransformStore,
   useUIStore,
   type CameraState,
   type NotificationState,
   type SplatBackendState,
+  type SplatComparisonState,
   type TransformState,
   type UIState,
 } from '../../store';
@@ -20,6 +22,7 @@ import type {
 import type { UrlLoadProgress } from '../../types/manifest';
 import type { Reconstruction } from '../../types/colmap';
 import type { WasmReconstructionWrapper } from '../../wasm/reconstruction';
+import { getActiveSplatSourceId } from '../../utils/splatFileSourcePolicy';
 import { shouldHideSceneAutoHideElement } from './scene3dViewModel';
 
 interface SceneContentDataFacade {
@@ -56,6 +59,11 @@ interface SceneContainerDataFacade {
   splatBackendResolution: SplatBackendResolution;
   splatsVisible: boolean;
   pointsLayerVisible: boolean;
+  activeSplatSourceId: string | null;
+  comparisonSourceId: SplatComparisonState['sourceId'];
+  comparisonSplatFile: SplatComparisonState['file'];
+  comparisonLayout: SplatComparisonState['layout'];
+  comparisonSplitPosition: SplatComparisonState['splitPosition'];
 }
 
 interface SceneContainerActionsFacade {
@@ -67,6 +75,7 @@ interface SceneContainerActionsFacade {
   getUrlProgress: () => ReturnType<typeof useReconstructionStore.getState>['urlProgress'];
   setUrlLoading: ReturnType<typeof useReconstructionStore.getState>['setUrlLoading'];
   setUrlProgress: ReturnType<typeof useReconstructionStore.getState>['setUrlProgress'];
+  setComparisonSplitPosition: SplatComparisonState['setSplitPosition'];
 }
 
 export interface SceneContentStoreFacade {
@@ -143,6 +152,12 @@ export function useSceneContainerStoreFacade(): SceneContainerStoreFacade {
   const setWebGpuMetricState = useSplatBackendStore((s) => s.setWebGpuMetricState);
   const setUrlLoading = useReconstructionStore((s) => s.setUrlLoading);
   const setUrlProgress = useReconstructionStore((s) => s.setUrlProgress);
+  const activeSplatSourceId = useReconstructionStore((s) => getActiveSplatSourceId(s.loadedFiles));
+  const comparisonSourceId = useSplatComparisonStore((s) => s.sourceId);
+  const comparisonSplatFile = useSplatComparisonStore((s) => s.file);
+  const comparisonLayout = useSplatComparisonStore((s) => s.layout);
+  const comparisonSplitPosition = useSplatComparisonStore((s) => s.splitPosition);
+  const setComparisonSplitPosition = useSplatComparisonStore((s) => s.setSplitPosition);
   const points = usePointsNode();
   const pointsLayerVisible = !shouldHideSceneAutoHideElement(
     isIdle,
@@ -162,6 +177,11 @@ export function useSceneContainerStoreFacade(): SceneContainerStoreFacade {
       splatBackendResolution,
       splatsVisible: points.splatsVisible,
       pointsLayerVisible,
+      activeSplatSourceId,
+      comparisonSourceId,
+      comparisonSplatFile,
+      comparisonLayout,
+      comparisonSplitPosition,
     },
     actions: {
       addNotification,
@@ -172,6 +192,7 @@ export function useSceneContainerStoreFacade(): SceneContainerStoreFacade {
       getUrlProgress: getCurrentUrlProgress,
       setUrlLoading,
       setUrlProgress,
+      setComparisonSplitPosition,
     },
   };
 }
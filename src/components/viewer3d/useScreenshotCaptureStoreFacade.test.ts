@@ -1,6 +1,7 @@
 import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  useCameraPathStore,
   useExportStore,
   useNotificationStore,
 } from '../../store';
@@ -9,12 +10,14 @@ import type {
   ScreenshotCallback,
   StopRecordingCallback,
 } from '../../store/stores/exportStore';
+import type { CameraViewState } from '../../store/types';
 import { useScreenshotCaptureStoreFacade } from './useScreenshotCaptureStoreFacade';
 
 describe('useScreenshotCaptureStoreFacade', () => {
   beforeEach(() => {
     useExportStore.setState(useExportStore.getInitialState(), true);
     useNotificationStore.setState(useNotificationStore.getInitialState(), true);
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
   });
 
   it('collects screenshot capture dependencies from the export store', () => {
@@ -42,9 +45,27 @@ describe('useScreenshotCaptureStoreFacade', () => {
       gifSpeed: 2,
       recordingQuality: 'ultra',
       recordingFormat: 'mp4',
+      cameraPathRecordingDuration: null,
     });
   });
 
+  it('records for the camera path duration when recording with the path', () => {
+    const view: CameraViewState = { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5 };
+    useCameraPathStore.getState().loadPath([
+      { view: { ...view, position: [0, 0, 5] }, duration: 2, easing: 'linear' },
+      { view: { ...view, position: [5, 0, 0] }, duration: 3.5, easing: 'easeInOut' },
+    ], false);
+
+    const { result } = renderHook(() => useScreenshotCaptureStoreFacade());
+    expect(result.current.data.cameraPathRecordingDuration).toBeNull();
+
+    act(() => useCameraPathStore.getState().setRecordWithPath(true));
+    expect(result.current.data.cameraPathRecordingDuration).toBe(3.5);
+
+    act(() => result.current.actions.playCameraPath());
+    expect(useCameraPathStore.getState().playbackStartTime).not.toBeNull();
+  });
+
   it('routes capture callbacks, recording state, and notifications to owning stores', () => {
     const screenshotCallback: ScreenshotCallback = vi.fn().mockResolvedValue(new Blob(['shot']));
     const recordGif: GifRecordCallback = vi.fn().mockResolvedValue(new Blob(['gif']));
@@ -1,9 +1,12 @@
 import {
+  useCameraPathStore,
   useExportStore,
   useNotificationStore,
+  type CameraPathState,
   type ExportState,
   type NotificationState,
 } from '../../store';
+import { getCameraPathRecordingDuration } from '../../utils/cameraPathTimelinePolicy';
 
 interface ScreenshotCaptureDataFacade {
   screenshotTrigger: ExportState['screenshotTrigger'];
@@ -15,6 +18,8 @@ interface ScreenshotCaptureDataFacade {
   gifSpeed: ExportState['gifSpeed'];
   recordingQuality: ExportState['recordingQuality'];
   recordingFormat: ExportState['recordingFormat'];
+  /** Seconds of the camera path to record over, or null when not recording with the path. */
+  cameraPathRecordingDuration: number | null;
 }
 
 interface ScreenshotCaptureActionsFacade {
@@ -25,6 +30,7 @@ interface ScreenshotCaptureActionsFacade {
   setGifRenderProgress: ExportState['setGifRenderProgress'];
   setGifBlobUrl: ExportState['setGifBlobUrl'];
   addNotification: NotificationState['addNotification'];
+  playCameraPath: CameraPathState['play'];
 }
 
 export interface ScreenshotCaptureStoreFacade {
@@ -49,6 +55,10 @@ export function useScreenshotCaptureStoreFacade(): ScreenshotCaptureStoreFacade
   const recordingQuality = useExportStore((s) => s.recordingQuality);
   const recordingFormat = useExportStore((s) => s.recordingFormat);
   const addNotification = useNotificationStore((s) => s.addNotification);
+  const cameraPathRecordingDuration = useCameraPathStore(
+    (s) => getCameraPathRecordingDuration(s.keyframes, s.recordWithPath)
+  );
+  const playCameraPath = useCameraPathStore((s) => s.play);
 
   return {
     data: {
@@ -61,6 +71,7 @@ export function useScreenshotCaptureStoreFacade(): ScreenshotCaptureStoreFacade
       gifSpeed,
       recordingQuality,
       recordingFormat,
+      cameraPathRecordingDuration,
     },
     actions: {
       setGetScreenshotBlob,
@@ -70,6 +81,7 @@ export function useScreenshotCaptureStoreFacade(): ScreenshotCaptureStoreFacade
       setGifRenderProgress,
       setGifBlobUrl,
       addNotification,
+      playCameraPath,
     },
   };
 }
@@ -0,0 +1,54 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  useReconstructionStore,
+  useSplatComparisonStore,
+  useTransformStore,
+} from '../../store';
+import { buildFile, buildReconstruction } from '../../test/builders';
+import { useSplatComparisonMetricRunnerStoreFacade } from './useSplatComparisonMetricRunnerStoreFacade';
+
+describe('useSplatComparisonMetricRunnerStoreFacade', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useSplatComparisonStore.getState().reset();
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+  });
+
+  it('collects the comparison splat and its compute request', () => {
+    const reconstruction = buildReconstruction();
+    const file = buildFile('b.spz', 'splat');
+    useReconstructionStore.setState({ reconstruction });
+    useSplatComparisonStore.getState().setSourceLoading('b.spz');
+    useSplatComparisonStore.getState().setSourceReady('b.spz', file);
+    useSplatComparisonStore.getState().requestCompute();
+    useTransformStore.getState().setSplatTransform({
+      scale: 2,
+      rotationX: 0,
+      rotationY: 0,
+      rotationZ: 0,
+      translationX: 1,
+      translationY: 0,
+      translationZ: 0,
+    });
+
+    const { result } = renderHook(() => useSplatComparisonMetricRunnerStoreFacade());
+
+    expect(result.current.data).toMatchObject({
+      reconstruction,
+      splatFile: file,
+      computeRequest: { id: 1 },
+      splatTransform: expect.objectContaining({ scale: 2 }),
+    });
+  });
+
+  it('routes compute progress to the comparison store', () => {
+    const { result } = renderHook(() => useSplatComparisonMetricRunnerStoreFacade());
+
+    act(() => result.current.actions.startCompute());
+    expect(useSplatComparisonStore.getState().computing).toBe(true);
+
+    act(() => result.current.actions.finishCompute());
+    expect(useSplatComparisonStore.getState().computing).toBe(false);
+  });
+});
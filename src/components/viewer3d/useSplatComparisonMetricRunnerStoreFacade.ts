@@ -0,0 +1,65 @@
+import { useDataset, type DatasetManager } from '../../dataset';
+import {
+  useNotificationStore,
+  useReconstructionStore,
+  useSplatComparisonStore,
+  useTransformStore,
+  type NotificationState,
+  type SplatComparisonState,
+} from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+
+interface SplatComparisonMetricRunnerDataFacade {
+  reconstruction: Reconstruction | null;
+  dataset: DatasetManager;
+  splatFile: SplatComparisonState['file'];
+  computeRequest: SplatComparisonState['computeRequest'];
+  transform: Sim3dEuler;
+  splatTransform: Sim3dEuler;
+}
+
+interface SplatComparisonMetricRunnerActionsFacade {
+  startCompute: SplatComparisonState['startCompute'];
+  setMetric: SplatComparisonState['setMetric'];
+  setMetricError: SplatComparisonState['setMetricError'];
+  finishCompute: SplatComparisonState['finishCompute'];
+  addNotification: NotificationState['addNotification'];
+}
+
+export interface SplatComparisonMetricRunnerStoreFacade {
+  data: SplatComparisonMetricRunnerDataFacade;
+  actions: SplatComparisonMetricRunnerActionsFacade;
+}
+
+export function useSplatComparisonMetricRunnerStoreFacade(): SplatComparisonMetricRunnerStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const dataset = useDataset();
+  const splatFile = useSplatComparisonStore((s) => s.file);
+  const computeRequest = useSplatComparisonStore((s) => s.computeRequest);
+  const transform = useTransformStore((s) => s.transform);
+  const splatTransform = useTransformStore((s) => s.splatTransform);
+  const startCompute = useSplatComparisonStore((s) => s.startCompute);
+  const setMetric = useSplatComparisonStore((s) => s.setMetric);
+  const setMetricError = useSplatComparisonStore((s) => s.setMetricError);
+  const finishCompute = useSplatComparisonStore((s) => s.finishCompute);
+  const addNotification = useNotificationStore((s) => s.addNotification);
+
+  return {
+    data: {
+      reconstruction,
+      dataset,
+      splatFile,
+      computeRequest,
+      transform,
+      splatTransform,
+    },
+    actions: {
+      startCompute,
+      setMetric,
+      setMetricError,
+      finishCompute,
+      addNotification,
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useSplatEditStore, useUIStore, type SplatCropBox } from '../../store';
+import { useSplatCropBoxOverlayStoreFacade } from './useSplatCropBoxOverlayStoreFacade';
+
+describe('useSplatCropBoxOverlayStoreFacade', () => {
+  beforeEach(() => {
+    useSplatEditStore.getState().reset();
+    useUIStore.setState({ showSplatEdit: false });
+  });
+
+  it('shows the box only while editing with cropping enabled', () => {
+    const { result } = renderHook(() => useSplatCropBoxOverlayStoreFacade());
+    expect(result.current.data.visible).toBe(false);
+
+    act(() => {
+      useUIStore.getState().setShowSplatEdit(true);
+      useSplatEditStore.getState().setCropEnabled(true);
+      useSplatEditStore.getState().setCropBox({ center: [0, 0, 0], size: [1, 1, 1], rotation: [0, 0, 0] });
+    });
+
+    expect(result.current.data.visible).toBe(true);
+    expect(result.current.data.cropMode).toBe('aabb');
+  });
+
+  it('routes gizmo edits to the splat edit store', () => {
+    const { result } = renderHook(() => useSplatCropBoxOverlayStoreFacade());
+    const box: SplatCropBox = { center: [1, 2, 3], size: [1, 1, 1], rotation: [0, 0, 0] };
+
+    act(() => result.current.actions.setCropBox(box));
+
+    expect(useSplatEditStore.getState().cropBox).toBe(box);
+  });
+});
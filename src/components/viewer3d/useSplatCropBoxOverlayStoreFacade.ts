@@ -0,0 +1,36 @@
+import { useSplatEditStore, useUIStore, type SplatEditState } from '../../store';
+
+interface SplatCropBoxOverlayDataFacade {
+  /** The box is only shown while the splat edit window is open. */
+  visible: boolean;
+  cropBox: SplatEditState['cropBox'];
+  cropMode: SplatEditState['cropMode'];
+}
+
+interface SplatCropBoxOverlayActionsFacade {
+  setCropBox: SplatEditState['setCropBox'];
+}
+
+export interface SplatCropBoxOverlayStoreFacade {
+  data: SplatCropBoxOverlayDataFacade;
+  actions: SplatCropBoxOverlayActionsFacade;
+}
+
+export function useSplatCropBoxOverlayStoreFacade(): SplatCropBoxOverlayStoreFacade {
+  const showSplatEdit = useUIStore((s) => s.showSplatEdit);
+  const cropEnabled = useSplatEditStore((s) => s.cropEnabled);
+  const cropBox = useSplatEditStore((s) => s.cropBox);
+  const cropMode = useSplatEditStore((s) => s.cropMode);
+  const setCropBox = useSplatEditStore((s) => s.setCropBox);
+
+  return {
+    data: {
+      visible: showSplatEdit && cropEnabled && cropBox !== null,
+      cropBox,
+      cropMode,
+    },
+    actions: {
+      setCropBox,
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useRef, type MutableRefObject } from 'react';
+import type { CameraPathKeyframe } from '../../store/types';
+import { createCameraPathTimeline, type CameraPathTimeline } from '../../utils/cameraPathTimelinePolicy';
+
+export interface TrackballCameraPathPlayback {
+  timeline: CameraPathTimeline;
+  /** performance.now() at time zero of the path. */
+  startTime: number;
+  loop: boolean;
+  onFinish: () => void;
+}
+
+interface CameraPathPlaybackOptions {
+  keyframes: readonly CameraPathKeyframe[];
+  loop: boolean;
+  playbackStartTime: number | null;
+  stop: () => void;
+}
+
+/**
+ * Timeline the frame loop follows while a camera path plays. Editing the path
+ * mid-playback keeps the clock running, so retimed segments take effect in place.
+ */
+export function useTrackballCameraPathPlayback({
+  keyframes,
+  loop,
+  playbackStartTime,
+  stop,
+}: CameraPathPlaybackOptions): MutableRefObject<TrackballCameraPathPlayback | null> {
+  const playbackRef = useRef<TrackballCameraPathPlayback | null>(null);
+  const timeline = useMemo(() => createCameraPathTimeline(keyframes), [keyframes]);
+
+  useEffect(() => {
+    playbackRef.current = playbackStartTime !== null && timeline
+      ? { timeline, startTime: playbackStartTime, loop, onFinish: stop }
+      : null;
+  }, [loop, playbackStartTime, stop, timeline]);
+
+  return playbackRef;
+}
@@ -1,8 +1,10 @@
-import { renderHook } from '@testing-library/react';
+import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+  useCameraPathStore,
   usePointPickingStore,
   useReconstructionStore,
+  useTrajectoryStore,
   useTransformStore,
   useUIStore,
 } from '../../store';
@@ -16,6 +18,8 @@ describe('useTrackballControlsStoreFacade', () => {
     useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
     useTransformStore.setState(useTransformStore.getInitialState(), true);
     useUIStore.setState(useUIStore.getInitialState(), true);
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
+    useTrajectoryStore.setState(useTrajectoryStore.getInitialState(), true);
   });
 
   it('collects trackball control dependencies from owning stores', () => {
@@ -42,6 +46,29 @@ describe('useTrackballControlsStoreFacade', () => {
       pickingMode: 'normal-3pt',
       transform,
       touchMode: true,
+      cameraPathKeyframes: [],
+      cameraPathLoop: false,
+      cameraPathPlaybackStartTime: null,
+      trajectoryOrder: 'name',
+      trajectoryLoop: false,
+      trajectoryClock: { status: 'stopped', position: 0, startTime: 0, speed: 5 },
     });
   });
+
+  it('stops camera path playback through the owning store', () => {
+    useCameraPathStore.setState({ playbackStartTime: 1234 });
+    const { result } = renderHook(() => useTrackballControlsStoreFacade());
+
+    act(() => result.current.actions.stopCameraPath());
+
+    expect(useCameraPathStore.getState().playbackStartTime).toBeNull();
+  });
+
+  it('holds a finished trajectory on its last image', () => {
+    const { result } = renderHook(() => useTrackballControlsStoreFacade());
+
+    act(() => result.current.actions.finishTrajectory(9));
+
+    expect(result.current.data.trajectoryClock).toMatchObject({ status: 'paused', position: 9 });
+  });
 });
@@ -1,23 +1,40 @@
 import {
+  useCameraPathStore,
   usePointPickingStore,
   useReconstructionStore,
+  useTrajectoryStore,
   useTransformStore,
   useUIStore,
+  type CameraPathState,
   type PointPickingState,
+  type TrajectoryState,
   type TransformState,
   type UIState,
 } from '../../store';
 import type { Reconstruction } from '../../types/colmap';
+import type { TrajectoryPlaybackClock } from '../../utils/trajectoryPlaybackPolicy';
 
 interface TrackballControlsDataFacade {
   reconstruction: Reconstruction | null;
   pickingMode: PointPickingState['pickingMode'];
   transform: TransformState['transform'];
   touchMode: UIState['touchMode'];
+  cameraPathKeyframes: CameraPathState['keyframes'];
+  cameraPathLoop: CameraPathState['loop'];
+  cameraPathPlaybackStartTime: CameraPathState['playbackStartTime'];
+  trajectoryOrder: TrajectoryState['order'];
+  trajectoryLoop: TrajectoryState['loop'];
+  trajectoryClock: TrajectoryPlaybackClock;
+}
+
+interface TrackballControlsActionsFacade {
+  stopCameraPath: CameraPathState['stop'];
+  finishTrajectory: TrajectoryState['finish'];
 }
 
 export interface TrackballControlsStoreFacade {
   data: TrackballControlsDataFacade;
+  actions: TrackballControlsActionsFacade;
 }
 
 export function useTrackballControlsStoreFacade(): TrackballControlsStoreFacade {
@@ -25,6 +42,17 @@ export function useTrackballControlsStoreFacade(): TrackballControlsStoreFacade
   const pickingMode = usePointPickingStore((state) => state.pickingMode);
   const transform = useTransformStore((state) => state.transform);
   const touchMode = useUIStore((state) => state.touchMode);
+  const cameraPathKeyframes = useCameraPathStore((state) => state.keyframes);
+  const cameraPathLoop = useCameraPathStore((state) => state.loop);
+  const cameraPathPlaybackStartTime = useCameraPathStore((state) => state.playbackStartTime);
+  const stopCameraPath = useCameraPathStore((state) => state.stop);
+  const trajectoryOrder = useTrajectoryStore((state) => state.order);
+  const trajectoryLoop = useTrajectoryStore((state) => state.loop);
+  const trajectoryStatus = useTrajectoryStore((state) => state.status);
+  const trajectoryPosition = useTrajectoryStore((state) => state.position);
+  const trajectoryStartTime = useTrajectoryStore((state) => state.startTime);
+  const trajectorySpeed = useTrajectoryStore((state) => state.speed);
+  const finishTrajectory = useTrajectoryStore((state) => state.finish);
 
   return {
     data: {
@@ -32,6 +60,21 @@ export function useTrackballControlsStoreFacade(): TrackballControlsStoreFacade
       pickingMode,
       transform,
       touchMode,
+      cameraPathKeyframes,
+      cameraPathLoop,
+      cameraPathPlaybackStartTime,
+      trajectoryOrder,
+      trajectoryLoop,
+      trajectoryClock: {
+        status: trajectoryStatus,
+        position: trajectoryPosition,
+        startTime: trajectoryStartTime,
+        speed: trajectorySpeed,
+      },
+    },
+    actions: {
+      stopCameraPath,
+      finishTrajectory,
     },
   };
 }
@@ -4,6 +4,11 @@ import * as THREE from 'three';
 import type { AutoRotateMode, AxesCoordinateSystem, CameraMode, HorizonLockMode } from '../../store/types';
 import { CAMERA, CONTROLS } from '../../theme';
 import { getWorldUp } from '../../utils/coordinateSystems';
+import {
+  getTrajectoryRawPosition,
+  interpolateTrajectoryPose,
+  normalizeTrajectoryPosition,
+} from '../../utils/trajectoryPlaybackPolicy';
 import {
   easeOutCubic,
   getKeyboardMovementAcceleration,
@@ -12,12 +17,16 @@ import {
 import {
   computeGotoFrameQuaternion,
   getAutoRotateDelta,
+  getCameraPathPlaybackTime,
   getCappedFrameDeltaMs,
   getFrameDamping,
   getOrbitDistanceStep,
   shouldApplyAngularVelocity,
   type XYVelocity,
 } from './trackballFramePolicy';
+import { syncPerspectiveCameraFov } from './trackballCameraLifecyclePolicy';
+import type { TrackballCameraPathPlayback } from './useTrackballCameraPathPlayback';
+import type { TrackballTrajectoryPlayback } from './useTrackballTrajectoryPlayback';
 import type { TrackballAnimationTarget } from './useTrackballFlyTo';
 
 interface TrackballFrameLoopOptions {
@@ -40,6 +49,8 @@ interface TrackballFrameLoopOptions {
   flyVelocityRef: MutableRefObject<THREE.Vector3>;
   keysPressedRef: MutableRefObject<Set<string>>;
   animationTargetRef: MutableRefObject<TrackballAnimationTarget | null>;
+  cameraPathPlaybackRef: MutableRefObject<TrackballCameraPathPlayback | null>;
+  trajectoryPlaybackRef: MutableRefObject<TrackballTrajectoryPlayback | null>;
 }
 
 interface TrackballFrameLoopApi {
@@ -67,6 +78,8 @@ export function useTrackballFrameLoop({
   flyVelocityRef,
   keysPressedRef,
   animationTargetRef,
+  cameraPathPlaybackRef,
+  trajectoryPlaybackRef,
 }: TrackballFrameLoopOptions): TrackballFrameLoopApi {
   const lastFrameTime = useRef(0);
   const quatX = useRef(new THREE.Quaternion());
@@ -163,6 +176,66 @@ export function useTrackballFrameLoop({
       return;
     }
 
+    // The trajectory player owns the view while playing; a paused pose is
+    // applied once and then left free to look around.
+    const trajectory = trajectoryPlaybackRef.current;
+    if (trajectory && (trajectory.clock.status === 'playing' || !trajectory.applied)) {
+      const { position, finished } = normalizeTrajectoryPosition(
+        getTrajectoryRawPosition(trajectory.clock, performance.now()),
+        trajectory.poses.length,
+        trajectory.loop
+      );
+      const pose = interpolateTrajectoryPose(trajectory.poses, position);
+      trajectory.applied = true;
+
+      if (pose) {
+        camera.position.fromArray(pose.position);
+        camera.quaternion.fromArray(pose.quaternion);
+        cameraQuatRef.current.copy(camera.quaternion);
+        targetVecRef.current.fromArray(pose.target);
+        distanceRef.current = pose.distance;
+        targetDistanceRef.current = pose.distance;
+        if (pose.fovY !== null) syncPerspectiveCameraFov(camera, pose.fovY);
+      }
+      angularVelocityRef.current.x = 0;
+      angularVelocityRef.current.y = 0;
+      flyVelocityRef.current.set(0, 0, 0);
+      animationTargetRef.current = null;
+
+      if (finished && trajectory.clock.status === 'playing') {
+        trajectory.onFinish(position);
+      }
+      return;
+    }
+
+    // A playing camera path owns the view until it ends or is stopped.
+    if (cameraPathPlaybackRef.current) {
+      const playback = cameraPathPlaybackRef.current;
+      const { time, finished } = getCameraPathPlaybackTime({
+        duration: playback.timeline.duration,
+        startTime: playback.startTime,
+        loop: playback.loop,
+      }, performance.now());
+      const view = playback.timeline.evaluate(time);
+
+      camera.position.fromArray(view.position);
+      camera.quaternion.fromArray(view.quaternion);
+      cameraQuatRef.current.copy(camera.quaternion);
+      targetVecRef.current.fromArray(view.target);
+      distanceRef.current = view.distance;
+      targetDistanceRef.current = view.distance;
+      angularVelocityRef.current.x = 0;
+      angularVelocityRef.current.y = 0;
+      flyVelocityRef.current.set(0, 0, 0);
+      animationTargetRef.current = null;
+
+      if (finished) {
+        cameraPathPlaybackRef.current = null;
+        playback.onFinish();
+      }
+      return;
+    }
+
     if (animationTargetRef.current) {
       const anim = animationTargetRef.current;
       const now = performance.now();
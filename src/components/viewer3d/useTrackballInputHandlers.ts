@@ -2,6 +2,7 @@ import type { MutableRefObject } from 'react';
 import * as THREE from 'three';
 import type { AutoRotateMode, CameraMode } from '../../store/types';
 import {
+  type MovementKeyMap,
   type TouchGesture,
   type TouchPointer,
 } from './trackballControlsViewModel';
@@ -44,6 +45,7 @@ interface TrackballInputHandlersOptions {
   lastMouseRef: MutableRefObject<XYValue>;
   lastTimeRef: MutableRefObject<number>;
   keysPressedRef: MutableRefObject<Set<string>>;
+  movementKeys: MovementKeyMap;
   wheelHandledRef: MutableRefObject<boolean>;
   animationTargetRef: MutableRefObject<TrackballAnimationTarget | null>;
   touchPointersRef: MutableRefObject<Map<number, TouchPointer>>;
@@ -97,6 +99,7 @@ export function useTrackballInputHandlers({
   lastMouseRef: lastMouse,
   lastTimeRef: lastTime,
   keysPressedRef: keysPressed,
+  movementKeys,
   wheelHandledRef: wheelHandled,
   animationTargetRef: animationTarget,
   touchPointersRef: touchPointers,
@@ -156,6 +159,7 @@ export function useTrackballInputHandlers({
     keysPressedRef: keysPressed,
     animationTargetRef: animationTarget,
     navActions,
+    movementKeys,
   });
 
   useTrackballWheelHandlers({
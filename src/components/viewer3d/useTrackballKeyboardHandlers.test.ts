@@ -1,5 +1,6 @@
 import { act, renderHook } from '@testing-library/react';
 import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getMovementKeyMap, resolveHotkeys } from '../../config/hotkeys';
 import { buildKeyboardEvent } from '../../test/builders';
 import {
   handleTrackballBlur,
@@ -124,4 +125,26 @@ describe('trackball keyboard handlers', () => {
 
     expect(options.keysPressedRef.current.size).toBe(0);
   });
+
+  it('follows rebound movement keys by physical key position', () => {
+    const options = {
+      ...createOptions(),
+      movementKeys: getMovementKeyMap(resolveHotkeys({ moveForward: 'z' })),
+    };
+    const { unmount } = renderHook(() => useTrackballKeyboardHandlers(options));
+
+    act(() => {
+      // The physical Z key, whatever character the layout produces.
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'y', code: 'KeyZ' }));
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', code: 'KeyW' }));
+    });
+    expect([...options.keysPressedRef.current]).toEqual(['w']);
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keyup', { key: 'y', code: 'KeyZ' }));
+    });
+    expect(options.keysPressedRef.current.size).toBe(0);
+
+    unmount();
+  });
 });
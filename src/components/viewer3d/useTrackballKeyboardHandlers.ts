@@ -1,5 +1,5 @@
 import { useEffect, type MutableRefObject } from 'react';
-import { shouldCaptureMovementKey } from './trackballControlsViewModel';
+import { getMovementKey, shouldCaptureMovementKey, type MovementKeyMap } from './trackballControlsViewModel';
 import type { TrackballAnimationTarget } from './useTrackballFlyTo';
 
 interface TrackballKeyboardHandlerOptions {
@@ -9,6 +9,8 @@ interface TrackballKeyboardHandlerOptions {
   navActions: {
     clearNavigationHistory: () => void;
   };
+  /** The user's movement bindings; defaults to the registry's WASD layout. */
+  movementKeys?: MovementKeyMap;
 }
 
 interface TrackballKeyboardEventOptions extends TrackballKeyboardHandlerOptions {
@@ -21,11 +23,12 @@ export function handleTrackballKeyDown({
   keysPressedRef,
   animationTargetRef,
   navActions,
+  movementKeys,
 }: TrackballKeyboardEventOptions): void {
   if (!enabledRef.current) return;
 
-  const key = event.key.toLowerCase();
-  if (!shouldCaptureMovementKey(event)) return;
+  const key = getMovementKey(event, movementKeys);
+  if (key === null || !shouldCaptureMovementKey(event, movementKeys)) return;
 
   event.preventDefault();
   keysPressedRef.current.add(key);
@@ -38,9 +41,11 @@ export function handleTrackballKeyDown({
 
 export function handleTrackballKeyUp(
   event: KeyboardEvent,
-  keysPressedRef: MutableRefObject<Set<string>>
+  keysPressedRef: MutableRefObject<Set<string>>,
+  movementKeys?: MovementKeyMap
 ): void {
-  keysPressedRef.current.delete(event.key.toLowerCase());
+  const key = getMovementKey(event, movementKeys);
+  if (key !== null) keysPressedRef.current.delete(key);
 }
 
 export function handleTrackballBlur(keysPressedRef: MutableRefObject<Set<string>>): void {
@@ -52,6 +57,7 @@ export function useTrackballKeyboardHandlers({
   keysPressedRef,
   animationTargetRef,
   navActions,
+  movementKeys,
 }: TrackballKeyboardHandlerOptions): void {
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
@@ -61,10 +67,11 @@ export function useTrackballKeyboardHandlers({
         keysPressedRef,
         animationTargetRef,
         navActions,
+        movementKeys,
       });
     };
     const onKeyUp = (event: KeyboardEvent) => {
-      handleTrackballKeyUp(event, keysPressedRef);
+      handleTrackballKeyUp(event, keysPressedRef, movementKeys);
     };
     const onBlur = () => {
       handleTrackballBlur(keysPressedRef);
@@ -79,5 +86,5 @@ export function useTrackballKeyboardHandlers({
       window.removeEventListener('keyup', onKeyUp);
       window.removeEventListener('blur', onBlur);
     };
-  }, [animationTargetRef, enabledRef, keysPressedRef, navActions]);
+  }, [animationTargetRef, enabledRef, keysPressedRef, movementKeys, navActions]);
 }
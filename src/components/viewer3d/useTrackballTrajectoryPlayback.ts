@@ -0,0 +1,139 @@
+import { useEffect, useRef, type MutableRefObject } from 'react';
+import type * as THREE from 'three';
+import type { HorizonLockMode, TrajectoryOrder } from '../../store/types';
+import type { Reconstruction } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+import { getColmapCameraFovY } from '../../utils/cameraPathPolicy';
+import { cameraModelHasPinholeIntrinsics } from '../../utils/cameraModelRegistry';
+import {
+  getTrajectoryImageIds,
+  type TrajectoryPlaybackClock,
+  type TrajectoryPose,
+} from '../../utils/trajectoryPlaybackPolicy';
+import { syncPerspectiveCameraFov } from './trackballCameraLifecyclePolicy';
+import { getImageFlyToPose } from './useTrackballFlyTo';
+
+export interface TrackballTrajectoryPlayback {
+  poses: TrajectoryPose[];
+  clock: TrajectoryPlaybackClock;
+  loop: boolean;
+  /** Set once a paused pose has been applied, so the view is free until it changes. */
+  applied: boolean;
+  onFinish: (position: number) => void;
+}
+
+interface TrajectoryPlaybackOptions {
+  reconstruction: Reconstruction | null;
+  transform: Sim3dEuler;
+  horizonLock: HorizonLockMode;
+  worldUpVec: THREE.Vector3;
+  cameraScale: number;
+  undistortionEnabled: boolean;
+  camera: THREE.Camera;
+  cameraFov: number;
+  distanceRef: MutableRefObject<number>;
+  order: TrajectoryOrder;
+  loop: boolean;
+  clock: TrajectoryPlaybackClock;
+  finish: (position: number) => void;
+}
+
+/**
+ * Image poses the frame loop steps through while the trajectory player is
+ * active. Poses come from the fly-to targets of each image, so they honour
+ * the scene transform and horizon lock, with the FOV of each image's camera.
+ * Leaving trajectory mode restores the viewer's own FOV.
+ */
+export function useTrackballTrajectoryPlayback({
+  reconstruction,
+  transform,
+  horizonLock,
+  worldUpVec,
+  cameraScale,
+  undistortionEnabled,
+  camera,
+  cameraFov,
+  distanceRef,
+  order,
+  loop,
+  clock,
+  finish,
+}: TrajectoryPlaybackOptions): MutableRefObject<TrackballTrajectoryPlayback | null> {
+  const playbackRef = useRef<TrackballTrajectoryPlayback | null>(null);
+  const posesRef = useRef<TrajectoryPose[] | null>(null);
+  const { status, position, startTime, speed } = clock;
+  const active = status !== 'stopped';
+
+  // Poses depend on where the camera is for spherical stops, so take them once
+  // when the trajectory starts and again only when the scene changes under it.
+  useEffect(() => {
+    posesRef.current = null;
+  }, [reconstruction, transform, horizonLock, worldUpVec, cameraScale, undistortionEnabled, order]);
+
+  useEffect(() => {
+    if (!active || !reconstruction) {
+      if (playbackRef.current) syncPerspectiveCameraFov(camera, cameraFov);
+      playbackRef.current = null;
+      posesRef.current = null;
+      return;
+    }
+
+    if (!posesRef.current) {
+      const poses: TrajectoryPose[] = [];
+      for (const imageId of getTrajectoryImageIds(reconstruction, order)) {
+        const pose = getImageFlyToPose(
+          reconstruction,
+          imageId,
+          transform,
+          horizonLock,
+          worldUpVec,
+          distanceRef.current,
+          cameraScale,
+          camera.position,
+          camera.quaternion,
+          undistortionEnabled
+        );
+        const image = reconstruction.images.get(imageId);
+        const imageCamera = image ? reconstruction.cameras.get(image.cameraId) : undefined;
+        if (!pose || !imageCamera) continue;
+        poses.push({
+          imageId,
+          position: [pose.position.x, pose.position.y, pose.position.z],
+          quaternion: [pose.quaternion.x, pose.quaternion.y, pose.quaternion.z, pose.quaternion.w],
+          target: [pose.target.x, pose.target.y, pose.target.z],
+          distance: pose.distance,
+          fovY: cameraModelHasPinholeIntrinsics(imageCamera.modelId) ? getColmapCameraFovY(imageCamera) : null,
+        });
+      }
+      posesRef.current = poses;
+    }
+
+    playbackRef.current = {
+      poses: posesRef.current,
+      clock: { status, position, startTime, speed },
+      loop,
+      applied: false,
+      onFinish: finish,
+    };
+  }, [
+    active,
+    camera,
+    cameraFov,
+    cameraScale,
+    distanceRef,
+    finish,
+    horizonLock,
+    loop,
+    order,
+    position,
+    reconstruction,
+    speed,
+    startTime,
+    status,
+    transform,
+    undistortionEnabled,
+    worldUpVec,
+  ]);
+
+  return playbackRef;
+}
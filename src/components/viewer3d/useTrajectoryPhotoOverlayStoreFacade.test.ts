@@ -0,0 +1,22 @@
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useTrajectoryStore } from '../../store';
+import { useTrajectoryPhotoOverlayStoreFacade } from './useTrajectoryPhotoOverlayStoreFacade';
+
+describe('useTrajectoryPhotoOverlayStoreFacade', () => {
+  beforeEach(() => {
+    useTrajectoryStore.setState(useTrajectoryStore.getInitialState(), true);
+  });
+
+  it('exposes the playback clock and photo setting', () => {
+    useTrajectoryStore.setState({ status: 'paused', position: 4, showPhoto: false, loop: true });
+    const { result } = renderHook(() => useTrajectoryPhotoOverlayStoreFacade());
+
+    expect(result.current).toMatchObject({
+      order: 'name',
+      loop: true,
+      showPhoto: false,
+      clock: { status: 'paused', position: 4, speed: 5 },
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { useReconstructionStore, useTrajectoryStore, type TrajectoryState } from '../../store';
+import type { Reconstruction } from '../../types/colmap';
+import type { TrajectoryPlaybackClock } from '../../utils/trajectoryPlaybackPolicy';
+
+export interface TrajectoryPhotoOverlayStoreFacade {
+  reconstruction: Reconstruction | null;
+  order: TrajectoryState['order'];
+  loop: TrajectoryState['loop'];
+  showPhoto: TrajectoryState['showPhoto'];
+  clock: TrajectoryPlaybackClock;
+}
+
+export function useTrajectoryPhotoOverlayStoreFacade(): TrajectoryPhotoOverlayStoreFacade {
+  const reconstruction = useReconstructionStore((s) => s.reconstruction);
+  const order = useTrajectoryStore((s) => s.order);
+  const loop = useTrajectoryStore((s) => s.loop);
+  const showPhoto = useTrajectoryStore((s) => s.showPhoto);
+  const status = useTrajectoryStore((s) => s.status);
+  const position = useTrajectoryStore((s) => s.position);
+  const startTime = useTrajectoryStore((s) => s.startTime);
+  const speed = useTrajectoryStore((s) => s.speed);
+
+  return {
+    reconstruction,
+    order,
+    loop,
+    showPhoto,
+    clock: { status, position, startTime, speed },
+  };
+}
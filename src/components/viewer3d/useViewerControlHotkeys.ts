@@ -1,7 +1,7 @@
 import { useCallback } from 'react';
 import { useHotkeys } from 'react-hotkeys-hook';
 import type { ViewDirection } from '../../store/stores/uiStore';
-import { HOTKEYS } from '../../theme';
+import { useHotkeyBindings } from '../../hooks/useHotkeyBindings';
 import { useViewerControlHotkeyStoreFacade } from './useViewerControlHotkeyStoreFacade';
 
 export const COLMAP_JOKES = [
@@ -55,118 +55,119 @@ export function useViewerControlHotkeys({
     data: { pickingModeActive },
     actions: { addNotification, resetGuide, resetPicking },
   } = useViewerControlHotkeyStoreFacade();
+  const hotkeys = useHotkeyBindings();
 
   useHotkeys(
-    HOTKEYS.resetView.keys,
+    hotkeys.resetView.keys,
     handleResetView,
-    { scopes: HOTKEYS.resetView.scopes },
+    { scopes: hotkeys.resetView.scopes },
     [handleResetView]
   );
 
   useHotkeys(
-    HOTKEYS.viewX.keys,
+    hotkeys.viewX.keys,
     () => setView('x'),
-    { scopes: HOTKEYS.viewX.scopes },
+    { scopes: hotkeys.viewX.scopes },
     [setView]
   );
   useHotkeys(
-    HOTKEYS.viewY.keys,
+    hotkeys.viewY.keys,
     () => setView('y'),
-    { scopes: HOTKEYS.viewY.scopes },
+    { scopes: hotkeys.viewY.scopes },
     [setView]
   );
   useHotkeys(
-    HOTKEYS.viewZ.keys,
+    hotkeys.viewZ.keys,
     () => setView('z'),
-    { scopes: HOTKEYS.viewZ.scopes },
+    { scopes: hotkeys.viewZ.scopes },
     [setView]
   );
   useHotkeys(
-    HOTKEYS.viewNegX.keys,
+    hotkeys.viewNegX.keys,
     () => setView('-x'),
-    { scopes: HOTKEYS.viewNegX.scopes },
+    { scopes: hotkeys.viewNegX.scopes },
     [setView]
   );
   useHotkeys(
-    HOTKEYS.viewNegY.keys,
+    hotkeys.viewNegY.keys,
     () => setView('-y'),
-    { scopes: HOTKEYS.viewNegY.scopes },
+    { scopes: hotkeys.viewNegY.scopes },
     [setView]
   );
   useHotkeys(
-    HOTKEYS.viewNegZ.keys,
+    hotkeys.viewNegZ.keys,
     () => setView('-z'),
-    { scopes: HOTKEYS.viewNegZ.scopes },
+    { scopes: hotkeys.viewNegZ.scopes },
     [setView]
   );
 
   useHotkeys(
-    HOTKEYS.toggleGrid.keys,
+    hotkeys.toggleGrid.keys,
     cycleAxesGrid,
-    { scopes: HOTKEYS.toggleGrid.scopes },
+    { scopes: hotkeys.toggleGrid.scopes },
     [cycleAxesGrid]
   );
 
   useHotkeys(
-    HOTKEYS.toggleCameraMode.keys,
+    hotkeys.toggleCameraMode.keys,
     toggleCameraMode,
-    { scopes: HOTKEYS.toggleCameraMode.scopes },
+    { scopes: hotkeys.toggleCameraMode.scopes },
     [toggleCameraMode]
   );
 
   useHotkeys(
-    HOTKEYS.cycleHorizonLock.keys,
+    hotkeys.cycleHorizonLock.keys,
     cycleHorizonLock,
-    { scopes: HOTKEYS.cycleHorizonLock.scopes },
+    { scopes: hotkeys.cycleHorizonLock.scopes },
     [cycleHorizonLock]
   );
 
   useHotkeys(
-    HOTKEYS.cycleAutoRotate.keys,
+    hotkeys.cycleAutoRotate.keys,
     cycleAutoRotate,
-    { scopes: HOTKEYS.cycleAutoRotate.scopes },
+    { scopes: hotkeys.cycleAutoRotate.scopes },
     [cycleAutoRotate]
   );
 
   useHotkeys(
-    HOTKEYS.toggleBackground.keys,
+    hotkeys.toggleBackground.keys,
     toggleBackground,
-    { scopes: HOTKEYS.toggleBackground.scopes },
+    { scopes: hotkeys.toggleBackground.scopes },
     [toggleBackground]
   );
 
   useHotkeys(
-    HOTKEYS.cyclePointSize.keys,
+    hotkeys.cyclePointSize.keys,
     cycleColorMode,
-    { scopes: HOTKEYS.cyclePointSize.scopes },
+    { scopes: hotkeys.cyclePointSize.scopes },
     [cycleColorMode]
   );
 
   useHotkeys(
-    HOTKEYS.cycleSplatFile.keys,
+    hotkeys.cycleSplatFile.keys,
     cycleSplatFile,
-    { scopes: HOTKEYS.cycleSplatFile.scopes },
+    { scopes: hotkeys.cycleSplatFile.scopes },
     [cycleSplatFile]
   );
 
   useHotkeys(
-    HOTKEYS.cycleCameraDisplay.keys,
+    hotkeys.cycleCameraDisplay.keys,
     cycleCameraDisplayMode,
-    { scopes: HOTKEYS.cycleCameraDisplay.scopes },
+    { scopes: hotkeys.cycleCameraDisplay.scopes },
     [cycleCameraDisplayMode]
   );
 
   useHotkeys(
-    HOTKEYS.cycleMatchesDisplay.keys,
+    hotkeys.cycleMatchesDisplay.keys,
     cycleMatchesDisplayMode,
-    { scopes: HOTKEYS.cycleMatchesDisplay.scopes },
+    { scopes: hotkeys.cycleMatchesDisplay.scopes },
     [cycleMatchesDisplayMode]
   );
 
   useHotkeys(
-    HOTKEYS.toggleUndistortion.keys,
+    hotkeys.toggleUndistortion.keys,
     toggleUndistortion,
-    { scopes: HOTKEYS.toggleUndistortion.scopes },
+    { scopes: hotkeys.toggleUndistortion.scopes },
     [toggleUndistortion]
   );
 
@@ -179,16 +180,16 @@ export function useViewerControlHotkeys({
   }, [addNotification]);
 
   useHotkeys(
-    HOTKEYS.showJoke.keys,
+    hotkeys.showJoke.keys,
     showRandomJoke,
-    { scopes: HOTKEYS.showJoke.scopes, preventDefault: true },
+    { scopes: hotkeys.showJoke.scopes, preventDefault: true },
     [showRandomJoke]
   );
 
   useHotkeys(
-    HOTKEYS.showJokePersistent.keys,
+    hotkeys.showJokePersistent.keys,
     showRandomJokePersistent,
-    { scopes: HOTKEYS.showJokePersistent.scopes, preventDefault: true },
+    { scopes: hotkeys.showJokePersistent.scopes, preventDefault: true },
     [showRandomJokePersistent]
   );
 
@@ -198,9 +199,9 @@ export function useViewerControlHotkeys({
   }, [addNotification, resetGuide]);
 
   useHotkeys(
-    HOTKEYS.resetGuide.keys,
+    hotkeys.resetGuide.keys,
     handleResetGuide,
-    { scopes: HOTKEYS.resetGuide.scopes, preventDefault: true },
+    { scopes: hotkeys.resetGuide.scopes, preventDefault: true },
     [handleResetGuide]
   );
 
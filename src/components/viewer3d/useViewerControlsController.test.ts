@@ -7,6 +7,7 @@ import {
   useReconstructionStore,
   useRigStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useUIStore,
 } from '../../store';
 import { buildFile, buildLoadedFiles, buildReconstruction } from '../../test/builders';
@@ -38,6 +39,7 @@ describe('useViewerControlsController', () => {
     useSplatBackendStore.setState(useSplatBackendStore.getInitialState(), true);
     useUIStore.setState(useUIStore.getInitialState(), true);
     useRigStore.setState(useRigStore.getInitialState(), true);
+    useSplatComparisonStore.getState().reset();
   });
 
   it('defaults camera frustum coloring to PSNR when points switch into Gaussian mode', () => {
@@ -173,6 +175,28 @@ describe('useViewerControlsController', () => {
     expect(useCameraStore.getState().frustumColorMode).toBe('byCamera');
   });
 
+  it('falls back from PSNR delta coloring to PSNR when the comparison splat is cleared', () => {
+    const splatFile = buildFile('scene.spz', 'splat');
+    setWebGpuSplatMetricsReady();
+    useSplatComparisonStore.getState().setSourceLoading('b.spz');
+    useCameraStore.setState({ frustumColorMode: 'splatPsnrDelta' });
+    useReconstructionStore.setState({
+      reconstruction: buildReconstruction(),
+      loadedFiles: buildLoadedFiles({ splatFile }),
+    });
+
+    const { result } = renderHook(() => useViewerControlsController());
+
+    expect(useCameraStore.getState().frustumColorMode).toBe('splatPsnrDelta');
+    expect(result.current.cameraDisplayPanel.splatComparisonActive).toBe(true);
+
+    act(() => {
+      useSplatComparisonStore.getState().reset();
+    });
+
+    expect(useCameraStore.getState().frustumColorMode).toBe('splatPsnr');
+  });
+
   it('disables stale splat metric camera coloring while Spark is active', () => {
     const splatFile = buildFile('scene.spz', 'splat');
     setSparkSplatBackendActive();
@@ -244,7 +244,8 @@ export function useViewerControlsController(): ViewerControlsController {
     if (
       initialSplatCameraColorDefaultFileRef.current === activeSplatFile ||
       camerasNode.colorMode === 'splatPsnr' ||
-      camerasNode.colorMode === 'splatSsim'
+      camerasNode.colorMode === 'splatSsim' ||
+      camerasNode.colorMode === 'splatPsnrDelta'
     ) {
       return;
     }
@@ -262,14 +263,25 @@ export function useViewerControlsController(): ViewerControlsController {
   useEffect(() => {
     if (
       !metrics.splatMetricVisualizationsAvailable &&
-      (camerasNode.colorMode === 'splatPsnr' || camerasNode.colorMode === 'splatSsim')
+      (
+        camerasNode.colorMode === 'splatPsnr' ||
+        camerasNode.colorMode === 'splatSsim' ||
+        camerasNode.colorMode === 'splatPsnrDelta'
+      )
     ) {
       initialSplatCameraColorDefaultFileRef.current = null;
       camerasActions.setColorMode('byCamera');
+      return;
+    }
+
+    // Without a comparison splat there is no delta; keep showing A's own PSNR.
+    if (camerasNode.colorMode === 'splatPsnrDelta' && !metrics.splatComparisonActive) {
+      camerasActions.setColorMode('splatPsnr');
     }
   }, [
     camerasActions,
     camerasNode.colorMode,
+    metrics.splatComparisonActive,
     metrics.splatMetricVisualizationsAvailable,
   ]);
 
@@ -321,6 +333,8 @@ export function useViewerControlsController(): ViewerControlsController {
       autoRotateSpeed: navNode.autoRotateSpeed,
       setAutoRotateSpeed: navActions.setAutoRotateSpeed,
       onToggleCameraMode: toggleCameraMode,
+      onOpenCameraPath: () => modals.setShowCameraPath(true),
+      onOpenTrajectory: () => modals.setShowTrajectory(true),
     },
     backgroundPanel: {
       ...panelState,
@@ -335,6 +349,9 @@ export function useViewerControlsController(): ViewerControlsController {
     transformPanel: {
       ...panelState,
       onOpenFloorModal: () => modals.setShowFloorModal(true),
+      onOpenReferenceAlignment: () => modals.setShowReferenceAlignment(true),
+      onOpenGcp: () => modals.setShowGcp(true),
+      onOpenMeasurements: () => modals.setShowMeasurements(true),
     },
     pointCloudPanel: {
       ...panelState,
@@ -362,6 +379,9 @@ export function useViewerControlsController(): ViewerControlsController {
       selectionAnimationSpeed: selectionNode.animationSpeed,
       setSelectionAnimationSpeed: selectionActions.setAnimationSpeed,
       onCycleColorMode: cycleColorMode,
+      onOpenPointEdit: () => modals.setShowPointEdit(true),
+      onOpenSplatEdit: () => modals.setShowSplatEdit(true),
+      onOpenSplatCompare: () => modals.setShowSplatCompare(true),
     },
     cameraDisplayPanel: {
       ...panelState,
@@ -396,7 +416,9 @@ export function useViewerControlsController(): ViewerControlsController {
       autoFovEnabled: navNode.autoFovEnabled,
       setAutoFovEnabled: navActions.setAutoFovEnabled,
       splatMetricVisualizationsAvailable: metrics.splatMetricVisualizationsAvailable,
+      splatComparisonActive: metrics.splatComparisonActive,
       onCycleCameraDisplayMode: cycleCameraDisplayMode,
+      onOpenReconstructionDiff: () => modals.setShowReconstructionDiff(true),
     },
     matchesPanel: {
       ...panelState,
@@ -405,6 +427,9 @@ export function useViewerControlsController(): ViewerControlsController {
       setShowMatches: matchesActions.setVisible,
       matchesDisplayMode: matchesNode.displayMode,
       setMatchesDisplayMode: matchesActions.setDisplayMode,
+      matchesSource: matchesNode.source,
+      setMatchesSource: matchesActions.setSource,
+      hasMatchesDatabase: ui.hasMatchesDatabase,
       matchesOpacity: matchesNode.opacity,
       setMatchesOpacity: matchesActions.setOpacity,
       matchesColor: matchesNode.color,
@@ -412,6 +437,7 @@ export function useViewerControlsController(): ViewerControlsController {
       matchesLineWidth: matchesNode.lineWidth,
       setMatchesLineWidth: matchesActions.setLineWidth,
       onCycleMatchesDisplayMode: cycleMatchesDisplayMode,
+      onOpenCovisibilityGraph: () => modals.setShowCovisibilityGraph(true),
     },
     selectionHighlightPanel: {
       ...panelState,
@@ -446,12 +472,17 @@ export function useViewerControlsController(): ViewerControlsController {
       frameCount,
       onCycleRigDisplayMode: cycleRigDisplayMode,
     },
-    screenshotPanel: panelState,
+    screenshotPanel: {
+      ...panelState,
+      hasSplatData: splats.hasSplatData,
+      onOpenSplatPathVideo: () => modals.setShowSplatPathVideo(true),
+    },
     sharePanel: panelState,
     exportPanel: {
       ...panelState,
       onOpenDeletionModal: () => modals.setShowDeletionModal(true),
       onOpenConversionModal: () => modals.setShowConversionModal(true),
+      onOpenIntrinsicsReport: () => modals.setShowIntrinsicsReport(true),
     },
     settingsPanel: panelState,
     galleryToggleButton: panelState,
@@ -1,6 +1,7 @@
 import { act, renderHook } from '@testing-library/react';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+  useColmapDatabaseStore,
   useCameraStore,
   useImageMetricsStore,
   usePointCloudStore,
@@ -77,6 +78,7 @@ describe('useViewerControlsStoreFacade', () => {
       touchMode: true,
       backgroundColor: '#123456',
       autoHideButtons: false,
+      hasMatchesDatabase: false,
     });
     expect(result.current.nodes.points).toMatchObject({
       visible: true,
@@ -103,6 +105,15 @@ describe('useViewerControlsStoreFacade', () => {
     expect(result.current.reconstruction).toBe(reconstruction);
   });
 
+  it('reports when a loaded database enables database match sources', () => {
+    useColmapDatabaseStore.setState({ status: 'ready' });
+
+    const { result } = renderHook(() => useViewerControlsStoreFacade());
+
+    expect(result.current.ui.hasMatchesDatabase).toBe(true);
+    useColmapDatabaseStore.setState(useColmapDatabaseStore.getInitialState(), true);
+  });
+
   it('hides PSNR while only Spark CPU metrics are available', () => {
     const activeSplatFile = buildFile('model.spz');
     useReconstructionStore.setState({
@@ -34,9 +34,11 @@ import {
   type SelectionNodeActions,
 } from '../../nodes';
 import {
+  useColmapDatabaseStore,
   useImageMetricsStore,
   useReconstructionStore,
   useSplatBackendStore,
+  useSplatComparisonStore,
   useUIStore,
   type UIState,
 } from '../../store';
@@ -54,6 +56,8 @@ interface ViewerControlsUiFacade {
   setBackgroundColor: UIState['setBackgroundColor'];
   setView: UIState['setView'];
   autoHideButtons: boolean;
+  /** A dropped database.db is loaded, so verified/raw match sources are available. */
+  hasMatchesDatabase: boolean;
 }
 
 interface ViewerControlsNodeFacade {
@@ -85,6 +89,8 @@ interface ViewerControlsMetricsFacade {
   splatPsnrTotalCount: number;
   splatPsnrUnavailableReason: string | null;
   splatMetricVisualizationsAvailable: boolean;
+  /** A comparison splat (B) is selected, so per-image PSNR deltas can be shown. */
+  splatComparisonActive: boolean;
 }
 
 interface ViewerControlsSplatFacade {
@@ -114,7 +120,7 @@ function getSplatPsnrUnavailableReason(
   activeSplatFile: File | undefined,
   metricCapability: SplatMetricCapability
 ): string | null {
-  if (!activeSplatFile || metricCapability.gpuPsnr) {
+  if (!activeSplatFile || metricCapability.gpuPsnr || metricCapability.cpuPsnr) {
     return null;
   }
 
@@ -127,6 +133,7 @@ export function useViewerControlsStoreFacade(): ViewerControlsStoreFacade {
   const setBackgroundColor = useUIStore((s) => s.setBackgroundColor);
   const setView = useUIStore((s) => s.setView);
   const autoHideButtons = useUIStore((s) => s.autoHideElements.buttons);
+  const hasMatchesDatabase = useColmapDatabaseStore((s) => s.status === 'ready');
   const reconstruction = useReconstructionStore((s) => s.reconstruction);
   const hasMetricCapableCamera = useMemo(
     () => reconstructionHasSplatMetricCapableCamera(reconstruction),
@@ -139,6 +146,7 @@ export function useViewerControlsStoreFacade(): ViewerControlsStoreFacade {
   const splatBackendResolution = useSplatBackendStore((s) => s.resolution);
   const splatMetricAvailability = useSplatBackendStore((s) => s.metricAvailability);
   const splatMetricCapability = useSplatBackendStore((s) => s.metricCapability);
+  const splatComparisonActive = useSplatComparisonStore((s) => s.sourceId !== null);
   const activeSplatFile = loadedFiles?.splatFile;
   const splatFiles = loadedFiles?.splatFiles ?? (activeSplatFile ? [activeSplatFile] : EMPTY_SPLAT_FILES);
   const splatFileSources = loadedFiles?.splatFileSources ?? EMPTY_SPLAT_SOURCES;
@@ -182,6 +190,7 @@ export function useViewerControlsStoreFacade(): ViewerControlsStoreFacade {
       setBackgroundColor,
       setView,
       autoHideButtons,
+      hasMatchesDatabase,
     },
     nodes: {
       points: usePointsNode(),
@@ -210,6 +219,7 @@ export function useViewerControlsStoreFacade(): ViewerControlsStoreFacade {
       splatPsnrTotalCount: reconstruction?.images.size ?? 0,
       splatPsnrUnavailableReason,
       splatMetricVisualizationsAvailable,
+      splatComparisonActive,
     },
     splats: {
       activeSplatFile,
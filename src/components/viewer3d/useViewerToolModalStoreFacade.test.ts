@@ -14,6 +14,18 @@ describe('useViewerToolModalStoreFacade', () => {
       showDeletionModal: false,
       showConversionModal: true,
       showAutoHideEditor: false,
+      showCovisibilityGraph: true,
+      showReconstructionDiff: true,
+      showReferenceAlignment: true,
+      showGcp: true,
+      showIntrinsicsReport: true,
+      showPointEdit: true,
+      showSplatEdit: true,
+      showSplatCompare: true,
+      showSplatPathVideo: true,
+      showCameraPath: true,
+      showTrajectory: true,
+      showMeasurements: true,
     });
 
     const { result } = renderHook(() => useViewerToolModalStoreFacade());
@@ -23,6 +35,18 @@ describe('useViewerToolModalStoreFacade', () => {
       showDeletionModal: false,
       showConversionModal: true,
       showAutoHideEditor: false,
+      showCovisibilityGraph: true,
+      showReconstructionDiff: true,
+      showReferenceAlignment: true,
+      showGcp: true,
+      showIntrinsicsReport: true,
+      showPointEdit: true,
+      showSplatEdit: true,
+      showSplatCompare: true,
+      showSplatPathVideo: true,
+      showCameraPath: true,
+      showTrajectory: true,
+      showMeasurements: true,
     });
   });
 
@@ -34,6 +58,18 @@ describe('useViewerToolModalStoreFacade', () => {
       result.current.setShowDeletionModal(true);
       result.current.setShowConversionModal(true);
       result.current.setShowAutoHideEditor(true);
+      result.current.setShowCovisibilityGraph(true);
+      result.current.setShowReconstructionDiff(true);
+      result.current.setShowReferenceAlignment(true);
+      result.current.setShowGcp(true);
+      result.current.setShowIntrinsicsReport(true);
+      result.current.setShowPointEdit(true);
+      result.current.setShowSplatEdit(true);
+      result.current.setShowSplatCompare(true);
+      result.current.setShowSplatPathVideo(true);
+      result.current.setShowCameraPath(true);
+      result.current.setShowTrajectory(true);
+      result.current.setShowMeasurements(true);
     });
 
     expect(useUIStore.getState()).toMatchObject({
@@ -41,6 +77,18 @@ describe('useViewerToolModalStoreFacade', () => {
       showDeletionModal: true,
       showConversionModal: true,
       showAutoHideEditor: true,
+      showCovisibilityGraph: true,
+      showReconstructionDiff: true,
+      showReferenceAlignment: true,
+      showGcp: true,
+      showIntrinsicsReport: true,
+      showPointEdit: true,
+      showSplatEdit: true,
+      showSplatCompare: true,
+      showSplatPathVideo: true,
+      showCameraPath: true,
+      showTrajectory: true,
+      showMeasurements: true,
     });
   });
 });
@@ -10,6 +10,30 @@ export function useViewerToolModalStoreFacade(): ViewerToolModalsProps {
   const setShowConversionModal = useUIStore((s) => s.setShowConversionModal);
   const showAutoHideEditor = useUIStore((s) => s.showAutoHideEditor);
   const setShowAutoHideEditor = useUIStore((s) => s.setShowAutoHideEditor);
+  const showCovisibilityGraph = useUIStore((s) => s.showCovisibilityGraph);
+  const setShowCovisibilityGraph = useUIStore((s) => s.setShowCovisibilityGraph);
+  const showReconstructionDiff = useUIStore((s) => s.showReconstructionDiff);
+  const setShowReconstructionDiff = useUIStore((s) => s.setShowReconstructionDiff);
+  const showReferenceAlignment = useUIStore((s) => s.showReferenceAlignment);
+  const setShowReferenceAlignment = useUIStore((s) => s.setShowReferenceAlignment);
+  const showGcp = useUIStore((s) => s.showGcp);
+  const setShowGcp = useUIStore((s) => s.setShowGcp);
+  const showIntrinsicsReport = useUIStore((s) => s.showIntrinsicsReport);
+  const setShowIntrinsicsReport = useUIStore((s) => s.setShowIntrinsicsReport);
+  const showPointEdit = useUIStore((s) => s.showPointEdit);
+  const setShowPointEdit = useUIStore((s) => s.setShowPointEdit);
+  const showSplatEdit = useUIStore((s) => s.showSplatEdit);
+  const setShowSplatEdit = useUIStore((s) => s.setShowSplatEdit);
+  const showSplatCompare = useUIStore((s) => s.showSplatCompare);
+  const setShowSplatCompare = useUIStore((s) => s.setShowSplatCompare);
+  const showSplatPathVideo = useUIStore((s) => s.showSplatPathVideo);
+  const setShowSplatPathVideo = useUIStore((s) => s.setShowSplatPathVideo);
+  const showCameraPath = useUIStore((s) => s.showCameraPath);
+  const setShowCameraPath = useUIStore((s) => s.setShowCameraPath);
+  const showTrajectory = useUIStore((s) => s.showTrajectory);
+  const setShowTrajectory = useUIStore((s) => s.setShowTrajectory);
+  const showMeasurements = useUIStore((s) => s.showMeasurements);
+  const setShowMeasurements = useUIStore((s) => s.setShowMeasurements);
 
   return {
     showFloorModal,
@@ -20,5 +44,29 @@ export function useViewerToolModalStoreFacade(): ViewerToolModalsProps {
     setShowConversionModal,
     showAutoHideEditor,
     setShowAutoHideEditor,
+    showCovisibilityGraph,
+    setShowCovisibilityGraph,
+    showReconstructionDiff,
+    setShowReconstructionDiff,
+    showReferenceAlignment,
+    setShowReferenceAlignment,
+    showGcp,
+    setShowGcp,
+    showIntrinsicsReport,
+    setShowIntrinsicsReport,
+    showPointEdit,
+    setShowPointEdit,
+    showSplatEdit,
+    setShowSplatEdit,
+    showSplatCompare,
+    setShowSplatCompare,
+    showSplatPathVideo,
+    setShowSplatPathVideo,
+    showCameraPath,
+    setShowCameraPath,
+    showTrajectory,
+    setShowTrajectory,
+    showMeasurements,
+    setShowMeasurements,
   };
 }
@@ -9,8 +9,8 @@ import type { AppConfiguration } from './types';
 
 /**
  * Get the default configuration with all properties set to their defaults.
- * Generated from the property registry.
+ * Generated from the property registry, plus no hotkey rebinds.
  */
 export function getDefaultConfiguration(): AppConfiguration {
-  return generateDefaultConfiguration();
+  return { ...generateDefaultConfiguration(), hotkeys: {} };
 }
@@ -50,4 +50,35 @@ describe('configuration schema validation', () => {
       expect.objectContaining({ path: 'rig.rigLineColor' }),
     ]);
   });
+
+  it('validates camera paths and fills in their defaults', () => {
+    const keyframe = { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5, duration: 2 };
+
+    const result = validateConfiguration({ cameraPath: { keyframes: [keyframe] } });
+    expect(result.config?.cameraPath).toEqual({ loop: false, keyframes: [{ ...keyframe, easing: 'linear' }] });
+
+    const invalid = validateConfiguration({ cameraPath: { keyframes: [{ ...keyframe, easing: 'bounce' }] } });
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toEqual([expect.objectContaining({ path: 'cameraPath.keyframes.0.easing' })]);
+  });
+
+  it('accepts hotkey rebinds keyed by id and rejects empty keys', () => {
+    expect(validateConfiguration({ hotkeys: { resetView: 'x', moveUp: 'e, space' } }).config?.hotkeys).toEqual({
+      resetView: 'x',
+      moveUp: 'e, space',
+    });
+
+    const invalid = validateConfiguration({ hotkeys: { resetView: '' } });
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toEqual([expect.objectContaining({ path: 'hotkeys.resetView' })]);
+  });
+
+  it('validates measurement kinds and their point counts', () => {
+    const distance = { name: 'Door', type: 'distance', points: [[0, 0, 0], [1, 0, 0]] };
+    expect(validateConfiguration({ measurements: [distance] }).config?.measurements).toEqual([distance]);
+
+    const invalid = validateConfiguration({ measurements: [{ ...distance, points: [[0, 0, 0]] }] });
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toEqual([expect.objectContaining({ path: 'measurements.0.points' })]);
+  });
 });
@@ -4,13 +4,49 @@
  * Uses the generated Zod schema from the property registry.
  */
 
+import { z } from 'zod';
+import { CAMERA_PATH_EASINGS, MEASUREMENT_TYPES } from '../../store/types';
+import { hasValidPointCount } from '../../utils/measurementGeometry';
 import { generatedAppConfigurationSchema } from '../registry/generators/schema';
 import type { ConfigValidationResult, PartialAppConfiguration } from './types';
-import type { z } from 'zod';
 
-// Re-export the generated schema
+const vec3Schema = z.tuple([z.number(), z.number(), z.number()]);
+
+// The camera path is a list of views rather than registry properties, so it
+// is validated here next to the generated sections.
+const cameraPathSchema = z.object({
+  loop: z.boolean().default(false),
+  keyframes: z.array(z.object({
+    position: vec3Schema,
+    quaternion: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+    target: vec3Schema,
+    distance: z.number().min(0),
+    duration: z.number().min(0),
+    easing: z.enum(CAMERA_PATH_EASINGS).default('linear'),
+  })),
+});
+
+// Hotkey rebinds are keyed by registry id. Unknown ids and unbindable keys
+// are dropped when the bindings resolve (resolveHotkeys), not rejected here,
+// so a config written by a newer viewer still loads.
+const hotkeysSchema = z.record(z.string(), z.string().min(1));
+
+// Measurements keep their model-space points; the value is recomputed on load.
+const measurementsSchema = z.array(z.object({
+  name: z.string(),
+  type: z.enum(MEASUREMENT_TYPES),
+  points: z.array(vec3Schema),
+}).refine(
+  (measurement) => hasValidPointCount(measurement.type, measurement.points.length),
+  { message: 'Wrong number of points for the measurement type', path: ['points'] }
+));
+
 export const appConfigurationSchema: z.ZodType<PartialAppConfiguration> =
-  generatedAppConfigurationSchema;
+  generatedAppConfigurationSchema.extend({
+    cameraPath: cameraPathSchema.optional(),
+    hotkeys: hotkeysSchema.optional(),
+    measurements: measurementsSchema.optional(),
+  });
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -1,11 +1,63 @@
 /**
  * Store Adapter
  *
- * Re-exports the generated store adapter functions from the property registry.
+ * Wraps the generated store adapter functions from the property registry and
+ * adds the camera path, hotkey rebinds and measurements, which are not
+ * registry properties.
  */
 
-export {
-  extractConfigurationFromStores,
-  applyConfigurationToStores,
-  resetToDefaults,
+import { useCameraPathStore } from '../../store/stores/cameraPathStore';
+import { useHotkeyStore } from '../../store/stores/hotkeyStore';
+import { useMeasurementStore } from '../../store/stores/measurementStore';
+import {
+  getCameraPathKeyframesFromSaved,
+  getSavedCameraPath,
+  isSavedCameraPath,
+} from '../../utils/cameraPathTimelinePolicy';
+import { getSavedMeasurements, isSavedMeasurements } from '../../utils/measurementGeometry';
+import {
+  applyConfigurationToStores as applyRegistryConfigurationToStores,
+  extractConfigurationFromStores as extractRegistryConfigurationFromStores,
 } from '../registry/generators/adapter';
+import type { AppConfiguration, PartialAppConfiguration } from './types';
+
+export { resetToDefaults } from '../registry/generators/adapter';
+
+/**
+ * Extract full configuration from all stores, including the camera path and
+ * measurements when they exist. Hotkey rebinds are always included (empty when there are none)
+ * so loading a saved profile also restores the default bindings.
+ */
+export function extractConfigurationFromStores(): AppConfiguration {
+  const config = extractRegistryConfigurationFromStores();
+  const { keyframes, loop } = useCameraPathStore.getState();
+  if (keyframes.length > 0) {
+    config.cameraPath = getSavedCameraPath(keyframes, loop);
+  }
+  config.hotkeys = { ...useHotkeyStore.getState().overrides };
+  const { measurements } = useMeasurementStore.getState();
+  if (measurements.length > 0) {
+    config.measurements = getSavedMeasurements(measurements);
+  }
+  return config;
+}
+
+/**
+ * Apply partial configuration to all stores. A camera path or measurements in
+ * the config replace the current ones, and a hotkeys section replaces all
+ * rebinds.
+ */
+export function applyConfigurationToStores(config: PartialAppConfiguration): void {
+  applyRegistryConfigurationToStores(config);
+  if (isSavedCameraPath(config.cameraPath)) {
+    useCameraPathStore.getState().loadPath(getCameraPathKeyframesFromSaved(config.cameraPath), config.cameraPath.loop);
+  }
+  if (config.hotkeys) {
+    const overrides = Object.entries(config.hotkeys)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+    useHotkeyStore.getState().setHotkeyOverrides(Object.fromEntries(overrides));
+  }
+  if (isSavedMeasurements(config.measurements)) {
+    useMeasurementStore.getState().loadMeasurements(config.measurements);
+  }
+}
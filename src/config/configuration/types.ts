@@ -17,6 +17,7 @@ import type {
   UndistortionMode,
   SelectionColorMode,
   MatchesDisplayMode,
+  MatchesSource,
   AxesCoordinateSystem,
   AxisLabelMode,
   ScreenshotSize,
@@ -24,6 +25,9 @@ import type {
   RigDisplayMode,
   RigColorMode,
 } from '../../store/types';
+import type { SavedCameraPath } from '../../utils/cameraPathTimelinePolicy';
+import type { SavedMeasurement } from '../../utils/measurementGeometry';
+import type { HotkeyOverrides } from '../hotkeys';
 
 export const CONFIG_VERSION = 1;
 
@@ -77,6 +81,7 @@ export interface UIConfig {
   backgroundColor?: string;
   showMatches?: boolean;
   matchesDisplayMode?: MatchesDisplayMode;
+  matchesSource?: MatchesSource;
   matchesOpacity?: number;
   matchesColor?: string;
   matchesLineWidth?: number;
@@ -124,6 +129,12 @@ export interface AppConfiguration {
   ui: UIConfig;
   export: ExportConfig;
   rig: RigConfig;
+  /** Fly-through keyframes; omitted when no path has been authored. */
+  cameraPath?: SavedCameraPath;
+  /** Hotkey rebinds by hotkey id; a section replaces all current rebinds. */
+  hotkeys?: HotkeyOverrides;
+  /** Measurements in model coordinates; omitted when there are none. */
+  measurements?: SavedMeasurement[];
 }
 
 // Deep partial type for partial configuration imports
@@ -9,7 +9,16 @@ import {
   ESSENTIAL_WASD_IDS,
   ESSENTIAL_WASD_ROW_ID,
   HOTKEYS,
+  findHotkeyConflicts,
+  formatKeyAlternatives,
   formatKeyCombo,
+  getHotkeyComboFromEvent,
+  getHotkeyKeyName,
+  getKeyboardEventKeyName,
+  getMovementKeyMap,
+  normalizeHotkeyCombo,
+  resolveHotkeys,
+  validateHotkeyKeys,
 } from './hotkeys';
 
 function comboScopePairs() {
@@ -123,3 +132,68 @@ describe('ESSENTIAL_HOTKEY_IDS', () => {
     ]);
   });
 });
+
+describe('hotkey overrides', () => {
+  it('names keys the way react-hotkeys-hook matches event.code', () => {
+    expect(getHotkeyKeyName('KeyW')).toBe('w');
+    expect(getHotkeyKeyName('Digit1')).toBe('1');
+    expect(getHotkeyKeyName('ArrowLeft')).toBe('left');
+    expect(getHotkeyKeyName('ShiftRight')).toBe('shift');
+    expect(getHotkeyKeyName(' ')).toBe('space');
+    expect(getKeyboardEventKeyName({ code: 'KeyZ', key: 'w' })).toBe('z');
+    expect(getKeyboardEventKeyName({ code: '', key: 'W' })).toBe('w');
+    expect(normalizeHotkeyCombo('Shift+Ctrl+ArrowLeft')).toBe('ctrl+shift+left');
+  });
+
+  it('captures modifier combos and flags lone modifier presses', () => {
+    const event = { code: 'KeyK', key: 'k', ctrlKey: true, altKey: false, shiftKey: true, metaKey: false };
+    expect(getHotkeyComboFromEvent(event)).toEqual({ combo: 'ctrl+shift+k', modifierOnly: false });
+    expect(getHotkeyComboFromEvent({ ...event, code: 'ShiftLeft', key: 'Shift', ctrlKey: false }))
+      .toEqual({ combo: 'shift', modifierOnly: true });
+  });
+
+  it('rejects unknown, display-only and malformed bindings', () => {
+    expect(validateHotkeyKeys('resetView', 'ctrl+r')).toBeNull();
+    expect(validateHotkeyKeys('moveUp', 'e, space')).toBeNull();
+    expect(validateHotkeyKeys('nope', 'r')).toBe('Unknown hotkey: nope');
+    expect(validateHotkeyKeys('adjustPointSize', 'ctrl+x')).toBe('Adjust point cloud size cannot be remapped');
+    expect(validateHotkeyKeys('resetView', ' , ')).toBe('Reset view needs a key');
+    expect(validateHotkeyKeys('resetView', 'shift')).toBe('Reset view needs a key besides modifiers');
+    expect(validateHotkeyKeys('moveForward', 'shift+z')).toBe('Move forward must be a single key without modifiers');
+  });
+
+  it('resolves valid overrides and keeps defaults for invalid ones', () => {
+    const resolved = resolveHotkeys({ resetView: 'x', adjustPointSize: 'y', missing: 'z', moveForward: 'ctrl+z' });
+    expect(resolved.resetView).toEqual({ ...HOTKEYS.resetView, keys: 'x' });
+    expect(resolved.adjustPointSize.keys).toBe('ctrl+scroll');
+    expect(resolved.moveForward.keys).toBe('w');
+    expect('missing' in resolved).toBe(false);
+    expect(HOTKEYS.resetView.keys).toBe('r');
+    expect(formatKeyAlternatives(HOTKEYS.moveUp.keys)).toBe('e / Space');
+  });
+
+  it('ships a conflict-free registry and reports overlapping rebinds', () => {
+    expect(findHotkeyConflicts()).toEqual([]);
+    // Global hotkeys overlap every scope; viewer and modal never overlap.
+    expect(findHotkeyConflicts(resolveHotkeys({ resetView: 'i' }))).toEqual([
+      { ids: ['showHelp', 'resetView'], combo: 'i' },
+    ]);
+    expect(findHotkeyConflicts(resolveHotkeys({ toggleGrid: 'R' }))).toEqual([
+      { ids: ['resetView', 'toggleGrid'], combo: 'r' },
+    ]);
+    expect(findHotkeyConflicts(resolveHotkeys({ resetView: 'escape' }))).toEqual([]);
+    expect(findHotkeyConflicts(resolveHotkeys({ toggleGrid: 'delete' }))).toEqual([
+      { ids: ['deleteSelectedPoints', 'toggleGrid'], combo: 'delete' },
+    ]);
+  });
+
+  it('maps rebound movement keys onto the keys the trackball tracks', () => {
+    expect(Object.fromEntries(getMovementKeyMap())).toEqual({
+      w: 'w', s: 's', a: 'a', d: 'd', e: 'e', space: 'e', q: 'q', shift: 'shift',
+    });
+    const remapped = getMovementKeyMap(resolveHotkeys({ moveForward: 'z', moveLeft: 'ArrowLeft' }));
+    expect(remapped.get('z')).toBe('w');
+    expect(remapped.get('left')).toBe('a');
+    expect(remapped.has('w')).toBe(false);
+  });
+});
@@ -18,6 +18,12 @@ export interface HotkeyDefinition {
   scopes: HotkeyScope[];
   /** Whether to prevent default browser behavior */
   preventDefault?: boolean;
+  /**
+   * False for display-only entries whose binding lives outside the registry
+   * (modifier+scroll wheel handlers, the gallery's shift+arrow listener), so
+   * the help editor cannot offer a rebind it could not honour.
+   */
+  remappable?: boolean;
 }
 
 export interface HotkeyRegistry {
@@ -58,6 +64,12 @@ export const HOTKEYS: HotkeyRegistry = {
     scopes: ['viewer'],
     preventDefault: true,
   },
+  deleteSelectedPoints: {
+    keys: 'delete',
+    description: 'Delete selected points (Edit Points window)',
+    category: 'general',
+    scopes: ['viewer'],
+  },
 
   // === MODAL ===
   closeModal: {
@@ -240,12 +252,14 @@ export const HOTKEYS: HotkeyRegistry = {
     description: 'Adjust camera frustum size',
     category: 'camera',
     scopes: ['viewer'],
+    remappable: false,
   },
   adjustPointSize: {
     keys: 'ctrl+scroll',
     description: 'Adjust point cloud size',
     category: 'camera',
     scopes: ['viewer'],
+    remappable: false,
   },
   // Fly-to navigation (user request 2026-07-12). The actual binding lives in
   // the gallery keyboard listener (window-level keydown, mounted even while
@@ -256,12 +270,14 @@ export const HOTKEYS: HotkeyRegistry = {
     description: 'Fly to previous image',
     category: 'camera',
     scopes: ['viewer'],
+    remappable: false,
   },
   flyToNextImage: {
     keys: 'shift+right',
     description: 'Fly to next image',
     category: 'camera',
     scopes: ['viewer'],
+    remappable: false,
   },
 } as const;
 
@@ -408,3 +424,203 @@ export function formatKeyCombo(keys: string): string {
     .replace(/^enter$/gi, 'Enter')
     .replace(/^space$/gi, 'Space');
 }
+
+/**
+ * Format every alternative of a key binding ('e, space' -> 'E / Space'), for
+ * the help editor where hiding an alternative would misreport the binding.
+ */
+export function formatKeyAlternatives(keys: string): string {
+  return splitHotkeyCombos(keys).map(formatKeyCombo).join(' / ');
+}
+
+/**
+ * User key bindings by hotkey id, in the registry's key format. Ids missing
+ * here keep their default keys. Persisted by the hotkey store and carried by
+ * profiles and config files (`hotkeys:` section).
+ */
+export type HotkeyOverrides = Record<string, string>;
+
+export interface HotkeyConflict {
+  ids: [string, string];
+  combo: string;
+}
+
+export interface CapturedHotkeyCombo {
+  combo: string;
+  /** True when only a modifier was pressed (commit it on release, not press). */
+  modifierOnly: boolean;
+}
+
+interface KeyboardEventKeyFields {
+  code?: string;
+  key: string;
+}
+
+interface KeyboardEventComboFields extends KeyboardEventKeyFields {
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+const MODIFIER_ORDER = ['ctrl', 'alt', 'shift', 'meta'] as const;
+const MODIFIER_KEY_NAMES = new Set<string>(MODIFIER_ORDER);
+
+// The aliases react-hotkeys-hook applies to both key strings and event.code,
+// folded onto the short names the registry already uses ('left', 'escape').
+const KEY_NAME_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  return: 'enter',
+  arrowleft: 'left',
+  arrowright: 'right',
+  arrowup: 'up',
+  arrowdown: 'down',
+  shiftleft: 'shift',
+  shiftright: 'shift',
+  altleft: 'alt',
+  altright: 'alt',
+  metaleft: 'meta',
+  metaright: 'meta',
+  osleft: 'meta',
+  osright: 'meta',
+  control: 'ctrl',
+  controlleft: 'ctrl',
+  controlright: 'ctrl',
+};
+
+/**
+ * Registry ids driven by the trackball's continuous key tracking rather than
+ * react-hotkeys-hook, mapped to the internal key each one presses.
+ */
+export const MOVEMENT_HOTKEY_KEYS: Readonly<Record<string, string>> = {
+  moveForward: 'w',
+  moveBackward: 's',
+  moveLeft: 'a',
+  moveRight: 'd',
+  moveUp: 'e',
+  moveDown: 'q',
+  speedBoost: 'shift',
+};
+
+/** Split a binding into its alternatives: 'e, space' -> ['e', 'space']. */
+export function splitHotkeyCombos(keys: string): string[] {
+  return keys.split(',').map((combo) => combo.trim()).filter((combo) => combo.length > 0);
+}
+
+/**
+ * Name a key the way react-hotkeys-hook matches it: 'KeyW' and 'w' -> 'w',
+ * 'Digit1' -> '1', 'ArrowLeft' -> 'left', 'ShiftLeft' -> 'shift'.
+ */
+export function getHotkeyKeyName(codeOrKey: string): string {
+  if (codeOrKey === ' ') return 'space';
+  const name = codeOrKey.trim().toLowerCase();
+  return (KEY_NAME_ALIASES[name] ?? name).replace(/^(key|digit|numpad)(?=.)/, '');
+}
+
+/**
+ * Name the physical key of a keyboard event. react-hotkeys-hook matches
+ * event.code, so bindings follow key position; event.key is the fallback for
+ * synthetic events that carry no code.
+ */
+export function getKeyboardEventKeyName(event: KeyboardEventKeyFields): string {
+  return getHotkeyKeyName(event.code ? event.code : event.key);
+}
+
+/** Canonical form of one combo for comparisons: modifiers in a fixed order, key last. */
+export function normalizeHotkeyCombo(combo: string): string {
+  const parts = combo.split('+').map(getHotkeyKeyName).filter((part) => part.length > 0);
+  const modifiers = MODIFIER_ORDER.filter((modifier) => parts.includes(modifier));
+  const keys = parts.filter((part) => !MODIFIER_KEY_NAMES.has(part));
+  return [...modifiers, ...keys].join('+');
+}
+
+/** Build the combo a key press would bind, for the help editor's capture mode. */
+export function getHotkeyComboFromEvent(event: KeyboardEventComboFields): CapturedHotkeyCombo {
+  const keyName = getKeyboardEventKeyName(event);
+  if (MODIFIER_KEY_NAMES.has(keyName)) return { combo: keyName, modifierOnly: true };
+
+  const pressed = { ctrl: event.ctrlKey, alt: event.altKey, shift: event.shiftKey, meta: event.metaKey };
+  const modifiers = MODIFIER_ORDER.filter((modifier) => pressed[modifier]);
+  return { combo: [...modifiers, keyName].join('+'), modifierOnly: false };
+}
+
+/**
+ * Check a candidate binding for one hotkey. Returns a user-facing reason when
+ * the keys cannot be bound, or null when they can. Conflicts with other
+ * hotkeys are checked separately (findHotkeyConflicts).
+ */
+export function validateHotkeyKeys(id: string, keys: string, registry: HotkeyRegistry = HOTKEYS): string | null {
+  if (!Object.hasOwn(registry, id)) return `Unknown hotkey: ${id}`;
+  const definition = registry[id];
+  if (definition.remappable === false) return `${definition.description} cannot be remapped`;
+
+  const combos = splitHotkeyCombos(keys).map(normalizeHotkeyCombo);
+  if (combos.length === 0 || combos.some((combo) => combo.length === 0)) {
+    return `${definition.description} needs a key`;
+  }
+  if (Object.hasOwn(MOVEMENT_HOTKEY_KEYS, id)) {
+    // The trackball tracks single held keys and ignores ctrl/meta chords.
+    const invalid = combos.some((combo) => combo.includes('+') || ['ctrl', 'alt', 'meta'].includes(combo));
+    return invalid ? `${definition.description} must be a single key without modifiers` : null;
+  }
+  if (combos.some((combo) => MODIFIER_KEY_NAMES.has(combo))) {
+    return `${definition.description} needs a key besides modifiers`;
+  }
+  return null;
+}
+
+/**
+ * Apply user overrides to the registry. Overrides for unknown or
+ * non-remappable ids and invalid keys (e.g. from a hand-edited config file)
+ * are skipped, so the default binding stays in effect.
+ */
+export function resolveHotkeys(overrides: HotkeyOverrides, registry: HotkeyRegistry = HOTKEYS): HotkeyRegistry {
+  const resolved: HotkeyRegistry = { ...registry };
+  for (const [id, keys] of Object.entries(overrides)) {
+    if (validateHotkeyKeys(id, keys, registry) !== null) continue;
+    resolved[id] = { ...registry[id], keys };
+  }
+  return resolved;
+}
+
+function scopesOverlap(a: readonly HotkeyScope[], b: readonly HotkeyScope[]): boolean {
+  return a.includes('global') || b.includes('global') || a.some((scope) => b.includes(scope));
+}
+
+/**
+ * Find combos bound to two hotkeys that can be active at once. Global
+ * hotkeys overlap every scope; viewer and modal never overlap because the
+ * hotkey scope manager enables exactly one of them.
+ */
+export function findHotkeyConflicts(registry: HotkeyRegistry = HOTKEYS): HotkeyConflict[] {
+  const bindings = Object.entries(registry).flatMap(([id, definition]) =>
+    splitHotkeyCombos(definition.keys).map((combo) => ({
+      id,
+      combo: normalizeHotkeyCombo(combo),
+      scopes: definition.scopes,
+    }))
+  );
+
+  const conflicts: HotkeyConflict[] = [];
+  for (let a = 0; a < bindings.length; a++) {
+    for (let b = a + 1; b < bindings.length; b++) {
+      const first = bindings[a];
+      const second = bindings[b];
+      if (first.id !== second.id && first.combo === second.combo && scopesOverlap(first.scopes, second.scopes)) {
+        conflicts.push({ ids: [first.id, second.id], combo: first.combo });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/** Map each bound movement key name to the internal key the trackball tracks. */
+export function getMovementKeyMap(registry: HotkeyRegistry = HOTKEYS): ReadonlyMap<string, string> {
+  const map = new Map<string, string>();
+  for (const [id, internalKey] of Object.entries(MOVEMENT_HOTKEY_KEYS)) {
+    for (const combo of splitHotkeyCombos(registry[id]?.keys ?? '')) {
+      map.set(getHotkeyKeyName(combo), internalKey);
+    }
+  }
+  return map;
+}
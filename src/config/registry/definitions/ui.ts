@@ -4,6 +4,7 @@
 import { defineSection } from '../types';
 import {
   MATCHES_DISPLAY_MODES,
+  MATCHES_SOURCES,
   AXES_COORDINATE_SYSTEMS,
   AXIS_LABEL_MODES,
 } from '../../../store/types';
@@ -62,6 +63,14 @@ export const uiSection = defineSection({
       persist: true,
       description: 'static | blink',
     },
+    {
+      key: 'matchesSource',
+      type: 'enum',
+      enumValues: MATCHES_SOURCES,
+      default: 'triangulated',
+      persist: true,
+      description: 'triangulated | verified | raw (verified/raw need a loaded database.db)',
+    },
     {
       key: 'matchesOpacity',
       type: 'number',
@@ -201,7 +210,7 @@ export const uiSection = defineSection({
       enumValues: GALLERY_SORT_FIELDS,
       default: 'name',
       persist: true,
-      description: 'name | imageId | avgError | covisibleCount | numPoints3D | numPoints2D | splatPsnr | splatSsim',
+      description: 'name | imageId | avgError | covisibleCount | numPoints3D | numPoints2D | splatPsnr | splatSsim | splatPsnrDelta',
     },
     {
       key: 'gallerySortDirection',
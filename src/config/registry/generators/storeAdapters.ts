@@ -10,6 +10,7 @@ import {
   FRUSTUM_COLOR_MODES,
   HORIZON_LOCK_MODES,
   MATCHES_DISPLAY_MODES,
+  MATCHES_SOURCES,
   RIG_COLOR_MODES,
   RIG_DISPLAY_MODES,
   SCREENSHOT_FORMATS,
@@ -247,6 +248,7 @@ const uiAdapter: StoreConfigAdapter = {
       case 'backgroundColor': return state.backgroundColor;
       case 'showMatches': return state.showMatches;
       case 'matchesDisplayMode': return state.matchesDisplayMode;
+      case 'matchesSource': return state.matchesSource;
       case 'matchesOpacity': return state.matchesOpacity;
       case 'matchesColor': return state.matchesColor;
       case 'matchesLineWidth': return state.matchesLineWidth;
@@ -288,6 +290,9 @@ const uiAdapter: StoreConfigAdapter = {
       case 'matchesDisplayMode':
         state.setMatchesDisplayMode(requireEnum(storeKey, value, MATCHES_DISPLAY_MODES));
         return;
+      case 'matchesSource':
+        state.setMatchesSource(requireEnum(storeKey, value, MATCHES_SOURCES));
+        return;
       case 'matchesOpacity':
         state.setMatchesOpacity(requireNumber(storeKey, value));
         return;
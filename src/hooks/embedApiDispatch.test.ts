@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildImage, buildReconstruction } from '../test/builders';
+import { dispatchEmbedApiRequest, sendEmbedApiResponse, type EmbedApiDispatchDeps, type EmbedApiNodeActions } from './embedApiDispatch';
+import { buildEmbedApiResult, type EmbedApiEvent, type EmbedApiMethod } from './embedApiProtocol';
+
+const view = { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5 };
+
+function createDeps(overrides: Partial<EmbedApiDispatchDeps> = {}) {
+  const points = { setVisible: vi.fn(), toggleVisible: vi.fn() };
+  const navigation = { popNavigationHistory: vi.fn(() => ({ toImageId: 2 })) };
+  const deps: EmbedApiDispatchDeps = {
+    getReconstruction: () => buildReconstruction({ images: [buildImage({ imageId: 1 }), buildImage({ imageId: 2 })] }),
+    getSelectedImageId: () => 2,
+    getViewState: () => null,
+    setSelectedImageId: vi.fn(),
+    flyToImage: vi.fn(),
+    flyToState: vi.fn(),
+    loadFromUrl: vi.fn(async () => true),
+    loadFromManifest: vi.fn(async () => true),
+    getScreenshotBlob: () => null,
+    nodes: { points, navigation } as unknown as EmbedApiNodeActions,
+    ...overrides,
+  };
+  return { deps, points, navigation };
+}
+
+function dispatch(
+  method: EmbedApiMethod,
+  params: Record<string, unknown>,
+  deps: EmbedApiDispatchDeps,
+  subscriptions = new Set<EmbedApiEvent>()
+) {
+  return dispatchEmbedApiRequest({ id: 7, method, params }, deps, subscriptions);
+}
+
+describe('dispatchEmbedApiRequest', () => {
+  it('reports the loaded reconstruction, selection and view', async () => {
+    const { deps } = createDeps();
+    await expect(dispatch('getState', {}, deps)).resolves.toMatchObject({
+      id: 7,
+      ok: true,
+      result: { version: 1, loaded: true, imageCount: 2, selectedImageId: 2, view: null },
+    });
+  });
+
+  it('loads a manifest URL or a validated inline manifest', async () => {
+    const { deps } = createDeps();
+    const manifest = {
+      version: 1,
+      baseUrl: 'https://example.com/scene/',
+      files: { cameras: 'cameras.bin', images: 'images.bin', points3D: 'points3D.bin' },
+    };
+
+    await expect(dispatch('loadManifest', { url: 'https://example.com/manifest.json' }, deps))
+      .resolves.toMatchObject({ ok: true, result: { loaded: true } });
+    expect(deps.loadFromUrl).toHaveBeenCalledWith('https://example.com/manifest.json');
+
+    await expect(dispatch('loadManifest', { manifest }, deps)).resolves.toMatchObject({ ok: true });
+    expect(deps.loadFromManifest).toHaveBeenCalledWith(manifest);
+
+    const invalid = await dispatch('loadManifest', { manifest: { version: 1 } }, deps);
+    expect(invalid).toMatchObject({ ok: false });
+    expect(invalid.ok === false && invalid.error).toMatch(/^Invalid manifest: /);
+    await expect(dispatch('loadManifest', {}, deps)).resolves.toMatchObject({
+      ok: false,
+      error: 'loadManifest needs a url or a manifest',
+    });
+  });
+
+  it('flies to a valid view state', async () => {
+    const { deps } = createDeps();
+    await expect(dispatch('setView', { view }, deps)).resolves.toMatchObject({ ok: true });
+    expect(deps.flyToState).toHaveBeenCalledWith(view);
+    await expect(dispatch('setView', { view: { ...view, distance: -1 } }, deps)).resolves.toMatchObject({ ok: false });
+  });
+
+  it('selects and flies to images that exist', async () => {
+    const { deps } = createDeps();
+    await dispatch('selectImage', { imageId: 1 }, deps);
+    await dispatch('selectImage', { imageId: null }, deps);
+    await dispatch('flyToImage', { imageId: 2 }, deps);
+
+    expect(deps.setSelectedImageId).toHaveBeenNthCalledWith(1, 1);
+    expect(deps.setSelectedImageId).toHaveBeenNthCalledWith(2, null);
+    expect(deps.flyToImage).toHaveBeenCalledWith(2);
+    await expect(dispatch('flyToImage', { imageId: 9 }, deps)).resolves.toMatchObject({
+      ok: false,
+      error: 'Unknown image: 9',
+    });
+    await expect(dispatch('selectImage', { imageId: 1 }, createDeps({ getReconstruction: () => null }).deps))
+      .resolves.toMatchObject({ ok: false, error: 'No reconstruction is loaded' });
+  });
+
+  it('calls node actions and returns their results', async () => {
+    const { deps, points, navigation } = createDeps();
+
+    await expect(dispatch('nodeAction', { node: 'points', action: 'setVisible', args: [false] }, deps))
+      .resolves.toMatchObject({ ok: true, result: null });
+    expect(points.setVisible).toHaveBeenCalledWith(false);
+    await expect(dispatch('nodeAction', { node: 'navigation', action: 'popNavigationHistory' }, deps))
+      .resolves.toMatchObject({ ok: true, result: { toImageId: 2 } });
+    expect(navigation.popNavigationHistory).toHaveBeenCalled();
+
+    const uncloneable = { toImageId: 2, undo: () => undefined };
+    navigation.popNavigationHistory.mockReturnValueOnce(uncloneable);
+    await expect(dispatch('nodeAction', { node: 'navigation', action: 'popNavigationHistory' }, deps))
+      .resolves.toMatchObject({ ok: true, result: null });
+
+    await expect(dispatch('nodeAction', { node: 'lights', action: 'setVisible' }, deps))
+      .resolves.toMatchObject({ ok: false, error: 'Unknown node: lights' });
+    await expect(dispatch('nodeAction', { node: 'points', action: 'toString' }, deps))
+      .resolves.toMatchObject({ ok: false, error: 'Unknown action for points: toString' });
+  });
+
+  it('returns screenshots as blobs once the renderer can capture them', async () => {
+    const blob = new Blob(['png'], { type: 'image/png' });
+    await expect(dispatch('screenshot', {}, createDeps().deps)).resolves.toMatchObject({ ok: false });
+    await expect(dispatch('screenshot', {}, createDeps({ getScreenshotBlob: () => async () => blob }).deps))
+      .resolves.toMatchObject({ ok: true, result: blob });
+  });
+
+  it('tracks event subscriptions', async () => {
+    const { deps } = createDeps();
+    const subscriptions = new Set<EmbedApiEvent>();
+
+    await expect(dispatch('subscribe', {}, deps, subscriptions)).resolves.toMatchObject({
+      result: { events: ['selectionChange', 'viewChange'] },
+    });
+    await expect(dispatch('unsubscribe', { events: ['viewChange'] }, deps, subscriptions)).resolves.toMatchObject({
+      result: { events: ['selectionChange'] },
+    });
+    await expect(dispatch('subscribe', { events: ['click'] }, deps, subscriptions)).resolves.toMatchObject({ ok: false });
+  });
+
+  it('turns exceptions into error responses', async () => {
+    const { deps } = createDeps({ loadFromUrl: vi.fn(async () => { throw new Error('offline'); }) });
+    await expect(dispatch('loadManifest', { url: 'https://example.com/m.json' }, deps)).resolves.toMatchObject({
+      id: 7,
+      ok: false,
+      error: 'offline',
+    });
+  });
+});
+
+describe('sendEmbedApiResponse', () => {
+  it('answers with an error when the response cannot be posted', () => {
+    const post = vi.fn()
+      .mockImplementationOnce(() => {
+        throw new Error('could not be cloned');
+      });
+
+    sendEmbedApiResponse(post, buildEmbedApiResult(7, null));
+
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post.mock.calls[1][0]).toMatchObject({
+      id: 7,
+      ok: false,
+      error: 'Response could not be sent: could not be cloned',
+    });
+  });
+});
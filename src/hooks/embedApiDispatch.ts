@@ -0,0 +1,216 @@
+import type {
+  AxesNodeActions,
+  CamerasNodeActions,
+  GizmoNodeActions,
+  GridNodeActions,
+  MatchesNodeActions,
+  NavigationNodeActions,
+  PointsNodeActions,
+  RigNodeActions,
+  SelectionNodeActions,
+} from '../nodes';
+import type { ScreenshotCallback } from '../store/stores/exportStore';
+import type { CameraViewState } from '../store/types';
+import type { Reconstruction } from '../types/colmap';
+import type { ColmapManifest } from '../types/manifest';
+import { validateColmapManifest } from '../utils/manifestValidation';
+import {
+  buildEmbedApiError,
+  buildEmbedApiResult,
+  EMBED_API_EVENTS,
+  EMBED_API_VERSION,
+  isEmbedApiEvent,
+  isEmbedApiNode,
+  parseEmbedApiViewState,
+  type EmbedApiEvent,
+  type EmbedApiNode,
+  type EmbedApiRequest,
+  type EmbedApiResponse,
+} from './embedApiProtocol';
+
+export interface EmbedApiNodeActions {
+  points: PointsNodeActions;
+  cameras: CamerasNodeActions;
+  selection: SelectionNodeActions;
+  navigation: NavigationNodeActions;
+  matches: MatchesNodeActions;
+  rig: RigNodeActions;
+  axes: AxesNodeActions;
+  grid: GridNodeActions;
+  gizmo: GizmoNodeActions;
+}
+
+export interface EmbedApiDispatchDeps {
+  getReconstruction: () => Pick<Reconstruction, 'images'> | null;
+  getSelectedImageId: () => number | null;
+  getViewState: () => CameraViewState | null;
+  setSelectedImageId: (id: number | null) => void;
+  flyToImage: (id: number) => void;
+  flyToState: (state: CameraViewState) => void;
+  loadFromUrl: (url: string) => Promise<boolean>;
+  loadFromManifest: (manifest: ColmapManifest) => Promise<boolean>;
+  getScreenshotBlob: () => ScreenshotCallback | null;
+  nodes: EmbedApiNodeActions;
+}
+
+type EmbedApiOutcome = { ok: true; result: unknown } | { ok: false; error: string };
+
+const success = (result: unknown = null): EmbedApiOutcome => ({ ok: true, result });
+const failure = (error: string): EmbedApiOutcome => ({ ok: false, error });
+
+function readImageId(
+  params: Record<string, unknown>,
+  deps: EmbedApiDispatchDeps
+): { imageId: number } | { error: string } {
+  const { imageId } = params;
+  if (typeof imageId !== 'number' || !Number.isSafeInteger(imageId)) {
+    return { error: 'imageId must be an integer' };
+  }
+  const reconstruction = deps.getReconstruction();
+  if (!reconstruction) return { error: 'No reconstruction is loaded' };
+  if (!reconstruction.images.has(imageId)) return { error: `Unknown image: ${imageId}` };
+  return { imageId };
+}
+
+function readEvents(params: Record<string, unknown>): EmbedApiEvent[] | null {
+  const { events } = params;
+  if (events === undefined) return [...EMBED_API_EVENTS];
+  if (!Array.isArray(events) || !events.every(isEmbedApiEvent)) return null;
+  return events;
+}
+
+function getState(deps: EmbedApiDispatchDeps) {
+  const reconstruction = deps.getReconstruction();
+  return {
+    version: EMBED_API_VERSION,
+    loaded: reconstruction !== null,
+    imageCount: reconstruction?.images.size ?? 0,
+    selectedImageId: deps.getSelectedImageId(),
+    view: deps.getViewState(),
+  };
+}
+
+async function loadManifest(params: Record<string, unknown>, deps: EmbedApiDispatchDeps): Promise<EmbedApiOutcome> {
+  if (typeof params.url === 'string' && params.url.length > 0) {
+    return success({ loaded: await deps.loadFromUrl(params.url) });
+  }
+  if (params.manifest === undefined) return failure('loadManifest needs a url or a manifest');
+
+  const validation = validateColmapManifest(params.manifest);
+  if (!validation.success) return failure(`Invalid manifest: ${validation.details}`);
+  return success({ loaded: await deps.loadFromManifest(validation.manifest) });
+}
+
+/** Node actions may return live objects (functions, scene objects) that postMessage cannot clone. */
+function toCloneableResult(value: unknown): unknown {
+  try {
+    return structuredClone(value ?? null);
+  } catch {
+    return null;
+  }
+}
+
+function runNodeAction(params: Record<string, unknown>, deps: EmbedApiDispatchDeps): EmbedApiOutcome {
+  const { node, action, args = [] } = params;
+  if (!isEmbedApiNode(node)) return failure(`Unknown node: ${String(node)}`);
+  if (!Array.isArray(args)) return failure('args must be an array');
+
+  const actions = deps.nodes[node as EmbedApiNode] as unknown as Record<string, unknown>;
+  const handler = typeof action === 'string' && Object.hasOwn(actions, action) ? actions[action] : undefined;
+  if (typeof handler !== 'function') return failure(`Unknown action for ${node}: ${String(action)}`);
+  return success(toCloneableResult((handler as (...handlerArgs: unknown[]) => unknown)(...args)));
+}
+
+async function runRequest(
+  { method, params }: EmbedApiRequest,
+  deps: EmbedApiDispatchDeps,
+  subscriptions: Set<EmbedApiEvent>
+): Promise<EmbedApiOutcome> {
+  switch (method) {
+    case 'getState':
+      return success(getState(deps));
+
+    case 'loadManifest':
+      return loadManifest(params, deps);
+
+    case 'setView': {
+      const view = parseEmbedApiViewState(params.view);
+      if (!view) return failure('view must have position, quaternion, target and a positive distance');
+      deps.flyToState(view);
+      return success();
+    }
+
+    case 'selectImage': {
+      if (params.imageId === null) {
+        deps.setSelectedImageId(null);
+        return success();
+      }
+      const read = readImageId(params, deps);
+      if ('error' in read) return failure(read.error);
+      deps.setSelectedImageId(read.imageId);
+      return success();
+    }
+
+    case 'flyToImage': {
+      const read = readImageId(params, deps);
+      if ('error' in read) return failure(read.error);
+      deps.flyToImage(read.imageId);
+      return success();
+    }
+
+    case 'nodeAction':
+      return runNodeAction(params, deps);
+
+    case 'screenshot': {
+      const capture = deps.getScreenshotBlob();
+      if (!capture) return failure('The viewer is not ready to take a screenshot');
+      const blob = await capture();
+      return blob ? success(blob) : failure('Screenshot capture failed');
+    }
+
+    case 'subscribe':
+    case 'unsubscribe': {
+      const events = readEvents(params);
+      if (!events) return failure(`events must be a list of: ${EMBED_API_EVENTS.join(', ')}`);
+      for (const event of events) {
+        if (method === 'subscribe') subscriptions.add(event);
+        else subscriptions.delete(event);
+      }
+      return success({ events: [...subscriptions] });
+    }
+  }
+}
+
+/**
+ * Run one host request against the viewer and build its response. Failures,
+ * including exceptions thrown by the viewer, become error responses so the
+ * host's pending promise always settles.
+ */
+export async function dispatchEmbedApiRequest(
+  request: EmbedApiRequest,
+  deps: EmbedApiDispatchDeps,
+  subscriptions: Set<EmbedApiEvent>
+): Promise<EmbedApiResponse> {
+  try {
+    const outcome = await runRequest(request, deps, subscriptions);
+    return outcome.ok
+      ? buildEmbedApiResult(request.id, outcome.result)
+      : buildEmbedApiError(request.id, outcome.error);
+  } catch (err) {
+    return buildEmbedApiError(request.id, err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Post a response to the host. If the result cannot be cloned into the
+ * message, the host gets an error response for the request instead of
+ * waiting forever.
+ */
+export function sendEmbedApiResponse(post: (response: EmbedApiResponse) => void, response: EmbedApiResponse): void {
+  try {
+    post(response);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    post(buildEmbedApiError(response.id, `Response could not be sent: ${message}`));
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildEmbedApiError,
+  buildEmbedApiEvent,
+  buildEmbedApiResult,
+  EMBED_API_CHANNEL,
+  EMBED_API_VERSION,
+  parseEmbedApiRequest,
+  parseEmbedApiViewState,
+} from './embedApiProtocol';
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  channel: EMBED_API_CHANNEL,
+  version: EMBED_API_VERSION,
+  type: 'request',
+  id: 1,
+  method: 'getState',
+  ...overrides,
+});
+
+describe('parseEmbedApiRequest', () => {
+  it('ignores messages that are not requests on the viewer channel', () => {
+    expect(parseEmbedApiRequest('hello')).toEqual({ kind: 'ignored' });
+    expect(parseEmbedApiRequest({ type: 'request', method: 'getState' })).toEqual({ kind: 'ignored' });
+    expect(parseEmbedApiRequest(request({ type: 'event' }))).toEqual({ kind: 'ignored' });
+  });
+
+  it('accepts well-formed requests and defaults params to an empty object', () => {
+    expect(parseEmbedApiRequest(request({ id: 'a', method: 'selectImage', params: { imageId: 3 } }))).toEqual({
+      kind: 'request',
+      request: { id: 'a', method: 'selectImage', params: { imageId: 3 } },
+    });
+    expect(parseEmbedApiRequest(request())).toEqual({
+      kind: 'request',
+      request: { id: 1, method: 'getState', params: {} },
+    });
+  });
+
+  it('rejects malformed requests with an error to send back', () => {
+    expect(parseEmbedApiRequest(request({ id: undefined }))).toMatchObject({ kind: 'invalid', id: null });
+    expect(parseEmbedApiRequest(request({ version: undefined }))).toMatchObject({ kind: 'invalid', id: 1 });
+    expect(parseEmbedApiRequest(request({ version: EMBED_API_VERSION + 1 }))).toEqual({
+      kind: 'invalid',
+      id: 1,
+      error: `Unsupported protocol version ${EMBED_API_VERSION + 1}; this viewer speaks version ${EMBED_API_VERSION}`,
+    });
+    expect(parseEmbedApiRequest(request({ method: 'eval' }))).toEqual({
+      kind: 'invalid',
+      id: 1,
+      error: 'Unknown method: eval',
+    });
+    expect(parseEmbedApiRequest(request({ params: [1] }))).toMatchObject({ kind: 'invalid' });
+  });
+});
+
+describe('embed API messages', () => {
+  it('tags responses and events with the channel and version', () => {
+    expect(buildEmbedApiResult(2, { ok: 1 })).toEqual({
+      channel: EMBED_API_CHANNEL,
+      version: EMBED_API_VERSION,
+      type: 'response',
+      id: 2,
+      ok: true,
+      result: { ok: 1 },
+    });
+    expect(buildEmbedApiError(null, 'bad')).toMatchObject({ type: 'response', id: null, ok: false, error: 'bad' });
+    expect(buildEmbedApiEvent('selectionChange', { imageId: 4 })).toEqual({
+      channel: EMBED_API_CHANNEL,
+      version: EMBED_API_VERSION,
+      type: 'event',
+      event: 'selectionChange',
+      data: { imageId: 4 },
+    });
+  });
+});
+
+describe('parseEmbedApiViewState', () => {
+  const view = { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5 };
+
+  it('copies a complete view state', () => {
+    const parsed = parseEmbedApiViewState(view);
+    expect(parsed).toEqual(view);
+    expect(parsed?.position).not.toBe(view.position);
+  });
+
+  it('rejects missing, mis-sized and non-finite fields', () => {
+    expect(parseEmbedApiViewState(null)).toBeNull();
+    expect(parseEmbedApiViewState({ ...view, position: [0, 0] })).toBeNull();
+    expect(parseEmbedApiViewState({ ...view, quaternion: [0, 0, Number.NaN, 1] })).toBeNull();
+    expect(parseEmbedApiViewState({ ...view, distance: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import type { CameraViewState } from '../store/types';
+
+/**
+ * Versioned window.postMessage protocol for hosts embedding the viewer in an
+ * iframe. Every message carries `channel` and `version`; messages without the
+ * channel are ignored so other scripts on the page can share the window.
+ * See docs/embed-api.md.
+ */
+export const EMBED_API_CHANNEL = 'colmap-view';
+export const EMBED_API_VERSION = 1;
+
+export const EMBED_API_METHODS = [
+  'getState',
+  'loadManifest',
+  'setView',
+  'selectImage',
+  'flyToImage',
+  'nodeAction',
+  'screenshot',
+  'subscribe',
+  'unsubscribe',
+] as const;
+export type EmbedApiMethod = (typeof EMBED_API_METHODS)[number];
+
+export const EMBED_API_EVENTS = ['selectionChange', 'viewChange'] as const;
+export type EmbedApiEvent = (typeof EMBED_API_EVENTS)[number];
+
+/** Scene nodes whose actions (`usePointsNodeActions`, …) the host may call. */
+export const EMBED_API_NODES = [
+  'points',
+  'cameras',
+  'selection',
+  'navigation',
+  'matches',
+  'rig',
+  'axes',
+  'grid',
+  'gizmo',
+] as const;
+export type EmbedApiNode = (typeof EMBED_API_NODES)[number];
+
+export type EmbedApiRequestId = string | number;
+
+export interface EmbedApiRequest {
+  id: EmbedApiRequestId;
+  method: EmbedApiMethod;
+  params: Record<string, unknown>;
+}
+
+export type EmbedApiResponse =
+  | { channel: typeof EMBED_API_CHANNEL; version: number; type: 'response'; id: EmbedApiRequestId; ok: true; result: unknown }
+  | { channel: typeof EMBED_API_CHANNEL; version: number; type: 'response'; id: EmbedApiRequestId | null; ok: false; error: string };
+
+export interface EmbedApiEventMessage {
+  channel: typeof EMBED_API_CHANNEL;
+  version: number;
+  type: 'event';
+  event: EmbedApiEvent | 'ready';
+  data: unknown;
+}
+
+export type EmbedApiParseResult =
+  | { kind: 'ignored' }
+  | { kind: 'invalid'; id: EmbedApiRequestId | null; error: string }
+  | { kind: 'request'; request: EmbedApiRequest };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRequestId(value: unknown): value is EmbedApiRequestId {
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isEmbedApiMethod(value: unknown): value is EmbedApiMethod {
+  return EMBED_API_METHODS.includes(value as EmbedApiMethod);
+}
+
+export function isEmbedApiEvent(value: unknown): value is EmbedApiEvent {
+  return EMBED_API_EVENTS.includes(value as EmbedApiEvent);
+}
+
+export function isEmbedApiNode(value: unknown): value is EmbedApiNode {
+  return EMBED_API_NODES.includes(value as EmbedApiNode);
+}
+
+/**
+ * Classify an incoming message. Foreign messages are ignored; malformed
+ * requests on our channel are invalid and answered with an error.
+ */
+export function parseEmbedApiRequest(data: unknown): EmbedApiParseResult {
+  if (!isRecord(data) || data.channel !== EMBED_API_CHANNEL || data.type !== 'request') {
+    return { kind: 'ignored' };
+  }
+
+  const id = isRequestId(data.id) ? data.id : null;
+  if (id === null) return { kind: 'invalid', id, error: 'Request id must be a string or number' };
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { kind: 'invalid', id, error: 'Request version must be a positive integer' };
+  }
+  if (data.version > EMBED_API_VERSION) {
+    return {
+      kind: 'invalid',
+      id,
+      error: `Unsupported protocol version ${data.version}; this viewer speaks version ${EMBED_API_VERSION}`,
+    };
+  }
+  if (!isEmbedApiMethod(data.method)) {
+    return { kind: 'invalid', id, error: `Unknown method: ${String(data.method)}` };
+  }
+  if (data.params !== undefined && !isRecord(data.params)) {
+    return { kind: 'invalid', id, error: 'Request params must be an object' };
+  }
+
+  return { kind: 'request', request: { id, method: data.method, params: data.params ?? {} } };
+}
+
+export function buildEmbedApiResult(id: EmbedApiRequestId, result: unknown): EmbedApiResponse {
+  return { channel: EMBED_API_CHANNEL, version: EMBED_API_VERSION, type: 'response', id, ok: true, result };
+}
+
+export function buildEmbedApiError(id: EmbedApiRequestId | null, error: string): EmbedApiResponse {
+  return { channel: EMBED_API_CHANNEL, version: EMBED_API_VERSION, type: 'response', id, ok: false, error };
+}
+
+export function buildEmbedApiEvent(event: EmbedApiEventMessage['event'], data: unknown): EmbedApiEventMessage {
+  return { channel: EMBED_API_CHANNEL, version: EMBED_API_VERSION, type: 'event', event, data };
+}
+
+function isFiniteTuple(value: unknown, length: number): boolean {
+  return Array.isArray(value)
+    && value.length === length
+    && value.every((component) => typeof component === 'number' && Number.isFinite(component));
+}
+
+/** A camera view state from untrusted input, or null when any field is missing or not finite. */
+export function parseEmbedApiViewState(value: unknown): CameraViewState | null {
+  if (!isRecord(value)) return null;
+  const { position, quaternion, target, distance } = value;
+  if (!isFiniteTuple(position, 3) || !isFiniteTuple(quaternion, 4) || !isFiniteTuple(target, 3)) return null;
+  if (typeof distance !== 'number' || !Number.isFinite(distance) || distance <= 0) return null;
+  return {
+    position: [...(position as number[])] as CameraViewState['position'],
+    quaternion: [...(quaternion as number[])] as CameraViewState['quaternion'],
+    target: [...(target as number[])] as CameraViewState['target'],
+    distance,
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildFile, buildReconstruction } from '../test/builders';
+import { getCameraColor } from '../theme/colors';
+import type { ColmapModelFileSet } from '../utils/fileClassification';
+import type { ColmapParseResult } from './fileDropzoneColmapParser';
+import { getSubModelLabel, loadColmapSubModels } from './fileDropzoneSubModels';
+
+function modelSet(dir: string): ColmapModelFileSet {
+  return {
+    dir,
+    camerasFile: buildFile('cameras.bin'),
+    imagesFile: buildFile('images.bin'),
+    points3DFile: buildFile('points3D.bin'),
+  };
+}
+
+function parseResult(): ColmapParseResult {
+  return {
+    cameras: new Map(),
+    images: new Map(),
+    points3D: new Map(),
+    wasmWrapper: null,
+    usedWasmPath: false,
+  };
+}
+
+describe('file dropzone sub-model loading', () => {
+  it('labels models by their trailing directory', () => {
+    expect(getSubModelLabel('project/sparse/3')).toBe('sparse/3');
+    expect(getSubModelLabel('sparse/0')).toBe('sparse/0');
+    expect(getSubModelLabel('')).toBe('model');
+  });
+
+  it('reuses the primary and parses the remaining models in order', async () => {
+    const sets = [modelSet('sparse/0'), modelSet('sparse/1'), modelSet('sparse/2')];
+    const primaryReconstruction = buildReconstruction();
+    const otherReconstruction = buildReconstruction();
+    const parseFiles = vi.fn(async () => parseResult());
+    const buildReconstructionMock = vi.fn(async () => ({ reconstruction: otherReconstruction, pointCount: 4 }));
+    const onModelStart = vi.fn();
+    const addNotification = vi.fn();
+
+    const models = await loadColmapSubModels({
+      modelSets: sets,
+      primary: {
+        dir: 'sparse/0',
+        parseResult: parseResult(),
+        result: { reconstruction: primaryReconstruction, pointCount: 9 },
+      },
+      parseFiles,
+      buildReconstruction: buildReconstructionMock,
+      addNotification,
+      onModelStart,
+      log: vi.fn(),
+    });
+
+    expect(parseFiles).toHaveBeenCalledTimes(2);
+    expect(parseFiles.mock.calls[0][0]).toMatchObject({ camerasFile: sets[1].camerasFile });
+    expect(onModelStart).toHaveBeenCalledWith(1, 3, 'sparse/1');
+    expect(models.map((model) => [model.id, model.pointCount, model.tint])).toEqual([
+      ['sparse/0', 9, getCameraColor(0)],
+      ['sparse/1', 4, getCameraColor(1)],
+      ['sparse/2', 4, getCameraColor(2)],
+    ]);
+    expect(models[0].reconstruction).toBe(primaryReconstruction);
+    expect(models.every((model) => model.visible)).toBe(true);
+    expect(addNotification).toHaveBeenCalledWith('info', 'Loaded 3 sub-models', 5000);
+  });
+
+  it('skips sub-models that fail to parse and reports them once', async () => {
+    const addNotification = vi.fn();
+    const warn = vi.fn();
+
+    const models = await loadColmapSubModels({
+      modelSets: [modelSet('sparse/0'), modelSet('sparse/1')],
+      primary: {
+        dir: 'sparse/0',
+        parseResult: parseResult(),
+        result: { reconstruction: buildReconstruction(), pointCount: 1 },
+      },
+      parseFiles: vi.fn(async () => {
+        throw new Error('truncated points3D.bin');
+      }),
+      addNotification,
+      log: vi.fn(),
+      warn,
+    });
+
+    expect(models.map((model) => model.id)).toEqual(['sparse/0']);
+    expect(warn).toHaveBeenCalledWith('[Models] Failed to load sparse/1: truncated points3D.bin');
+    expect(addNotification).toHaveBeenCalledWith('warning', 'Skipped 1 sub-model(s) that failed to load: sparse/1');
+  });
+});
@@ -0,0 +1,118 @@
+import type { ReconstructionModel } from '../store/reconstructionStore';
+import { getCameraColor } from '../theme/colors';
+import type { ColmapModelFileSet } from '../utils/fileClassification';
+import { appLogger } from '../utils/logger';
+import type { ColmapParseResult, parseColmapFiles } from './fileDropzoneColmapParser';
+import {
+  buildColmapReconstruction,
+  type BuildColmapReconstructionResult,
+} from './fileDropzoneReconstruction';
+
+export interface LoadColmapSubModelsOptions {
+  modelSets: ColmapModelFileSet[];
+  /** The model already parsed as the primary reconstruction. */
+  primary: {
+    dir: string;
+    parseResult: ColmapParseResult;
+    result: BuildColmapReconstructionResult;
+  };
+  parseFiles: typeof parseColmapFiles;
+  buildReconstruction?: typeof buildColmapReconstruction;
+  addNotification: (type: 'info' | 'warning', message: string, duration?: number) => void;
+  onModelStart?: (index: number, total: number, dir: string) => void;
+  log?: (message: string) => void;
+  warn?: (message: string) => void;
+}
+
+/** Short switcher label for a model directory: `sparse/1` stays `sparse/1`, the root becomes `model`. */
+export function getSubModelLabel(dir: string): string {
+  const segments = dir.split('/').filter(Boolean);
+  return segments.length > 0 ? segments.slice(-2).join('/') : 'model';
+}
+
+export function getSubModelTint(index: number): string {
+  return getCameraColor(index);
+}
+
+function toReconstructionModel(
+  modelSet: ColmapModelFileSet,
+  index: number,
+  parseResult: ColmapParseResult,
+  { reconstruction, pointCount }: BuildColmapReconstructionResult
+): ReconstructionModel {
+  return {
+    id: modelSet.dir,
+    label: getSubModelLabel(modelSet.dir),
+    reconstruction,
+    wasmReconstruction: parseResult.wasmWrapper,
+    files: {
+      camerasFile: modelSet.camerasFile,
+      imagesFile: modelSet.imagesFile,
+      points3DFile: modelSet.points3DFile,
+      rigsFile: modelSet.rigsFile,
+      framesFile: modelSet.framesFile,
+    },
+    pointCount,
+    visible: true,
+    tint: getSubModelTint(index),
+  };
+}
+
+/**
+ * Parse the sibling sub-models of a multi-model drop, reusing the already
+ * loaded primary. A sub-model that fails to parse is skipped with a warning
+ * so one corrupt `sparse/N` does not lose the others.
+ */
+export async function loadColmapSubModels({
+  modelSets,
+  primary,
+  parseFiles,
+  buildReconstruction = buildColmapReconstruction,
+  addNotification,
+  onModelStart,
+  log = appLogger.info,
+  warn = appLogger.warn,
+}: LoadColmapSubModelsOptions): Promise<ReconstructionModel[]> {
+  const models: ReconstructionModel[] = [];
+  const failedDirs: string[] = [];
+  // Sub-model parses notify their own point counts; one summary is enough.
+  const quietNotification = () => {};
+
+  for (let index = 0; index < modelSets.length; index++) {
+    const modelSet = modelSets[index];
+    if (modelSet.dir === primary.dir) {
+      models.push(toReconstructionModel(modelSet, index, primary.parseResult, primary.result));
+      continue;
+    }
+
+    onModelStart?.(index, modelSets.length, modelSet.dir);
+    try {
+      const parseResult = await parseFiles({
+        camerasFile: modelSet.camerasFile,
+        imagesFile: modelSet.imagesFile,
+        points3DFile: modelSet.points3DFile,
+        rigsFile: modelSet.rigsFile,
+        framesFile: modelSet.framesFile,
+        addNotification: quietNotification,
+        log,
+      });
+      const result = await buildReconstruction({
+        parseResult,
+        rigsFile: modelSet.rigsFile,
+        framesFile: modelSet.framesFile,
+      });
+      models.push(toReconstructionModel(modelSet, index, parseResult, result));
+    } catch (error) {
+      failedDirs.push(modelSet.dir);
+      warn(`[Models] Failed to load ${modelSet.dir}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failedDirs.length > 0) {
+    addNotification('warning', `Skipped ${failedDirs.length} sub-model(s) that failed to load: ${failedDirs.join(', ')}`);
+  }
+  if (models.length > 1) {
+    addNotification('info', `Loaded ${models.length} sub-models`, 5000);
+  }
+  return models;
+}
@@ -191,6 +191,69 @@ describe('file dropzone workflow', () => {
     expect(logger.error).not.toHaveBeenCalled();
   });
 
+  it('loads sibling sparse/N models and registers them with the primary active', async () => {
+    const reconstructions = [createReconstruction(), createReconstruction()];
+    const parseFiles = vi.fn(async () => ({
+      cameras: new Map(),
+      images: new Map(),
+      points3D: new Map(),
+      wasmWrapper: null,
+      usedWasmPath: false,
+    }));
+    let buildCount = 0;
+    const buildReconstruction = vi.fn(async () => ({ reconstruction: reconstructions[buildCount++], pointCount: 5 }));
+    const setModels = vi.fn();
+    const deps = createDeps({ buildReconstruction, parseFiles, setModels });
+    const primaryCameras = file('cameras.bin');
+    const files = new Map([
+      ['sparse/1/cameras.bin', file('cameras.bin')],
+      ['sparse/1/images.bin', file('images.bin')],
+      ['sparse/1/points3D.bin', file('points3D.bin')],
+      ['sparse/0/cameras.bin', primaryCameras],
+      ['sparse/0/images.bin', file('images.bin')],
+      ['sparse/0/points3D.bin', file('points3D.bin')],
+    ]);
+
+    await processFileDropzoneFiles(files, deps);
+
+    expect(parseFiles).toHaveBeenCalledTimes(2);
+    expect(parseFiles.mock.calls[0][0]).toMatchObject({ camerasFile: primaryCameras });
+    expect(deps.setReconstruction).toHaveBeenCalledWith(reconstructions[0]);
+    expect(setModels).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'sparse/0', reconstruction: reconstructions[0] }),
+      expect.objectContaining({ id: 'sparse/1', reconstruction: reconstructions[1] }),
+    ], 'sparse/0');
+    expect(deps.setUrlProgress).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Parsing model 2 of 2...',
+      currentFile: 'sparse/1',
+    }));
+  });
+
+  it('does not register sub-models for a single-model drop', async () => {
+    const reconstruction = createReconstruction();
+    const setModels = vi.fn();
+    const deps = createDeps({
+      buildReconstruction: vi.fn(async () => ({ reconstruction, pointCount: 1 })),
+      parseFiles: vi.fn(async () => ({
+        cameras: new Map(),
+        images: new Map(),
+        points3D: new Map(),
+        wasmWrapper: null,
+        usedWasmPath: false,
+      })),
+      setModels,
+    });
+
+    await processFileDropzoneFiles(new Map([
+      ['sparse/0/cameras.bin', file('cameras.bin')],
+      ['sparse/0/images.bin', file('images.bin')],
+      ['sparse/0/points3D.bin', file('points3D.bin')],
+    ]), deps);
+
+    expect(deps.setReconstruction).toHaveBeenCalledWith(reconstruction);
+    expect(setModels).not.toHaveBeenCalled();
+  });
+
   it('updates the current splat file for PLY-only drops after reconstruction load', async () => {
     const logger = createLogger();
     const oldSplat = new File(['x'], 'old.ply');
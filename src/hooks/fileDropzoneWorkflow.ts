@@ -1,13 +1,14 @@
 import type { ClearAllOptions } from '../cache';
 import { clearAllCaches } from '../cache';
 import { importConfigFile } from '../config/configuration';
-import type { ReconstructionSourceType } from '../store/reconstructionStore';
+import type { ReconstructionModel, ReconstructionSourceType } from '../store/reconstructionStore';
 import type { LoadedFiles, Reconstruction, SplatFileSource } from '../types/colmap';
 import type { UrlLoadProgress } from '../types/manifest';
 import { collectImageFiles, findMissingImageFiles, hasMaskFiles } from '../utils/imageFileUtils';
 import {
   findColmapCameraImageFiles,
   findColmapFiles,
+  findColmapModelFileSets,
   findConfigFile,
   findSplatFileSources,
   hasColmapFiles,
@@ -30,6 +31,7 @@ import { runPointCloudOnlyLoad } from './fileDropzonePointCloudOnly';
 import { runSplatOnlyLoad } from './fileDropzoneSplatOnly';
 import { parseColmapFiles } from './fileDropzoneColmapParser';
 import { buildColmapReconstruction } from './fileDropzoneReconstruction';
+import { loadColmapSubModels } from './fileDropzoneSubModels';
 
 type SetUrlProgress = (progress: UrlLoadProgress | null) => void;
 type SetSourceInfo = {
@@ -68,6 +70,7 @@ export interface FileDropzoneWorkflowDeps {
   setDroppedFiles: (files: Map<string, File>) => void;
   setError: (error: string | null) => void;
   setLoadedFiles: (files: LoadedFiles) => void;
+  setModels?: (models: ReconstructionModel[], activeModelId: string | null) => void;
   setReconstruction: (reconstruction: Reconstruction) => void;
   setUrlLoading: (loading: boolean) => void;
   setUrlProgress: SetUrlProgress;
@@ -428,7 +431,7 @@ export async function processFileDropzoneFiles(
 
     deps.setUrlProgress({ percent: mapProgress(35), message: 'Computing statistics...' });
 
-    const { reconstruction, pointCount } = await buildReconstruction({
+    const buildResult = await buildReconstruction({
       parseResult,
       rigsFile,
       framesFile,
@@ -436,6 +439,29 @@ export async function processFileDropzoneFiles(
         deps.setUrlProgress({ percent: mapProgress(40), message: 'Processing rig data...' });
       },
     });
+    const { reconstruction, pointCount } = buildResult;
+
+    // Sibling sparse/N models load alongside the primary so they can be switched without re-dropping.
+    const modelSets = findColmapModelFileSets(files);
+    const primaryModelSet = modelSets.find((modelSet) => modelSet.camerasFile === camerasFile);
+    const models = deps.setModels && primaryModelSet && modelSets.length > 1
+      ? await loadColmapSubModels({
+        modelSets,
+        primary: { dir: primaryModelSet.dir, parseResult, result: buildResult },
+        parseFiles,
+        buildReconstruction,
+        addNotification: deps.addNotification,
+        onModelStart: (index, total, dir) => {
+          deps.setUrlProgress({
+            percent: mapProgress(40 + Math.round((index / total) * 50)),
+            message: `Parsing model ${index + 1} of ${total}...`,
+            currentFile: dir,
+          });
+        },
+        log: logger.info,
+        warn: logger.warn,
+      })
+      : [];
 
     clearCaches({ preserveZip: true });
     await delay(200);
@@ -449,6 +475,9 @@ export async function processFileDropzoneFiles(
     }
 
     deps.setReconstruction(reconstruction);
+    if (models.length > 1 && primaryModelSet) {
+      deps.setModels?.(models, primaryModelSet.dir);
+    }
     deps.resetView();
 
     logger.info(
@@ -4,5 +4,6 @@
 
 export { usePointCloudData, type UsePointCloudDataParams, type UsePointCloudDataResult } from './usePointCloudData';
 export { usePointPicking, type UsePointPickingParams, type UsePointPickingResult } from './usePointPicking';
+export { usePointEditSelection, type UsePointEditSelectionParams } from './usePointEditSelection';
 export { useSelectionAnimation, type UseSelectionAnimationParams, type UseSelectionAnimationResult } from './useSelectionAnimation';
 export * from './types';
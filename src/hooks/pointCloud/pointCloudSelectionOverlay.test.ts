@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { computeSelectedPointOverlay } from './pointCloudSelectionOverlay';
+import { computeLookupPointOverlay, computeSelectedPointOverlay } from './pointCloudSelectionOverlay';
 
 describe('point cloud selection overlay', () => {
   const positions = new Float32Array([
@@ -60,4 +60,19 @@ describe('point cloud selection overlay', () => {
     expect(Array.from(result.selectedPositions!)).toEqual([4, 5, 6]);
     expect(Array.from(result.selectedColors!)).toEqual([1, 0.5, 0.25]);
   });
+
+  it('resolves IDs through a render index lookup', () => {
+    const lookup = new Map([[0, 10n], [2, 30n]]);
+    const result = computeLookupPointOverlay({
+      positions,
+      lookup,
+      selectedPointIds: new Set([30n, 20n]),
+      highlightColor,
+    });
+
+    expect(Array.from(result.selectedPositions!)).toEqual([7, 8, 9]);
+    expect(Array.from(result.selectedColors!)).toEqual([1, 0.5, 0.25]);
+    expect(computeLookupPointOverlay({ positions, lookup, selectedPointIds: new Set([20n]), highlightColor }))
+      .toEqual({ selectedPositions: null, selectedColors: null });
+  });
 });
@@ -1,4 +1,5 @@
 import { getPoint3DIdForIndex } from './pointCloudDataPolicy';
+import type { Point3DIdLookup } from './types';
 
 export interface SelectedPointOverlayOptions {
   pointCount: number;
@@ -59,3 +60,44 @@ export function computeSelectedPointOverlay({
 
   return { selectedPositions, selectedColors };
 }
+
+export interface LookupPointOverlayOptions {
+  positions: Float32Array;
+  lookup: Point3DIdLookup;
+  selectedPointIds: ReadonlySet<bigint>;
+  highlightColor: [number, number, number];
+}
+
+/** Same as computeSelectedPointOverlay, for points addressed through the render index lookup. */
+export function computeLookupPointOverlay({
+  positions,
+  lookup,
+  selectedPointIds,
+  highlightColor,
+}: LookupPointOverlayOptions): SelectedPointOverlayResult {
+  if (selectedPointIds.size === 0) {
+    return { selectedPositions: null, selectedColors: null };
+  }
+
+  const pointCount = Math.floor(positions.length / 3);
+  const indices: number[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    const point3DId = lookup.get(i);
+    if (point3DId !== undefined && selectedPointIds.has(point3DId)) {
+      indices.push(i);
+    }
+  }
+
+  if (indices.length === 0) {
+    return { selectedPositions: null, selectedColors: null };
+  }
+
+  const selectedPositions = new Float32Array(indices.length * 3);
+  const selectedColors = new Float32Array(indices.length * 3);
+  indices.forEach((sourcePoint, outputIndex) => {
+    selectedPositions.set(positions.subarray(sourcePoint * 3, sourcePoint * 3 + 3), outputIndex * 3);
+    selectedColors.set(highlightColor, outputIndex * 3);
+  });
+
+  return { selectedPositions, selectedColors };
+}
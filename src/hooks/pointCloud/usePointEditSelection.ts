@@ -0,0 +1,86 @@
+/**
+ * Hook that resolves point edit selections against the rendered point cloud
+ * and builds the highlight for points selected for deletion.
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import type { PointSelectionShape } from '../../store/stores/pointEditStore';
+import type { Point3DId, Reconstruction } from '../../types/colmap';
+import { selectPointsInImageFrustum, selectPointsInScreenPolygon, type PointSelectionMode } from '../../utils/pointSelection';
+import { computeLookupPointOverlay, type SelectedPointOverlayResult } from './pointCloudSelectionOverlay';
+import type { Point3DIdLookup } from './types';
+
+const DELETION_HIGHLIGHT_COLOR: [number, number, number] = [1, 0.15, 0.15];
+
+export interface UsePointEditSelectionParams {
+  positions: Float32Array | null;
+  /** Lookup for the same render pass as `positions`. */
+  indexToPoint3DId: Point3DIdLookup;
+  pointsRef: React.RefObject<THREE.Points | null>;
+  reconstruction: Reconstruction | null;
+  pendingShape: PointSelectionShape | null;
+  selectedPointIds: ReadonlySet<Point3DId>;
+  resolveSelection: (pointIds: ReadonlySet<Point3DId>, mode: PointSelectionMode) => void;
+}
+
+/**
+ * Only points that are currently rendered (after track, error and thinning
+ * filters) can be selected, so what is deleted is what the user saw.
+ * Box and lasso shapes are tested in clip space with the live camera; image
+ * frustums are tested in the data frame, which is the frame of `positions`.
+ */
+export function usePointEditSelection(params: UsePointEditSelectionParams): SelectedPointOverlayResult {
+  const {
+    positions,
+    indexToPoint3DId,
+    pointsRef,
+    reconstruction,
+    pendingShape,
+    selectedPointIds,
+    resolveSelection,
+  } = params;
+  const { camera } = useThree();
+
+  useEffect(() => {
+    if (!pendingShape) return;
+    let pointIds = new Set<Point3DId>();
+
+    if (positions && pendingShape.kind === 'polygon') {
+      const points = pointsRef.current;
+      if (points) {
+        points.updateWorldMatrix(true, false);
+        camera.updateMatrixWorld();
+        const clipMatrix = new THREE.Matrix4()
+          .multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+          .multiply(points.matrixWorld);
+        pointIds = selectPointsInScreenPolygon({ positions, lookup: indexToPoint3DId, clipMatrix, polygon: pendingShape.points });
+      }
+    } else if (positions && pendingShape.kind === 'frustum') {
+      const image = reconstruction?.images.get(pendingShape.imageId);
+      const imageCamera = image ? reconstruction?.cameras.get(image.cameraId) : undefined;
+      if (image && imageCamera) {
+        pointIds = selectPointsInImageFrustum({
+          positions,
+          lookup: indexToPoint3DId,
+          image,
+          camera: imageCamera,
+          maxDepth: pendingShape.maxDepth,
+        });
+      }
+    }
+
+    resolveSelection(pointIds, pendingShape.mode);
+  }, [camera, indexToPoint3DId, pendingShape, pointsRef, positions, reconstruction, resolveSelection]);
+
+  return useMemo(() => {
+    if (!positions) return { selectedPositions: null, selectedColors: null };
+    return computeLookupPointOverlay({
+      positions,
+      lookup: indexToPoint3DId,
+      selectedPointIds,
+      highlightColor: DELETION_HIGHLIGHT_COLOR,
+    });
+  }, [indexToPoint3DId, positions, selectedPointIds]);
+}
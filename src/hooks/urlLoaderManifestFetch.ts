@@ -170,7 +170,7 @@ async function readBoundedResponseText(response: Response, maxBytes: number): Pr
 }
 
 async function defaultClassifySplatUrl(url: string, fetchImpl: FetchUrl): Promise<SplatUrlClassification> {
-  // Non-PLY splat formats (.spz / .splat) are always splats.
+  // Non-PLY splat formats (.spz / .splat / .ksplat / .rad) are always splats.
   const pathname = url.split('?')[0].toLowerCase();
   if (!pathname.endsWith('.ply')) {
     return { isSplat: true, splatCount: null };
@@ -519,11 +519,15 @@ export function getSplatAutoLoadDecision(
  * Bytes-per-splat by format, for estimating the GPU-relevant splat count when
  * the exact header count is unknown. PLY: SH1 gaussian layout (26 float32 =
  * 104 B; denser SH3 files over-estimate the count, which only makes the gate
- * stricter). SPZ: compressed, ~16 B/splat.
+ * stricter). SPZ: compressed, ~16 B/splat. .splat: fixed 32 B rows. KSPLAT:
+ * half-precision SH0 layout, 24 B. RAD: compressed like SPZ.
  */
 export const SPLAT_BYTES_PER_SPLAT_ESTIMATE: Record<SplatFileExtension, number> = {
   '.ply': 104,
   '.spz': 16,
+  '.splat': 32,
+  '.ksplat': 24,
+  '.rad': 16,
 };
 
 /**
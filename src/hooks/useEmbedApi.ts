@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useRef } from 'react';
+import {
+  useAxesNodeActions,
+  useCamerasNodeActions,
+  useGizmoNodeActions,
+  useGridNodeActions,
+  useMatchesNodeActions,
+  useNavigationNodeActions,
+  usePointsNodeActions,
+  useRigNodeActions,
+  useSelectionNodeActions,
+} from '../nodes';
+import { useCameraStore, useExportStore, useReconstructionStore } from '../store';
+import type { ColmapManifest } from '../types/manifest';
+import { appLogger } from '../utils/logger';
+import { dispatchEmbedApiRequest, sendEmbedApiResponse, type EmbedApiDispatchDeps } from './embedApiDispatch';
+import {
+  buildEmbedApiError,
+  buildEmbedApiEvent,
+  EMBED_API_VERSION,
+  parseEmbedApiRequest,
+  type EmbedApiEvent,
+  type EmbedApiEventMessage,
+  type EmbedApiResponse,
+} from './embedApiProtocol';
+
+export interface UseEmbedApiOptions {
+  loadFromUrl: (url: string) => Promise<boolean>;
+  loadFromManifest: (manifest: ColmapManifest) => Promise<boolean>;
+}
+
+/** How often the camera is checked for a new view to report as `viewChange`. */
+const VIEW_CHANGE_INTERVAL_MS = 500;
+
+/** Opaque origins (sandboxed or file:// hosts) can only be addressed with '*'. */
+function getTargetOrigin(origin: string): string {
+  return origin === 'null' ? '*' : origin;
+}
+
+/**
+ * Serve the embed postMessage API while the viewer runs inside an iframe.
+ * Only the parent window is answered, and events go to the origin that last
+ * sent a request. Announces itself with a `ready` event on mount.
+ */
+export function useEmbedApi({ loadFromUrl, loadFromManifest }: UseEmbedApiOptions): void {
+  const points = usePointsNodeActions();
+  const cameras = useCamerasNodeActions();
+  const selection = useSelectionNodeActions();
+  const navigation = useNavigationNodeActions();
+  const matches = useMatchesNodeActions();
+  const rig = useRigNodeActions();
+  const axes = useAxesNodeActions();
+  const grid = useGridNodeActions();
+  const gizmo = useGizmoNodeActions();
+
+  const deps = useMemo<EmbedApiDispatchDeps>(() => ({
+    getReconstruction: () => useReconstructionStore.getState().reconstruction,
+    getSelectedImageId: () => useCameraStore.getState().selectedImageId,
+    getViewState: () => useCameraStore.getState().currentViewState,
+    setSelectedImageId: selection.setSelectedImageId,
+    flyToImage: navigation.flyToImage,
+    flyToState: navigation.flyToState,
+    loadFromUrl,
+    loadFromManifest,
+    getScreenshotBlob: () => useExportStore.getState().getScreenshotBlob,
+    nodes: { points, cameras, selection, navigation, matches, rig, axes, grid, gizmo },
+  }), [loadFromUrl, loadFromManifest, points, cameras, selection, navigation, matches, rig, axes, grid, gizmo]);
+
+  const depsRef = useRef(deps);
+  const subscriptionsRef = useRef(new Set<EmbedApiEvent>());
+  const hostOriginRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    depsRef.current = deps;
+  }, [deps]);
+
+  useEffect(() => {
+    if (window.parent === window) return;
+    const host = window.parent;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== host) return;
+      const parsed = parseEmbedApiRequest(event.data);
+      if (parsed.kind === 'ignored') return;
+
+      const reply = (response: EmbedApiResponse) => sendEmbedApiResponse(
+        (message) => host.postMessage(message, getTargetOrigin(event.origin)),
+        response
+      );
+      if (parsed.kind === 'invalid') {
+        reply(buildEmbedApiError(parsed.id, parsed.error));
+        return;
+      }
+      hostOriginRef.current = event.origin;
+      void dispatchEmbedApiRequest(parsed.request, depsRef.current, subscriptionsRef.current).then(reply);
+    };
+
+    window.addEventListener('message', handleMessage);
+    host.postMessage(buildEmbedApiEvent('ready', { version: EMBED_API_VERSION }), '*');
+    appLogger.info('[Embed API] Listening for host messages');
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (window.parent === window) return;
+
+    const post = (event: EmbedApiEvent, data: EmbedApiEventMessage['data']) => {
+      const origin = hostOriginRef.current;
+      if (origin === null || !subscriptionsRef.current.has(event)) return;
+      window.parent.postMessage(buildEmbedApiEvent(event, data), getTargetOrigin(origin));
+    };
+
+    const unsubscribe = useCameraStore.subscribe((state, prev) => {
+      if (state.selectedImageId !== prev.selectedImageId) {
+        post('selectionChange', { imageId: state.selectedImageId });
+      }
+    });
+
+    // The view changes every frame while the camera moves, so only the latest
+    // view is reported, at most once per interval.
+    let reportedView = useCameraStore.getState().currentViewState;
+    const timer = window.setInterval(() => {
+      const view = useCameraStore.getState().currentViewState;
+      if (!view || view === reportedView) return;
+      reportedView = view;
+      post('viewChange', { view });
+    }, VIEW_CHANGE_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, []);
+}
@@ -19,6 +19,7 @@ export function useFileDropzone() {
     setReconstruction,
     setWasmReconstruction,
     setLoadedFiles,
+    setModels,
     setDroppedFiles,
     setError,
     setSourceInfo,
@@ -53,6 +54,7 @@ export function useFileDropzone() {
       setDroppedFiles,
       setError,
       setLoadedFiles,
+      setModels,
       setReconstruction,
       setUrlLoading,
       setUrlProgress,
@@ -67,6 +69,7 @@ export function useFileDropzone() {
     setReconstruction,
     setWasmReconstruction,
     setLoadedFiles,
+    setModels,
     setDroppedFiles,
     setError,
     setUrlLoading,
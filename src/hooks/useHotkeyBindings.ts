@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { resolveHotkeys, type HotkeyRegistry } from '../config/hotkeys';
+import { useHotkeyStore } from '../store';
+
+/**
+ * The hotkey registry with the user's overrides applied. Every hotkey
+ * binding and key hint reads keys from here instead of HOTKEYS, so a rebind
+ * in the help editor (or from a profile/config file) takes effect everywhere.
+ */
+export function useHotkeyBindings(): HotkeyRegistry {
+  const overrides = useHotkeyStore((s) => s.overrides);
+  return useMemo(() => resolveHotkeys(overrides), [overrides]);
+}
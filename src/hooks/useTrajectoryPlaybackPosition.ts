@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import {
+  getTrajectoryRawPosition,
+  normalizeTrajectoryPosition,
+  type TrajectoryPlaybackClock,
+} from '../utils/trajectoryPlaybackPolicy';
+
+/**
+ * Trajectory position for UI that follows playback, ticking every animation
+ * frame on the same clock as the trackball frame loop.
+ */
+export function useTrajectoryPlaybackPosition(
+  clock: TrajectoryPlaybackClock,
+  loop: boolean,
+  imageCount: number,
+  enabled = true
+): number {
+  const { status, position, startTime, speed } = clock;
+  const [playingPosition, setPlayingPosition] = useState(position);
+  const playing = enabled && status === 'playing';
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      const raw = getTrajectoryRawPosition({ status, position, startTime, speed }, performance.now());
+      setPlayingPosition(normalizeTrajectoryPosition(raw, imageCount, loop).position);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [imageCount, loop, playing, position, speed, startTime, status]);
+
+  return playing ? playingPosition : normalizeTrajectoryPosition(position, imageCount, loop).position;
+}
@@ -91,7 +91,7 @@ export function useUrlLoader({ logger = appLogger }: UseUrlLoaderDeps = {}) {
    * Main entry point: load reconstruction from URL
    * Accepts either:
    * - A ZIP file URL (ends with .zip)
-   * - A splat file URL (ends with .spz or .ply)
+   * - A splat file URL (ends with .spz, .ply, .splat, .ksplat or .rad)
    * - A manifest JSON URL (ends with .json)
    * - A direct base URL (assumes standard COLMAP directory structure)
    */
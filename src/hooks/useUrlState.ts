@@ -1,6 +1,6 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useThree } from '@react-three/fiber';
-import { useCameraStore, useImageMetricsStore, useReconstructionStore, usePointCloudStore, useUIStore, useTransformStore, useRigStore } from '../store';
+import { useCameraPathStore, useCameraStore, useImageMetricsStore, useMeasurementStore, useReconstructionStore, usePointCloudStore, useUIStore, useTransformStore, useRigStore } from '../store';
 import type { CameraViewState } from '../store/types';
 import type { ColmapManifest } from '../types/manifest';
 import { buildShareableFieldsFromRegistry } from '../config/registry';
@@ -13,6 +13,8 @@ import {
   getShareBaseUrl,
 } from '../utils/shareUrl';
 import { appLogger } from '../utils/logger';
+import { getCameraPathKeyframesFromSaved, getSavedCameraPath } from '../utils/cameraPathTimelinePolicy';
+import { getSavedMeasurements } from '../utils/measurementGeometry';
 import { getShareActiveSplatSourceId } from '../utils/splatFileSourcePolicy';
 import { getControlsViewState } from './urlStateControlsPolicy';
 import {
@@ -57,6 +59,14 @@ export function collectShareConfig(): ShareConfig {
   if (activeSplatSourceId) {
     config.splat = { activeSourceId: activeSplatSourceId };
   }
+  const { keyframes, loop } = useCameraPathStore.getState();
+  if (keyframes.length > 0) {
+    config.cameraPath = getSavedCameraPath(keyframes, loop);
+  }
+  const { measurements } = useMeasurementStore.getState();
+  if (measurements.length > 0) {
+    config.measurements = getSavedMeasurements(measurements);
+  }
   return config;
 }
 
@@ -94,6 +104,16 @@ export function applyShareConfig(config: ShareConfig): void {
   if (config.transform) {
     useTransformStore.getState().setTransform(config.transform);
   }
+
+  // Camera path
+  if (config.cameraPath) {
+    useCameraPathStore.getState().loadPath(getCameraPathKeyframesFromSaved(config.cameraPath), config.cameraPath.loop);
+  }
+
+  // Measurements
+  if (config.measurements) {
+    useMeasurementStore.getState().loadMeasurements(config.measurements);
+  }
 }
 
 /**
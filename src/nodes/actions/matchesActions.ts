@@ -1,10 +1,11 @@
 import { useMemo } from 'react';
 import { useUIStore } from '../../store';
-import type { MatchesDisplayMode } from '../../store/types';
+import type { MatchesDisplayMode, MatchesSource } from '../../store/types';
 
 export interface MatchesNodeActions {
   setVisible: (visible: boolean) => void;
   setDisplayMode: (mode: MatchesDisplayMode) => void;
+  setSource: (source: MatchesSource) => void;
   setOpacity: (opacity: number) => void;
   setColor: (color: string) => void;
   setLineWidth: (lineWidth: number) => void;
@@ -16,6 +17,7 @@ export function useMatchesNodeActions(): MatchesNodeActions {
     () => ({
       setVisible: (v) => useUIStore.getState().setShowMatches(v),
       setDisplayMode: (m) => useUIStore.getState().setMatchesDisplayMode(m),
+      setSource: (s) => useUIStore.getState().setMatchesSource(s),
       setOpacity: (o) => useUIStore.getState().setMatchesOpacity(o),
       setColor: (c) => useUIStore.getState().setMatchesColor(c),
       setLineWidth: (w) => useUIStore.getState().setMatchesLineWidth(w),
@@ -5,6 +5,7 @@ import type { MatchesNode } from '../types';
 export function useMatchesNode(): MatchesNode {
   const showMatches = useUIStore((s) => s.showMatches);
   const matchesDisplayMode = useUIStore((s) => s.matchesDisplayMode);
+  const matchesSource = useUIStore((s) => s.matchesSource);
   const matchesOpacity = useUIStore((s) => s.matchesOpacity);
   const matchesColor = useUIStore((s) => s.matchesColor);
   const matchesLineWidth = useUIStore((s) => s.matchesLineWidth);
@@ -14,10 +15,11 @@ export function useMatchesNode(): MatchesNode {
       nodeType: 'matches',
       visible: showMatches,
       displayMode: matchesDisplayMode,
+      source: matchesSource,
       opacity: matchesOpacity,
       color: matchesColor,
       lineWidth: matchesLineWidth,
     }),
-    [showMatches, matchesDisplayMode, matchesOpacity, matchesColor, matchesLineWidth]
+    [showMatches, matchesDisplayMode, matchesSource, matchesOpacity, matchesColor, matchesLineWidth]
   );
 }
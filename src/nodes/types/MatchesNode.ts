@@ -1,9 +1,10 @@
-import type { MatchesDisplayMode } from '../../store/types';
+import type { MatchesDisplayMode, MatchesSource } from '../../store/types';
 import type { VisualNode } from './base';
 
 export interface MatchesNode extends VisualNode {
   readonly nodeType: 'matches';
   displayMode: MatchesDisplayMode;
+  source: MatchesSource;
   color: string;
   lineWidth: number;
 }
@@ -0,0 +1,155 @@
+import initSqlJs, { type Database } from 'sql.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TwoViewGeometryConfig } from '../types/colmapDatabase';
+import {
+  COLMAP_MAX_NUM_IMAGES,
+  imageIdsToPairId,
+  pairIdToImageIds,
+  readColmapDatabaseSummary,
+  readDatabaseKeypoints,
+  readDatabasePairMatches,
+} from './colmapDatabase';
+
+let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+function blob(values: ArrayLike<number>, Type: Float32ArrayConstructor | Float64ArrayConstructor | Uint32ArrayConstructor) {
+  return new Uint8Array(new Type(values).buffer);
+}
+
+function createDatabase({ withMatrices = true }: { withMatrices?: boolean } = {}): Database {
+  const db = new SQL.Database();
+  db.run(`CREATE TABLE cameras (camera_id INTEGER PRIMARY KEY, model INTEGER, width INTEGER, height INTEGER, params BLOB, prior_focal_length INTEGER)`);
+  db.run(`CREATE TABLE images (image_id INTEGER PRIMARY KEY, name TEXT, camera_id INTEGER)`);
+  db.run(`CREATE TABLE keypoints (image_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)`);
+  db.run(`CREATE TABLE descriptors (image_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)`);
+  db.run(`CREATE TABLE matches (pair_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)`);
+  db.run(
+    withMatrices
+      ? `CREATE TABLE two_view_geometries (pair_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB, config INTEGER, F BLOB, E BLOB, H BLOB, qvec BLOB, tvec BLOB)`
+      : `CREATE TABLE two_view_geometries (pair_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB, config INTEGER)`
+  );
+
+  db.run('INSERT INTO cameras VALUES (1, 1, 640, 480, ?, 0)', [blob([500, 500, 320, 240], Float64Array)]);
+  db.run('INSERT INTO cameras VALUES (2, 999, 640, 480, ?, 0)', [blob([1], Float64Array)]);
+  db.run(`INSERT INTO images VALUES (1, 'a.jpg', 1), (2, 'b.jpg', 1), (3, 'c.jpg', 1)`);
+  // 6-column affine keypoints for image 1, 2-column for image 2.
+  db.run('INSERT INTO keypoints VALUES (1, 2, 6, ?)', [blob([10, 11, 1, 0, 0, 1, 20, 21, 1, 0, 0, 1], Float32Array)]);
+  db.run('INSERT INTO keypoints VALUES (2, 3, 2, ?)', [blob([1, 2, 3, 4, 5, 6], Float32Array)]);
+  db.run('INSERT INTO descriptors VALUES (1, 2, 128, ?)', [new Uint8Array(256)]);
+
+  db.run('INSERT INTO matches VALUES (?, 2, 2, ?)', [imageIdsToPairId(1, 2), blob([0, 2, 1, 0], Uint32Array)]);
+  db.run('INSERT INTO matches VALUES (?, 1, 2, ?)', [imageIdsToPairId(2, 3), blob([0, 0], Uint32Array)]);
+  if (withMatrices) {
+    const identity = blob([1, 0, 0, 0, 1, 0, 0, 0, 1], Float64Array);
+    db.run('INSERT INTO two_view_geometries VALUES (?, 1, 2, ?, 2, ?, ?, ?, ?, ?)', [
+      imageIdsToPairId(1, 2),
+      blob([1, 0], Uint32Array),
+      identity,
+      identity,
+      identity,
+      blob([1, 0, 0, 0], Float64Array),
+      blob([0, 0, 1], Float64Array),
+    ]);
+  } else {
+    db.run('INSERT INTO two_view_geometries VALUES (?, 1, 2, ?, 3)', [imageIdsToPairId(1, 2), blob([1, 0], Uint32Array)]);
+  }
+  return db;
+}
+
+describe('pair ids', () => {
+  it('encodes pairs order-independently and decodes them', () => {
+    expect(imageIdsToPairId(2, 1)).toBe(COLMAP_MAX_NUM_IMAGES + 2);
+    expect(imageIdsToPairId(1, 2)).toBe(imageIdsToPairId(2, 1));
+    expect(pairIdToImageIds(imageIdsToPairId(7, 3))).toEqual([3, 7]);
+  });
+});
+
+describe('readColmapDatabaseSummary', () => {
+  it('reads cameras, images with feature counts, and pair counts', () => {
+    const summary = readColmapDatabaseSummary(createDatabase());
+
+    expect([...summary.cameras.keys()]).toEqual([1]);
+    expect(summary.cameras.get(1)).toMatchObject({ modelId: 1, width: 640, height: 480, params: [500, 500, 320, 240] });
+    expect(summary.images.get(1)).toEqual({
+      imageId: 1,
+      name: 'a.jpg',
+      cameraId: 1,
+      numKeypoints: 2,
+      numDescriptors: 2,
+      descriptorDim: 128,
+    });
+    expect(summary.images.get(3)?.numKeypoints).toBe(0);
+    expect(summary.pairs).toEqual([
+      { imageId1: 1, imageId2: 2, numMatches: 2, numInliers: 1, config: TwoViewGeometryConfig.CALIBRATED },
+      { imageId1: 2, imageId2: 3, numMatches: 1, numInliers: 0, config: null },
+    ]);
+  });
+
+  it('rejects databases without the COLMAP tables', () => {
+    const db = new SQL.Database();
+    db.run('CREATE TABLE other (id INTEGER)');
+    expect(() => readColmapDatabaseSummary(db)).toThrow(/missing "cameras" table/);
+  });
+
+  it('decodes pair ids above 2^53 without precision loss', () => {
+    const db = createDatabase();
+    const big = 2147483000;
+    db.run(`INSERT INTO images VALUES (${big}, 'far.jpg', 1)`);
+    db.run(`INSERT INTO matches VALUES (3 * ${COLMAP_MAX_NUM_IMAGES} + ${big}, 1, 2, ?)`, [blob([0, 0], Uint32Array)]);
+
+    const pair = readColmapDatabaseSummary(db).pairs.find((p) => p.imageId2 === big);
+    expect(pair).toMatchObject({ imageId1: 3, numMatches: 1 });
+  });
+});
+
+describe('readDatabaseKeypoints', () => {
+  it('keeps only xy columns', () => {
+    const db = createDatabase();
+    expect(Array.from(readDatabaseKeypoints(db, 1).xy)).toEqual([10, 11, 20, 21]);
+    expect(Array.from(readDatabaseKeypoints(db, 2).xy)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(readDatabaseKeypoints(db, 3).xy).toHaveLength(0);
+  });
+});
+
+describe('readDatabasePairMatches', () => {
+  it('reads raw matches, inliers and geometry', () => {
+    const pair = readDatabasePairMatches(createDatabase(), 1, 2);
+    expect(Array.from(pair.rawMatches)).toEqual([0, 2, 1, 0]);
+    expect(Array.from(pair.inlierMatches)).toEqual([1, 0]);
+    expect(pair.geometry).toEqual({
+      config: TwoViewGeometryConfig.CALIBRATED,
+      F: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+      E: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+      H: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+      qvec: [1, 0, 0, 0],
+      tvec: [0, 0, 1],
+    });
+  });
+
+  it('orients match columns to the requested image order', () => {
+    const pair = readDatabasePairMatches(createDatabase(), 2, 1);
+    expect(pair).toMatchObject({ imageId1: 2, imageId2: 1 });
+    expect(Array.from(pair.rawMatches)).toEqual([2, 0, 0, 1]);
+    expect(Array.from(pair.inlierMatches)).toEqual([0, 1]);
+  });
+
+  it('tolerates older schemas without stored matrices and unmatched pairs', () => {
+    const db = createDatabase({ withMatrices: false });
+    expect(readDatabasePairMatches(db, 1, 2).geometry).toEqual({
+      config: TwoViewGeometryConfig.UNCALIBRATED,
+      F: null,
+      E: null,
+      H: null,
+      qvec: null,
+      tvec: null,
+    });
+
+    const missing = readDatabasePairMatches(db, 1, 3);
+    expect(missing.rawMatches).toHaveLength(0);
+    expect(missing.geometry).toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+import type { Database, SqlValue } from 'sql.js';
+import type { Camera, CameraId, ImageId } from '../types/colmap';
+import {
+  TwoViewGeometryConfig,
+  type ColmapDatabaseSummary,
+  type DatabaseImage,
+  type DatabaseImagePair,
+  type DatabaseKeypoints,
+  type DatabasePairMatches,
+  type DatabaseTwoViewGeometry,
+} from '../types/colmapDatabase';
+import { isCameraModelId } from '../utils/cameraModelPolicy';
+import { appLogger } from '../utils/logger';
+
+/** COLMAP's kMaxNumImages, the multiplier used to encode image pairs into pair_id. */
+export const COLMAP_MAX_NUM_IMAGES = 2147483647;
+
+/** The subset of a sql.js database the reader needs (lets tests and workers share it). */
+export type ColmapDatabaseConnection = Pick<Database, 'exec'>;
+
+type Row = SqlValue[];
+
+function queryRows(db: ColmapDatabaseConnection, sql: string, params?: SqlValue[]): Row[] {
+  const result = db.exec(sql, params);
+  return result.length > 0 ? result[0].values : [];
+}
+
+function toInteger(value: SqlValue): number {
+  return typeof value === 'number' ? value : 0;
+}
+
+function toBlob(value: SqlValue): Uint8Array | null {
+  return value instanceof Uint8Array && value.byteLength > 0 ? value : null;
+}
+
+/** Copy a blob into an aligned buffer (sql.js blobs may start at any byte offset). */
+function alignedBuffer(blob: Uint8Array): ArrayBuffer {
+  const copy = new Uint8Array(blob.byteLength);
+  copy.set(blob);
+  return copy.buffer;
+}
+
+function decodeFloat64Blob(value: SqlValue): number[] | null {
+  const blob = toBlob(value);
+  if (!blob || blob.byteLength % 8 !== 0) return null;
+  return Array.from(new Float64Array(alignedBuffer(blob)));
+}
+
+function decodeUint32Blob(value: SqlValue, expectedLength: number): Uint32Array {
+  const blob = toBlob(value);
+  if (!blob || blob.byteLength < expectedLength * 4) return new Uint32Array(0);
+  return new Uint32Array(alignedBuffer(blob), 0, expectedLength);
+}
+
+function parseConfig(value: SqlValue): TwoViewGeometryConfig {
+  const config = toInteger(value);
+  return config >= TwoViewGeometryConfig.UNDEFINED && config <= TwoViewGeometryConfig.MULTIPLE
+    ? (config as TwoViewGeometryConfig)
+    : TwoViewGeometryConfig.UNDEFINED;
+}
+
+function getTableNames(db: ColmapDatabaseConnection): Set<string> {
+  return new Set(
+    queryRows(db, "SELECT name FROM sqlite_master WHERE type = 'table'").map((row) => String(row[0]))
+  );
+}
+
+function getColumnNames(db: ColmapDatabaseConnection, table: string): Set<string> {
+  return new Set(queryRows(db, `PRAGMA table_info(${table})`).map((row) => String(row[1])));
+}
+
+/** Encode an image pair into COLMAP's pair_id (order-independent). */
+export function imageIdsToPairId(imageIdA: ImageId, imageIdB: ImageId): number {
+  const [id1, id2] = imageIdA < imageIdB ? [imageIdA, imageIdB] : [imageIdB, imageIdA];
+  return id1 * COLMAP_MAX_NUM_IMAGES + id2;
+}
+
+/** Decode a COLMAP pair_id into its (smaller, larger) image ids. */
+export function pairIdToImageIds(pairId: number): [ImageId, ImageId] {
+  const imageId2 = pairId % COLMAP_MAX_NUM_IMAGES;
+  const imageId1 = Math.round((pairId - imageId2) / COLMAP_MAX_NUM_IMAGES);
+  return [imageId1, imageId2];
+}
+
+// pair_id values exceed 2^53 for large image ids, so pairs are decoded and matched
+// in SQLite's 64-bit integer arithmetic instead of via JS numbers.
+const PAIR_ID_COLUMNS = `pair_id / ${COLMAP_MAX_NUM_IMAGES}, pair_id % ${COLMAP_MAX_NUM_IMAGES}`;
+const PAIR_ID_WHERE = `pair_id = ? * ${COLMAP_MAX_NUM_IMAGES} + ?`;
+
+function readCameras(db: ColmapDatabaseConnection): Map<CameraId, Camera> {
+  const cameras = new Map<CameraId, Camera>();
+  for (const row of queryRows(db, 'SELECT camera_id, model, width, height, params FROM cameras')) {
+    const cameraId = toInteger(row[0]);
+    const modelId = toInteger(row[1]);
+    if (!isCameraModelId(modelId)) {
+      appLogger.warn(`[colmapDatabase] Skipping camera ${cameraId} with unsupported model id ${modelId}`);
+      continue;
+    }
+    cameras.set(cameraId, {
+      cameraId,
+      modelId,
+      width: toInteger(row[2]),
+      height: toInteger(row[3]),
+      params: decodeFloat64Blob(row[4]) ?? [],
+    });
+  }
+  return cameras;
+}
+
+function readImages(db: ColmapDatabaseConnection, tables: Set<string>): Map<ImageId, DatabaseImage> {
+  const images = new Map<ImageId, DatabaseImage>();
+  for (const row of queryRows(db, 'SELECT image_id, name, camera_id FROM images')) {
+    const imageId = toInteger(row[0]);
+    images.set(imageId, {
+      imageId,
+      name: String(row[1] ?? ''),
+      cameraId: toInteger(row[2]),
+      numKeypoints: 0,
+      numDescriptors: 0,
+      descriptorDim: 0,
+    });
+  }
+
+  if (tables.has('keypoints')) {
+    for (const row of queryRows(db, 'SELECT image_id, rows FROM keypoints')) {
+      const image = images.get(toInteger(row[0]));
+      if (image) image.numKeypoints = toInteger(row[1]);
+    }
+  }
+  if (tables.has('descriptors')) {
+    for (const row of queryRows(db, 'SELECT image_id, rows, cols FROM descriptors')) {
+      const image = images.get(toInteger(row[0]));
+      if (image) {
+        image.numDescriptors = toInteger(row[1]);
+        image.descriptorDim = toInteger(row[2]);
+      }
+    }
+  }
+  return images;
+}
+
+function readPairs(db: ColmapDatabaseConnection, tables: Set<string>): DatabaseImagePair[] {
+  const pairs = new Map<string, DatabaseImagePair>();
+  const getPair = (imageId1: ImageId, imageId2: ImageId): DatabaseImagePair => {
+    const key = `${imageId1}-${imageId2}`;
+    let pair = pairs.get(key);
+    if (!pair) {
+      pair = { imageId1, imageId2, numMatches: 0, numInliers: 0, config: null };
+      pairs.set(key, pair);
+    }
+    return pair;
+  };
+
+  if (tables.has('matches')) {
+    for (const row of queryRows(db, `SELECT ${PAIR_ID_COLUMNS}, rows FROM matches`)) {
+      getPair(toInteger(row[0]), toInteger(row[1])).numMatches = toInteger(row[2]);
+    }
+  }
+  if (tables.has('two_view_geometries')) {
+    for (const row of queryRows(db, `SELECT ${PAIR_ID_COLUMNS}, rows, config FROM two_view_geometries`)) {
+      const pair = getPair(toInteger(row[0]), toInteger(row[1]));
+      pair.numInliers = toInteger(row[2]);
+      pair.config = parseConfig(row[3]);
+    }
+  }
+
+  return Array.from(pairs.values()).filter((pair) => pair.numMatches > 0 || pair.config !== null);
+}
+
+/**
+ * Read the eager part of a COLMAP database.db: cameras, images with feature
+ * counts, and per-pair match/inlier counts. Keypoint and match blobs are left
+ * in the database and read on demand.
+ */
+export function readColmapDatabaseSummary(db: ColmapDatabaseConnection): ColmapDatabaseSummary {
+  const tables = getTableNames(db);
+  for (const required of ['cameras', 'images']) {
+    if (!tables.has(required)) {
+      throw new Error(`Not a COLMAP database: missing "${required}" table`);
+    }
+  }
+
+  return {
+    cameras: readCameras(db),
+    images: readImages(db, tables),
+    pairs: readPairs(db, tables),
+  };
+}
+
+/** Read keypoint locations for one image (extra affine columns are dropped). */
+export function readDatabaseKeypoints(db: ColmapDatabaseConnection, imageId: ImageId): DatabaseKeypoints {
+  const [row] = queryRows(db, 'SELECT rows, cols, data FROM keypoints WHERE image_id = ?', [imageId]);
+  const blob = row ? toBlob(row[2]) : null;
+  const numRows = row ? toInteger(row[0]) : 0;
+  const cols = row ? toInteger(row[1]) : 0;
+  if (!blob || cols < 2 || blob.byteLength < numRows * cols * 4) {
+    return { imageId, xy: new Float32Array(0) };
+  }
+
+  const xy = new Float32Array(numRows * 2);
+  const data = new Float32Array(alignedBuffer(blob), 0, numRows * cols);
+  for (let i = 0; i < numRows; i++) {
+    xy[i * 2] = data[i * cols];
+    xy[i * 2 + 1] = data[i * cols + 1];
+  }
+  return { imageId, xy };
+}
+
+function swapMatchColumns(matches: Uint32Array): Uint32Array {
+  const swapped = new Uint32Array(matches.length);
+  for (let i = 0; i < matches.length; i += 2) {
+    swapped[i] = matches[i + 1];
+    swapped[i + 1] = matches[i];
+  }
+  return swapped;
+}
+
+function readMatchBlob(
+  db: ColmapDatabaseConnection,
+  table: 'matches' | 'two_view_geometries',
+  imageId1: ImageId,
+  imageId2: ImageId
+): Uint32Array {
+  const [row] = queryRows(db, `SELECT rows, cols, data FROM ${table} WHERE ${PAIR_ID_WHERE}`, [imageId1, imageId2]);
+  if (!row || toInteger(row[1]) !== 2) return new Uint32Array(0);
+  return decodeUint32Blob(row[2], toInteger(row[0]) * 2);
+}
+
+function readTwoViewGeometry(
+  db: ColmapDatabaseConnection,
+  imageId1: ImageId,
+  imageId2: ImageId
+): DatabaseTwoViewGeometry | null {
+  const columns = getColumnNames(db, 'two_view_geometries');
+  const optional = ['F', 'E', 'H', 'qvec', 'tvec'].filter((name) => columns.has(name));
+  const [row] = queryRows(
+    db,
+    `SELECT ${['config', ...optional].join(', ')} FROM two_view_geometries WHERE ${PAIR_ID_WHERE}`,
+    [imageId1, imageId2]
+  );
+  if (!row) return null;
+
+  const valueOf = (name: string): number[] | null => {
+    const index = optional.indexOf(name);
+    return index >= 0 ? decodeFloat64Blob(row[index + 1]) : null;
+  };
+  const matrix = (name: string) => {
+    const values = valueOf(name);
+    return values && values.length === 9 ? values : null;
+  };
+  const qvec = valueOf('qvec');
+  const tvec = valueOf('tvec');
+
+  return {
+    config: parseConfig(row[0]),
+    F: matrix('F'),
+    E: matrix('E'),
+    H: matrix('H'),
+    qvec: qvec && qvec.length === 4 ? [qvec[0], qvec[1], qvec[2], qvec[3]] : null,
+    tvec: tvec && tvec.length === 3 ? [tvec[0], tvec[1], tvec[2]] : null,
+  };
+}
+
+/**
+ * Read raw matches, verified inliers and two-view geometry for a pair, oriented
+ * so the first keypoint index of every match belongs to imageIdA. Stored
+ * geometry is kept as COLMAP wrote it (relative to the smaller image id).
+ */
+export function readDatabasePairMatches(
+  db: ColmapDatabaseConnection,
+  imageIdA: ImageId,
+  imageIdB: ImageId
+): DatabasePairMatches {
+  const tables = getTableNames(db);
+  const swapped = imageIdA > imageIdB;
+  const [id1, id2] = swapped ? [imageIdB, imageIdA] : [imageIdA, imageIdB];
+
+  const rawMatches = tables.has('matches') ? readMatchBlob(db, 'matches', id1, id2) : new Uint32Array(0);
+  const inlierMatches = tables.has('two_view_geometries')
+    ? readMatchBlob(db, 'two_view_geometries', id1, id2)
+    : new Uint32Array(0);
+  const geometry = tables.has('two_view_geometries') ? readTwoViewGeometry(db, id1, id2) : null;
+
+  return {
+    imageId1: imageIdA,
+    imageId2: imageIdB,
+    rawMatches: swapped ? swapMatchColumns(rawMatches) : rawMatches,
+    inlierMatches: swapped ? swapMatchColumns(inlierMatches) : inlierMatches,
+    geometry,
+  };
+}
+
+/**
+ * Open database bytes with sql.js. The module and its wasm are loaded lazily so
+ * the ~1 MB runtime is only fetched when a database.db is actually dropped.
+ */
+export async function openSqlJsDatabase(buffer: ArrayBuffer, wasmUrl?: string): Promise<Database> {
+  const { default: initSqlJs } = await import('sql.js');
+  const SQL = await initSqlJs(wasmUrl ? { locateFile: () => wasmUrl } : undefined);
+  return new SQL.Database(new Uint8Array(buffer));
+}
@@ -0,0 +1,65 @@
+import type { Database } from 'sql.js';
+import {
+  openSqlJsDatabase,
+  readColmapDatabaseSummary,
+  readDatabaseKeypoints,
+  readDatabasePairMatches,
+} from './colmapDatabase';
+import type {
+  ColmapDatabaseWorkerRequest,
+  ColmapDatabaseWorkerResponse,
+} from './colmapDatabaseWorkerProtocol';
+
+type ColmapDatabaseWorkerGlobal = {
+  onmessage: ((event: MessageEvent<ColmapDatabaseWorkerRequest>) => void) | null;
+  postMessage: (message: ColmapDatabaseWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const workerSelf = self as unknown as ColmapDatabaseWorkerGlobal;
+
+// One worker serves one database for its lifetime; the loader terminates it on close.
+let database: Promise<Database> | null = null;
+
+workerSelf.onmessage = (event: MessageEvent<ColmapDatabaseWorkerRequest>) => {
+  const request = event.data;
+  void handleRequest(request)
+    .catch((error: unknown) => {
+      workerSelf.postMessage({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      } satisfies ColmapDatabaseWorkerResponse);
+    });
+};
+
+async function handleRequest(request: ColmapDatabaseWorkerRequest): Promise<void> {
+  switch (request.type) {
+    case 'open': {
+      database = openSqlJsDatabase(request.buffer, request.wasmUrl);
+      const summary = readColmapDatabaseSummary(await database);
+      workerSelf.postMessage({ type: 'opened', id: request.id, summary });
+      return;
+    }
+    case 'keypoints': {
+      const keypoints = readDatabaseKeypoints(await requireDatabase(), request.imageId);
+      workerSelf.postMessage({ type: 'keypoints', id: request.id, keypoints }, [keypoints.xy.buffer]);
+      return;
+    }
+    case 'pair': {
+      const matches = readDatabasePairMatches(await requireDatabase(), request.imageId1, request.imageId2);
+      workerSelf.postMessage(
+        { type: 'pair', id: request.id, matches },
+        [matches.rawMatches.buffer, matches.inlierMatches.buffer]
+      );
+      return;
+    }
+  }
+}
+
+function requireDatabase(): Promise<Database> {
+  if (!database) {
+    throw new Error('COLMAP database worker has no open database');
+  }
+  return database;
+}
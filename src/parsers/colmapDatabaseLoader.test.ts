@@ -0,0 +1,96 @@
+import initSqlJs from 'sql.js';
+import { describe, expect, it, vi } from 'vitest';
+import { imageIdsToPairId } from './colmapDatabase';
+import { loadColmapDatabase } from './colmapDatabaseLoader';
+import type {
+  ColmapDatabaseWorkerRequest,
+  ColmapDatabaseWorkerResponse,
+} from './colmapDatabaseWorkerProtocol';
+
+async function createDatabaseFile(): Promise<File> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE cameras (camera_id INTEGER PRIMARY KEY, model INTEGER, width INTEGER, height INTEGER, params BLOB, prior_focal_length INTEGER)');
+  db.run('CREATE TABLE images (image_id INTEGER PRIMARY KEY, name TEXT, camera_id INTEGER)');
+  db.run('CREATE TABLE keypoints (image_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)');
+  db.run('CREATE TABLE matches (pair_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)');
+  db.run('INSERT INTO cameras VALUES (1, 0, 100, 100, ?, 0)', [new Uint8Array(new Float64Array([50, 50, 50]).buffer)]);
+  db.run(`INSERT INTO images VALUES (1, 'a.jpg', 1), (2, 'b.jpg', 1)`);
+  db.run('INSERT INTO keypoints VALUES (1, 1, 2, ?)', [new Uint8Array(new Float32Array([4, 5]).buffer)]);
+  db.run('INSERT INTO matches VALUES (?, 1, 2, ?)', [imageIdsToPairId(1, 2), new Uint8Array(new Uint32Array([0, 0]).buffer)]);
+  const bytes = db.export();
+  db.close();
+  return new File([bytes], 'database.db');
+}
+
+function createFakeWorker(respond: (request: ColmapDatabaseWorkerRequest) => ColmapDatabaseWorkerResponse | null) {
+  const worker = {
+    onmessage: null as ((event: MessageEvent<ColmapDatabaseWorkerResponse>) => void) | null,
+    onerror: null as ((event: ErrorEvent) => void) | null,
+    terminate: vi.fn(),
+    postMessage: vi.fn((request: ColmapDatabaseWorkerRequest) => {
+      const response = respond(request);
+      if (!response) return;
+      queueMicrotask(() => {
+        worker.onmessage?.({ data: response } as MessageEvent<ColmapDatabaseWorkerResponse>);
+      });
+    }),
+  };
+  return worker;
+}
+
+const emptySummary = { cameras: new Map(), images: new Map(), pairs: [] };
+
+describe('loadColmapDatabase', () => {
+  it('reads the summary and blobs in-process when no worker is available', async () => {
+    const reader = await loadColmapDatabase(await createDatabaseFile(), {
+      openDatabase: async (buffer) => new (await initSqlJs()).Database(new Uint8Array(buffer)),
+    });
+
+    expect([...reader.summary.images.keys()]).toEqual([1, 2]);
+    expect(reader.summary.pairs).toEqual([
+      { imageId1: 1, imageId2: 2, numMatches: 1, numInliers: 0, config: null },
+    ]);
+    expect(Array.from((await reader.readKeypoints(1)).xy)).toEqual([4, 5]);
+    expect(Array.from((await reader.readPairMatches(2, 1)).rawMatches)).toEqual([0, 0]);
+    reader.close();
+  });
+
+  it('rejects files that are not COLMAP databases', async () => {
+    await expect(loadColmapDatabase(new File([new Uint8Array(0)], 'database.db'), {
+      openDatabase: async (buffer) => new (await initSqlJs()).Database(new Uint8Array(buffer)),
+    })).rejects.toThrow(/Not a COLMAP database/);
+  });
+
+  it('routes requests through the worker and surfaces worker errors', async () => {
+    const worker = createFakeWorker((request) => {
+      if (request.type === 'open') {
+        return { type: 'opened', id: request.id, summary: emptySummary };
+      }
+      return { type: 'error', id: request.id, message: 'no such pair' };
+    });
+
+    const reader = await loadColmapDatabase(new File(['x'], 'database.db'), {
+      createWorker: () => worker as unknown as Worker,
+    });
+    expect(reader.summary).toBe(emptySummary);
+    expect(worker.postMessage.mock.calls[0][0]).toMatchObject({ type: 'open' });
+
+    await expect(reader.readPairMatches(1, 2)).rejects.toThrow('no such pair');
+  });
+
+  it('rejects in-flight requests and terminates the worker on close', async () => {
+    const worker = createFakeWorker((request) => (
+      request.type === 'open' ? { type: 'opened', id: request.id, summary: emptySummary } : null
+    ));
+    const reader = await loadColmapDatabase(new File(['x'], 'database.db'), {
+      createWorker: () => worker as unknown as Worker,
+    });
+
+    const keypoints = reader.readKeypoints(1);
+    reader.close();
+
+    await expect(keypoints).rejects.toThrow('COLMAP database was closed');
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,208 @@
+import type { ImageId } from '../types/colmap';
+import type {
+  ColmapDatabaseSummary,
+  DatabaseKeypoints,
+  DatabasePairMatches,
+} from '../types/colmapDatabase';
+import { publicAsset } from '../utils/paths';
+import {
+  openSqlJsDatabase,
+  readColmapDatabaseSummary,
+  readDatabaseKeypoints,
+  readDatabasePairMatches,
+  type ColmapDatabaseConnection,
+} from './colmapDatabase';
+import type {
+  ColmapDatabaseWorkerRequest,
+  ColmapDatabaseWorkerResponse,
+} from './colmapDatabaseWorkerProtocol';
+
+/** An open database.db: the eager summary plus on-demand blob reads. */
+export interface ColmapDatabaseReader {
+  summary: ColmapDatabaseSummary;
+  readKeypoints: (imageId: ImageId) => Promise<DatabaseKeypoints>;
+  readPairMatches: (imageId1: ImageId, imageId2: ImageId) => Promise<DatabasePairMatches>;
+  close: () => void;
+}
+
+type ClosableConnection = ColmapDatabaseConnection & { close: () => void };
+
+export interface ColmapDatabaseLoaderDeps {
+  createWorker?: (() => Worker | null) | null;
+  /** In-process opener used when no worker is available. */
+  openDatabase?: (buffer: ArrayBuffer) => Promise<ClosableConnection>;
+}
+
+type RequestWithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+let nextWorkerRequestId = 1;
+
+function getSqlWasmUrl(): string {
+  // Workers resolve relative URLs against the worker script, so hand them an absolute one.
+  const path = publicAsset('sql-wasm.wasm');
+  return typeof location !== 'undefined' ? new URL(path, location.href).href : path;
+}
+
+/**
+ * Open a dropped COLMAP database.db. Parsing runs in a module worker when
+ * available, falling back to the main thread (tests, or Worker-less runtimes).
+ */
+export async function loadColmapDatabase(
+  file: File,
+  deps: ColmapDatabaseLoaderDeps = {}
+): Promise<ColmapDatabaseReader> {
+  const buffer = await readFileAsArrayBuffer(file);
+  const workerFactory = deps.createWorker === undefined
+    ? createDefaultColmapDatabaseWorker
+    : deps.createWorker;
+  const worker = deps.openDatabase ? null : workerFactory?.();
+  if (!worker) {
+    const open = deps.openDatabase ?? ((bytes: ArrayBuffer) => openSqlJsDatabase(bytes, getSqlWasmUrl()));
+    return openInProcess(await open(buffer));
+  }
+  return openInWorker(worker, buffer);
+}
+
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  if (typeof file.arrayBuffer === 'function') {
+    return file.arrayBuffer();
+  }
+
+  if (typeof FileReader !== 'function') {
+    return Promise.reject(new Error('FileReader is unavailable'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.onload = () => {
+      if (reader.result instanceof ArrayBuffer) {
+        resolve(reader.result);
+        return;
+      }
+      reject(new Error(`Failed to read ${file.name} as an ArrayBuffer`));
+    };
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+function openInProcess(db: ClosableConnection): ColmapDatabaseReader {
+  let summary: ColmapDatabaseSummary;
+  try {
+    summary = readColmapDatabaseSummary(db);
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+
+  return {
+    summary,
+    readKeypoints: async (imageId) => readDatabaseKeypoints(db, imageId),
+    readPairMatches: async (imageId1, imageId2) => readDatabasePairMatches(db, imageId1, imageId2),
+    close: () => db.close(),
+  };
+}
+
+function createDefaultColmapDatabaseWorker(): Worker | null {
+  if (typeof Worker !== 'function') {
+    return null;
+  }
+
+  try {
+    return new Worker(new URL('./colmapDatabase.worker.ts', import.meta.url), {
+      type: 'module',
+      name: 'colmap-database',
+    });
+  } catch {
+    return null;
+  }
+}
+
+async function openInWorker(worker: Worker, buffer: ArrayBuffer): Promise<ColmapDatabaseReader> {
+  const pending = new Map<number, {
+    resolve: (response: ColmapDatabaseWorkerResponse) => void;
+    reject: (error: Error) => void;
+  }>();
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    worker.onmessage = null;
+    worker.onerror = null;
+    worker.terminate();
+    for (const { reject } of pending.values()) {
+      reject(new Error('COLMAP database was closed'));
+    }
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<ColmapDatabaseWorkerResponse>) => {
+    const response = event.data;
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    pending.delete(response.id);
+
+    if (response.type === 'error') {
+      const error = new Error(response.message);
+      if (response.stack) {
+        error.stack = response.stack;
+      }
+      entry.reject(error);
+      return;
+    }
+    entry.resolve(response);
+  };
+  worker.onerror = (event) => {
+    const error = new Error(event.message || 'COLMAP database worker failed');
+    for (const { reject } of pending.values()) {
+      reject(error);
+    }
+    pending.clear();
+  };
+
+  const send = (
+    request: RequestWithoutId<ColmapDatabaseWorkerRequest>,
+    transfer: Transferable[] = []
+  ): Promise<ColmapDatabaseWorkerResponse> => {
+    if (closed) {
+      return Promise.reject(new Error('COLMAP database was closed'));
+    }
+    const id = nextWorkerRequestId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...request, id }, transfer);
+    });
+  };
+
+  let opened: ColmapDatabaseWorkerResponse;
+  try {
+    opened = await send({ type: 'open', buffer, wasmUrl: getSqlWasmUrl() }, [buffer]);
+  } catch (error) {
+    close();
+    throw error;
+  }
+  if (opened.type !== 'opened') {
+    close();
+    throw new Error(`Unexpected COLMAP database worker response: ${opened.type}`);
+  }
+
+  return {
+    summary: opened.summary,
+    readKeypoints: async (imageId) => {
+      const response = await send({ type: 'keypoints', imageId });
+      if (response.type !== 'keypoints') {
+        throw new Error(`Unexpected COLMAP database worker response: ${response.type}`);
+      }
+      return response.keypoints;
+    },
+    readPairMatches: async (imageId1, imageId2) => {
+      const response = await send({ type: 'pair', imageId1, imageId2 });
+      if (response.type !== 'pair') {
+        throw new Error(`Unexpected COLMAP database worker response: ${response.type}`);
+      }
+      return response.matches;
+    },
+    close,
+  };
+}
@@ -0,0 +1,62 @@
+import type { ImageId } from '../types/colmap';
+import type {
+  ColmapDatabaseSummary,
+  DatabaseKeypoints,
+  DatabasePairMatches,
+} from '../types/colmapDatabase';
+
+export interface ColmapDatabaseWorkerOpenRequest {
+  type: 'open';
+  id: number;
+  buffer: ArrayBuffer;
+  wasmUrl: string;
+}
+
+export interface ColmapDatabaseWorkerKeypointsRequest {
+  type: 'keypoints';
+  id: number;
+  imageId: ImageId;
+}
+
+export interface ColmapDatabaseWorkerPairRequest {
+  type: 'pair';
+  id: number;
+  imageId1: ImageId;
+  imageId2: ImageId;
+}
+
+export type ColmapDatabaseWorkerRequest =
+  | ColmapDatabaseWorkerOpenRequest
+  | ColmapDatabaseWorkerKeypointsRequest
+  | ColmapDatabaseWorkerPairRequest;
+
+export interface ColmapDatabaseWorkerOpenedResponse {
+  type: 'opened';
+  id: number;
+  summary: ColmapDatabaseSummary;
+}
+
+export interface ColmapDatabaseWorkerKeypointsResponse {
+  type: 'keypoints';
+  id: number;
+  keypoints: DatabaseKeypoints;
+}
+
+export interface ColmapDatabaseWorkerPairResponse {
+  type: 'pair';
+  id: number;
+  matches: DatabasePairMatches;
+}
+
+export interface ColmapDatabaseWorkerErrorResponse {
+  type: 'error';
+  id: number;
+  message: string;
+  stack?: string;
+}
+
+export type ColmapDatabaseWorkerResponse =
+  | ColmapDatabaseWorkerOpenedResponse
+  | ColmapDatabaseWorkerKeypointsResponse
+  | ColmapDatabaseWorkerPairResponse
+  | ColmapDatabaseWorkerErrorResponse;
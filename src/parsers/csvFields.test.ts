@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvField, formatCsvRow, splitCsvRecord } from './csvFields';
+
+describe('csv fields', () => {
+  it('quotes only fields that need it and doubles embedded quotes', () => {
+    expect(formatCsvField('plain name.jpg')).toBe('plain name.jpg');
+    expect(formatCsvField(12.5)).toBe('12.5');
+    expect(formatCsvField('a,b;c')).toBe('"a,b;c"');
+    expect(formatCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(formatCsvRow([1, 'a,b', ''])).toBe('1,"a,b",');
+  });
+
+  it('splits quoted records back into the original fields', () => {
+    const fields = ['a,b', 'say "hi"', '', 'tab\there'];
+    expect(splitCsvRecord(formatCsvRow(fields), ',')).toEqual(fields);
+    expect(splitCsvRecord('x;"y;z";', ';')).toEqual(['x', 'y;z', '']);
+  });
+});
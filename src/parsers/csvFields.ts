@@ -0,0 +1,46 @@
+/**
+ * CSV field quoting shared by the exporters (RFC 4180): fields holding a
+ * comma, quote or line break are wrapped in quotes with embedded quotes
+ * doubled, so names survive verbatim instead of being rewritten.
+ */
+
+export function formatCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(fields: readonly (string | number)[]): string {
+  return fields.map(formatCsvField).join(',');
+}
+
+/**
+ * Split one record on `delimiter`, honouring quoted fields and doubled
+ * quotes. Records spanning several lines are not supported.
+ */
+export function splitCsvRecord(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { GCP_CSV_HEADER, parseGcpCsv, writeGcpCsv } from './gcpCsv';
+
+describe('gcp CSV', () => {
+  it('reads surveyed lists with a header, in comma or whitespace layout', () => {
+    expect(parseGcpCsv('id,east,north,height\nA,500100.5,4100200,12.25\nB 500110 4100200 12\n')).toEqual([
+      { name: 'A', world: [500100.5, 4100200, 12.25], model: null },
+      { name: 'B', world: [500110, 4100200, 12], model: null },
+    ]);
+  });
+
+  it('round-trips model coordinates and names without world coordinates', () => {
+    const rows = [
+      { name: 'A', world: [1, 2, 3] as [number, number, number], model: [0.1, 0.2, 0.3] as [number, number, number] },
+      { name: 'pending', world: null, model: [4, 5, 6] as [number, number, number] },
+    ];
+
+    const text = writeGcpCsv(rows);
+
+    expect(text.split('\n')[0]).toBe(GCP_CSV_HEADER);
+    expect(text).toContain('pending,,,,4,5,6');
+    expect(parseGcpCsv(text)).toEqual(rows);
+  });
+
+  it('keeps names with separators or quotes verbatim', () => {
+    const rows = [
+      { name: 'Roof, NE "corner"', world: [1, 2, 3] as [number, number, number], model: null },
+      { name: 'wall;2', world: [4, 5, 6] as [number, number, number], model: null },
+    ];
+
+    const text = writeGcpCsv(rows);
+
+    expect(text).toContain('"Roof, NE ""corner""",1,2,3,,,');
+    expect(parseGcpCsv(text)).toEqual(rows);
+  });
+
+  it('rejects files without any GCP row', () => {
+    expect(() => parseGcpCsv('name,x,y,z\n')).toThrow(/No GCP rows/);
+  });
+});
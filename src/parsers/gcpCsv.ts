@@ -0,0 +1,64 @@
+/**
+ * Ground control point lists as CSV: `name,x,y,z[,model_x,model_y,model_z]`.
+ *
+ * x/y/z are the known world coordinates; the model columns are written on
+ * export so a list can be reloaded into the same reconstruction. Comma,
+ * semicolon, tab or plain whitespace separated, with quoted names; a
+ * non-numeric header row is skipped.
+ */
+
+import { parseColmapNumberTokens } from './colmapTextTokens';
+import { formatCsvRow, splitCsvRecord } from './csvFields';
+
+export const GCP_CSV_HEADER = 'name,x,y,z,model_x,model_y,model_z';
+
+type Vec3Tuple = [number, number, number];
+
+export interface GcpCsvRow {
+  name: string;
+  world: Vec3Tuple | null;
+  /** Model-space position; only present in lists exported from a reconstruction. */
+  model: Vec3Tuple | null;
+}
+
+const FIELD_DELIMITERS = [',', ';', '\t'] as const;
+
+function splitFields(line: string): string[] {
+  const delimiter = FIELD_DELIMITERS.find((candidate) => line.includes(candidate));
+  const fields = delimiter ? splitCsvRecord(line, delimiter) : line.trim().split(/\s+/);
+  return fields.map((field) => field.trim());
+}
+
+/** Three numeric fields, null when all are empty, undefined when malformed. */
+function parseTriple(fields: readonly string[]): Vec3Tuple | null | undefined {
+  if (fields.every((field) => field === '')) return null;
+  const values = parseColmapNumberTokens(fields);
+  return values?.length === 3 ? [values[0], values[1], values[2]] : undefined;
+}
+
+export function parseGcpCsv(text: string): GcpCsvRow[] {
+  const rows: GcpCsvRow[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+    const fields = [...splitFields(line), '', '', '', '', '', ''];
+    const name = fields[0];
+    const world = parseTriple(fields.slice(1, 4));
+    const model = parseTriple(fields.slice(4, 7));
+    // Header rows and other malformed lines are skipped.
+    if (!name || world === undefined || model === undefined) continue;
+    rows.push({ name, world, model });
+  }
+  if (rows.length === 0) {
+    throw new Error('No GCP rows found: expected name,x,y,z');
+  }
+  return rows;
+}
+
+function getTripleFields(values: Vec3Tuple | null): (number | string)[] {
+  return values ?? ['', '', ''];
+}
+
+export function writeGcpCsv(rows: readonly GcpCsvRow[]): string {
+  const lines = rows.map((row) => formatCsvRow([row.name, ...getTripleFields(row.world), ...getTripleFields(row.model)]));
+  return [GCP_CSV_HEADER, ...lines].join('\n') + '\n';
+}
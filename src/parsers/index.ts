@@ -16,7 +16,16 @@ export { parseRigsBinary, parseRigsText } from './rigs';
 export { parseFramesBinary, parseFramesText } from './frames';
 export { computeImageStats, computeImageStatsFromWasm } from './imageStats';
 export type { ImageToPoint3DIdsMap } from './imageStats';
-export { parseWithWasm } from './wasmParser';
+export { buildWasmReconstructionFromData, parseWithWasm } from './wasmParser';
+export { parseReferencePoses } from './referencePoses';
+export type { ReferencePoseEntry, ReferencePoseFormat, ReferencePoses } from './referencePoses';
+export { GCP_CSV_HEADER, parseGcpCsv, writeGcpCsv, type GcpCsvRow } from './gcpCsv';
+export {
+  MEASUREMENT_CSV_HEADER,
+  getMeasurementFeatureCollection,
+  writeMeasurementsCsv,
+  writeMeasurementsJson,
+} from './measurementExport';
 export {
   // Text writers
   writeCamerasText,
@@ -33,9 +42,14 @@ export {
   exportReconstructionText,
   exportReconstructionBinary,
   exportPointsPLY,
+  // NeRF / 3DGS pose export
+  exportTransformsJson,
+  exportLlffPosesBounds,
   // ZIP export
   exportReconstructionZip,
   downloadReconstructionZip,
+  // Undistorted dataset export
+  downloadUndistortedReconstructionZip,
   // Image ZIP export
   exportImagesZip,
   downloadImagesZip,
@@ -43,4 +57,4 @@ export {
   exportMasksZip,
   downloadMasksZip,
 } from './writers';
-export type { ZipExportOptions, ZipExportProgressCallback, ImageZipExportOptions, ImageZipProgressCallback, ImageFetchFunction, MaskFetchFunction } from './writers';
+export type { ZipExportOptions, ZipExportProgressCallback, ImageZipExportOptions, ImageZipProgressCallback, ImageFetchFunction, MaskFetchFunction, NerfExportSummary, TransformsJsonFormat, UndistortedZipExportOptions, UndistortedZipExportSummary } from './writers';
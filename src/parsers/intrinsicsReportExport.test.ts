@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraIntrinsicsReport } from '../utils/intrinsicsReport';
+import { writeIntrinsicsReportHtml, writeIntrinsicsReportJson } from './intrinsicsReportExport';
+
+function buildReport(overrides: Partial<CameraIntrinsicsReport> = {}): CameraIntrinsicsReport {
+  return {
+    cameraId: 1,
+    modelName: 'OPENCV',
+    width: 640,
+    height: 480,
+    params: [{ name: 'fx', value: 500 }],
+    imageCount: 2,
+    keypointCount: 40,
+    residualCount: 30,
+    meanError: 0.8,
+    medianError: 0.6,
+    maxError: 3,
+    radialBins: [
+      { radius: 0.25, count: 10, meanError: 0.5, meanRadialError: 0.1 },
+      { radius: 0.75, count: 20, meanError: 1, meanRadialError: 0.6 },
+    ],
+    distortionWarnings: ['Border residuals point outward consistently'],
+    coverage: { cols: 2, rows: 1, counts: [40, 0], coveredFraction: 0.5 },
+    distortionCurve: [{ radius: 0, displacement: 0 }, { radius: 1, displacement: -12 }],
+    simplerModels: [
+      { modelName: 'PINHOLE', paramCount: 4, compatibility: 'approximate', maxModelDifference: 4.2, meanError: 2.5 },
+    ],
+    imageErrors: [{ imageId: 7, name: '<b>.jpg', residualCount: 15, meanError: 1.1 }],
+    ...overrides,
+  };
+}
+
+describe('intrinsicsReportExport', () => {
+  it('writes the reports as JSON under a cameras key', () => {
+    const parsed = JSON.parse(writeIntrinsicsReportJson([buildReport()]));
+
+    expect(parsed.cameras).toHaveLength(1);
+    expect(parsed.cameras[0]).toMatchObject({ cameraId: 1, modelName: 'OPENCV', meanError: 0.8 });
+  });
+
+  it('writes a standalone HTML page with plots, tables and escaped names', () => {
+    const html = writeIntrinsicsReportHtml([buildReport()], 'Report & notes');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Report &amp; notes</title>');
+    expect(html).toContain('Camera 1 · OPENCV · 640×480');
+    expect(html).toContain('Border residuals point outward consistently');
+    expect(html).toContain('<td>PINHOLE</td><td>4</td><td>approximate</td><td>4.200 px</td><td>2.500 px</td>');
+    expect(html).toContain('&lt;b&gt;.jpg');
+    expect(html).toContain('50% of 2×1 sensor cells hold keypoints');
+    expect(html.match(/<polyline/g)).toHaveLength(3);
+  });
+
+  it('notes cameras without a distortion curve or simpler model', () => {
+    const html = writeIntrinsicsReportHtml(
+      [buildReport({ distortionCurve: [], simplerModels: [], imageErrors: [] })],
+      'Report'
+    );
+
+    expect(html).toContain('No distortion curve for this model');
+    expect(html).toContain('No simpler model to compare.');
+    expect(html).not.toContain('Images with the largest error');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Serializers for the per-camera intrinsics report: JSON for scripts and a
+ * self-contained HTML page (inline SVG, no external assets) for sharing.
+ */
+
+import type { CameraIntrinsicsReport, DistortionCurveSample } from '../utils/intrinsicsReport';
+
+const HTML_IMAGE_ERROR_LIMIT = 10;
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 120;
+const COVERAGE_CELL_SIZE = 14;
+
+export function writeIntrinsicsReportJson(reports: readonly CameraIntrinsicsReport[]): string {
+  return JSON.stringify({ cameras: reports }, null, 2);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatPixels(value: number): string {
+  return Number.isFinite(value) ? `${value.toFixed(3)} px` : '–';
+}
+
+function polyline(points: readonly [number, number][], color: string): string {
+  if (points.length < 2) return '';
+  const coords = points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  return `<polyline points="${coords}" fill="none" stroke="${color}" stroke-width="1.5"/>`;
+}
+
+function radialPlot(report: CameraIntrinsicsReport): string {
+  const bins = report.radialBins.filter((bin) => bin.count > 0);
+  const max = Math.max(1e-6, ...bins.map((bin) => Math.max(bin.meanError, Math.abs(bin.meanRadialError))));
+  const mid = PLOT_HEIGHT / 2;
+  const errors = bins.map((bin): [number, number] => [bin.radius * PLOT_WIDTH, mid - (bin.meanError / max) * mid]);
+  const bias = bins.map((bin): [number, number] => [bin.radius * PLOT_WIDTH, mid - (bin.meanRadialError / max) * mid]);
+  return `<svg width="${PLOT_WIDTH}" height="${PLOT_HEIGHT}" class="plot">`
+    + `<line x1="0" y1="${mid}" x2="${PLOT_WIDTH}" y2="${mid}" stroke="#999"/>`
+    + polyline(errors, '#d33')
+    + polyline(bias, '#36c')
+    + '</svg>'
+    + `<div class="caption">Mean error (red) and radial bias (blue, + outward) vs. radius; full scale ±${max.toFixed(2)} px</div>`;
+}
+
+function distortionPlot(curve: readonly DistortionCurveSample[]): string {
+  const valid = curve.filter((sample): sample is { radius: number; displacement: number } => sample.displacement !== null);
+  if (valid.length < 2) return '<div class="caption">No distortion curve for this model</div>';
+  const max = Math.max(1e-6, ...valid.map((sample) => Math.abs(sample.displacement)));
+  const mid = PLOT_HEIGHT / 2;
+  const points = valid.map((sample): [number, number] => [
+    sample.radius * PLOT_WIDTH,
+    mid - (sample.displacement / max) * mid,
+  ]);
+  return `<svg width="${PLOT_WIDTH}" height="${PLOT_HEIGHT}" class="plot">`
+    + `<line x1="0" y1="${mid}" x2="${PLOT_WIDTH}" y2="${mid}" stroke="#999"/>`
+    + polyline(points, '#393')
+    + '</svg>'
+    + `<div class="caption">Radial displacement vs. radius to the farthest corner; full scale ±${max.toFixed(1)} px</div>`;
+}
+
+function coverageGrid(report: CameraIntrinsicsReport): string {
+  const { cols, rows, counts, coveredFraction } = report.coverage;
+  const max = Math.max(1, ...counts);
+  const cells = counts.map((count) => {
+    const alpha = count > 0 ? 0.15 + 0.85 * (count / max) : 0;
+    return `<div style="background:rgba(40,120,220,${alpha.toFixed(2)})" title="${count}"></div>`;
+  }).join('');
+  return `<div class="coverage" style="grid-template-columns:repeat(${cols},${COVERAGE_CELL_SIZE}px);`
+    + `grid-template-rows:repeat(${rows},${COVERAGE_CELL_SIZE}px)">${cells}</div>`
+    + `<div class="caption">${(coveredFraction * 100).toFixed(0)}% of ${cols}×${rows} sensor cells hold keypoints</div>`;
+}
+
+function cameraSection(report: CameraIntrinsicsReport): string {
+  const params = report.params
+    .map((param) => `<tr><td>${escapeHtml(param.name)}</td><td>${param.value.toPrecision(6)}</td></tr>`)
+    .join('');
+  const simpler = report.simplerModels.length > 0
+    ? '<table><tr><th>Model</th><th>Params</th><th>Conversion</th><th>Max model difference</th><th>Mean error</th></tr>'
+      + report.simplerModels.map((model) => `<tr><td>${escapeHtml(model.modelName)}</td><td>${model.paramCount}</td>`
+        + `<td>${model.compatibility}</td><td>${formatPixels(model.maxModelDifference)}</td>`
+        + `<td>${formatPixels(model.meanError)}</td></tr>`).join('')
+      + '</table>'
+    : '<p>No simpler model to compare.</p>';
+  const images = report.imageErrors.slice(0, HTML_IMAGE_ERROR_LIMIT)
+    .map((image) => `<tr><td>${escapeHtml(image.name)}</td><td>${image.residualCount}</td>`
+      + `<td>${formatPixels(image.meanError)}</td></tr>`)
+    .join('');
+  const warnings = report.distortionWarnings
+    .map((warning) => `<li>${escapeHtml(warning)}</li>`)
+    .join('');
+
+  return `<section><h2>Camera ${report.cameraId} · ${escapeHtml(report.modelName)} · ${report.width}×${report.height}</h2>`
+    + `<p>${report.imageCount} images · ${report.keypointCount} keypoints · ${report.residualCount} triangulated observations</p>`
+    + `<p>Reprojection error: mean ${formatPixels(report.meanError)}, median ${formatPixels(report.medianError)}, `
+    + `max ${formatPixels(report.maxError)}</p>`
+    + (warnings ? `<ul class="warnings">${warnings}</ul>` : '')
+    + `<div class="row"><div><h3>Parameters</h3><table>${params}</table></div>`
+    + `<div><h3>Keypoint coverage</h3>${coverageGrid(report)}</div></div>`
+    + `<div class="row"><div><h3>Residuals by radius</h3>${radialPlot(report)}</div>`
+    + `<div><h3>Distortion curve</h3>${distortionPlot(report.distortionCurve)}</div></div>`
+    + `<h3>Simpler models</h3>${simpler}`
+    + (images ? `<h3>Images with the largest error</h3><table><tr><th>Image</th><th>Observations</th><th>Mean error</th></tr>${images}</table>` : '')
+    + '</section>';
+}
+
+export function writeIntrinsicsReportHtml(reports: readonly CameraIntrinsicsReport[], title: string): string {
+  return '<!DOCTYPE html>\n<html><head><meta charset="utf-8">'
+    + `<title>${escapeHtml(title)}</title><style>`
+    + 'body{font:13px sans-serif;margin:24px;color:#222}h2{margin-top:32px}'
+    + 'table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:2px 8px;text-align:left}'
+    + '.row{display:flex;gap:32px;flex-wrap:wrap}.plot{border:1px solid #ccc}.caption{color:#666;font-size:11px}'
+    + '.coverage{display:grid;gap:1px;background:#ddd;width:max-content}.warnings{color:#b60}'
+    + `</style></head><body><h1>${escapeHtml(title)}</h1>`
+    + reports.map(cameraSection).join('')
+    + '</body></html>\n';
+}
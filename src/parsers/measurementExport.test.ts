@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { EvaluatedMeasurement } from '../utils/measurementGeometry';
+import { MEASUREMENT_CSV_HEADER, getMeasurementFeatureCollection, writeMeasurementsCsv } from './measurementExport';
+
+const measurements: EvaluatedMeasurement[] = [
+  {
+    measurement: { id: 1, name: 'Door, front', type: 'distance', points: [[0, 0, 0], [0, 2, 0]] },
+    worldPoints: [[0, 0, 0], [0, 2, 0]],
+    measured: { value: 2, unit: 'length', projectedOnFloor: false },
+    label: '2.000',
+  },
+  {
+    measurement: { id: 2, name: 'Patio', type: 'area', points: [[0, 0, 0], [1, 0, 0], [1, 1, 0]] },
+    worldPoints: [[0, 0, 0], [1, 0, 0], [1, 1, 0]],
+    measured: { value: 0.5, unit: 'area', projectedOnFloor: true },
+    label: 'A 0.500',
+  },
+  {
+    measurement: { id: 3, name: 'Lamp', type: 'height', points: [[2, 3, 4]] },
+    worldPoints: [[2, 3, 4]],
+    measured: { value: null, unit: 'length', projectedOnFloor: false },
+    label: 'no floor',
+  },
+];
+
+describe('measurement export', () => {
+  it('writes one CSV row per measurement with its value and points', () => {
+    expect(writeMeasurementsCsv(measurements).split('\n')).toEqual([
+      MEASUREMENT_CSV_HEADER,
+      '1,"Door, front",distance,2,length,0,2,0 0 0;0 2 0',
+      '2,Patio,area,0.5,area,1,3,0 0 0;1 0 0;1 1 0',
+      '3,Lamp,height,,length,0,1,2 3 4',
+      '',
+    ]);
+  });
+
+  it('builds features with point, line and closed polygon geometry', () => {
+    const { features } = getMeasurementFeatureCollection(measurements);
+
+    expect(features.map((feature) => feature.geometry)).toEqual([
+      { type: 'LineString', coordinates: [[0, 0, 0], [0, 2, 0]] },
+      { type: 'Polygon', coordinates: [[[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 0, 0]]] },
+      { type: 'Point', coordinates: [2, 3, 4] },
+    ]);
+    expect(features[1].properties).toEqual({
+      name: 'Patio',
+      measurement: 'area',
+      value: 0.5,
+      unit: 'area',
+      projectedOnFloor: true,
+    });
+  });
+});
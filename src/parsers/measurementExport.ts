@@ -0,0 +1,82 @@
+/**
+ * Serializers for measurements: one CSV row per measurement with its value
+ * and points, and a GeoJSON-style FeatureCollection with 3D coordinates.
+ * Both use the displayed frame, so values and points include the active
+ * transform.
+ */
+
+import type { MeasurementType } from '../store/types';
+import type { EvaluatedMeasurement, MeasurementPoint, MeasurementUnit } from '../utils/measurementGeometry';
+import { formatCsvRow } from './csvFields';
+
+export const MEASUREMENT_CSV_HEADER = 'id,name,type,value,unit,projected_on_floor,point_count,points';
+
+type MeasurementGeometry =
+  | { type: 'Point'; coordinates: MeasurementPoint }
+  | { type: 'LineString'; coordinates: MeasurementPoint[] }
+  | { type: 'Polygon'; coordinates: MeasurementPoint[][] };
+
+export interface MeasurementFeature {
+  type: 'Feature';
+  id: number;
+  geometry: MeasurementGeometry;
+  properties: {
+    name: string;
+    measurement: MeasurementType;
+    value: number | null;
+    unit: MeasurementUnit;
+    projectedOnFloor: boolean;
+  };
+}
+
+export interface MeasurementFeatureCollection {
+  type: 'FeatureCollection';
+  features: MeasurementFeature[];
+}
+
+function formatRow({ measurement, worldPoints, measured }: EvaluatedMeasurement): string {
+  return formatCsvRow([
+    measurement.id,
+    measurement.name,
+    measurement.type,
+    measured.value === null ? '' : String(measured.value),
+    measured.unit,
+    measured.projectedOnFloor ? 1 : 0,
+    worldPoints.length,
+    worldPoints.map((point) => point.join(' ')).join(';'),
+  ]);
+}
+
+export function writeMeasurementsCsv(measurements: readonly EvaluatedMeasurement[]): string {
+  return [MEASUREMENT_CSV_HEADER, ...measurements.map(formatRow)].join('\n') + '\n';
+}
+
+function getFeatureGeometry({ measurement, worldPoints }: EvaluatedMeasurement): MeasurementGeometry {
+  if (measurement.type === 'height') return { type: 'Point', coordinates: worldPoints[0] };
+  if (measurement.type === 'area') return { type: 'Polygon', coordinates: [[...worldPoints, worldPoints[0]]] };
+  return { type: 'LineString', coordinates: worldPoints };
+}
+
+export function getMeasurementFeatureCollection(
+  measurements: readonly EvaluatedMeasurement[]
+): MeasurementFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: measurements.map((evaluated) => ({
+      type: 'Feature',
+      id: evaluated.measurement.id,
+      geometry: getFeatureGeometry(evaluated),
+      properties: {
+        name: evaluated.measurement.name,
+        measurement: evaluated.measurement.type,
+        value: evaluated.measured.value,
+        unit: evaluated.measured.unit,
+        projectedOnFloor: evaluated.measured.projectedOnFloor,
+      },
+    })),
+  };
+}
+
+export function writeMeasurementsJson(measurements: readonly EvaluatedMeasurement[]): string {
+  return JSON.stringify(getMeasurementFeatureCollection(measurements), null, 2);
+}
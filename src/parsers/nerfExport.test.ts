@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCamera,
+  buildImage,
+  buildPoint3D,
+  buildReconstruction,
+} from '../test/builders';
+import { CameraModelId } from '../types/cameraModelId';
+import {
+  buildLlffPosesBounds,
+  getNerfCameraIntrinsics,
+  getOpenGlCameraToWorld,
+  writeNpyFloat64,
+  writeTransformsJson,
+} from './nerfExport';
+
+// Camera at world (0, 0, -5) looking down +Z with identity rotation.
+const image = buildImage({ imageId: 1, name: 'b.jpg', tvec: [0, 0, 5] });
+
+describe('nerfExport', () => {
+  it('maps COLMAP intrinsics to OpenCV and OpenCV fisheye parameters', () => {
+    expect(getNerfCameraIntrinsics(buildCamera({
+      modelId: CameraModelId.SIMPLE_RADIAL,
+      width: 640,
+      height: 480,
+      params: [500, 320, 240, 0.1],
+    }))).toMatchObject({ camera_model: 'OPENCV', fl_x: 500, fl_y: 500, cx: 320, cy: 240, k1: 0.1, k2: 0 });
+
+    expect(getNerfCameraIntrinsics(buildCamera({
+      modelId: CameraModelId.RADIAL_FISHEYE,
+      params: [300, 320, 240, 0.1, 0.01],
+    }))).toMatchObject({ camera_model: 'OPENCV_FISHEYE', fl_x: 300, k1: 0.1, k2: 0.01 });
+
+    expect(getNerfCameraIntrinsics(buildCamera({ modelId: CameraModelId.EQUIRECTANGULAR, params: [640, 320] }))).toBeNull();
+  });
+
+  it('flips camera Y and Z into the OpenGL convention', () => {
+    expect(getOpenGlCameraToWorld(image)).toEqual([
+      [1, -0, -0, -0],
+      [0, -1, -0, -0],
+      [0, -0, -1, -5],
+      [0, 0, 0, 1],
+    ].map((row) => row.map((value) => expect.closeTo(value, 9))));
+  });
+
+  it('writes shared Nerfstudio intrinsics once with mask paths per frame', () => {
+    const reconstruction = buildReconstruction({
+      cameras: [buildCamera({ cameraId: 1, modelId: CameraModelId.OPENCV, params: [500, 510, 320, 240, 0.1, 0.2, 0.01, 0.02] })],
+      images: [image, buildImage({ imageId: 2, name: 'a.jpg', cameraId: 1 })],
+    });
+
+    const { json, exportedImageCount, skippedImageCount } = writeTransformsJson(reconstruction, {
+      format: 'nerfstudio',
+      includeMasks: true,
+    });
+    const transforms = JSON.parse(json);
+
+    expect(exportedImageCount).toBe(2);
+    expect(skippedImageCount).toBe(0);
+    expect(transforms).toMatchObject({ camera_model: 'OPENCV', fl_x: 500, fl_y: 510, p1: 0.01, p2: 0.02 });
+    expect(transforms.frames.map((frame: { file_path: string }) => frame.file_path)).toEqual(['images/a.jpg', 'images/b.jpg']);
+    expect(transforms.frames[1]).toMatchObject({ mask_path: 'masks/b.jpg.png', colmap_im_id: 1 });
+    expect(transforms.frames[1].fl_x).toBeUndefined();
+  });
+
+  it('writes per-frame instant-ngp intrinsics and skips unsupported cameras', () => {
+    const reconstruction = buildReconstruction({
+      cameras: [
+        buildCamera({ cameraId: 1, modelId: CameraModelId.PINHOLE, width: 200, height: 100, params: [100, 100, 100, 50] }),
+        buildCamera({ cameraId: 2, modelId: CameraModelId.SIMPLE_FISHEYE, params: [300, 320, 240] }),
+        buildCamera({ cameraId: 3, modelId: CameraModelId.FOV, params: [300, 300, 320, 240, 0.5] }),
+      ],
+      images: [
+        buildImage({ imageId: 1, name: 'a.jpg', cameraId: 1 }),
+        buildImage({ imageId: 2, name: 'b.jpg', cameraId: 2 }),
+        buildImage({ imageId: 3, name: 'c.jpg', cameraId: 3 }),
+      ],
+    });
+
+    const { json, skippedImageCount } = writeTransformsJson(reconstruction, { format: 'instantNgp', includeMasks: true });
+    const transforms = JSON.parse(json);
+
+    expect(skippedImageCount).toBe(1);
+    expect(transforms.aabb_scale).toBe(32);
+    expect(transforms.frames[0].camera_angle_x).toBeCloseTo(Math.PI / 2);
+    expect(transforms.frames[0].camera_model).toBeUndefined();
+    expect(transforms.frames[0].mask_path).toBeUndefined();
+    expect(transforms.frames[1].is_fisheye).toBe(true);
+  });
+
+  it('builds LLFF rows with down-right-back axes, hwf and depth bounds', () => {
+    const reconstruction = buildReconstruction({
+      cameras: [buildCamera({ cameraId: 1, modelId: CameraModelId.SIMPLE_PINHOLE, width: 640, height: 480, params: [500, 320, 240] })],
+      images: [image],
+    });
+    const points3D = new Map([
+      [1n, buildPoint3D({ point3DId: 1n, xyz: [0, 0, -3], track: [{ imageId: 1, point2DIdx: 0 }] })],
+      [2n, buildPoint3D({ point3DId: 2n, xyz: [0, 0, 5], track: [{ imageId: 1, point2DIdx: 1 }] })],
+    ]);
+
+    const { rows, exportedImageCount } = buildLlffPosesBounds(reconstruction, points3D);
+
+    expect(exportedImageCount).toBe(1);
+    expect(Array.from(rows.slice(0, 15)).map((value) => Math.round(value * 1e9) / 1e9 + 0)).toEqual([
+      0, 1, 0, 0, 480,
+      1, 0, 0, 0, 640,
+      0, 0, -1, -5, 500,
+    ]);
+    expect(rows[15]).toBeCloseTo(2.008);
+    expect(rows[16]).toBeCloseTo(9.992);
+  });
+
+  it('writes a version 1.0 npy header aligned to 64 bytes', () => {
+    const buffer = writeNpyFloat64(new Float64Array([1.5, -2]), [1, 2]);
+    const bytes = new Uint8Array(buffer);
+    const headerLength = new DataView(buffer).getUint16(8, true);
+    const header = new TextDecoder().decode(bytes.slice(10, 10 + headerLength));
+
+    expect(Array.from(bytes.slice(0, 8))).toEqual([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0]);
+    expect((10 + headerLength) % 64).toBe(0);
+    expect(header).toContain("'shape': (1, 2)");
+    expect(header.endsWith('\n')).toBe(true);
+    expect(Array.from(new Float64Array(buffer.slice(10 + headerLength)))).toEqual([1.5, -2]);
+  });
+});
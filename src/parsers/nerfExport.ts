@@ -0,0 +1,294 @@
+/**
+ * Camera pose exports for NeRF and Gaussian splatting trainers: instant-ngp
+ * and Nerfstudio `transforms.json`, and LLFF `poses_bounds.npy`.
+ *
+ * Poses stay in the reconstruction's world frame; camera axes are converted
+ * from COLMAP's OpenCV convention to the OpenGL convention these tools expect
+ * (transforms.json) or to LLFF's down-right-back column order.
+ */
+
+import * as THREE from 'three';
+import { CameraModelId } from '../types/cameraModelId';
+import type { Camera, Image, Point3D, Point3DId, Reconstruction } from '../types/colmap';
+import { getCameraModelParamNames } from '../utils/cameraModelRegistry';
+import { getImageWorldPose } from '../utils/colmapTransforms';
+import { getAxisFlipSigns } from '../utils/coordinateSystems';
+import { normalizeImageZipPath } from './imageZipExport';
+import { normalizeMaskPath } from './maskZipExport';
+
+export type TransformsJsonFormat = 'instantNgp' | 'nerfstudio';
+
+export interface TransformsJsonOptions {
+  format: TransformsJsonFormat;
+  /** Add each frame's mask path, laid out like the mask ZIP export. */
+  includeMasks: boolean;
+}
+
+/** Images written, and images left out because their camera model has no equivalent. */
+export interface NerfExportSummary {
+  exportedImageCount: number;
+  skippedImageCount: number;
+}
+
+export interface NerfCameraIntrinsics {
+  camera_model: 'OPENCV' | 'OPENCV_FISHEYE';
+  fl_x: number;
+  fl_y: number;
+  cx: number;
+  cy: number;
+  w: number;
+  h: number;
+  k1: number;
+  k2: number;
+  k3: number;
+  k4: number;
+  p1: number;
+  p2: number;
+}
+
+const PERSPECTIVE_MODELS = new Set<number>([
+  CameraModelId.SIMPLE_PINHOLE,
+  CameraModelId.PINHOLE,
+  CameraModelId.SIMPLE_RADIAL,
+  CameraModelId.RADIAL,
+  CameraModelId.OPENCV,
+]);
+
+// COLMAP's radial fisheye models share the OpenCV fisheye (equidistant) projection.
+const FISHEYE_MODELS = new Set<number>([
+  CameraModelId.OPENCV_FISHEYE,
+  CameraModelId.SIMPLE_RADIAL_FISHEYE,
+  CameraModelId.RADIAL_FISHEYE,
+  CameraModelId.SIMPLE_FISHEYE,
+  CameraModelId.FISHEYE,
+]);
+
+const OPENGL_CAMERA_AXIS_SIGNS = getAxisFlipSigns('colmap', 'opengl') ?? [1, -1, -1];
+
+/** Camera intrinsics as OpenCV or OpenCV fisheye parameters, or null when the model has no equivalent. */
+export function getNerfCameraIntrinsics(camera: Camera): NerfCameraIntrinsics | null {
+  const fisheye = FISHEYE_MODELS.has(camera.modelId);
+  if (!fisheye && !PERSPECTIVE_MODELS.has(camera.modelId)) return null;
+
+  const params = new Map(getCameraModelParamNames(camera.modelId).map((name, index) => [name, camera.params[index]]));
+  const param = (name: string) => params.get(name) ?? 0;
+  const focal = params.get('f');
+
+  return {
+    camera_model: fisheye ? 'OPENCV_FISHEYE' : 'OPENCV',
+    fl_x: focal ?? param('fx'),
+    fl_y: focal ?? param('fy'),
+    cx: param('cx'),
+    cy: param('cy'),
+    w: camera.width,
+    h: camera.height,
+    k1: params.get('k') ?? param('k1'),
+    k2: param('k2'),
+    k3: param('k3'),
+    k4: param('k4'),
+    p1: param('p1'),
+    p2: param('p2'),
+  };
+}
+
+function getSortedImages(reconstruction: Reconstruction): Image[] {
+  return Array.from(reconstruction.images.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Camera-to-world matrix, rows first, with camera axes in the OpenGL convention. */
+export function getOpenGlCameraToWorld(image: Image): number[][] {
+  const { position, quaternion } = getImageWorldPose(image);
+  const rotation = new THREE.Matrix4().makeRotationFromQuaternion(quaternion).elements;
+  const rows: number[][] = [];
+  for (let row = 0; row < 3; row++) {
+    rows.push([
+      rotation[row] * OPENGL_CAMERA_AXIS_SIGNS[0],
+      rotation[4 + row] * OPENGL_CAMERA_AXIS_SIGNS[1],
+      rotation[8 + row] * OPENGL_CAMERA_AXIS_SIGNS[2],
+      position.getComponent(row),
+    ]);
+  }
+  rows.push([0, 0, 0, 1]);
+  return rows;
+}
+
+function getInstantNgpIntrinsics(intrinsics: NerfCameraIntrinsics): Record<string, number | boolean> {
+  const { camera_model: cameraModel, ...rest } = intrinsics;
+  return {
+    ...rest,
+    camera_angle_x: 2 * Math.atan(intrinsics.w / (2 * intrinsics.fl_x)),
+    camera_angle_y: 2 * Math.atan(intrinsics.h / (2 * intrinsics.fl_y)),
+    ...(cameraModel === 'OPENCV_FISHEYE' ? { is_fisheye: true } : {}),
+  };
+}
+
+/**
+ * transforms.json for instant-ngp or Nerfstudio. Intrinsics shared by every
+ * frame are written once at the top level and per frame otherwise. Nerfstudio
+ * takes one camera model per dataset, so frames of the other model are skipped.
+ */
+export function writeTransformsJson(
+  reconstruction: Reconstruction,
+  { format, includeMasks }: TransformsJsonOptions
+): { json: string } & NerfExportSummary {
+  const entries: { image: Image; intrinsics: NerfCameraIntrinsics }[] = [];
+  let skippedImageCount = 0;
+
+  for (const image of getSortedImages(reconstruction)) {
+    const camera = reconstruction.cameras.get(image.cameraId);
+    const intrinsics = camera ? getNerfCameraIntrinsics(camera) : null;
+    const modelMismatch = format === 'nerfstudio'
+      && entries.length > 0
+      && intrinsics?.camera_model !== entries[0].intrinsics.camera_model;
+    if (!intrinsics || modelMismatch) {
+      skippedImageCount++;
+      continue;
+    }
+    entries.push({ image, intrinsics });
+  }
+
+  const sharedCamera = new Set(entries.map(({ image }) => image.cameraId)).size === 1;
+  const getIntrinsics = (intrinsics: NerfCameraIntrinsics): Record<string, number | string | boolean> => (
+    format === 'instantNgp' ? getInstantNgpIntrinsics(intrinsics) : { ...intrinsics }
+  );
+
+  const frames = entries.map(({ image, intrinsics }) => {
+    const frame: Record<string, unknown> = {
+      file_path: normalizeImageZipPath(image.name),
+      transform_matrix: getOpenGlCameraToWorld(image),
+    };
+    if (format === 'nerfstudio') {
+      frame.colmap_im_id = image.imageId;
+      if (includeMasks) frame.mask_path = normalizeMaskPath(image.name);
+    }
+    if (!sharedCamera) {
+      const { camera_model: _cameraModel, ...frameIntrinsics } = getIntrinsics(intrinsics);
+      Object.assign(frame, frameIntrinsics);
+    }
+    return frame;
+  });
+
+  const transforms: Record<string, unknown> = {};
+  if (sharedCamera) Object.assign(transforms, getIntrinsics(entries[0].intrinsics));
+  else if (format === 'nerfstudio' && entries.length > 0) transforms.camera_model = entries[0].intrinsics.camera_model;
+  if (format === 'instantNgp') transforms.aabb_scale = 32;
+  transforms.frames = frames;
+
+  return {
+    json: JSON.stringify(transforms, null, 2) + '\n',
+    exportedImageCount: entries.length,
+    skippedImageCount,
+  };
+}
+
+// numpy.percentile's default linear interpolation over sorted values.
+function percentile(sorted: readonly number[], fraction: number): number {
+  const index = (sorted.length - 1) * fraction;
+  const lower = Math.floor(index);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function getImageDepths(
+  reconstruction: Reconstruction,
+  points3D: Map<Point3DId, Point3D>
+): Map<number, number[]> {
+  const rotations = new Map<number, THREE.Quaternion>();
+  for (const image of reconstruction.images.values()) {
+    const [w, x, y, z] = image.qvec;
+    rotations.set(image.imageId, new THREE.Quaternion(x, y, z, w));
+  }
+
+  const depths = new Map<number, number[]>();
+  const point = new THREE.Vector3();
+  for (const { xyz, track } of points3D.values()) {
+    for (const { imageId } of track) {
+      const image = reconstruction.images.get(imageId);
+      const rotation = rotations.get(imageId);
+      if (!image || !rotation) continue;
+      const depth = point.fromArray(xyz).applyQuaternion(rotation).z + image.tvec[2];
+      if (depth <= 0) continue;
+      let imageDepths = depths.get(imageId);
+      if (!imageDepths) {
+        imageDepths = [];
+        depths.set(imageId, imageDepths);
+      }
+      imageDepths.push(depth);
+    }
+  }
+  return depths;
+}
+
+/**
+ * LLFF poses_bounds rows, one per perspective image in name order: the 3x5
+ * [down | right | back | position | (h, w, f)] camera-to-world matrix, rows
+ * first, then near and far depths from the 0.1 and 99.9 percentiles of the
+ * image's triangulated points, as in LLFF's imgs2poses.
+ */
+export function buildLlffPosesBounds(
+  reconstruction: Reconstruction,
+  points3D: Map<Point3DId, Point3D>
+): { rows: Float64Array } & NerfExportSummary {
+  const depths = getImageDepths(reconstruction, points3D);
+  const allDepths = Array.from(depths.values()).flat().sort((a, b) => a - b);
+  const values: number[] = [];
+  let exportedImageCount = 0;
+  let skippedImageCount = 0;
+
+  for (const image of getSortedImages(reconstruction)) {
+    const camera = reconstruction.cameras.get(image.cameraId);
+    const intrinsics = camera ? getNerfCameraIntrinsics(camera) : null;
+    if (!intrinsics || intrinsics.camera_model !== 'OPENCV') {
+      skippedImageCount++;
+      continue;
+    }
+
+    const { position, quaternion } = getImageWorldPose(image);
+    const rotation = new THREE.Matrix4().makeRotationFromQuaternion(quaternion).elements;
+    const hwf = [intrinsics.h, intrinsics.w, intrinsics.fl_x];
+    for (let row = 0; row < 3; row++) {
+      values.push(rotation[4 + row], rotation[row], -rotation[8 + row], position.getComponent(row), hwf[row]);
+    }
+
+    // Images without triangulated points fall back to the scene's depth range.
+    const imageDepths = depths.get(image.imageId)?.sort((a, b) => a - b) ?? allDepths;
+    values.push(
+      imageDepths.length > 0 ? percentile(imageDepths, 0.001) : 0,
+      imageDepths.length > 0 ? percentile(imageDepths, 0.999) : 0
+    );
+    exportedImageCount++;
+  }
+
+  return { rows: new Float64Array(values), exportedImageCount, skippedImageCount };
+}
+
+/** A little-endian float64 array in NumPy's .npy format (version 1.0). */
+export function writeNpyFloat64(data: Float64Array, shape: readonly number[]): ArrayBuffer {
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  let header = `{'descr': '<f8', 'fortran_order': False, 'shape': ${shapeText}, }`;
+  // Magic (6) + version (2) + header length (2) + header must be a multiple of 64 bytes.
+  const unpadded = 10 + header.length + 1;
+  header += ' '.repeat((64 - (unpadded % 64)) % 64) + '\n';
+
+  const buffer = new ArrayBuffer(10 + header.length + data.byteLength);
+  const bytes = new Uint8Array(buffer);
+  bytes.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0]);
+  new DataView(buffer).setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) bytes[10 + i] = header.charCodeAt(i);
+
+  const view = new DataView(buffer, 10 + header.length);
+  data.forEach((value, index) => view.setFloat64(index * 8, value, true));
+  return buffer;
+}
+
+export function writeLlffPosesBounds(
+  reconstruction: Reconstruction,
+  points3D: Map<Point3DId, Point3D>
+): { data: ArrayBuffer } & NerfExportSummary {
+  const { rows, exportedImageCount, skippedImageCount } = buildLlffPosesBounds(reconstruction, points3D);
+  return {
+    data: writeNpyFloat64(rows, [exportedImageCount, 17]),
+    exportedImageCount,
+    skippedImageCount,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseReferencePoses } from './referencePoses';
+
+describe('parseReferencePoses', () => {
+  it('reads TUM trajectories with timestamps', () => {
+    const poses = parseReferencePoses([
+      '# timestamp tx ty tz qx qy qz qw',
+      '1305031102.175304 1.0 2.0 3.0 0 0 0 1',
+      '1305031102.211214 1.5 2.5 3.5 0 0 0 1',
+    ].join('\n'));
+
+    expect(poses.format).toBe('tum');
+    expect(poses.entries).toEqual([
+      { name: null, timestamp: 1305031102.175304, position: [1, 2, 3] },
+      { name: null, timestamp: 1305031102.211214, position: [1.5, 2.5, 3.5] },
+    ]);
+  });
+
+  it('takes the translation column of KITTI pose matrices', () => {
+    const poses = parseReferencePoses('1 0 0 4 0 1 0 5 0 0 1 6\r\n1 0 0 -1 0 1 0 0 0 0 1 2.5e1\r\n');
+
+    expect(poses.format).toBe('kitti');
+    expect(poses.entries.map((entry) => entry.position)).toEqual([[4, 5, 6], [-1, 0, 25]]);
+  });
+
+  it('reads name,x,y,z CSV and skips the header row', () => {
+    const poses = parseReferencePoses('name,east,north,up\nIMG_0001.JPG, 10.5, -3, 2\nIMG_0002.JPG;11;-3;2.25\n');
+
+    expect(poses.format).toBe('csv');
+    expect(poses.skippedLineCount).toBe(1);
+    expect(poses.entries).toEqual([
+      { name: 'IMG_0001.JPG', timestamp: null, position: [10.5, -3, 2] },
+      { name: 'IMG_0002.JPG', timestamp: null, position: [11, -3, 2.25] },
+    ]);
+  });
+
+  it('rejects files in no known layout', () => {
+    expect(() => parseReferencePoses('hello world\n1 2\n')).toThrow(/Unrecognized/);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Reference trajectory / position files used to georeference a reconstruction.
+ *
+ * - TUM: `timestamp tx ty tz qx qy qz qw`
+ * - KITTI poses: 12 values per line, a row-major 3x4 camera-to-world matrix
+ * - CSV: `name,x,y,z` (comma, semicolon or whitespace separated, optional header)
+ *
+ * Only the positions are kept; alignment uses camera centres.
+ */
+
+import { parseColmapNumberTokens } from './colmapTextTokens';
+
+export type ReferencePoseFormat = 'tum' | 'kitti' | 'csv';
+
+export interface ReferencePoseEntry {
+  /** Image name (CSV) or null for formats matched by timestamp / order. */
+  name: string | null;
+  /** TUM timestamp, null otherwise. */
+  timestamp: number | null;
+  position: [number, number, number];
+}
+
+export interface ReferencePoses {
+  format: ReferencePoseFormat;
+  entries: ReferencePoseEntry[];
+  /** Non-comment lines that did not parse in the detected format (e.g. a CSV header). */
+  skippedLineCount: number;
+}
+
+const FIELD_SEPARATOR = /[\s,;]+/;
+
+function tokenize(line: string): string[] {
+  return line.trim().split(FIELD_SEPARATOR).filter(Boolean);
+}
+
+function parseLine(tokens: readonly string[], format: ReferencePoseFormat): ReferencePoseEntry | null {
+  if (format === 'csv') {
+    if (tokens.length < 4) return null;
+    const xyz = parseColmapNumberTokens(tokens.slice(1, 4));
+    return xyz ? { name: tokens[0], timestamp: null, position: [xyz[0], xyz[1], xyz[2]] } : null;
+  }
+
+  const values = parseColmapNumberTokens(tokens);
+  if (format === 'tum') {
+    return values?.length === 8
+      ? { name: null, timestamp: values[0], position: [values[1], values[2], values[3]] }
+      : null;
+  }
+  return values?.length === 12
+    ? { name: null, timestamp: null, position: [values[3], values[7], values[11]] }
+    : null;
+}
+
+function detectFormat(tokens: readonly string[]): ReferencePoseFormat | null {
+  const values = parseColmapNumberTokens(tokens);
+  if (values?.length === 12) return 'kitti';
+  if (values?.length === 8) return 'tum';
+  return parseLine(tokens, 'csv') ? 'csv' : null;
+}
+
+export function parseReferencePoses(text: string): ReferencePoses {
+  const lines = text.split(/\r?\n/)
+    .filter((line) => line.trim() !== '' && !line.trimStart().startsWith('#'))
+    .map(tokenize);
+
+  let format: ReferencePoseFormat | null = null;
+  for (const tokens of lines) {
+    format = detectFormat(tokens);
+    if (format) break;
+  }
+  if (!format) {
+    throw new Error('Unrecognized reference pose file: expected TUM, KITTI or name,x,y,z CSV rows');
+  }
+
+  const entries: ReferencePoseEntry[] = [];
+  let skippedLineCount = 0;
+  for (const tokens of lines) {
+    const entry = parseLine(tokens, format);
+    if (entry) {
+      entries.push(entry);
+    } else {
+      skippedLineCount++;
+    }
+  }
+  return { format, entries, skippedLineCount };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatMetricReport, SplatMetricReportRow } from '../utils/splatMetricReport';
+import {
+  SPLAT_METRIC_REPORT_CSV_HEADER,
+  writeSplatMetricReportCsv,
+  writeSplatMetricReportJson,
+} from './splatMetricReportExport';
+
+function buildRow(overrides: Partial<SplatMetricReportRow> = {}): SplatMetricReportRow {
+  return {
+    imageId: 1,
+    name: 'image.jpg',
+    cameraId: 1,
+    cameraModel: 'PINHOLE',
+    psnr: 28.5,
+    ssim: 0.91,
+    mse: 0.0014,
+    maskCoverage: 0.5,
+    renderWidth: 640,
+    renderHeight: 480,
+    splatSourceId: 'scene.spz',
+    ...overrides,
+  };
+}
+
+function buildReport(rows: SplatMetricReportRow[]): SplatMetricReport {
+  return {
+    splatSourceId: 'scene.spz',
+    rows,
+    summary: {
+      imageCount: rows.length,
+      measuredCount: rows.length,
+      errorCount: 0,
+      psnr: { mean: 28.5, median: 28.5, min: 28.5, max: 28.5 },
+      ssim: null,
+      meanMaskCoverage: 0.5,
+    },
+    worst: rows,
+    errors: [],
+  };
+}
+
+describe('splatMetricReportExport', () => {
+  it('writes one CSV line per image with quoted names and empty missing values', () => {
+    const csv = writeSplatMetricReportCsv(buildReport([
+      buildRow(),
+      buildRow({ imageId: 2, name: 'a,b.jpg', psnr: Infinity, ssim: null }),
+    ]));
+
+    expect(csv.split('\n')).toEqual([
+      SPLAT_METRIC_REPORT_CSV_HEADER,
+      '1,image.jpg,1,PINHOLE,28.5,0.91,0.0014,0.5,640,480,scene.spz',
+      '2,"a,b.jpg",1,PINHOLE,inf,,0.0014,0.5,640,480,scene.spz',
+      '',
+    ]);
+  });
+
+  it('writes the full report as JSON with infinite PSNR as null', () => {
+    const parsed = JSON.parse(writeSplatMetricReportJson(buildReport([buildRow({ psnr: Infinity })])));
+
+    expect(parsed.rows[0].psnr).toBeNull();
+    expect(parsed.summary.psnr).toEqual({ mean: 28.5, median: 28.5, min: 28.5, max: 28.5 });
+    expect(parsed.worst).toHaveLength(1);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Serializers for the splat metric report: a flat per-image CSV for
+ * spreadsheets and a JSON document that also carries the summary, the
+ * worst-scoring images and the failed ones.
+ */
+
+import type { SplatMetricReport, SplatMetricReportRow } from '../utils/splatMetricReport';
+import { formatCsvRow } from './csvFields';
+
+export const SPLAT_METRIC_REPORT_CSV_HEADER =
+  'image_id,name,camera_id,camera_model,psnr,ssim,mse,mask_coverage,render_width,render_height,splat_source_id';
+
+function formatNumber(value: number | null): string {
+  if (value === null || Number.isNaN(value)) return '';
+  if (value === Infinity) return 'inf';
+  return String(value);
+}
+
+function formatRow(row: SplatMetricReportRow): string {
+  return formatCsvRow([
+    row.imageId,
+    row.name,
+    row.cameraId,
+    row.cameraModel,
+    formatNumber(row.psnr),
+    formatNumber(row.ssim),
+    formatNumber(row.mse),
+    formatNumber(row.maskCoverage),
+    row.renderWidth,
+    row.renderHeight,
+    row.splatSourceId ?? '',
+  ]);
+}
+
+export function writeSplatMetricReportCsv(report: SplatMetricReport): string {
+  return [SPLAT_METRIC_REPORT_CSV_HEADER, ...report.rows.map(formatRow)].join('\n') + '\n';
+}
+
+/** A pixel-exact render has infinite PSNR, which JSON cannot hold; it is written as null. */
+export function writeSplatMetricReportJson(report: SplatMetricReport): string {
+  return JSON.stringify(
+    report,
+    (_key, value: unknown) => (typeof value === 'number' && !Number.isFinite(value) ? null : value),
+    2
+  );
+}
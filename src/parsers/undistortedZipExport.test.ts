@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { unzipSync } from 'fflate';
+import {
+  buildCamera,
+  buildImage,
+  buildReadableBinaryBlob,
+  buildReadableBinaryFile,
+  buildReconstruction,
+  readBlobAsArrayBuffer,
+} from '../test/builders';
+import { CameraModelId, type Reconstruction } from '../types/colmap';
+import { undistortReconstruction } from '../utils/imageUndistorter';
+import { exportUndistortedZip, getUndistortedImageName } from './undistortedZipExport';
+
+const encodedBytes = new Uint8Array([9, 8, 7]);
+
+function installCanvasMocks() {
+  const convertOptions: Array<{ type?: string; quality?: number }> = [];
+  const canvasSizes: Array<[number, number]> = [];
+  const createImageBitmap = vi.fn().mockResolvedValue({ width: 80, height: 60, close: vi.fn() });
+
+  class MockOffscreenCanvas {
+    constructor(
+      readonly width: number,
+      readonly height: number
+    ) {
+      canvasSizes.push([width, height]);
+    }
+
+    getContext() {
+      return {
+        drawImage: vi.fn(),
+        getImageData: (_x: number, _y: number, width: number, height: number) => ({
+          width,
+          height,
+          data: new Uint8ClampedArray(width * height * 4).fill(255),
+        }),
+        createImageData: (width: number, height: number) => ({
+          width,
+          height,
+          data: new Uint8ClampedArray(width * height * 4),
+        }),
+        putImageData: vi.fn(),
+      };
+    }
+
+    async convertToBlob(options: ImageEncodeOptions): Promise<Blob> {
+      convertOptions.push({ type: options.type, quality: options.quality });
+      return buildReadableBinaryBlob({ contents: encodedBytes, type: options.type ?? 'image/png' });
+    }
+  }
+
+  vi.stubGlobal('createImageBitmap', createImageBitmap);
+  vi.stubGlobal('OffscreenCanvas', MockOffscreenCanvas);
+  return { canvasSizes, convertOptions };
+}
+
+function createFileWriters(reconstruction: Reconstruction) {
+  const encoder = new TextEncoder();
+  return {
+    writeCameras: () => encoder.encode([...reconstruction.cameras.values()].map((camera) => camera.modelId).join(',')),
+    writeImages: () => encoder.encode([...reconstruction.images.values()].map((image) => image.name).join(',')),
+    writePoints3D: () => new Uint8Array(),
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('getUndistortedImageName', () => {
+  it('keeps PNG and JPEG names and gives other formats a JPEG extension', () => {
+    expect(getUndistortedImageName('cam1/photo.PNG')).toBe('cam1/photo.PNG');
+    expect(getUndistortedImageName('photo.jpeg')).toBe('photo.jpeg');
+    expect(getUndistortedImageName('cam1/photo.tif')).toBe('cam1/photo.jpg');
+    expect(getUndistortedImageName('frame_0001')).toBe('frame_0001.jpg');
+  });
+});
+
+describe('exportUndistortedZip', () => {
+  it('writes the sparse model and undistorted images at the undistorted camera size', async () => {
+    const { canvasSizes, convertOptions } = installCanvasMocks();
+    const camera = buildCamera({
+      modelId: CameraModelId.OPENCV,
+      width: 80,
+      height: 60,
+      params: [60, 62, 40, 30, -0.2, 0.02, 0, 0],
+    });
+    const sphere = buildCamera({ cameraId: 2, modelId: CameraModelId.EQUIRECTANGULAR, params: [80, 40] });
+    const undistorted = undistortReconstruction(buildReconstruction({
+      cameras: [camera, sphere],
+      images: [
+        buildImage({ imageId: 1, cameraId: 1, name: 'a.png' }),
+        buildImage({ imageId: 2, cameraId: 1, name: 'b.webp' }),
+        buildImage({ imageId: 3, cameraId: 2, name: 'pano.jpg' }),
+      ],
+    }), 'cropped');
+    const pinhole = undistorted.reconstruction.cameras.get(1)!;
+    const fetchImage = vi.fn(async (name: string) =>
+      buildReadableBinaryFile({ contents: new Uint8Array([1, 2]), name, type: 'image/png' })
+    );
+    const onProgress = vi.fn();
+
+    const { blob, ...summary } = await exportUndistortedZip(
+      undistorted,
+      createFileWriters,
+      fetchImage,
+      { jpegQuality: 0.8 },
+      onProgress
+    );
+    const entries = unzipSync(new Uint8Array(await readBlobAsArrayBuffer(blob)));
+    const decoder = new TextDecoder();
+
+    expect(summary).toEqual({ exportedImageCount: 3, failedImageCount: 0, unchangedImageCount: 1 });
+    expect(Object.keys(entries).sort()).toEqual([
+      'images/a.png',
+      'images/b.jpg',
+      'images/pano.jpg',
+      'sparse/0/cameras.bin',
+      'sparse/0/images.bin',
+      'sparse/0/points3D.bin',
+    ]);
+    expect(decoder.decode(entries['sparse/0/cameras.bin'])).toBe(
+      `${CameraModelId.PINHOLE},${CameraModelId.EQUIRECTANGULAR}`
+    );
+    expect(decoder.decode(entries['sparse/0/images.bin'])).toBe('a.png,b.jpg,pano.jpg');
+    expect(entries['images/a.png']).toEqual(encodedBytes);
+    expect(entries['images/pano.jpg']).toEqual(new Uint8Array([1, 2]));
+    expect(fetchImage).toHaveBeenCalledWith('b.webp');
+    expect(convertOptions).toEqual([{ type: 'image/png' }, { type: 'image/jpeg', quality: 0.8 }]);
+    expect(canvasSizes).toContainEqual([pinhole.width, pinhole.height]);
+    expect(onProgress).toHaveBeenLastCalledWith(100, 'Done');
+  });
+
+  it('counts images that cannot be loaded', async () => {
+    installCanvasMocks();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const undistorted = undistortReconstruction(buildReconstruction(), 'fullFrame');
+
+    const { exportedImageCount, failedImageCount } = await exportUndistortedZip(
+      undistorted,
+      createFileWriters,
+      vi.fn(async () => null),
+      { jpegQuality: 0.8 }
+    );
+
+    expect(exportedImageCount).toBe(0);
+    expect(failedImageCount).toBe(1);
+    expect(warn).toHaveBeenCalledWith('[Undistorted Export] 1/1 images failed to export');
+  });
+});
@@ -0,0 +1,185 @@
+import type { Camera, Image, ImageId, Reconstruction } from '../types/colmap';
+import { downloadBlob } from '../utils/download';
+import {
+  buildUndistortionRemap,
+  remapRgbaPixels,
+  type UndistortedReconstruction,
+} from '../utils/imageUndistorter';
+import { appLogger } from '../utils/logger';
+import type { ImageFetchFunction } from './imageZipExport';
+import {
+  normalizeReconstructionZipImagePath,
+  type ReconstructionZipFileWriters,
+  type ZipExportProgressCallback,
+} from './reconstructionZipExport';
+import { createZipBlob } from './zipExportPolicy';
+
+export interface UndistortedZipExportOptions {
+  /** JPEG quality (0-1) for images not written as PNG */
+  jpegQuality: number;
+}
+
+export interface UndistortedZipExportSummary {
+  exportedImageCount: number;
+  failedImageCount: number;
+  /** Images copied as they are because their camera has no pinhole equivalent. */
+  unchangedImageCount: number;
+}
+
+export interface UndistortedZipExport extends UndistortedZipExportSummary {
+  blob: Blob;
+}
+
+/**
+ * PNG sources stay PNG and JPEG sources stay JPEG; anything else is written as
+ * JPEG, so its name in the sparse model gets a .jpg extension.
+ */
+export function getUndistortedImageName(name: string): string {
+  return /\.(png|jpe?g)$/i.test(name) ? name : name.replace(/(\.[^./\\]*)?$/, '.jpg');
+}
+
+function getUndistortedImageType(name: string): 'image/png' | 'image/jpeg' {
+  return /\.png$/i.test(name) ? 'image/png' : 'image/jpeg';
+}
+
+async function undistortImageFile(
+  file: File,
+  sourceCamera: Camera,
+  undistortedCamera: Camera,
+  map: Float32Array,
+  type: 'image/png' | 'image/jpeg',
+  jpegQuality: number
+): Promise<Uint8Array> {
+  const bitmap = await createImageBitmap(file);
+  // Images stored at another resolution than the camera are resampled to it,
+  // so the remap table's pixel coordinates apply.
+  const sourceCanvas = new OffscreenCanvas(sourceCamera.width, sourceCamera.height);
+  const sourceCtx = sourceCanvas.getContext('2d')!;
+  sourceCtx.drawImage(bitmap, 0, 0, sourceCamera.width, sourceCamera.height);
+  bitmap.close();
+  const source = sourceCtx.getImageData(0, 0, sourceCamera.width, sourceCamera.height);
+
+  const { width, height } = undistortedCamera;
+  const pixels = remapRgbaPixels(source, map, width, height);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const imageData = ctx.createImageData(width, height);
+  imageData.data.set(pixels);
+  ctx.putImageData(imageData, 0, 0);
+  const blob = await canvas.convertToBlob(type === 'image/jpeg' ? { type, quality: jpegQuality } : { type });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Build a COLMAP undistorted dataset ZIP: the binary sparse model under
+ * sparse/0 and every registered image under images/, undistorted to its
+ * pinhole camera. Images are processed camera by camera so only one remap
+ * table is held at a time.
+ */
+export async function exportUndistortedZip(
+  { reconstruction, sourceCameras, unchangedImageIds }: UndistortedReconstruction,
+  createFileWriters: (reconstruction: Reconstruction) => ReconstructionZipFileWriters,
+  fetchImage: ImageFetchFunction,
+  options: UndistortedZipExportOptions,
+  onProgress?: ZipExportProgressCallback
+): Promise<UndistortedZipExport> {
+  const { zipSync } = await import('fflate');
+
+  const sourceNames = new Map<ImageId, string>();
+  const images = new Map<ImageId, Image>();
+  for (const [imageId, image] of reconstruction.images) {
+    sourceNames.set(imageId, image.name);
+    const name = unchangedImageIds.has(imageId) ? image.name : getUndistortedImageName(image.name);
+    images.set(imageId, name === image.name ? image : { ...image, name });
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const fileWriters = createFileWriters({ ...reconstruction, images });
+  onProgress?.(2, 'Exporting cameras...');
+  files['sparse/0/cameras.bin'] = new Uint8Array(fileWriters.writeCameras());
+  onProgress?.(4, 'Exporting images...');
+  files['sparse/0/images.bin'] = new Uint8Array(fileWriters.writeImages());
+  onProgress?.(6, 'Exporting points3D...');
+  files['sparse/0/points3D.bin'] = new Uint8Array(fileWriters.writePoints3D());
+  if (fileWriters.writeRigs) files['sparse/0/rigs.bin'] = new Uint8Array(fileWriters.writeRigs());
+  if (fileWriters.writeFrames) files['sparse/0/frames.bin'] = new Uint8Array(fileWriters.writeFrames());
+
+  const orderedImages = [...images.values()].sort((a, b) => a.cameraId - b.cameraId || a.imageId - b.imageId);
+  const totalImages = orderedImages.length;
+  let processed = 0;
+  let exportedImageCount = 0;
+  let failedImageCount = 0;
+  let remapCameraId: number | null = null;
+  let remap: Float32Array | null = null;
+
+  for (const image of orderedImages) {
+    const sourceName = sourceNames.get(image.imageId)!;
+    try {
+      const file = await fetchImage(sourceName);
+      if (!file) {
+        failedImageCount++;
+      } else if (unchangedImageIds.has(image.imageId)) {
+        files[normalizeReconstructionZipImagePath(image.name)] = new Uint8Array(await file.arrayBuffer());
+        exportedImageCount++;
+      } else {
+        const sourceCamera = sourceCameras.get(image.cameraId)!;
+        const undistortedCamera = reconstruction.cameras.get(image.cameraId)!;
+        if (remapCameraId !== image.cameraId || !remap) {
+          remap = buildUndistortionRemap(sourceCamera, undistortedCamera);
+          remapCameraId = image.cameraId;
+        }
+        files[normalizeReconstructionZipImagePath(image.name)] = await undistortImageFile(
+          file,
+          sourceCamera,
+          undistortedCamera,
+          remap,
+          getUndistortedImageType(image.name),
+          options.jpegQuality
+        );
+        exportedImageCount++;
+      }
+    } catch (err) {
+      appLogger.warn(`[Undistorted Export] Failed to process ${sourceName}:`, err);
+      failedImageCount++;
+    }
+
+    processed++;
+    onProgress?.(
+      10 + Math.round((processed / totalImages) * 80),
+      `Undistorting images (${processed}/${totalImages})...`
+    );
+  }
+
+  if (failedImageCount > 0) {
+    appLogger.warn(`[Undistorted Export] ${failedImageCount}/${totalImages} images failed to export`);
+  }
+
+  onProgress?.(90, 'Compressing...');
+  const zipped = zipSync(files, { level: 6 });
+  onProgress?.(100, 'Done');
+
+  return {
+    blob: createZipBlob(zipped),
+    exportedImageCount,
+    failedImageCount,
+    unchangedImageCount: unchangedImageIds.size,
+  };
+}
+
+export async function downloadUndistortedZip(
+  undistorted: UndistortedReconstruction,
+  createFileWriters: (reconstruction: Reconstruction) => ReconstructionZipFileWriters,
+  fetchImage: ImageFetchFunction,
+  options: UndistortedZipExportOptions,
+  onProgress?: ZipExportProgressCallback
+): Promise<UndistortedZipExportSummary> {
+  const { blob, ...summary } = await exportUndistortedZip(
+    undistorted,
+    createFileWriters,
+    fetchImage,
+    options,
+    onProgress
+  );
+  downloadBlob(blob, 'undistorted.zip');
+  return summary;
+}
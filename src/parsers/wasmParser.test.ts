@@ -3,8 +3,15 @@ import { CameraModelId } from '../types/colmap';
 import { SensorType } from '../types/rig';
 import { createWasmReconstruction } from '../wasm';
 import type { CameraInfo } from '../wasm/types';
-import { buildBinaryFile, buildWasmReconstructionWrapper } from '../test/builders';
-import { parseWithWasm } from './wasmParser';
+import {
+  buildBinaryFile,
+  buildCamera,
+  buildImage,
+  buildPoint3D,
+  buildReconstruction,
+  buildWasmReconstructionWrapper,
+} from '../test/builders';
+import { buildWasmReconstructionFromData, parseWithWasm } from './wasmParser';
 
 vi.mock('../wasm', async (importActual) => {
   const actual = await importActual<typeof import('../wasm')>();
@@ -102,6 +109,36 @@ describe('parseWithWasm', () => {
   });
 });
 
+describe('buildWasmReconstructionFromData', () => {
+  it('parses the edited data written as COLMAP binary into a new wrapper', async () => {
+    const wasm = createWasmParserWrapper(buildWasmCamera(CameraModelId.PINHOLE));
+    vi.mocked(createWasmReconstruction).mockResolvedValue(wasm);
+
+    const result = await buildWasmReconstructionFromData(buildReconstruction({
+      cameras: [buildCamera()],
+      images: [buildImage()],
+      points3D: [buildPoint3D()],
+    }));
+
+    expect(result).toBe(wasm);
+    expect(wasm.parseCameras).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+    expect(wasm.parseImagesLazy).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+    expect(wasm.parsePoints3D).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+    expect(wasm.dispose).not.toHaveBeenCalled();
+  });
+
+  it('disposes the wrapper and keeps the JS data when parsing fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const wasm = createWasmParserWrapper(buildWasmCamera(CameraModelId.PINHOLE));
+    vi.mocked(wasm.parsePoints3D).mockReturnValue(false);
+    vi.mocked(createWasmReconstruction).mockResolvedValue(wasm);
+
+    await expect(buildWasmReconstructionFromData(buildReconstruction({ points3D: [buildPoint3D()] })))
+      .resolves.toBeNull();
+    expect(wasm.dispose).toHaveBeenCalledOnce();
+  });
+});
+
 function buildWasmCamera(modelId: number): CameraInfo {
   return {
     cameraId: 1,
@@ -6,12 +6,13 @@
  * and loaded lazily on-demand. This enables 4GB WASM + 4GB JS heap.
  */
 
-import type { Camera, Image as ColmapImage } from '../types/colmap';
+import type { Camera, Image as ColmapImage, Reconstruction } from '../types/colmap';
 import type { RigData, Rig, Frame, RigSensor, FrameDataMapping, SensorId } from '../types/rig';
 import { parseCameraModelId } from '../utils/cameraModelPolicy';
 import { appLogger } from '../utils/logger';
 import { parseSensorType } from '../utils/sensorTypePolicy';
 import { createWasmReconstruction, WasmReconstructionWrapper } from '../wasm';
+import { writeCamerasBinary, writeImagesBinary, writePoints3DBinary } from './colmapBinaryWriters';
 
 /**
  * Parse COLMAP files using WASM module
@@ -214,3 +215,39 @@ export async function parseWithWasm(
     return null;
   }
 }
+
+/**
+ * Build a WASM wrapper from an edited JS reconstruction, so edits that the
+ * wrapper cannot apply in place (point deletion) keep the fast rendering path.
+ * The data is written to COLMAP binary and parsed like a dropped model.
+ * Requires points3D and images[].points2D to be populated.
+ * Returns null if WASM is unavailable or parsing fails.
+ */
+export async function buildWasmReconstructionFromData(
+  reconstruction: Reconstruction
+): Promise<WasmReconstructionWrapper | null> {
+  let wasm: WasmReconstructionWrapper | null = null;
+
+  try {
+    wasm = await createWasmReconstruction();
+    if (!wasm || !reconstruction.points3D) {
+      wasm?.dispose();
+      return null;
+    }
+
+    const camerasOk = wasm.parseCameras(writeCamerasBinary(reconstruction.cameras));
+    const imagesOk = wasm.parseImagesLazy(writeImagesBinary(reconstruction.images));
+    const points3DOk = wasm.parsePoints3D(writePoints3DBinary(reconstruction.points3D));
+
+    if (!camerasOk || !imagesOk || !points3DOk) {
+      appLogger.warn('[WASM] Failed to rebuild the reconstruction, keeping the JS data');
+      wasm.dispose();
+      return null;
+    }
+    return wasm;
+  } catch (err) {
+    wasm?.dispose();
+    appLogger.warn('[WASM] Error rebuilding the reconstruction, keeping the JS data:', err);
+    return null;
+  }
+}
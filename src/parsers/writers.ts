@@ -41,6 +41,20 @@ import {
   writeRigsBinary,
 } from './colmapBinaryWriters';
 import { writePointsPLY } from './colmapPlyWriter';
+import {
+  writeLlffPosesBounds,
+  writeTransformsJson,
+  type NerfExportSummary,
+  type TransformsJsonOptions,
+} from './nerfExport';
+import {
+  downloadUndistortedZip,
+  type UndistortedZipExportSummary,
+} from './undistortedZipExport';
+import type { ImageFetchFunction } from './imageZipExport';
+import { downloadFile } from '../utils/download';
+import { undistortReconstruction } from '../utils/imageUndistorter';
+import type { UndistortionMode } from '../store/types';
 
 export { downloadBlob, downloadFile, __resetDownloadSchedulerForTests } from '../utils/download';
 export {
@@ -90,6 +104,23 @@ export type {
   MaskFetchFunction,
   MaskZipProgressCallback,
 } from './maskZipExport';
+export {
+  buildLlffPosesBounds,
+  getNerfCameraIntrinsics,
+  writeLlffPosesBounds,
+  writeNpyFloat64,
+  writeTransformsJson,
+} from './nerfExport';
+export type { NerfCameraIntrinsics, NerfExportSummary, TransformsJsonFormat, TransformsJsonOptions } from './nerfExport';
+export {
+  exportUndistortedZip,
+  getUndistortedImageName,
+} from './undistortedZipExport';
+export type {
+  UndistortedZipExport,
+  UndistortedZipExportOptions,
+  UndistortedZipExportSummary,
+} from './undistortedZipExport';
 
 /**
  * Export full reconstruction to COLMAP text format.
@@ -151,6 +182,37 @@ export function exportPointsPLY(
   exportPointsPLYFile(() => writePointsPLY(points3D));
 }
 
+/**
+ * Export camera poses as an instant-ngp or Nerfstudio transforms.json.
+ *
+ * @param reconstruction - The reconstruction to export
+ * @param options - Target format and whether to reference mask files
+ */
+export function exportTransformsJson(
+  reconstruction: Reconstruction,
+  options: TransformsJsonOptions
+): NerfExportSummary {
+  const { json, ...summary } = writeTransformsJson(reconstruction, options);
+  downloadFile(json, 'transforms.json');
+  return summary;
+}
+
+/**
+ * Export camera poses and depth bounds as LLFF poses_bounds.npy.
+ *
+ * @param reconstruction - The reconstruction to export
+ * @param wasmReconstruction - Optional WASM wrapper (used to build points3D if not in reconstruction)
+ */
+export function exportLlffPosesBounds(
+  reconstruction: Reconstruction,
+  wasmReconstruction?: WasmReconstructionWrapper | null
+): NerfExportSummary {
+  const points3D = getPoints3DForExport(reconstruction, wasmReconstruction);
+  const { data, ...summary } = writeLlffPosesBounds(reconstruction, points3D);
+  downloadFile(data, 'poses_bounds.npy');
+  return summary;
+}
+
 function createReconstructionZipFileWriters(
   reconstruction: Reconstruction,
   options: ZipExportOptions,
@@ -242,3 +304,36 @@ export async function downloadReconstructionZip(
     filename
   );
 }
+
+/**
+ * Export an undistorted copy of the dataset as a ZIP and download it, like
+ * `colmap image_undistorter`: pinhole cameras, keypoints moved into the
+ * undistorted images, and the undistorted images themselves.
+ *
+ * @param reconstruction - The reconstruction to export
+ * @param options - Undistortion mode and JPEG quality
+ * @param fetchImage - Loads a source image by name
+ * @param wasmReconstruction - Optional WASM wrapper (used for points3D and lite-mode keypoints)
+ * @param onProgress - Optional progress callback
+ */
+export async function downloadUndistortedReconstructionZip(
+  reconstruction: Reconstruction,
+  options: { mode: UndistortionMode; jpegQuality: number },
+  fetchImage: ImageFetchFunction,
+  wasmReconstruction?: WasmReconstructionWrapper | null,
+  onProgress?: ZipExportProgressCallback
+): Promise<UndistortedZipExportSummary> {
+  const undistorted = undistortReconstruction(reconstruction, options.mode, (image) =>
+    image.points2D.length === 0 && wasmReconstruction
+      ? wasmReconstruction.getImagePoints2DArray(image.imageId)
+      : image.points2D
+  );
+  return downloadUndistortedZip(
+    undistorted,
+    (undistortedReconstruction) =>
+      createReconstructionZipFileWriters(undistortedReconstruction, { format: 'binary' }, wasmReconstruction),
+    fetchImage,
+    { jpegQuality: options.jpegQuality },
+    onProgress
+  );
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { GaussianCloud } from '../gaussianCloud';
+import { computePsnrFromTextureReduction } from '../webgpu/psnrTextureCompute';
+import { isPsnrMetricImageDimensionMismatchError } from '../webgpu/psnrMetricImageError';
+import {
+  computeCpuSplatImageMetric,
+  computeCpuSplatImageMetricFromFiles,
+  renderCpuSplatRgba,
+  type CpuSplatMetricImageRequest,
+  type CpuSplatMetricView,
+} from './cpuSplatMetric';
+
+const IDENTITY_VIEW = new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]);
+
+function makeView(width: number, height: number): CpuSplatMetricView {
+  return {
+    viewmat: IDENTITY_VIEW,
+    K: new Float32Array([width, 0, width / 2, 0, width, height / 2, 0, 0, 1]),
+    width,
+    height,
+  };
+}
+
+function makeCloud(points: Array<[number, number, number]>): GaussianCloud {
+  const count = points.length;
+  return {
+    count,
+    positions: new Float32Array(points.flat()),
+    scales: new Float32Array(count * 3).fill(0.3),
+    rotations: new Float32Array(count * 4).map((_, index) => (index % 4 === 0 ? 1 : 0)),
+    opacities: new Float32Array(count).fill(0.99),
+    // SH DC of 1.77 evaluates to ~1.0 in every channel.
+    sh0: new Float32Array(count * 3).fill(1.77),
+    shDegree: 0,
+  };
+}
+
+function fillRgba(width: number, height: number, rgba: [number, number, number, number]): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    pixels.set(rgba, offset);
+  }
+  return pixels;
+}
+
+describe('cpuSplatMetric', () => {
+  it('rasterizes a splat in front of the camera at the principal point over the background', () => {
+    const rgba = renderCpuSplatRgba(makeCloud([[0, 0, -2]]), makeView(8, 8), [0, 0, 0]);
+
+    const center = (4 * 8 + 4) * 4;
+    expect(rgba[center]).toBeGreaterThan(200);
+    expect(rgba[center + 3]).toBe(255);
+    expect(Array.from(rgba.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+  });
+
+  it('applies the shader pixel-validity rules and reduces the error with the shared PSNR formula', () => {
+    const width = 4;
+    const height = 2;
+    const groundTruthPixels = fillRgba(width, height, [40, 80, 120, 255]);
+    // Transparent ground truth is never valid.
+    groundTruthPixels[3] = 0;
+    const maskPixels = fillRgba(width, height, [255, 255, 255, 255]);
+    // Dark and transparent mask pixels are excluded, like the shader's alpha > 0 && brightness > 0.5.
+    maskPixels.set([100, 100, 100, 255], 4);
+    maskPixels.set([255, 255, 255, 0], 8);
+
+    // An empty cloud renders the black background everywhere.
+    const result = computeCpuSplatImageMetric({
+      cloud: makeCloud([]),
+      view: makeView(width, height),
+      background: [0, 0, 0],
+      groundTruthPixels,
+      maskPixels,
+    });
+
+    // Expected values come from the known per-pixel error fed through the same
+    // reduction helper; this pins the CPU path's masking and arithmetic, not the
+    // WebGPU renderer's output.
+    const validPixelCount = width * height - 3;
+    const expected = computePsnrFromTextureReduction({
+      sumSquaredError: validPixelCount * (40 * 40 + 80 * 80 + 120 * 120),
+      validPixelCount,
+    });
+    expect(result.validPixelCount).toBe(expected.validPixelCount);
+    expect(result.mse).toBeCloseTo(expected.mse);
+    expect(result.psnr).toBeCloseTo(expected.psnr);
+    expect(result.ssim).toBeLessThan(1);
+  });
+
+  it('flags metric images that do not match the camera as a dataset-wide mismatch', async () => {
+    const request: CpuSplatMetricImageRequest = {
+      imageName: 'frame.jpg',
+      imageFile: new File(['image'], 'frame.jpg'),
+      cameraWidth: 8,
+      cameraHeight: 8,
+      view: makeView(4, 4),
+      background: [0, 0, 0],
+    };
+
+    const error = await computeCpuSplatImageMetricFromFiles(
+      makeCloud([]),
+      request,
+      async (_file, width, height) => ({
+        sourceWidth: 16,
+        sourceHeight: 16,
+        pixels: fillRgba(width, height, [0, 0, 0, 255]),
+      })
+    ).catch((caught: unknown) => caught);
+
+    expect(isPsnrMetricImageDimensionMismatchError(error)).toBe(true);
+    // The marker phrase survives a worker boundary that drops the error class.
+    expect(isPsnrMetricImageDimensionMismatchError({ message: (error as Error).message })).toBe(true);
+  });
+
+  it('decodes the mask at the render size and applies it', async () => {
+    const maskFile = new File(['mask'], 'frame.png');
+    const decoded: Array<[string, number, number]> = [];
+    const result = await computeCpuSplatImageMetricFromFiles(
+      makeCloud([]),
+      {
+        imageName: 'frame.jpg',
+        imageFile: new File(['image'], 'frame.jpg'),
+        maskFile,
+        cameraWidth: 8,
+        cameraHeight: 4,
+        view: makeView(4, 2),
+        background: [0, 0, 0],
+      },
+      async (file, width, height) => {
+        decoded.push([file.name, width, height]);
+        const pixels = file === maskFile
+          ? fillRgba(width, height, [0, 0, 0, 255])
+          : fillRgba(width, height, [10, 10, 10, 255]);
+        if (file === maskFile) pixels.set([255, 255, 255, 255], 0);
+        return { sourceWidth: 8, sourceHeight: 4, pixels };
+      }
+    );
+
+    expect(decoded).toEqual([['frame.jpg', 4, 2], ['frame.png', 4, 2]]);
+    expect(result.validPixelCount).toBe(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { rasterizationCPU } from 'gs-toolbox';
+import {
+  computePsnrAndSsimFromRgba,
+  type PsnrResult,
+} from '../../components/viewer3d/splatPsnrMetric';
+import type { GaussianCloud } from '../gaussianCloud';
+import {
+  PSNR_METRIC_IMAGE_MISMATCH_MARKER,
+  PsnrMetricImageDimensionMismatchError,
+} from '../webgpu/psnrMetricImageError';
+
+/**
+ * Longest side of the CPU metric render. The CPU rasterizer is orders of
+ * magnitude slower than the WebGPU path, so views are compared at this size
+ * instead of full camera resolution.
+ */
+export const CPU_SPLAT_PSNR_MAX_DIMENSION = 320;
+
+/** Near/far planes matching the WebGPU metric frame. */
+const CPU_SPLAT_METRIC_NEAR = 0.001;
+const CPU_SPLAT_METRIC_FAR = 10000;
+
+/**
+ * One training view for the CPU rasterizer: a column-major view matrix in the
+ * viewer's (OpenGL) camera convention, the same one the WebGPU metric frame
+ * uses, and a row-major 3x3 K at the render size.
+ */
+export interface CpuSplatMetricView {
+  viewmat: Float32Array;
+  K: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface CpuSplatMetricImageRequest {
+  imageName: string;
+  imageFile: File;
+  maskFile?: File | null;
+  /** Full camera resolution the metric image and mask must be decoded at. */
+  cameraWidth: number;
+  cameraHeight: number;
+  view: CpuSplatMetricView;
+  /** RGB background in [0, 1]. */
+  background: [number, number, number];
+}
+
+export interface CpuSplatMetricDecodedPixels {
+  sourceWidth: number;
+  sourceHeight: number;
+  pixels: Uint8ClampedArray;
+}
+
+/** Decode an image file and resample it to the render size. */
+export type CpuSplatMetricPixelDecoder = (
+  file: File,
+  width: number,
+  height: number
+) => Promise<CpuSplatMetricDecodedPixels>;
+
+/** Rasterize the cloud for one view into an opaque RGBA8 buffer. */
+export function renderCpuSplatRgba(
+  cloud: GaussianCloud,
+  view: CpuSplatMetricView,
+  background: [number, number, number]
+): Uint8ClampedArray {
+  const { renderColors } = rasterizationCPU({
+    cloud,
+    viewmats: view.viewmat,
+    Ks: view.K,
+    width: view.width,
+    height: view.height,
+    backgrounds: new Float32Array(background),
+    nearPlane: CPU_SPLAT_METRIC_NEAR,
+    farPlane: CPU_SPLAT_METRIC_FAR,
+  });
+  const pixelCount = view.width * view.height;
+  const rgba = new Uint8ClampedArray(pixelCount * 4);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const offset = pixel * 4;
+    const colorOffset = pixel * 3;
+    rgba[offset] = Math.round(renderColors[colorOffset] * 255);
+    rgba[offset + 1] = Math.round(renderColors[colorOffset + 1] * 255);
+    rgba[offset + 2] = Math.round(renderColors[colorOffset + 2] * 255);
+    rgba[offset + 3] = 255;
+  }
+  return rgba;
+}
+
+/**
+ * PSNR/SSIM of one CPU render against ground-truth pixels at the render size.
+ * Pixel validity (ground-truth alpha, mask alpha and brightness) is the same as
+ * the WebGPU reduction's.
+ */
+export function computeCpuSplatImageMetric({
+  cloud,
+  view,
+  background,
+  groundTruthPixels,
+  maskPixels = null,
+}: {
+  cloud: GaussianCloud;
+  view: CpuSplatMetricView;
+  background: [number, number, number];
+  groundTruthPixels: Uint8Array | Uint8ClampedArray;
+  maskPixels?: Uint8Array | Uint8ClampedArray | null;
+}): PsnrResult {
+  const renderedPixels = renderCpuSplatRgba(cloud, view, background);
+  return computePsnrAndSsimFromRgba(renderedPixels, groundTruthPixels, {
+    width: view.width,
+    height: view.height,
+    maskPixels,
+  });
+}
+
+/** Decode the metric image (and mask) for a request and compute its metric. */
+export async function computeCpuSplatImageMetricFromFiles(
+  cloud: GaussianCloud,
+  request: CpuSplatMetricImageRequest,
+  decodePixels: CpuSplatMetricPixelDecoder = decodeCpuSplatMetricPixels
+): Promise<PsnrResult> {
+  const { view } = request;
+  const groundTruth = await decodePixels(request.imageFile, view.width, view.height);
+  if (groundTruth.sourceWidth !== request.cameraWidth || groundTruth.sourceHeight !== request.cameraHeight) {
+    throw new PsnrMetricImageDimensionMismatchError(
+      `CPU PSNR requires an ${PSNR_METRIC_IMAGE_MISMATCH_MARKER} for ${request.imageName}: decoded ${groundTruth.sourceWidth}x${groundTruth.sourceHeight}, camera is ${request.cameraWidth}x${request.cameraHeight}. Load the image set that belongs to the sparse model.`
+    );
+  }
+
+  let maskPixels: Uint8ClampedArray | null = null;
+  if (request.maskFile) {
+    const mask = await decodePixels(request.maskFile, view.width, view.height);
+    if (mask.sourceWidth !== request.cameraWidth || mask.sourceHeight !== request.cameraHeight) {
+      throw new Error(
+        `CPU PSNR requires a mask matching the PINHOLE camera for ${request.imageName}: decoded ${mask.sourceWidth}x${mask.sourceHeight}, camera is ${request.cameraWidth}x${request.cameraHeight}.`
+      );
+    }
+    maskPixels = mask.pixels;
+  }
+
+  return computeCpuSplatImageMetric({
+    cloud,
+    view,
+    background: request.background,
+    groundTruthPixels: groundTruth.pixels,
+    maskPixels,
+  });
+}
+
+/** Works on the main thread and in workers; needs createImageBitmap and OffscreenCanvas. */
+export async function decodeCpuSplatMetricPixels(
+  file: File,
+  width: number,
+  height: number
+): Promise<CpuSplatMetricDecodedPixels> {
+  const bitmap = await createImageBitmap(file, {
+    colorSpaceConversion: 'none',
+    premultiplyAlpha: 'none',
+  });
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Could not create CPU PSNR canvas context');
+
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    return {
+      sourceWidth: bitmap.width,
+      sourceHeight: bitmap.height,
+      pixels: context.getImageData(0, 0, width, height).data,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,48 @@
+import type { GaussianCloud } from '../gaussianCloud';
+import { computeCpuSplatImageMetricFromFiles } from './cpuSplatMetric';
+import type {
+  CpuSplatMetricWorkerComputeRequest,
+  CpuSplatMetricWorkerRequest,
+  CpuSplatMetricWorkerResponse,
+} from './cpuSplatMetricWorkerProtocol';
+
+type CpuSplatMetricWorkerGlobal = {
+  onmessage: ((event: MessageEvent<CpuSplatMetricWorkerRequest>) => void) | null;
+  postMessage: (message: CpuSplatMetricWorkerResponse) => void;
+};
+
+const workerSelf = self as unknown as CpuSplatMetricWorkerGlobal;
+
+let cloud: GaussianCloud | null = null;
+// Views are rasterized one at a time; the session may post several ahead.
+let queue: Promise<void> = Promise.resolve();
+
+workerSelf.onmessage = (event: MessageEvent<CpuSplatMetricWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'load') {
+    cloud = message.cloud;
+    return;
+  }
+  if (message.type !== 'compute') {
+    return;
+  }
+
+  queue = queue.then(() => computeInWorker(message));
+};
+
+async function computeInWorker(message: CpuSplatMetricWorkerComputeRequest): Promise<void> {
+  try {
+    if (!cloud) {
+      throw new Error('CPU PSNR worker has no splat loaded');
+    }
+    const result = await computeCpuSplatImageMetricFromFiles(cloud, message.request);
+    workerSelf.postMessage({ type: 'result', id: message.id, result });
+  } catch (error) {
+    workerSelf.postMessage({
+      type: 'error',
+      id: message.id,
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
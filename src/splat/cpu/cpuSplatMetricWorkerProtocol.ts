@@ -0,0 +1,35 @@
+import type { PsnrResult } from '../../components/viewer3d/splatPsnrRuntime';
+import type { GaussianCloud } from '../gaussianCloud';
+import type { CpuSplatMetricImageRequest } from './cpuSplatMetric';
+
+export interface CpuSplatMetricWorkerLoadRequest {
+  type: 'load';
+  cloud: GaussianCloud;
+}
+
+export interface CpuSplatMetricWorkerComputeRequest {
+  type: 'compute';
+  id: number;
+  request: CpuSplatMetricImageRequest;
+}
+
+export type CpuSplatMetricWorkerRequest =
+  | CpuSplatMetricWorkerLoadRequest
+  | CpuSplatMetricWorkerComputeRequest;
+
+export interface CpuSplatMetricWorkerResultResponse {
+  type: 'result';
+  id: number;
+  result: PsnrResult;
+}
+
+export interface CpuSplatMetricWorkerErrorResponse {
+  type: 'error';
+  id: number;
+  message: string;
+  stack?: string;
+}
+
+export type CpuSplatMetricWorkerResponse =
+  | CpuSplatMetricWorkerResultResponse
+  | CpuSplatMetricWorkerErrorResponse;
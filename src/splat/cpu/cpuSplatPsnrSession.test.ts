@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildCamera, buildFile, buildImage } from '../../test/builders';
+import type { GaussianCloud, LoadedGaussianCloud } from '../gaussianCloud';
+import {
+  createColmapMetricWebGpuSplatFrame,
+  projectWebGpuSplatFramePointToPixel,
+} from '../webgpu/cameraFrames';
+import { CPU_SPLAT_PSNR_MAX_DIMENSION, renderCpuSplatRgba } from './cpuSplatMetric';
+import type { CpuSplatMetricWorkerRequest } from './cpuSplatMetricWorkerProtocol';
+import { createCpuSplatMetricView, createCpuSplatPsnrSession } from './cpuSplatPsnrSession';
+
+function makeCloud(point: [number, number, number]): GaussianCloud {
+  return {
+    count: 1,
+    positions: new Float32Array(point),
+    scales: new Float32Array([0.001, 0.001, 0.001]),
+    rotations: new Float32Array([1, 0, 0, 0]),
+    opacities: new Float32Array([0.99]),
+    sh0: new Float32Array([1.77, 1.77, 1.77]),
+    shDegree: 0,
+  };
+}
+
+function makeLoadedCloud(cloud: GaussianCloud): LoadedGaussianCloud {
+  return { file: buildFile('scene.spz', 'splat'), format: 'spz', byteLength: 1, cloud };
+}
+
+function getBrightestPixel(rgba: Uint8ClampedArray, width: number): [number, number] {
+  let brightest = 0;
+  for (let pixel = 1; pixel < rgba.length / 4; pixel++) {
+    if (rgba[pixel * 4] > rgba[brightest * 4]) brightest = pixel;
+  }
+  return [brightest % width, Math.floor(brightest / width)];
+}
+
+describe('cpuSplatPsnrSession', () => {
+  const camera = buildCamera({ width: 800, height: 400, params: [600, 620, 410, 190] });
+  const image = buildImage({ qvec: [0.98, 0.1, -0.15, 0.05], tvec: [0.3, -0.2, 1.5] });
+
+  it.each([
+    ['without a transform', undefined],
+    ['with a splat transform', {
+      scale: 1.5,
+      rotationX: 0.2,
+      rotationY: -0.1,
+      rotationZ: 0.3,
+      translationX: 0.4,
+      translationY: 0,
+      translationZ: -0.2,
+    }],
+  ])('projects splats to the pixel the WebGPU metric frame does %s', (_label, modelTransform) => {
+    const width = 80;
+    const height = 40;
+    const frame = createColmapMetricWebGpuSplatFrame({ image, camera, width, height, modelTransform });
+    const view = createCpuSplatMetricView({ image, camera, width, height, modelTransform });
+    // Find a model point the WebGPU frame places inside the image.
+    const point: [number, number, number] = [0.1, -0.05, 0];
+    const expected = projectWebGpuSplatFramePointToPixel(frame, point);
+    expect(expected[0]).toBeGreaterThan(0);
+    expect(expected[0]).toBeLessThan(width);
+
+    const rgba = renderCpuSplatRgba(makeCloud(point), view, [0, 0, 0]);
+
+    expect(getBrightestPixel(rgba, width)).toEqual([Math.floor(expected[0]), Math.floor(expected[1])]);
+  });
+
+  it('computes metrics on the calling thread when workers are unavailable', async () => {
+    const decodePixels = vi.fn(async (_file: File, width: number, height: number) => ({
+      sourceWidth: camera.width,
+      sourceHeight: camera.height,
+      pixels: new Uint8ClampedArray(width * height * 4).fill(255),
+    }));
+    const session = await createCpuSplatPsnrSession({
+      splatFile: buildFile('scene.spz', 'splat'),
+      loadedCloud: makeLoadedCloud(makeCloud([0, 0, 0])),
+      deps: { createWorker: null, decodePixels },
+    });
+
+    const result = await session.computeImageMetric({
+      imageFile: buildFile('image.jpg'),
+      image,
+      camera,
+      width: 32,
+      height: 16,
+    });
+
+    expect(session.maxRenderDimension).toBe(CPU_SPLAT_PSNR_MAX_DIMENSION);
+    expect(decodePixels).toHaveBeenCalledWith(expect.any(File), 32, 16);
+    expect(result.validPixelCount).toBe(32 * 16);
+    expect(Number.isFinite(result.psnr)).toBe(true);
+    expect(result.ssim).toBeDefined();
+  });
+
+  it('sends views to the worker and rejects outstanding work on dispose', async () => {
+    const posted: CpuSplatMetricWorkerRequest[] = [];
+    const worker = {
+      onmessage: null as ((event: MessageEvent) => void) | null,
+      onerror: null,
+      postMessage: vi.fn((message: CpuSplatMetricWorkerRequest) => posted.push(message)),
+      terminate: vi.fn(),
+    };
+    const cloud = makeCloud([0, 0, 0]);
+    const session = await createCpuSplatPsnrSession({
+      splatFile: buildFile('scene.spz', 'splat'),
+      loadedCloud: makeLoadedCloud(cloud),
+      deps: { createWorker: () => worker as unknown as Worker },
+    });
+    const options = { imageFile: buildFile('image.jpg'), image, camera, width: 32, height: 16 };
+
+    const first = session.computeImageMetric(options);
+    const second = session.computeImageMetric(options);
+    expect(posted[0]).toEqual({ type: 'load', cloud });
+    expect(posted[1]).toMatchObject({
+      type: 'compute',
+      request: { imageName: 'image.jpg', cameraWidth: 800, cameraHeight: 400, view: { width: 32, height: 16 } },
+    });
+
+    const firstId = (posted[1] as Extract<CpuSplatMetricWorkerRequest, { type: 'compute' }>).id;
+    worker.onmessage?.({
+      data: { type: 'result', id: firstId, result: { psnr: 30, mse: 1, validPixelCount: 512, ssim: 0.9 } },
+    } as MessageEvent);
+    await expect(first).resolves.toEqual({ psnr: 30, mse: 1, validPixelCount: 512, ssim: 0.9 });
+
+    session.dispose();
+    await expect(second).rejects.toThrow('CPU PSNR session was disposed');
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+    await expect(session.computeImageMetric(options)).rejects.toThrow('CPU PSNR session was disposed');
+  });
+});
@@ -0,0 +1,244 @@
+import type { PsnrResult } from '../../components/viewer3d/splatPsnrRuntime';
+import type { Camera, Image } from '../../types/colmap';
+import type { Sim3dEuler } from '../../types/sim3d';
+import { getCameraIntrinsics } from '../../utils/cameraIntrinsics';
+import type { GaussianCloud, LoadedGaussianCloud } from '../gaussianCloud';
+import {
+  loadGaussianCloudFromFile as defaultLoadGaussianCloudFromFile,
+} from '../gaussianCloudLoader';
+import { cameraModelSupportsSplatMetric } from '../splatMetricCapability';
+import { createColmapMetricWebGpuSplatFrame } from '../webgpu/cameraFrames';
+import { getWebGpuSplatDefaultBackgroundColor } from '../webgpu/splatRenderBackground';
+import {
+  CPU_SPLAT_PSNR_MAX_DIMENSION,
+  computeCpuSplatImageMetricFromFiles,
+  type CpuSplatMetricImageRequest,
+  type CpuSplatMetricPixelDecoder,
+  type CpuSplatMetricView,
+} from './cpuSplatMetric';
+import type {
+  CpuSplatMetricWorkerRequest,
+  CpuSplatMetricWorkerResponse,
+} from './cpuSplatMetricWorkerProtocol';
+
+export interface CpuSplatPsnrSession {
+  /** Longest render side the evaluator should request from this session. */
+  maxRenderDimension: number;
+  computeImageMetric: (options: CpuSplatPsnrImageMetricOptions) => Promise<PsnrResult>;
+  dispose: () => void;
+}
+
+export interface CpuSplatPsnrImageMetricOptions {
+  imageFile: File;
+  maskFile?: File | null;
+  image: Image;
+  camera: Camera;
+  width: number;
+  height: number;
+  transform?: Sim3dEuler;
+  modelTransform?: Sim3dEuler;
+}
+
+export interface CpuSplatPsnrSessionOptions {
+  splatFile: File;
+  loadedCloud?: LoadedGaussianCloud;
+  deps?: CpuSplatPsnrSessionDeps;
+}
+
+export interface CpuSplatPsnrSessionDeps {
+  loadGaussianCloudFromFile?: typeof defaultLoadGaussianCloudFromFile;
+  /** Null computes on the calling thread. */
+  createWorker?: (() => Worker | null) | null;
+  /** In-process decoding only; the worker always uses its own decoder. */
+  decodePixels?: CpuSplatMetricPixelDecoder;
+}
+
+interface PendingCpuSplatMetric {
+  resolve: (result: PsnrResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The CPU rasterizer's view of a COLMAP image: the WebGPU metric frame's view
+ * matrix (so both backends agree on pose and splat transform) and a pinhole K
+ * scaled to the render size.
+ */
+export function createCpuSplatMetricView({
+  image,
+  camera,
+  width,
+  height,
+  transform,
+  modelTransform,
+}: Omit<CpuSplatPsnrImageMetricOptions, 'imageFile' | 'maskFile'>): CpuSplatMetricView {
+  const frame = createColmapMetricWebGpuSplatFrame({
+    image,
+    camera,
+    width,
+    height,
+    transform,
+    modelTransform,
+  });
+  const intrinsics = getCameraIntrinsics(camera);
+  const scaleX = width / camera.width;
+  const scaleY = height / camera.height;
+  return {
+    viewmat: new Float32Array(frame.camera.viewMatrix),
+    K: new Float32Array([
+      intrinsics.fx * scaleX, 0, intrinsics.cx * scaleX,
+      0, intrinsics.fy * scaleY, intrinsics.cy * scaleY,
+      0, 0, 1,
+    ]),
+    width,
+    height,
+  };
+}
+
+export async function createCpuSplatPsnrSession({
+  splatFile,
+  loadedCloud: providedLoadedCloud,
+  deps = {},
+}: CpuSplatPsnrSessionOptions): Promise<CpuSplatPsnrSession> {
+  const loadGaussianCloudFromFile = deps.loadGaussianCloudFromFile ?? defaultLoadGaussianCloudFromFile;
+  const loadedCloud = providedLoadedCloud ?? await loadGaussianCloudFromFile(splatFile);
+  const workerFactory = deps.createWorker === undefined
+    ? createDefaultCpuSplatMetricWorker
+    : deps.createWorker;
+  return new DefaultCpuSplatPsnrSession(loadedCloud.cloud, workerFactory?.() ?? null, deps.decodePixels);
+}
+
+class DefaultCpuSplatPsnrSession implements CpuSplatPsnrSession {
+  readonly maxRenderDimension = CPU_SPLAT_PSNR_MAX_DIMENSION;
+  private readonly cloud: GaussianCloud;
+  private readonly worker: Worker | null;
+  private readonly decodePixels?: CpuSplatMetricPixelDecoder;
+  private readonly pending = new Map<number, PendingCpuSplatMetric>();
+  private nextRequestId = 1;
+  private inProcessQueue: Promise<unknown> = Promise.resolve();
+  private disposed = false;
+
+  constructor(cloud: GaussianCloud, worker: Worker | null, decodePixels?: CpuSplatMetricPixelDecoder) {
+    this.cloud = cloud;
+    this.worker = worker;
+    this.decodePixels = decodePixels;
+    if (worker) {
+      worker.onmessage = (event: MessageEvent<CpuSplatMetricWorkerResponse>) => {
+        this.handleWorkerResponse(event.data);
+      };
+      worker.onerror = (event) => {
+        this.rejectAllPending(new Error(event.message || 'CPU PSNR worker failed'));
+      };
+      // Structured clone copies the cloud; the renderers keep using the cached original.
+      worker.postMessage({ type: 'load', cloud } satisfies CpuSplatMetricWorkerRequest);
+    }
+  }
+
+  async computeImageMetric({
+    imageFile,
+    maskFile,
+    image,
+    camera,
+    width,
+    height,
+    transform,
+    modelTransform,
+  }: CpuSplatPsnrImageMetricOptions): Promise<PsnrResult> {
+    this.assertNotDisposed();
+    requirePositiveInteger(width, 'width');
+    requirePositiveInteger(height, 'height');
+    if (!cameraModelSupportsSplatMetric(camera.modelId)) {
+      throw new Error(`CPU PSNR requires an undistorted pinhole camera for ${image.name}`);
+    }
+
+    const background = getWebGpuSplatDefaultBackgroundColor();
+    const request: CpuSplatMetricImageRequest = {
+      imageName: image.name,
+      imageFile,
+      maskFile: maskFile ?? null,
+      cameraWidth: camera.width,
+      cameraHeight: camera.height,
+      view: createCpuSplatMetricView({ image, camera, width, height, transform, modelTransform }),
+      background: [background[0], background[1], background[2]],
+    };
+
+    if (!this.worker) {
+      const result = this.inProcessQueue.then(() => {
+        this.assertNotDisposed();
+        return computeCpuSplatImageMetricFromFiles(this.cloud, request, this.decodePixels);
+      });
+      this.inProcessQueue = result.catch(() => undefined);
+      return result;
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise<PsnrResult>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker?.postMessage({ type: 'compute', id, request } satisfies CpuSplatMetricWorkerRequest);
+    });
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    if (this.worker) {
+      this.worker.onmessage = null;
+      this.worker.onerror = null;
+      this.worker.terminate();
+    }
+    this.rejectAllPending(new Error('CPU PSNR session was disposed'));
+  }
+
+  private handleWorkerResponse(response: CpuSplatMetricWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.result);
+      return;
+    }
+
+    // Keep the message intact: the evaluator classifies size mismatches by its marker phrase.
+    const error = new Error(response.message);
+    if (response.stack) {
+      error.stack = response.stack;
+    }
+    pending.reject(error);
+  }
+
+  private rejectAllPending(error: Error): void {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const { reject } of pending) {
+      reject(error);
+    }
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new Error('CPU PSNR session was disposed');
+    }
+  }
+}
+
+function createDefaultCpuSplatMetricWorker(): Worker | null {
+  if (typeof Worker !== 'function') {
+    return null;
+  }
+
+  try {
+    return new Worker(new URL('./cpuSplatMetric.worker.ts', import.meta.url), {
+      type: 'module',
+      name: 'cpu-splat-metric',
+    });
+  } catch {
+    return null;
+  }
+}
+
+function requirePositiveInteger(value: number, name: string): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid CPU PSNR ${name}: expected a positive integer`);
+  }
+  return value;
+}
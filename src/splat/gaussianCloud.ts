@@ -1,7 +1,7 @@
 import type { GaussianCloud as GsToolboxGaussianCloud } from 'gs-toolbox';
 
 export type GaussianCloud = GsToolboxGaussianCloud;
-export type GaussianCloudFormat = 'spz' | 'ply';
+export type GaussianCloudFormat = 'spz' | 'ply' | 'splat' | 'ksplat' | 'rad';
 
 export interface LoadedGaussianCloud {
   file: File;
@@ -117,11 +117,14 @@ describe('gaussian cloud loader', () => {
   it('detects supported Gaussian cloud file formats', () => {
     expect(getGaussianCloudFormatForFile(new File(['x'], 'scene.SPZ'))).toBe('spz');
     expect(getGaussianCloudFormatForFile(new File(['x'], 'scene.ply'))).toBe('ply');
-    expect(() => getGaussianCloudFormatForFile(new File(['x'], 'scene.splat')))
-      .toThrow('Unsupported Gaussian splat format: scene.splat');
+    expect(getGaussianCloudFormatForFile(new File(['x'], 'scene.splat'))).toBe('splat');
+    expect(getGaussianCloudFormatForFile(new File(['x'], 'scene.ksplat'))).toBe('ksplat');
+    expect(getGaussianCloudFormatForFile(new File(['x'], 'scene.rad'))).toBe('rad');
+    expect(() => getGaussianCloudFormatForFile(new File(['x'], 'scene.sog')))
+      .toThrow('Unsupported Gaussian splat format: scene.sog');
     expect(isGaussianCloudFile(new File(['x'], 'points3D.bin'))).toBe(false);
     expect(isGaussianCloudFile(new File(['x'], 'scene.ply'))).toBe(true);
-    expect(isGaussianCloudFile(new File(['x'], 'scene.splat'))).toBe(false);
+    expect(isGaussianCloudFile(new File(['x'], 'scene.splat'))).toBe(true);
   });
 
   it('creates SH0-only views without mutating higher-order SH clouds', () => {
@@ -183,6 +186,24 @@ describe('gaussian cloud loader', () => {
     ]);
   });
 
+  it('routes .splat, .ksplat and RAD files through their loaders', async () => {
+    const loadSplatFromBuffer = vi.fn(() => makeCloud(1));
+    const loadKSplatFromBuffer = vi.fn(() => makeCloud(2));
+    const loadRADFromBuffer = vi.fn(async () => makeCloud(3));
+    const deps = { loadSplatFromBuffer, loadKSplatFromBuffer, loadRADFromBuffer };
+
+    await expect(loadGaussianCloudFromFile(new File(['s'], 'scene.splat'), deps))
+      .resolves.toMatchObject({ format: 'splat', cloud: { count: 1 } });
+    await expect(loadGaussianCloudFromFile(new File(['k'], 'scene.ksplat'), deps))
+      .resolves.toMatchObject({ format: 'ksplat', cloud: { count: 2 } });
+    await expect(loadGaussianCloudFromFile(new File(['r'], 'scene.rad'), deps))
+      .resolves.toMatchObject({ format: 'rad', cloud: { count: 3 } });
+
+    expect(loadSplatFromBuffer).toHaveBeenCalledTimes(1);
+    expect(loadKSplatFromBuffer).toHaveBeenCalledTimes(1);
+    expect(loadRADFromBuffer).toHaveBeenCalledTimes(1);
+  });
+
   it('reports read and decode progress for large-file loading', async () => {
     const progress: string[] = [];
     const loadPLYFromBuffer = vi.fn(() => makeCloud(2));
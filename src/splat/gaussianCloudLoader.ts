@@ -1,6 +1,8 @@
 import {
   loadPLYFromBuffer as defaultLoadPLYFromBuffer,
   loadSPZFromBuffer as defaultLoadSPZFromBuffer,
+  loadSparkRADFromBuffer as defaultLoadRADFromBuffer,
+  loadSplatFromBuffer as defaultLoadSplatFromBuffer,
 } from 'gs-toolbox';
 import { getSplatFileExtension } from '../utils/splatFilePolicy';
 import {
@@ -9,6 +11,7 @@ import {
   type GaussianCloudFormat,
   type LoadedGaussianCloud,
 } from './gaussianCloud';
+import { loadKSplatFromBuffer as defaultLoadKSplatFromBuffer } from './ksplatLoader';
 import {
   cachePackedWebGpuGaussianCloud,
   type PackedWebGpuGaussianCloud,
@@ -42,6 +45,9 @@ export type GaussianCloudLoadProgress =
 export interface GaussianCloudLoaderDeps {
   loadPLYFromBuffer?: (buffer: ArrayBuffer) => GaussianCloud;
   loadSPZFromBuffer?: (buffer: ArrayBuffer) => GaussianCloud;
+  loadSplatFromBuffer?: (buffer: ArrayBuffer) => GaussianCloud;
+  loadKSplatFromBuffer?: (buffer: ArrayBuffer) => GaussianCloud;
+  loadRADFromBuffer?: (buffer: ArrayBuffer) => Promise<GaussianCloud>;
   createWorker?: (() => Worker | null) | null;
   onProgress?: (progress: GaussianCloudLoadProgress) => void;
 }
@@ -56,6 +62,12 @@ export function getGaussianCloudFormatForFile(file: File): GaussianCloudFormat {
       return 'spz';
     case '.ply':
       return 'ply';
+    case '.splat':
+      return 'splat';
+    case '.ksplat':
+      return 'ksplat';
+    case '.rad':
+      return 'rad';
     default:
       throw new Error(`Unsupported Gaussian splat format: ${file.name}`);
   }
@@ -212,9 +224,16 @@ async function decodeLoadedGaussianCloudFromBytes(
   };
 }
 
+function hasInjectedGaussianCloudDecoder(deps: GaussianCloudLoaderDeps): boolean {
+  return deps.loadPLYFromBuffer !== undefined
+    || deps.loadSPZFromBuffer !== undefined
+    || deps.loadSplatFromBuffer !== undefined
+    || deps.loadKSplatFromBuffer !== undefined
+    || deps.loadRADFromBuffer !== undefined;
+}
+
 function shouldUseGaussianCloudLoadCache(deps: GaussianCloudLoaderDeps): boolean {
-  return deps.loadPLYFromBuffer === undefined
-    && deps.loadSPZFromBuffer === undefined
+  return !hasInjectedGaussianCloudDecoder(deps)
     && deps.createWorker === undefined;
 }
 
@@ -223,7 +242,7 @@ async function decodeGaussianCloud(
   buffer: ArrayBuffer,
   deps: GaussianCloudLoaderDeps
 ): Promise<{ cloud: GaussianCloud; packed: PackedWebGpuGaussianCloud | null }> {
-  if (deps.loadPLYFromBuffer || deps.loadSPZFromBuffer) {
+  if (hasInjectedGaussianCloudDecoder(deps)) {
     return {
       cloud: await decodeGaussianCloudInProcess(format, buffer, deps),
       packed: null,
@@ -254,6 +273,12 @@ async function decodeGaussianCloudInProcess(
       return (deps.loadSPZFromBuffer ?? defaultLoadSPZFromBuffer)(buffer);
     case 'ply':
       return (deps.loadPLYFromBuffer ?? defaultLoadPLYFromBuffer)(buffer);
+    case 'splat':
+      return (deps.loadSplatFromBuffer ?? defaultLoadSplatFromBuffer)(buffer);
+    case 'ksplat':
+      return (deps.loadKSplatFromBuffer ?? defaultLoadKSplatFromBuffer)(buffer);
+    case 'rad':
+      return (deps.loadRADFromBuffer ?? defaultLoadRADFromBuffer)(buffer);
   }
 }
 
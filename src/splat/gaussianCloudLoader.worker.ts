@@ -1,8 +1,15 @@
 import {
   loadPLYFromBuffer,
   loadSPZFromBuffer,
+  loadSparkRADFromBuffer,
+  loadSplatFromBuffer,
 } from 'gs-toolbox';
-import { validateGaussianCloud, type GaussianCloud } from './gaussianCloud';
+import {
+  validateGaussianCloud,
+  type GaussianCloud,
+  type GaussianCloudFormat,
+} from './gaussianCloud';
+import { loadKSplatFromBuffer } from './ksplatLoader';
 import {
   createPackedWebGpuGaussianCloud,
   type PackedWebGpuGaussianCloud,
@@ -44,9 +51,7 @@ async function decodeGaussianCloudInWorker(request: GaussianCloudWorkerDecodeReq
     phase: 'decoding',
   } satisfies GaussianCloudWorkerResponse);
 
-  const cloud = request.format === 'spz'
-    ? loadSPZFromBuffer(request.buffer)
-    : loadPLYFromBuffer(request.buffer);
+  const cloud = await decodeGaussianCloudBuffer(request.format, request.buffer);
 
   try {
     validateGaussianCloud(cloud);
@@ -73,6 +78,24 @@ async function decodeGaussianCloudInWorker(request: GaussianCloudWorkerDecodeReq
   }
 }
 
+async function decodeGaussianCloudBuffer(
+  format: GaussianCloudFormat,
+  buffer: ArrayBuffer
+): Promise<GaussianCloud> {
+  switch (format) {
+    case 'spz':
+      return loadSPZFromBuffer(buffer);
+    case 'ply':
+      return loadPLYFromBuffer(buffer);
+    case 'splat':
+      return loadSplatFromBuffer(buffer);
+    case 'ksplat':
+      return loadKSplatFromBuffer(buffer);
+    case 'rad':
+      return loadSparkRADFromBuffer(buffer);
+  }
+}
+
 function collectTransferList(
   cloud: GaussianCloud,
   packed: PackedWebGpuGaussianCloud
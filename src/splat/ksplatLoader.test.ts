@@ -0,0 +1,180 @@
+import { SH_C0 } from 'gs-toolbox';
+import { describe, expect, it } from 'vitest';
+import { validateGaussianCloud } from './gaussianCloud';
+import {
+  KSPLAT_HEADER_BYTES,
+  KSPLAT_SECTION_HEADER_BYTES,
+  getKSplatBytesPerSplat,
+  loadKSplatFromBuffer,
+} from './ksplatLoader';
+
+interface TestSplat {
+  center: [number, number, number];
+  scale: [number, number, number];
+  rotation: [number, number, number, number];
+  rgba: [number, number, number, number];
+  sh?: number[];
+}
+
+function toHalf(value: number): number {
+  const floatView = new Float32Array([value]);
+  const bits = new Uint32Array(floatView.buffer)[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+  const mantissa = (bits >>> 13) & 0x03ff;
+  if (value === 0) return sign;
+  return sign | (exponent << 10) | mantissa;
+}
+
+/**
+ * Single-section writer. Levels 1 and 2 quantize centers against a single
+ * bucket at `bucketCenter`, split into one full bucket and one partial bucket.
+ */
+function writeKSplat(
+  splats: TestSplat[],
+  options: { compressionLevel: number; shDegree?: number; bucketCenter?: [number, number, number] }
+): ArrayBuffer {
+  const { compressionLevel, shDegree = 0, bucketCenter = [0, 0, 0] } = options;
+  const bytesPerSplat = getKSplatBytesPerSplat(compressionLevel, shDegree);
+  const compressed = compressionLevel > 0;
+  const bucketSize = 2;
+  const fullBucketCount = compressed ? Math.floor(splats.length / bucketSize) : 0;
+  const partialLength = compressed ? splats.length - fullBucketCount * bucketSize : 0;
+  const partiallyFilledBucketCount = partialLength > 0 ? 1 : 0;
+  const bucketCount = compressed ? fullBucketCount + partiallyFilledBucketCount : 0;
+  const bucketsBytes = bucketCount * 12 + partiallyFilledBucketCount * 4;
+  const bucketBlockSize = 10;
+  const scaleRange = 32767;
+  const buffer = new ArrayBuffer(
+    KSPLAT_HEADER_BYTES + KSPLAT_SECTION_HEADER_BYTES + bucketsBytes + bytesPerSplat * splats.length
+  );
+  const view = new DataView(buffer);
+
+  view.setUint8(0, 0);
+  view.setUint8(1, 1);
+  view.setUint32(4, 1, true);
+  view.setUint32(8, 1, true);
+  view.setUint32(12, splats.length, true);
+  view.setUint32(16, splats.length, true);
+  view.setUint16(20, compressionLevel, true);
+  view.setFloat32(36, -2, true);
+  view.setFloat32(40, 2, true);
+
+  const section = KSPLAT_HEADER_BYTES;
+  view.setUint32(section, splats.length, true);
+  view.setUint32(section + 4, splats.length, true);
+  view.setUint32(section + 8, bucketSize, true);
+  view.setUint32(section + 12, bucketCount, true);
+  view.setFloat32(section + 16, bucketBlockSize, true);
+  view.setUint16(section + 20, 12, true);
+  view.setUint32(section + 24, scaleRange, true);
+  view.setUint32(section + 32, fullBucketCount, true);
+  view.setUint32(section + 36, partiallyFilledBucketCount, true);
+  view.setUint16(section + 40, shDegree, true);
+
+  const sectionBase = KSPLAT_HEADER_BYTES + KSPLAT_SECTION_HEADER_BYTES;
+  if (partiallyFilledBucketCount) view.setUint32(sectionBase, partialLength, true);
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    bucketCenter.forEach((value, axis) => {
+      view.setFloat32(sectionBase + partiallyFilledBucketCount * 4 + bucket * 12 + axis * 4, value, true);
+    });
+  }
+
+  const writeFloat = (offset: number, value: number, bytes: number) => {
+    if (bytes === 4) view.setFloat32(offset, value, true);
+    else view.setUint16(offset, toHalf(value), true);
+  };
+  const floatBytes = compressed ? 2 : 4;
+
+  splats.forEach((splat, index) => {
+    let offset = sectionBase + bucketsBytes + index * bytesPerSplat;
+    splat.center.forEach((value, axis) => {
+      if (compressed) {
+        const quantized = Math.round((value - bucketCenter[axis]) / (bucketBlockSize / 2 / scaleRange)) + scaleRange;
+        view.setUint16(offset + axis * 2, quantized, true);
+      } else {
+        view.setFloat32(offset + axis * 4, value, true);
+      }
+    });
+    offset += compressed ? 6 : 12;
+    splat.scale.forEach((value, axis) => writeFloat(offset + axis * floatBytes, value, floatBytes));
+    offset += floatBytes * 3;
+    splat.rotation.forEach((value, axis) => writeFloat(offset + axis * floatBytes, value, floatBytes));
+    offset += floatBytes * 4;
+    splat.rgba.forEach((value, channel) => view.setUint8(offset + channel, value));
+    offset += 4;
+    splat.sh?.forEach((value, component) => {
+      if (compressionLevel === 2) {
+        view.setUint8(offset + component, Math.round(((value + 2) / 4) * 255));
+      } else {
+        writeFloat(offset + component * floatBytes, value, floatBytes);
+      }
+    });
+  });
+
+  return buffer;
+}
+
+const SPLATS: TestSplat[] = [
+  { center: [1, 2, 3], scale: [0.5, 0.25, 0.125], rotation: [2, 0, 0, 0], rgba: [255, 0, 128, 255] },
+  { center: [-1, 0.5, 0], scale: [1, 1, 1], rotation: [0, 0, 1, 0], rgba: [0, 255, 0, 51] },
+  { center: [0, -2, 4], scale: [2, 0.5, 1], rotation: [0.5, 0.5, 0.5, 0.5], rgba: [64, 64, 64, 128] },
+];
+
+describe('ksplat loader', () => {
+  it('decodes uncompressed rows into activated Gaussian attributes', () => {
+    const cloud = loadKSplatFromBuffer(writeKSplat(SPLATS, { compressionLevel: 0 }));
+
+    validateGaussianCloud(cloud);
+    expect(cloud.count).toBe(3);
+    expect(cloud.shDegree).toBe(0);
+    expect(Array.from(cloud.positions)).toEqual([1, 2, 3, -1, 0.5, 0, 0, -2, 4]);
+    expect(Array.from(cloud.scales.slice(0, 3))).toEqual([0.5, 0.25, 0.125]);
+    expect(Array.from(cloud.rotations.slice(0, 4))).toEqual([1, 0, 0, 0]);
+    expect(cloud.opacities[1]).toBeCloseTo(0.2);
+    expect(cloud.sh0[0]).toBeCloseTo(0.5 / SH_C0);
+    expect(cloud.sh0[1]).toBeCloseTo(-0.5 / SH_C0);
+  });
+
+  it('restores bucket-relative centers from full and partially filled buckets', () => {
+    const cloud = loadKSplatFromBuffer(writeKSplat(SPLATS, {
+      compressionLevel: 1,
+      bucketCenter: [0.5, -0.5, 2],
+    }));
+
+    validateGaussianCloud(cloud);
+    [1, 2, 3, -1, 0.5, 0, 0, -2, 4].forEach((value, index) => {
+      expect(cloud.positions[index]).toBeCloseTo(value, 3);
+    });
+    expect(cloud.scales[5]).toBeCloseTo(1, 3);
+    expect(Array.from(cloud.rotations.slice(8, 12)).map((value) => Number(value.toFixed(3))))
+      .toEqual([0.5, 0.5, 0.5, 0.5]);
+  });
+
+  it('decodes higher-order SH at half and 8-bit precision', () => {
+    const sh = Array.from({ length: 9 }, (_, index) => (index - 4) * 0.25);
+    const withSh = SPLATS.map((splat) => ({ ...splat, sh }));
+
+    for (const compressionLevel of [1, 2]) {
+      const cloud = loadKSplatFromBuffer(writeKSplat(withSh, { compressionLevel, shDegree: 1 }));
+
+      validateGaussianCloud(cloud);
+      expect(cloud.shDegree).toBe(1);
+      expect(cloud.shN).toHaveLength(27);
+      sh.forEach((value, index) => {
+        expect(cloud.shN![9 + index]).toBeCloseTo(value, 1);
+      });
+    }
+  });
+
+  it('rejects truncated files and unknown compression levels', () => {
+    expect(() => loadKSplatFromBuffer(new ArrayBuffer(16))).toThrow('truncated header');
+
+    const buffer = writeKSplat(SPLATS, { compressionLevel: 0 });
+    expect(() => loadKSplatFromBuffer(buffer.slice(0, buffer.byteLength - 4)))
+      .toThrow('truncated section data');
+
+    new DataView(buffer).setUint16(20, 7, true);
+    expect(() => loadKSplatFromBuffer(buffer)).toThrow('Unsupported KSPLAT compression level: 7');
+  });
+});
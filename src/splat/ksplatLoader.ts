@@ -0,0 +1,267 @@
+import { SH_C0 } from 'gs-toolbox';
+import type { GaussianCloud } from './gaussianCloud';
+
+/**
+ * Decoder for the `.ksplat` container written by GaussianSplats3D. gs-toolbox
+ * has no loader for it, so the layout is read here:
+ *
+ *   4096 B file header, then `maxSectionCount` × 1024 B section headers, then
+ *   each section's bucket lengths, bucket centers and fixed-stride splat rows.
+ *
+ * Rows hold center, scale, rotation (w, x, y, z), RGBA color and interleaved
+ * higher-order SH. Compression level 0 stores float32; levels 1 and 2 store
+ * bucket-relative uint16 centers and half floats, with level 2 quantizing SH
+ * to uint8 over the header's coefficient range.
+ */
+
+export const KSPLAT_HEADER_BYTES = 4096;
+export const KSPLAT_SECTION_HEADER_BYTES = 1024;
+
+interface KSplatCompressionLayout {
+  bytesPerCenter: number;
+  bytesPerScale: number;
+  bytesPerRotation: number;
+  bytesPerShComponent: number;
+  scaleRange: number;
+}
+
+const KSPLAT_BYTES_PER_COLOR = 4;
+const KSPLAT_DEFAULT_SH_HALF_RANGE = 1.5;
+const KSPLAT_COMPRESSION_LAYOUTS: readonly KSplatCompressionLayout[] = [
+  { bytesPerCenter: 12, bytesPerScale: 12, bytesPerRotation: 16, bytesPerShComponent: 4, scaleRange: 1 },
+  { bytesPerCenter: 6, bytesPerScale: 6, bytesPerRotation: 8, bytesPerShComponent: 2, scaleRange: 32767 },
+  { bytesPerCenter: 6, bytesPerScale: 6, bytesPerRotation: 8, bytesPerShComponent: 1, scaleRange: 32767 },
+];
+/** Higher-order SH floats per splat (3 channels × coefficients) by SH degree. */
+const KSPLAT_SH_COMPONENTS_BY_DEGREE = [0, 9, 24, 45];
+
+interface KSplatSection {
+  splatCount: number;
+  maxSplatCount: number;
+  bucketSize: number;
+  bucketCount: number;
+  bucketBlockSize: number;
+  bucketStorageSizeBytes: number;
+  compressionScaleRange: number;
+  fullBucketCount: number;
+  partiallyFilledBucketCount: number;
+  shDegree: number;
+}
+
+export function getKSplatBytesPerSplat(compressionLevel: number, shDegree: number): number {
+  const layout = getKSplatCompressionLayout(compressionLevel);
+  return layout.bytesPerCenter
+    + layout.bytesPerScale
+    + layout.bytesPerRotation
+    + KSPLAT_BYTES_PER_COLOR
+    + getKSplatShComponentCount(shDegree) * layout.bytesPerShComponent;
+}
+
+export function loadKSplatFromBuffer(buffer: ArrayBuffer): GaussianCloud {
+  if (buffer.byteLength < KSPLAT_HEADER_BYTES) {
+    throw new Error('Invalid KSPLAT file: truncated header');
+  }
+
+  const view = new DataView(buffer);
+  const versionMajor = view.getUint8(0);
+  const versionMinor = view.getUint8(1);
+  const maxSectionCount = view.getUint32(4, true);
+  const sectionCount = view.getUint32(8, true);
+  const splatCount = view.getUint32(16, true);
+  const compressionLevel = view.getUint16(20, true);
+  const layout = getKSplatCompressionLayout(compressionLevel);
+  const shMin = view.getFloat32(36, true) || -KSPLAT_DEFAULT_SH_HALF_RANGE;
+  const shMax = view.getFloat32(40, true) || KSPLAT_DEFAULT_SH_HALF_RANGE;
+
+  if (sectionCount > maxSectionCount) {
+    throw new Error(`Invalid KSPLAT file: ${sectionCount} sections exceed the maximum of ${maxSectionCount}`);
+  }
+
+  const sections: KSplatSection[] = [];
+  for (let index = 0; index < sectionCount; index++) {
+    sections.push(readKSplatSection(view, KSPLAT_HEADER_BYTES + index * KSPLAT_SECTION_HEADER_BYTES, layout));
+  }
+
+  const decodedCount = sections.reduce((total, section) => total + section.splatCount, 0);
+  if (decodedCount !== splatCount) {
+    throw new Error(`Invalid KSPLAT file: sections hold ${decodedCount} splats, header declares ${splatCount}`);
+  }
+
+  const shDegree = sections.reduce((degree, section) => Math.max(degree, section.shDegree), 0);
+  const shComponentCount = getKSplatShComponentCount(shDegree);
+  const positions = new Float32Array(splatCount * 3);
+  const scales = new Float32Array(splatCount * 3);
+  const rotations = new Float32Array(splatCount * 4);
+  const opacities = new Float32Array(splatCount);
+  const sh0 = new Float32Array(splatCount * 3);
+  const shN = shComponentCount > 0 ? new Float32Array(splatCount * shComponentCount) : undefined;
+
+  const readFloat = compressionLevel === 0
+    ? (offset: number) => view.getFloat32(offset, true)
+    : (offset: number) => decodeHalfFloat(view.getUint16(offset, true));
+  const readShComponent = layout.bytesPerShComponent === 1
+    ? (offset: number) => shMin + (view.getUint8(offset) / 255) * (shMax - shMin)
+    : readFloat;
+
+  let sectionBase = KSPLAT_HEADER_BYTES + maxSectionCount * KSPLAT_SECTION_HEADER_BYTES;
+  let splatBase = 0;
+  for (const section of sections) {
+    const bucketMetadataBytes = section.partiallyFilledBucketCount * 4;
+    const bucketsBytes = section.bucketStorageSizeBytes * section.bucketCount + bucketMetadataBytes;
+    const bytesPerSplat = getKSplatBytesPerSplat(compressionLevel, section.shDegree);
+    const sectionBytes = bucketsBytes + bytesPerSplat * section.maxSplatCount;
+    if (sectionBase + sectionBytes > buffer.byteLength) {
+      throw new Error('Invalid KSPLAT file: truncated section data');
+    }
+
+    const bucketIndices = compressionLevel > 0
+      ? getKSplatBucketIndices(view, sectionBase, section)
+      : null;
+    const bucketCentersBase = sectionBase + bucketMetadataBytes;
+    const dataBase = sectionBase + bucketsBytes;
+    const compressionScaleFactor = section.bucketBlockSize / 2 / section.compressionScaleRange;
+    const sectionShComponents = getKSplatShComponentCount(section.shDegree);
+
+    for (let local = 0; local < section.splatCount; local++) {
+      const i = splatBase + local;
+      let offset = dataBase + local * bytesPerSplat;
+
+      if (bucketIndices) {
+        const bucketOffset = bucketCentersBase + bucketIndices[local] * section.bucketStorageSizeBytes;
+        for (let axis = 0; axis < 3; axis++) {
+          const quantized = view.getUint16(offset + axis * 2, true);
+          positions[i * 3 + axis] = (quantized - section.compressionScaleRange) * compressionScaleFactor
+            + view.getFloat32(bucketOffset + axis * 4, true);
+        }
+      } else {
+        for (let axis = 0; axis < 3; axis++) {
+          positions[i * 3 + axis] = view.getFloat32(offset + axis * 4, true);
+        }
+      }
+      offset += layout.bytesPerCenter;
+
+      const scaleStride = layout.bytesPerScale / 3;
+      for (let axis = 0; axis < 3; axis++) {
+        scales[i * 3 + axis] = readFloat(offset + axis * scaleStride);
+      }
+      offset += layout.bytesPerScale;
+
+      const rotationStride = layout.bytesPerRotation / 4;
+      const qw = readFloat(offset);
+      const qx = readFloat(offset + rotationStride);
+      const qy = readFloat(offset + rotationStride * 2);
+      const qz = readFloat(offset + rotationStride * 3);
+      const length = Math.hypot(qw, qx, qy, qz);
+      const inverse = length > 0 ? 1 / length : 0;
+      rotations[i * 4] = qw * inverse;
+      rotations[i * 4 + 1] = qx * inverse;
+      rotations[i * 4 + 2] = qy * inverse;
+      rotations[i * 4 + 3] = qz * inverse;
+      offset += layout.bytesPerRotation;
+
+      for (let channel = 0; channel < 3; channel++) {
+        sh0[i * 3 + channel] = (view.getUint8(offset + channel) / 255 - 0.5) / SH_C0;
+      }
+      opacities[i] = view.getUint8(offset + 3) / 255;
+      offset += KSPLAT_BYTES_PER_COLOR;
+
+      if (shN) {
+        for (let component = 0; component < sectionShComponents; component++) {
+          shN[i * shComponentCount + component] = readShComponent(offset + component * layout.bytesPerShComponent);
+        }
+      }
+    }
+
+    sectionBase += sectionBytes;
+    splatBase += section.splatCount;
+  }
+
+  return {
+    count: splatCount,
+    positions,
+    scales,
+    rotations,
+    opacities,
+    sh0,
+    ...(shN ? { shN } : {}),
+    shDegree,
+    metadata: {
+      ksplatVersion: `${versionMajor}.${versionMinor}`,
+      ksplatCompressionLevel: compressionLevel,
+    },
+  };
+}
+
+function getKSplatCompressionLayout(compressionLevel: number): KSplatCompressionLayout {
+  const layout = KSPLAT_COMPRESSION_LAYOUTS[compressionLevel];
+  if (!layout) {
+    throw new Error(`Unsupported KSPLAT compression level: ${compressionLevel}`);
+  }
+  return layout;
+}
+
+function getKSplatShComponentCount(shDegree: number): number {
+  const count = KSPLAT_SH_COMPONENTS_BY_DEGREE[shDegree];
+  if (count === undefined) {
+    throw new Error(`Unsupported KSPLAT SH degree: ${shDegree}`);
+  }
+  return count;
+}
+
+function readKSplatSection(
+  view: DataView,
+  headerOffset: number,
+  layout: KSplatCompressionLayout
+): KSplatSection {
+  return {
+    splatCount: view.getUint32(headerOffset, true),
+    maxSplatCount: view.getUint32(headerOffset + 4, true),
+    bucketSize: view.getUint32(headerOffset + 8, true),
+    bucketCount: view.getUint32(headerOffset + 12, true),
+    bucketBlockSize: view.getFloat32(headerOffset + 16, true),
+    bucketStorageSizeBytes: view.getUint16(headerOffset + 20, true),
+    compressionScaleRange: view.getUint32(headerOffset + 24, true) || layout.scaleRange,
+    fullBucketCount: view.getUint32(headerOffset + 32, true),
+    partiallyFilledBucketCount: view.getUint32(headerOffset + 36, true),
+    shDegree: view.getUint16(headerOffset + 40, true),
+  };
+}
+
+/**
+ * Full buckets come first and hold `bucketSize` splats each; the partially
+ * filled buckets that follow list their own lengths ahead of the centers.
+ */
+function getKSplatBucketIndices(view: DataView, sectionBase: number, section: KSplatSection): Uint32Array {
+  const indices = new Uint32Array(section.splatCount);
+  const fullBucketSplats = section.fullBucketCount * section.bucketSize;
+  let bucket = section.fullBucketCount;
+  let bucketEnd = fullBucketSplats;
+  let partial = 0;
+
+  for (let local = 0; local < section.splatCount; local++) {
+    if (local < fullBucketSplats) {
+      indices[local] = Math.floor(local / section.bucketSize);
+      continue;
+    }
+    while (local >= bucketEnd && partial < section.partiallyFilledBucketCount) {
+      if (partial > 0) bucket++;
+      bucketEnd += view.getUint32(sectionBase + partial * 4, true);
+      partial++;
+    }
+    indices[local] = bucket;
+  }
+  return indices;
+}
+
+function decodeHalfFloat(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x03ff;
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+  }
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
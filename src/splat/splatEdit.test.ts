@@ -0,0 +1,43 @@
+import { loadPLYFromBuffer } from 'gs-toolbox';
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { createIdentityEuler } from '../utils/sim3dTransforms';
+import type { GaussianCloud } from './gaussianCloud';
+import { applySplatEdit, exportEditedSplat } from './splatEdit';
+import type { SplatEditSettings } from './splatEditSelection';
+
+function makeCloud(): GaussianCloud {
+  return {
+    count: 3,
+    positions: new Float32Array([0, 0, 0, 2, 0, 0, 0, 0, 5]),
+    scales: new Float32Array([0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 3, 0, 4]),
+    rotations: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]),
+    opacities: new Float32Array([0.9, 0.05, 0.8]),
+    sh0: new Float32Array(9),
+    shDegree: 0,
+  };
+}
+
+const IDENTITY = new THREE.Matrix4();
+
+describe('splat edit', () => {
+  it('removes pruned splats and leaves unedited clouds untouched', () => {
+    const cloud = makeCloud();
+    const noEdit: SplatEditSettings = { crop: null, minOpacity: 0, maxScale: null };
+
+    expect(applySplatEdit(cloud, noEdit, IDENTITY)).toBe(cloud);
+    const edited = applySplatEdit(cloud, { ...noEdit, minOpacity: 0.1, maxScale: 1 }, IDENTITY);
+    expect(edited.count).toBe(1);
+    expect(edited.opacities[0]).toBeCloseTo(0.9);
+  });
+
+  it('exports the edited cloud with the splat transform baked in', () => {
+    const splatTransform = { ...createIdentityEuler(), translationX: 10 };
+    const settings: SplatEditSettings = { crop: null, minOpacity: 0.1, maxScale: null };
+
+    const exported = loadPLYFromBuffer(exportEditedSplat(makeCloud(), settings, IDENTITY, splatTransform, 'ply'));
+
+    expect(exported.count).toBe(2);
+    expect(Array.from(exported.positions)).toEqual([10, 0, 0, 10, 0, 5]);
+  });
+});
@@ -0,0 +1,53 @@
+import { filterCloud, savePLY, saveSPZ, saveSplat, transformCloud } from 'gs-toolbox';
+import type * as THREE from 'three';
+import type { Sim3dEuler } from '../types/sim3d';
+import { createSim3dFromEuler, isIdentityEuler, sim3dToMatrix4 } from '../utils/sim3dTransforms';
+import type { GaussianCloud } from './gaussianCloud';
+import {
+  getSplatEditKeepMask,
+  type SplatEditSettings,
+  type SplatExportFormat,
+} from './splatEditSelection';
+
+/** The cloud with pruned and cropped-away splats removed, still in file coordinates. */
+export function applySplatEdit(
+  cloud: GaussianCloud,
+  settings: SplatEditSettings,
+  viewerMatrix: THREE.Matrix4
+): GaussianCloud {
+  const { mask, remaining } = getSplatEditKeepMask(cloud, settings, viewerMatrix);
+  if (remaining === cloud.count) return cloud;
+  return filterCloud(cloud, (index) => mask[index] === 1);
+}
+
+export function encodeSplatCloud(cloud: GaussianCloud, format: SplatExportFormat): ArrayBuffer {
+  switch (format) {
+    case 'spz':
+      return saveSPZ(cloud);
+    case 'ply':
+      return savePLY(cloud);
+    case 'splat':
+      return saveSplat(cloud);
+  }
+}
+
+/**
+ * Edited cloud with the splat transform baked in, encoded for download. The
+ * scene transform is not applied: it belongs to the COLMAP model, and the
+ * export should line up with the reconstruction files exported alongside it.
+ */
+export function exportEditedSplat(
+  cloud: GaussianCloud,
+  settings: SplatEditSettings,
+  viewerMatrix: THREE.Matrix4,
+  splatTransform: Sim3dEuler,
+  format: SplatExportFormat
+): ArrayBuffer {
+  let edited = applySplatEdit(cloud, settings, viewerMatrix);
+  if (!isIdentityEuler(splatTransform)) {
+    const matrix = sim3dToMatrix4(createSim3dFromEuler(splatTransform));
+    edited = transformCloud(edited, new Float32Array(matrix.elements));
+  }
+  return encodeSplatCloud(edited, format);
+}
+
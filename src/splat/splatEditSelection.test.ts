@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { Sim3dEuler } from '../types/sim3d';
+import { createIdentityEuler } from '../utils/sim3dTransforms';
+import type { GaussianCloud } from './gaussianCloud';
+import {
+  createDefaultSplatCropBox,
+  getEditedSplatFileName,
+  getSplatEditKeepMask,
+  getSplatMaxScaleMagnitude,
+  getSplatViewerMatrix,
+  isSplatEditActive,
+  type SplatCropBox,
+  type SplatEditSettings,
+} from './splatEditSelection';
+
+function makeCloud(): GaussianCloud {
+  return {
+    count: 4,
+    positions: new Float32Array([0, 0, 0, 2, 0, 0, 0, 0, 5, 0.5, 0.5, 0]),
+    scales: new Float32Array([0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 3, 0, 4, 0.2, 0.2, 0.2]),
+    rotations: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]),
+    opacities: new Float32Array([0.9, 0.05, 0.8, 0.6]),
+    sh0: new Float32Array(12),
+    shDegree: 0,
+  };
+}
+
+const NO_EDIT: SplatEditSettings = { crop: null, minOpacity: 0, maxScale: null };
+const IDENTITY = new THREE.Matrix4();
+
+function translation(x: number): Sim3dEuler {
+  return { ...createIdentityEuler(), translationX: x };
+}
+
+describe('splat edit selection', () => {
+  it('prunes by opacity and scale magnitude', () => {
+    const cloud = makeCloud();
+
+    expect(getSplatMaxScaleMagnitude(cloud)).toBeCloseTo(5);
+    expect(getSplatEditKeepMask(cloud, NO_EDIT, IDENTITY).remaining).toBe(4);
+    expect(Array.from(getSplatEditKeepMask(cloud, { ...NO_EDIT, minOpacity: 0.1 }, IDENTITY).mask))
+      .toEqual([1, 0, 1, 1]);
+    expect(Array.from(getSplatEditKeepMask(cloud, { ...NO_EDIT, maxScale: 1 }, IDENTITY).mask))
+      .toEqual([1, 1, 0, 1]);
+  });
+
+  it('crops in the viewer frame, honouring rotation only for oriented boxes', () => {
+    const cloud = makeCloud();
+    const box: SplatCropBox = { center: [0, 0, 0], size: [2, 2, 2], rotation: [0, 0, Math.PI / 4] };
+
+    const aabb = getSplatEditKeepMask(cloud, { ...NO_EDIT, crop: { mode: 'aabb', box } }, IDENTITY);
+    expect(Array.from(aabb.mask)).toEqual([1, 0, 0, 1]);
+
+    // Rotated 45° about Z, the box corner at (0.5, 0.5) lies on its local X axis and stays inside.
+    const oriented = getSplatEditKeepMask(cloud, { ...NO_EDIT, crop: { mode: 'oriented', box } }, IDENTITY);
+    expect(Array.from(oriented.mask)).toEqual([1, 0, 0, 1]);
+    const narrow: SplatCropBox = { ...box, size: [2, 0.2, 2] };
+    expect(Array.from(getSplatEditKeepMask(cloud, { ...NO_EDIT, crop: { mode: 'oriented', box: narrow } }, IDENTITY).mask))
+      .toEqual([1, 0, 0, 1]);
+    expect(Array.from(getSplatEditKeepMask(cloud, { ...NO_EDIT, crop: { mode: 'aabb', box: narrow } }, IDENTITY).mask))
+      .toEqual([1, 0, 0, 0]);
+
+    // The box follows the splat into the viewer frame.
+    const shifted = getSplatViewerMatrix(createIdentityEuler(), translation(-2));
+    expect(Array.from(getSplatEditKeepMask(cloud, { ...NO_EDIT, crop: { mode: 'aabb', box } }, shifted).mask))
+      .toEqual([0, 1, 0, 0]);
+  });
+
+  it('sizes the default crop box to the transformed splat extent', () => {
+    const box = createDefaultSplatCropBox(makeCloud(), getSplatViewerMatrix(translation(1), createIdentityEuler()));
+
+    expect(box.center[0]).toBeCloseTo(2);
+    expect(box.size[0]).toBeCloseTo(2);
+    expect(box.size[2]).toBeCloseTo(5);
+    expect(box.rotation).toEqual([0, 0, 0]);
+  });
+
+  it('names edited copies without stacking suffixes', () => {
+    expect(getEditedSplatFileName('scene.ply', 'spz')).toBe('scene-edited.spz');
+    expect(getEditedSplatFileName('scene-edited.spz', 'splat')).toBe('scene-edited.splat');
+    expect(isSplatEditActive(NO_EDIT)).toBe(false);
+    expect(isSplatEditActive({ ...NO_EDIT, minOpacity: 0.1 })).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import * as THREE from 'three';
+import type { Sim3dEuler } from '../types/sim3d';
+import {
+  composeSim3d,
+  createSim3dFromEuler,
+  isIdentityEuler,
+  sim3dToMatrix4,
+} from '../utils/sim3dTransforms';
+import type { GaussianCloud } from './gaussianCloud';
+
+/**
+ * Which splats a crop/prune edit keeps. Kept free of gs-toolbox so the edit
+ * window can preview counts without loading the encoders in splatEdit.
+ */
+
+export type SplatCropMode = 'aabb' | 'oriented';
+export type SplatExportFormat = 'spz' | 'ply' | 'splat';
+
+export type Vec3 = [number, number, number];
+
+/** Crop box in viewer (world) coordinates; `rotation` is XYZ Euler radians. */
+export interface SplatCropBox {
+  center: Vec3;
+  size: Vec3;
+  rotation: Vec3;
+}
+
+export interface SplatEditSettings {
+  crop: { mode: SplatCropMode; box: SplatCropBox } | null;
+  /** Splats below this opacity (0-1) are removed; 0 keeps all. */
+  minOpacity: number;
+  /** Splats whose scale magnitude (file units) exceeds this are removed; null keeps all. */
+  maxScale: number | null;
+}
+
+export const SPLAT_EXPORT_FORMATS: readonly { value: SplatExportFormat; label: string }[] = [
+  { value: 'spz', label: 'SPZ' },
+  { value: 'ply', label: 'PLY' },
+  { value: 'splat', label: '.splat' },
+];
+
+/** Default crop boxes ignore this fraction of splats at each end of every axis, so floaters don't inflate them. */
+const DEFAULT_CROP_PERCENTILE = 0.01;
+/** Positions sampled when estimating the default crop box. */
+const DEFAULT_CROP_SAMPLE_LIMIT = 100_000;
+
+/**
+ * Matrix from splat file coordinates to the viewer frame: the splat transform
+ * followed by the scene transform, the same composition the renderers draw.
+ */
+export function getSplatViewerMatrix(transform: Sim3dEuler, splatTransform: Sim3dEuler): THREE.Matrix4 {
+  const sceneSim3d = isIdentityEuler(transform) ? null : createSim3dFromEuler(transform);
+  const splatSim3d = isIdentityEuler(splatTransform) ? null : createSim3dFromEuler(splatTransform);
+  if (sceneSim3d && splatSim3d) return sim3dToMatrix4(composeSim3d(sceneSim3d, splatSim3d));
+  if (sceneSim3d) return sim3dToMatrix4(sceneSim3d);
+  if (splatSim3d) return sim3dToMatrix4(splatSim3d);
+  return new THREE.Matrix4();
+}
+
+export function createDefaultSplatCropBox(cloud: GaussianCloud, viewerMatrix: THREE.Matrix4): SplatCropBox {
+  const stride = Math.max(1, Math.ceil(cloud.count / DEFAULT_CROP_SAMPLE_LIMIT));
+  const axes: number[][] = [[], [], []];
+  const point = new THREE.Vector3();
+  for (let i = 0; i < cloud.count; i += stride) {
+    point.fromArray(cloud.positions, i * 3).applyMatrix4(viewerMatrix);
+    axes[0].push(point.x);
+    axes[1].push(point.y);
+    axes[2].push(point.z);
+  }
+  if (axes[0].length === 0) {
+    return { center: [0, 0, 0], size: [1, 1, 1], rotation: [0, 0, 0] };
+  }
+
+  const center: Vec3 = [0, 0, 0];
+  const size: Vec3 = [1, 1, 1];
+  axes.forEach((values, axis) => {
+    values.sort((a, b) => a - b);
+    const low = values[Math.floor((values.length - 1) * DEFAULT_CROP_PERCENTILE)];
+    const high = values[Math.ceil((values.length - 1) * (1 - DEFAULT_CROP_PERCENTILE))];
+    center[axis] = (low + high) / 2;
+    size[axis] = Math.max(high - low, 1e-3);
+  });
+  return { center, size, rotation: [0, 0, 0] };
+}
+
+/** Largest scale magnitude in the cloud, the upper end of the scale pruning slider. */
+export function getSplatMaxScaleMagnitude(cloud: GaussianCloud): number {
+  let max = 0;
+  for (let i = 0; i < cloud.count; i++) {
+    max = Math.max(max, getScaleMagnitude(cloud, i));
+  }
+  return max;
+}
+
+/** Per-splat keep flags for the settings, and how many splats remain. */
+export function getSplatEditKeepMask(
+  cloud: GaussianCloud,
+  settings: SplatEditSettings,
+  viewerMatrix: THREE.Matrix4
+): { mask: Uint8Array; remaining: number } {
+  const isInside = createCropPredicate(cloud, settings.crop, viewerMatrix);
+  const mask = new Uint8Array(cloud.count);
+  let remaining = 0;
+  for (let i = 0; i < cloud.count; i++) {
+    if (cloud.opacities[i] < settings.minOpacity) continue;
+    if (settings.maxScale !== null && getScaleMagnitude(cloud, i) > settings.maxScale) continue;
+    if (isInside && !isInside(i)) continue;
+    mask[i] = 1;
+    remaining++;
+  }
+  return { mask, remaining };
+}
+
+export function isSplatEditActive(settings: SplatEditSettings): boolean {
+  return settings.crop !== null || settings.minOpacity > 0 || settings.maxScale !== null;
+}
+
+export function getEditedSplatFileName(name: string, format: SplatExportFormat): string {
+  const stem = name.replace(/\.[^./]+$/, '').replace(/-edited$/, '');
+  return `${stem}-edited.${format}`;
+}
+
+function getScaleMagnitude(cloud: GaussianCloud, index: number): number {
+  const sx = cloud.scales[index * 3];
+  const sy = cloud.scales[index * 3 + 1];
+  const sz = cloud.scales[index * 3 + 2];
+  return Math.sqrt(sx * sx + sy * sy + sz * sz);
+}
+
+/**
+ * Inside test for splat `index` against the crop box. Positions are taken to
+ * the viewer frame, then into the box frame; axis-aligned boxes ignore the
+ * box rotation.
+ */
+function createCropPredicate(
+  cloud: GaussianCloud,
+  crop: SplatEditSettings['crop'],
+  viewerMatrix: THREE.Matrix4
+): ((index: number) => boolean) | null {
+  if (!crop) return null;
+  const { box, mode } = crop;
+  const boxRotation = mode === 'oriented'
+    ? new THREE.Quaternion().setFromEuler(new THREE.Euler(...box.rotation, 'XYZ'))
+    : new THREE.Quaternion();
+  const boxFromViewer = new THREE.Matrix4()
+    .compose(new THREE.Vector3(...box.center), boxRotation, new THREE.Vector3(1, 1, 1))
+    .invert();
+  const boxFromFile = boxFromViewer.multiply(viewerMatrix);
+  const half = box.size.map((value) => value / 2);
+  const point = new THREE.Vector3();
+
+  return (index) => {
+    point.fromArray(cloud.positions, index * 3).applyMatrix4(boxFromFile);
+    return Math.abs(point.x) <= half[0] && Math.abs(point.y) <= half[1] && Math.abs(point.z) <= half[2];
+  };
+}
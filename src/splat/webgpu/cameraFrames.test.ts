@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'vitest';
 import * as THREE from 'three';
 import { buildCamera, buildImage, buildReconstruction } from '../../test/builders';
+import { getColmapImageCameraPathKeyframes } from '../../utils/cameraPathPolicy';
 import { createSim3dFromEuler, sim3dToMatrix4, transformReconstruction } from '../../utils/sim3dTransforms';
 import {
+  createCameraPathWebGpuSplatFrame,
   createColmapMetricThreeCamera,
   createColmapMetricWebGpuSplatFrame,
   createWebGpuSplatFrameFromThreeCamera,
@@ -467,4 +469,38 @@ describe('WebGPU splat camera frames', () => {
     expectPixelClose(projectFullPixel(400, 160), [0, 0]);
     expectPixelClose(projectFullPixel(520, 250), [120, 90]);
   });
+
+  it('renders a camera path keyframe from the same viewpoint as its COLMAP metric view', () => {
+    const camera = buildCamera({ width: 640, height: 480, params: [400, 400, 320, 240] });
+    const image = buildImage({ qvec: [0.9, 0.1, -0.3, 0.2], tvec: [0.5, -1, 2] });
+    const transform = {
+      scale: 1.5,
+      rotationX: 0.2,
+      rotationY: 0.1,
+      rotationZ: -0.3,
+      translationX: 1,
+      translationY: 2,
+      translationZ: -1,
+    };
+    const [pose] = getColmapImageCameraPathKeyframes(
+      buildReconstruction({ cameras: [camera], images: [image] }),
+      { transform }
+    );
+    const metricFrame = createColmapMetricWebGpuSplatFrame({
+      image,
+      camera,
+      width: 640,
+      height: 480,
+      transform,
+      modelTransform: transform,
+    });
+    const pathFrame = createCameraPathWebGpuSplatFrame({ pose, width: 640, height: 480, modelTransform: transform });
+
+    for (const point of [[0, 0, 0], [0.3, -0.2, 1], [-1, 0.5, 2]] as [number, number, number][]) {
+      expectPixelClose(
+        projectWebGpuSplatFramePointToPixel(pathFrame, point),
+        projectWebGpuSplatFramePointToPixel(metricFrame, point)
+      );
+    }
+  });
 });
@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import type { Camera, Image } from '../../types/colmap';
 import type { Sim3dEuler } from '../../types/sim3d';
 import { getCameraIntrinsics } from '../../utils/cameraIntrinsics';
+import { createCameraPathThreeCamera, type CameraPathPose } from '../../utils/cameraPathPolicy';
 import { cameraModelHasPinholeIntrinsics } from '../../utils/cameraModelRegistry';
 import { getImageWorldPose } from '../../utils/colmapTransforms';
 import { createSim3dFromEuler, sim3dToMatrix4 } from '../../utils/sim3dTransforms';
@@ -160,6 +161,29 @@ export function createColmapMetricWebGpuSplatFrame({
   });
 }
 
+export interface CameraPathWebGpuSplatFrameOptions {
+  pose: CameraPathPose;
+  width: number;
+  height: number;
+  modelTransform?: Sim3dEuler;
+}
+
+/** A frame at a camera path pose, already in viewer world space. */
+export function createCameraPathWebGpuSplatFrame({
+  pose,
+  width,
+  height,
+  modelTransform,
+}: CameraPathWebGpuSplatFrameOptions): WebGpuSplatCameraFrame {
+  return createWebGpuSplatFrameFromThreeCamera({
+    camera: createCameraPathThreeCamera(pose, width, height),
+    width,
+    height,
+    dpr: 1,
+    modelMatrix: modelTransform ? sim3dToMatrix4(createSim3dFromEuler(modelTransform)) : null,
+  });
+}
+
 export function createColmapMetricThreeCamera(
   image: Image,
   camera: Camera,
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildFile } from '../../test/builders';
+import type { LoadedGaussianCloud } from '../gaussianCloud';
+import type { SplatCameraFrame, SplatRenderSession } from './gaussianRenderer';
+import type { GpuGaussianSceneRef } from './gaussianSceneResourceManager';
+import {
+  createWebGpuSplatNovelViewSession,
+  type WebGpuSplatNovelViewSessionDeps,
+} from './novelViewSplatSession';
+
+function makeDevice() {
+  const textures: Array<GPUTextureDescriptor & { destroy: ReturnType<typeof vi.fn> }> = [];
+  const device = {
+    createTexture: vi.fn((descriptor: GPUTextureDescriptor) => {
+      const texture = { ...descriptor, destroy: vi.fn() };
+      textures.push(texture);
+      return texture as unknown as GPUTexture;
+    }),
+  } as unknown as GPUDevice;
+  return { device, textures };
+}
+
+function makeRenderSession(): SplatRenderSession {
+  return {
+    setCamera: vi.fn(),
+    setBackgroundColor: vi.fn(),
+    resize: vi.fn(),
+    renderToCanvas: vi.fn(),
+    renderToTexture: vi.fn(async () => undefined),
+    getReadyState: vi.fn(() => 'ready'),
+    onFirstFrame: vi.fn(() => vi.fn()),
+    dispose: vi.fn(),
+  };
+}
+
+function createHarness() {
+  const splatFile = buildFile('scene.spz', 'spz');
+  const loadedCloud = { file: splatFile, format: 'spz', byteLength: 8, cloud: { count: 1 } } as unknown as LoadedGaussianCloud;
+  const scene = { release: vi.fn() } as unknown as GpuGaussianSceneRef;
+  const resourceManager = { acquire: vi.fn(() => scene), dispose: vi.fn() };
+  const renderSession = makeRenderSession();
+  const deps = {
+    loadGaussianCloudFromFile: vi.fn(async () => loadedCloud),
+    createSceneResourceManager: vi.fn(() => resourceManager),
+    createRenderSession: vi.fn(() => renderSession),
+    readRgbaTexture: vi.fn(async ({ width, height }: { width: number; height: number }) =>
+      new Uint8ClampedArray(width * height * 4)),
+  } satisfies WebGpuSplatNovelViewSessionDeps;
+  return { splatFile, loadedCloud, scene, resourceManager, renderSession, deps, ...makeDevice() };
+}
+
+const frame = { viewport: { pixelWidth: 4, pixelHeight: 2 } } as unknown as SplatCameraFrame;
+
+describe('WebGPU splat novel view session', () => {
+  it('renders each frame to completion and reads it back through one reused target', async () => {
+    const harness = createHarness();
+    const session = await createWebGpuSplatNovelViewSession({
+      device: harness.device,
+      splatFile: harness.splatFile,
+      deps: harness.deps,
+    });
+
+    const first = await session.renderFrame({ frame, width: 4, height: 2 });
+    await session.renderFrame({ frame, width: 4, height: 2 });
+
+    expect(first).toHaveLength(32);
+    expect(harness.renderSession.setCamera).toHaveBeenCalledWith(frame);
+    expect(harness.renderSession.renderToTexture).toHaveBeenCalledWith(
+      expect.anything(),
+      { completion: 'completed' }
+    );
+    expect(harness.textures).toHaveLength(1);
+    expect(harness.textures[0]).toMatchObject({ size: { width: 4, height: 2 }, format: 'rgba8unorm' });
+
+    await session.renderFrame({ frame, width: 8, height: 4 });
+    expect(harness.textures).toHaveLength(2);
+    expect(harness.textures[0].destroy).toHaveBeenCalledOnce();
+
+    session.dispose();
+    expect(harness.textures[1].destroy).toHaveBeenCalledOnce();
+    expect(harness.renderSession.dispose).toHaveBeenCalledOnce();
+    expect(harness.resourceManager.dispose).toHaveBeenCalledOnce();
+    await expect(session.renderFrame({ frame, width: 4, height: 2 })).rejects.toThrow('disposed');
+  });
+
+  it('borrows a shared visible scene without owning its resource manager', async () => {
+    const harness = createHarness();
+    const shared = { acquire: vi.fn(() => harness.scene) };
+    const session = await createWebGpuSplatNovelViewSession({
+      device: harness.device,
+      splatFile: harness.splatFile,
+      loadedCloud: harness.loadedCloud,
+      sharedScene: { sceneId: 'visible', resourceManager: shared },
+      deps: harness.deps,
+    });
+
+    expect(shared.acquire).toHaveBeenCalledWith(harness.device, expect.objectContaining({ sceneId: 'visible' }));
+    expect(harness.deps.createSceneResourceManager).not.toHaveBeenCalled();
+    expect(harness.deps.loadGaussianCloudFromFile).not.toHaveBeenCalled();
+
+    session.dispose();
+    expect(harness.renderSession.dispose).toHaveBeenCalledOnce();
+  });
+
+  it('releases the scene when the render session cannot be created', async () => {
+    const harness = createHarness();
+    harness.deps.createRenderSession.mockImplementation(() => {
+      throw new Error('no pipeline');
+    });
+
+    await expect(createWebGpuSplatNovelViewSession({
+      device: harness.device,
+      splatFile: harness.splatFile,
+      deps: harness.deps,
+    })).rejects.toThrow('no pipeline');
+    expect(harness.scene.release).toHaveBeenCalledOnce();
+    expect(harness.resourceManager.dispose).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  loadGaussianCloudFromFile as defaultLoadGaussianCloudFromFile,
+} from '../gaussianCloudLoader';
+import type { LoadedGaussianCloud } from '../gaussianCloud';
+import {
+  createSplatRenderSession as defaultCreateRenderSession,
+  type SplatCameraFrame,
+  type SplatRenderSession,
+} from './gaussianRenderer';
+import {
+  GaussianSceneResourceManager,
+  type GaussianSceneResourceManager as GaussianSceneResourceManagerType,
+  type GpuGaussianSceneRef,
+} from './gaussianSceneResourceManager';
+import { readRgbaTextureWebGpu as defaultReadRgbaTexture } from './psnrTextureCompute';
+import { getWebGpuSplatDefaultBackgroundColor } from './splatRenderBackground';
+import { trackWebGpuSplatDebugCounter } from './webGpuSplatDebugCounters';
+
+/**
+ * Offscreen splat renders at arbitrary viewpoints, read back as packed RGBA8.
+ * Each frame waits for GPU completion before it resolves, so frames come out
+ * complete and in order however slowly the GPU runs.
+ */
+export interface WebGpuSplatNovelViewSession {
+  renderFrame: (options: WebGpuSplatNovelViewFrameOptions) => Promise<Uint8ClampedArray<ArrayBuffer>>;
+  dispose: () => void;
+}
+
+export interface WebGpuSplatNovelViewFrameOptions {
+  frame: SplatCameraFrame;
+  width: number;
+  height: number;
+}
+
+export interface WebGpuSplatNovelViewSessionOptions {
+  device: GPUDevice;
+  splatFile: File;
+  loadedCloud?: LoadedGaussianCloud;
+  sharedScene?: WebGpuSplatNovelViewSharedScene;
+  deps?: WebGpuSplatNovelViewSessionDeps;
+}
+
+export interface WebGpuSplatNovelViewSharedScene {
+  sceneId: string;
+  resourceManager: Pick<GaussianSceneResourceManagerType, 'acquire'>;
+}
+
+export interface WebGpuSplatNovelViewSessionDeps {
+  loadGaussianCloudFromFile?: typeof defaultLoadGaussianCloudFromFile;
+  createSceneResourceManager?: () => Pick<GaussianSceneResourceManagerType, 'acquire' | 'dispose'>;
+  createRenderSession?: typeof defaultCreateRenderSession;
+  readRgbaTexture?: typeof defaultReadRgbaTexture;
+}
+
+const GPU_TEXTURE_USAGE_COPY_SRC = 0x01;
+const GPU_TEXTURE_USAGE_RENDER_ATTACHMENT = 0x10;
+const WEBGPU_NOVEL_VIEW_FORMAT: GPUTextureFormat = 'rgba8unorm';
+
+export async function createWebGpuSplatNovelViewSession({
+  device,
+  splatFile,
+  loadedCloud: providedLoadedCloud,
+  sharedScene,
+  deps = {},
+}: WebGpuSplatNovelViewSessionOptions): Promise<WebGpuSplatNovelViewSession> {
+  const loadGaussianCloudFromFile = deps.loadGaussianCloudFromFile ?? defaultLoadGaussianCloudFromFile;
+  const createRenderSession = deps.createRenderSession ?? defaultCreateRenderSession;
+  const readRgbaTexture = deps.readRgbaTexture ?? defaultReadRgbaTexture;
+  const loadedCloud = providedLoadedCloud ?? await loadGaussianCloudFromFile(splatFile);
+  const resource = { cloud: loadedCloud.cloud, labelPrefix: `novel view ${splatFile.name}` };
+  let ownedResourceManager: Pick<GaussianSceneResourceManagerType, 'acquire' | 'dispose'> | null = null;
+  let scene: GpuGaussianSceneRef;
+  if (sharedScene) {
+    scene = sharedScene.resourceManager.acquire(device, { ...resource, sceneId: sharedScene.sceneId });
+  } else {
+    ownedResourceManager = (deps.createSceneResourceManager ?? (() => new GaussianSceneResourceManager()))();
+    scene = ownedResourceManager.acquire(device, {
+      ...resource,
+      sceneId: createNovelViewSceneId(splatFile, loadedCloud),
+    });
+  }
+
+  let renderSession: SplatRenderSession;
+  try {
+    renderSession = createRenderSession({
+      device,
+      scene,
+      format: WEBGPU_NOVEL_VIEW_FORMAT,
+      width: 1,
+      height: 1,
+      backgroundColor: getWebGpuSplatDefaultBackgroundColor(),
+      sortAlgorithm: 'radix',
+    });
+  } catch (error) {
+    scene.release();
+    ownedResourceManager?.dispose();
+    throw error;
+  }
+
+  let target: { texture: GPUTexture; width: number; height: number; releaseCounter: () => void } | null = null;
+  let disposed = false;
+
+  const releaseTarget = () => {
+    target?.texture.destroy();
+    target?.releaseCounter();
+    target = null;
+  };
+
+  const getTarget = (width: number, height: number): GPUTexture => {
+    if (target && target.width === width && target.height === height) {
+      return target.texture;
+    }
+    releaseTarget();
+    target = {
+      texture: device.createTexture({
+        label: `webgpu splat novel view ${splatFile.name}`,
+        size: { width, height },
+        format: WEBGPU_NOVEL_VIEW_FORMAT,
+        usage: GPU_TEXTURE_USAGE_COPY_SRC | GPU_TEXTURE_USAGE_RENDER_ATTACHMENT,
+      }),
+      width,
+      height,
+      releaseCounter: trackWebGpuSplatDebugCounter('textures'),
+    };
+    return target.texture;
+  };
+
+  const assertNotDisposed = () => {
+    if (disposed) {
+      throw new Error('WebGPU splat novel view session has been disposed');
+    }
+  };
+
+  // One frame at a time: the render session and target texture are shared.
+  let renderQueue: Promise<void> = Promise.resolve();
+
+  return {
+    renderFrame: ({ frame, width, height }) => {
+      const task = async () => {
+        assertNotDisposed();
+        const texture = getTarget(width, height);
+        renderSession.setCamera(frame);
+        await renderSession.renderToTexture(texture, { completion: 'completed' });
+        assertNotDisposed();
+        return readRgbaTexture({ device, texture, width, height });
+      };
+      const result = renderQueue.then(task, task);
+      renderQueue = result.then(() => undefined, () => undefined);
+      return result;
+    },
+    dispose: () => {
+      if (disposed) return;
+      disposed = true;
+      releaseTarget();
+      // Releases the scene reference as well.
+      renderSession.dispose();
+      ownedResourceManager?.dispose();
+    },
+  };
+}
+
+function createNovelViewSceneId(file: File, loadedCloud: LoadedGaussianCloud): string {
+  return [
+    'novel-view',
+    loadedCloud.format,
+    file.name,
+    file.size,
+    file.lastModified,
+    loadedCloud.byteLength,
+  ].join(':');
+}
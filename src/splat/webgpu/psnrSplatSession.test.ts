@@ -501,6 +501,89 @@ describe('WebGPU splat PSNR session', () => {
     session.dispose();
   });
 
+  it('renders downscaled error maps from the metric textures and releases them after read-back', async () => {
+    const fakeDevice = makeDevice();
+    const harness = createHarness({ device: fakeDevice.device });
+    const camera = buildCamera({ width: 8, height: 6 });
+    harness.deps.createBitmap.mockResolvedValue(makeBitmap(8, 6));
+    const errorMaps = {
+      differenceTexture: makeTexture('difference'),
+      ssimTexture: makeTexture('ssim'),
+      dispose: vi.fn(),
+    };
+    const readRgbaTexture = vi.fn(async ({ texture }: { texture: GPUTexture }) => (
+      new Uint8ClampedArray([(texture as GPUTexture & { label: string }).label.length, 0, 0, 255])
+    ));
+    const session = await createWebGpuSplatPsnrSession({
+      device: fakeDevice.device,
+      splatFile: harness.splatFile,
+      deps: {
+        ...harness.deps,
+        createErrorMapTextures: vi.fn(() => errorMaps),
+        readRgbaTexture,
+      },
+    });
+
+    const maps = await session.renderImageErrorMaps({
+      imageFile: buildFile('image.jpg'),
+      image: buildImage(),
+      camera,
+      width: 4,
+      height: 3,
+      differenceScale: 16,
+    });
+
+    const renderedTexture = vi.mocked(harness.renderSession.renderToTexture).mock.calls[0][0];
+    expect(harness.deps.createGroundTruthTexture).toHaveBeenCalledWith(expect.objectContaining({
+      targetWidth: 4,
+      targetHeight: 3,
+    }));
+    expect(harness.deps.createMetricFrame).toHaveBeenCalledWith(expect.objectContaining({ width: 4, height: 3 }));
+    expect(readRgbaTexture.mock.calls.map(([options]) => options.texture)).toEqual([
+      renderedTexture,
+      harness.groundTruthTexture.texture,
+      errorMaps.differenceTexture,
+      errorMaps.ssimTexture,
+    ]);
+    expect(maps).toMatchObject({
+      width: 4,
+      height: 3,
+      differenceScale: 16,
+      result: harness.metric,
+    });
+    expect(maps.difference[0]).toBe('difference'.length);
+    expect(errorMaps.dispose).toHaveBeenCalledTimes(1);
+    expect(harness.groundTruthTexture.dispose).toHaveBeenCalledTimes(1);
+    expect(getWebGpuSplatDebugCounters()).toMatchObject({ activePsnrImageJobs: 0, textures: 0 });
+    expect(getWebGpuSplatTelemetryEvents()).toContainEqual(expect.objectContaining({
+      name: 'psnr-error-maps',
+      details: expect.objectContaining({ width: 4, height: 3, masked: false }),
+    }));
+
+    session.dispose();
+  });
+
+  it('rejects error maps for metric images that do not match the camera', async () => {
+    const harness = createHarness();
+    const session = await createWebGpuSplatPsnrSession({
+      device: harness.device,
+      splatFile: harness.splatFile,
+      deps: harness.deps,
+    });
+
+    await expect(session.renderImageErrorMaps({
+      imageFile: buildFile('image.jpg'),
+      image: buildImage(),
+      camera: buildCamera({ width: 8, height: 6 }),
+      width: 4,
+      height: 3,
+    })).rejects.toThrow('undistorted metric image');
+    expect(harness.bitmap.close).toHaveBeenCalledTimes(1);
+    expect(harness.renderSession.renderToTexture).not.toHaveBeenCalled();
+
+    session.dispose();
+  });
+
   it('submits single-image metrics without waiting for scalar readback before returning a handle', async () => {
     const fakeDevice = makeDevice();
     const pendingMetric = createDeferred<{
@@ -31,6 +31,10 @@ import {
   computePsnrFromTextureReduction,
   computePsnrFromRgbaTexturesWebGpu as defaultComputePsnrFromTextures,
   computePsnrTextureReductionFromRgbaTexturesWebGpu as defaultComputePsnrTextureReductionFromTextures,
+  createPsnrErrorMapTexturesWebGpu as defaultCreateErrorMapTextures,
+  readRgbaTextureWebGpu as defaultReadRgbaTexture,
+  WEBGPU_PSNR_DEFAULT_DIFFERENCE_SCALE,
+  type WebGpuPsnrErrorMapTextures,
   type WebGpuPsnrTextureReduction,
   type WebGpuPsnrTextureResult,
 } from './psnrTextureCompute';
@@ -50,6 +54,7 @@ import {
 export interface WebGpuSplatPsnrSession {
   computeImageMetric: (options: WebGpuSplatPsnrImageMetricOptions) => Promise<WebGpuPsnrTextureResult>;
   submitImageMetric: (options: WebGpuSplatPsnrImageMetricOptions) => Promise<WebGpuSubmittedSplatPsnrImageMetric>;
+  renderImageErrorMaps: (options: WebGpuSplatPsnrErrorMapOptions) => Promise<WebGpuSplatPsnrErrorMaps>;
   dispose: () => void;
 }
 
@@ -69,6 +74,26 @@ export interface WebGpuSplatPsnrImageMetricOptions {
   modelTransform?: Sim3dEuler;
 }
 
+/**
+ * Error maps are for display, so unlike metrics they may be rendered below the
+ * camera resolution; the ground truth is resampled to the requested size.
+ */
+export interface WebGpuSplatPsnrErrorMapOptions extends WebGpuSplatPsnrImageMetricOptions {
+  differenceScale?: number;
+}
+
+/** Packed RGBA8 read-backs of the textures behind one image's PSNR/SSIM. */
+export interface WebGpuSplatPsnrErrorMaps {
+  width: number;
+  height: number;
+  rendered: Uint8ClampedArray<ArrayBuffer>;
+  groundTruth: Uint8ClampedArray<ArrayBuffer>;
+  difference: Uint8ClampedArray<ArrayBuffer>;
+  ssim: Uint8ClampedArray<ArrayBuffer>;
+  differenceScale: number;
+  result: WebGpuPsnrTextureResult;
+}
+
 export interface WebGpuSplatPsnrSessionOptions {
   device: GPUDevice;
   splatFile: File;
@@ -96,6 +121,8 @@ export interface WebGpuSplatPsnrSessionDeps {
   computePsnrFromTextures?: typeof defaultComputePsnrFromTextures;
   computePsnrTextureReductionFromTextures?: typeof defaultComputePsnrTextureReductionFromTextures;
   createMetricFrame?: typeof defaultCreateMetricFrame;
+  createErrorMapTextures?: typeof defaultCreateErrorMapTextures;
+  readRgbaTexture?: typeof defaultReadRgbaTexture;
 }
 
 const GPU_TEXTURE_USAGE_COPY_SRC = 0x01;
@@ -170,6 +197,8 @@ class DefaultWebGpuSplatPsnrSession implements WebGpuSplatPsnrSession {
   private readonly computePsnrFromTextures: typeof defaultComputePsnrFromTextures;
   private readonly computePsnrTextureReductionFromTextures: typeof defaultComputePsnrTextureReductionFromTextures;
   private readonly createMetricFrame: typeof defaultCreateMetricFrame;
+  private readonly createErrorMapTextures: typeof defaultCreateErrorMapTextures;
+  private readonly readRgbaTexture: typeof defaultReadRgbaTexture;
   private readonly activeResourceScopes = new Set<ActivePsnrImageResources>();
   private readonly releasePsnrSessionCounter = trackWebGpuSplatDebugCounter('psnrSessions');
   private renderQueue: Promise<void> = Promise.resolve();
@@ -195,6 +224,8 @@ class DefaultWebGpuSplatPsnrSession implements WebGpuSplatPsnrSession {
     this.computePsnrTextureReductionFromTextures = deps.computePsnrTextureReductionFromTextures
       ?? defaultComputePsnrTextureReductionFromTextures;
     this.createMetricFrame = deps.createMetricFrame ?? defaultCreateMetricFrame;
+    this.createErrorMapTextures = deps.createErrorMapTextures ?? defaultCreateErrorMapTextures;
+    this.readRgbaTexture = deps.readRgbaTexture ?? defaultReadRgbaTexture;
   }
 
   async computeImageMetric({
@@ -249,36 +280,13 @@ class DefaultWebGpuSplatPsnrSession implements WebGpuSplatPsnrSession {
     const telemetryStart = nowWebGpuSplatTelemetryMs();
 
     try {
-      const bitmap = await this.createBitmap(imageFile, {
-        colorSpaceConversion: 'none',
-        premultiplyAlpha: 'none',
-      });
-      resources.setBitmap(bitmap);
-      this.assertNotDisposed();
-
-      const sourceWidth = requirePositiveInteger(bitmap.width, 'source width');
-      const sourceHeight = requirePositiveInteger(bitmap.height, 'source height');
-      assertMetricBitmapSizeMatchesCamera({
+      const { bitmap, maskBitmap, sourceWidth, sourceHeight } = await this.decodeMetricBitmaps({
+        resources,
+        imageFile,
+        maskFile,
+        image,
         camera,
-        sourceWidth,
-        sourceHeight,
-        imageName: image.name,
       });
-      let maskBitmap: ImageBitmap | null = null;
-      if (maskFile) {
-        maskBitmap = await this.createBitmap(maskFile, {
-          colorSpaceConversion: 'none',
-          premultiplyAlpha: 'none',
-        });
-        resources.setMaskBitmap(maskBitmap);
-        this.assertNotDisposed();
-        assertMetricMaskBitmapSizeMatchesCamera({
-          camera,
-          sourceWidth: requirePositiveInteger(maskBitmap.width, 'mask source width'),
-          sourceHeight: requirePositiveInteger(maskBitmap.height, 'mask source height'),
-          imageName: image.name,
-        });
-      }
       const maxTextureDimension2D = getMaxTextureDimension2D(this.device);
       if (fitsSingleTexture(maxTextureDimension2D, safeWidth, safeHeight, sourceWidth, sourceHeight)) {
         return this.submitSingleImageMetric({
@@ -339,6 +347,125 @@ class DefaultWebGpuSplatPsnrSession implements WebGpuSplatPsnrSession {
     }
   }
 
+  async renderImageErrorMaps({
+    imageFile,
+    maskFile,
+    image,
+    camera,
+    width,
+    height,
+    transform,
+    modelTransform,
+    differenceScale = WEBGPU_PSNR_DEFAULT_DIFFERENCE_SCALE,
+  }: WebGpuSplatPsnrErrorMapOptions): Promise<WebGpuSplatPsnrErrorMaps> {
+    this.assertNotDisposed();
+    const safeWidth = requirePositiveInteger(width, 'width');
+    const safeHeight = requirePositiveInteger(height, 'height');
+    assertPinholeCamera(camera);
+    const resources = this.createResourceScope();
+    const releaseActiveJobCounter = trackWebGpuSplatDebugCounter('activePsnrImageJobs');
+    const telemetryStart = nowWebGpuSplatTelemetryMs();
+    let errorMaps: WebGpuPsnrErrorMapTextures | null = null;
+
+    try {
+      const { bitmap, maskBitmap, sourceWidth, sourceHeight } = await this.decodeMetricBitmaps({
+        resources,
+        imageFile,
+        maskFile,
+        image,
+        camera,
+      });
+      const maxTextureDimension2D = getMaxTextureDimension2D(this.device);
+      if (!fitsSingleTexture(maxTextureDimension2D, safeWidth, safeHeight, sourceWidth, sourceHeight)) {
+        throw new Error(
+          `WebGPU splat error maps for ${image.name} exceed the ${maxTextureDimension2D}px texture limit`
+        );
+      }
+
+      const groundTruthTexture = this.createGroundTruthTexture({
+        device: this.device,
+        source: bitmap,
+        targetWidth: safeWidth,
+        targetHeight: safeHeight,
+      });
+      resources.trackGroundTruthTexture(groundTruthTexture);
+      let maskTexture: WebGpuPsnrGroundTruthTexture | null = null;
+      if (maskBitmap) {
+        maskTexture = this.createGroundTruthTexture({
+          device: this.device,
+          source: maskBitmap,
+          targetWidth: safeWidth,
+          targetHeight: safeHeight,
+        });
+        resources.trackGroundTruthTexture(maskTexture);
+      }
+      const renderedTexture = this.createRenderedTexture(safeWidth, safeHeight, image.name);
+      resources.trackRenderedTexture(renderedTexture);
+
+      await this.renderMetricFrameToTexture({
+        frame: this.createMetricFrame({
+          image,
+          camera,
+          width: safeWidth,
+          height: safeHeight,
+          transform,
+          modelTransform,
+        }),
+        target: renderedTexture.texture,
+        backgroundColor: getWebGpuSplatDefaultBackgroundColor(),
+      });
+      this.assertNotDisposed();
+
+      const textureSize = { device: this.device, width: safeWidth, height: safeHeight };
+      errorMaps = this.createErrorMapTextures({
+        ...textureSize,
+        renderedTexture: renderedTexture.texture,
+        groundTruthTexture: groundTruthTexture.texture,
+        ...(maskTexture ? { maskTexture: maskTexture.texture } : {}),
+        differenceScale,
+      });
+      const [result, rendered, groundTruth, difference, ssim] = await Promise.all([
+        this.computePsnrFromTextures({
+          ...textureSize,
+          renderedTexture: renderedTexture.texture,
+          groundTruthTexture: groundTruthTexture.texture,
+          ...(maskTexture ? { maskTexture: maskTexture.texture } : {}),
+        }),
+        this.readRgbaTexture({ ...textureSize, texture: renderedTexture.texture }),
+        this.readRgbaTexture({ ...textureSize, texture: groundTruthTexture.texture }),
+        this.readRgbaTexture({ ...textureSize, texture: errorMaps.differenceTexture }),
+        this.readRgbaTexture({ ...textureSize, texture: errorMaps.ssimTexture }),
+      ]);
+      this.assertNotDisposed();
+      recordWebGpuSplatTelemetryEvent({
+        name: 'psnr-error-maps',
+        durationMs: getWebGpuSplatTelemetryElapsedMs(telemetryStart),
+        readbackBytes: rendered.byteLength * 4,
+        details: {
+          imageName: image.name,
+          width: safeWidth,
+          height: safeHeight,
+          masked: Boolean(maskTexture),
+        },
+      });
+      return {
+        width: safeWidth,
+        height: safeHeight,
+        rendered,
+        groundTruth,
+        difference,
+        ssim,
+        differenceScale,
+        result,
+      };
+    } finally {
+      errorMaps?.dispose();
+      resources.releaseAll();
+      this.activeResourceScopes.delete(resources);
+      releaseActiveJobCounter();
+    }
+  }
+
   dispose(): void {
     if (this.disposed) return;
     this.disposed = true;
@@ -351,6 +478,57 @@ class DefaultWebGpuSplatPsnrSession implements WebGpuSplatPsnrSession {
     this.releasePsnrSessionCounter();
   }
 
+  private async decodeMetricBitmaps({
+    resources,
+    imageFile,
+    maskFile,
+    image,
+    camera,
+  }: {
+    resources: ActivePsnrImageResources;
+    imageFile: File;
+    maskFile?: File | null;
+    image: Image;
+    camera: Camera;
+  }): Promise<{
+    bitmap: ImageBitmap;
+    maskBitmap: ImageBitmap | null;
+    sourceWidth: number;
+    sourceHeight: number;
+  }> {
+    const bitmap = await this.createBitmap(imageFile, {
+      colorSpaceConversion: 'none',
+      premultiplyAlpha: 'none',
+    });
+    resources.setBitmap(bitmap);
+    this.assertNotDisposed();
+
+    const sourceWidth = requirePositiveInteger(bitmap.width, 'source width');
+    const sourceHeight = requirePositiveInteger(bitmap.height, 'source height');
+    assertMetricBitmapSizeMatchesCamera({
+      camera,
+      sourceWidth,
+      sourceHeight,
+      imageName: image.name,
+    });
+    let maskBitmap: ImageBitmap | null = null;
+    if (maskFile) {
+      maskBitmap = await this.createBitmap(maskFile, {
+        colorSpaceConversion: 'none',
+        premultiplyAlpha: 'none',
+      });
+      resources.setMaskBitmap(maskBitmap);
+      this.assertNotDisposed();
+      assertMetricMaskBitmapSizeMatchesCamera({
+        camera,
+        sourceWidth: requirePositiveInteger(maskBitmap.width, 'mask source width'),
+        sourceHeight: requirePositiveInteger(maskBitmap.height, 'mask source height'),
+        imageName: image.name,
+      });
+    }
+    return { bitmap, maskBitmap, sourceWidth, sourceHeight };
+  }
+
   private submitSingleImageMetric({
     resources,
     bitmap,
@@ -4,6 +4,8 @@ import {
   computePsnrFromRgbaTexturesWebGpu,
   computePsnrFromTextureReduction,
   computePsnrTextureReductionFromRgbaTexturesWebGpu,
+  createPsnrErrorMapTexturesWebGpu,
+  readRgbaTextureWebGpu,
 } from './psnrTextureCompute';
 import {
   getWebGpuSplatDebugCounters,
@@ -34,6 +36,8 @@ function makeFakeDevice(
   const bufferDescriptors: GPUBufferDescriptor[] = [];
   const writeBuffers: ArrayBuffer[] = [];
   const copySizes: number[] = [];
+  const textureDescriptors: GPUTextureDescriptor[] = [];
+  const textureCopies: Array<[GPUTexelCopyBufferLayout, GPUExtent3DDict]> = [];
   const pass = {
     setPipeline: vi.fn(),
     setBindGroup: vi.fn(),
@@ -49,6 +53,11 @@ function makeFakeDevice(
       _destinationOffset: number,
       size: number
     ) => copySizes.push(size)),
+    copyTextureToBuffer: vi.fn((
+      _source: GPUTexelCopyTextureInfo,
+      destination: GPUTexelCopyBufferInfo,
+      size: GPUExtent3DDict
+    ) => textureCopies.push([destination, size])),
     finish: vi.fn(() => ({ kind: 'command-buffer' } as unknown as GPUCommandBuffer)),
   };
   const readbackBuffer = {
@@ -79,6 +88,13 @@ function makeFakeDevice(
         destroy: vi.fn(),
       } as unknown as GPUBuffer;
     }),
+    createTexture: vi.fn((descriptor: GPUTextureDescriptor) => {
+      textureDescriptors.push(descriptor);
+      return {
+        createView: vi.fn(() => ({ kind: 'texture-view', label: descriptor.label })),
+        destroy: vi.fn(),
+      } as unknown as GPUTexture;
+    }),
     createBindGroup: vi.fn((descriptor: GPUBindGroupDescriptor) => {
       bindGroups.push(descriptor);
       return { kind: 'bind-group' } as unknown as GPUBindGroup;
@@ -102,6 +118,8 @@ function makeFakeDevice(
     pass,
     readbackBuffer,
     shaderCodes,
+    textureCopies,
+    textureDescriptors,
     writeBuffers,
   };
 }
@@ -380,4 +398,63 @@ describe('WebGPU PSNR texture compute', () => {
     expect(getWebGpuSplatDebugCounters().buffers).toBe(0);
     expect(getWebGpuSplatTelemetryEvents()).toEqual([]);
   });
+
+  it('colours per-pixel difference and SSIM maps with the metric mask rule and SSIM window', () => {
+    const fake = makeFakeDevice([0]);
+    const maskTexture = makeTexture();
+
+    const maps = createPsnrErrorMapTexturesWebGpu({
+      device: fake.device,
+      renderedTexture: makeTexture(),
+      groundTruthTexture: makeTexture(),
+      maskTexture,
+      width: 20,
+      height: 9,
+      differenceScale: 32,
+    });
+
+    expect(fake.dispatches).toEqual([[3, 2, undefined]]);
+    expect(fake.textureDescriptors).toEqual([
+      expect.objectContaining({ size: { width: 20, height: 9 }, format: 'rgba8unorm', usage: 0x01 | 0x04 | 0x08 }),
+      expect.objectContaining({ size: { width: 20, height: 9 }, format: 'rgba8unorm', usage: 0x01 | 0x04 | 0x08 }),
+    ]);
+    expect(maskTexture.createView).toHaveBeenCalledTimes(1);
+    const params = fake.writeBuffers[0];
+    expect(Array.from(new Uint32Array(params, 0, 9))).toEqual([20, 9, 0, 0, 0, 0, 0, 0, 1]);
+    expect(new Float32Array(params, 36, 1)[0]).toBe(32);
+    const shader = fake.shaderCodes.join('\n');
+    expect(shader).toContain('texture_storage_2d<rgba8unorm, write>');
+    expect(shader).toContain('computeWindowSsim(globalId.x, globalId.y)');
+    expect(shader).toContain('maskValue.a > 0.0 && maskBrightness > 0.5');
+    // The uniform buffer is released once the work is submitted; the maps stay alive.
+    expect(getWebGpuSplatDebugCounters()).toMatchObject({ buffers: 0, textures: 2 });
+
+    maps.dispose();
+    maps.dispose();
+    expect(maps.differenceTexture.destroy).toHaveBeenCalledTimes(1);
+    expect(maps.ssimTexture.destroy).toHaveBeenCalledTimes(1);
+    expect(getWebGpuSplatDebugCounters().textures).toBe(0);
+  });
+
+  it('reads textures back as packed RGBA rows without the copy row padding', async () => {
+    const padded = new Uint8Array(256 * 2);
+    padded.set([1, 2, 3, 4, 5, 6, 7, 8], 0);
+    padded.set([9, 10, 11, 12, 13, 14, 15, 16], 256);
+    const fake = makeFakeDevice(Array.from(new Uint32Array(padded.buffer)));
+
+    const pixels = await readRgbaTextureWebGpu({
+      device: fake.device,
+      texture: makeTexture(),
+      width: 2,
+      height: 2,
+    });
+
+    expect(Array.from(pixels)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]);
+    expect(fake.textureCopies).toEqual([[
+      expect.objectContaining({ bytesPerRow: 256, rowsPerImage: 2 }),
+      { width: 2, height: 2 },
+    ]]);
+    expect(fake.bufferDescriptors[0].size).toBe(512);
+    expect(getWebGpuSplatDebugCounters().buffers).toBe(0);
+  });
 });
@@ -38,6 +38,32 @@ export interface WebGpuPsnrTextureResult extends WebGpuPsnrTextureReduction {
   mse: number;
 }
 
+export interface WebGpuPsnrErrorMapOptions {
+  device: GPUDevice;
+  renderedTexture: GPUTexture;
+  groundTruthTexture: GPUTexture;
+  maskTexture?: GPUTexture;
+  width: number;
+  height: number;
+  /** Mean absolute RGB difference (0-255) drawn at the hot end of the ramp. */
+  differenceScale?: number;
+}
+
+export interface WebGpuPsnrErrorMapTextures {
+  /** Jet-coloured mean absolute RGB difference; masked-out pixels are transparent. */
+  differenceTexture: GPUTexture;
+  /** Jet-coloured per-pixel SSIM window (blue = 1, red <= 0); masked-out pixels are transparent. */
+  ssimTexture: GPUTexture;
+  dispose: () => void;
+}
+
+export interface WebGpuRgbaTextureReadbackOptions {
+  device: GPUDevice;
+  texture: GPUTexture;
+  width: number;
+  height: number;
+}
+
 interface WebGpuPsnrTexturePipelines {
   compare: GPUComputePipeline;
   reduce: GPUComputePipeline;
@@ -55,6 +81,12 @@ const SSIM_SHIFTED_SCALE = 500_000;
 const METRIC_REDUCTION_READBACK_UINT32_COUNT = 8;
 const FINAL_READBACK_BYTES = METRIC_REDUCTION_READBACK_UINT32_COUNT * Uint32Array.BYTES_PER_ELEMENT;
 const DEFAULT_MAX_COMPUTE_WORKGROUPS_PER_DIMENSION = 65_535;
+const WEBGPU_TEXTURE_USAGE_COPY_SRC = 0x01;
+const WEBGPU_TEXTURE_USAGE_TEXTURE_BINDING = 0x04;
+const WEBGPU_TEXTURE_USAGE_STORAGE_BINDING = 0x08;
+const WEBGPU_PSNR_ERROR_MAP_WORKGROUP_SIZE = 8;
+const WEBGPU_COPY_BYTES_PER_ROW_ALIGNMENT = 256;
+export const WEBGPU_PSNR_DEFAULT_DIFFERENCE_SCALE = 64;
 
 interface WebGpuPsnrDispatchGrid {
   x: number;
@@ -62,6 +94,7 @@ interface WebGpuPsnrDispatchGrid {
 }
 
 const webGpuPsnrTexturePipelines = new WeakMap<GPUDevice, WebGpuPsnrTexturePipelines>();
+const webGpuPsnrErrorMapPipelines = new WeakMap<GPUDevice, GPUComputePipeline>();
 
 export async function computePsnrFromRgbaTexturesWebGpu({
   device,
@@ -337,6 +370,133 @@ export function accumulatePsnrTextureReductions(
   return result;
 }
 
+/**
+ * Colour the per-pixel terms of the PSNR/SSIM reduction into two display
+ * textures, using the same mask rule and SSIM window as the metric. The caller
+ * owns the returned textures and must dispose them.
+ */
+export function createPsnrErrorMapTexturesWebGpu({
+  device,
+  renderedTexture,
+  groundTruthTexture,
+  maskTexture,
+  width,
+  height,
+  differenceScale = WEBGPU_PSNR_DEFAULT_DIFFERENCE_SCALE,
+}: WebGpuPsnrErrorMapOptions): WebGpuPsnrErrorMapTextures {
+  const safeWidth = requirePositiveInteger(width, 'width');
+  const safeHeight = requirePositiveInteger(height, 'height');
+  if (!Number.isFinite(differenceScale) || differenceScale <= 0) {
+    throw new Error('Invalid WebGPU PSNR error map difference scale: expected a positive number');
+  }
+
+  const pipeline = getWebGpuPsnrErrorMapPipeline(device);
+  const createMapTexture = (label: string) => ({
+    texture: device.createTexture({
+      label,
+      size: { width: safeWidth, height: safeHeight },
+      format: 'rgba8unorm',
+      usage: WEBGPU_TEXTURE_USAGE_STORAGE_BINDING
+        | WEBGPU_TEXTURE_USAGE_TEXTURE_BINDING
+        | WEBGPU_TEXTURE_USAGE_COPY_SRC,
+    }),
+    releaseCounter: trackWebGpuSplatDebugCounter('textures'),
+  });
+  const difference = createMapTexture('webgpu splat psnr difference map');
+  let ssim: ReturnType<typeof createMapTexture> | null = null;
+  let params: { buffer: GPUBuffer; releaseCounter: () => void } | null = null;
+  let disposed = false;
+  const dispose = () => {
+    if (disposed) return;
+    disposed = true;
+    difference.texture.destroy();
+    difference.releaseCounter();
+    ssim?.texture.destroy();
+    ssim?.releaseCounter();
+  };
+
+  try {
+    ssim = createMapTexture('webgpu splat psnr ssim map');
+    const paramsData = new Uint32Array(12);
+    paramsData.set([safeWidth, safeHeight, 0, 0, 0, 0, 0, 0, maskTexture ? 1 : 0]);
+    new Float32Array(paramsData.buffer, 9 * Uint32Array.BYTES_PER_ELEMENT, 1)[0] = differenceScale;
+    params = createAndWriteUniformBuffer(device, paramsData);
+
+    const bindGroup = device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: renderedTexture.createView() },
+        { binding: 1, resource: groundTruthTexture.createView() },
+        { binding: 2, resource: (maskTexture ?? groundTruthTexture).createView() },
+        { binding: 3, resource: difference.texture.createView() },
+        { binding: 4, resource: ssim.texture.createView() },
+        { binding: 5, resource: { buffer: params.buffer } },
+      ],
+    });
+    const commandEncoder = device.createCommandEncoder();
+    const pass = commandEncoder.beginComputePass();
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroup);
+    pass.dispatchWorkgroups(
+      Math.ceil(safeWidth / WEBGPU_PSNR_ERROR_MAP_WORKGROUP_SIZE),
+      Math.ceil(safeHeight / WEBGPU_PSNR_ERROR_MAP_WORKGROUP_SIZE)
+    );
+    pass.end();
+    device.queue.submit([commandEncoder.finish()]);
+    return { differenceTexture: difference.texture, ssimTexture: ssim.texture, dispose };
+  } catch (error) {
+    dispose();
+    throw error;
+  } finally {
+    // Submitted work keeps its own reference to the uniform buffer.
+    params?.buffer.destroy();
+    params?.releaseCounter();
+  }
+}
+
+/** Read an rgba8unorm texture back as tightly packed RGBA bytes. */
+export async function readRgbaTextureWebGpu({
+  device,
+  texture,
+  width,
+  height,
+}: WebGpuRgbaTextureReadbackOptions): Promise<Uint8ClampedArray<ArrayBuffer>> {
+  const safeWidth = requirePositiveInteger(width, 'width');
+  const safeHeight = requirePositiveInteger(height, 'height');
+  const packedBytesPerRow = safeWidth * 4;
+  const bytesPerRow = Math.ceil(packedBytesPerRow / WEBGPU_COPY_BYTES_PER_ROW_ALIGNMENT)
+    * WEBGPU_COPY_BYTES_PER_ROW_ALIGNMENT;
+  const buffer = device.createBuffer({
+    size: bytesPerRow * safeHeight,
+    usage: WEBGPU_BUFFER_USAGE_MAP_READ | WEBGPU_BUFFER_USAGE_COPY_DST,
+  });
+  const releaseCounter = trackWebGpuSplatDebugCounter('buffers');
+
+  try {
+    const commandEncoder = device.createCommandEncoder();
+    commandEncoder.copyTextureToBuffer(
+      { texture },
+      { buffer, bytesPerRow, rowsPerImage: safeHeight },
+      { width: safeWidth, height: safeHeight }
+    );
+    device.queue.submit([commandEncoder.finish()]);
+    await buffer.mapAsync(WEBGPU_MAP_MODE_READ);
+    const mapped = new Uint8Array(buffer.getMappedRange());
+    const pixels = new Uint8ClampedArray(packedBytesPerRow * safeHeight);
+    for (let row = 0; row < safeHeight; row++) {
+      pixels.set(
+        mapped.subarray(row * bytesPerRow, row * bytesPerRow + packedBytesPerRow),
+        row * packedBytesPerRow
+      );
+    }
+    buffer.unmap();
+    return pixels;
+  } finally {
+    buffer.destroy();
+    releaseCounter();
+  }
+}
+
 function hasCompleteSsimReduction(
   reduction: WebGpuPsnrTextureReduction
 ): reduction is WebGpuPsnrTextureReduction & Required<Pick<
@@ -462,6 +622,21 @@ function getWebGpuPsnrTexturePipelines(device: GPUDevice): WebGpuPsnrTexturePipe
   return pipelines;
 }
 
+function getWebGpuPsnrErrorMapPipeline(device: GPUDevice): GPUComputePipeline {
+  const cached = webGpuPsnrErrorMapPipelines.get(device);
+  if (cached) return cached;
+
+  const pipeline = device.createComputePipeline({
+    layout: 'auto',
+    compute: {
+      module: device.createShaderModule({ code: createErrorMapShader() }),
+      entryPoint: 'main',
+    },
+  });
+  webGpuPsnrErrorMapPipelines.set(device, pipeline);
+  return pipeline;
+}
+
 function createTextureCompareShader(): string {
   return `
 struct CompareParams {
@@ -493,6 +668,106 @@ struct MetricPartial {
 
 var<workgroup> partialSums: array<MetricPartial, ${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE}>;
 
+${createTextureMetricSampleFunctions()}
+fn addU64(a: vec2<u32>, b: vec2<u32>) -> vec2<u32> {
+  let lo = a.x + b.x;
+  let carry = select(0u, 1u, lo < a.x);
+  return vec2<u32>(lo, a.y + b.y + carry);
+}
+
+fn emptyPartial() -> MetricPartial {
+  return MetricPartial(
+    vec2<u32>(0u, 0u),
+    vec2<u32>(0u, 0u),
+    vec2<u32>(0u, 0u),
+    vec2<u32>(0u, 0u)
+  );
+}
+
+fn addPartial(a: MetricPartial, b: MetricPartial) -> MetricPartial {
+  return MetricPartial(
+    addU64(a.sumSquaredError, b.sumSquaredError),
+    addU64(a.validPixelCount, b.validPixelCount),
+    addU64(a.ssimScaledSum, b.ssimScaledSum),
+    addU64(a.ssimWindowCount, b.ssimWindowCount)
+  );
+}
+
+@compute @workgroup_size(${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE})
+fn main(
+  @builtin(local_invocation_id) localId: vec3<u32>,
+  @builtin(workgroup_id) workgroupId: vec3<u32>
+) {
+  let workgroupIndex = workgroupId.y * params.dispatchX + workgroupId.x;
+  let pixelIndex = workgroupIndex * ${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE}u + localId.x;
+  let localIndex = localId.x;
+  let pixelCount = params.width * params.height;
+  var partial = emptyPartial();
+
+  if (pixelIndex < pixelCount) {
+    let x = pixelIndex % params.width;
+    let y = pixelIndex / params.width;
+    let rendered = textureLoad(
+      renderedTexture,
+      vec2<i32>(i32(x + params.renderedOriginX), i32(y + params.renderedOriginY)),
+      0
+    );
+    let groundTruth = textureLoad(
+      groundTruthTexture,
+      vec2<i32>(i32(x + params.groundTruthOriginX), i32(y + params.groundTruthOriginY)),
+      0
+    );
+
+    if (isSampleValid(x, y, groundTruth)) {
+      let renderedR = rgbaToByte(rendered.r);
+      let renderedG = rgbaToByte(rendered.g);
+      let renderedB = rgbaToByte(rendered.b);
+      let groundTruthR = rgbaToByte(groundTruth.r);
+      let groundTruthG = rgbaToByte(groundTruth.g);
+      let groundTruthB = rgbaToByte(groundTruth.b);
+      let dr = renderedR - groundTruthR;
+      let dg = renderedG - groundTruthG;
+      let db = renderedB - groundTruthB;
+      let windowSsim = computeWindowSsim(x, y);
+      let shiftedScaledSsim = u32(round((windowSsim + 1.0) * ${SSIM_SHIFTED_SCALE}.0));
+      partial = MetricPartial(
+        vec2<u32>(u32(dr * dr + dg * dg + db * db), 0u),
+        vec2<u32>(1u, 0u),
+        vec2<u32>(shiftedScaledSsim, 0u),
+        vec2<u32>(1u, 0u)
+      );
+    }
+  }
+
+  partialSums[localIndex] = partial;
+  workgroupBarrier();
+
+  var stride = ${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE / 2}u;
+  loop {
+    if (localIndex < stride) {
+      partialSums[localIndex] = addPartial(partialSums[localIndex], partialSums[localIndex + stride]);
+    }
+    workgroupBarrier();
+
+    if (stride == 1u) {
+      break;
+    }
+    stride = stride / 2u;
+  }
+
+  if (localIndex == 0u && workgroupIndex < params.workgroupCount) {
+    partials[workgroupIndex] = partialSums[0];
+  }
+}
+`;
+}
+
+/**
+ * Sampling, mask and SSIM-window helpers shared by the reduction and error-map
+ * shaders. Both declare the same texture bindings and params field names.
+ */
+function createTextureMetricSampleFunctions(): string {
+  return `
 fn rgbaToByte(value: f32) -> i32 {
   return i32(round(clamp(value, 0.0, 1.0) * 255.0));
 }
@@ -633,96 +908,65 @@ fn computeWindowSsim(x: u32, y: u32) -> f32 {
   let channelSsim = numerator / denominator;
   return clamp((channelSsim.x + channelSsim.y + channelSsim.z) / 3.0, -1.0, 1.0);
 }
-
-fn addU64(a: vec2<u32>, b: vec2<u32>) -> vec2<u32> {
-  let lo = a.x + b.x;
-  let carry = select(0u, 1u, lo < a.x);
-  return vec2<u32>(lo, a.y + b.y + carry);
+`;
 }
 
-fn emptyPartial() -> MetricPartial {
-  return MetricPartial(
-    vec2<u32>(0u, 0u),
-    vec2<u32>(0u, 0u),
-    vec2<u32>(0u, 0u),
-    vec2<u32>(0u, 0u)
-  );
+function createErrorMapShader(): string {
+  return `
+struct ErrorMapParams {
+  width: u32,
+  height: u32,
+  renderedOriginX: u32,
+  renderedOriginY: u32,
+  groundTruthOriginX: u32,
+  groundTruthOriginY: u32,
+  maskOriginX: u32,
+  maskOriginY: u32,
+  hasMask: u32,
+  differenceScale: f32,
 }
 
-fn addPartial(a: MetricPartial, b: MetricPartial) -> MetricPartial {
-  return MetricPartial(
-    addU64(a.sumSquaredError, b.sumSquaredError),
-    addU64(a.validPixelCount, b.validPixelCount),
-    addU64(a.ssimScaledSum, b.ssimScaledSum),
-    addU64(a.ssimWindowCount, b.ssimWindowCount)
-  );
+@group(0) @binding(0) var renderedTexture: texture_2d<f32>;
+@group(0) @binding(1) var groundTruthTexture: texture_2d<f32>;
+@group(0) @binding(2) var maskTexture: texture_2d<f32>;
+@group(0) @binding(3) var differenceMap: texture_storage_2d<rgba8unorm, write>;
+@group(0) @binding(4) var ssimMap: texture_storage_2d<rgba8unorm, write>;
+@group(0) @binding(5) var<uniform> params: ErrorMapParams;
+${createTextureMetricSampleFunctions()}
+
+// Same blue-cyan-green-yellow-red ramp as jetColormap in utils/colorUtils.
+fn jetColor(value: f32) -> vec3<f32> {
+  let t = clamp(value, 0.0, 1.0);
+  if (t < 0.25) {
+    return vec3<f32>(0.0, t * 4.0, 1.0);
+  }
+  if (t < 0.5) {
+    return vec3<f32>(0.0, 1.0, 1.0 - (t - 0.25) * 4.0);
+  }
+  if (t < 0.75) {
+    return vec3<f32>((t - 0.5) * 4.0, 1.0, 0.0);
+  }
+  return vec3<f32>(1.0, 1.0 - (t - 0.75) * 4.0, 0.0);
 }
 
-@compute @workgroup_size(${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE})
-fn main(
-  @builtin(local_invocation_id) localId: vec3<u32>,
-  @builtin(workgroup_id) workgroupId: vec3<u32>
-) {
-  let workgroupIndex = workgroupId.y * params.dispatchX + workgroupId.x;
-  let pixelIndex = workgroupIndex * ${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE}u + localId.x;
-  let localIndex = localId.x;
-  let pixelCount = params.width * params.height;
-  var partial = emptyPartial();
-
-  if (pixelIndex < pixelCount) {
-    let x = pixelIndex % params.width;
-    let y = pixelIndex / params.width;
-    let rendered = textureLoad(
-      renderedTexture,
-      vec2<i32>(i32(x + params.renderedOriginX), i32(y + params.renderedOriginY)),
-      0
-    );
-    let groundTruth = textureLoad(
-      groundTruthTexture,
-      vec2<i32>(i32(x + params.groundTruthOriginX), i32(y + params.groundTruthOriginY)),
-      0
-    );
-
-    if (isSampleValid(x, y, groundTruth)) {
-      let renderedR = rgbaToByte(rendered.r);
-      let renderedG = rgbaToByte(rendered.g);
-      let renderedB = rgbaToByte(rendered.b);
-      let groundTruthR = rgbaToByte(groundTruth.r);
-      let groundTruthG = rgbaToByte(groundTruth.g);
-      let groundTruthB = rgbaToByte(groundTruth.b);
-      let dr = renderedR - groundTruthR;
-      let dg = renderedG - groundTruthG;
-      let db = renderedB - groundTruthB;
-      let windowSsim = computeWindowSsim(x, y);
-      let shiftedScaledSsim = u32(round((windowSsim + 1.0) * ${SSIM_SHIFTED_SCALE}.0));
-      partial = MetricPartial(
-        vec2<u32>(u32(dr * dr + dg * dg + db * db), 0u),
-        vec2<u32>(1u, 0u),
-        vec2<u32>(shiftedScaledSsim, 0u),
-        vec2<u32>(1u, 0u)
-      );
-    }
+@compute @workgroup_size(${WEBGPU_PSNR_ERROR_MAP_WORKGROUP_SIZE}, ${WEBGPU_PSNR_ERROR_MAP_WORKGROUP_SIZE})
+fn main(@builtin(global_invocation_id) globalId: vec3<u32>) {
+  if (globalId.x >= params.width || globalId.y >= params.height) {
+    return;
   }
-
-  partialSums[localIndex] = partial;
-  workgroupBarrier();
-
-  var stride = ${WEBGPU_PSNR_TEXTURE_WORKGROUP_SIZE / 2}u;
-  loop {
-    if (localIndex < stride) {
-      partialSums[localIndex] = addPartial(partialSums[localIndex], partialSums[localIndex + stride]);
-    }
-    workgroupBarrier();
-
-    if (stride == 1u) {
-      break;
-    }
-    stride = stride / 2u;
+  let coord = vec2<i32>(i32(globalId.x), i32(globalId.y));
+  let rendered = textureLoad(renderedTexture, coord, 0);
+  let groundTruth = textureLoad(groundTruthTexture, coord, 0);
+  if (!isSampleValid(globalId.x, globalId.y, groundTruth)) {
+    textureStore(differenceMap, coord, vec4<f32>(0.0));
+    textureStore(ssimMap, coord, vec4<f32>(0.0));
+    return;
   }
 
-  if (localIndex == 0u && workgroupIndex < params.workgroupCount) {
-    partials[workgroupIndex] = partialSums[0];
-  }
+  let difference = abs(textureRgbBytes(rendered) - textureRgbBytes(groundTruth));
+  let meanDifference = (difference.x + difference.y + difference.z) / 3.0;
+  textureStore(differenceMap, coord, vec4<f32>(jetColor(meanDifference / params.differenceScale), 1.0));
+  textureStore(ssimMap, coord, vec4<f32>(jetColor(1.0 - computeWindowSsim(globalId.x, globalId.y)), 1.0));
 }
 `;
 }
@@ -4,7 +4,8 @@ export type WebGpuSplatTelemetryEventName =
   | 'first-frame'
   | 'render'
   | 'psnr-image'
-  | 'psnr-reduction';
+  | 'psnr-reduction'
+  | 'psnr-error-maps';
 
 export type WebGpuSplatTelemetryValue = string | number | boolean | null;
 
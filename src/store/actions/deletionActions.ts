@@ -184,7 +184,7 @@ export function applyDeletionsToData(): boolean {
   removeZipMaskCacheEntries(deletedImageNames);
 
   // Update reconstruction
-  reconstructionStore.setReconstruction(newReconstruction);
+  reconstructionStore.replaceActiveModelReconstruction(newReconstruction);
 
   // Clear pending deletions
   deletionStore.clearPendingDeletions();
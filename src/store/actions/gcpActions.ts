@@ -0,0 +1,22 @@
+/**
+ * GCP Actions
+ *
+ * Picks arrive in the displayed frame, after the active transform. GCPs are
+ * stored in model coordinates, the frame triangulated observations use, so
+ * the alignment fits model positions only.
+ */
+
+import { createSim3dFromEuler, inverseSim3d, isIdentityEuler, transformPoint } from '../../utils/sim3dTransforms.js';
+import { useGcpStore } from '../stores/gcpStore.js';
+import type { SelectedPoint } from '../stores/pointPickingStore.js';
+import { useTransformStore } from '../stores/transformStore.js';
+
+/** Assign a point-cloud pick to the active GCP, or start a new GCP with it. */
+export function addGcpPick({ position, point3DId }: SelectedPoint): void {
+  const { transform } = useTransformStore.getState();
+  const world: [number, number, number] = [position.x, position.y, position.z];
+  useGcpStore.getState().addPickedGcp(
+    isIdentityEuler(transform) ? world : transformPoint(inverseSim3d(createSim3dFromEuler(transform)), world),
+    point3DId
+  );
+}
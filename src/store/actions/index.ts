@@ -60,3 +60,34 @@ export {
   getPendingDeletions,
   filterReconstructionByImageIds,
 } from './deletionActions.js';
+
+// Point deletion actions
+export {
+  deleteSelectedPoints,
+  undoPointDeletion,
+  canUndoPointDeletion,
+  hasPointDeletions,
+  removePoints3DFromReconstruction,
+} from './pointDeletionActions.js';
+
+// Splat edit actions
+export {
+  applySplatEditToView,
+  revertSplatEdit,
+  buildEditedSplatExport,
+  loadSplatEditSourceCloud,
+  getSplatEditSource,
+  type EditedSplatExport,
+} from './splatEditActions.js';
+
+// Splat comparison actions
+export {
+  selectSplatComparisonSource,
+  clearSplatComparison,
+} from './splatComparisonActions.js';
+
+// Measurement actions
+export { addMeasurementPick } from './measurementActions.js';
+
+// GCP actions
+export { addGcpPick } from './gcpActions.js';
@@ -0,0 +1,20 @@
+/**
+ * Measurement Actions
+ *
+ * Picks arrive in the displayed frame, after the active transform. They are
+ * stored in model coordinates so measurements stay on the data when the
+ * transform changes, and are measured again in the displayed frame.
+ */
+
+import { getMeasurementModelPoint } from '../../utils/measurementGeometry.js';
+import type { SelectedPoint } from '../stores/pointPickingStore.js';
+import { useMeasurementStore } from '../stores/measurementStore.js';
+import { useTransformStore } from '../stores/transformStore.js';
+
+/** Add a point-cloud pick to the measurement being placed. */
+export function addMeasurementPick({ position }: SelectedPoint): void {
+  const { transform } = useTransformStore.getState();
+  useMeasurementStore.getState().addMeasurementPoint(
+    getMeasurementModelPoint([position.x, position.y, position.z], transform)
+  );
+}
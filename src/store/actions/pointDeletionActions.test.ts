@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildWasmReconstructionFromData } from '../../parsers/wasmParser';
+import {
+  buildGlobalStats,
+  buildImage,
+  buildPoint2D,
+  buildPoint3D,
+  buildReconstruction,
+  buildWasmReconstructionWrapper,
+} from '../../test/builders';
+import { UNMATCHED_POINT3D_ID } from '../../types/colmap';
+import { useReconstructionStore } from '../reconstructionStore';
+import { usePointEditStore } from '../stores/pointEditStore';
+import {
+  canUndoPointDeletion,
+  deleteSelectedPoints,
+  removePoints3DFromReconstruction,
+  undoPointDeletion,
+} from './pointDeletionActions';
+
+vi.mock('../../parsers/wasmParser', () => ({
+  buildWasmReconstructionFromData: vi.fn(),
+}));
+
+function buildTwoViewReconstruction() {
+  const shared = buildPoint3D({
+    point3DId: 1n,
+    track: [{ imageId: 1, point2DIdx: 0 }, { imageId: 2, point2DIdx: 0 }],
+  });
+  const other = buildPoint3D({
+    point3DId: 2n,
+    track: [{ imageId: 1, point2DIdx: 1 }, { imageId: 2, point2DIdx: 1 }],
+  });
+  return buildReconstruction({
+    images: [
+      buildImage({ imageId: 1, points2D: [buildPoint2D({ point3DId: 1n }), buildPoint2D({ point3DId: 2n })] }),
+      buildImage({ imageId: 2, points2D: [buildPoint2D({ point3DId: 1n }), buildPoint2D({ point3DId: 2n })] }),
+    ],
+    points3D: [shared, other],
+    connectedImagesIndex: new Map([[1, new Map([[2, 2]])], [2, new Map([[1, 2]])]]),
+    globalStats: buildGlobalStats({ totalPoints: 2, totalObservations: 4 }),
+  });
+}
+
+describe('removePoints3DFromReconstruction', () => {
+  it('drops the points and unlinks their observations', () => {
+    const reconstruction = buildTwoViewReconstruction();
+    const edited = removePoints3DFromReconstruction(reconstruction, new Set([1n]));
+
+    expect(edited).not.toBeNull();
+    expect([...edited!.points3D!.keys()]).toEqual([2n]);
+    expect(edited!.images.get(1)!.points2D.map((point) => point.point3DId)).toEqual([UNMATCHED_POINT3D_ID, 2n]);
+    expect(edited!.images.get(2)!.points2D.map((point) => point.point3DId)).toEqual([UNMATCHED_POINT3D_ID, 2n]);
+    expect([...edited!.imageToPoint3DIds.get(1)!]).toEqual([2n]);
+    expect(edited!.imageStats.get(1)!.numPoints3D).toBe(1);
+    expect(edited!.connectedImagesIndex.get(1)!.get(2)).toBe(1);
+    expect(edited!.globalStats).toMatchObject({ totalPoints: 1, totalObservations: 2 });
+    // The input is left untouched for undo.
+    expect(reconstruction.points3D!.size).toBe(2);
+    expect(reconstruction.images.get(1)!.points2D[0].point3DId).toBe(1n);
+  });
+
+  it('removes image pairs that no longer share a point', () => {
+    const edited = removePoints3DFromReconstruction(buildTwoViewReconstruction(), new Set([1n, 2n]));
+
+    expect(edited!.connectedImagesIndex.size).toBe(0);
+    expect(edited!.imageStats.get(2)).toMatchObject({ numPoints3D: 0, covisibleCount: 0 });
+  });
+
+  it('returns null when none of the points exist', () => {
+    expect(removePoints3DFromReconstruction(buildTwoViewReconstruction(), new Set([99n]))).toBeNull();
+  });
+});
+
+describe('point deletion store actions', () => {
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    usePointEditStore.getState().reset();
+  });
+
+  it('deletes the selected points and undoes the deletion', () => {
+    const reconstruction = buildTwoViewReconstruction();
+    useReconstructionStore.setState({ reconstruction });
+    usePointEditStore.getState().resolveSelection(new Set([2n]), 'replace');
+
+    expect(deleteSelectedPoints()).toBe(1);
+    expect(useReconstructionStore.getState().reconstruction!.points3D!.has(2n)).toBe(false);
+    expect(usePointEditStore.getState().selectedPointIds.size).toBe(0);
+    expect(canUndoPointDeletion()).toBe(true);
+
+    expect(undoPointDeletion()).toBe(true);
+    expect(useReconstructionStore.getState().reconstruction).toBe(reconstruction);
+    expect(canUndoPointDeletion()).toBe(false);
+  });
+
+  it('does not undo once another reconstruction is loaded', () => {
+    useReconstructionStore.setState({ reconstruction: buildTwoViewReconstruction() });
+    usePointEditStore.getState().resolveSelection(new Set([1n]), 'replace');
+    deleteSelectedPoints();
+
+    useReconstructionStore.setState({ reconstruction: buildReconstruction() });
+
+    expect(undoPointDeletion()).toBe(false);
+  });
+
+  it('rebuilds the WASM wrapper from the edited data after deleting and undoing', async () => {
+    const reconstruction = buildTwoViewReconstruction();
+    const loadedWasm = buildWasmReconstructionWrapper({ pointCount: 2 });
+    const deletedWasm = buildWasmReconstructionWrapper({ pointCount: 1 });
+    const restoredWasm = buildWasmReconstructionWrapper({ pointCount: 2 });
+    vi.mocked(buildWasmReconstructionFromData)
+      .mockResolvedValueOnce(deletedWasm)
+      .mockResolvedValueOnce(restoredWasm);
+    useReconstructionStore.setState({ reconstruction, wasmReconstruction: loadedWasm });
+    usePointEditStore.getState().resolveSelection(new Set([2n]), 'replace');
+
+    deleteSelectedPoints();
+    const edited = useReconstructionStore.getState().reconstruction;
+    expect(useReconstructionStore.getState().wasmReconstruction).toBeNull();
+    await vi.waitFor(() => expect(useReconstructionStore.getState().wasmReconstruction).toBe(deletedWasm));
+    expect(buildWasmReconstructionFromData).toHaveBeenLastCalledWith(edited);
+    expect(useReconstructionStore.getState().reconstruction).toBe(edited);
+
+    undoPointDeletion();
+    await vi.waitFor(() => expect(useReconstructionStore.getState().wasmReconstruction).toBe(restoredWasm));
+    expect(useReconstructionStore.getState().reconstruction?.points3D?.has(2n)).toBe(true);
+  });
+
+  it('drops a rebuilt wrapper once another reconstruction is loaded', async () => {
+    const rebuilt = buildWasmReconstructionWrapper({ pointCount: 1 });
+    const dispose = vi.spyOn(rebuilt, 'dispose');
+    vi.mocked(buildWasmReconstructionFromData).mockResolvedValueOnce(rebuilt);
+    useReconstructionStore.setState({
+      reconstruction: buildTwoViewReconstruction(),
+      wasmReconstruction: buildWasmReconstructionWrapper({ pointCount: 2 }),
+    });
+    usePointEditStore.getState().resolveSelection(new Set([1n]), 'replace');
+    deleteSelectedPoints();
+
+    useReconstructionStore.setState({ reconstruction: buildReconstruction() });
+
+    await vi.waitFor(() => expect(dispose).toHaveBeenCalledOnce());
+    expect(useReconstructionStore.getState().wasmReconstruction).toBeNull();
+  });
+});
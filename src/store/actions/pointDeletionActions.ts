@@ -0,0 +1,254 @@
+/**
+ * Point Deletion Actions
+ *
+ * Coordinates removing 3D points from the loaded reconstruction and undoing it.
+ *
+ * Architecture:
+ * - Pure function (removePoints3DFromReconstruction) keeps tracks, 2D
+ *   observations, per-image stats and the covisibility index consistent
+ * - Store actions (deleteSelectedPoints, undoPointDeletion) for UI coordination
+ * - WASM fast path: the wrapper has no mutation API, so a new one is built
+ *   from the edited data in the background and swapped in when it is ready
+ */
+
+import type {
+  ConnectedImagesIndex,
+  Image,
+  ImageId,
+  ImageStats,
+  ImageToPoint3DIdsMap,
+  Point3D,
+  Point3DId,
+  Reconstruction,
+} from '../../types/colmap.js';
+import { UNMATCHED_POINT3D_ID } from '../../types/colmap.js';
+import { buildWasmReconstructionFromData } from '../../parsers/wasmParser.js';
+import { useReconstructionStore } from '../reconstructionStore.js';
+import { useFloorPlaneStore } from '../stores/floorPlaneStore.js';
+import { usePointEditStore } from '../stores/pointEditStore.js';
+
+/**
+ * Pure function: Remove 3D points and every reference to them.
+ *
+ * Observations of removed points become untriangulated keypoints (the 2D
+ * features are kept, as COLMAP does when a track is deleted). Image pair
+ * covisibility counts drop by one per removed point seen by both images.
+ * Requires points3D and images[].points2D to be populated.
+ *
+ * @returns A new Reconstruction without the points, or null if none of them exist
+ */
+export function removePoints3DFromReconstruction(
+  reconstruction: Reconstruction,
+  pointIds: ReadonlySet<Point3DId>
+): Reconstruction | null {
+  const sourcePoints = reconstruction.points3D;
+  if (!sourcePoints) return null;
+
+  const removed: Point3D[] = [];
+  for (const id of pointIds) {
+    const point = sourcePoints.get(id);
+    if (point) removed.push(point);
+  }
+  if (removed.length === 0) return null;
+
+  const points3D = new Map<Point3DId, Point3D>();
+  for (const [id, point] of sourcePoints) {
+    if (!pointIds.has(id)) points3D.set(id, point);
+  }
+
+  // Group removed observations by image so each image's points2D is copied once
+  const removedByImage = new Map<ImageId, number[]>();
+  const pairDecrements = new Map<ImageId, Map<ImageId, number>>();
+  let removedObservations = 0;
+  for (const point of removed) {
+    removedObservations += point.track.length;
+    const trackImageIds = new Set<ImageId>();
+    for (const { imageId, point2DIdx } of point.track) {
+      trackImageIds.add(imageId);
+      const indices = removedByImage.get(imageId) ?? [];
+      indices.push(point2DIdx);
+      removedByImage.set(imageId, indices);
+    }
+    for (const a of trackImageIds) {
+      const row = pairDecrements.get(a) ?? new Map<ImageId, number>();
+      for (const b of trackImageIds) {
+        if (a !== b) row.set(b, (row.get(b) ?? 0) + 1);
+      }
+      pairDecrements.set(a, row);
+    }
+  }
+
+  const images = new Map<ImageId, Image>(reconstruction.images);
+  const imageStats = new Map<ImageId, ImageStats>(reconstruction.imageStats);
+  const imageToPoint3DIds: ImageToPoint3DIdsMap = new Map(reconstruction.imageToPoint3DIds);
+  for (const [imageId, indices] of removedByImage) {
+    const image = images.get(imageId);
+    if (image) {
+      const points2D = image.points2D.slice();
+      for (const idx of indices) {
+        if (points2D[idx]) points2D[idx] = { ...points2D[idx], point3DId: UNMATCHED_POINT3D_ID };
+      }
+      images.set(imageId, { ...image, points2D });
+    }
+
+    const visible = imageToPoint3DIds.get(imageId);
+    if (visible) {
+      const remaining = new Set<Point3DId>();
+      for (const id of visible) {
+        if (!pointIds.has(id)) remaining.add(id);
+      }
+      imageToPoint3DIds.set(imageId, remaining);
+    }
+
+    const stats = imageStats.get(imageId);
+    if (stats) {
+      imageStats.set(imageId, { ...stats, numPoints3D: Math.max(0, stats.numPoints3D - indices.length) });
+    }
+  }
+
+  const connectedImagesIndex: ConnectedImagesIndex = new Map();
+  for (const [imageId, connections] of reconstruction.connectedImagesIndex) {
+    const decrements = pairDecrements.get(imageId);
+    if (!decrements) {
+      connectedImagesIndex.set(imageId, connections);
+      continue;
+    }
+    const next = new Map<ImageId, number>();
+    for (const [connectedId, count] of connections) {
+      const remaining = count - (decrements.get(connectedId) ?? 0);
+      if (remaining > 0) next.set(connectedId, remaining);
+    }
+    if (next.size > 0) connectedImagesIndex.set(imageId, next);
+  }
+  for (const imageId of pairDecrements.keys()) {
+    const stats = imageStats.get(imageId);
+    if (stats) {
+      imageStats.set(imageId, { ...stats, covisibleCount: connectedImagesIndex.get(imageId)?.size ?? 0 });
+    }
+  }
+
+  return {
+    ...reconstruction,
+    images,
+    points3D,
+    imageStats,
+    connectedImagesIndex,
+    imageToPoint3DIds,
+    globalStats: {
+      ...reconstruction.globalStats,
+      totalPoints: points3D.size,
+      totalObservations: Math.max(0, reconstruction.globalStats.totalObservations - removedObservations),
+    },
+  };
+}
+
+/**
+ * Rebuild the WASM wrapper for an edited reconstruction and make it live, as
+ * long as that reconstruction is still the loaded one without a wrapper.
+ * Until then rendering uses the JS point Map.
+ */
+async function restoreWasmFastPath(reconstruction: Reconstruction): Promise<void> {
+  const wasm = await buildWasmReconstructionFromData(reconstruction);
+  if (!wasm) return;
+  const reconstructionStore = useReconstructionStore.getState();
+  if (reconstructionStore.reconstruction !== reconstruction || reconstructionStore.wasmReconstruction) {
+    wasm.dispose();
+    return;
+  }
+  reconstructionStore.setWasmReconstruction(wasm);
+  reconstructionStore.replaceActiveModelReconstruction(reconstruction);
+}
+
+/**
+ * Store action: Delete the points selected in the point edit store.
+ *
+ * The WASM wrapper has no mutation API, so its points3D and points2D are
+ * realized into the JS reconstruction, the points and their track references
+ * are removed there, and the old wrapper is dropped. A new wrapper built from
+ * the edited data replaces it in the background (restoreWasmFastPath).
+ *
+ * @returns Number of points deleted
+ */
+export function deleteSelectedPoints(): number {
+  const reconstructionStore = useReconstructionStore.getState();
+  const { reconstruction, wasmReconstruction } = reconstructionStore;
+  if (!reconstruction) return 0;
+
+  const pointEditStore = usePointEditStore.getState();
+  const { selectedPointIds } = pointEditStore;
+  if (selectedPointIds.size === 0) return 0;
+
+  let source = reconstruction;
+  if (wasmReconstruction) {
+    const images = new Map<ImageId, Image>();
+    for (const [imageId, image] of reconstruction.images) {
+      images.set(
+        imageId,
+        image.points2D.length === 0
+          ? { ...image, points2D: wasmReconstruction.getImagePoints2DArray(imageId) }
+          : image
+      );
+    }
+    source = {
+      ...reconstruction,
+      images,
+      points3D:
+        reconstruction.points3D && reconstruction.points3D.size > 0
+          ? reconstruction.points3D
+          : wasmReconstruction.buildPoints3DMap(),
+    };
+  }
+
+  const edited = removePoints3DFromReconstruction(source, selectedPointIds);
+  if (!edited) return 0;
+
+  if (wasmReconstruction) reconstructionStore.setWasmReconstruction(null);
+  reconstructionStore.replaceActiveModelReconstruction(edited);
+  if (wasmReconstruction) void restoreWasmFastPath(edited);
+
+  const deletedCount = (source.points3D?.size ?? 0) - (edited.points3D?.size ?? 0);
+  pointEditStore.pushEdit({ before: source, after: edited, deletedCount, usesWasm: wasmReconstruction !== null });
+  pointEditStore.clearSelection();
+
+  // Per-point floor distances are indexed by render order, which just changed
+  useFloorPlaneStore.getState().setPointDistances(null);
+
+  return deletedCount;
+}
+
+/**
+ * Check if the latest point deletion can be undone: the reconstruction it
+ * produced must still be the loaded one.
+ */
+export function canUndoPointDeletion(): boolean {
+  const { undoStack } = usePointEditStore.getState();
+  const last = undoStack[undoStack.length - 1];
+  return !!last && last.after === useReconstructionStore.getState().reconstruction;
+}
+
+/**
+ * Store action: Restore the reconstruction from before the latest point deletion.
+ *
+ * @returns true if a deletion was undone
+ */
+export function undoPointDeletion(): boolean {
+  if (!canUndoPointDeletion()) return false;
+  const pointEditStore = usePointEditStore.getState();
+  const edit = pointEditStore.popEdit();
+  if (!edit) return false;
+
+  const reconstructionStore = useReconstructionStore.getState();
+  if (reconstructionStore.wasmReconstruction) reconstructionStore.setWasmReconstruction(null);
+  reconstructionStore.replaceActiveModelReconstruction(edit.before);
+  if (edit.usesWasm) void restoreWasmFastPath(edit.before);
+  pointEditStore.clearSelection();
+  useFloorPlaneStore.getState().setPointDistances(null);
+  return true;
+}
+
+/**
+ * Check if any point deletions were applied to the loaded reconstruction.
+ */
+export function hasPointDeletions(): boolean {
+  return usePointEditStore.getState().undoStack.length > 0;
+}
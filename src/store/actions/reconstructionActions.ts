@@ -10,6 +10,9 @@ import type { WasmReconstructionWrapper } from '../../wasm/reconstruction.js';
 import { clearAllCaches } from '../../cache/index.js';
 import { useReconstructionStore } from '../reconstructionStore.js';
 import { useImageMetricsStore } from '../stores/imageMetricsStore.js';
+import { usePointEditStore } from '../stores/pointEditStore.js';
+import { useSplatComparisonStore } from '../stores/splatComparisonStore.js';
+import { useSplatEditStore } from '../stores/splatEditStore.js';
 import { useUIStore } from '../stores/uiStore.js';
 
 export interface ClearReconstructionOptions {
@@ -43,6 +46,9 @@ export function clearReconstruction(options?: ClearReconstructionOptions): void
   // Clear caches first (before store clear which disposes WASM)
   clearAllCaches({ preserveZip });
   useImageMetricsStore.getState().clearSplatPsnr();
+  usePointEditStore.getState().reset();
+  useSplatEditStore.getState().reset();
+  useSplatComparisonStore.getState().reset();
 
   // Clear reconstruction store
   useReconstructionStore.getState().clear();
@@ -72,6 +78,9 @@ export function setNewReconstruction(
   // Clear caches (preserveZip by default to maintain ZIP archive during reload)
   clearAllCaches({ preserveZip });
   useImageMetricsStore.getState().clearSplatPsnr();
+  usePointEditStore.getState().reset();
+  useSplatEditStore.getState().reset();
+  useSplatComparisonStore.getState().reset();
 
   const store = useReconstructionStore.getState();
 
@@ -2,6 +2,9 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { confirmReload, hasUnsavedReloadState } from './sessionActions';
 import { useTransformStore } from '../stores/transformStore';
 import { useDeletionStore } from '../stores/deletionStore';
+import { usePointEditStore } from '../stores/pointEditStore';
+import { useSplatEditStore } from '../stores/splatEditStore';
+import { buildReconstruction } from '../../test/builders';
 
 describe('reload confirmation gating', () => {
   let confirmSpy: ReturnType<typeof vi.spyOn>;
@@ -9,6 +12,8 @@ describe('reload confirmation gating', () => {
   beforeEach(() => {
     useTransformStore.setState(useTransformStore.getInitialState(), true);
     useDeletionStore.getState().clearPendingDeletions();
+    usePointEditStore.getState().reset();
+    useSplatEditStore.getState().reset();
     confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
   });
 
@@ -44,6 +49,20 @@ describe('reload confirmation gating', () => {
     expect(hasUnsavedReloadState()).toBe(true);
   });
 
+  it('detects applied 3D point deletions', () => {
+    const reconstruction = buildReconstruction();
+    usePointEditStore.getState().pushEdit({ before: reconstruction, after: reconstruction, deletedCount: 1, usesWasm: false });
+    expect(hasUnsavedReloadState()).toBe(true);
+  });
+
+  it('detects an applied splat edit', () => {
+    useSplatEditStore.getState().setAppliedEdit({
+      originalFile: new File(['a'], 'scene.spz'),
+      editedFile: new File(['b'], 'scene-edited.spz'),
+    });
+    expect(hasUnsavedReloadState()).toBe(true);
+  });
+
   it('confirmReload skips the prompt when there is nothing to lose', async () => {
     const result = await confirmReload();
     expect(result).toBe(true);
@@ -9,16 +9,23 @@ import { clearAllCaches } from '../../cache/index.js';
 import { useReconstructionStore } from '../reconstructionStore.js';
 import { useUIStore } from '../stores/uiStore.js';
 import { useCameraStore } from '../stores/cameraStore.js';
+import { useCameraPathStore } from '../stores/cameraPathStore.js';
+import { useMeasurementStore } from '../stores/measurementStore.js';
+import { useTrajectoryStore } from '../stores/trajectoryStore.js';
 import { useTransformStore } from '../stores/transformStore.js';
 import { usePointPickingStore } from '../stores/pointPickingStore.js';
 import { useDeletionStore } from '../stores/deletionStore.js';
 import { useImageMetricsStore } from '../stores/imageMetricsStore.js';
+import { usePointEditStore } from '../stores/pointEditStore.js';
+import { useSplatComparisonStore } from '../stores/splatComparisonStore.js';
+import { useSplatEditStore } from '../stores/splatEditStore.js';
 import { isIdentityEuler } from '../../utils/sim3dTransforms.js';
 import { requestConfirmation } from '../../utils/confirmation.js';
 
 /**
  * Returns true if a reload would discard in-memory edits the user made
- * (active transform or pending deletions). Camera conversions are already
+ * (active transform, pending deletions, deleted 3D points or an applied
+ * splat edit). Camera conversions are already
  * persisted into the reconstruction Map and can't be cheaply detected, so
  * they're not factored in here — callers should treat this as a best-effort
  * early-skip for the confirm prompt.
@@ -29,6 +36,8 @@ export function hasUnsavedReloadState(): boolean {
   if (!isIdentityEuler(splatTransform)) return true;
   const pending = useDeletionStore.getState().pendingDeletions;
   if (pending && pending.size > 0) return true;
+  if (usePointEditStore.getState().undoStack.length > 0) return true;
+  if (useSplatEditStore.getState().appliedEdit) return true;
   return false;
 }
 
@@ -40,7 +49,7 @@ export async function confirmReload(): Promise<boolean> {
   if (!hasUnsavedReloadState()) return true;
   return requestConfirmation({
     title: 'Reload data?',
-    message: 'Reloading will discard current/applied transforms and any pending deletions.',
+    message: 'Reloading will discard current/applied transforms and any pending or applied deletions.',
     confirmLabel: 'Reload',
     tone: 'danger',
   });
@@ -57,6 +66,9 @@ export function resetSession(): void {
   // Clear reconstruction store
   useReconstructionStore.getState().clear();
   useImageMetricsStore.getState().clearSplatPsnr();
+  usePointEditStore.getState().reset();
+  useSplatEditStore.getState().reset();
+  useSplatComparisonStore.getState().reset();
 
   // Reset transform state
   const transformStore = useTransformStore.getState();
@@ -65,6 +77,7 @@ export function resetSession(): void {
 
   // Reset point picking state
   usePointPickingStore.getState().reset();
+  useMeasurementStore.getState().clearMeasurements();
 
   // Clear camera selections and navigation history
   const cameraStore = useCameraStore.getState();
@@ -72,6 +85,8 @@ export function resetSession(): void {
   cameraStore.clearFlyTo();
   cameraStore.clearNavigationHistory();
   cameraStore.clearFlyToViewState();
+  useCameraPathStore.getState().stop();
+  useTrajectoryStore.getState().stop();
 
   // Close any open modals
   const uiStore = useUIStore.getState();
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchRemoteSplatFile } from '../../utils/urlUtils';
+import { useReconstructionStore } from '../reconstructionStore';
+import { useSplatComparisonStore } from '../stores/splatComparisonStore';
+import { clearSplatComparison, selectSplatComparisonSource } from './splatComparisonActions';
+
+vi.mock('../../utils/urlUtils', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../utils/urlUtils')>(),
+  fetchRemoteSplatFile: vi.fn(),
+}));
+
+describe('splat comparison actions', () => {
+  const localFile = new File(['a'], 'a.spz');
+
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useSplatComparisonStore.getState().reset();
+    useReconstructionStore.setState({
+      loadedFiles: {
+        imageFiles: new Map(),
+        hasMasks: false,
+        splatFile: localFile,
+        splatFiles: [localFile],
+        splatFileSources: [
+          { id: 'a.spz', path: 'a.spz', file: localFile },
+          { id: 'runs/b.spz', path: 'runs/b.spz', url: 'https://example.com/runs/b.spz' },
+        ],
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.mocked(fetchRemoteSplatFile).mockReset();
+  });
+
+  it('uses downloaded bytes directly and fetches lazy sources', async () => {
+    await selectSplatComparisonSource('a.spz');
+    expect(useSplatComparisonStore.getState()).toMatchObject({ sourceId: 'a.spz', status: 'ready', file: localFile });
+
+    const remoteFile = new File(['b'], 'b.spz');
+    vi.mocked(fetchRemoteSplatFile).mockResolvedValue(remoteFile);
+    await selectSplatComparisonSource('runs/b.spz');
+    expect(fetchRemoteSplatFile).toHaveBeenCalledWith('https://example.com/runs/b.spz');
+    expect(useSplatComparisonStore.getState()).toMatchObject({ sourceId: 'runs/b.spz', file: remoteFile });
+  });
+
+  it('keeps the latest selection when an earlier fetch resolves last', async () => {
+    let resolveFetch: (file: File) => void = () => undefined;
+    vi.mocked(fetchRemoteSplatFile).mockReturnValue(new Promise((resolve) => { resolveFetch = resolve; }));
+
+    const pending = selectSplatComparisonSource('runs/b.spz');
+    await selectSplatComparisonSource('a.spz');
+    resolveFetch(new File(['b'], 'b.spz'));
+    await pending;
+
+    expect(useSplatComparisonStore.getState()).toMatchObject({ sourceId: 'a.spz', file: localFile });
+  });
+
+  it('reports a failed fetch and clears on an empty selection', async () => {
+    vi.mocked(fetchRemoteSplatFile).mockRejectedValue(new Error('Failed to fetch splat (404)'));
+    await selectSplatComparisonSource('runs/b.spz');
+    expect(useSplatComparisonStore.getState()).toMatchObject({
+      status: 'error',
+      error: 'Failed to fetch splat (404)',
+    });
+
+    clearSplatComparison();
+    expect(useSplatComparisonStore.getState().sourceId).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Splat Comparison Actions
+ *
+ * Loads a second splat source (B) to compare against the active one (A).
+ *
+ * Architecture:
+ * - B is fetched on its own and kept in splatComparisonStore, so it never
+ *   becomes the active splat and switching A never unloads it
+ * - Selection is latest-wins like the splat picker: a superseded fetch is
+ *   dropped by the store because its source id no longer matches
+ * - B's metrics are computed by the viewer's comparison runner on request
+ */
+
+import { findSplatSourceById } from '../../utils/splatFileSourcePolicy.js';
+import { fetchRemoteSplatFile } from '../../utils/urlUtils.js';
+import { useReconstructionStore } from '../reconstructionStore.js';
+import { useSplatComparisonStore } from '../stores/splatComparisonStore.js';
+
+/**
+ * Load a splat source as the comparison splat, fetching it if it is lazy.
+ * An empty id ends the comparison.
+ */
+export async function selectSplatComparisonSource(sourceId: string | null): Promise<void> {
+  const comparisonStore = useSplatComparisonStore.getState();
+  if (!sourceId) {
+    comparisonStore.reset();
+    return;
+  }
+
+  const source = findSplatSourceById(useReconstructionStore.getState().loadedFiles, sourceId);
+  if (source?.file) {
+    comparisonStore.setSourceLoading(source.id);
+    comparisonStore.setSourceReady(source.id, source.file);
+    return;
+  }
+  if (!source?.url) {
+    comparisonStore.reset();
+    return;
+  }
+
+  comparisonStore.setSourceLoading(source.id);
+  try {
+    const file = await fetchRemoteSplatFile(source.url);
+    useSplatComparisonStore.getState().setSourceReady(source.id, file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    useSplatComparisonStore.getState().setSourceError(source.id, message);
+  }
+}
+
+/** Stop comparing: hide B and drop its metrics. */
+export function clearSplatComparison(): void {
+  useSplatComparisonStore.getState().reset();
+}
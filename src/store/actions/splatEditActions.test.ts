@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { GaussianCloud } from '../../splat/gaussianCloud';
+import {
+  clearGaussianCloudLoadCacheForTests,
+  loadGaussianCloudFromFile,
+  seedGaussianCloudLoad,
+} from '../../splat/gaussianCloudLoader';
+import { useReconstructionStore } from '../reconstructionStore';
+import { useSplatEditStore } from '../stores/splatEditStore';
+import { useTransformStore } from '../stores/transformStore';
+import { applySplatEditToView, buildEditedSplatExport, revertSplatEdit } from './splatEditActions';
+
+function makeCloud(opacities: number[]): GaussianCloud {
+  const count = opacities.length;
+  return {
+    count,
+    positions: new Float32Array(count * 3).map((_, index) => index),
+    scales: new Float32Array(count * 3).fill(0.1),
+    rotations: new Float32Array(count * 4).map((_, index) => (index % 4 === 0 ? 1 : 0)),
+    opacities: new Float32Array(opacities),
+    sh0: new Float32Array(count * 3),
+    shDegree: 0,
+  };
+}
+
+describe('splat edit actions', () => {
+  const originalFile = new File(['original'], 'scene.ply');
+
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+    useTransformStore.setState(useTransformStore.getInitialState(), true);
+    useSplatEditStore.getState().reset();
+    seedGaussianCloudLoad(originalFile, Promise.resolve({
+      file: originalFile,
+      format: 'ply',
+      byteLength: 8,
+      cloud: makeCloud([0.9, 0.2, 0.6, 0.05]),
+    }));
+    useReconstructionStore.setState({
+      loadedFiles: { imageFiles: new Map(), hasMasks: false, splatFile: originalFile, splatFiles: [originalFile] },
+    });
+  });
+
+  afterEach(() => {
+    clearGaussianCloudLoadCacheForTests();
+  });
+
+  it('shows an edited copy that is always recomputed from the original', async () => {
+    useSplatEditStore.getState().setMinOpacity(0.5);
+    expect(await applySplatEditToView()).toBe(2);
+
+    const editedFile = useReconstructionStore.getState().loadedFiles!.splatFile!;
+    expect(editedFile.name).toBe('scene-edited.spz');
+    expect(useReconstructionStore.getState().loadedFiles!.splatFiles).toEqual([editedFile]);
+    expect((await loadGaussianCloudFromFile(editedFile)).cloud.count).toBe(2);
+    expect(useSplatEditStore.getState().appliedEdit).toEqual({ originalFile, editedFile });
+
+    useSplatEditStore.getState().setMinOpacity(0.1);
+    expect(await applySplatEditToView()).toBe(3);
+    expect(useSplatEditStore.getState().appliedEdit?.originalFile).toBe(originalFile);
+  });
+
+  it('reverts to the original splat', async () => {
+    useSplatEditStore.getState().setMinOpacity(0.5);
+    await applySplatEditToView();
+
+    revertSplatEdit();
+
+    expect(useReconstructionStore.getState().loadedFiles!.splatFile).toBe(originalFile);
+    expect(useSplatEditStore.getState().appliedEdit).toBeNull();
+  });
+
+  it('exports the edited original in the chosen format', async () => {
+    useSplatEditStore.getState().setMinOpacity(0.5);
+    await applySplatEditToView();
+    useSplatEditStore.getState().setExportFormat('splat');
+
+    const exported = await buildEditedSplatExport();
+
+    expect(exported?.fileName).toBe('scene-edited.splat');
+    // .splat rows are 32 bytes each.
+    expect(exported?.data.byteLength).toBe(2 * 32);
+  });
+});
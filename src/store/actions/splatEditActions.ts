@@ -0,0 +1,110 @@
+/**
+ * Splat Edit Actions
+ *
+ * Coordinates cropping and pruning the active Gaussian splat.
+ *
+ * Architecture:
+ * - Pure selection math lives in splat/splatEditSelection; the gs-toolbox
+ *   filtering and encoders in splat/splatEdit are loaded on demand
+ * - Applying swaps an edited SPZ copy into the loaded files so both renderers
+ *   pick it up; the original is kept so edits never compound and can be reverted
+ * - Exports bake the splat transform into the edited cloud
+ */
+
+import type { GaussianCloud } from '../../splat/gaussianCloud.js';
+import { getEditedSplatFileName, getSplatViewerMatrix } from '../../splat/splatEditSelection.js';
+import { useReconstructionStore } from '../reconstructionStore.js';
+import { useImageMetricsStore } from '../stores/imageMetricsStore.js';
+import {
+  getSplatEditSourceFile,
+  selectSplatEditSettings,
+  useSplatEditStore,
+} from '../stores/splatEditStore.js';
+import { useTransformStore } from '../stores/transformStore.js';
+
+export interface EditedSplatExport {
+  data: ArrayBuffer;
+  fileName: string;
+}
+
+/** The unedited splat behind the current view, or null when no splat is loaded. */
+export function getSplatEditSource(): File | null {
+  const activeSplatFile = useReconstructionStore.getState().loadedFiles?.splatFile ?? null;
+  return getSplatEditSourceFile(useSplatEditStore.getState().appliedEdit, activeSplatFile);
+}
+
+/** Decode the unedited splat (cached per File by the loader). */
+export async function loadSplatEditSourceCloud(): Promise<GaussianCloud | null> {
+  const sourceFile = getSplatEditSource();
+  if (!sourceFile) return null;
+  const { loadGaussianCloudFromFile } = await import('../../splat/gaussianCloudLoader.js');
+  const loaded = await loadGaussianCloudFromFile(sourceFile);
+  return loaded.cloud;
+}
+
+/**
+ * Replace the active splat with the edited copy of its original.
+ * @returns The number of splats kept, or null when no splat is loaded
+ */
+export async function applySplatEditToView(): Promise<number | null> {
+  const sourceFile = getSplatEditSource();
+  const cloud = await loadSplatEditSourceCloud();
+  if (!sourceFile || !cloud) return null;
+
+  const [
+    { applySplatEdit, encodeSplatCloud },
+    { seedGaussianCloudLoad },
+  ] = await Promise.all([
+    import('../../splat/splatEdit.js'),
+    import('../../splat/gaussianCloudLoader.js'),
+  ]);
+  const { transform, splatTransform } = useTransformStore.getState();
+  const settings = selectSplatEditSettings(useSplatEditStore.getState());
+  const edited = applySplatEdit(cloud, settings, getSplatViewerMatrix(transform, splatTransform));
+  const bytes = encodeSplatCloud(edited, 'spz');
+  const editedFile = new File([bytes], getEditedSplatFileName(sourceFile.name, 'spz'));
+
+  // The WebGPU layer would otherwise decode the SPZ we just encoded.
+  seedGaussianCloudLoad(editedFile, Promise.resolve({
+    file: editedFile,
+    format: 'spz',
+    byteLength: bytes.byteLength,
+    cloud: edited,
+  }));
+  useReconstructionStore.getState().replaceActiveSplatFile(editedFile);
+  useSplatEditStore.getState().setAppliedEdit({ originalFile: sourceFile, editedFile });
+  useImageMetricsStore.getState().clearSplatPsnr();
+  return edited.count;
+}
+
+/** Show the original splat again. Edit settings are kept. */
+export function revertSplatEdit(): void {
+  const { appliedEdit, setAppliedEdit } = useSplatEditStore.getState();
+  if (!appliedEdit) return;
+  if (useReconstructionStore.getState().loadedFiles?.splatFile === appliedEdit.editedFile) {
+    useReconstructionStore.getState().replaceActiveSplatFile(appliedEdit.originalFile);
+    useImageMetricsStore.getState().clearSplatPsnr();
+  }
+  setAppliedEdit(null);
+}
+
+/** Encode the edited original with the splat transform applied, in the chosen format. */
+export async function buildEditedSplatExport(): Promise<EditedSplatExport | null> {
+  const sourceFile = getSplatEditSource();
+  const cloud = await loadSplatEditSourceCloud();
+  if (!sourceFile || !cloud) return null;
+
+  const { exportEditedSplat } = await import('../../splat/splatEdit.js');
+  const { transform, splatTransform } = useTransformStore.getState();
+  const state = useSplatEditStore.getState();
+  return {
+    data: exportEditedSplat(
+      cloud,
+      selectSplatEditSettings(state),
+      getSplatViewerMatrix(transform, splatTransform),
+      splatTransform,
+      state.exportFormat
+    ),
+    fileName: getEditedSplatFileName(sourceFile.name, state.exportFormat),
+  };
+}
@@ -2,6 +2,8 @@ import { beforeEach, describe, expect, it } from 'vitest';
 import { buildFile, buildLoadedFiles, buildPoint3D, buildReconstruction } from '../../test/builders';
 import { createSim3dFromEuler, transformPoint } from '../../utils/sim3dTransforms';
 import { useFloorPlaneStore } from '../stores/floorPlaneStore';
+import { useGcpStore } from '../stores/gcpStore';
+import { useMeasurementStore } from '../stores/measurementStore';
 import { useReconstructionStore } from '../reconstructionStore';
 import { useTransformStore } from '../stores/transformStore';
 import { applyTransformToData } from './transformActions';
@@ -19,6 +21,8 @@ const activeTransform = {
 describe('transform actions', () => {
   beforeEach(() => {
     useFloorPlaneStore.setState(useFloorPlaneStore.getInitialState(), true);
+    useGcpStore.setState(useGcpStore.getInitialState(), true);
+    useMeasurementStore.setState(useMeasurementStore.getInitialState(), true);
     useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
     useTransformStore.setState(useTransformStore.getInitialState(), true);
   });
@@ -77,4 +81,24 @@ describe('transform actions', () => {
       transformPoint(createSim3dFromEuler(useTransformStore.getState().splatTransform), [0, 0, 0])
     ).toEqual([3, 4, 0]);
   });
+
+  it('moves measurements with the data so they stay on the same features', () => {
+    useReconstructionStore.setState({ reconstruction: buildReconstruction() });
+    useMeasurementStore.getState().loadMeasurements([{ name: 'Door', type: 'distance', points: [[0, 0, 0], [0, 1, 0]] }]);
+    useTransformStore.getState().setTransform(activeTransform);
+
+    expect(applyTransformToData()).toBe(true);
+
+    expect(useMeasurementStore.getState().measurements[0].points).toEqual([[3, 0, 0], [3, 2, 0]]);
+  });
+
+  it('moves picked GCPs with the data so they stay on the picked points', () => {
+    useReconstructionStore.setState({ reconstruction: buildReconstruction() });
+    useGcpStore.getState().addPickedGcp([0, 1, 0], 1n);
+    useTransformStore.getState().setTransform(activeTransform);
+
+    expect(applyTransformToData()).toBe(true);
+
+    expect(useGcpStore.getState().gcps[0].pickedPosition).toEqual([3, 2, 0]);
+  });
 });
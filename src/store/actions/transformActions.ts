@@ -20,6 +20,8 @@ import { useReconstructionStore } from '../reconstructionStore.js';
 import { useTransformStore } from '../stores/transformStore.js';
 import { usePointPickingStore } from '../stores/pointPickingStore.js';
 import { useFloorPlaneStore } from '../stores/floorPlaneStore.js';
+import { useMeasurementStore } from '../stores/measurementStore.js';
+import { useGcpStore } from '../stores/gcpStore.js';
 
 /**
  * Apply a transform preset to the scene.
@@ -103,13 +105,18 @@ export function applyTransformToData(): boolean {
     reconstructionStore.setWasmReconstruction(null);
   }
 
-  reconstructionStore.setReconstruction(transformed);
+  reconstructionStore.replaceActiveModelReconstruction(transformed);
   if (!isIdentityEuler(transform)) {
     const nextSplatTransform = composeSim3d(sim3d, createSim3dFromEuler(splatTransform));
     transformStore.setSplatTransform(sim3dToEuler(nextSplatTransform));
   }
   transformStore.resetTransform();
 
+  // Measurements and GCP picks are stored in model coordinates; move them
+  // with the data so they stay where they were placed.
+  useMeasurementStore.getState().transformMeasurements(sim3d);
+  useGcpStore.getState().transformGcps(sim3d);
+
   // Floor plane data (normal, offset, per-point distances) was computed in the
   // old coordinate frame and is now stale. Drop it; user re-runs detection if
   // needed.
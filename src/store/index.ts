@@ -22,6 +22,53 @@ export { useFloorPlaneStore, type FloorPlaneState, type FloorColorMode, type Flo
 export { useDeletionStore, type DeletionState } from './stores/deletionStore';
 export { useImageMetricsStore, type ImageMetricsState, type SplatPsnrComputeRequest, type SplatPsnrComputeScope, type SplatPsnrMetric } from './stores/imageMetricsStore';
 export { useSplatBackendStore, type SplatBackendState } from './stores/splatBackendStore';
+export { useColmapDatabaseStore, type ColmapDatabaseState, type ColmapDatabaseStatus } from './stores/colmapDatabaseStore';
+export { useReconstructionDiffStore, type ReconstructionDiffState, type ReconstructionDiffStatus } from './stores/reconstructionDiffStore';
+export {
+  useReferenceAlignmentStore,
+  type ReferenceAlignmentState,
+  type ReferenceAlignmentStatus,
+} from './stores/referenceAlignmentStore';
+export {
+  useGcpStore,
+  type GcpObservation,
+  type GcpState,
+  type GroundControlPoint,
+} from './stores/gcpStore';
+export {
+  usePointEditStore,
+  type PointDeletionEdit,
+  type PointEditState,
+  type PointSelectionMode,
+  type PointSelectionShape,
+  type PointSelectionTool,
+} from './stores/pointEditStore';
+export {
+  useSplatEditStore,
+  selectSplatEditSettings,
+  getSplatEditSourceFile,
+  type AppliedSplatEdit,
+  type SplatCropBox,
+  type SplatCropMode,
+  type SplatEditState,
+  type SplatExportFormat,
+} from './stores/splatEditStore';
+export {
+  useSplatComparisonStore,
+  type SplatComparisonComputeRequest,
+  type SplatComparisonSourceStatus,
+  type SplatComparisonState,
+} from './stores/splatComparisonStore';
+export {
+  useCameraPathStore,
+  type CameraPathState,
+} from './stores/cameraPathStore';
+export {
+  useTrajectoryStore,
+  type TrajectoryState,
+} from './stores/trajectoryStore';
+export { useHotkeyStore, type HotkeyState } from './stores/hotkeyStore';
+export { useMeasurementStore, type MeasurementState } from './stores/measurementStore';
 
 // Types and constants
 export type {
@@ -35,7 +82,11 @@ export type {
   CameraScaleFactor,
   UndistortionMode,
   MatchesDisplayMode,
+  MatchesSource,
   SelectionColorMode,
+  SplatErrorMapView,
+  SplatErrorMapLayout,
+  SplatComparisonLayout,
   AxesCoordinateSystem,
   AxisLabelMode,
   ScreenshotSize,
@@ -44,6 +95,11 @@ export type {
   RigDisplayMode,
   RigColorMode,
   CameraViewState,
+  CameraPathEasing,
+  CameraPathKeyframe,
+  Measurement,
+  MeasurementType,
+  TrajectoryOrder,
   NavigationHistoryEntry,
 } from './types';
 
@@ -58,7 +114,14 @@ export {
   CAMERA_DISPLAY_MODES,
   FRUSTUM_COLOR_MODES,
   MATCHES_DISPLAY_MODES,
+  MATCHES_SOURCES,
   SELECTION_COLOR_MODES,
+  SPLAT_ERROR_MAP_VIEWS,
+  SPLAT_ERROR_MAP_LAYOUTS,
+  SPLAT_COMPARISON_LAYOUTS,
+  CAMERA_PATH_EASINGS,
+  MEASUREMENT_TYPES,
+  TRAJECTORY_ORDERS,
   RIG_DISPLAY_MODES,
   RIG_COLOR_MODES,
 } from './types';
@@ -97,4 +160,23 @@ export {
   hasPendingDeletions,
   getPendingDeletionCount,
   getPendingDeletions,
+  // Point deletion actions
+  deleteSelectedPoints,
+  undoPointDeletion,
+  canUndoPointDeletion,
+  hasPointDeletions,
+  // Splat edit actions
+  applySplatEditToView,
+  revertSplatEdit,
+  buildEditedSplatExport,
+  loadSplatEditSourceCloud,
+  getSplatEditSource,
+  type EditedSplatExport,
+  // Splat comparison actions
+  selectSplatComparisonSource,
+  clearSplatComparison,
+  // Measurement actions
+  addMeasurementPick,
+  // GCP actions
+  addGcpPick,
 } from './actions';
@@ -13,6 +13,7 @@ export const STORAGE_KEYS = {
   export: 'colmap-viewer-export',
   rig: 'colmap-viewer-rig',
   guide: 'colmap-viewer-guide',
+  hotkeys: 'colmap-viewer-hotkeys',
   profiles: 'colmap-viewer-profiles',
   lastSeenVersion: 'colmap-viewer-last-seen-version',
 } as const;
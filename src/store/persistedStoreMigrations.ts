@@ -25,6 +25,7 @@ import type {
   FrustumColorMode,
   HorizonLockMode,
   MatchesDisplayMode,
+  MatchesSource,
   RigColorMode,
   RigDisplayMode,
   SelectionColorMode,
@@ -113,6 +114,7 @@ function getFrustumColorMode(value: unknown): FrustumColorMode | undefined {
     case 'byRigFrame':
     case 'splatPsnr':
     case 'splatSsim':
+    case 'splatPsnrDelta':
       return value;
     default:
       return undefined;
@@ -219,6 +221,17 @@ function getAxesCoordinateSystem(value: unknown): AxesCoordinateSystem | undefin
   }
 }
 
+function getMatchesSource(value: unknown): MatchesSource | undefined {
+  switch (value) {
+    case 'triangulated':
+    case 'verified':
+    case 'raw':
+      return value;
+    default:
+      return undefined;
+  }
+}
+
 function getAxisLabelMode(value: unknown): AxisLabelMode | undefined {
   switch (value) {
     case 'off':
@@ -434,6 +447,10 @@ export function migrateUIPersistedState(
     state.axesCoordinateSystem = getAxesCoordinateSystem(state.axesCoordinateSystem) ?? 'colmap';
   }
 
+  if (state.matchesSource !== undefined) {
+    state.matchesSource = getMatchesSource(state.matchesSource) ?? 'triangulated';
+  }
+
   if (state.axisLabelMode !== undefined) {
     state.axisLabelMode = getAxisLabelMode(state.axisLabelMode) ?? 'extra';
   }
@@ -13,6 +13,8 @@ describe('point picking policy', () => {
       'origin-1pt': 1,
       'distance-2pt': 2,
       'normal-3pt': 3,
+      gcp: Number.POSITIVE_INFINITY,
+      measure: Number.POSITIVE_INFINITY,
     });
 
     for (const mode of Object.keys(POINT_PICKING_REQUIRED_POINT_COUNTS) as PointPickingMode[]) {
@@ -23,6 +25,8 @@ describe('point picking policy', () => {
   it('reports whether more selected points are needed', () => {
     expect(needsMoreSelectedPoints(0, 'off')).toBe(false);
     expect(needsMoreSelectedPoints(0, 'origin-1pt')).toBe(true);
+    expect(needsMoreSelectedPoints(12, 'gcp')).toBe(true);
+    expect(needsMoreSelectedPoints(12, 'measure')).toBe(true);
     expect(needsMoreSelectedPoints(1, 'origin-1pt')).toBe(false);
     expect(needsMoreSelectedPoints(1, 'distance-2pt')).toBe(true);
     expect(needsMoreSelectedPoints(2, 'distance-2pt')).toBe(false);
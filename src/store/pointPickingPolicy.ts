@@ -1,10 +1,14 @@
-export type PointPickingMode = 'off' | 'origin-1pt' | 'distance-2pt' | 'normal-3pt';
+export type PointPickingMode = 'off' | 'origin-1pt' | 'distance-2pt' | 'normal-3pt' | 'gcp' | 'measure';
 
 export const POINT_PICKING_REQUIRED_POINT_COUNTS: Record<PointPickingMode, number> = {
   off: 0,
   'origin-1pt': 1,
   'distance-2pt': 2,
   'normal-3pt': 3,
+  // GCP picks go to the GCP store, so picking never completes.
+  gcp: Number.POSITIVE_INFINITY,
+  // Measurement picks go to the measurement store.
+  measure: Number.POSITIVE_INFINITY,
 };
 
 export function getRequiredPointCount(pickingMode: PointPickingMode): number {
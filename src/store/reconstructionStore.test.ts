@@ -1,7 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { LoadedFiles } from '../types/colmap';
 import type { UrlLoadProgress } from '../types/manifest';
-import { abandonUrlAutoLoadRequest, hasUrlToLoad, useReconstructionStore } from './reconstructionStore';
+import {
+  abandonUrlAutoLoadRequest,
+  hasUrlToLoad,
+  useReconstructionStore,
+  type ReconstructionModel,
+} from './reconstructionStore';
 import { usePointCloudStore } from './stores/pointCloudStore';
 import { useSplatBackendStore } from './stores/splatBackendStore';
 import { useTransformStore } from './stores/transformStore';
@@ -12,6 +17,8 @@ import {
   loadGaussianCloudFromFile,
 } from '../splat/gaussianCloudLoader';
 import type { GaussianCloud } from '../splat/gaussianCloud';
+import { buildReconstruction } from '../test/builders';
+import type { WasmReconstructionWrapper } from '../wasm/reconstruction';
 
 // Byte-less activation seams: the decode step is mocked (no real gs-toolbox
 // decode in store tests), while seedGaussianCloudLoad / loadGaussianCloudFromFile
@@ -420,6 +427,123 @@ describe('reconstruction store URL load lifecycle', () => {
   });
 });
 
+describe('reconstruction store sub-models', () => {
+  function buildWasm(): WasmReconstructionWrapper {
+    return { dispose: vi.fn() } as unknown as WasmReconstructionWrapper;
+  }
+
+  function buildModel(id: string): ReconstructionModel {
+    return {
+      id,
+      label: id,
+      reconstruction: buildReconstruction(),
+      wasmReconstruction: buildWasm(),
+      files: {
+        camerasFile: new File([''], 'cameras.bin'),
+        imagesFile: new File([''], 'images.bin'),
+        points3DFile: new File([''], 'points3D.bin'),
+      },
+      pointCount: 10,
+      visible: true,
+      tint: '#ff0000',
+    };
+  }
+
+  function loadModels(models: ReconstructionModel[]) {
+    const store = useReconstructionStore.getState();
+    store.setWasmReconstruction(models[0].wasmReconstruction);
+    store.setReconstruction(models[0].reconstruction);
+    store.setLoadedFiles(baseLoadedFiles(models[0].files));
+    store.setModels(models, models[0].id);
+  }
+
+  beforeEach(() => {
+    useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
+  });
+
+  it('switches the active reconstruction without disposing sub-model wrappers', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1')];
+    loadModels(models);
+
+    useReconstructionStore.getState().setActiveModel('sparse/1');
+
+    const state = useReconstructionStore.getState();
+    expect(state.activeModelId).toBe('sparse/1');
+    expect(state.reconstruction).toBe(models[1].reconstruction);
+    expect(state.wasmReconstruction).toBe(models[1].wasmReconstruction);
+    expect(state.loadedFiles?.camerasFile).toBe(models[1].files.camerasFile);
+    expect(models[0].wasmReconstruction?.dispose).not.toHaveBeenCalled();
+  });
+
+  it('updates per-model visibility and tint', () => {
+    loadModels([buildModel('sparse/0'), buildModel('sparse/1')]);
+
+    useReconstructionStore.getState().setModelVisible('sparse/1', false);
+    useReconstructionStore.getState().setModelTint('sparse/1', '#00ff00');
+
+    expect(useReconstructionStore.getState().models[1]).toMatchObject({ visible: false, tint: '#00ff00' });
+    expect(useReconstructionStore.getState().models[0]).toMatchObject({ visible: true, tint: '#ff0000' });
+  });
+
+  it('drops and disposes the previous sub-models when a new reconstruction loads', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1')];
+    loadModels(models);
+    useReconstructionStore.getState().setActiveModel('sparse/1');
+
+    const nextWasm = buildWasm();
+    useReconstructionStore.getState().setWasmReconstruction(nextWasm);
+    useReconstructionStore.getState().setReconstruction(buildReconstruction());
+
+    const state = useReconstructionStore.getState();
+    expect(state.models).toEqual([]);
+    expect(state.activeModelId).toBeNull();
+    expect(models[0].wasmReconstruction?.dispose).toHaveBeenCalledTimes(1);
+    expect(models[1].wasmReconstruction?.dispose).toHaveBeenCalledTimes(1);
+    expect(nextWasm.dispose).not.toHaveBeenCalled();
+  });
+
+  it('keeps sibling sub-models when the active reconstruction is edited in place', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1')];
+    loadModels(models);
+    useReconstructionStore.getState().setActiveModel('sparse/1');
+
+    const edited = buildReconstruction();
+    useReconstructionStore.getState().setWasmReconstruction(null);
+    useReconstructionStore.getState().replaceActiveModelReconstruction(edited);
+
+    const state = useReconstructionStore.getState();
+    expect(state.reconstruction).toBe(edited);
+    expect(state.activeModelId).toBe('sparse/1');
+    expect(state.models.map((model) => model.id)).toEqual(['sparse/0', 'sparse/1']);
+    expect(state.models[1]).toMatchObject({ reconstruction: edited, wasmReconstruction: null, pointCount: 0 });
+    expect(state.models[0]).toBe(models[0]);
+    expect(models[0].wasmReconstruction?.dispose).not.toHaveBeenCalled();
+    expect(models[1].wasmReconstruction?.dispose).toHaveBeenCalledTimes(1);
+
+    useReconstructionStore.getState().setActiveModel('sparse/0');
+    useReconstructionStore.getState().setActiveModel('sparse/1');
+    expect(useReconstructionStore.getState().reconstruction).toBe(edited);
+  });
+
+  it('hands an edited single-model reconstruction to setReconstruction', () => {
+    const edited = buildReconstruction();
+    useReconstructionStore.getState().replaceActiveModelReconstruction(edited);
+
+    expect(useReconstructionStore.getState()).toMatchObject({ reconstruction: edited, models: [], progress: 100 });
+  });
+
+  it('disposes every sub-model wrapper once on clear', () => {
+    const models = [buildModel('sparse/0'), buildModel('sparse/1')];
+    loadModels(models);
+
+    useReconstructionStore.getState().clear();
+
+    expect(models[0].wasmReconstruction?.dispose).toHaveBeenCalledTimes(1);
+    expect(models[1].wasmReconstruction?.dispose).toHaveBeenCalledTimes(1);
+    expect(useReconstructionStore.getState().models).toEqual([]);
+  });
+});
+
 describe('reconstruction store lazy splat source switching', () => {
   beforeEach(() => {
     useReconstructionStore.setState(useReconstructionStore.getInitialState(), true);
@@ -10,6 +10,7 @@ import {
 } from './stores/pointCloudStore';
 import { useSplatBackendStore } from './stores/splatBackendStore';
 import { useTransformStore } from './stores/transformStore';
+import { useColmapDatabaseStore } from './stores/colmapDatabaseStore';
 import { getDefaultBackgroundColorForSplatLoad } from './splatBackgroundPolicy';
 import {
   applyActiveSplatFile,
@@ -19,6 +20,7 @@ import {
   getLoadedFilesWithActiveSplatSource,
   loadedFilesHaveSplatData,
   mergeRemoteSplatCatalog as mergeRemoteSplatCatalogIntoLoadedFiles,
+  replaceActiveSplatFile as replaceActiveSplatFileInLoadedFiles,
 } from '../utils/splatFileSourcePolicy';
 import { isSplatColorMode } from './types';
 import { fetchRemoteSplatBytes, fetchRemoteSplatFile, toArrayBuffer } from '../utils/urlUtils';
@@ -66,6 +68,17 @@ function restorePointDisplayForSplatlessDataset(): void {
   }
 }
 
+/** Open a newly dropped database.db in the background, or drop the previous one. */
+function syncColmapDatabase(previousFile: File | undefined, nextFile: File | undefined): void {
+  if (previousFile === nextFile) return;
+  const databaseStore = useColmapDatabaseStore.getState();
+  if (nextFile) {
+    void databaseStore.loadDatabase(nextFile);
+  } else {
+    databaseStore.clearDatabase();
+  }
+}
+
 /**
  * When a splat first becomes active (picked from the splat picker, or a lazy tile
  * selected from COLMAP-only), switch the viewer to a splat-visible mode and dark
@@ -103,6 +116,39 @@ function shouldActivateSplatSourceByteLess(source: SplatFileSource): boolean {
   });
 }
 
+/** One of several sibling sub-models (`sparse/0`, `sparse/1`, ...) loaded from a single drop. */
+export interface ReconstructionModel {
+  /** Model directory relative to the drop root; unique within a load. */
+  id: string;
+  label: string;
+  reconstruction: Reconstruction;
+  wasmReconstruction: WasmReconstructionWrapper | null;
+  files: Pick<LoadedFiles, 'camerasFile' | 'imagesFile' | 'points3DFile' | 'rigsFile' | 'framesFile'>;
+  pointCount: number;
+  /** Whether the model's points are drawn while another model is active. */
+  visible: boolean;
+  /** Hex tint for the model's points when drawn as an inactive overlay. */
+  tint: string;
+}
+
+function isModelWasm(models: readonly ReconstructionModel[], wasm: WasmReconstructionWrapper): boolean {
+  return models.some((model) => model.wasmReconstruction === wasm);
+}
+
+/** Dispose sub-model wrappers that are neither kept nor the live wrapper. */
+function disposeDroppedModelWasm(
+  previous: readonly ReconstructionModel[],
+  kept: readonly ReconstructionModel[],
+  liveWasm: WasmReconstructionWrapper | null
+): void {
+  for (const model of previous) {
+    const wasm = model.wasmReconstruction;
+    if (wasm && wasm !== liveWasm && !isModelWasm(kept, wasm)) {
+      wasm.dispose();
+    }
+  }
+}
+
 /** Source type for loaded reconstruction */
 export type ReconstructionSourceType = 'local' | 'url' | 'manifest' | 'zip' | null;
 
@@ -190,8 +236,19 @@ interface ReconstructionState {
   urlLoadActive: boolean;
   urlProgress: UrlLoadProgress | null;
   urlError: UrlLoadError | null;
+  /** All sub-models of a multi-model load; empty for a single model. */
+  models: ReconstructionModel[];
+  /** Model currently mirrored into `reconstruction` / `wasmReconstruction`. */
+  activeModelId: string | null;
 
   setReconstruction: (rec: Reconstruction) => void;
+  /**
+   * Swap in an edited copy of the active reconstruction (transform applied,
+   * points or images deleted, cameras converted). Unlike setReconstruction this
+   * is never a new load: sibling sub-models are kept and the active model's entry
+   * takes the edited data and the live WASM wrapper.
+   */
+  replaceActiveModelReconstruction: (rec: Reconstruction) => void;
   setWasmReconstruction: (wasm: WasmReconstructionWrapper | null) => void;
   setLoadedFiles: (files: LoadedFiles) => void;
   setDroppedFiles: (files: Map<string, File>) => void;
@@ -209,11 +266,22 @@ interface ReconstructionState {
   selectSplatSource: (sourceId: string) => Promise<void>;
   /** Show or hide the splat picker popup. */
   setShowSplatPicker: (show: boolean) => void;
+  /**
+   * Replace the active splat's file (e.g. with an edited copy) while keeping the
+   * splat transform and display settings of the current splat.
+   */
+  replaceActiveSplatFile: (file: File) => void;
   tryStartUrlLoad: () => boolean;
   finishUrlLoad: () => void;
   setUrlLoading: (loading: boolean) => void;
   setUrlProgress: (progress: UrlLoadProgress | null) => void;
   setUrlError: (error: UrlLoadError | null) => void;
+  /** Register the sub-models of the current load; the active one must already be set as the reconstruction. */
+  setModels: (models: ReconstructionModel[], activeModelId: string | null) => void;
+  /** Make a sub-model the active reconstruction without reparsing. */
+  setActiveModel: (modelId: string) => void;
+  setModelVisible: (modelId: string, visible: boolean) => void;
+  setModelTint: (modelId: string, tint: string) => void;
   clear: () => void;
 }
 
@@ -238,23 +306,62 @@ export const useReconstructionStore = create<ReconstructionState>((set, get) =>
   urlLoadActive: false,
   urlProgress: initialUrlLoading ? { percent: 0, message: 'Initializing...' } : null,
   urlError: null,
+  models: [],
+  activeModelId: null,
 
   setReconstruction: (reconstruction) => {
     // Note: wasmReconstruction is managed separately via setWasmReconstruction
     // The caller should call setWasmReconstruction BEFORE setReconstruction
     // to ensure the WASM wrapper is kept alive for the fast rendering path
+    const { models, wasmReconstruction } = get();
+    const isModelSwitch = models.some((model) => model.reconstruction === reconstruction);
+    // Any other reconstruction is a new load: the previous sub-models go away.
+    if (!isModelSwitch) {
+      disposeDroppedModelWasm(models, [], wasmReconstruction);
+    }
     set({
       reconstruction,
       loading: false,
       progress: 100,
-      error: null
+      error: null,
+      ...(!isModelSwitch && { models: [], activeModelId: null }),
+    });
+  },
+
+  replaceActiveModelReconstruction: (reconstruction) => {
+    const { models, activeModelId, wasmReconstruction } = get();
+    const activeModel = models.find((model) => model.id === activeModelId);
+    if (!activeModel) {
+      get().setReconstruction(reconstruction);
+      return;
+    }
+    // The edit may have dropped or rebuilt the wrapper; the model owned the old one.
+    if (activeModel.wasmReconstruction && activeModel.wasmReconstruction !== wasmReconstruction) {
+      activeModel.wasmReconstruction.dispose();
+    }
+    set({
+      reconstruction,
+      loading: false,
+      progress: 100,
+      error: null,
+      models: models.map((model) => (model === activeModel
+        ? {
+          ...model,
+          reconstruction,
+          wasmReconstruction,
+          pointCount: wasmReconstruction?.hasPoints()
+            ? wasmReconstruction.pointCount
+            : reconstruction.points3D?.size ?? 0,
+        }
+        : model)),
     });
   },
 
   setWasmReconstruction: (wasmReconstruction) => {
-    // Dispose old wrapper before setting new one
-    const oldWasm = get().wasmReconstruction;
-    if (oldWasm && oldWasm !== wasmReconstruction) {
+    // Dispose old wrapper before setting new one; sub-model wrappers are owned
+    // by `models` and disposed when their model list is replaced.
+    const { wasmReconstruction: oldWasm, models } = get();
+    if (oldWasm && oldWasm !== wasmReconstruction && !isModelWasm(models, oldWasm)) {
       oldWasm.dispose();
     }
     set({ wasmReconstruction });
@@ -293,6 +400,7 @@ export const useReconstructionStore = create<ReconstructionState>((set, get) =>
     if (!isActiveSplatFileSwitch) {
       useTransformStore.getState().resetSplatTransform();
     }
+    syncColmapDatabase(previousLoadedFiles?.databaseFile, resolvedLoadedFiles.databaseFile);
 
     set({
       loadedFiles: resolvedLoadedFiles,
@@ -499,6 +607,14 @@ export const useReconstructionStore = create<ReconstructionState>((set, get) =>
 
   setShowSplatPicker: (showSplatPicker) => set({ showSplatPicker }),
 
+  replaceActiveSplatFile: (file) => {
+    const loadedFiles = get().loadedFiles;
+    if (!loadedFiles?.splatFile) {
+      return;
+    }
+    set({ loadedFiles: replaceActiveSplatFileInLoadedFiles(loadedFiles, file) });
+  },
+
   tryStartUrlLoad: () => {
     if (get().urlLoadActive) {
       return false;
@@ -516,9 +632,37 @@ export const useReconstructionStore = create<ReconstructionState>((set, get) =>
   // Only set urlLoading to false when there's an actual error, not when clearing
   setUrlError: (urlError) => set(urlError ? { urlError, urlLoading: false } : { urlError }),
 
+  setModels: (models, activeModelId) => {
+    disposeDroppedModelWasm(get().models, models, get().wasmReconstruction);
+    set({ models, activeModelId: models.length > 0 ? activeModelId : null });
+  },
+
+  setActiveModel: (modelId) => {
+    const { models, activeModelId, loadedFiles } = get();
+    const model = models.find((candidate) => candidate.id === modelId);
+    if (!model || modelId === activeModelId) {
+      return;
+    }
+    set({
+      reconstruction: model.reconstruction,
+      wasmReconstruction: model.wasmReconstruction,
+      activeModelId: modelId,
+      ...(loadedFiles && { loadedFiles: { ...loadedFiles, ...model.files } }),
+    });
+  },
+
+  setModelVisible: (modelId, visible) => set({
+    models: get().models.map((model) => (model.id === modelId ? { ...model, visible } : model)),
+  }),
+
+  setModelTint: (modelId, tint) => set({
+    models: get().models.map((model) => (model.id === modelId ? { ...model, tint } : model)),
+  }),
+
   clear: () => {
     // Dispose WASM wrapper on clear
     const oldWasm = get().wasmReconstruction;
+    disposeDroppedModelWasm(get().models, [], oldWasm);
     if (oldWasm) {
       oldWasm.dispose();
     }
@@ -542,8 +686,11 @@ export const useReconstructionStore = create<ReconstructionState>((set, get) =>
       urlLoadActive: false,
       urlProgress: null,
       urlError: null,
+      models: [],
+      activeModelId: null,
     });
     useTransformStore.getState().resetSplatTransform();
+    useColmapDatabaseStore.getState().clearDatabase();
   },
 }));
 
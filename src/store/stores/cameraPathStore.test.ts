@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { CameraViewState } from '../types';
+import { useCameraPathStore } from './cameraPathStore';
+
+const viewAt = (x: number): CameraViewState => ({
+  position: [x, 0, 5],
+  quaternion: [0, 0, 0, 1],
+  target: [x, 0, 0],
+  distance: 5,
+});
+
+describe('camera path store', () => {
+  beforeEach(() => {
+    useCameraPathStore.setState(useCameraPathStore.getInitialState(), true);
+  });
+
+  it('appends keyframes with the timing of the previous segment', () => {
+    const store = useCameraPathStore.getState();
+    store.addKeyframe(viewAt(0));
+    store.addKeyframe(viewAt(1));
+    useCameraPathStore.getState().setKeyframeDuration(2, 5);
+    useCameraPathStore.getState().setKeyframeEasing(2, 'easeOut');
+    useCameraPathStore.getState().addKeyframe(viewAt(2));
+
+    expect(useCameraPathStore.getState().keyframes.map(({ id, duration, easing }) => [id, duration, easing])).toEqual([
+      [1, 2, 'linear'],
+      [2, 5, 'easeOut'],
+      [3, 5, 'easeOut'],
+    ]);
+  });
+
+  it('clamps durations and reorders keyframes within bounds', () => {
+    const store = useCameraPathStore.getState();
+    store.addKeyframe(viewAt(0));
+    store.addKeyframe(viewAt(1));
+    store.setKeyframeDuration(2, 0);
+    store.moveKeyframe(2, -1);
+    useCameraPathStore.getState().moveKeyframe(2, -1);
+
+    const { keyframes } = useCameraPathStore.getState();
+    expect(keyframes.map((keyframe) => keyframe.id)).toEqual([2, 1]);
+    expect(keyframes[0].duration).toBe(0.1);
+  });
+
+  it('plays only a path of two or more keyframes and stops when it shrinks', () => {
+    const store = useCameraPathStore.getState();
+    store.addKeyframe(viewAt(0));
+    store.play();
+    expect(useCameraPathStore.getState().playbackStartTime).toBeNull();
+
+    store.addKeyframe(viewAt(1));
+    useCameraPathStore.getState().play();
+    expect(useCameraPathStore.getState().playbackStartTime).not.toBeNull();
+
+    useCameraPathStore.getState().removeKeyframe(1);
+    expect(useCameraPathStore.getState().playbackStartTime).toBeNull();
+  });
+
+  it('loads a saved path with fresh ids and stopped playback', () => {
+    const store = useCameraPathStore.getState();
+    store.addKeyframe(viewAt(0));
+    store.addKeyframe(viewAt(1));
+    store.play();
+    useCameraPathStore.getState().loadPath([
+      { view: viewAt(3), duration: 2, easing: 'linear' },
+      { view: viewAt(4), duration: 1, easing: 'easeIn' },
+    ], true);
+
+    const { keyframes, loop, playbackStartTime } = useCameraPathStore.getState();
+    expect(keyframes.map((keyframe) => keyframe.id)).toEqual([3, 4]);
+    expect(loop).toBe(true);
+    expect(playbackStartTime).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { create } from 'zustand';
+import type { CameraPathEasing, CameraPathKeyframe, CameraViewState } from '../types';
+import {
+  CAMERA_PATH_DEFAULT_SEGMENT_DURATION,
+  clampCameraPathSegmentDuration,
+} from '../../utils/cameraPathTimelinePolicy';
+
+export interface CameraPathState {
+  keyframes: CameraPathKeyframe[];
+  loop: boolean;
+  /** performance.now() when playback started; null while stopped. */
+  playbackStartTime: number | null;
+  /** Play the path from the start whenever a recording starts. */
+  recordWithPath: boolean;
+  nextKeyframeId: number;
+
+  /** Append a keyframe at the view, reaching it with the previous segment's timing. */
+  addKeyframe: (view: CameraViewState) => void;
+  setKeyframeView: (id: number, view: CameraViewState) => void;
+  setKeyframeDuration: (id: number, duration: number) => void;
+  setKeyframeEasing: (id: number, easing: CameraPathEasing) => void;
+  /** Move a keyframe one place earlier (-1) or later (1); its timing moves with it. */
+  moveKeyframe: (id: number, offset: -1 | 1) => void;
+  removeKeyframe: (id: number) => void;
+  /** Replace the path, e.g. from a config file or share link. */
+  loadPath: (keyframes: readonly Omit<CameraPathKeyframe, 'id'>[], loop: boolean) => void;
+  clearPath: () => void;
+  setLoop: (loop: boolean) => void;
+  play: () => void;
+  stop: () => void;
+  setRecordWithPath: (recordWithPath: boolean) => void;
+}
+
+function updateKeyframe(
+  keyframes: CameraPathKeyframe[],
+  id: number,
+  update: (keyframe: CameraPathKeyframe) => CameraPathKeyframe
+): CameraPathKeyframe[] {
+  return keyframes.map((keyframe) => (keyframe.id === id ? update(keyframe) : keyframe));
+}
+
+export const useCameraPathStore = create<CameraPathState>()((set) => ({
+  keyframes: [],
+  loop: false,
+  playbackStartTime: null,
+  recordWithPath: false,
+  nextKeyframeId: 1,
+
+  addKeyframe: (view) => set((state) => {
+    const previous = state.keyframes[state.keyframes.length - 1];
+    return {
+      keyframes: [...state.keyframes, {
+        id: state.nextKeyframeId,
+        view,
+        duration: previous && state.keyframes.length > 1 ? previous.duration : CAMERA_PATH_DEFAULT_SEGMENT_DURATION,
+        easing: previous?.easing ?? 'linear',
+      }],
+      nextKeyframeId: state.nextKeyframeId + 1,
+    };
+  }),
+
+  setKeyframeView: (id, view) => set((state) => ({
+    keyframes: updateKeyframe(state.keyframes, id, (keyframe) => ({ ...keyframe, view })),
+  })),
+
+  setKeyframeDuration: (id, duration) => set((state) => ({
+    keyframes: updateKeyframe(state.keyframes, id, (keyframe) => ({
+      ...keyframe,
+      duration: clampCameraPathSegmentDuration(duration),
+    })),
+  })),
+
+  setKeyframeEasing: (id, easing) => set((state) => ({
+    keyframes: updateKeyframe(state.keyframes, id, (keyframe) => ({ ...keyframe, easing })),
+  })),
+
+  moveKeyframe: (id, offset) => set((state) => {
+    const index = state.keyframes.findIndex((keyframe) => keyframe.id === id);
+    const destination = index + offset;
+    if (index < 0 || destination < 0 || destination >= state.keyframes.length) return {};
+    const keyframes = [...state.keyframes];
+    [keyframes[index], keyframes[destination]] = [keyframes[destination], keyframes[index]];
+    return { keyframes };
+  }),
+
+  removeKeyframe: (id) => set((state) => {
+    const keyframes = state.keyframes.filter((keyframe) => keyframe.id !== id);
+    return {
+      keyframes,
+      playbackStartTime: keyframes.length < 2 ? null : state.playbackStartTime,
+    };
+  }),
+
+  loadPath: (keyframes, loop) => set((state) => ({
+    keyframes: keyframes.map((keyframe, index) => ({ ...keyframe, id: state.nextKeyframeId + index })),
+    loop,
+    playbackStartTime: null,
+    nextKeyframeId: state.nextKeyframeId + keyframes.length,
+  })),
+
+  clearPath: () => set({ keyframes: [], playbackStartTime: null }),
+
+  setLoop: (loop) => set({ loop }),
+
+  play: () => set((state) => (
+    state.keyframes.length < 2 ? {} : { playbackStartTime: performance.now() }
+  )),
+
+  stop: () => set({ playbackStartTime: null }),
+
+  setRecordWithPath: (recordWithPath) => set({ recordWithPath }),
+}));
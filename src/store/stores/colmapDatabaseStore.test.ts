@@ -0,0 +1,77 @@
+import initSqlJs from 'sql.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { imageIdsToPairId } from '../../parsers/colmapDatabase';
+import type { ColmapDatabaseLoaderDeps } from '../../parsers/colmapDatabaseLoader';
+import { useColmapDatabaseStore } from './colmapDatabaseStore';
+import { useNotificationStore } from './notificationStore';
+
+const deps: ColmapDatabaseLoaderDeps = {
+  openDatabase: async (buffer) => new (await initSqlJs()).Database(new Uint8Array(buffer)),
+};
+
+async function createDatabaseFile(name = 'database.db'): Promise<File> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE cameras (camera_id INTEGER PRIMARY KEY, model INTEGER, width INTEGER, height INTEGER, params BLOB, prior_focal_length INTEGER)');
+  db.run('CREATE TABLE images (image_id INTEGER PRIMARY KEY, name TEXT, camera_id INTEGER)');
+  db.run('CREATE TABLE keypoints (image_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)');
+  db.run('CREATE TABLE matches (pair_id INTEGER PRIMARY KEY, rows INTEGER, cols INTEGER, data BLOB)');
+  db.run(`INSERT INTO images VALUES (1, 'a.jpg', 1), (2, 'b.jpg', 1)`);
+  db.run('INSERT INTO keypoints VALUES (1, 1, 2, ?)', [new Uint8Array(new Float32Array([4, 5]).buffer)]);
+  db.run('INSERT INTO matches VALUES (?, 1, 2, ?)', [imageIdsToPairId(1, 2), new Uint8Array(new Uint32Array([0, 3]).buffer)]);
+  const bytes = db.export();
+  db.close();
+  return new File([bytes], name);
+}
+
+describe('colmap database store', () => {
+  beforeEach(() => {
+    useColmapDatabaseStore.getState().clearDatabase();
+    useNotificationStore.setState({ notifications: [] });
+  });
+
+  it('loads a database summary and pair index', async () => {
+    await useColmapDatabaseStore.getState().loadDatabase(await createDatabaseFile(), deps);
+
+    const state = useColmapDatabaseStore.getState();
+    expect(state.status).toBe('ready');
+    expect(state.fileName).toBe('database.db');
+    expect(state.summary?.images.size).toBe(2);
+    expect(state.pairIndex?.get(2)?.get(1)?.numMatches).toBe(1);
+    expect(useNotificationStore.getState().notifications[0]?.type).toBe('info');
+  });
+
+  it('reports unreadable databases as errors', async () => {
+    await useColmapDatabaseStore.getState().loadDatabase(new File([new Uint8Array(0)], 'database.db'), deps);
+
+    const state = useColmapDatabaseStore.getState();
+    expect(state.status).toBe('error');
+    expect(state.error).toMatch(/Not a COLMAP database/);
+    expect(useNotificationStore.getState().notifications[0]?.type).toBe('warning');
+  });
+
+  it('reads keypoints and oriented pair matches on demand', async () => {
+    await useColmapDatabaseStore.getState().loadDatabase(await createDatabaseFile(), deps);
+
+    useColmapDatabaseStore.getState().requestKeypoints(1);
+    useColmapDatabaseStore.getState().requestPairMatches(2, 1);
+    await vi.waitFor(() => {
+      expect(useColmapDatabaseStore.getState().keypoints.size).toBe(1);
+      expect(useColmapDatabaseStore.getState().pairMatches.size).toBe(1);
+    });
+
+    const state = useColmapDatabaseStore.getState();
+    expect(Array.from(state.keypoints.get(1)?.xy ?? [])).toEqual([4, 5]);
+    expect(Array.from(state.pairMatches.get('2:1')?.rawMatches ?? [])).toEqual([3, 0]);
+  });
+
+  it('drops a load that is superseded by a clear', async () => {
+    const file = await createDatabaseFile();
+    const pending = useColmapDatabaseStore.getState().loadDatabase(file, deps);
+    useColmapDatabaseStore.getState().clearDatabase();
+    await pending;
+
+    expect(useColmapDatabaseStore.getState().status).toBe('idle');
+    expect(useColmapDatabaseStore.getState().summary).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { create } from 'zustand';
+import type { ImageId } from '../../types/colmap';
+import type {
+  ColmapDatabaseSummary,
+  DatabaseKeypoints,
+  DatabasePairIndex,
+  DatabasePairMatches,
+} from '../../types/colmapDatabase';
+import {
+  loadColmapDatabase,
+  type ColmapDatabaseLoaderDeps,
+  type ColmapDatabaseReader,
+} from '../../parsers/colmapDatabaseLoader';
+import { buildDatabasePairIndex, getDatabasePairKey } from '../../utils/colmapDatabaseMatches';
+import { appLogger } from '../../utils/logger';
+import { useNotificationStore } from './notificationStore';
+
+export type ColmapDatabaseStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface ColmapDatabaseState {
+  status: ColmapDatabaseStatus;
+  fileName: string | null;
+  summary: ColmapDatabaseSummary | null;
+  pairIndex: DatabasePairIndex | null;
+  error: string | null;
+  /** Keypoints read on demand, keyed by image id. */
+  keypoints: Map<ImageId, DatabaseKeypoints>;
+  /** Pair matches read on demand, keyed by getDatabasePairKey(requested order). */
+  pairMatches: Map<string, DatabasePairMatches>;
+  loadDatabase: (file: File, deps?: ColmapDatabaseLoaderDeps) => Promise<void>;
+  requestKeypoints: (imageId: ImageId) => void;
+  requestPairMatches: (imageId1: ImageId, imageId2: ImageId) => void;
+  clearDatabase: () => void;
+}
+
+// The open reader lives outside the store so blob reads can reach the worker
+// without serializing it into state. activeLoadId is latest-wins: a load that
+// resolves after a newer load (or a clear) closes its reader and is dropped.
+let activeReader: ColmapDatabaseReader | null = null;
+let activeLoadId = 0;
+const inFlightReads = new Set<string>();
+
+function closeActiveReader(): void {
+  activeReader?.close();
+  activeReader = null;
+  inFlightReads.clear();
+}
+
+function readOnce<T>(
+  key: string,
+  read: (reader: ColmapDatabaseReader) => Promise<T>,
+  apply: (value: T) => void
+): void {
+  const reader = activeReader;
+  if (!reader || inFlightReads.has(key)) return;
+  inFlightReads.add(key);
+  read(reader)
+    .then((value) => {
+      if (reader === activeReader) apply(value);
+    })
+    .catch((error: unknown) => {
+      if (reader === activeReader) {
+        appLogger.warn(`[colmapDatabase] Failed to read ${key}:`, error);
+      }
+    })
+    .finally(() => {
+      if (reader === activeReader) inFlightReads.delete(key);
+    });
+}
+
+const EMPTY_STATE = {
+  status: 'idle' as ColmapDatabaseStatus,
+  fileName: null,
+  summary: null,
+  pairIndex: null,
+  error: null,
+  keypoints: new Map<ImageId, DatabaseKeypoints>(),
+  pairMatches: new Map<string, DatabasePairMatches>(),
+};
+
+export const useColmapDatabaseStore = create<ColmapDatabaseState>()((set, get) => ({
+  ...EMPTY_STATE,
+
+  loadDatabase: async (file, deps) => {
+    const loadId = ++activeLoadId;
+    closeActiveReader();
+    set({ ...EMPTY_STATE, status: 'loading', fileName: file.name });
+
+    try {
+      const reader = await loadColmapDatabase(file, deps);
+      if (loadId !== activeLoadId) {
+        reader.close();
+        return;
+      }
+      activeReader = reader;
+      set({
+        status: 'ready',
+        summary: reader.summary,
+        pairIndex: buildDatabasePairIndex(reader.summary.pairs),
+      });
+      useNotificationStore.getState().addNotification(
+        'info',
+        `Loaded ${file.name}: ${reader.summary.images.size} images, ${reader.summary.pairs.length} matched pairs`,
+        4000
+      );
+    } catch (error) {
+      if (loadId !== activeLoadId) return;
+      const message = error instanceof Error ? error.message : String(error);
+      appLogger.warn(`[colmapDatabase] Failed to load ${file.name}:`, error);
+      set({ status: 'error', error: message });
+      useNotificationStore.getState().addNotification('warning', `Could not read ${file.name}: ${message}`);
+    }
+  },
+
+  requestKeypoints: (imageId) => {
+    if (get().keypoints.has(imageId)) return;
+    readOnce(
+      `keypoints:${imageId}`,
+      (reader) => reader.readKeypoints(imageId),
+      (keypoints) => set((state) => ({ keypoints: new Map(state.keypoints).set(imageId, keypoints) }))
+    );
+  },
+
+  requestPairMatches: (imageId1, imageId2) => {
+    const key = getDatabasePairKey(imageId1, imageId2);
+    if (get().pairMatches.has(key)) return;
+    readOnce(
+      `pair:${key}`,
+      (reader) => reader.readPairMatches(imageId1, imageId2),
+      (matches) => set((state) => ({ pairMatches: new Map(state.pairMatches).set(key, matches) }))
+    );
+  },
+
+  clearDatabase: () => {
+    activeLoadId++;
+    closeActiveReader();
+    set(EMPTY_STATE);
+  },
+}));
@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useGcpStore } from './gcpStore';
+
+describe('gcp store', () => {
+  beforeEach(() => {
+    useGcpStore.getState().clearGcps();
+  });
+
+  it('fills the active GCP with a pick before starting a new one', () => {
+    const store = useGcpStore.getState();
+    store.addGcp();
+    store.addPickedGcp([1, 2, 3], 7n);
+    useGcpStore.getState().addPickedGcp([4, 5, 6], 1n);
+
+    const { gcps, activeGcpId } = useGcpStore.getState();
+    expect(gcps.map((gcp) => [gcp.name, gcp.pickedPosition, gcp.point3DId])).toEqual([
+      ['GCP 1', [1, 2, 3], 7n],
+      ['GCP 2', [4, 5, 6], 1n],
+    ]);
+    expect(activeGcpId).toBe(2);
+  });
+
+  it('keeps one observation per image on the active GCP', () => {
+    const store = useGcpStore.getState();
+    store.addObservation({ imageId: 3, x: 10, y: 20 });
+    useGcpStore.getState().addObservation({ imageId: 4, x: 1, y: 2 });
+    useGcpStore.getState().addObservation({ imageId: 3, x: 11, y: 21 });
+
+    expect(useGcpStore.getState().gcps).toHaveLength(1);
+    expect(useGcpStore.getState().gcps[0].observations).toEqual([
+      { imageId: 4, x: 1, y: 2 },
+      { imageId: 3, x: 11, y: 21 },
+    ]);
+
+    useGcpStore.getState().removeObservation(1, 4);
+    expect(useGcpStore.getState().gcps[0].observations).toEqual([{ imageId: 3, x: 11, y: 21 }]);
+  });
+
+  it('merges imported rows by name', () => {
+    useGcpStore.getState().addPickedGcp([0, 0, 0], 1n);
+    useGcpStore.getState().renameGcp(1, 'A');
+    useGcpStore.getState().importGcps([
+      { name: 'A', world: [100, 200, 5], model: null },
+      { name: 'B', world: [110, 200, 5], model: [1, 0, 0] },
+    ]);
+
+    const { gcps, nextGcpId } = useGcpStore.getState();
+    expect(gcps.map((gcp) => [gcp.id, gcp.name, gcp.world, gcp.pickedPosition])).toEqual([
+      [1, 'A', [100, 200, 5], [0, 0, 0]],
+      [2, 'B', [110, 200, 5], [1, 0, 0]],
+    ]);
+    expect(nextGcpId).toBe(3);
+  });
+
+  it('moves picked positions with a baked transform and leaves triangulated GCPs alone', () => {
+    useGcpStore.getState().addPickedGcp([1, 0, 0], 1n);
+    useGcpStore.getState().addObservation({ imageId: 3, x: 10, y: 20 });
+    useGcpStore.getState().addGcp();
+    useGcpStore.getState().transformGcps({
+      scale: 2,
+      rotation: new THREE.Quaternion(),
+      translation: new THREE.Vector3(0, 1, 0),
+    });
+
+    expect(useGcpStore.getState().gcps.map((gcp) => gcp.pickedPosition)).toEqual([[2, 1, 0], null]);
+  });
+
+  it('clears the active GCP when it is removed', () => {
+    useGcpStore.getState().addGcp();
+    useGcpStore.getState().setGcpWorld(1, [1, 2, 3]);
+    useGcpStore.getState().removeGcp(1);
+
+    expect(useGcpStore.getState()).toMatchObject({ gcps: [], activeGcpId: null });
+  });
+});
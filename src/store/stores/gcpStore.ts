@@ -0,0 +1,165 @@
+import { create } from 'zustand';
+import type { GcpCsvRow } from '../../parsers/gcpCsv';
+import type { ImageId } from '../../types/colmap';
+import type { Sim3d } from '../../types/sim3d';
+import { transformPoint } from '../../utils/sim3dTransforms';
+
+export type Vec3Tuple = [number, number, number];
+
+/** A clicked 2D location of a GCP in one image, in image pixels. */
+export interface GcpObservation {
+  imageId: ImageId;
+  x: number;
+  y: number;
+}
+
+export interface GroundControlPoint {
+  id: number;
+  name: string;
+  /** Known (surveyed) coordinates; null until entered or imported. */
+  world: Vec3Tuple | null;
+  /**
+   * Model-space position picked on the point cloud (before the active
+   * transform, like triangulated positions); triangulated from observations
+   * when null.
+   */
+  pickedPosition: Vec3Tuple | null;
+  point3DId: bigint | null;
+  observations: GcpObservation[];
+}
+
+export interface GcpState {
+  gcps: GroundControlPoint[];
+  /** GCP that receives the next picked point or image observation. */
+  activeGcpId: number | null;
+  nextGcpId: number;
+
+  /** Assign a model-space pick to the active GCP if it has none, otherwise start a new GCP. */
+  addPickedGcp: (pickedPosition: Vec3Tuple, point3DId: bigint) => void;
+  /** Record an observation for the active GCP (replacing one in the same image), starting a GCP if none is active. */
+  addObservation: (observation: GcpObservation) => void;
+  removeObservation: (gcpId: number, imageId: ImageId) => void;
+  addGcp: () => void;
+  setActiveGcpId: (id: number | null) => void;
+  renameGcp: (id: number, name: string) => void;
+  setGcpWorld: (id: number, world: Vec3Tuple | null) => void;
+  clearGcpPick: (id: number) => void;
+  removeGcp: (id: number) => void;
+  /** Merge rows by name: existing GCPs take the row's coordinates, unknown names become new GCPs. */
+  importGcps: (rows: readonly GcpCsvRow[]) => void;
+  /** Move picked positions with the data when a transform is baked in. */
+  transformGcps: (sim3d: Sim3d) => void;
+  clearGcps: () => void;
+}
+
+function createGcp(id: number, overrides: Partial<GroundControlPoint> = {}): GroundControlPoint {
+  return {
+    id,
+    name: `GCP ${id}`,
+    world: null,
+    pickedPosition: null,
+    point3DId: null,
+    observations: [],
+    ...overrides,
+  };
+}
+
+function updateGcp(
+  gcps: GroundControlPoint[],
+  id: number,
+  update: (gcp: GroundControlPoint) => GroundControlPoint
+): GroundControlPoint[] {
+  return gcps.map((gcp) => (gcp.id === id ? update(gcp) : gcp));
+}
+
+export const useGcpStore = create<GcpState>()((set) => ({
+  gcps: [],
+  activeGcpId: null,
+  nextGcpId: 1,
+
+  addPickedGcp: (pickedPosition, point3DId) => set((state) => {
+    const active = state.gcps.find((gcp) => gcp.id === state.activeGcpId);
+    if (active && !active.pickedPosition) {
+      return { gcps: updateGcp(state.gcps, active.id, (gcp) => ({ ...gcp, pickedPosition, point3DId })) };
+    }
+    const id = state.nextGcpId;
+    return {
+      gcps: [...state.gcps, createGcp(id, { pickedPosition, point3DId })],
+      activeGcpId: id,
+      nextGcpId: id + 1,
+    };
+  }),
+
+  addObservation: (observation) => set((state) => {
+    const withObservation = (gcp: GroundControlPoint): GroundControlPoint => ({
+      ...gcp,
+      observations: [
+        ...gcp.observations.filter((existing) => existing.imageId !== observation.imageId),
+        observation,
+      ],
+    });
+    if (state.gcps.some((gcp) => gcp.id === state.activeGcpId)) {
+      return { gcps: updateGcp(state.gcps, state.activeGcpId!, withObservation) };
+    }
+    const id = state.nextGcpId;
+    return {
+      gcps: [...state.gcps, withObservation(createGcp(id))],
+      activeGcpId: id,
+      nextGcpId: id + 1,
+    };
+  }),
+
+  removeObservation: (gcpId, imageId) => set((state) => ({
+    gcps: updateGcp(state.gcps, gcpId, (gcp) => ({
+      ...gcp,
+      observations: gcp.observations.filter((observation) => observation.imageId !== imageId),
+    })),
+  })),
+
+  addGcp: () => set((state) => ({
+    gcps: [...state.gcps, createGcp(state.nextGcpId)],
+    activeGcpId: state.nextGcpId,
+    nextGcpId: state.nextGcpId + 1,
+  })),
+
+  setActiveGcpId: (activeGcpId) => set({ activeGcpId }),
+
+  renameGcp: (id, name) => set((state) => ({ gcps: updateGcp(state.gcps, id, (gcp) => ({ ...gcp, name })) })),
+
+  setGcpWorld: (id, world) => set((state) => ({ gcps: updateGcp(state.gcps, id, (gcp) => ({ ...gcp, world })) })),
+
+  clearGcpPick: (id) => set((state) => ({
+    gcps: updateGcp(state.gcps, id, (gcp) => ({ ...gcp, pickedPosition: null, point3DId: null })),
+  })),
+
+  removeGcp: (id) => set((state) => ({
+    gcps: state.gcps.filter((gcp) => gcp.id !== id),
+    activeGcpId: state.activeGcpId === id ? null : state.activeGcpId,
+  })),
+
+  importGcps: (rows) => set((state) => {
+    const gcps = [...state.gcps];
+    let nextGcpId = state.nextGcpId;
+    for (const row of rows) {
+      const index = gcps.findIndex((gcp) => gcp.name === row.name);
+      if (index >= 0) {
+        gcps[index] = {
+          ...gcps[index],
+          world: row.world ?? gcps[index].world,
+          pickedPosition: row.model ?? gcps[index].pickedPosition,
+        };
+      } else {
+        gcps.push(createGcp(nextGcpId++, { name: row.name, world: row.world, pickedPosition: row.model }));
+      }
+    }
+    return { gcps, nextGcpId };
+  }),
+
+  transformGcps: (sim3d) => set((state) => ({
+    gcps: state.gcps.map((gcp) => (
+      gcp.pickedPosition ? { ...gcp, pickedPosition: transformPoint(sim3d, gcp.pickedPosition) } : gcp
+    )),
+  })),
+
+  clearGcps: () => set({ gcps: [], activeGcpId: null, nextGcpId: 1 }),
+}));
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { STORAGE_KEYS } from '../migration';
+import { useHotkeyStore } from './hotkeyStore';
+
+describe('hotkey store', () => {
+  beforeEach(() => {
+    useHotkeyStore.setState(useHotkeyStore.getInitialState(), true);
+  });
+
+  it('stores overrides and drops ones that match the default binding', () => {
+    const store = useHotkeyStore.getState();
+    store.setHotkeyOverride('resetView', 'x');
+    store.setHotkeyOverride('moveUp', 'space, e');
+    expect(useHotkeyStore.getState().overrides).toEqual({ resetView: 'x' });
+
+    useHotkeyStore.getState().setHotkeyOverride('resetView', 'R');
+    expect(useHotkeyStore.getState().overrides).toEqual({});
+  });
+
+  it('resets one or all overrides and replaces them wholesale', () => {
+    useHotkeyStore.getState().setHotkeyOverrides({ resetView: 'x', toggleGrid: 'y' });
+    useHotkeyStore.getState().resetHotkeyOverride('resetView');
+    expect(useHotkeyStore.getState().overrides).toEqual({ toggleGrid: 'y' });
+
+    useHotkeyStore.getState().resetAllHotkeyOverrides();
+    expect(useHotkeyStore.getState().overrides).toEqual({});
+  });
+
+  it('persists only the overrides', () => {
+    useHotkeyStore.getState().setHotkeyOverride('toggleGrid', 'k');
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.hotkeys) ?? '')).toEqual({
+      state: { overrides: { toggleGrid: 'k' } },
+      version: 0,
+    });
+  });
+});
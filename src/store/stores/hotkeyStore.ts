@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { HOTKEYS, normalizeHotkeyCombo, splitHotkeyCombos, type HotkeyOverrides } from '../../config/hotkeys';
+import { STORAGE_KEYS } from '../migration';
+
+export interface HotkeyState {
+  /** User bindings by hotkey id; ids missing here use the registry default. */
+  overrides: HotkeyOverrides;
+
+  /** Rebind one hotkey. Binding it back to its default drops the override. */
+  setHotkeyOverride: (id: string, keys: string) => void;
+  resetHotkeyOverride: (id: string) => void;
+  resetAllHotkeyOverrides: () => void;
+  /** Replace every override, e.g. from a profile or config file. */
+  setHotkeyOverrides: (overrides: HotkeyOverrides) => void;
+}
+
+function isDefaultBinding(id: string, keys: string): boolean {
+  const defaults = HOTKEYS[id]?.keys;
+  if (defaults === undefined) return false;
+  const normalize = (value: string) => splitHotkeyCombos(value).map(normalizeHotkeyCombo).sort().join(',');
+  return normalize(defaults) === normalize(keys);
+}
+
+function withoutOverride(overrides: HotkeyOverrides, id: string): HotkeyOverrides {
+  const next = { ...overrides };
+  delete next[id];
+  return next;
+}
+
+export const useHotkeyStore = create<HotkeyState>()(
+  persist(
+    (set) => ({
+      overrides: {},
+
+      setHotkeyOverride: (id, keys) => set((state) => ({
+        overrides: isDefaultBinding(id, keys)
+          ? withoutOverride(state.overrides, id)
+          : { ...state.overrides, [id]: keys },
+      })),
+      resetHotkeyOverride: (id) => set((state) => ({ overrides: withoutOverride(state.overrides, id) })),
+      resetAllHotkeyOverrides: () => set({ overrides: {} }),
+      setHotkeyOverrides: (overrides) => set({ overrides: { ...overrides } }),
+    }),
+    {
+      name: STORAGE_KEYS.hotkeys,
+      version: 0,
+      partialize: (state) => ({ overrides: state.overrides }),
+    }
+  )
+);
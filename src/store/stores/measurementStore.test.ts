@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useMeasurementStore } from './measurementStore';
+
+describe('measurement store', () => {
+  beforeEach(() => {
+    useMeasurementStore.setState(useMeasurementStore.getInitialState(), true);
+  });
+
+  it('stores fixed-count measurements on their last pick', () => {
+    const store = useMeasurementStore.getState();
+    store.addMeasurementPoint([0, 0, 0]);
+    expect(useMeasurementStore.getState().measurements).toEqual([]);
+    useMeasurementStore.getState().addMeasurementPoint([1, 0, 0]);
+
+    const { measurements, draftPoints, nextMeasurementId } = useMeasurementStore.getState();
+    expect(measurements).toEqual([{ id: 1, name: 'Distance 1', type: 'distance', points: [[0, 0, 0], [1, 0, 0]] }]);
+    expect(draftPoints).toEqual([]);
+    expect(nextMeasurementId).toBe(2);
+  });
+
+  it('finishes polylines and areas by hand once they have enough points', () => {
+    useMeasurementStore.getState().setMeasurementTool('area');
+    useMeasurementStore.getState().addMeasurementPoint([0, 0, 0]);
+    useMeasurementStore.getState().addMeasurementPoint([1, 0, 0]);
+    useMeasurementStore.getState().finishMeasurement();
+    expect(useMeasurementStore.getState().measurements).toEqual([]);
+
+    useMeasurementStore.getState().addMeasurementPoint([1, 1, 0]);
+    useMeasurementStore.getState().addMeasurementPoint([0, 1, 0]);
+    useMeasurementStore.getState().removeLastMeasurementPoint();
+    useMeasurementStore.getState().finishMeasurement();
+
+    expect(useMeasurementStore.getState().measurements).toMatchObject([
+      { name: 'Area 1', type: 'area', points: [[0, 0, 0], [1, 0, 0], [1, 1, 0]] },
+    ]);
+    expect(useMeasurementStore.getState().draftPoints).toEqual([]);
+  });
+
+  it('discards the draft when switching tools', () => {
+    useMeasurementStore.getState().setMeasurementTool('angle');
+    useMeasurementStore.getState().addMeasurementPoint([0, 0, 0]);
+    useMeasurementStore.getState().setMeasurementTool('height');
+
+    expect(useMeasurementStore.getState()).toMatchObject({ tool: 'height', draftPoints: [] });
+  });
+
+  it('loads saved measurements and moves every point with a Sim3d', () => {
+    useMeasurementStore.getState().loadMeasurements([
+      { name: 'Door', type: 'distance', points: [[0, 0, 0], [0, 2, 0]] },
+      { name: 'Lamp', type: 'height', points: [[1, 1, 1]] },
+    ]);
+    useMeasurementStore.getState().transformMeasurements({
+      scale: 2,
+      rotation: new THREE.Quaternion(),
+      translation: new THREE.Vector3(1, 0, 0),
+    });
+
+    const { measurements, nextMeasurementId } = useMeasurementStore.getState();
+    expect(measurements.map((measurement) => [measurement.id, measurement.name, measurement.points])).toEqual([
+      [1, 'Door', [[1, 0, 0], [1, 4, 0]]],
+      [2, 'Lamp', [[3, 2, 2]]],
+    ]);
+    expect(nextMeasurementId).toBe(3);
+  });
+
+  it('renames and removes measurements', () => {
+    useMeasurementStore.getState().setMeasurementTool('height');
+    useMeasurementStore.getState().addMeasurementPoint([0, 0, 0]);
+    useMeasurementStore.getState().addMeasurementPoint([0, 1, 0]);
+    useMeasurementStore.getState().renameMeasurement(2, 'Table');
+    useMeasurementStore.getState().removeMeasurement(1);
+
+    expect(useMeasurementStore.getState().measurements.map((measurement) => measurement.name)).toEqual(['Table']);
+  });
+});
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import type { Sim3d } from '../../types/sim3d';
+import {
+  canFinishMeasurement,
+  isMeasurementComplete,
+  MEASUREMENT_TYPE_LABELS,
+  type MeasurementPoint,
+  type SavedMeasurement,
+} from '../../utils/measurementGeometry';
+import { transformPoint } from '../../utils/sim3dTransforms';
+import type { Measurement, MeasurementType } from '../types';
+
+const DEFAULT_MEASUREMENT_TOOL: MeasurementType = 'distance';
+
+export interface MeasurementState {
+  measurements: Measurement[];
+  /** Kind of measurement the next picks build. */
+  tool: MeasurementType;
+  /** Model-space picks of the measurement being placed. */
+  draftPoints: MeasurementPoint[];
+  showLabels: boolean;
+  nextMeasurementId: number;
+
+  /** Switch tools, discarding an unfinished measurement. */
+  setMeasurementTool: (tool: MeasurementType) => void;
+  /** Add a model-space pick to the draft; fixed-count kinds are stored as soon as they have their points. */
+  addMeasurementPoint: (point: MeasurementPoint) => void;
+  removeLastMeasurementPoint: () => void;
+  /** Store a polyline or area draft once it has enough points. */
+  finishMeasurement: () => void;
+  cancelMeasurement: () => void;
+  renameMeasurement: (id: number, name: string) => void;
+  removeMeasurement: (id: number) => void;
+  setShowLabels: (show: boolean) => void;
+  /** Replace all measurements, e.g. from a config file or share link. */
+  loadMeasurements: (saved: readonly SavedMeasurement[]) => void;
+  /** Move every point by a Sim3d, used when the transform is baked into the data. */
+  transformMeasurements: (sim3d: Sim3d) => void;
+  clearMeasurements: () => void;
+}
+
+function createMeasurement(id: number, type: MeasurementType, points: MeasurementPoint[]): Measurement {
+  return { id, name: `${MEASUREMENT_TYPE_LABELS[type]} ${id}`, type, points };
+}
+
+export const useMeasurementStore = create<MeasurementState>()((set) => ({
+  measurements: [],
+  tool: DEFAULT_MEASUREMENT_TOOL,
+  draftPoints: [],
+  showLabels: true,
+  nextMeasurementId: 1,
+
+  setMeasurementTool: (tool) => set({ tool, draftPoints: [] }),
+
+  addMeasurementPoint: (point) => set((state) => {
+    const draftPoints = [...state.draftPoints, point];
+    if (!isMeasurementComplete(state.tool, draftPoints.length)) return { draftPoints };
+    return {
+      measurements: [...state.measurements, createMeasurement(state.nextMeasurementId, state.tool, draftPoints)],
+      draftPoints: [],
+      nextMeasurementId: state.nextMeasurementId + 1,
+    };
+  }),
+
+  removeLastMeasurementPoint: () => set((state) => ({ draftPoints: state.draftPoints.slice(0, -1) })),
+
+  finishMeasurement: () => set((state) => {
+    if (!canFinishMeasurement(state.tool, state.draftPoints.length)) return state;
+    return {
+      measurements: [...state.measurements, createMeasurement(state.nextMeasurementId, state.tool, state.draftPoints)],
+      draftPoints: [],
+      nextMeasurementId: state.nextMeasurementId + 1,
+    };
+  }),
+
+  cancelMeasurement: () => set({ draftPoints: [] }),
+
+  renameMeasurement: (id, name) => set((state) => ({
+    measurements: state.measurements.map((measurement) => (
+      measurement.id === id ? { ...measurement, name } : measurement
+    )),
+  })),
+
+  removeMeasurement: (id) => set((state) => ({
+    measurements: state.measurements.filter((measurement) => measurement.id !== id),
+  })),
+
+  setShowLabels: (showLabels) => set({ showLabels }),
+
+  loadMeasurements: (saved) => set({
+    measurements: saved.map(({ name, type, points }, index) => ({
+      id: index + 1,
+      name,
+      type,
+      points: points.map((point) => [...point]),
+    })),
+    draftPoints: [],
+    nextMeasurementId: saved.length + 1,
+  }),
+
+  transformMeasurements: (sim3d) => set((state) => ({
+    measurements: state.measurements.map((measurement) => ({
+      ...measurement,
+      points: measurement.points.map((point) => transformPoint(sim3d, point)),
+    })),
+    draftPoints: state.draftPoints.map((point) => transformPoint(sim3d, point)),
+  })),
+
+  clearMeasurements: () => set({ measurements: [], draftPoints: [], nextMeasurementId: 1 }),
+}));
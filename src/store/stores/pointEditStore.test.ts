@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { buildReconstruction } from '../../test/builders';
+import { POINT_DELETION_UNDO_LIMIT, usePointEditStore } from './pointEditStore';
+
+describe('pointEditStore', () => {
+  beforeEach(() => {
+    usePointEditStore.getState().reset();
+  });
+
+  it('clears the pending shape once it is resolved', () => {
+    const store = usePointEditStore.getState();
+    store.requestSelection({ kind: 'polygon', points: [[0, 0], [1, 0], [1, 1]], mode: 'add' });
+    store.resolveSelection(new Set([5n]), 'add');
+
+    expect(usePointEditStore.getState().pendingShape).toBeNull();
+    expect([...usePointEditStore.getState().selectedPointIds]).toEqual([5n]);
+  });
+
+  it('keeps only the most recent edits for undo', () => {
+    const reconstruction = buildReconstruction();
+    for (let i = 0; i < POINT_DELETION_UNDO_LIMIT + 2; i++) {
+      usePointEditStore.getState().pushEdit({ before: reconstruction, after: reconstruction, deletedCount: i, usesWasm: false });
+    }
+
+    const { undoStack } = usePointEditStore.getState();
+    expect(undoStack).toHaveLength(POINT_DELETION_UNDO_LIMIT);
+    expect(usePointEditStore.getState().popEdit()?.deletedCount).toBe(POINT_DELETION_UNDO_LIMIT + 1);
+    expect(usePointEditStore.getState().undoStack).toHaveLength(POINT_DELETION_UNDO_LIMIT - 1);
+  });
+});
@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import type { ImageId, Point3DId, Reconstruction } from '../../types/colmap';
+import { combinePointSelection, type PointSelectionMode } from '../../utils/pointSelection';
+
+export type PointSelectionTool = 'off' | 'box' | 'lasso';
+export type { PointSelectionMode };
+
+/**
+ * A selection waiting for the point cloud to resolve it against the rendered
+ * points: a screen polygon in normalized device coordinates (box and lasso),
+ * or the viewing volume of an image.
+ */
+export type PointSelectionShape =
+  | { kind: 'polygon'; points: [number, number][]; mode: PointSelectionMode }
+  | { kind: 'frustum'; imageId: ImageId; maxDepth: number | null; mode: PointSelectionMode };
+
+/** One applied point deletion; undo restores `before` while `after` is still loaded. */
+export interface PointDeletionEdit {
+  before: Reconstruction;
+  after: Reconstruction;
+  deletedCount: number;
+  /** Whether the data was WASM-backed, so undo rebuilds a wrapper for `before` too. */
+  usesWasm: boolean;
+}
+
+/** Undo keeps whole reconstruction snapshots, so only the most recent edits are kept. */
+export const POINT_DELETION_UNDO_LIMIT = 10;
+
+export interface PointEditState {
+  tool: PointSelectionTool;
+  /** 3D points selected for deletion (not yet applied). */
+  selectedPointIds: Set<Point3DId>;
+  pendingShape: PointSelectionShape | null;
+  undoStack: PointDeletionEdit[];
+
+  setTool: (tool: PointSelectionTool) => void;
+  requestSelection: (shape: PointSelectionShape) => void;
+  /** Combine the resolved ids with the current selection and clear the pending shape. */
+  resolveSelection: (pointIds: ReadonlySet<Point3DId>, mode: PointSelectionMode) => void;
+  clearSelection: () => void;
+  pushEdit: (edit: PointDeletionEdit) => void;
+  popEdit: () => PointDeletionEdit | null;
+  clearEdits: () => void;
+  /** Drop selection and undo history, e.g. when another reconstruction is loaded. */
+  reset: () => void;
+}
+
+export const usePointEditStore = create<PointEditState>()((set, get) => ({
+  tool: 'off',
+  selectedPointIds: new Set(),
+  pendingShape: null,
+  undoStack: [],
+
+  setTool: (tool) => set({ tool }),
+
+  requestSelection: (pendingShape) => set({ pendingShape }),
+
+  resolveSelection: (pointIds, mode) => set((state) => ({
+    selectedPointIds: combinePointSelection(state.selectedPointIds, pointIds, mode),
+    pendingShape: null,
+  })),
+
+  clearSelection: () => set({ selectedPointIds: new Set(), pendingShape: null }),
+
+  pushEdit: (edit) => set((state) => ({
+    undoStack: [...state.undoStack, edit].slice(-POINT_DELETION_UNDO_LIMIT),
+  })),
+
+  popEdit: () => {
+    const { undoStack } = get();
+    const edit = undoStack[undoStack.length - 1] ?? null;
+    if (edit) set({ undoStack: undoStack.slice(0, -1) });
+    return edit;
+  },
+
+  clearEdits: () => set({ undoStack: [] }),
+
+  reset: () => set({ tool: 'off', selectedPointIds: new Set(), pendingShape: null, undoStack: [] }),
+}));
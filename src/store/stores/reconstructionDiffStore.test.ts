@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildFile, buildImage } from '../../test/builders';
+import { useNotificationStore } from './notificationStore';
+import { useReconstructionDiffStore } from './reconstructionDiffStore';
+
+const compareImages = new Map([[1, buildImage({ imageId: 1, name: 'a.jpg' })]]);
+
+describe('reconstruction diff store', () => {
+  beforeEach(() => {
+    useReconstructionDiffStore.getState().clearCompare();
+    useNotificationStore.setState({ notifications: [] });
+  });
+
+  it('loads the images file of a picked model folder', async () => {
+    const readImages = vi.fn(async () => compareImages);
+    const files = [
+      buildFile('cameras.bin'),
+      buildFile('images.txt'),
+      buildFile('images.bin'),
+    ];
+
+    await useReconstructionDiffStore.getState().loadCompareFiles(files, { readImages });
+
+    const state = useReconstructionDiffStore.getState();
+    expect(readImages).toHaveBeenCalledWith(files[2]);
+    expect(state.status).toBe('ready');
+    expect(state.compareLabel).toBe('images.bin');
+    expect(state.compareImages).toBe(compareImages);
+    expect(useNotificationStore.getState().notifications[0]?.type).toBe('info');
+  });
+
+  it('accepts a lone images file and reports missing or unreadable ones', async () => {
+    const readImages = vi.fn(async () => {
+      throw new Error('truncated');
+    });
+
+    await useReconstructionDiffStore.getState().loadCompareFiles([buildFile('points3D.bin')], { readImages });
+    expect(useReconstructionDiffStore.getState()).toMatchObject({
+      status: 'error',
+      error: 'No images.bin or images.txt found',
+    });
+
+    await useReconstructionDiffStore.getState().loadCompareFiles([buildFile('images.txt')], { readImages });
+    expect(useReconstructionDiffStore.getState()).toMatchObject({ status: 'error', error: 'truncated' });
+    expect(useNotificationStore.getState().notifications[0]?.type).toBe('warning');
+  });
+
+  it('drops a load that resolves after clearing', async () => {
+    let resolve: (images: typeof compareImages) => void = () => {};
+    const pending = useReconstructionDiffStore.getState().loadCompareFiles([buildFile('images.bin')], {
+      readImages: () => new Promise((done) => { resolve = done; }),
+    });
+
+    useReconstructionDiffStore.getState().clearCompare();
+    resolve(compareImages);
+    await pending;
+
+    expect(useReconstructionDiffStore.getState()).toMatchObject({ status: 'idle', compareImages: null });
+  });
+});
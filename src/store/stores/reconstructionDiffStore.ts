@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { parseImagesBinary, parseImagesText } from '../../parsers';
+import type { Image, ImageId } from '../../types/colmap';
+import { getBasename } from '../../utils/colmapPathResolver';
+import { findColmapCameraImageFiles } from '../../utils/fileClassification';
+import { appLogger } from '../../utils/logger';
+import { useNotificationStore } from './notificationStore';
+
+export type ReconstructionDiffStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface ReconstructionDiffLoaderDeps {
+  readImages?: (imagesFile: File) => Promise<Map<ImageId, Image>>;
+}
+
+export interface ReconstructionDiffState {
+  status: ReconstructionDiffStatus;
+  /** Display name of the compare model (its images file path). */
+  compareLabel: string | null;
+  compareImages: Map<ImageId, Image> | null;
+  error: string | null;
+  /** Draw the aligned compare cameras and error vectors in the 3D view. */
+  showDiffOverlay: boolean;
+  loadCompareFiles: (files: readonly File[], deps?: ReconstructionDiffLoaderDeps) => Promise<void>;
+  setShowDiffOverlay: (show: boolean) => void;
+  clearCompare: () => void;
+}
+
+/** Only poses are compared, so 2D observations are skipped for binary files. */
+async function readCompareImages(imagesFile: File): Promise<Map<ImageId, Image>> {
+  return imagesFile.name.endsWith('.bin')
+    ? parseImagesBinary(await imagesFile.arrayBuffer(), true)
+    : parseImagesText(await imagesFile.text());
+}
+
+function getFilePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+/** Images file of the best model in a folder pick, or a lone images.bin/.txt. */
+function findCompareImagesFile(files: readonly File[]): File | undefined {
+  const fileMap = new Map(files.map((file) => [getFilePath(file), file]));
+  const { imagesFile } = findColmapCameraImageFiles(fileMap);
+  if (imagesFile) return imagesFile;
+  const candidates = files.filter((file) => /^images\.(bin|txt)$/i.test(getBasename(getFilePath(file))));
+  return candidates.find((file) => file.name.endsWith('.bin')) ?? candidates[0];
+}
+
+// Latest-wins, as in the database store: a load resolving after a newer load
+// or a clear is dropped.
+let activeLoadId = 0;
+
+const EMPTY_STATE = {
+  status: 'idle' as ReconstructionDiffStatus,
+  compareLabel: null,
+  compareImages: null,
+  error: null,
+};
+
+export const useReconstructionDiffStore = create<ReconstructionDiffState>()((set) => ({
+  ...EMPTY_STATE,
+  showDiffOverlay: true,
+
+  loadCompareFiles: async (files, deps = {}) => {
+    const loadId = ++activeLoadId;
+    const imagesFile = findCompareImagesFile(files);
+    if (!imagesFile) {
+      set({ ...EMPTY_STATE, status: 'error', error: 'No images.bin or images.txt found' });
+      return;
+    }
+
+    const label = getFilePath(imagesFile);
+    set({ ...EMPTY_STATE, status: 'loading', compareLabel: label });
+    try {
+      const compareImages = await (deps.readImages ?? readCompareImages)(imagesFile);
+      if (loadId !== activeLoadId) return;
+      set({ status: 'ready', compareImages });
+      useNotificationStore.getState().addNotification(
+        'info',
+        `Loaded ${compareImages.size} images from ${label} for comparison`,
+        4000
+      );
+    } catch (error) {
+      if (loadId !== activeLoadId) return;
+      const message = error instanceof Error ? error.message : String(error);
+      appLogger.warn(`[reconstructionDiff] Failed to load ${label}:`, error);
+      set({ status: 'error', error: message });
+      useNotificationStore.getState().addNotification('warning', `Could not read ${label}: ${message}`);
+    }
+  },
+
+  setShowDiffOverlay: (showDiffOverlay) => set({ showDiffOverlay }),
+
+  clearCompare: () => {
+    activeLoadId++;
+    set(EMPTY_STATE);
+  },
+}));
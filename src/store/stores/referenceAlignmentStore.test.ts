@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildReconstruction } from '../../test/builders';
+import { useNotificationStore } from './notificationStore';
+import { useReferenceAlignmentStore, type ReferencePoseFileLike } from './referenceAlignmentStore';
+
+function poseFile(name: string, content: string): ReferencePoseFileLike {
+  return { name, text: vi.fn().mockResolvedValue(content) };
+}
+
+describe('reference alignment store', () => {
+  beforeEach(() => {
+    useReferenceAlignmentStore.getState().clearReference();
+    useNotificationStore.setState({ notifications: [] });
+  });
+
+  it('parses a dropped reference file', async () => {
+    await useReferenceAlignmentStore.getState().loadReferenceFile(poseFile('gps.csv', 'name,x,y,z\na.jpg,1,2,3\n'));
+
+    const state = useReferenceAlignmentStore.getState();
+    expect(state.status).toBe('ready');
+    expect(state.fileLabel).toBe('gps.csv');
+    expect(state.poses?.format).toBe('csv');
+    expect(state.poses?.entries).toHaveLength(1);
+    expect(useNotificationStore.getState().notifications[0]?.type).toBe('info');
+  });
+
+  it('reports unreadable files', async () => {
+    await useReferenceAlignmentStore.getState().loadReferenceFile(poseFile('notes.txt', 'just text'));
+
+    expect(useReferenceAlignmentStore.getState()).toMatchObject({ status: 'error', poses: null });
+    expect(useReferenceAlignmentStore.getState().error).toMatch(/Unrecognized/);
+    expect(useNotificationStore.getState().notifications[0]?.type).toBe('warning');
+  });
+
+  it('keeps the solved alignment with its reconstruction until cleared', () => {
+    const reconstruction = buildReconstruction();
+    const alignment = {
+      sim3d: { scale: 1, rotation: new THREE.Quaternion(), translation: new THREE.Vector3() },
+      inlierThreshold: 1,
+      residuals: [],
+      inlierCount: 0,
+      inlierRmse: 0,
+    };
+
+    useReferenceAlignmentStore.getState().setAlignment(alignment, reconstruction);
+    expect(useReferenceAlignmentStore.getState().alignedReconstruction).toBe(reconstruction);
+
+    useReferenceAlignmentStore.getState().clearReference();
+    expect(useReferenceAlignmentStore.getState()).toMatchObject({ alignment: null, alignedReconstruction: null });
+  });
+});
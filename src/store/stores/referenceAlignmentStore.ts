@@ -0,0 +1,73 @@
+import { create } from 'zustand';
+import { parseReferencePoses, type ReferencePoses } from '../../parsers/referencePoses';
+import type { Reconstruction } from '../../types/colmap';
+import { appLogger } from '../../utils/logger';
+import type { ReferencePoseAlignment } from '../../utils/referencePoseAlignment';
+import { useNotificationStore } from './notificationStore';
+
+export type ReferenceAlignmentStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export type ReferencePoseFileLike = Pick<File, 'name' | 'text'>;
+
+export interface ReferenceAlignmentState {
+  status: ReferenceAlignmentStatus;
+  fileLabel: string | null;
+  poses: ReferencePoses | null;
+  error: string | null;
+  alignment: ReferencePoseAlignment | null;
+  /** Reconstruction the alignment was solved on; residuals are stale for any other. */
+  alignedReconstruction: Reconstruction | null;
+  /** Draw per-camera residual vectors in the 3D view. */
+  showResiduals: boolean;
+  loadReferenceFile: (file: ReferencePoseFileLike) => Promise<void>;
+  setAlignment: (alignment: ReferencePoseAlignment | null, reconstruction: Reconstruction | null) => void;
+  setShowResiduals: (show: boolean) => void;
+  clearReference: () => void;
+}
+
+// Latest-wins, as in the reconstruction diff store.
+let activeLoadId = 0;
+
+const EMPTY_STATE = {
+  status: 'idle' as ReferenceAlignmentStatus,
+  fileLabel: null,
+  poses: null,
+  error: null,
+  alignment: null,
+  alignedReconstruction: null,
+};
+
+export const useReferenceAlignmentStore = create<ReferenceAlignmentState>()((set) => ({
+  ...EMPTY_STATE,
+  showResiduals: true,
+
+  loadReferenceFile: async (file) => {
+    const loadId = ++activeLoadId;
+    set({ ...EMPTY_STATE, status: 'loading', fileLabel: file.name });
+    try {
+      const poses = parseReferencePoses(await file.text());
+      if (loadId !== activeLoadId) return;
+      set({ status: 'ready', poses });
+      useNotificationStore.getState().addNotification(
+        'info',
+        `Loaded ${poses.entries.length} ${poses.format.toUpperCase()} reference positions from ${file.name}`,
+        4000
+      );
+    } catch (error) {
+      if (loadId !== activeLoadId) return;
+      const message = error instanceof Error ? error.message : String(error);
+      appLogger.warn(`[referenceAlignment] Failed to load ${file.name}:`, error);
+      set({ status: 'error', error: message });
+      useNotificationStore.getState().addNotification('warning', `Could not read ${file.name}: ${message}`);
+    }
+  },
+
+  setAlignment: (alignment, alignedReconstruction) => set({ alignment, alignedReconstruction }),
+
+  setShowResiduals: (showResiduals) => set({ showResiduals }),
+
+  clearReference: () => {
+    activeLoadId++;
+    set(EMPTY_STATE);
+  },
+}));
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ImageId } from '../../types/colmap';
+import { useSplatComparisonStore } from './splatComparisonStore';
+
+function buildMetric(imageId: number, psnr: number) {
+  return {
+    imageId: imageId as ImageId,
+    psnr,
+    mse: 1,
+    validPixelCount: 4,
+    width: 2,
+    height: 2,
+    computedAt: 0,
+  };
+}
+
+describe('splatComparisonStore', () => {
+  beforeEach(() => {
+    useSplatComparisonStore.getState().reset();
+  });
+
+  it('ignores a load result for a source that is no longer selected', () => {
+    const store = useSplatComparisonStore.getState();
+    const file = new File(['b'], 'b.spz');
+
+    store.setSourceLoading('a.spz');
+    store.setSourceLoading('b.spz');
+    store.setSourceReady('a.spz', new File(['a'], 'a.spz'));
+    store.setSourceError('a.spz', 'Failed');
+    expect(useSplatComparisonStore.getState()).toMatchObject({ sourceId: 'b.spz', status: 'loading', file: null });
+
+    store.setSourceReady('b.spz', file);
+    expect(useSplatComparisonStore.getState()).toMatchObject({ status: 'ready', file, error: null });
+  });
+
+  it('keeps one result per image and drops metrics when the source changes', () => {
+    const store = useSplatComparisonStore.getState();
+    store.setSourceLoading('b.spz');
+    store.startCompute();
+    store.setMetricError(1 as ImageId, 'Missing image file');
+    store.setMetric(buildMetric(1, 28));
+    store.setMetric(buildMetric(2, 30));
+    store.finishCompute();
+
+    let state = useSplatComparisonStore.getState();
+    expect(state.metrics.get(1 as ImageId)?.psnr).toBe(28);
+    expect(state.metricErrors.size).toBe(0);
+    expect(state.computing).toBe(false);
+
+    store.setSourceLoading('c.spz');
+    state = useSplatComparisonStore.getState();
+    expect(state.metrics.size).toBe(0);
+  });
+
+  it('clamps the divider to the viewport', () => {
+    const store = useSplatComparisonStore.getState();
+    store.setSplitPosition(1.4);
+    expect(useSplatComparisonStore.getState().splitPosition).toBe(1);
+    store.setSplitPosition(Number.NaN);
+    expect(useSplatComparisonStore.getState().splitPosition).toBe(0.5);
+  });
+});
@@ -0,0 +1,110 @@
+import { create } from 'zustand';
+import type { ImageId } from '../../types/colmap';
+import type { SplatComparisonLayout } from '../types';
+import type { SplatPsnrMetric } from './imageMetricsStore';
+
+export type SplatComparisonSourceStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface SplatComparisonComputeRequest {
+  id: number;
+}
+
+export interface SplatComparisonState {
+  /** The comparison splat (B); the active splat is always A. */
+  sourceId: string | null;
+  /**
+   * B's bytes, held here rather than on its source: switching the active splat
+   * offloads re-fetchable sources, which must not unload the comparison.
+   */
+  file: File | null;
+  status: SplatComparisonSourceStatus;
+  error: string | null;
+  layout: SplatComparisonLayout;
+  /** Fraction of the viewport width showing A, left of the divider. */
+  splitPosition: number;
+  /** B's per-image metrics, measured with the same cameras and masks as A's. */
+  metrics: Map<ImageId, SplatPsnrMetric>;
+  metricErrors: Map<ImageId, string>;
+  computing: boolean;
+  computeRequest: SplatComparisonComputeRequest | null;
+
+  setSourceLoading: (sourceId: string) => void;
+  setSourceReady: (sourceId: string, file: File) => void;
+  setSourceError: (sourceId: string, error: string) => void;
+  setLayout: (layout: SplatComparisonLayout) => void;
+  setSplitPosition: (position: number) => void;
+  requestCompute: () => void;
+  startCompute: () => void;
+  setMetric: (metric: SplatPsnrMetric) => void;
+  setMetricError: (imageId: ImageId, error: string) => void;
+  finishCompute: () => void;
+  /** Drop the comparison splat and its metrics, e.g. when another dataset is loaded. */
+  reset: () => void;
+}
+
+const DEFAULT_SPLIT_POSITION = 0.5;
+
+const INITIAL_SPLAT_COMPARISON_STATE: Pick<
+  SplatComparisonState,
+  | 'sourceId'
+  | 'file'
+  | 'status'
+  | 'error'
+  | 'layout'
+  | 'splitPosition'
+  | 'metrics'
+  | 'metricErrors'
+  | 'computing'
+  | 'computeRequest'
+> = {
+  sourceId: null,
+  file: null,
+  status: 'idle',
+  error: null,
+  layout: 'split',
+  splitPosition: DEFAULT_SPLIT_POSITION,
+  metrics: new Map(),
+  metricErrors: new Map(),
+  computing: false,
+  computeRequest: null,
+};
+
+export const useSplatComparisonStore = create<SplatComparisonState>()((set) => ({
+  ...INITIAL_SPLAT_COMPARISON_STATE,
+
+  setSourceLoading: (sourceId) => set({
+    sourceId,
+    file: null,
+    status: 'loading',
+    error: null,
+    metrics: new Map(),
+    metricErrors: new Map(),
+    computing: false,
+  }),
+  setSourceReady: (sourceId, file) => set((state) => (
+    state.sourceId === sourceId ? { file, status: 'ready', error: null } : {}
+  )),
+  setSourceError: (sourceId, error) => set((state) => (
+    state.sourceId === sourceId ? { file: null, status: 'error', error } : {}
+  )),
+  setLayout: (layout) => set({ layout }),
+  setSplitPosition: (position) => set({
+    splitPosition: Number.isFinite(position) ? Math.max(0, Math.min(1, position)) : DEFAULT_SPLIT_POSITION,
+  }),
+  requestCompute: () => set((state) => ({
+    computeRequest: { id: (state.computeRequest?.id ?? 0) + 1 },
+  })),
+  startCompute: () => set({ metrics: new Map(), metricErrors: new Map(), computing: true }),
+  setMetric: (metric) => set((state) => {
+    const metricErrors = new Map(state.metricErrors);
+    metricErrors.delete(metric.imageId);
+    return { metrics: new Map(state.metrics).set(metric.imageId, metric), metricErrors };
+  }),
+  setMetricError: (imageId, error) => set((state) => {
+    const metrics = new Map(state.metrics);
+    metrics.delete(imageId);
+    return { metrics, metricErrors: new Map(state.metricErrors).set(imageId, error) };
+  }),
+  finishCompute: () => set({ computing: false }),
+  reset: () => set(INITIAL_SPLAT_COMPARISON_STATE),
+}));
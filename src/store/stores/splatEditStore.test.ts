@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getSplatEditSourceFile, selectSplatEditSettings, useSplatEditStore } from './splatEditStore';
+
+describe('splatEditStore', () => {
+  beforeEach(() => {
+    useSplatEditStore.getState().reset();
+  });
+
+  it('crops only while cropping is enabled and a box exists', () => {
+    const store = useSplatEditStore.getState();
+    store.setCropEnabled(true);
+    expect(selectSplatEditSettings(useSplatEditStore.getState()).crop).toBeNull();
+
+    store.setCropBox({ center: [0, 0, 0], size: [1, 1, 1], rotation: [0, 0, 0] });
+    store.setCropMode('oriented');
+    expect(selectSplatEditSettings(useSplatEditStore.getState()).crop?.mode).toBe('oriented');
+
+    store.setCropEnabled(false);
+    expect(selectSplatEditSettings(useSplatEditStore.getState()).crop).toBeNull();
+  });
+
+  it('edits from the original only while the edited copy is active', () => {
+    const originalFile = new File(['a'], 'scene.spz');
+    const editedFile = new File(['b'], 'scene-edited.spz');
+    const otherFile = new File(['c'], 'other.spz');
+    const appliedEdit = { originalFile, editedFile };
+
+    expect(getSplatEditSourceFile(appliedEdit, editedFile)).toBe(originalFile);
+    expect(getSplatEditSourceFile(appliedEdit, otherFile)).toBe(otherFile);
+    expect(getSplatEditSourceFile(null, otherFile)).toBe(otherFile);
+    expect(getSplatEditSourceFile(null, null)).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { create } from 'zustand';
+import type {
+  SplatCropBox,
+  SplatCropMode,
+  SplatEditSettings,
+  SplatExportFormat,
+} from '../../splat/splatEditSelection';
+
+export type { SplatCropBox, SplatCropMode, SplatExportFormat };
+
+export interface AppliedSplatEdit {
+  originalFile: File;
+  editedFile: File;
+}
+
+export interface SplatEditState {
+  cropEnabled: boolean;
+  cropMode: SplatCropMode;
+  /** Created from the splat's extent the first time cropping is enabled. */
+  cropBox: SplatCropBox | null;
+  minOpacity: number;
+  maxScale: number | null;
+  exportFormat: SplatExportFormat;
+  /**
+   * The edited copy shown in the view and the unedited file it came from.
+   * Edits are always recomputed from the original, so applying twice never
+   * compounds.
+   */
+  appliedEdit: AppliedSplatEdit | null;
+
+  setCropEnabled: (enabled: boolean) => void;
+  setCropMode: (mode: SplatCropMode) => void;
+  setCropBox: (box: SplatCropBox) => void;
+  setMinOpacity: (minOpacity: number) => void;
+  setMaxScale: (maxScale: number | null) => void;
+  setExportFormat: (format: SplatExportFormat) => void;
+  setAppliedEdit: (appliedEdit: AppliedSplatEdit | null) => void;
+  /** Drop all edit settings, e.g. when another splat or dataset is loaded. */
+  reset: () => void;
+}
+
+const INITIAL_SPLAT_EDIT_STATE: Pick<
+  SplatEditState,
+  'cropEnabled' | 'cropMode' | 'cropBox' | 'minOpacity' | 'maxScale' | 'exportFormat' | 'appliedEdit'
+> = {
+  cropEnabled: false,
+  cropMode: 'aabb',
+  cropBox: null,
+  minOpacity: 0,
+  maxScale: null,
+  exportFormat: 'spz',
+  appliedEdit: null,
+};
+
+export const useSplatEditStore = create<SplatEditState>()((set) => ({
+  ...INITIAL_SPLAT_EDIT_STATE,
+
+  setCropEnabled: (cropEnabled) => set({ cropEnabled }),
+  setCropMode: (cropMode) => set({ cropMode }),
+  setCropBox: (cropBox) => set({ cropBox }),
+  setMinOpacity: (minOpacity) => set({ minOpacity }),
+  setMaxScale: (maxScale) => set({ maxScale }),
+  setExportFormat: (exportFormat) => set({ exportFormat }),
+  setAppliedEdit: (appliedEdit) => set({ appliedEdit }),
+  reset: () => set(INITIAL_SPLAT_EDIT_STATE),
+}));
+
+export function selectSplatEditSettings(state: SplatEditState): SplatEditSettings {
+  return {
+    crop: state.cropEnabled && state.cropBox ? { mode: state.cropMode, box: state.cropBox } : null,
+    minOpacity: state.minOpacity,
+    maxScale: state.maxScale,
+  };
+}
+
+/**
+ * The file edits start from: the original behind an applied edit while that
+ * edit is still the active splat, otherwise the active splat itself.
+ */
+export function getSplatEditSourceFile(
+  appliedEdit: AppliedSplatEdit | null,
+  activeSplatFile: File | null
+): File | null {
+  if (appliedEdit && activeSplatFile === appliedEdit.editedFile) return appliedEdit.originalFile;
+  return activeSplatFile;
+}
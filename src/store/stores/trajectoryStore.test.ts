@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useTrajectoryStore } from './trajectoryStore';
+
+describe('trajectory store', () => {
+  beforeEach(() => {
+    useTrajectoryStore.setState(useTrajectoryStore.getInitialState(), true);
+    vi.spyOn(performance, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pauses at the position the clock reached', () => {
+    useTrajectoryStore.getState().play();
+    vi.mocked(performance.now).mockReturnValue(3000);
+    useTrajectoryStore.getState().pause();
+
+    expect(useTrajectoryStore.getState()).toMatchObject({ status: 'paused', position: 10 });
+  });
+
+  it('rebases the clock when the speed changes mid-playback', () => {
+    useTrajectoryStore.getState().play();
+    vi.mocked(performance.now).mockReturnValue(2000);
+    useTrajectoryStore.getState().setSpeed(100);
+
+    expect(useTrajectoryStore.getState()).toMatchObject({ speed: 60, position: 5, startTime: 2000 });
+  });
+
+  it('enters trajectory mode paused when seeking while stopped', () => {
+    useTrajectoryStore.getState().seek(3);
+    expect(useTrajectoryStore.getState()).toMatchObject({ status: 'paused', position: 3 });
+
+    useTrajectoryStore.getState().stop();
+    expect(useTrajectoryStore.getState()).toMatchObject({ status: 'stopped', position: 0 });
+  });
+
+  it('holds a finished trajectory paused on its end', () => {
+    useTrajectoryStore.getState().play();
+    useTrajectoryStore.getState().finish(7);
+
+    expect(useTrajectoryStore.getState()).toMatchObject({ status: 'paused', position: 7 });
+  });
+});
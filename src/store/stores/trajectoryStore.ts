@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import type { TrajectoryOrder } from '../types';
+import {
+  TRAJECTORY_MAX_SPEED,
+  TRAJECTORY_MIN_SPEED,
+  getTrajectoryRawPosition,
+  type TrajectoryPlaybackStatus,
+} from '../../utils/trajectoryPlaybackPolicy';
+
+export interface TrajectoryState {
+  order: TrajectoryOrder;
+  /** Images per second. */
+  speed: number;
+  loop: boolean;
+  /** Show the current image's photo over the 3D view while the trajectory is active. */
+  showPhoto: boolean;
+  status: TrajectoryPlaybackStatus;
+  /** Image-index position when playback last started, paused or was moved. */
+  position: number;
+  /** performance.now() when playback last started. */
+  startTime: number;
+
+  setOrder: (order: TrajectoryOrder) => void;
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: boolean) => void;
+  setShowPhoto: (showPhoto: boolean) => void;
+  play: () => void;
+  pause: () => void;
+  /** Move to a position, keeping playback running if it is. */
+  seek: (position: number) => void;
+  /** Hold at the end of a one-shot trajectory. */
+  finish: (position: number) => void;
+  /** Leave trajectory mode and hand the camera back. */
+  stop: () => void;
+}
+
+export const useTrajectoryStore = create<TrajectoryState>()((set) => ({
+  order: 'name',
+  speed: 5,
+  loop: false,
+  showPhoto: true,
+  status: 'stopped',
+  position: 0,
+  startTime: 0,
+
+  // A new order renumbers the images, so start over from the first one.
+  setOrder: (order) => set({ order, position: 0, startTime: performance.now() }),
+
+  // Rebase the clock so the change applies from the current position on.
+  setSpeed: (speed) => set((state) => {
+    const now = performance.now();
+    return {
+      speed: Math.min(TRAJECTORY_MAX_SPEED, Math.max(TRAJECTORY_MIN_SPEED, speed)),
+      position: getTrajectoryRawPosition(state, now),
+      startTime: now,
+    };
+  }),
+
+  setLoop: (loop) => set({ loop }),
+  setShowPhoto: (showPhoto) => set({ showPhoto }),
+
+  play: () => set({ status: 'playing', startTime: performance.now() }),
+
+  pause: () => set((state) => (
+    state.status === 'playing'
+      ? { status: 'paused', position: getTrajectoryRawPosition(state, performance.now()) }
+      : {}
+  )),
+
+  seek: (position) => set((state) => ({
+    position,
+    startTime: performance.now(),
+    status: state.status === 'stopped' ? 'paused' : state.status,
+  })),
+
+  finish: (position) => set({ status: 'paused', position }),
+
+  stop: () => set({ status: 'stopped', position: 0 }),
+}));
@@ -2,7 +2,15 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { STORAGE_KEYS } from '../migration';
 import { migrateUIPersistedState } from '../persistedStoreMigrations';
-import type { MatchesDisplayMode, AxesCoordinateSystem, AxisLabelMode } from '../types';
+import type {
+  MatchesDisplayMode,
+  MatchesSource,
+  AxesCoordinateSystem,
+  AxisLabelMode,
+  SplatErrorMapLayout,
+  SplatErrorMapView,
+} from '../types';
+import { SPLAT_ERROR_MAP_VIEWS } from '../types';
 import {
   DEFAULT_GALLERY_COLUMNS,
   type GalleryBorderColorModeSetting,
@@ -98,11 +106,18 @@ export interface UIState {
   showPoints2D: boolean;
   showPoints3D: boolean;
   showMatchesInModal: boolean;
+  /** Reprojection residual explorer in the image detail view. */
+  showReprojectionErrors: boolean;
+  /** Rendered/ground-truth/error panes for the visible splat in the image detail view. */
+  showSplatErrorMaps: boolean;
+  splatErrorMapViews: SplatErrorMapView[];
+  splatErrorMapLayout: SplatErrorMapLayout;
   matchedImageId: number | null;
 
   // Match visualization
   showMatches: boolean;
   matchesDisplayMode: MatchesDisplayMode;
+  matchesSource: MatchesSource;
   matchesOpacity: number;
   matchesColor: string;
   matchesLineWidth: number;
@@ -152,6 +167,18 @@ export interface UIState {
   showFloorModal: boolean;
   showConversionModal: boolean;
   showAutoHideEditor: boolean;
+  showCovisibilityGraph: boolean;
+  showReconstructionDiff: boolean;
+  showReferenceAlignment: boolean;
+  showGcp: boolean;
+  showIntrinsicsReport: boolean;
+  showPointEdit: boolean;
+  showSplatEdit: boolean;
+  showSplatCompare: boolean;
+  showSplatPathVideo: boolean;
+  showCameraPath: boolean;
+  showTrajectory: boolean;
+  showMeasurements: boolean;
 
   // Context menu (persisted config + transient state)
   contextMenuActions: ContextMenuAction[];
@@ -172,10 +199,15 @@ export interface UIState {
   setShowPoints2D: (show: boolean) => void;
   setShowPoints3D: (show: boolean) => void;
   setShowMatchesInModal: (show: boolean) => void;
+  setShowReprojectionErrors: (show: boolean) => void;
+  setShowSplatErrorMaps: (show: boolean) => void;
+  toggleSplatErrorMapView: (view: SplatErrorMapView) => void;
+  setSplatErrorMapLayout: (layout: SplatErrorMapLayout) => void;
   setMatchedImageId: (id: number | null) => void;
   setShowMatches: (show: boolean) => void;
   toggleMatches: () => void;
   setMatchesDisplayMode: (mode: MatchesDisplayMode) => void;
+  setMatchesSource: (source: MatchesSource) => void;
   setMatchesOpacity: (opacity: number) => void;
   setMatchesColor: (color: string) => void;
   setMatchesLineWidth: (lineWidth: number) => void;
@@ -217,6 +249,18 @@ export interface UIState {
   setShowFloorModal: (show: boolean) => void;
   setShowConversionModal: (show: boolean) => void;
   setShowAutoHideEditor: (show: boolean) => void;
+  setShowCovisibilityGraph: (show: boolean) => void;
+  setShowReconstructionDiff: (show: boolean) => void;
+  setShowReferenceAlignment: (show: boolean) => void;
+  setShowGcp: (show: boolean) => void;
+  setShowIntrinsicsReport: (show: boolean) => void;
+  setShowPointEdit: (show: boolean) => void;
+  setShowSplatEdit: (show: boolean) => void;
+  setShowSplatCompare: (show: boolean) => void;
+  setShowSplatPathVideo: (show: boolean) => void;
+  setShowCameraPath: (show: boolean) => void;
+  setShowTrajectory: (show: boolean) => void;
+  setShowMeasurements: (show: boolean) => void;
 
   // Context menu actions
   openContextMenu: (x: number, y: number) => void;
@@ -239,9 +283,14 @@ export const useUIStore = create<UIState>()(
       showPoints2D: false,
       showPoints3D: false,
       showMatchesInModal: false,
+      showReprojectionErrors: false,
+      showSplatErrorMaps: false,
+      splatErrorMapViews: [...SPLAT_ERROR_MAP_VIEWS],
+      splatErrorMapLayout: 'sideBySide',
       matchedImageId: null,
       showMatches: false,
       matchesDisplayMode: 'static',
+      matchesSource: 'triangulated',
       matchesOpacity: 0.7,
       matchesColor: '#ff00ff',
       matchesLineWidth: 1,
@@ -282,6 +331,18 @@ export const useUIStore = create<UIState>()(
       showFloorModal: false,
       showConversionModal: false,
       showAutoHideEditor: false,
+      showCovisibilityGraph: false,
+      showReconstructionDiff: false,
+      showReferenceAlignment: false,
+      showGcp: false,
+      showIntrinsicsReport: false,
+      showPointEdit: false,
+      showSplatEdit: false,
+      showSplatCompare: false,
+      showSplatPathVideo: false,
+      showCameraPath: false,
+      showTrajectory: false,
+      showMeasurements: false,
       contextMenuActions: DEFAULT_CONTEXT_MENU_ACTIONS,
       contextMenuPosition: null,
       showContextMenuEditor: false,
@@ -295,10 +356,24 @@ export const useUIStore = create<UIState>()(
       setShowPoints2D: (showPoints2D) => set({ showPoints2D }),
       setShowPoints3D: (showPoints3D) => set({ showPoints3D }),
       setShowMatchesInModal: (showMatchesInModal) => set({ showMatchesInModal, matchedImageId: null }),
+      setShowReprojectionErrors: (showReprojectionErrors) => set({ showReprojectionErrors }),
+      setShowSplatErrorMaps: (showSplatErrorMaps) => set({ showSplatErrorMaps }),
+      toggleSplatErrorMapView: (view) => set((state) => {
+        const enabled = state.splatErrorMapViews.includes(view);
+        // Keep at least one pane so the view never renders empty.
+        if (enabled && state.splatErrorMapViews.length === 1) return {};
+        return {
+          splatErrorMapViews: SPLAT_ERROR_MAP_VIEWS.filter((candidate) =>
+            candidate === view ? !enabled : state.splatErrorMapViews.includes(candidate)
+          ),
+        };
+      }),
+      setSplatErrorMapLayout: (splatErrorMapLayout) => set({ splatErrorMapLayout }),
       setMatchedImageId: (matchedImageId) => set({ matchedImageId }),
       setShowMatches: (showMatches) => set({ showMatches }),
       toggleMatches: () => set((state) => ({ showMatches: !state.showMatches })),
       setMatchesDisplayMode: (matchesDisplayMode) => set({ matchesDisplayMode }),
+      setMatchesSource: (matchesSource) => set({ matchesSource }),
       setMatchesOpacity: (matchesOpacity) => set({ matchesOpacity }),
       setMatchesColor: (matchesColor) => set({ matchesColor }),
       setMatchesLineWidth: (matchesLineWidth) => set({ matchesLineWidth }),
@@ -351,6 +426,18 @@ export const useUIStore = create<UIState>()(
       setShowFloorModal: (show) => set({ showFloorModal: show }),
       setShowConversionModal: (show) => set({ showConversionModal: show }),
       setShowAutoHideEditor: (show) => set({ showAutoHideEditor: show }),
+      setShowCovisibilityGraph: (show) => set({ showCovisibilityGraph: show }),
+      setShowReconstructionDiff: (show) => set({ showReconstructionDiff: show }),
+      setShowReferenceAlignment: (show) => set({ showReferenceAlignment: show }),
+      setShowGcp: (show) => set({ showGcp: show }),
+      setShowIntrinsicsReport: (show) => set({ showIntrinsicsReport: show }),
+      setShowPointEdit: (show) => set({ showPointEdit: show }),
+      setShowSplatEdit: (show) => set({ showSplatEdit: show }),
+      setShowSplatCompare: (show) => set({ showSplatCompare: show }),
+      setShowSplatPathVideo: (show) => set({ showSplatPathVideo: show }),
+      setShowCameraPath: (show) => set({ showCameraPath: show }),
+      setShowTrajectory: (show) => set({ showTrajectory: show }),
+      setShowMeasurements: (show) => set({ showMeasurements: show }),
 
       // Context menu actions
       openContextMenu: (x, y) => set({ contextMenuPosition: { x, y } }),
@@ -381,6 +468,7 @@ export const useUIStore = create<UIState>()(
         showPoints3D: state.showPoints3D,
         showMatches: state.showMatches,
         matchesDisplayMode: state.matchesDisplayMode,
+        matchesSource: state.matchesSource,
         matchesOpacity: state.matchesOpacity,
         matchesColor: state.matchesColor,
         matchesLineWidth: state.matchesLineWidth,
@@ -39,7 +39,14 @@ export type HorizonLockMode = (typeof HORIZON_LOCK_MODES)[number];
 export const CAMERA_DISPLAY_MODES = ['frustum', 'arrow', 'imageplane'] as const;
 export type CameraDisplayMode = (typeof CAMERA_DISPLAY_MODES)[number];
 
-export const FRUSTUM_COLOR_MODES = ['single', 'byCamera', 'byRigFrame', 'splatPsnr', 'splatSsim'] as const;
+export const FRUSTUM_COLOR_MODES = [
+  'single',
+  'byCamera',
+  'byRigFrame',
+  'splatPsnr',
+  'splatSsim',
+  'splatPsnrDelta',
+] as const;
 export type FrustumColorMode = (typeof FRUSTUM_COLOR_MODES)[number];
 
 export const CAMERA_SCALE_FACTORS = ['0.1', '1', '10'] as const;
@@ -52,6 +59,21 @@ export type UndistortionMode = (typeof UNDISTORTION_MODES)[number];
 export const MATCHES_DISPLAY_MODES = ['static', 'blink'] as const;
 export type MatchesDisplayMode = (typeof MATCHES_DISPLAY_MODES)[number];
 
+/** Where match connections come from: reconstruction tracks, or the dropped database.db. */
+export const MATCHES_SOURCES = ['triangulated', 'verified', 'raw'] as const;
+export type MatchesSource = (typeof MATCHES_SOURCES)[number];
+
+/** Panes of the image-detail splat error view, in display order. */
+export const SPLAT_ERROR_MAP_VIEWS = ['rendered', 'groundTruth', 'difference', 'ssim'] as const;
+export type SplatErrorMapView = (typeof SPLAT_ERROR_MAP_VIEWS)[number];
+
+export const SPLAT_ERROR_MAP_LAYOUTS = ['sideBySide', 'swipe'] as const;
+export type SplatErrorMapLayout = (typeof SPLAT_ERROR_MAP_LAYOUTS)[number];
+
+/** How the 3D view shows the comparison splat (B) next to the active one (A). */
+export const SPLAT_COMPARISON_LAYOUTS = ['split', 'swipe'] as const;
+export type SplatComparisonLayout = (typeof SPLAT_COMPARISON_LAYOUTS)[number];
+
 export const SELECTION_COLOR_MODES = ['static', 'blink', 'rainbow'] as const;
 export type SelectionColorMode = (typeof SELECTION_COLOR_MODES)[number];
 
@@ -104,6 +126,35 @@ export interface CameraViewState {
   distance: number;
 }
 
+/** Easing applied within each camera path segment, from one keyframe to the next. */
+export const CAMERA_PATH_EASINGS = ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const;
+export type CameraPathEasing = (typeof CAMERA_PATH_EASINGS)[number];
+
+// Fly-through keyframe: a saved view and how the path arrives at it
+export interface CameraPathKeyframe {
+  id: number;
+  view: CameraViewState;
+  duration: number; // Seconds from the previous keyframe (unused on the first)
+  easing: CameraPathEasing; // Easing of the segment arriving at this keyframe
+}
+
+/** Kinds of measurement: point count and value depend on the kind. */
+export const MEASUREMENT_TYPES = ['distance', 'polyline', 'area', 'angle', 'height'] as const;
+export type MeasurementType = (typeof MEASUREMENT_TYPES)[number];
+
+// A measurement placed on the point cloud. Points are in model coordinates
+// (before the active transform) so they stay attached to the data.
+export interface Measurement {
+  id: number;
+  name: string;
+  type: MeasurementType;
+  points: [number, number, number][];
+}
+
+/** Order the trajectory player steps through the images in. */
+export const TRAJECTORY_ORDERS = ['name', 'frameId'] as const;
+export type TrajectoryOrder = (typeof TRAJECTORY_ORDERS)[number];
+
 // Navigation history entry tracks where we came from and what we flew to
 export interface NavigationHistoryEntry {
   fromState: CameraViewState;
@@ -0,0 +1,88 @@
+import type { Camera, CameraId, ImageId } from './colmap';
+
+/**
+ * Two-view geometry configuration types matching COLMAP's
+ * TwoViewGeometry::ConfigurationType enum (stored in two_view_geometries.config).
+ */
+export const TwoViewGeometryConfig = {
+  UNDEFINED: 0,
+  DEGENERATE: 1,
+  CALIBRATED: 2,
+  UNCALIBRATED: 3,
+  PLANAR: 4,
+  PANORAMIC: 5,
+  PLANAR_OR_PANORAMIC: 6,
+  WATERMARK: 7,
+  MULTIPLE: 8,
+} as const;
+
+export type TwoViewGeometryConfig = (typeof TwoViewGeometryConfig)[keyof typeof TwoViewGeometryConfig];
+
+/** Per-image row of the database `images` table joined with keypoint/descriptor metadata. */
+export interface DatabaseImage {
+  imageId: ImageId;
+  name: string;
+  cameraId: CameraId;
+  /** Row count of the `keypoints` blob (0 when no features were extracted). */
+  numKeypoints: number;
+  /** Row count of the `descriptors` blob. */
+  numDescriptors: number;
+  /** Descriptor dimensionality (e.g. 128 for SIFT), 0 when unknown. */
+  descriptorDim: number;
+}
+
+/**
+ * Summary of one image pair from the `matches` and `two_view_geometries` tables.
+ * imageId1 < imageId2, as COLMAP stores pairs.
+ */
+export interface DatabaseImagePair {
+  imageId1: ImageId;
+  imageId2: ImageId;
+  /** Raw descriptor matches (0 when the pair has no `matches` row). */
+  numMatches: number;
+  /** Geometrically verified inlier matches (0 when the pair was not verified). */
+  numInliers: number;
+  /** Two-view geometry config, or null when the pair has no `two_view_geometries` row. */
+  config: TwoViewGeometryConfig | null;
+}
+
+/** Lookup from an image to its database pair partners. */
+export type DatabasePairIndex = Map<ImageId, Map<ImageId, DatabaseImagePair>>;
+
+/** Eagerly-loaded table metadata; keypoint and match blobs are read on demand. */
+export interface ColmapDatabaseSummary {
+  cameras: Map<CameraId, Camera>;
+  images: Map<ImageId, DatabaseImage>;
+  pairs: DatabaseImagePair[];
+}
+
+/** Keypoint locations for one image, as interleaved x, y pixel coordinates. */
+export interface DatabaseKeypoints {
+  imageId: ImageId;
+  xy: Float32Array;
+}
+
+/** Relative pose and model matrices stored with a verified two-view geometry. */
+export interface DatabaseTwoViewGeometry {
+  config: TwoViewGeometryConfig;
+  /** Row-major 3x3 fundamental matrix, null when not stored. */
+  F: number[] | null;
+  /** Row-major 3x3 essential matrix, null when not stored. */
+  E: number[] | null;
+  /** Row-major 3x3 homography, null when not stored. */
+  H: number[] | null;
+  qvec: [number, number, number, number] | null;
+  tvec: [number, number, number] | null;
+}
+
+/**
+ * Match blobs for one pair, oriented to the requested image order: every
+ * match is an interleaved (keypoint index in imageId1, keypoint index in imageId2).
+ */
+export interface DatabasePairMatches {
+  imageId1: ImageId;
+  imageId2: ImageId;
+  rawMatches: Uint32Array;
+  inlierMatches: Uint32Array;
+  geometry: DatabaseTwoViewGeometry | null;
+}
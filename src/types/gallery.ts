@@ -28,6 +28,7 @@ export const GALLERY_SORT_FIELDS = [
   'numPoints2D',
   'splatPsnr',
   'splatSsim',
+  'splatPsnrDelta',
 ] as const;
 export type GallerySortField = (typeof GALLERY_SORT_FIELDS)[number];
 
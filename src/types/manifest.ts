@@ -48,7 +48,10 @@ export interface ColmapManifest {
   images?: string[];
   /** Optional explicit array of mask file paths (overrides masksPath inference) */
   masks?: string[];
-  /** Optional explicit array of splat `.spz`/`.ply` file paths; SPZ is preferred over PLY. */
+  /**
+   * Optional explicit array of splat file paths (`.spz`, `.rad`, `.ksplat`,
+   * `.splat`, `.ply`); compact formats are preferred over PLY.
+   */
   splats?: string[];
 }
 
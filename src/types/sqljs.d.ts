@@ -0,0 +1,29 @@
+/**
+ * Type declarations for sql.js (only the surface the COLMAP database reader uses)
+ */
+
+declare module 'sql.js' {
+  export type SqlValue = number | string | Uint8Array | null;
+
+  export interface QueryExecResult {
+    columns: string[];
+    values: SqlValue[][];
+  }
+
+  export interface Database {
+    exec(sql: string, params?: SqlValue[]): QueryExecResult[];
+    run(sql: string, params?: SqlValue[]): Database;
+    export(): Uint8Array;
+    close(): void;
+  }
+
+  export interface SqlJsStatic {
+    Database: new (data?: ArrayLike<number> | null) => Database;
+  }
+
+  export interface SqlJsConfig {
+    locateFile?: (file: string) => string;
+  }
+
+  export default function initSqlJs(config?: SqlJsConfig): Promise<SqlJsStatic>;
+}
@@ -69,7 +69,7 @@ function unprojectPoint(
  * coordinates by delegating distortion application to the canonical
  * `distortNormalized` from `cameraUndistortion.ts`.
  */
-function projectPoint(
+export function projectPoint(
   camera: Camera,
   nx: number,
   ny: number
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCamera,
+  buildImage,
+  buildPoint2D,
+  buildPoint3D,
+  buildReconstruction,
+} from '../test/builders';
+import { CameraModelId } from '../types/colmap';
+import {
+  canRefitCameraModel,
+  collectObservationSamples,
+  getInitialRefitParams,
+  getRefitRms,
+  refitCameraModel,
+  sampleDistortionField,
+} from './cameraModelRefit';
+
+const fisheye = buildCamera({
+  modelId: CameraModelId.OPENCV_FISHEYE,
+  width: 640,
+  height: 480,
+  params: [500, 500, 320, 240, 0.05, -0.01, 0, 0],
+});
+
+describe('canRefitCameraModel', () => {
+  it('needs pinhole intrinsics on both sides', () => {
+    expect(canRefitCameraModel(CameraModelId.OPENCV_FISHEYE, CameraModelId.FULL_OPENCV)).toBe(true);
+    expect(canRefitCameraModel(CameraModelId.OPENCV, CameraModelId.OPENCV)).toBe(false);
+    expect(canRefitCameraModel(CameraModelId.EQUIRECTANGULAR, CameraModelId.PINHOLE)).toBe(false);
+  });
+});
+
+describe('getInitialRefitParams', () => {
+  it('starts from the analytic conversion where one exists', () => {
+    const camera = buildCamera({ modelId: CameraModelId.SIMPLE_RADIAL, params: [500, 320, 240, 0.1] });
+    expect(getInitialRefitParams(camera, CameraModelId.RADIAL)).toEqual([500, 320, 240, 0.1, 0]);
+  });
+
+  it('seeds focal length and principal point with zero distortion otherwise', () => {
+    expect(getInitialRefitParams(fisheye, CameraModelId.FULL_OPENCV)).toEqual([
+      500, 500, 320, 240, 0, 0, 0, 0, 0, 0, 0, 0,
+    ]);
+  });
+});
+
+describe('sampleDistortionField', () => {
+  it('samples a grid whose rays the source model projects back onto their pixels', () => {
+    const samples = sampleDistortionField(fisheye, 8, 6);
+    expect(samples).toHaveLength(9 * 7);
+    expect(getRefitRms(fisheye.modelId, fisheye.params, samples)).toBeLessThan(1e-6);
+  });
+});
+
+describe('refitCameraModel', () => {
+  it('fits a perspective model to a fisheye far better than the analytic starting point', () => {
+    const samples = sampleDistortionField(fisheye);
+    const result = refitCameraModel(fisheye, CameraModelId.FULL_OPENCV, samples)!;
+
+    expect(result.sampleCount).toBe(samples.length);
+    expect(result.initialRms).toBeGreaterThan(5);
+    expect(result.rms).toBeLessThan(0.5);
+    expect(result.rms).toBeCloseTo(getRefitRms(CameraModelId.FULL_OPENCV, result.params, samples), 10);
+  });
+
+  it('recovers the parameters that produced the samples', () => {
+    const truth = buildCamera({
+      modelId: CameraModelId.OPENCV,
+      params: [520, 510, 322, 238, -0.12, 0.03, 0.001, -0.0005],
+    });
+    const samples = sampleDistortionField(truth);
+    const start = [500, 500, 320, 240, 0, 0, 0, 0];
+
+    const result = refitCameraModel(truth, CameraModelId.OPENCV, samples, start)!;
+
+    expect(result.initialRms).toBeGreaterThan(1);
+    expect(result.rms).toBeLessThan(1e-4);
+    result.params.forEach((value, i) => expect(value).toBeCloseTo(truth.params[i], 3));
+  });
+
+  it('needs at least as many residuals as parameters', () => {
+    const samples = sampleDistortionField(fisheye).slice(0, 2);
+    expect(refitCameraModel(fisheye, CameraModelId.FULL_OPENCV, samples)).toBeNull();
+  });
+});
+
+describe('collectObservationSamples', () => {
+  it('pairs keypoints with rays to their 3D points in the camera frame', () => {
+    const reconstruction = buildReconstruction({
+      images: [
+        buildImage({
+          imageId: 1,
+          tvec: [0, 0, 1],
+          points2D: [
+            buildPoint2D({ xy: [420, 290], point3DId: 1n }),
+            buildPoint2D({ xy: [10, 10] }),
+            buildPoint2D({ xy: [50, 50], point3DId: 2n }),
+          ],
+        }),
+      ],
+      points3D: [
+        buildPoint3D({ point3DId: 1n, xyz: [0.4, 0.2, 1] }),
+        buildPoint3D({ point3DId: 2n, xyz: [0, 0, -3] }),
+      ],
+    });
+
+    const samples = collectObservationSamples(reconstruction, () => [], null).get(1)!;
+
+    // The untriangulated keypoint and the point behind the camera are skipped.
+    expect(samples).toHaveLength(1);
+    expect(samples[0].ray[0]).toBeCloseTo(0.2);
+    expect(samples[0].ray[1]).toBeCloseTo(0.1);
+    expect(samples[0].pixel).toEqual([420, 290]);
+  });
+
+  it('thins large observation sets evenly', () => {
+    const points2D = Array.from({ length: 10 }, (_, i) => buildPoint2D({ xy: [i, i], point3DId: 1n }));
+    const reconstruction = buildReconstruction({
+      images: [buildImage({ tvec: [0, 0, 1], points2D })],
+      points3D: [buildPoint3D({ point3DId: 1n, xyz: [0, 0, 1] })],
+    });
+
+    const samples = collectObservationSamples(reconstruction, () => [], null, 5).get(1)!;
+
+    expect(samples.map((sample) => sample.pixel[0])).toEqual([0, 2, 4, 6, 8]);
+  });
+});
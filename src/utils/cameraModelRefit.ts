@@ -0,0 +1,332 @@
+/**
+ * Least-squares refitting of a camera to another model. Where the analytic
+ * conversions in `cameraModelConversions` are lossy or impossible, the target
+ * model's parameters are solved with Levenberg–Marquardt so it projects the
+ * same rays to the same pixels: either rays sampled over the image through
+ * the source model's distortion field, or the camera's observed keypoints
+ * and their triangulated 3D points.
+ */
+
+import * as THREE from 'three';
+import type { Camera, CameraId, Image, Point2D, Point3DId, Reconstruction } from '../types/colmap';
+import { CameraModelId, UNMATCHED_POINT3D_ID } from '../types/colmap';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { convertCameraModel } from './cameraModelConversions';
+import {
+  cameraModelHasPinholeIntrinsics,
+  getCameraModelNumParams,
+  getCameraModelParamNames,
+} from './cameraModelRegistry';
+import { distortNormalized, undistortNormalized } from './cameraUndistortion';
+import { collectPoint3DPositions, type Point3DPositionSource } from './reprojectionErrors';
+
+export const CAMERA_REFIT_SOURCES = ['distortionField', 'observations'] as const;
+export type CameraRefitSource = (typeof CAMERA_REFIT_SOURCES)[number];
+
+/** A ray in undistorted normalized coordinates and the pixel it must project to. */
+export interface CameraRefitSample {
+  ray: [number, number];
+  pixel: [number, number];
+}
+
+export interface CameraRefitResult {
+  params: number[];
+  /** RMS pixel deviation of the source camera itself (zero for the distortion field). */
+  sourceRms: number;
+  /** RMS pixel deviation of the starting parameters: the analytic conversion where one exists. */
+  initialRms: number;
+  /** RMS pixel deviation of the refit parameters. */
+  rms: number;
+  sampleCount: number;
+  iterations: number;
+}
+
+export const REFIT_GRID_COLS = 32;
+export const REFIT_GRID_ROWS = 24;
+/** Observations beyond this are thinned evenly to keep the solve interactive. */
+export const REFIT_MAX_SAMPLES = 4000;
+const REFIT_MAX_ITERATIONS = 100;
+const REFIT_INITIAL_DAMPING = 1e-3;
+const REFIT_CONVERGENCE_TOL = 1e-12;
+
+/** Whether `from` can be refit to `to`: both need a focal length and principal point. */
+export function canRefitCameraModel(from: CameraModelId, to: CameraModelId): boolean {
+  return from !== to && cameraModelHasPinholeIntrinsics(from) && cameraModelHasPinholeIntrinsics(to);
+}
+
+function projectRay(modelId: CameraModelId, params: readonly number[], ray: readonly [number, number]): [number, number] {
+  const intrinsics = getCameraIntrinsics({ cameraId: 0, modelId, width: 0, height: 0, params: [...params] });
+  const distorted = distortNormalized({ x: ray[0], y: ray[1] }, intrinsics, modelId);
+  return [intrinsics.fx * distorted.x + intrinsics.cx, intrinsics.fy * distorted.y + intrinsics.cy];
+}
+
+function computeResiduals(
+  modelId: CameraModelId,
+  params: readonly number[],
+  samples: readonly CameraRefitSample[],
+  out: Float64Array
+): number {
+  let cost = 0;
+  samples.forEach(({ ray, pixel }, i) => {
+    const [x, y] = projectRay(modelId, params, ray);
+    const dx = Number.isFinite(x) ? x - pixel[0] : 1e6;
+    const dy = Number.isFinite(y) ? y - pixel[1] : 1e6;
+    out[i * 2] = dx;
+    out[i * 2 + 1] = dy;
+    cost += dx * dx + dy * dy;
+  });
+  return cost;
+}
+
+/** Root mean square pixel distance between projected samples and their pixels. */
+export function getRefitRms(
+  modelId: CameraModelId,
+  params: readonly number[],
+  samples: readonly CameraRefitSample[]
+): number {
+  if (samples.length === 0) return 0;
+  const residuals = new Float64Array(samples.length * 2);
+  return Math.sqrt(computeResiduals(modelId, params, samples, residuals) / samples.length);
+}
+
+/**
+ * Rays through a grid of pixels spanning the image, undistorted by the
+ * source model. Pixels outside the model's valid domain are left out.
+ */
+export function sampleDistortionField(
+  camera: Camera,
+  cols = REFIT_GRID_COLS,
+  rows = REFIT_GRID_ROWS
+): CameraRefitSample[] {
+  if (!cameraModelHasPinholeIntrinsics(camera.modelId)) return [];
+  const intrinsics = getCameraIntrinsics(camera);
+  const samples: CameraRefitSample[] = [];
+  for (let row = 0; row <= rows; row++) {
+    for (let col = 0; col <= cols; col++) {
+      const px = (col / cols) * camera.width;
+      const py = (row / rows) * camera.height;
+      const ray = undistortNormalized(
+        { x: (px - intrinsics.cx) / intrinsics.fx, y: (py - intrinsics.cy) / intrinsics.fy },
+        intrinsics,
+        camera.modelId
+      );
+      if (ray.valid && Number.isFinite(ray.x) && Number.isFinite(ray.y)) {
+        samples.push({ ray: [ray.x, ray.y], pixel: [px, py] });
+      }
+    }
+  }
+  return samples;
+}
+
+function thinSamples(samples: CameraRefitSample[], maxSamples: number): CameraRefitSample[] {
+  if (samples.length <= maxSamples) return samples;
+  const stride = samples.length / maxSamples;
+  return Array.from({ length: maxSamples }, (_, i) => samples[Math.floor(i * stride)]);
+}
+
+/**
+ * Observed keypoints of every image, paired with the rays to their
+ * triangulated 3D points in that image's camera frame, grouped by camera.
+ * `loadPoints2D` supplies the keypoints of images loaded without them.
+ */
+export function collectObservationSamples(
+  reconstruction: Pick<Reconstruction, 'images' | 'points3D'>,
+  loadPoints2D: (image: Image) => readonly Point2D[],
+  wasm: Point3DPositionSource | null,
+  maxSamplesPerCamera = REFIT_MAX_SAMPLES
+): Map<CameraId, CameraRefitSample[]> {
+  const keypoints: { image: Image; points2D: readonly Point2D[] }[] = [];
+  const point3DIds = new Set<Point3DId>();
+  for (const image of reconstruction.images.values()) {
+    const points2D = image.points2D.length > 0 ? image.points2D : loadPoints2D(image);
+    for (const point of points2D) {
+      if (point.point3DId !== UNMATCHED_POINT3D_ID) point3DIds.add(point.point3DId);
+    }
+    keypoints.push({ image, points2D });
+  }
+  const positions = collectPoint3DPositions(point3DIds, reconstruction.points3D, wasm);
+
+  const samplesByCamera = new Map<CameraId, CameraRefitSample[]>();
+  const rotation = new THREE.Quaternion();
+  const cameraPoint = new THREE.Vector3();
+  for (const { image, points2D } of keypoints) {
+    rotation.set(image.qvec[1], image.qvec[2], image.qvec[3], image.qvec[0]);
+    const samples = samplesByCamera.get(image.cameraId) ?? [];
+    for (const point of points2D) {
+      const xyz = positions.get(point.point3DId);
+      if (!xyz) continue;
+      cameraPoint.set(xyz[0], xyz[1], xyz[2]).applyQuaternion(rotation);
+      cameraPoint.x += image.tvec[0];
+      cameraPoint.y += image.tvec[1];
+      cameraPoint.z += image.tvec[2];
+      if (cameraPoint.z <= 0) continue;
+      samples.push({ ray: [cameraPoint.x / cameraPoint.z, cameraPoint.y / cameraPoint.z], pixel: [point.xy[0], point.xy[1]] });
+    }
+    samplesByCamera.set(image.cameraId, samples);
+  }
+
+  for (const [cameraId, samples] of samplesByCamera) {
+    samplesByCamera.set(cameraId, thinSamples(samples, maxSamplesPerCamera));
+  }
+  return samplesByCamera;
+}
+
+/**
+ * Starting parameters for a refit: the analytic conversion where the pair
+ * has one, otherwise the source focal length and principal point with every
+ * distortion coefficient at zero.
+ */
+export function getInitialRefitParams(camera: Camera, targetModelId: CameraModelId): number[] {
+  const converted = convertCameraModel(camera, targetModelId);
+  if (converted.type !== 'incompatible') return converted.params;
+
+  const { fx, fy, cx, cy } = getCameraIntrinsics(camera);
+  return getCameraModelParamNames(targetModelId).map((name) => {
+    switch (name) {
+      case 'f': return (fx + fy) / 2;
+      case 'fx': return fx;
+      case 'fy': return fy;
+      case 'cx': return cx;
+      case 'cy': return cy;
+      default: return 0;
+    }
+  });
+}
+
+/** Solve A x = b in place by Gaussian elimination with partial pivoting. */
+function solveLinearSystem(a: Float64Array, b: Float64Array, n: number): Float64Array | null {
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) pivot = row;
+    }
+    if (Math.abs(a[pivot * n + col]) < 1e-300) return null;
+    if (pivot !== col) {
+      for (let k = 0; k < n; k++) {
+        const tmp = a[col * n + k];
+        a[col * n + k] = a[pivot * n + k];
+        a[pivot * n + k] = tmp;
+      }
+      const tmp = b[col];
+      b[col] = b[pivot];
+      b[pivot] = tmp;
+    }
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row * n + col] / a[col * n + col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) a[row * n + k] -= factor * a[col * n + k];
+      b[row] -= factor * b[col];
+    }
+  }
+  const x = new Float64Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row * n + k] * x[k];
+    x[row] = sum / a[row * n + row];
+  }
+  return x;
+}
+
+/**
+ * Fit `targetModelId` to the samples with Levenberg–Marquardt, starting from
+ * `initialParams`. Jacobians are forward differences, and the damping is
+ * scaled by the diagonal of JᵀJ so focal lengths and distortion coefficients
+ * of very different magnitudes converge together. Returns null when there
+ * are fewer residuals than parameters.
+ */
+export function refitCameraModel(
+  camera: Camera,
+  targetModelId: CameraModelId,
+  samples: readonly CameraRefitSample[],
+  initialParams: readonly number[] = getInitialRefitParams(camera, targetModelId)
+): CameraRefitResult | null {
+  const paramCount = getCameraModelNumParams(targetModelId);
+  if (!cameraModelHasPinholeIntrinsics(camera.modelId) || !cameraModelHasPinholeIntrinsics(targetModelId)) return null;
+  if (samples.length * 2 < paramCount || initialParams.length !== paramCount) return null;
+
+  const residualCount = samples.length * 2;
+  const residuals = new Float64Array(residualCount);
+  const trialResiduals = new Float64Array(residualCount);
+  const jacobian = new Float64Array(residualCount * paramCount);
+  const params = [...initialParams];
+  let cost = computeResiduals(targetModelId, params, samples, residuals);
+  const initialCost = cost;
+  let damping = REFIT_INITIAL_DAMPING;
+  let iterations = 0;
+
+  for (; iterations < REFIT_MAX_ITERATIONS; iterations++) {
+    for (let j = 0; j < paramCount; j++) {
+      const step = 1e-7 * Math.max(1, Math.abs(params[j]));
+      const original = params[j];
+      params[j] = original + step;
+      computeResiduals(targetModelId, params, samples, trialResiduals);
+      params[j] = original;
+      for (let i = 0; i < residualCount; i++) {
+        jacobian[i * paramCount + j] = (trialResiduals[i] - residuals[i]) / step;
+      }
+    }
+
+    const jtj = new Float64Array(paramCount * paramCount);
+    const jtr = new Float64Array(paramCount);
+    for (let i = 0; i < residualCount; i++) {
+      const row = i * paramCount;
+      for (let j = 0; j < paramCount; j++) {
+        const value = jacobian[row + j];
+        if (value === 0) continue;
+        jtr[j] += value * residuals[i];
+        for (let k = j; k < paramCount; k++) jtj[j * paramCount + k] += value * jacobian[row + k];
+      }
+    }
+    for (let j = 0; j < paramCount; j++) {
+      for (let k = 0; k < j; k++) jtj[j * paramCount + k] = jtj[k * paramCount + j];
+    }
+
+    let improved = false;
+    while (damping < 1e16) {
+      const system = Float64Array.from(jtj);
+      const rhs = new Float64Array(paramCount);
+      for (let j = 0; j < paramCount; j++) {
+        system[j * paramCount + j] += damping * Math.max(jtj[j * paramCount + j], 1e-12);
+        rhs[j] = -jtr[j];
+      }
+      const delta = solveLinearSystem(system, rhs, paramCount);
+      if (!delta) {
+        damping *= 10;
+        continue;
+      }
+      const trial = params.map((value, j) => value + delta[j]);
+      const trialCost = computeResiduals(targetModelId, trial, samples, trialResiduals);
+      if (Number.isFinite(trialCost) && trialCost < cost) {
+        const decrease = cost - trialCost;
+        params.splice(0, paramCount, ...trial);
+        residuals.set(trialResiduals);
+        cost = trialCost;
+        damping = Math.max(damping / 10, 1e-12);
+        improved = decrease > REFIT_CONVERGENCE_TOL * Math.max(1, trialCost);
+        break;
+      }
+      damping *= 10;
+    }
+    if (!improved) break;
+  }
+
+  return {
+    params,
+    sourceRms: getRefitRms(camera.modelId, camera.params, samples),
+    initialRms: Math.sqrt(initialCost / samples.length),
+    rms: Math.sqrt(cost / samples.length),
+    sampleCount: samples.length,
+    iterations,
+  };
+}
+
+/** Refit samples of `camera` from the chosen source. */
+export function getCameraRefitSamples(
+  camera: Camera,
+  source: CameraRefitSource,
+  observationSamples: ReadonlyMap<CameraId, CameraRefitSample[]> | null
+): CameraRefitSample[] {
+  return source === 'distortionField'
+    ? sampleDistortionField(camera)
+    : observationSamples?.get(camera.cameraId) ?? [];
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { CameraModelId } from '../types/colmap';
+import { buildCamera, buildImage, buildReconstruction } from '../test/builders';
+import {
+  createCameraPathThreeCamera,
+  getCameraPathFrameCount,
+  getColmapImageCameraPathKeyframes,
+  sampleCameraPath,
+  type CameraPathPose,
+} from './cameraPathPolicy';
+
+function pose(x: number, fovY = 50): CameraPathPose {
+  return { position: [x, 0, 0], quaternion: [0, 0, 0, 1], fovY };
+}
+
+describe('cameraPathPolicy', () => {
+  it('places keyframes at the image poses in name order', () => {
+    const reconstruction = buildReconstruction({
+      cameras: [
+        buildCamera({ cameraId: 1 }),
+        buildCamera({ cameraId: 2, modelId: CameraModelId.EQUIRECTANGULAR, params: [640, 480] }),
+      ],
+      images: [
+        buildImage({ imageId: 1, name: 'c.jpg', tvec: [0, 0, -3] }),
+        buildImage({ imageId: 2, name: 'a.jpg', tvec: [0, 0, -1] }),
+        buildImage({ imageId: 3, name: 'b.jpg', cameraId: 2 }),
+        buildImage({ imageId: 4, name: 'b2.jpg', tvec: [0, 0, -2] }),
+      ],
+    });
+
+    const keyframes = getColmapImageCameraPathKeyframes(reconstruction);
+
+    expect(keyframes.map((keyframe) => keyframe.position[2])).toEqual([1, 2, 3]);
+    expect(keyframes[0].quaternion[0]).toBeCloseTo(1);
+    expect(keyframes[0].quaternion[3]).toBeCloseTo(0);
+    expect(keyframes[0].fovY).toBeCloseTo(2 * Math.atan(480 / 1000) * 180 / Math.PI);
+    expect(getColmapImageCameraPathKeyframes(reconstruction, { stride: 2 })).toHaveLength(2);
+  });
+
+  it('applies the reconstruction transform to keyframe positions', () => {
+    const reconstruction = buildReconstruction({ images: [buildImage({ tvec: [0, 0, -1] })] });
+
+    const [keyframe] = getColmapImageCameraPathKeyframes(reconstruction, {
+      transform: {
+        scale: 2,
+        rotationX: 0,
+        rotationY: 0,
+        rotationZ: 0,
+        translationX: 1,
+        translationY: 0,
+        translationZ: 0,
+      },
+    });
+
+    expect(keyframe.position[0]).toBeCloseTo(1);
+    expect(keyframe.position[2]).toBeCloseTo(2);
+  });
+
+  it('renders one frame per keyframe unless interpolating a spline', () => {
+    const keyframes = [pose(0), pose(1), pose(2)];
+
+    expect(getCameraPathFrameCount(3, { interpolation: 'keyframes', framesPerSegment: 10 })).toBe(3);
+    expect(getCameraPathFrameCount(3, { interpolation: 'spline', framesPerSegment: 10 })).toBe(21);
+    expect(getCameraPathFrameCount(1, { interpolation: 'spline', framesPerSegment: 10 })).toBe(1);
+    expect(sampleCameraPath(keyframes, { interpolation: 'keyframes', framesPerSegment: 10 })).toEqual(keyframes);
+  });
+
+  it('samples a spline that starts, passes and ends on the keyframes', () => {
+    const keyframes = [pose(0, 40), pose(1, 60), pose(3, 60)];
+
+    const frames = sampleCameraPath(keyframes, { interpolation: 'spline', framesPerSegment: 4 });
+
+    expect(frames).toHaveLength(9);
+    expect(frames[0].position[0]).toBeCloseTo(0);
+    expect(frames[4].position[0]).toBeCloseTo(1);
+    expect(frames[8].position[0]).toBeCloseTo(3);
+    expect(frames[2].fovY).toBeCloseTo(50);
+    expect(frames[8].fovY).toBeCloseTo(60);
+  });
+
+  it('creates a camera framing the requested aspect at the pose', () => {
+    const camera = createCameraPathThreeCamera(pose(2, 45), 1920, 1080);
+
+    expect(camera.position.x).toBe(2);
+    expect(camera.fov).toBe(45);
+    expect(camera.aspect).toBeCloseTo(16 / 9);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Camera paths for offline novel-view rendering: keyframe poses in viewer
+ * world space and the per-frame poses sampled between them.
+ */
+
+import * as THREE from 'three';
+import type { Camera, Reconstruction } from '../types/colmap';
+import type { Sim3dEuler } from '../types/sim3d';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { cameraModelHasPinholeIntrinsics } from './cameraModelRegistry';
+import { getImageWorldPose } from './colmapTransforms';
+import { createSim3dFromEuler } from './sim3dTransforms';
+
+/** A Three.js camera pose (looking down −Z, Y up) in viewer world space. */
+export interface CameraPathPose {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  /** Vertical field of view in degrees. */
+  fovY: number;
+}
+
+/**
+ * `keyframes` renders one frame per keyframe; `spline` passes a Catmull-Rom
+ * curve through the keyframe positions and slerps between their rotations.
+ */
+export type CameraPathInterpolation = 'keyframes' | 'spline';
+
+export interface CameraPathSampleOptions {
+  interpolation: CameraPathInterpolation;
+  /** Frames from one keyframe up to, but excluding, the next (spline only). */
+  framesPerSegment: number;
+}
+
+export interface ColmapImageCameraPathOptions {
+  transform?: Sim3dEuler;
+  /** Take every n-th image in name order. */
+  stride?: number;
+}
+
+/** Vertical field of view in degrees implied by a camera's focal length and height. */
+export function getColmapCameraFovY(camera: Camera): number {
+  const { fy } = getCameraIntrinsics(camera);
+  return 2 * Math.atan(camera.height / (2 * fy)) * 180 / Math.PI;
+}
+
+const colmapToThreeCameraRotation = new THREE.Quaternion()
+  .setFromAxisAngle(new THREE.Vector3(1, 0, 0), Math.PI);
+
+/**
+ * Keyframes at the registered image poses in name order, which is capture
+ * order for most datasets. Spherical cameras have no focal length to take a
+ * field of view from, so their images are skipped.
+ */
+export function getColmapImageCameraPathKeyframes(
+  reconstruction: Pick<Reconstruction, 'images' | 'cameras'>,
+  { transform, stride = 1 }: ColmapImageCameraPathOptions = {}
+): CameraPathPose[] {
+  const sim3d = transform ? createSim3dFromEuler(transform) : null;
+  const step = Math.max(1, Math.floor(stride));
+  const images = Array.from(reconstruction.images.values())
+    .filter((image) => {
+      const camera = reconstruction.cameras.get(image.cameraId);
+      return camera !== undefined && cameraModelHasPinholeIntrinsics(camera.modelId);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const keyframes: CameraPathPose[] = [];
+  for (let index = 0; index < images.length; index += step) {
+    const image = images[index];
+    const camera = reconstruction.cameras.get(image.cameraId);
+    if (!camera) continue;
+    const pose = getImageWorldPose(image);
+    const position = pose.position.clone();
+    const quaternion = pose.quaternion.clone();
+    if (sim3d) {
+      position.applyQuaternion(sim3d.rotation).multiplyScalar(sim3d.scale).add(sim3d.translation);
+      quaternion.premultiply(sim3d.rotation);
+    }
+    quaternion.multiply(colmapToThreeCameraRotation);
+    keyframes.push({
+      position: [position.x, position.y, position.z],
+      quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+      fovY: getColmapCameraFovY(camera),
+    });
+  }
+  return keyframes;
+}
+
+export function getCameraPathFrameCount(
+  keyframeCount: number,
+  { interpolation, framesPerSegment }: CameraPathSampleOptions
+): number {
+  if (keyframeCount <= 1 || interpolation === 'keyframes') return keyframeCount;
+  return (keyframeCount - 1) * Math.max(1, Math.floor(framesPerSegment)) + 1;
+}
+
+/** Every frame pose along the path, starting and ending on a keyframe. */
+export function sampleCameraPath(
+  keyframes: readonly CameraPathPose[],
+  options: CameraPathSampleOptions
+): CameraPathPose[] {
+  if (keyframes.length <= 1 || options.interpolation === 'keyframes') {
+    return keyframes.map(cloneCameraPathPose);
+  }
+
+  const framesPerSegment = Math.max(1, Math.floor(options.framesPerSegment));
+  const curve = new THREE.CatmullRomCurve3(
+    keyframes.map((keyframe) => new THREE.Vector3(...keyframe.position)),
+    false,
+    'centripetal'
+  );
+  const segmentCount = keyframes.length - 1;
+  const frameCount = getCameraPathFrameCount(keyframes.length, options);
+  const position = new THREE.Vector3();
+  const from = new THREE.Quaternion();
+  const to = new THREE.Quaternion();
+  const poses: CameraPathPose[] = [];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const segment = Math.min(Math.floor(frame / framesPerSegment), segmentCount - 1);
+    const t = (frame - segment * framesPerSegment) / framesPerSegment;
+    const start = keyframes[segment];
+    const end = keyframes[segment + 1];
+    curve.getPoint(frame / (frameCount - 1), position);
+    from.fromArray(start.quaternion);
+    to.fromArray(end.quaternion);
+    from.slerp(to, t);
+    poses.push({
+      position: [position.x, position.y, position.z],
+      quaternion: [from.x, from.y, from.z, from.w],
+      fovY: start.fovY + (end.fovY - start.fovY) * t,
+    });
+  }
+  return poses;
+}
+
+/** A Three.js perspective camera at the pose, framing `width × height`. */
+export function createCameraPathThreeCamera(
+  pose: CameraPathPose,
+  width: number,
+  height: number,
+  near = 0.001,
+  far = 10000
+): THREE.PerspectiveCamera {
+  const camera = new THREE.PerspectiveCamera(pose.fovY, width / height, near, far);
+  camera.position.fromArray(pose.position);
+  camera.quaternion.fromArray(pose.quaternion);
+  camera.updateProjectionMatrix();
+  camera.updateMatrixWorld(true);
+  return camera;
+}
+
+function cloneCameraPathPose(pose: CameraPathPose): CameraPathPose {
+  return {
+    position: [...pose.position],
+    quaternion: [...pose.quaternion],
+    fovY: pose.fovY,
+  };
+}
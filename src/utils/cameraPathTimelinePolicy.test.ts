@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraPathKeyframe, CameraViewState } from '../store/types';
+import {
+  applyCameraPathEasing,
+  createCameraPathTimeline,
+  getCameraPathKeyframesFromSaved,
+  getCameraPathRecordingDuration,
+  getSavedCameraPath,
+  isSavedCameraPath,
+  sampleCameraPathTimeline,
+} from './cameraPathTimelinePolicy';
+
+function keyframe(id: number, x: number, duration = 2, easing: CameraPathKeyframe['easing'] = 'linear'): CameraPathKeyframe {
+  const view: CameraViewState = {
+    position: [x, 0, 5],
+    quaternion: [0, 0, 0, 1],
+    target: [x, 0, 0],
+    distance: 5 + x,
+  };
+  return { id, view, duration, easing };
+}
+
+describe('cameraPathTimelinePolicy', () => {
+  it('eases segment progress', () => {
+    expect(applyCameraPathEasing('linear', 0.25)).toBe(0.25);
+    expect(applyCameraPathEasing('easeIn', 0.5)).toBe(0.125);
+    expect(applyCameraPathEasing('easeOut', 0.5)).toBe(0.875);
+    expect(applyCameraPathEasing('easeInOut', 0.5)).toBe(0.5);
+    expect(applyCameraPathEasing('easeInOut', 2)).toBe(1);
+  });
+
+  it('passes through every keyframe at its time', () => {
+    const timeline = createCameraPathTimeline([keyframe(1, 0), keyframe(2, 4, 1), keyframe(3, 6, 3, 'easeIn')]);
+    expect(timeline).not.toBeNull();
+    expect(timeline!.duration).toBe(4);
+    expect(timeline!.keyframeTimes).toEqual([0, 1, 4]);
+
+    const middle = timeline!.evaluate(1);
+    expect(middle.position[0]).toBeCloseTo(4);
+    expect(middle.target[0]).toBeCloseTo(4);
+    expect(middle.distance).toBeCloseTo(9);
+    expect(timeline!.evaluate(10).position[0]).toBeCloseTo(6);
+  });
+
+  it('applies the arriving keyframe easing to distance and rotation', () => {
+    const end = keyframe(2, 2, 2, 'easeIn');
+    end.view.quaternion = [0, Math.SQRT1_2, 0, Math.SQRT1_2];
+    const timeline = createCameraPathTimeline([keyframe(1, 0), end])!;
+
+    const view = timeline.evaluate(1);
+    expect(view.distance).toBeCloseTo(5.25);
+    expect(view.quaternion[1]).toBeCloseTo(Math.sin(Math.PI / 4 * 0.125));
+  });
+
+  it('needs two keyframes to make a timeline', () => {
+    expect(createCameraPathTimeline([keyframe(1, 0)])).toBeNull();
+  });
+
+  it('samples the timeline at a fixed frame rate for offline rendering', () => {
+    const timeline = createCameraPathTimeline([keyframe(1, 0), keyframe(2, 4, 1)]);
+    const poses = sampleCameraPathTimeline(timeline!, 4, 50);
+
+    expect(poses).toHaveLength(5);
+    expect(poses[2].position).toEqual(timeline!.evaluate(0.5).position);
+    expect(poses[4]).toEqual({ position: [4, 0, 5], quaternion: [0, 0, 0, 1], fovY: 50 });
+  });
+
+  it('records over the path only when asked and when it is playable', () => {
+    expect(getCameraPathRecordingDuration([keyframe(1, 0), keyframe(2, 1, 3)], true)).toBe(3);
+    expect(getCameraPathRecordingDuration([keyframe(1, 0), keyframe(2, 1, 3)], false)).toBeNull();
+    expect(getCameraPathRecordingDuration([keyframe(1, 0)], true)).toBeNull();
+  });
+
+  it('round-trips paths through their saved form', () => {
+    const saved = getSavedCameraPath([keyframe(1, 0.12345678), keyframe(2, 1, 1.5, 'easeOut')], true);
+    expect(saved.keyframes[0].position).toEqual([0.123457, 0, 5]);
+    expect(isSavedCameraPath(JSON.parse(JSON.stringify(saved)))).toBe(true);
+
+    const restored = getCameraPathKeyframesFromSaved(saved);
+    expect(restored[1]).toEqual({ view: keyframe(2, 1).view, duration: 1.5, easing: 'easeOut' });
+  });
+
+  it('rejects malformed saved paths', () => {
+    const saved = getSavedCameraPath([keyframe(1, 0), keyframe(2, 1)], false);
+    expect(isSavedCameraPath({ ...saved, loop: 'yes' })).toBe(false);
+    expect(isSavedCameraPath({ ...saved, keyframes: [{ ...saved.keyframes[0], easing: 'bounce' }] })).toBe(false);
+    expect(isSavedCameraPath({ ...saved, keyframes: [{ ...saved.keyframes[0], position: [0, 0] }] })).toBe(false);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Fly-through camera paths authored from saved views: timing, easing and
+ * spline evaluation of the keyframe timeline, and the plain form paths take
+ * in config files and share links.
+ */
+
+import * as THREE from 'three';
+import {
+  CAMERA_PATH_EASINGS,
+  type CameraPathEasing,
+  type CameraPathKeyframe,
+  type CameraViewState,
+} from '../store/types';
+import type { CameraPathPose } from './cameraPathPolicy';
+
+export const CAMERA_PATH_DEFAULT_SEGMENT_DURATION = 2;
+export const CAMERA_PATH_MIN_SEGMENT_DURATION = 0.1;
+export const CAMERA_PATH_MAX_SEGMENT_DURATION = 600;
+
+/** A keyframe as written to config files and share links. */
+export interface SavedCameraPathKeyframe {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  target: [number, number, number];
+  distance: number;
+  duration: number;
+  easing: CameraPathEasing;
+}
+
+export interface SavedCameraPath {
+  loop: boolean;
+  keyframes: SavedCameraPathKeyframe[];
+}
+
+export interface CameraPathTimeline {
+  /** Seconds from the first keyframe to the last. */
+  duration: number;
+  /** Start time of each keyframe in seconds. */
+  keyframeTimes: number[];
+  evaluate: (time: number) => CameraViewState;
+}
+
+export function clampCameraPathSegmentDuration(duration: number): number {
+  if (!Number.isFinite(duration)) return CAMERA_PATH_DEFAULT_SEGMENT_DURATION;
+  return Math.min(CAMERA_PATH_MAX_SEGMENT_DURATION, Math.max(CAMERA_PATH_MIN_SEGMENT_DURATION, duration));
+}
+
+export function applyCameraPathEasing(easing: CameraPathEasing, t: number): number {
+  const x = Math.min(1, Math.max(0, t));
+  switch (easing) {
+    case 'easeIn':
+      return x * x * x;
+    case 'easeOut':
+      return 1 - (1 - x) ** 3;
+    case 'easeInOut':
+      return x < 0.5 ? 4 * x * x * x : 1 - (-2 * x + 2) ** 3 / 2;
+    case 'linear':
+    default:
+      return x;
+  }
+}
+
+export function getCameraPathKeyframeTimes(keyframes: readonly Pick<CameraPathKeyframe, 'duration'>[]): number[] {
+  const times: number[] = [];
+  let time = 0;
+  keyframes.forEach((keyframe, index) => {
+    if (index > 0) time += keyframe.duration;
+    times.push(time);
+  });
+  return times;
+}
+
+export function getCameraPathDuration(keyframes: readonly Pick<CameraPathKeyframe, 'duration'>[]): number {
+  const times = getCameraPathKeyframeTimes(keyframes);
+  return times.length > 0 ? times[times.length - 1] : 0;
+}
+
+/** Seconds a recording should run to capture the whole path, or null to use the set duration. */
+export function getCameraPathRecordingDuration(
+  keyframes: readonly Pick<CameraPathKeyframe, 'duration'>[],
+  recordWithPath: boolean
+): number | null {
+  if (!recordWithPath || keyframes.length < 2) return null;
+  return getCameraPathDuration(keyframes);
+}
+
+/**
+ * Timeline through the keyframe views, or null with fewer than two keyframes.
+ * Camera positions and orbit targets follow centripetal Catmull-Rom splines
+ * through the keyframes, rotations are slerped and orbit distances lerped,
+ * all driven by the eased progress through each segment.
+ */
+export function createCameraPathTimeline(keyframes: readonly CameraPathKeyframe[]): CameraPathTimeline | null {
+  if (keyframes.length < 2) return null;
+
+  const keyframeTimes = getCameraPathKeyframeTimes(keyframes);
+  const duration = keyframeTimes[keyframeTimes.length - 1];
+  const positionCurve = new THREE.CatmullRomCurve3(
+    keyframes.map((keyframe) => new THREE.Vector3(...keyframe.view.position)),
+    false,
+    'centripetal'
+  );
+  const targetCurve = new THREE.CatmullRomCurve3(
+    keyframes.map((keyframe) => new THREE.Vector3(...keyframe.view.target)),
+    false,
+    'centripetal'
+  );
+  const segmentCount = keyframes.length - 1;
+  const position = new THREE.Vector3();
+  const target = new THREE.Vector3();
+  const from = new THREE.Quaternion();
+  const to = new THREE.Quaternion();
+
+  const evaluate = (time: number): CameraViewState => {
+    const clampedTime = Math.min(duration, Math.max(0, time));
+    let segment = 0;
+    while (segment < segmentCount - 1 && clampedTime >= keyframeTimes[segment + 1]) {
+      segment++;
+    }
+    const start = keyframes[segment];
+    const end = keyframes[segment + 1];
+    const segmentDuration = keyframeTimes[segment + 1] - keyframeTimes[segment];
+    const linearProgress = segmentDuration > 0 ? (clampedTime - keyframeTimes[segment]) / segmentDuration : 1;
+    const progress = applyCameraPathEasing(end.easing, linearProgress);
+    const curveT = (segment + progress) / segmentCount;
+
+    positionCurve.getPoint(curveT, position);
+    targetCurve.getPoint(curveT, target);
+    from.fromArray(start.view.quaternion);
+    to.fromArray(end.view.quaternion);
+    from.slerp(to, progress);
+
+    return {
+      position: [position.x, position.y, position.z],
+      quaternion: [from.x, from.y, from.z, from.w],
+      target: [target.x, target.y, target.z],
+      distance: start.view.distance + (end.view.distance - start.view.distance) * progress,
+    };
+  };
+
+  return { duration, keyframeTimes, evaluate };
+}
+
+/** Frames needed to render the whole timeline at `fps`, both end keyframes included. */
+export function getCameraPathTimelineFrameCount(duration: number, fps: number): number {
+  return Math.max(1, Math.round(duration * fps)) + 1;
+}
+
+/**
+ * The timeline sampled at a fixed frame rate, as poses for the offline path
+ * renderer. Keyframe views are viewer camera poses, so they carry over as is.
+ */
+export function sampleCameraPathTimeline(
+  timeline: CameraPathTimeline,
+  fps: number,
+  fovY: number
+): CameraPathPose[] {
+  const frameCount = getCameraPathTimelineFrameCount(timeline.duration, fps);
+  const poses: CameraPathPose[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const { position, quaternion } = timeline.evaluate(timeline.duration * frame / (frameCount - 1));
+    poses.push({ position, quaternion, fovY });
+  }
+  return poses;
+}
+
+// Micro-unit precision keeps share links short without visibly moving views.
+function roundSaved(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function roundVec3([x, y, z]: readonly [number, number, number]): [number, number, number] {
+  return [roundSaved(x), roundSaved(y), roundSaved(z)];
+}
+
+export function getSavedCameraPath(keyframes: readonly CameraPathKeyframe[], loop: boolean): SavedCameraPath {
+  return {
+    loop,
+    keyframes: keyframes.map(({ view, duration, easing }) => ({
+      position: roundVec3(view.position),
+      quaternion: [
+        roundSaved(view.quaternion[0]),
+        roundSaved(view.quaternion[1]),
+        roundSaved(view.quaternion[2]),
+        roundSaved(view.quaternion[3]),
+      ],
+      target: roundVec3(view.target),
+      distance: roundSaved(view.distance),
+      duration: roundSaved(duration),
+      easing,
+    })),
+  };
+}
+
+export function getCameraPathKeyframesFromSaved(
+  saved: SavedCameraPath
+): Omit<CameraPathKeyframe, 'id'>[] {
+  return saved.keyframes.map(({ position, quaternion, target, distance, duration, easing }) => ({
+    view: {
+      position: [...position],
+      quaternion: [...quaternion],
+      target: [...target],
+      distance,
+    },
+    duration: clampCameraPathSegmentDuration(duration),
+    easing,
+  }));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteTuple(value: unknown, length: number): boolean {
+  return Array.isArray(value)
+    && value.length === length
+    && value.every((entry) => typeof entry === 'number' && Number.isFinite(entry));
+}
+
+const cameraPathEasingSet = new Set<string>(CAMERA_PATH_EASINGS);
+
+function isSavedCameraPathKeyframe(keyframe: unknown): keyframe is SavedCameraPathKeyframe {
+  if (!isRecord(keyframe)) return false;
+  return isFiniteTuple(keyframe.position, 3)
+    && isFiniteTuple(keyframe.quaternion, 4)
+    && isFiniteTuple(keyframe.target, 3)
+    && typeof keyframe.distance === 'number' && Number.isFinite(keyframe.distance)
+    && typeof keyframe.duration === 'number' && Number.isFinite(keyframe.duration)
+    && typeof keyframe.easing === 'string' && cameraPathEasingSet.has(keyframe.easing);
+}
+
+export function isSavedCameraPath(path: unknown): path is SavedCameraPath {
+  if (!isRecord(path)) return false;
+  return typeof path.loop === 'boolean'
+    && Array.isArray(path.keyframes)
+    && path.keyframes.every(isSavedCameraPathKeyframe);
+}
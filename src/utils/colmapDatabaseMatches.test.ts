@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { DatabaseImagePair } from '../types/colmapDatabase';
+import {
+  buildDatabaseConnectedImagesIndex,
+  buildDatabasePairIndex,
+  formatTwoViewGeometryConfig,
+  getDatabasePairKey,
+  getDatabasePairMatchCount,
+  resolveMatchConnectionsIndex,
+} from './colmapDatabaseMatches';
+
+const pairs: DatabaseImagePair[] = [
+  { imageId1: 1, imageId2: 2, numMatches: 40, numInliers: 25, config: 2 },
+  { imageId1: 1, imageId2: 3, numMatches: 12, numInliers: 0, config: null },
+];
+
+describe('colmapDatabaseMatches', () => {
+  it('indexes pairs from both sides', () => {
+    const index = buildDatabasePairIndex(pairs);
+    expect(index.get(1)?.get(2)).toBe(pairs[0]);
+    expect(index.get(2)?.get(1)).toBe(pairs[0]);
+    expect(index.get(3)?.get(1)).toBe(pairs[1]);
+    expect(index.get(2)?.has(3)).toBe(false);
+  });
+
+  it('counts inliers for verified and descriptor matches for raw', () => {
+    expect(getDatabasePairMatchCount(pairs[0], 'verified')).toBe(25);
+    expect(getDatabasePairMatchCount(pairs[0], 'raw')).toBe(40);
+  });
+
+  it('builds connected-image counts per source, dropping empty pairs', () => {
+    const index = buildDatabasePairIndex(pairs);
+
+    const verified = buildDatabaseConnectedImagesIndex(index, 'verified');
+    expect(verified.get(1)).toEqual(new Map([[2, 25]]));
+    expect(verified.has(3)).toBe(false);
+
+    const raw = buildDatabaseConnectedImagesIndex(index, 'raw');
+    expect(raw.get(1)).toEqual(new Map([[2, 40], [3, 12]]));
+    expect(raw.get(3)).toEqual(new Map([[1, 12]]));
+  });
+
+  it('falls back to triangulated connections without a database', () => {
+    const triangulated = new Map([[1, new Map([[2, 7]])]]);
+    const index = buildDatabasePairIndex(pairs);
+
+    expect(resolveMatchConnectionsIndex(triangulated, 'triangulated', index)).toBe(triangulated);
+    expect(resolveMatchConnectionsIndex(triangulated, 'raw', null)).toBe(triangulated);
+    expect(resolveMatchConnectionsIndex(triangulated, 'raw', index)?.get(1)?.get(3)).toBe(12);
+  });
+
+  it('keys pairs by request order', () => {
+    expect(getDatabasePairKey(2, 1)).not.toBe(getDatabasePairKey(1, 2));
+  });
+
+  it('labels two-view geometry configs', () => {
+    expect(formatTwoViewGeometryConfig(2)).toBe('Calibrated');
+    expect(formatTwoViewGeometryConfig(6)).toBe('Planar or panoramic');
+    expect(formatTwoViewGeometryConfig(null)).toBe('Not verified');
+  });
+});
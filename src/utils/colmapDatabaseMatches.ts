@@ -0,0 +1,89 @@
+import type { MatchesSource } from '../store/types';
+import type { ConnectedImagesIndex, ImageId } from '../types/colmap';
+import {
+  TwoViewGeometryConfig,
+  type DatabaseImagePair,
+  type DatabasePairIndex,
+} from '../types/colmapDatabase';
+
+/** Database-backed match sources ('triangulated' comes from the reconstruction instead). */
+export type DatabaseMatchesSource = 'verified' | 'raw';
+
+const TWO_VIEW_GEOMETRY_CONFIG_LABELS: Record<TwoViewGeometryConfig, string> = {
+  [TwoViewGeometryConfig.UNDEFINED]: 'Undefined',
+  [TwoViewGeometryConfig.DEGENERATE]: 'Degenerate',
+  [TwoViewGeometryConfig.CALIBRATED]: 'Calibrated',
+  [TwoViewGeometryConfig.UNCALIBRATED]: 'Uncalibrated',
+  [TwoViewGeometryConfig.PLANAR]: 'Planar',
+  [TwoViewGeometryConfig.PANORAMIC]: 'Panoramic',
+  [TwoViewGeometryConfig.PLANAR_OR_PANORAMIC]: 'Planar or panoramic',
+  [TwoViewGeometryConfig.WATERMARK]: 'Watermark',
+  [TwoViewGeometryConfig.MULTIPLE]: 'Multiple',
+};
+
+/** Human-readable two-view geometry config; null means the pair was never verified. */
+export function formatTwoViewGeometryConfig(config: TwoViewGeometryConfig | null): string {
+  if (config === null) return 'Not verified';
+  return TWO_VIEW_GEOMETRY_CONFIG_LABELS[config] ?? `Unknown (${config})`;
+}
+
+export function buildDatabasePairIndex(pairs: readonly DatabaseImagePair[]): DatabasePairIndex {
+  const index: DatabasePairIndex = new Map();
+  const link = (from: ImageId, to: ImageId, pair: DatabaseImagePair) => {
+    let partners = index.get(from);
+    if (!partners) {
+      partners = new Map();
+      index.set(from, partners);
+    }
+    partners.set(to, pair);
+  };
+
+  for (const pair of pairs) {
+    link(pair.imageId1, pair.imageId2, pair);
+    link(pair.imageId2, pair.imageId1, pair);
+  }
+  return index;
+}
+
+/** Match count of a pair for a source: geometric inliers for 'verified', descriptor matches for 'raw'. */
+export function getDatabasePairMatchCount(pair: DatabaseImagePair, source: DatabaseMatchesSource): number {
+  return source === 'verified' ? pair.numInliers : pair.numMatches;
+}
+
+/**
+ * Per-image partner counts for a database source, in the same shape as
+ * Reconstruction.connectedImagesIndex. Pairs with no matches for the source are omitted.
+ */
+export function buildDatabaseConnectedImagesIndex(
+  pairIndex: DatabasePairIndex,
+  source: DatabaseMatchesSource
+): ConnectedImagesIndex {
+  const connections: ConnectedImagesIndex = new Map();
+  for (const [imageId, partners] of pairIndex) {
+    const counts = new Map<ImageId, number>();
+    for (const [partnerId, pair] of partners) {
+      const count = getDatabasePairMatchCount(pair, source);
+      if (count > 0) counts.set(partnerId, count);
+    }
+    if (counts.size > 0) connections.set(imageId, counts);
+  }
+  return connections;
+}
+
+/**
+ * Connections to draw for the selected match source. Database sources fall back
+ * to the reconstruction's triangulated connections when no database is loaded.
+ */
+export function resolveMatchConnectionsIndex(
+  triangulated: ConnectedImagesIndex | null,
+  source: MatchesSource,
+  pairIndex: DatabasePairIndex | null
+): ConnectedImagesIndex | null {
+  if (source === 'triangulated' || !pairIndex) return triangulated;
+  return buildDatabaseConnectedImagesIndex(pairIndex, source);
+}
+
+/** Cache key for an ordered image pair (matches are oriented to the request order). */
+export function getDatabasePairKey(imageId1: ImageId, imageId2: ImageId): string {
+  return `${imageId1}:${imageId2}`;
+}
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { resolveColmapPaths, getColmapDirectoryScore, resolveImagesDir } from './colmapPathResolver';
+import {
+  resolveColmapPaths,
+  resolveColmapModelPaths,
+  getColmapDirectoryScore,
+  getColmapModelIndex,
+  resolveImagesDir,
+} from './colmapPathResolver';
 
 describe('resolveColmapPaths', () => {
   it('resolves a colmap/ directory (HuggingFace sweet-corals layout)', () => {
@@ -97,6 +103,37 @@ describe('resolveColmapPaths', () => {
   });
 });
 
+describe('resolveColmapModelPaths', () => {
+  const model = (dir: string) => [`${dir}/cameras.bin`, `${dir}/images.bin`, `${dir}/points3D.bin`];
+
+  it('returns every complete sibling sub-model in numeric order', () => {
+    const models = resolveColmapModelPaths([
+      ...model('ds/sparse/10'),
+      ...model('ds/sparse/2'),
+      ...model('ds/sparse/0'),
+      'ds/sparse/3/cameras.bin',
+      ...model('other/sparse/1'),
+    ]);
+    expect(models.map((selection) => selection.dir)).toEqual(['ds/sparse/0', 'ds/sparse/2', 'ds/sparse/10']);
+    expect(models[1].points3D).toBe('ds/sparse/2/points3D.bin');
+  });
+
+  it('falls back to the single best model for unnumbered layouts', () => {
+    const models = resolveColmapModelPaths([...model('ds/colmap'), ...model('ds/backup')]);
+    expect(models.map((selection) => selection.dir)).toEqual(['ds/colmap']);
+  });
+
+  it('returns an empty list without a complete model', () => {
+    expect(resolveColmapModelPaths(['sparse/0/cameras.bin'])).toEqual([]);
+  });
+
+  it('reads the index of numbered model directories', () => {
+    expect(getColmapModelIndex('a/sparse/12')).toBe(12);
+    expect(getColmapModelIndex('colmap/0')).toBe(0);
+    expect(getColmapModelIndex('sparse')).toBeNull();
+  });
+});
+
 describe('resolveImagesDir', () => {
   it('finds a /images directory that is not at the root (sweet-corals corrected/images)', () => {
     const dir = resolveImagesDir([
@@ -95,16 +95,13 @@ export interface ResolveColmapPathsOptions {
   requirePoints3D?: boolean;
 }
 
-/**
- * Find the best COLMAP model directory within a set of relative paths.
- * Returns the chosen directory and the resolved path for each role, or null
- * when no complete model is present.
- */
-export function resolveColmapPaths(
-  paths: Iterable<string>,
-  options: ResolveColmapPathsOptions = {}
-): ColmapPathSelection | null {
-  const requirePoints3D = options.requirePoints3D ?? true;
+interface ColmapCandidate {
+  dir: string;
+  entry: ColmapDirectory;
+}
+
+/** Complete model directories, best first (by layout score, then path). */
+function collectColmapCandidates(paths: Iterable<string>, requirePoints3D: boolean): ColmapCandidate[] {
   const directories = new Map<string, ColmapDirectory>();
 
   for (const rawPath of paths) {
@@ -120,34 +117,79 @@ export function resolveColmapPaths(
     directories.set(dir, entry);
   }
 
-  const candidates: { dir: string; entry: ColmapDirectory }[] = [];
+  const candidates: ColmapCandidate[] = [];
   for (const [dir, entry] of directories) {
     if (entry.cameras && entry.images && (entry.points3D || !requirePoints3D)) {
       candidates.push({ dir, entry });
     }
   }
 
-  if (candidates.length === 0) {
-    return null;
-  }
-
   candidates.sort((a, b) => {
     const scoreDelta = getColmapDirectoryScore(a.dir) - getColmapDirectoryScore(b.dir);
     return scoreDelta !== 0 ? scoreDelta : a.dir.localeCompare(b.dir);
   });
+  return candidates;
+}
 
-  const best = candidates[0];
+function toColmapPathSelection({ dir, entry }: ColmapCandidate): ColmapPathSelection {
   return {
-    dir: best.dir,
-    cameras: best.entry.cameras,
-    images: best.entry.images,
-    points3D: best.entry.points3D,
-    database: best.entry.database,
-    rigs: best.entry.rigs,
-    frames: best.entry.frames,
+    dir,
+    cameras: entry.cameras,
+    images: entry.images,
+    points3D: entry.points3D,
+    database: entry.database,
+    rigs: entry.rigs,
+    frames: entry.frames,
   };
 }
 
+/**
+ * Find the best COLMAP model directory within a set of relative paths.
+ * Returns the chosen directory and the resolved path for each role, or null
+ * when no complete model is present.
+ */
+export function resolveColmapPaths(
+  paths: Iterable<string>,
+  options: ResolveColmapPathsOptions = {}
+): ColmapPathSelection | null {
+  const candidates = collectColmapCandidates(paths, options.requirePoints3D ?? true);
+  return candidates.length > 0 ? toColmapPathSelection(candidates[0]) : null;
+}
+
+const NUMBERED_MODEL_DIR = /(^|\/)(sparse|colmap)\/(\d+)$/i;
+
+/** Numeric index of a `sparse/N` or `colmap/N` directory, or null for other layouts. */
+export function getColmapModelIndex(dir: string): number | null {
+  const match = NUMBERED_MODEL_DIR.exec(dir);
+  return match ? Number(match[3]) : null;
+}
+
+/**
+ * Every complete sub-model next to the best one, in index order. The COLMAP
+ * mapper writes disconnected models as sibling `sparse/0`, `sparse/1`, ...
+ * directories; any other layout resolves to the single best model.
+ */
+export function resolveColmapModelPaths(
+  paths: Iterable<string>,
+  options: ResolveColmapPathsOptions = {}
+): ColmapPathSelection[] {
+  const candidates = collectColmapCandidates(paths, options.requirePoints3D ?? true);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const best = candidates[0];
+  if (getColmapModelIndex(best.dir) === null) {
+    return [toColmapPathSelection(best)];
+  }
+
+  const parent = getParentDir(best.dir);
+  return candidates
+    .filter(({ dir }) => getParentDir(dir) === parent && getColmapModelIndex(dir) !== null)
+    .sort((a, b) => (getColmapModelIndex(a.dir) ?? 0) - (getColmapModelIndex(b.dir) ?? 0))
+    .map(toColmapPathSelection);
+}
+
 const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif'];
 
 function isImageFilename(name: string): boolean {
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
   AXIS_SEMANTIC,
   COORDINATE_SYSTEMS,
+  getAxisFlipSigns,
   getCoordinateSystemAxisDirection,
   getWorldUp,
   isAxisSemanticallyDown,
@@ -45,4 +46,11 @@ describe('coordinate systems', () => {
     expect(isAxisSemanticallyDown('threejs', 'Y')).toBe(false); // Up
     expect(isAxisSemanticallyDown('blender', 'Z')).toBe(false); // Up
   });
+
+  it('flips axes that point the opposite way between conventions', () => {
+    expect(getAxisFlipSigns('colmap', 'opengl')).toEqual([1, -1, -1]);
+    expect(getAxisFlipSigns('opengl', 'opencv')).toEqual([1, -1, -1]);
+    expect(getAxisFlipSigns('colmap', 'opencv')).toEqual([1, 1, 1]);
+    expect(getAxisFlipSigns('colmap', 'blender')).toBeNull();
+  });
 });
@@ -112,3 +112,33 @@ export const AXIS_SEMANTIC: Record<AxesCoordinateSystem, Record<CoordinateSystem
   unity:   { X: 'Right', Y: 'Up', Z: 'Fwd' },
   unreal:  { X: 'Fwd', Y: 'Right', Z: 'Up' },
 };
+
+const OPPOSITE_AXIS_SEMANTIC: Record<string, string> = {
+  Right: 'Left',
+  Left: 'Right',
+  Up: 'Down',
+  Down: 'Up',
+  Fwd: 'Back',
+  Back: 'Fwd',
+};
+
+/**
+ * Per-axis signs that carry vectors between two conventions whose axes lie on
+ * the same lines, e.g. camera axes from OpenCV (X right, Y down, Z forward) to
+ * OpenGL (X right, Y up, Z back). Null when an axis changes meaning rather
+ * than just direction.
+ */
+export function getAxisFlipSigns(
+  from: AxesCoordinateSystem,
+  to: AxesCoordinateSystem
+): [number, number, number] | null {
+  const signs: number[] = [];
+  for (const axis of ['X', 'Y', 'Z'] as const) {
+    const fromSemantic = AXIS_SEMANTIC[from][axis];
+    const toSemantic = AXIS_SEMANTIC[to][axis];
+    if (fromSemantic === toSemantic) signs.push(1);
+    else if (OPPOSITE_AXIS_SEMANTIC[fromSemantic] === toSemantic) signs.push(-1);
+    else return null;
+  }
+  return [signs[0], signs[1], signs[2]];
+}
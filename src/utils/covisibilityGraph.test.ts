@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { ConnectedImagesIndex } from '../types/colmap';
+import {
+  buildCovisibilityGraph,
+  computeForceGraphLayout,
+  computePoseGraphLayout,
+  normalizeLayout,
+} from './covisibilityGraph';
+
+function buildIndex(pairs: [number, number, number][]): ConnectedImagesIndex {
+  const index: ConnectedImagesIndex = new Map();
+  const link = (a: number, b: number, weight: number) => {
+    const partners = index.get(a) ?? new Map<number, number>();
+    partners.set(b, weight);
+    index.set(a, partners);
+  };
+  for (const [a, b, weight] of pairs) {
+    link(a, b, weight);
+    link(b, a, weight);
+  }
+  return index;
+}
+
+// Two triangles bridged through image 3: 1-2-3 and 3-4-5, plus a weak 5-6 tail.
+const index = buildIndex([
+  [1, 2, 50], [2, 3, 40], [1, 3, 30],
+  [3, 4, 45], [4, 5, 35], [3, 5, 25],
+  [5, 6, 4],
+]);
+
+describe('covisibilityGraph', () => {
+  it('keeps one undirected edge per pair above the threshold', () => {
+    const graph = buildCovisibilityGraph([1, 2, 3, 4, 5, 6], index, 1);
+
+    expect(graph.edges).toHaveLength(7);
+    expect(graph.maxWeight).toBe(50);
+    expect(graph.componentSizes).toEqual([6]);
+  });
+
+  it('finds articulation images joining otherwise separate clusters', () => {
+    const graph = buildCovisibilityGraph([1, 2, 3, 4, 5, 6], index, 1);
+
+    const articulationIds = graph.imageIds.filter((_, node) => graph.articulation[node] === 1);
+    expect(articulationIds).toEqual([3, 5]);
+    expect(graph.articulationCount).toBe(2);
+  });
+
+  it('splits components at higher thresholds, largest first', () => {
+    const graph = buildCovisibilityGraph([6, 1, 2, 3, 4, 5], index, 30);
+
+    // 3-5 (25) and 5-6 (4) drop out, so 6 is isolated and 5 hangs off 4.
+    expect(graph.componentSizes).toEqual([5, 1]);
+    expect(graph.componentOf[0]).toBe(1);
+    expect(graph.imageIds.filter((_, node) => graph.articulation[node] === 1)).toEqual([3, 4]);
+  });
+
+  it('ignores images outside the requested node set', () => {
+    const graph = buildCovisibilityGraph([1, 2], index, 1);
+
+    expect(graph.edges).toEqual([{ source: 0, target: 1, weight: 50 }]);
+  });
+
+  it('lays poses out along their two principal axes', () => {
+    const layout = computePoseGraphLayout([[0, 0, 0], [10, 0, 1], [20, 0, 0], [10, 0, -1]]);
+
+    // The dominant spread (x) maps to the first layout axis.
+    expect(Math.abs(layout[4] - layout[0])).toBeCloseTo(20, 4);
+    expect(Math.abs(layout[7] - layout[3])).toBeCloseTo(2, 4);
+  });
+
+  it('normalizes layouts into the unit square', () => {
+    const normalized = normalizeLayout(new Float32Array([0, 0, 4, 2]));
+
+    expect(Array.from(normalized)).toEqual([0, 0.25, 1, 0.75]);
+    expect(Array.from(normalizeLayout(new Float32Array([3, 3])))).toEqual([0.5, 0.5]);
+  });
+
+  it('pulls connected nodes together in the force layout', () => {
+    const graph = buildCovisibilityGraph([1, 2, 3], buildIndex([[1, 2, 100]]), 1);
+    const layout = computeForceGraphLayout(graph, new Float32Array([0, 0, 1, 0, 0.5, 1]));
+
+    const distance = (a: number, b: number) => Math.hypot(layout[a * 2] - layout[b * 2], layout[a * 2 + 1] - layout[b * 2 + 1]);
+    expect(distance(0, 1)).toBeLessThan(distance(0, 2));
+    expect(layout.every(Number.isFinite)).toBe(true);
+  });
+});
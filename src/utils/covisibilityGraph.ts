@@ -0,0 +1,354 @@
+import type { ConnectedImagesIndex, ImageId } from '../types/colmap';
+
+/** Undirected edge between two node indices, weighted by shared 3D points. */
+export interface CovisibilityEdge {
+  source: number;
+  target: number;
+  weight: number;
+}
+
+/**
+ * Image co-visibility graph at a given edge threshold. Components are numbered
+ * by decreasing size, so component 0 is the main reconstruction body and every
+ * other component is a piece that would split off.
+ */
+export interface CovisibilityGraph {
+  imageIds: ImageId[];
+  edges: CovisibilityEdge[];
+  maxWeight: number;
+  componentOf: Int32Array;
+  componentSizes: number[];
+  /** Images whose removal disconnects their component (cut vertices). */
+  articulation: Uint8Array;
+  articulationCount: number;
+}
+
+export type CovisibilityLayoutMode = 'pose' | 'force';
+
+/** Node positions as interleaved x, y in an arbitrary unit square-ish frame. */
+export type CovisibilityLayout = Float32Array;
+
+/**
+ * Build the co-visibility graph for the given images, keeping only edges with
+ * at least minWeight shared points.
+ */
+export function buildCovisibilityGraph(
+  imageIds: readonly ImageId[],
+  connectedImagesIndex: ConnectedImagesIndex,
+  minWeight: number
+): CovisibilityGraph {
+  const nodeOf = new Map<ImageId, number>();
+  imageIds.forEach((imageId, index) => nodeOf.set(imageId, index));
+
+  const edges: CovisibilityEdge[] = [];
+  let maxWeight = 0;
+  for (const [imageId, partners] of connectedImagesIndex) {
+    const source = nodeOf.get(imageId);
+    if (source === undefined) continue;
+    for (const [partnerId, weight] of partners) {
+      const target = nodeOf.get(partnerId);
+      // Each pair is stored from both sides; keep one direction.
+      if (target === undefined || target <= source) continue;
+      maxWeight = Math.max(maxWeight, weight);
+      if (weight >= minWeight) edges.push({ source, target, weight });
+    }
+  }
+
+  const adjacency = buildAdjacency(imageIds.length, edges);
+  const { componentOf, componentSizes } = labelComponents(imageIds.length, adjacency);
+  const articulation = findArticulationPoints(imageIds.length, adjacency);
+  let articulationCount = 0;
+  for (const flag of articulation) articulationCount += flag;
+
+  return {
+    imageIds: [...imageIds],
+    edges,
+    maxWeight,
+    componentOf,
+    componentSizes,
+    articulation,
+    articulationCount,
+  };
+}
+
+interface Adjacency {
+  offsets: Int32Array;
+  neighbors: Int32Array;
+}
+
+function buildAdjacency(nodeCount: number, edges: readonly CovisibilityEdge[]): Adjacency {
+  const offsets = new Int32Array(nodeCount + 1);
+  for (const { source, target } of edges) {
+    offsets[source + 1]++;
+    offsets[target + 1]++;
+  }
+  for (let i = 0; i < nodeCount; i++) offsets[i + 1] += offsets[i];
+
+  const cursor = offsets.slice(0, nodeCount);
+  const neighbors = new Int32Array(edges.length * 2);
+  for (const { source, target } of edges) {
+    neighbors[cursor[source]++] = target;
+    neighbors[cursor[target]++] = source;
+  }
+  return { offsets, neighbors };
+}
+
+function labelComponents(
+  nodeCount: number,
+  { offsets, neighbors }: Adjacency
+): { componentOf: Int32Array; componentSizes: number[] } {
+  const rawComponent = new Int32Array(nodeCount).fill(-1);
+  const rawSizes: number[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < nodeCount; start++) {
+    if (rawComponent[start] !== -1) continue;
+    const label = rawSizes.length;
+    let size = 0;
+    rawComponent[start] = label;
+    stack.push(start);
+    let node: number | undefined;
+    while ((node = stack.pop()) !== undefined) {
+      size++;
+      for (let k = offsets[node]; k < offsets[node + 1]; k++) {
+        const next = neighbors[k];
+        if (rawComponent[next] === -1) {
+          rawComponent[next] = label;
+          stack.push(next);
+        }
+      }
+    }
+    rawSizes.push(size);
+  }
+
+  // Renumber so the largest component is 0; ties keep discovery order.
+  const order = rawSizes.map((_, label) => label).sort((a, b) => rawSizes[b] - rawSizes[a] || a - b);
+  const rank = new Int32Array(rawSizes.length);
+  order.forEach((label, index) => { rank[label] = index; });
+
+  const componentOf = new Int32Array(nodeCount);
+  for (let i = 0; i < nodeCount; i++) componentOf[i] = rank[rawComponent[i]];
+  return { componentOf, componentSizes: order.map((label) => rawSizes[label]) };
+}
+
+/** Iterative Tarjan cut-vertex search (recursion would overflow on long image chains). */
+function findArticulationPoints(nodeCount: number, { offsets, neighbors }: Adjacency): Uint8Array {
+  const discovery = new Int32Array(nodeCount).fill(-1);
+  const low = new Int32Array(nodeCount);
+  const parent = new Int32Array(nodeCount).fill(-1);
+  const nextEdge = new Int32Array(nodeCount);
+  const articulation = new Uint8Array(nodeCount);
+  let time = 0;
+
+  for (let root = 0; root < nodeCount; root++) {
+    if (discovery[root] !== -1) continue;
+    let rootChildren = 0;
+    const stack = [root];
+    discovery[root] = low[root] = time++;
+    nextEdge[root] = offsets[root];
+
+    while (stack.length > 0) {
+      const node = stack[stack.length - 1];
+      if (nextEdge[node] < offsets[node + 1]) {
+        const next = neighbors[nextEdge[node]++];
+        if (discovery[next] === -1) {
+          parent[next] = node;
+          discovery[next] = low[next] = time++;
+          nextEdge[next] = offsets[next];
+          stack.push(next);
+          if (node === root) rootChildren++;
+        } else if (next !== parent[node]) {
+          low[node] = Math.min(low[node], discovery[next]);
+        }
+        continue;
+      }
+
+      stack.pop();
+      const up = parent[node];
+      if (up === -1) continue;
+      low[up] = Math.min(low[up], low[node]);
+      if (up !== root && low[node] >= discovery[up]) {
+        articulation[up] = 1;
+      }
+    }
+
+    if (rootChildren > 1) articulation[root] = 1;
+  }
+
+  return articulation;
+}
+
+/**
+ * Pose-anchored layout: camera centers projected onto their two principal
+ * axes, so the graph reads like a top-down view of the capture.
+ */
+export function computePoseGraphLayout(centers: readonly (readonly [number, number, number])[]): CovisibilityLayout {
+  const count = centers.length;
+  const layout = new Float32Array(count * 2);
+  if (count === 0) return layout;
+
+  const mean = [0, 0, 0];
+  for (const center of centers) {
+    for (let axis = 0; axis < 3; axis++) mean[axis] += center[axis] / count;
+  }
+  const covariance = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  for (const center of centers) {
+    const d = [center[0] - mean[0], center[1] - mean[1], center[2] - mean[2]];
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) covariance[row * 3 + col] += d[row] * d[col];
+    }
+  }
+
+  const axis1 = dominantEigenvector(covariance, null);
+  const axis2 = dominantEigenvector(covariance, axis1);
+  centers.forEach((center, index) => {
+    const d = [center[0] - mean[0], center[1] - mean[1], center[2] - mean[2]];
+    layout[index * 2] = d[0] * axis1[0] + d[1] * axis1[1] + d[2] * axis1[2];
+    layout[index * 2 + 1] = d[0] * axis2[0] + d[1] * axis2[1] + d[2] * axis2[2];
+  });
+  return layout;
+}
+
+function dominantEigenvector(matrix: readonly number[], orthogonalTo: readonly number[] | null): number[] {
+  // Seed off-axis so a degenerate (e.g. collinear) capture still yields a stable basis.
+  let vector = orthogonalTo
+    ? [orthogonalTo[1] - orthogonalTo[2], orthogonalTo[2] - orthogonalTo[0], orthogonalTo[0] - orthogonalTo[1]]
+    : [1, 0.7, 0.3];
+  const project = (v: number[]) => {
+    if (!orthogonalTo) return v;
+    const dot = v[0] * orthogonalTo[0] + v[1] * orthogonalTo[1] + v[2] * orthogonalTo[2];
+    return [v[0] - dot * orthogonalTo[0], v[1] - dot * orthogonalTo[1], v[2] - dot * orthogonalTo[2]];
+  };
+  const normalize = (v: number[]) => {
+    const length = Math.hypot(v[0], v[1], v[2]);
+    return length > 1e-12 ? [v[0] / length, v[1] / length, v[2] / length] : null;
+  };
+
+  vector = normalize(project(vector)) ?? (orthogonalTo ? [-orthogonalTo[1], orthogonalTo[0], 0] : [1, 0, 0]);
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const next = project([
+      matrix[0] * vector[0] + matrix[1] * vector[1] + matrix[2] * vector[2],
+      matrix[3] * vector[0] + matrix[4] * vector[1] + matrix[5] * vector[2],
+      matrix[6] * vector[0] + matrix[7] * vector[1] + matrix[8] * vector[2],
+    ]);
+    const normalized = normalize(next);
+    if (!normalized) break;
+    vector = normalized;
+  }
+  return vector;
+}
+
+/**
+ * Force-directed layout (Fruchterman-Reingold) seeded from an initial layout.
+ * Repulsion is limited to neighbouring grid cells so large reconstructions
+ * stay interactive; attraction grows with the log of the edge weight.
+ */
+export function computeForceGraphLayout(
+  graph: Pick<CovisibilityGraph, 'imageIds' | 'edges'>,
+  initial: CovisibilityLayout,
+  iterations = 120
+): CovisibilityLayout {
+  const count = graph.imageIds.length;
+  const layout = normalizeLayout(initial);
+  if (count < 2) return layout;
+
+  const k = 1 / Math.sqrt(count);
+  const cellSize = 2 * k;
+  const displacement = new Float32Array(count * 2);
+  let temperature = 0.1;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    displacement.fill(0);
+
+    const grid = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const key = gridKey(Math.floor(layout[i * 2] / cellSize), Math.floor(layout[i * 2 + 1] / cellSize));
+      const cell = grid.get(key);
+      if (cell) cell.push(i); else grid.set(key, [i]);
+    }
+
+    for (let i = 0; i < count; i++) {
+      const cx = Math.floor(layout[i * 2] / cellSize);
+      const cy = Math.floor(layout[i * 2 + 1] / cellSize);
+      for (let gx = cx - 1; gx <= cx + 1; gx++) {
+        for (let gy = cy - 1; gy <= cy + 1; gy++) {
+          for (const j of grid.get(gridKey(gx, gy)) ?? []) {
+            if (j === i) continue;
+            let dx = layout[i * 2] - layout[j * 2];
+            let dy = layout[i * 2 + 1] - layout[j * 2 + 1];
+            let distance = Math.hypot(dx, dy);
+            if (distance < 1e-6) {
+              // Deterministic nudge for coincident nodes.
+              dx = ((i * 7919) % 13) - 6;
+              dy = ((i * 104729) % 11) - 5;
+              distance = Math.hypot(dx, dy) || 1;
+              dx /= distance * 1e3;
+              dy /= distance * 1e3;
+              distance = 1e-3;
+            }
+            const force = (k * k) / distance;
+            displacement[i * 2] += (dx / distance) * force;
+            displacement[i * 2 + 1] += (dy / distance) * force;
+          }
+        }
+      }
+    }
+
+    for (const { source, target, weight } of graph.edges) {
+      const dx = layout[source * 2] - layout[target * 2];
+      const dy = layout[source * 2 + 1] - layout[target * 2 + 1];
+      const distance = Math.hypot(dx, dy);
+      if (distance < 1e-9) continue;
+      const force = ((distance * distance) / k) * (1 + Math.log1p(weight) / 4);
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      displacement[source * 2] -= fx;
+      displacement[source * 2 + 1] -= fy;
+      displacement[target * 2] += fx;
+      displacement[target * 2 + 1] += fy;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const dx = displacement[i * 2];
+      const dy = displacement[i * 2 + 1];
+      const length = Math.hypot(dx, dy);
+      if (length < 1e-12) continue;
+      const step = Math.min(length, temperature);
+      layout[i * 2] += (dx / length) * step;
+      layout[i * 2 + 1] += (dy / length) * step;
+    }
+    temperature *= 0.97;
+  }
+
+  return layout;
+}
+
+function gridKey(x: number, y: number): number {
+  return x * 1_000_003 + y;
+}
+
+/** Rescale a layout into [0, 1] x [0, 1], preserving aspect ratio. */
+export function normalizeLayout(layout: CovisibilityLayout): CovisibilityLayout {
+  const normalized = new Float32Array(layout.length);
+  if (layout.length === 0) return normalized;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < layout.length; i += 2) {
+    minX = Math.min(minX, layout[i]);
+    maxX = Math.max(maxX, layout[i]);
+    minY = Math.min(minY, layout[i + 1]);
+    maxY = Math.max(maxY, layout[i + 1]);
+  }
+  const extent = Math.max(maxX - minX, maxY - minY);
+  const scale = extent > 1e-12 ? 1 / extent : 0;
+  const offsetX = (1 - (maxX - minX) * scale) / 2;
+  const offsetY = (1 - (maxY - minY) * scale) / 2;
+  for (let i = 0; i < layout.length; i += 2) {
+    normalized[i] = scale === 0 ? 0.5 : (layout[i] - minX) * scale + offsetX;
+    normalized[i + 1] = scale === 0 ? 0.5 : (layout[i + 1] - minY) * scale + offsetY;
+  }
+  return normalized;
+}
@@ -5,6 +5,7 @@ import {
   createImagesOnlyReconstruction,
   findColmapCameraImageFiles,
   findColmapFiles,
+  findColmapModelFileSets,
   findLargestPlyFile,
   findPreferredSplatFile,
   findSplatFiles,
@@ -84,6 +85,28 @@ describe('file classification helpers', () => {
     });
   });
 
+  it('collects every complete sparse/N sub-model', () => {
+    const cameras0 = buildFile('cameras.bin');
+    const cameras1 = buildFile('cameras.bin');
+    const frames1 = buildFile('frames.bin');
+    const files = fileMap([
+      ['sparse/1/cameras.bin', cameras1],
+      ['sparse/1/images.bin', buildFile('images.bin')],
+      ['sparse/1/points3D.bin', buildFile('points3D.bin')],
+      ['sparse/1/frames.bin', frames1],
+      ['sparse/0/cameras.bin', cameras0],
+      ['sparse/0/images.bin', buildFile('images.bin')],
+      ['sparse/0/points3D.bin', buildFile('points3D.bin')],
+      ['sparse/2/cameras.bin', buildFile('cameras.bin')],
+    ]);
+
+    const modelSets = findColmapModelFileSets(files);
+
+    expect(modelSets.map((modelSet) => modelSet.dir)).toEqual(['sparse/0', 'sparse/1']);
+    expect(modelSets[0].camerasFile).toBe(cameras0);
+    expect(modelSets[1]).toMatchObject({ camerasFile: cameras1, framesFile: frames1, rigsFile: undefined });
+  });
+
   it('finds the largest PLY file without treating non-PLY files as splats', () => {
     const small = buildFile('small.ply', 'x');
     const root = buildFile('root_gaussians.ply', 'xx');
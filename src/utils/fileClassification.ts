@@ -11,7 +11,7 @@ import {
   isSplatFilePath,
   type SplatCandidate,
 } from './splatFilePolicy';
-import { resolveColmapPaths } from './colmapPathResolver';
+import { resolveColmapModelPaths, resolveColmapPaths } from './colmapPathResolver';
 
 export interface ColmapFileSelection {
   camerasFile?: File;
@@ -22,6 +22,17 @@ export interface ColmapFileSelection {
   framesFile?: File;
 }
 
+/** One complete COLMAP model among several sibling sub-models. */
+export interface ColmapModelFileSet {
+  /** Model directory relative to the drop root, e.g. `sparse/1`. */
+  dir: string;
+  camerasFile: File;
+  imagesFile: File;
+  points3DFile: File;
+  rigsFile?: File;
+  framesFile?: File;
+}
+
 /**
  * Find a configuration file (YAML) in the file map
  */
@@ -71,6 +82,31 @@ function findColmapFilesInternal(
   };
 }
 
+/**
+ * Find every complete sibling sub-model (`sparse/0`, `sparse/1`, ...), in index order.
+ * A single-model drop yields at most one entry, matching findColmapFiles.
+ */
+export function findColmapModelFileSets(files: Map<string, File>): ColmapModelFileSet[] {
+  const modelSets: ColmapModelFileSet[] = [];
+  for (const selection of resolveColmapModelPaths(files.keys())) {
+    const camerasFile = selection.cameras ? files.get(selection.cameras) : undefined;
+    const imagesFile = selection.images ? files.get(selection.images) : undefined;
+    const points3DFile = selection.points3D ? files.get(selection.points3D) : undefined;
+    if (!camerasFile || !imagesFile || !points3DFile) {
+      continue;
+    }
+    modelSets.push({
+      dir: selection.dir,
+      camerasFile,
+      imagesFile,
+      points3DFile,
+      rigsFile: selection.rigs ? files.get(selection.rigs) : undefined,
+      framesFile: selection.frames ? files.get(selection.frames) : undefined,
+    });
+  }
+  return modelSets;
+}
+
 /**
  * Check if the file map contains COLMAP files
  */
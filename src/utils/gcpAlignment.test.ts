@@ -0,0 +1,101 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { GroundControlPoint } from '../store/stores/gcpStore';
+import { buildCamera, buildImage } from '../test/builders';
+import { CameraModelId, type Image } from '../types/colmap';
+import { createSim3dFromEuler, transformPoint } from './sim3dTransforms';
+import {
+  computeGcpAlignment,
+  getGcpAppliedTransform,
+  getGcpDisplayedPositions,
+  getGcpModelPosition,
+  getObservationRay,
+  triangulateGcpObservations,
+} from './gcpAlignment';
+
+const camera = buildCamera();
+
+// Identity rotation: the camera looks down +Z from `center`.
+function buildImageAt(imageId: number, center: [number, number, number]): Image {
+  return buildImage({ imageId, cameraId: camera.cameraId, qvec: [1, 0, 0, 0], tvec: [-center[0], -center[1], -center[2]] });
+}
+
+function project(image: Image, point: THREE.Vector3): { x: number; y: number } {
+  const local = point.clone().add(new THREE.Vector3(...image.tvec));
+  return { x: 500 * local.x / local.z + 320, y: 500 * local.y / local.z + 240 };
+}
+
+function buildGcp(overrides: Partial<GroundControlPoint>): GroundControlPoint {
+  return { id: 1, name: 'GCP 1', world: null, pickedPosition: null, point3DId: null, observations: [], ...overrides };
+}
+
+const images = [buildImageAt(1, [0, 0, 0]), buildImageAt(2, [2, 0, 0]), buildImageAt(3, [0, 1, 0])];
+const reconstruction = {
+  images: new Map(images.map((image) => [image.imageId, image])),
+  cameras: new Map([[camera.cameraId, camera]]),
+};
+
+describe('gcpAlignment', () => {
+  it('casts pixel rays through the camera centre', () => {
+    const ray = getObservationRay(images[1], camera, 320, 240);
+
+    expect(ray?.origin.toArray()).toEqual([2, 0, 0]);
+    expect(ray?.direction.toArray()).toEqual([0, 0, 1]);
+    expect(getObservationRay(images[0], buildCamera({ modelId: CameraModelId.EQUIRECTANGULAR, params: [] }), 0, 0))
+      .toBeNull();
+  });
+
+  it('triangulates observations from two or more images', () => {
+    const target = new THREE.Vector3(0.5, -0.25, 6);
+    const observations = images.map((image) => ({ imageId: image.imageId, ...project(image, target) }));
+
+    const position = triangulateGcpObservations(observations, reconstruction);
+
+    expect(position?.distanceTo(target)).toBeLessThan(1e-9);
+    expect(triangulateGcpObservations(observations.slice(0, 1), reconstruction)).toBeNull();
+    expect(getGcpModelPosition(buildGcp({ pickedPosition: [1, 2, 3], observations }), reconstruction)?.toArray())
+      .toEqual([1, 2, 3]);
+  });
+
+  it('fits model positions to world coordinates and reports residuals', () => {
+    const model = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]] as [number, number, number][];
+    const gcps = model.map((position, i) => buildGcp({
+      id: i + 1,
+      name: `P${i}`,
+      world: [position[0] * 3 + 100, position[1] * 3 + 50, position[2] * 3 + (i === 3 ? 0.4 : 0)],
+    }));
+    gcps.push(buildGcp({ id: 9, name: 'unsurveyed' }));
+    const positions = new Map(model.map((position, i) => [i + 1, new THREE.Vector3(...position)]));
+    positions.set(9, new THREE.Vector3());
+
+    const alignment = computeGcpAlignment(gcps, positions);
+
+    expect(alignment?.sim3d.scale).toBeCloseTo(3, 0);
+    expect(alignment?.residuals.map((residual) => residual.name)).toEqual(['P0', 'P1', 'P2', 'P3']);
+    const worst = alignment!.residuals.reduce((a, b) => (b.residual > a.residual ? b : a));
+    expect(worst.name).toBe('P3');
+    expect(alignment?.rmse).toBeGreaterThan(0);
+    expect(computeGcpAlignment(gcps.slice(0, 2), positions)).toBeNull();
+  });
+
+  it('fits in the displayed frame and composes the fit after the active transform', () => {
+    const model = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]] as [number, number, number][];
+    const gcps = model.map((position, i) => buildGcp({
+      id: i + 1,
+      world: [position[0] * 3 + 100, position[1] * 3 + 50, position[2] * 3],
+    }));
+    const transform = { scale: 2, rotationX: 0, rotationY: 0, rotationZ: Math.PI / 2, translationX: 5, translationY: 0, translationZ: 0 };
+    const positions = getGcpDisplayedPositions(
+      new Map(model.map((position, i) => [i + 1, new THREE.Vector3(...position)])),
+      transform
+    );
+
+    const alignment = computeGcpAlignment(gcps, positions);
+    expect(alignment?.rmse).toBeCloseTo(0, 6);
+
+    const applied = createSim3dFromEuler(getGcpAppliedTransform(alignment!, transform));
+    model.forEach((position, i) => {
+      transformPoint(applied, position).forEach((value, axis) => expect(value).toBeCloseTo(gcps[i].world![axis], 6));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Ground control point geometry: model positions from point-cloud picks or
+ * triangulated image observations, and the Sim3d that maps them onto the
+ * GCPs' known world coordinates. The fit runs in the displayed frame so it
+ * composes with whatever transform is already active.
+ */
+
+import * as THREE from 'three';
+import type { GcpObservation, GroundControlPoint } from '../store/stores/gcpStore';
+import type { Camera, Image, Reconstruction } from '../types/colmap';
+import type { Sim3d, Sim3dEuler } from '../types/sim3d';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { cameraModelHasPinholeIntrinsics } from './cameraModelRegistry';
+import { undistortNormalized } from './cameraUndistortion';
+import { getImageWorldPose } from './colmapTransforms';
+import { computeCorrespondenceAlignment } from './sim3dAlignment';
+import { composeSim3d, createSim3dFromEuler, isIdentityEuler, sim3dToEuler } from './sim3dTransforms';
+
+export interface ObservationRay {
+  origin: THREE.Vector3;
+  /** Unit direction in world coordinates. */
+  direction: THREE.Vector3;
+}
+
+export interface GcpResidual {
+  gcpId: number;
+  name: string;
+  /** Distance in world units between the transformed model position and the known coordinates. */
+  residual: number;
+}
+
+export interface GcpAlignment {
+  /** displayed-to-world transform, applied after the active transform */
+  sim3d: Sim3d;
+  residuals: GcpResidual[];
+  rmse: number;
+}
+
+export const MIN_GCP_ALIGNMENT_COUNT = 3;
+
+/** Rays closer to parallel than this cannot fix a position. */
+const MIN_TRIANGULATION_DETERMINANT = 1e-10;
+
+/** World-space viewing ray through an image pixel, or null for models without a pinhole plane. */
+export function getObservationRay(image: Image, camera: Camera, x: number, y: number): ObservationRay | null {
+  if (!cameraModelHasPinholeIntrinsics(camera.modelId)) return null;
+  const intrinsics = getCameraIntrinsics(camera);
+  const undistorted = undistortNormalized(
+    { x: (x - intrinsics.cx) / intrinsics.fx, y: (y - intrinsics.cy) / intrinsics.fy },
+    intrinsics,
+    camera.modelId
+  );
+  if (!undistorted.valid) return null;
+
+  const { position, quaternion } = getImageWorldPose(image);
+  return {
+    origin: position,
+    direction: new THREE.Vector3(undistorted.x, undistorted.y, 1).normalize().applyQuaternion(quaternion),
+  };
+}
+
+/** Least-squares point closest to all rays; null for fewer than two or near-parallel rays. */
+export function triangulateRays(rays: readonly ObservationRay[]): THREE.Vector3 | null {
+  if (rays.length < 2) return null;
+
+  // Sum of (I - d d^T) and (I - d d^T) o over all rays.
+  const a = new Array<number>(9).fill(0);
+  const b = new THREE.Vector3();
+  for (const { origin, direction: d } of rays) {
+    const projector = [
+      1 - d.x * d.x, -d.x * d.y, -d.x * d.z,
+      -d.y * d.x, 1 - d.y * d.y, -d.y * d.z,
+      -d.z * d.x, -d.z * d.y, 1 - d.z * d.z,
+    ];
+    for (let i = 0; i < 9; i++) a[i] += projector[i];
+    b.x += projector[0] * origin.x + projector[1] * origin.y + projector[2] * origin.z;
+    b.y += projector[3] * origin.x + projector[4] * origin.y + projector[5] * origin.z;
+    b.z += projector[6] * origin.x + projector[7] * origin.y + projector[8] * origin.z;
+  }
+
+  const matrix = new THREE.Matrix3().set(a[0], a[1], a[2], a[3], a[4], a[5], a[6], a[7], a[8]);
+  if (Math.abs(matrix.determinant()) < MIN_TRIANGULATION_DETERMINANT) return null;
+  return b.applyMatrix3(matrix.invert());
+}
+
+export function triangulateGcpObservations(
+  observations: readonly GcpObservation[],
+  reconstruction: Pick<Reconstruction, 'images' | 'cameras'>
+): THREE.Vector3 | null {
+  const rays: ObservationRay[] = [];
+  for (const observation of observations) {
+    const image = reconstruction.images.get(observation.imageId);
+    const camera = image ? reconstruction.cameras.get(image.cameraId) : undefined;
+    const ray = image && camera ? getObservationRay(image, camera, observation.x, observation.y) : null;
+    if (ray) rays.push(ray);
+  }
+  return triangulateRays(rays);
+}
+
+/** Picked position, else the triangulated observations, else null. */
+export function getGcpModelPosition(
+  gcp: GroundControlPoint,
+  reconstruction: Pick<Reconstruction, 'images' | 'cameras'> | null
+): THREE.Vector3 | null {
+  if (gcp.pickedPosition) return new THREE.Vector3(...gcp.pickedPosition);
+  return reconstruction ? triangulateGcpObservations(gcp.observations, reconstruction) : null;
+}
+
+/** Model positions as displayed under the active transform. */
+export function getGcpDisplayedPositions(
+  modelPositions: ReadonlyMap<number, THREE.Vector3>,
+  transform: Sim3dEuler
+): Map<number, THREE.Vector3> {
+  if (isIdentityEuler(transform)) return new Map(modelPositions);
+  const sim3d = createSim3dFromEuler(transform);
+  return new Map([...modelPositions].map(([id, position]) => [
+    id,
+    position.clone().applyQuaternion(sim3d.rotation).multiplyScalar(sim3d.scale).add(sim3d.translation),
+  ]));
+}
+
+/** The active transform followed by a displayed-frame fit: model straight to world. */
+export function getGcpAppliedTransform(alignment: GcpAlignment, transform: Sim3dEuler): Sim3dEuler {
+  return sim3dToEuler(composeSim3d(alignment.sim3d, createSim3dFromEuler(transform)));
+}
+
+/**
+ * Umeyama fit over every GCP with both a position (see
+ * getGcpDisplayedPositions) and world coordinates. Null below three usable
+ * GCPs or for a collinear set.
+ */
+export function computeGcpAlignment(
+  gcps: readonly GroundControlPoint[],
+  positions: ReadonlyMap<number, THREE.Vector3>
+): GcpAlignment | null {
+  const usable = gcps.filter((gcp) => gcp.world && positions.has(gcp.id));
+  if (usable.length < MIN_GCP_ALIGNMENT_COUNT) return null;
+
+  const source = usable.map((gcp) => positions.get(gcp.id)!);
+  const target = usable.map((gcp) => new THREE.Vector3(...gcp.world!));
+  const sim3d = computeCorrespondenceAlignment(source, target);
+  if (!sim3d) return null;
+
+  let sumSq = 0;
+  const residuals = usable.map((gcp, i) => {
+    const residual = source[i].clone()
+      .applyQuaternion(sim3d.rotation)
+      .multiplyScalar(sim3d.scale)
+      .add(sim3d.translation)
+      .distanceTo(target[i]);
+    sumSq += residual * residual;
+    return { gcpId: gcp.id, name: gcp.name, residual };
+  });
+
+  return { sim3d, residuals, rmse: Math.sqrt(sumSq / usable.length) };
+}
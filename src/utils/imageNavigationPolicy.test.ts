@@ -19,6 +19,12 @@ describe('image navigation policy', () => {
     expect(buildMatchedImageIds(reconstruction, selectedImage.imageId, false)).toEqual(new Set());
     expect(buildMatchedImageIds(reconstruction, null, true)).toEqual(new Set());
     expect(buildMatchedImageIds(null, selectedImage.imageId, true)).toEqual(new Set());
+    expect(buildMatchedImageIds(
+      reconstruction,
+      selectedImage.imageId,
+      true,
+      new Map([[selectedImage.imageId, new Map([[30, 4]])]])
+    )).toEqual(new Set([30]));
   });
 
   it('returns the latest navigation target image ID', () => {
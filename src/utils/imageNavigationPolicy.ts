@@ -1,16 +1,17 @@
 import type { NavigationHistoryEntry } from '../store/types';
-import type { ImageId, Reconstruction } from '../types/colmap';
+import type { ConnectedImagesIndex, ImageId, Reconstruction } from '../types/colmap';
 
 export function buildMatchedImageIds(
   reconstruction: Reconstruction | null,
   selectedImageId: ImageId | null,
-  showMatches: boolean
+  showMatches: boolean,
+  connectedImagesIndex?: ConnectedImagesIndex | null
 ): Set<ImageId> {
   if (!reconstruction || selectedImageId === null || !showMatches) {
     return new Set();
   }
 
-  const connections = reconstruction.connectedImagesIndex.get(selectedImageId);
+  const connections = (connectedImagesIndex ?? reconstruction.connectedImagesIndex).get(selectedImageId);
   return new Set(connections?.keys() ?? []);
 }
 
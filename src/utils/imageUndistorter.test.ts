@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCamera,
+  buildImage,
+  buildPoint2D,
+  buildReconstruction,
+} from '../test/builders';
+import { CameraModelId } from '../types/colmap';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { distortNormalized } from './cameraUndistortion';
+import {
+  buildUndistortionRemap,
+  getUndistortedCamera,
+  remapRgbaPixels,
+  undistortPoint2D,
+  undistortReconstruction,
+} from './imageUndistorter';
+
+const barrelCamera = buildCamera({
+  modelId: CameraModelId.OPENCV,
+  width: 80,
+  height: 60,
+  params: [60, 62, 40, 30, -0.2, 0.02, 0, 0],
+});
+
+describe('getUndistortedCamera', () => {
+  it('keeps pinhole cameras as they are and has no equivalent for spherical cameras', () => {
+    const pinhole = buildCamera();
+    expect(getUndistortedCamera(pinhole, 'fullFrame')).toEqual(pinhole);
+    expect(getUndistortedCamera(
+      buildCamera({ modelId: CameraModelId.EQUIRECTANGULAR, params: [640, 320] }),
+      'fullFrame'
+    )).toBeNull();
+  });
+
+  it('writes PINHOLE for two-focal models and SIMPLE_PINHOLE for single-focal models', () => {
+    const opencv = getUndistortedCamera(barrelCamera, 'cropped')!;
+    expect(opencv.modelId).toBe(CameraModelId.PINHOLE);
+    expect(opencv.params.slice(0, 2)).toEqual([60, 62]);
+
+    const simpleRadial = getUndistortedCamera(
+      buildCamera({ modelId: CameraModelId.SIMPLE_RADIAL, width: 80, height: 60, params: [60, 40, 30, -0.1] }),
+      'cropped'
+    )!;
+    expect(simpleRadial.modelId).toBe(CameraModelId.SIMPLE_PINHOLE);
+    expect(simpleRadial.params).toHaveLength(3);
+    expect(simpleRadial.params[0]).toBe(60);
+  });
+
+  it('sizes the frame to keep every pixel in fullFrame and to drop blank borders when cropped', () => {
+    const fullFrame = getUndistortedCamera(barrelCamera, 'fullFrame')!;
+    const cropped = getUndistortedCamera(barrelCamera, 'cropped')!;
+
+    // Undistorting barrel distortion moves every border pixel outward, the
+    // edge midpoints least, so even the cropped frame grows.
+    expect(cropped.width).toBeGreaterThan(barrelCamera.width);
+    expect(cropped.height).toBeGreaterThan(barrelCamera.height);
+    expect(fullFrame.width).toBeGreaterThan(cropped.width);
+    expect(fullFrame.height).toBeGreaterThan(cropped.height);
+    // The principal point scales with the frame.
+    expect(fullFrame.params[2]).toBeCloseTo(40 * fullFrame.width / 80);
+    expect(fullFrame.params[3]).toBeCloseTo(30 * fullFrame.height / 60);
+  });
+
+  it('always crops fisheye cameras', () => {
+    const fisheye = buildCamera({
+      modelId: CameraModelId.OPENCV_FISHEYE,
+      width: 80,
+      height: 60,
+      params: [30, 30, 40, 30, 0, 0, 0, 0],
+    });
+    expect(getUndistortedCamera(fisheye, 'fullFrame')).toEqual(getUndistortedCamera(fisheye, 'cropped'));
+  });
+});
+
+describe('undistortPoint2D', () => {
+  it('maps the principal point to the undistorted principal point', () => {
+    const undistorted = getUndistortedCamera(barrelCamera, 'fullFrame')!;
+    const [x, y] = undistortPoint2D([40, 30], barrelCamera, undistorted);
+    expect(x).toBeCloseTo(undistorted.params[2]);
+    expect(y).toBeCloseTo(undistorted.params[3]);
+  });
+
+  it('is inverted by the remap table the undistorted image is sampled with', () => {
+    const undistorted = getUndistortedCamera(barrelCamera, 'fullFrame')!;
+    const map = buildUndistortionRemap(barrelCamera, undistorted);
+    const u = 10;
+    const v = 7;
+    const offset = (v * undistorted.width + u) * 2;
+    const source: [number, number] = [map[offset] + 0.5, map[offset + 1] + 0.5];
+
+    const [x, y] = undistortPoint2D(source, barrelCamera, undistorted);
+    expect(x).toBeCloseTo(u + 0.5, 4);
+    expect(y).toBeCloseTo(v + 0.5, 4);
+  });
+});
+
+describe('buildUndistortionRemap', () => {
+  it('samples the source pixel each undistorted pixel ray came from', () => {
+    const undistorted = getUndistortedCamera(barrelCamera, 'cropped')!;
+    const map = buildUndistortionRemap(barrelCamera, undistorted);
+    const [fx, fy, cx, cy] = undistorted.params;
+    const intrinsics = getCameraIntrinsics(barrelCamera);
+    const distorted = distortNormalized(
+      { x: (0.5 - cx) / fx, y: (0.5 - cy) / fy },
+      intrinsics,
+      barrelCamera.modelId
+    );
+
+    expect(map).toHaveLength(undistorted.width * undistorted.height * 2);
+    expect(map[0]).toBeCloseTo(intrinsics.fx * distorted.x + intrinsics.cx - 0.5, 4);
+    expect(map[1]).toBeCloseTo(intrinsics.fy * distorted.y + intrinsics.cy - 0.5, 4);
+  });
+});
+
+describe('remapRgbaPixels', () => {
+  const source = {
+    width: 2,
+    height: 1,
+    data: new Uint8ClampedArray([0, 0, 0, 255, 200, 100, 50, 255]),
+  };
+
+  it('interpolates between source pixels', () => {
+    const output = remapRgbaPixels(source, new Float32Array([0, 0, 0.5, 0, 1, 0]), 3, 1);
+    expect([...output]).toEqual([0, 0, 0, 255, 100, 50, 25, 255, 200, 100, 50, 255]);
+  });
+
+  it('fills samples outside the source with opaque black', () => {
+    const output = remapRgbaPixels(source, new Float32Array([5, 0, Number.NaN, 0]), 2, 1);
+    expect([...output]).toEqual([0, 0, 0, 255, 0, 0, 0, 255]);
+  });
+});
+
+describe('undistortReconstruction', () => {
+  it('replaces cameras, moves keypoints and keeps spherical images unchanged', () => {
+    const sphere = buildCamera({ cameraId: 2, modelId: CameraModelId.EQUIRECTANGULAR, params: [640, 320] });
+    const reconstruction = buildReconstruction({
+      cameras: [barrelCamera, sphere],
+      images: [
+        buildImage({ imageId: 1, cameraId: 1, points2D: [buildPoint2D({ xy: [40, 30], point3DId: 7 })] }),
+        buildImage({ imageId: 2, cameraId: 2, name: 'pano.jpg' }),
+      ],
+    });
+
+    const { reconstruction: undistorted, sourceCameras, unchangedImageIds } = undistortReconstruction(
+      reconstruction,
+      'fullFrame'
+    );
+
+    const camera = undistorted.cameras.get(1)!;
+    expect(camera.modelId).toBe(CameraModelId.PINHOLE);
+    expect(sourceCameras.get(1)).toBe(barrelCamera);
+    expect(undistorted.cameras.get(2)).toBe(sphere);
+    expect(unchangedImageIds).toEqual(new Set([2]));
+
+    const [point] = undistorted.images.get(1)!.points2D;
+    expect(point.point3DId).toBe(7);
+    expect(point.xy[0]).toBeCloseTo(camera.params[2]);
+    expect(point.xy[1]).toBeCloseTo(camera.params[3]);
+    expect(undistorted.images.get(2)).toBe(reconstruction.images.get(2));
+  });
+
+  it('reads keypoints through the getter for images loaded without them', () => {
+    const reconstruction = buildReconstruction({
+      cameras: [barrelCamera],
+      images: [buildImage({ imageId: 1, cameraId: 1, points2D: [] })],
+    });
+
+    const { reconstruction: undistorted } = undistortReconstruction(reconstruction, 'cropped', () => [
+      buildPoint2D({ xy: [10, 10], point3DId: 3 }),
+    ]);
+
+    const image = undistorted.images.get(1)!;
+    expect(image.points2D).toHaveLength(1);
+    expect(image.numPoints2D).toBe(1);
+    expect(image.points2D[0].point3DId).toBe(3);
+  });
+});
@@ -0,0 +1,269 @@
+import type { UndistortionMode } from '../store/types';
+import type { Camera, CameraId, Image, ImageId, Point2D, Reconstruction } from '../types/colmap';
+import { CameraModelId } from '../types/colmap';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { getCameraModelParamNames, isSphericalCameraModel } from './cameraModelRegistry';
+import { distortNormalized, undistortNormalized } from './cameraUndistortion';
+import { resolveUndistortionMode } from './undistortionMode';
+
+/**
+ * CPU port of COLMAP's `image_undistorter`: each distorted camera is replaced
+ * by a pinhole camera with the same focal lengths, sized so the undistorted
+ * frame either keeps every source pixel (`fullFrame`) or shows no blank
+ * border (`cropped`). Pixel coordinates follow COLMAP, with pixel centres at
+ * +0.5.
+ */
+
+// COLMAP UndistortCameraOptions defaults for min_scale / max_scale.
+const MIN_UNDISTORTED_SCALE = 0.2;
+const MAX_UNDISTORTED_SCALE = 2;
+
+export type Points2DGetter = (image: Image) => Point2D[];
+
+export interface UndistortedReconstruction {
+  reconstruction: Reconstruction;
+  /** Source camera of each undistorted camera, by camera ID. */
+  sourceCameras: Map<CameraId, Camera>;
+  /** Images left as they are because their camera has no pinhole equivalent. */
+  unchangedImageIds: Set<ImageId>;
+}
+
+function isPinholeCamera(camera: Camera): boolean {
+  return camera.modelId === CameraModelId.SIMPLE_PINHOLE || camera.modelId === CameraModelId.PINHOLE;
+}
+
+function toPinholeCamera(camera: Camera, fx: number, fy: number, cx: number, cy: number, width: number, height: number): Camera {
+  const singleFocal = getCameraModelParamNames(camera.modelId)[0] === 'f';
+  return singleFocal
+    ? { cameraId: camera.cameraId, modelId: CameraModelId.SIMPLE_PINHOLE, width, height, params: [fx, cx, cy] }
+    : { cameraId: camera.cameraId, modelId: CameraModelId.PINHOLE, width, height, params: [fx, fy, cx, cy] };
+}
+
+interface PinholeParams {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+}
+
+function getPinholeParams(camera: Camera): PinholeParams {
+  const [first, second, third, fourth] = camera.params;
+  return camera.modelId === CameraModelId.SIMPLE_PINHOLE
+    ? { fx: first, fy: first, cx: second, cy: third }
+    : { fx: first, fy: second, cx: third, cy: fourth };
+}
+
+interface BorderRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Range of undistorted pixel coordinates along one image border, on the
+ * pinhole camera that shares the source focal lengths and principal point.
+ */
+function getUndistortedBorderRange(
+  camera: Camera,
+  samples: number,
+  toPixel: (index: number) => [number, number],
+  axis: 'x' | 'y'
+): BorderRange | null {
+  const intrinsics = getCameraIntrinsics(camera);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let index = 0; index < samples; index++) {
+    const [px, py] = toPixel(index);
+    const result = undistortNormalized(
+      { x: (px - intrinsics.cx) / intrinsics.fx, y: (py - intrinsics.cy) / intrinsics.fy },
+      intrinsics,
+      camera.modelId
+    );
+    if (!result.valid) continue;
+    const value = axis === 'x'
+      ? intrinsics.fx * result.x + intrinsics.cx
+      : intrinsics.fy * result.y + intrinsics.cy;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return min <= max ? { min, max } : null;
+}
+
+function clampScale(scale: number): number {
+  if (!Number.isFinite(scale) || scale <= 0) return 1;
+  return Math.min(MAX_UNDISTORTED_SCALE, Math.max(MIN_UNDISTORTED_SCALE, scale));
+}
+
+/**
+ * Pinhole camera an undistorted image of `camera` is written with, or null for
+ * spherical cameras, which have no flat-plane equivalent. Fisheye cameras are
+ * always cropped, as in the live preview.
+ */
+export function getUndistortedCamera(camera: Camera, mode: UndistortionMode): Camera | null {
+  if (isSphericalCameraModel(camera.modelId)) return null;
+  if (isPinholeCamera(camera)) return { ...camera, params: [...camera.params] };
+
+  const { fx, fy, cx, cy } = getCameraIntrinsics(camera);
+  const { width, height } = camera;
+  const left = getUndistortedBorderRange(camera, height, (y) => [0.5, y + 0.5], 'x');
+  const right = getUndistortedBorderRange(camera, height, (y) => [width - 0.5, y + 0.5], 'x');
+  const top = getUndistortedBorderRange(camera, width, (x) => [x + 0.5, 0.5], 'y');
+  const bottom = getUndistortedBorderRange(camera, width, (x) => [x + 0.5, height - 0.5], 'y');
+  if (!left || !right || !top || !bottom) {
+    return toPinholeCamera(camera, fx, fy, cx, cy, width, height);
+  }
+
+  // Source extent over undistorted extent on each side: the smaller ratio
+  // keeps every source pixel, the larger one leaves no blank border.
+  const minScaleX = Math.min(cx / (cx - left.min), (width - 0.5 - cx) / (right.max - cx));
+  const maxScaleX = Math.max(cx / (cx - left.max), (width - 0.5 - cx) / (right.min - cx));
+  const minScaleY = Math.min(cy / (cy - top.min), (height - 0.5 - cy) / (bottom.max - cy));
+  const maxScaleY = Math.max(cy / (cy - top.max), (height - 0.5 - cy) / (bottom.min - cy));
+
+  const fullFrame = resolveUndistortionMode(mode, camera.modelId) === 'fullFrame';
+  const scaleX = clampScale(1 / (fullFrame ? minScaleX : maxScaleX));
+  const scaleY = clampScale(1 / (fullFrame ? minScaleY : maxScaleY));
+  const undistortedWidth = Math.max(1, Math.round(scaleX * width));
+  const undistortedHeight = Math.max(1, Math.round(scaleY * height));
+
+  return toPinholeCamera(
+    camera,
+    fx,
+    fy,
+    cx * undistortedWidth / width,
+    cy * undistortedHeight / height,
+    undistortedWidth,
+    undistortedHeight
+  );
+}
+
+/** Position of a source-image keypoint in the undistorted image. */
+export function undistortPoint2D(
+  [px, py]: readonly [number, number],
+  sourceCamera: Camera,
+  undistortedCamera: Camera
+): [number, number] {
+  const intrinsics = getCameraIntrinsics(sourceCamera);
+  const { x, y } = undistortNormalized(
+    { x: (px - intrinsics.cx) / intrinsics.fx, y: (py - intrinsics.cy) / intrinsics.fy },
+    intrinsics,
+    sourceCamera.modelId
+  );
+  const target = getPinholeParams(undistortedCamera);
+  return [target.fx * x + target.cx, target.fy * y + target.cy];
+}
+
+/**
+ * Source-image sample position for every undistorted pixel, as interleaved
+ * x/y pairs in row-major order. Positions are pixel indices, so (0, 0) is the
+ * centre of the top-left source pixel.
+ */
+export function buildUndistortionRemap(sourceCamera: Camera, undistortedCamera: Camera): Float32Array {
+  const intrinsics = getCameraIntrinsics(sourceCamera);
+  const target = getPinholeParams(undistortedCamera);
+  const { width, height } = undistortedCamera;
+  const map = new Float32Array(width * height * 2);
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const distorted = distortNormalized(
+        { x: (u + 0.5 - target.cx) / target.fx, y: (v + 0.5 - target.cy) / target.fy },
+        intrinsics,
+        sourceCamera.modelId
+      );
+      const offset = (v * width + u) * 2;
+      map[offset] = intrinsics.fx * distorted.x + intrinsics.cx - 0.5;
+      map[offset + 1] = intrinsics.fy * distorted.y + intrinsics.cy - 0.5;
+    }
+  }
+  return map;
+}
+
+export interface RgbaPixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bilinearly resample RGBA pixels through a remap table. Samples outside the
+ * source image are opaque black, matching COLMAP's blank pixels.
+ */
+export function remapRgbaPixels(
+  source: RgbaPixels,
+  map: Float32Array,
+  width: number,
+  height: number
+): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(width * height * 4);
+  const { data, width: sourceWidth, height: sourceHeight } = source;
+  for (let index = 0; index < width * height; index++) {
+    const out = index * 4;
+    output[out + 3] = 255;
+    const x = map[index * 2];
+    const y = map[index * 2 + 1];
+    if (!(x >= -0.5 && y >= -0.5 && x <= sourceWidth - 0.5 && y <= sourceHeight - 0.5)) continue;
+
+    const x0 = Math.max(0, Math.min(sourceWidth - 1, Math.floor(x)));
+    const y0 = Math.max(0, Math.min(sourceHeight - 1, Math.floor(y)));
+    const x1 = Math.min(sourceWidth - 1, x0 + 1);
+    const y1 = Math.min(sourceHeight - 1, y0 + 1);
+    const tx = Math.min(1, Math.max(0, x - x0));
+    const ty = Math.min(1, Math.max(0, y - y0));
+    const i00 = (y0 * sourceWidth + x0) * 4;
+    const i10 = (y0 * sourceWidth + x1) * 4;
+    const i01 = (y1 * sourceWidth + x0) * 4;
+    const i11 = (y1 * sourceWidth + x1) * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      const top = data[i00 + channel] + (data[i10 + channel] - data[i00 + channel]) * tx;
+      const bottom = data[i01 + channel] + (data[i11 + channel] - data[i01 + channel]) * tx;
+      output[out + channel] = top + (bottom - top) * ty;
+    }
+  }
+  return output;
+}
+
+/**
+ * Reconstruction with every camera replaced by its undistorted pinhole camera
+ * and every keypoint moved into the undistorted image. Poses, 3D points and
+ * tracks are unchanged; images of spherical cameras keep their camera and
+ * keypoints.
+ */
+export function undistortReconstruction(
+  reconstruction: Reconstruction,
+  mode: UndistortionMode,
+  getPoints2D: Points2DGetter = (image) => image.points2D
+): UndistortedReconstruction {
+  const cameras = new Map<CameraId, Camera>();
+  const sourceCameras = new Map<CameraId, Camera>();
+  for (const [cameraId, camera] of reconstruction.cameras) {
+    const undistorted = getUndistortedCamera(camera, mode);
+    if (undistorted) {
+      cameras.set(cameraId, undistorted);
+      sourceCameras.set(cameraId, camera);
+    } else {
+      cameras.set(cameraId, camera);
+    }
+  }
+
+  const images = new Map<ImageId, Image>();
+  const unchangedImageIds = new Set<ImageId>();
+  for (const [imageId, image] of reconstruction.images) {
+    const sourceCamera = sourceCameras.get(image.cameraId);
+    const undistortedCamera = cameras.get(image.cameraId);
+    if (!sourceCamera || !undistortedCamera) {
+      images.set(imageId, image);
+      unchangedImageIds.add(imageId);
+      continue;
+    }
+    const points2D = getPoints2D(image).map((point) => ({
+      xy: undistortPoint2D(point.xy, sourceCamera, undistortedCamera),
+      point3DId: point.point3DId,
+    }));
+    images.set(imageId, { ...image, points2D, numPoints2D: points2D.length });
+  }
+
+  return {
+    reconstruction: { ...reconstruction, cameras, images },
+    sourceCameras,
+    unchangedImageIds,
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { buildCamera, buildImage, buildPoint2D, buildPoint3D, buildReconstruction } from '../test/builders';
+import { CameraModelId, UNMATCHED_POINT3D_ID, type Point2D, type Point3D } from '../types/colmap';
+import {
+  buildCameraIntrinsicsReport,
+  buildIntrinsicsReports,
+  getDistortionCurve,
+  getKeypointCoverage,
+} from './intrinsicsReport';
+
+const opencvCamera = buildCamera({ modelId: CameraModelId.OPENCV, params: [500, 500, 320, 240, 0, 0, 0, 0] });
+
+/** Points at depth 1 in front of an identity-pose image, observed exactly where the undistorted camera projects them. */
+function gridObservations(): { points2D: Point2D[]; points3D: Point3D[] } {
+  const points2D: Point2D[] = [];
+  const points3D: Point3D[] = [];
+  for (let x = 20; x < 640; x += 60) {
+    for (let y = 20; y < 480; y += 60) {
+      const id = BigInt(points3D.length + 1);
+      points3D.push(buildPoint3D({ point3DId: id, xyz: [(x - 320) / 500, (y - 240) / 500, 1] }));
+      points2D.push(buildPoint2D({ xy: [x, y], point3DId: id }));
+    }
+  }
+  return { points2D, points3D };
+}
+
+describe('intrinsicsReport', () => {
+  it('counts keypoints per sensor cell and the covered share', () => {
+    const coverage = getKeypointCoverage(
+      [{ image: buildImage(), points2D: [buildPoint2D({ xy: [10, 10] }), buildPoint2D({ xy: [630, 470] })] }],
+      buildCamera(),
+      2,
+      2
+    );
+
+    expect(coverage).toEqual({ cols: 2, rows: 2, counts: [1, 0, 0, 1], coveredFraction: 0.5 });
+  });
+
+  it('samples the radial displacement of the distortion model', () => {
+    expect(getDistortionCurve(buildCamera()).every((sample) => sample.displacement === 0)).toBe(true);
+
+    const barrel = getDistortionCurve(buildCamera({ modelId: CameraModelId.SIMPLE_RADIAL, params: [500, 320, 240, -0.1] }), 4);
+    expect(barrel).toHaveLength(5);
+    expect(barrel[0]).toEqual({ radius: 0, displacement: 0 });
+    expect(barrel[4].displacement).toBeLessThan(barrel[2].displacement!);
+    expect(barrel[4].displacement).toBeLessThan(0);
+
+    expect(getDistortionCurve(buildCamera({ modelId: CameraModelId.EQUIRECTANGULAR, params: [] }))).toEqual([]);
+  });
+
+  it('pools residuals over the camera images and scores simpler models on them', () => {
+    const { points2D, points3D } = gridObservations();
+    const positions = new Map(points3D.map((point) => [point.point3DId, point.xyz]));
+    const images = [
+      buildImage({ imageId: 1, name: 'a.jpg', points2D }),
+      buildImage({ imageId: 2, name: 'b.jpg', points2D: points2D.map((point) => ({ ...point, xy: [point.xy[0] + 1, point.xy[1]] })) }),
+    ];
+
+    const report = buildCameraIntrinsicsReport(
+      opencvCamera,
+      images.map((image) => ({ image, points2D: image.points2D })),
+      positions
+    );
+
+    expect(report).toMatchObject({ cameraId: 1, modelName: 'OPENCV', imageCount: 2 });
+    expect(report.params.map((param) => param.name)).toEqual(['fx', 'fy', 'cx', 'cy', 'k1', 'k2', 'p1', 'p2']);
+    expect(report.residualCount).toBe(points2D.length * 2);
+    expect(report.meanError).toBeCloseTo(0.5);
+    expect(report.imageErrors.map((image) => image.name)).toEqual(['b.jpg', 'a.jpg']);
+    expect(report.imageErrors[0].meanError).toBeCloseTo(1);
+
+    expect(report.simplerModels.map((model) => model.modelName)).toEqual(['RADIAL', 'SIMPLE_RADIAL']);
+    expect(report.simplerModels[0]).toMatchObject({ paramCount: 5, compatibility: 'approximate' });
+    expect(report.simplerModels[0].meanError).toBeCloseTo(0.5);
+    expect(report.simplerModels[0].maxModelDifference).toBeCloseTo(0);
+  });
+
+  it('builds one report per camera, loading points2D the reconstruction did not keep', () => {
+    const { points2D, points3D } = gridObservations();
+    const reconstruction = buildReconstruction({
+      cameras: [buildCamera({ cameraId: 2 }), { ...opencvCamera, cameraId: 1 }],
+      images: [
+        buildImage({ imageId: 1, cameraId: 1, points2D: [] }),
+        buildImage({ imageId: 2, cameraId: 2, points2D: [buildPoint2D({ point3DId: UNMATCHED_POINT3D_ID })] }),
+      ],
+      points3D,
+    });
+    const loaded: number[] = [];
+
+    const reports = buildIntrinsicsReports(reconstruction, (image) => {
+      loaded.push(image.imageId);
+      return points2D;
+    }, null);
+
+    expect(loaded).toEqual([1]);
+    expect(reports.map((report) => report.cameraId)).toEqual([1, 2]);
+    expect(reports[0]).toMatchObject({ residualCount: points2D.length, keypointCount: points2D.length });
+    expect(reports[1]).toMatchObject({ residualCount: 0, keypointCount: 1, meanError: 0 });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Per-camera calibration quality report: reprojection residuals aggregated
+ * over every image sharing the camera, keypoint coverage of the sensor, the
+ * radial distortion curve, and how much worse the simpler models the camera
+ * converts to would fit the same observations.
+ */
+
+import type { Camera, CameraId, Image, ImageId, Point2D, Point3D, Point3DId, Reconstruction } from '../types/colmap';
+import { UNMATCHED_POINT3D_ID } from '../types/colmap';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { createConvertedCamera, getValidTargetModels, type ConversionCompatibility } from './cameraModelConversions';
+import { validateCameraModelProjectionConversion } from './cameraModelProjection';
+import {
+  cameraModelHasPinholeIntrinsics,
+  getCameraModelColmapName,
+  getCameraModelNumParams,
+  getCameraModelParamNames,
+} from './cameraModelRegistry';
+import { undistortNormalized } from './cameraUndistortion';
+import {
+  analyzeReprojectionResiduals,
+  collectPoint3DPositions,
+  computeImageReprojectionResiduals,
+  type Point3DPositionSource,
+  type RadialErrorBin,
+  type ReprojectionResidual,
+} from './reprojectionErrors';
+
+export interface KeypointCoverage {
+  cols: number;
+  rows: number;
+  /** Keypoints per cell, row-major. */
+  counts: number[];
+  /** Share of cells with at least one keypoint. */
+  coveredFraction: number;
+}
+
+export interface DistortionCurveSample {
+  /** Distorted radius as a fraction of the principal point to corner distance. */
+  radius: number;
+  /** Distorted minus undistorted radius in pixels; null past the model's valid domain. */
+  displacement: number | null;
+}
+
+export interface SimplerModelComparison {
+  modelName: string;
+  paramCount: number;
+  compatibility: ConversionCompatibility;
+  /** Largest pixel disagreement between the two models over the sensor. */
+  maxModelDifference: number;
+  /** Mean reprojection error of the same observations under the simpler model. */
+  meanError: number;
+}
+
+export interface ImageErrorSummary {
+  imageId: ImageId;
+  name: string;
+  residualCount: number;
+  meanError: number;
+}
+
+export interface CameraIntrinsicsReport {
+  cameraId: CameraId;
+  modelName: string;
+  width: number;
+  height: number;
+  params: { name: string; value: number }[];
+  imageCount: number;
+  keypointCount: number;
+  residualCount: number;
+  meanError: number;
+  medianError: number;
+  maxError: number;
+  radialBins: RadialErrorBin[];
+  distortionWarnings: string[];
+  coverage: KeypointCoverage;
+  distortionCurve: DistortionCurveSample[];
+  simplerModels: SimplerModelComparison[];
+  /** Images using this camera, largest mean error first. */
+  imageErrors: ImageErrorSummary[];
+}
+
+export interface CameraObservations {
+  image: Image;
+  points2D: readonly Point2D[];
+}
+
+export const KEYPOINT_COVERAGE_COLS = 16;
+export const KEYPOINT_COVERAGE_ROWS = 12;
+export const DISTORTION_CURVE_SAMPLES = 16;
+
+export function getKeypointCoverage(
+  observations: readonly CameraObservations[],
+  camera: Pick<Camera, 'width' | 'height'>,
+  cols = KEYPOINT_COVERAGE_COLS,
+  rows = KEYPOINT_COVERAGE_ROWS
+): KeypointCoverage {
+  const counts = new Array<number>(cols * rows).fill(0);
+  for (const { points2D } of observations) {
+    for (const { xy } of points2D) {
+      const col = Math.min(cols - 1, Math.max(0, Math.floor((xy[0] / camera.width) * cols)));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor((xy[1] / camera.height) * rows)));
+      counts[row * cols + col]++;
+    }
+  }
+  return {
+    cols,
+    rows,
+    counts,
+    coveredFraction: counts.filter((count) => count > 0).length / counts.length,
+  };
+}
+
+/**
+ * Radial displacement the model applies, sampled along the ray from the
+ * principal point to the farthest image corner. Negative values pull pixels
+ * towards the centre (barrel), positive values push them out (pincushion).
+ */
+export function getDistortionCurve(camera: Camera, samples = DISTORTION_CURVE_SAMPLES): DistortionCurveSample[] {
+  if (!cameraModelHasPinholeIntrinsics(camera.modelId)) return [];
+  const intrinsics = getCameraIntrinsics(camera);
+  const corners: [number, number][] = [[0, 0], [camera.width, 0], [0, camera.height], [camera.width, camera.height]];
+  const [cornerX, cornerY] = corners.reduce((farthest, corner) => (
+    Math.hypot(corner[0] - intrinsics.cx, corner[1] - intrinsics.cy)
+      > Math.hypot(farthest[0] - intrinsics.cx, farthest[1] - intrinsics.cy) ? corner : farthest
+  ));
+  const maxRadius = Math.hypot(cornerX - intrinsics.cx, cornerY - intrinsics.cy);
+  const dirX = maxRadius > 0 ? (cornerX - intrinsics.cx) / maxRadius : 1;
+  const dirY = maxRadius > 0 ? (cornerY - intrinsics.cy) / maxRadius : 0;
+
+  const curve: DistortionCurveSample[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const radius = (i / samples) * maxRadius;
+    const undistorted = undistortNormalized(
+      { x: (radius * dirX) / intrinsics.fx, y: (radius * dirY) / intrinsics.fy },
+      intrinsics,
+      camera.modelId
+    );
+    curve.push({
+      radius: i / samples,
+      displacement: undistorted.valid
+        ? radius - Math.hypot(undistorted.x * intrinsics.fx, undistorted.y * intrinsics.fy)
+        : null,
+    });
+  }
+  return curve;
+}
+
+function getObservationResiduals(
+  observations: readonly CameraObservations[],
+  camera: Camera,
+  positions: ReadonlyMap<Point3DId, Point3D['xyz']>
+): ReprojectionResidual[][] {
+  return observations.map(({ image, points2D }) => computeImageReprojectionResiduals(image, camera, points2D, positions));
+}
+
+function meanResidualError(residuals: readonly ReprojectionResidual[]): number {
+  return residuals.length > 0 ? residuals.reduce((sum, residual) => sum + residual.error, 0) / residuals.length : 0;
+}
+
+/** Conversions to models with fewer parameters, each re-scored on the camera's observations. */
+export function compareSimplerModels(
+  camera: Camera,
+  observations: readonly CameraObservations[],
+  positions: ReadonlyMap<Point3DId, Point3D['xyz']>
+): SimplerModelComparison[] {
+  const paramCount = getCameraModelNumParams(camera.modelId);
+  const comparisons: SimplerModelComparison[] = [];
+  for (const { modelId, compatibility } of getValidTargetModels(camera.modelId)) {
+    if (getCameraModelNumParams(modelId) >= paramCount || !cameraModelHasPinholeIntrinsics(modelId)) continue;
+    const simpler = createConvertedCamera(camera, modelId);
+    if (!simpler) continue;
+    comparisons.push({
+      modelName: getCameraModelColmapName(modelId),
+      paramCount: getCameraModelNumParams(modelId),
+      compatibility,
+      maxModelDifference: validateCameraModelProjectionConversion(camera, simpler).maxError,
+      meanError: meanResidualError(getObservationResiduals(observations, simpler, positions).flat()),
+    });
+  }
+  return comparisons.sort((a, b) => b.paramCount - a.paramCount);
+}
+
+export function buildCameraIntrinsicsReport(
+  camera: Camera,
+  observations: readonly CameraObservations[],
+  positions: ReadonlyMap<Point3DId, Point3D['xyz']>
+): CameraIntrinsicsReport {
+  const perImage = getObservationResiduals(observations, camera, positions);
+  const analysis = analyzeReprojectionResiduals(perImage.flat(), camera);
+  const paramNames = getCameraModelParamNames(camera.modelId);
+
+  return {
+    cameraId: camera.cameraId,
+    modelName: getCameraModelColmapName(camera.modelId),
+    width: camera.width,
+    height: camera.height,
+    params: camera.params.map((value, i) => ({ name: paramNames[i] ?? `p${i}`, value })),
+    imageCount: observations.length,
+    keypointCount: observations.reduce((sum, { points2D }) => sum + points2D.length, 0),
+    residualCount: analysis.residuals.length,
+    meanError: analysis.meanError,
+    medianError: analysis.medianError,
+    maxError: analysis.maxError,
+    radialBins: analysis.radialBins,
+    distortionWarnings: analysis.distortionWarnings,
+    coverage: getKeypointCoverage(observations, camera),
+    distortionCurve: getDistortionCurve(camera),
+    simplerModels: compareSimplerModels(camera, observations, positions),
+    imageErrors: observations
+      .map(({ image }, i) => ({
+        imageId: image.imageId,
+        name: image.name,
+        residualCount: perImage[i].length,
+        meanError: meanResidualError(perImage[i]),
+      }))
+      .sort((a, b) => b.meanError - a.meanError),
+  };
+}
+
+/**
+ * One report per camera, in camera id order. `loadPoints2D` supplies the
+ * keypoints of images whose points2D were not kept in memory (lite mode).
+ */
+export function buildIntrinsicsReports(
+  reconstruction: Pick<Reconstruction, 'cameras' | 'images' | 'points3D'>,
+  loadPoints2D: (image: Image) => readonly Point2D[],
+  wasm: Point3DPositionSource | null
+): CameraIntrinsicsReport[] {
+  const observationsByCamera = new Map<CameraId, CameraObservations[]>();
+  const point3DIds = new Set<Point3DId>();
+  for (const image of reconstruction.images.values()) {
+    const points2D = image.points2D.length > 0 ? image.points2D : loadPoints2D(image);
+    for (const point of points2D) {
+      if (point.point3DId !== UNMATCHED_POINT3D_ID) point3DIds.add(point.point3DId);
+    }
+    const list = observationsByCamera.get(image.cameraId) ?? [];
+    list.push({ image, points2D });
+    observationsByCamera.set(image.cameraId, list);
+  }
+
+  const positions = collectPoint3DPositions(point3DIds, reconstruction.points3D, wasm);
+  return [...reconstruction.cameras.values()]
+    .sort((a, b) => a.cameraId - b.cameraId)
+    .map((camera) => buildCameraIntrinsicsReport(camera, observationsByCamera.get(camera.cameraId) ?? [], positions));
+}
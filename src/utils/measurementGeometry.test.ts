@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createIdentityEuler } from './sim3dTransforms';
+import {
+  computeMeasurementValue,
+  evaluateMeasurements,
+  formatMeasurementValue,
+  getFloorFoot,
+  getMeasurementFloor,
+  getMeasurementModelPoint,
+  getMeasurementWorldPoints,
+  getSavedMeasurements,
+  hasValidPointCount,
+  isMeasurementComplete,
+  isSavedMeasurements,
+} from './measurementGeometry';
+
+const floor = { normal: [0, 1, 0] as [number, number, number], d: 1 };
+const scaled = { ...createIdentityEuler(), scale: 2, translationX: 1 };
+
+describe('measurementGeometry', () => {
+  it('knows which kinds complete on their own and which point counts are valid', () => {
+    expect(isMeasurementComplete('distance', 2)).toBe(true);
+    expect(isMeasurementComplete('polyline', 5)).toBe(false);
+    expect(hasValidPointCount('angle', 3)).toBe(true);
+    expect(hasValidPointCount('angle', 4)).toBe(false);
+    expect(hasValidPointCount('area', 2)).toBe(false);
+    expect(hasValidPointCount('area', 6)).toBe(true);
+  });
+
+  it('measures lengths, angles and heights above the floor', () => {
+    expect(computeMeasurementValue('polyline', [[0, 0, 0], [3, 4, 0], [3, 4, 2]], null).value).toBeCloseTo(7);
+    expect(computeMeasurementValue('angle', [[1, 0, 0], [0, 0, 0], [0, 0, 1]], null).value).toBeCloseTo(90);
+    expect(computeMeasurementValue('height', [[5, 2, 0]], floor)).toEqual({ value: 3, unit: 'length', projectedOnFloor: false });
+    expect(computeMeasurementValue('height', [[5, 2, 0]], null).value).toBeNull();
+  });
+
+  it('projects areas onto the floor when one is detected', () => {
+    const tilted: [number, number, number][] = [[0, 0, 0], [2, 0, 0], [2, 2, 2], [0, 2, 2]];
+
+    expect(computeMeasurementValue('area', tilted, null).value).toBeCloseTo(4 * Math.SQRT2);
+    expect(computeMeasurementValue('area', tilted, { normal: [0, 0, 1], d: 0 })).toMatchObject({ projectedOnFloor: true });
+    expect(computeMeasurementValue('area', tilted, { normal: [0, 0, 1], d: 0 }).value).toBeCloseTo(4);
+  });
+
+  it('maps points between the model and displayed frames', () => {
+    expect(getMeasurementWorldPoints([[1, 2, 3]], scaled)).toEqual([[3, 4, 6]]);
+    expect(getMeasurementModelPoint([3, 4, 6], scaled)).toEqual([1, 2, 3]);
+    expect(getFloorFoot([5, 2, 0], floor)).toEqual([5, -1, 0]);
+    expect(getMeasurementFloor(floor, true)?.d).toBe(-1);
+    expect(getMeasurementFloor(null, true)).toBeNull();
+  });
+
+  it('evaluates stored measurements in the displayed frame', () => {
+    const [evaluated] = evaluateMeasurements(
+      [{ id: 1, name: 'Door', type: 'distance', points: [[0, 0, 0], [0, 1, 0]] }],
+      scaled,
+      null
+    );
+
+    expect(evaluated.worldPoints).toEqual([[1, 0, 0], [1, 2, 0]]);
+    expect(evaluated.label).toBe('2.000');
+  });
+
+  it('formats values per kind', () => {
+    expect(formatMeasurementValue('area', { value: 0.25, unit: 'area', projectedOnFloor: false })).toBe('A 0.250');
+    expect(formatMeasurementValue('angle', { value: 42, unit: 'degrees', projectedOnFloor: false })).toBe('42.0°');
+    expect(formatMeasurementValue('height', { value: null, unit: 'length', projectedOnFloor: false })).toBe('no floor');
+  });
+
+  it('saves rounded model points and validates saved lists', () => {
+    const saved = getSavedMeasurements([{ id: 4, name: 'Post', type: 'height', points: [[0.12345678, 1, 2]] }]);
+
+    expect(saved).toEqual([{ name: 'Post', type: 'height', points: [[0.123457, 1, 2]] }]);
+    expect(isSavedMeasurements(saved)).toBe(true);
+    expect(isSavedMeasurements([{ name: 'Bad', type: 'distance', points: [[0, 0, 0]] }])).toBe(false);
+    expect(isSavedMeasurements([{ name: 'Bad', type: 'volume', points: [[0, 0, 0]] }])).toBe(false);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Measurement geometry: point counts per measurement kind, values measured in
+ * the transformed (displayed) frame so the active transform's scale applies,
+ * and the saved form used by config files and share links.
+ */
+
+import * as THREE from 'three';
+import { MEASUREMENT_TYPES, type Measurement, type MeasurementType } from '../store/types';
+import type { Sim3dEuler } from '../types/sim3d';
+import { flipPlaneNormal, type Plane } from './ransac';
+import { createSim3dFromEuler, inverseSim3d, isIdentityEuler, transformPoint } from './sim3dTransforms';
+
+export type MeasurementPoint = [number, number, number];
+
+export type MeasurementUnit = 'length' | 'area' | 'degrees';
+
+export interface MeasurementPointCount {
+  min: number;
+  /** Kinds with a fixed count complete on their last pick; the others are finished by hand. */
+  fixed: boolean;
+}
+
+export const MEASUREMENT_POINT_COUNTS: Record<MeasurementType, MeasurementPointCount> = {
+  distance: { min: 2, fixed: true },
+  polyline: { min: 2, fixed: false },
+  area: { min: 3, fixed: false },
+  angle: { min: 3, fixed: true },
+  height: { min: 1, fixed: true },
+};
+
+export const MEASUREMENT_TYPE_LABELS: Record<MeasurementType, string> = {
+  distance: 'Distance',
+  polyline: 'Polyline',
+  area: 'Area',
+  angle: 'Angle',
+  height: 'Height',
+};
+
+export const MEASUREMENT_UNITS: Record<MeasurementType, MeasurementUnit> = {
+  distance: 'length',
+  polyline: 'length',
+  area: 'area',
+  angle: 'degrees',
+  height: 'length',
+};
+
+export interface MeasurementValue {
+  /** Null when the measurement cannot be evaluated (a height without a detected floor). */
+  value: number | null;
+  unit: MeasurementUnit;
+  /** Areas are projected onto the floor plane when one is detected, otherwise onto the polygon's own plane. */
+  projectedOnFloor: boolean;
+}
+
+export function isMeasurementComplete(type: MeasurementType, pointCount: number): boolean {
+  const { min, fixed } = MEASUREMENT_POINT_COUNTS[type];
+  return fixed ? pointCount >= min : false;
+}
+
+export function canFinishMeasurement(type: MeasurementType, pointCount: number): boolean {
+  return pointCount >= MEASUREMENT_POINT_COUNTS[type].min;
+}
+
+export function hasValidPointCount(type: MeasurementType, pointCount: number): boolean {
+  const { min, fixed } = MEASUREMENT_POINT_COUNTS[type];
+  return fixed ? pointCount === min : pointCount >= min;
+}
+
+/** Floor plane with its normal pointing up (towards the cameras), as the floor widget shows it. */
+export function getMeasurementFloor(plane: Plane | null, normalFlipped: boolean): Plane | null {
+  if (!plane) return null;
+  return normalFlipped ? flipPlaneNormal(plane) : plane;
+}
+
+/** Model-space points as displayed under the active transform. */
+export function getMeasurementWorldPoints(
+  points: readonly MeasurementPoint[],
+  transform: Sim3dEuler
+): MeasurementPoint[] {
+  if (isIdentityEuler(transform)) return points.map((point) => [...point]);
+  const sim3d = createSim3dFromEuler(transform);
+  return points.map((point) => transformPoint(sim3d, point));
+}
+
+/** Model-space position of a point picked in the displayed frame. */
+export function getMeasurementModelPoint(world: MeasurementPoint, transform: Sim3dEuler): MeasurementPoint {
+  if (isIdentityEuler(transform)) return [...world];
+  return transformPoint(inverseSim3d(createSim3dFromEuler(transform)), world);
+}
+
+function toVector(point: MeasurementPoint): THREE.Vector3 {
+  return new THREE.Vector3(point[0], point[1], point[2]);
+}
+
+function getPathLength(points: readonly MeasurementPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += toVector(points[i - 1]).distanceTo(toVector(points[i]));
+  }
+  return length;
+}
+
+/** Twice the polygon's vector area (Newell's method); its length is the area of the best-fit plane. */
+function getPolygonAreaVector(points: readonly MeasurementPoint[]): THREE.Vector3 {
+  const sum = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    sum.add(toVector(points[i]).cross(toVector(points[(i + 1) % points.length])));
+  }
+  return sum;
+}
+
+export function getSignedHeightAboveFloor(point: MeasurementPoint, floor: Plane): number {
+  return floor.normal[0] * point[0] + floor.normal[1] * point[1] + floor.normal[2] * point[2] + floor.d;
+}
+
+/** Foot of the perpendicular from a point onto the floor plane. */
+export function getFloorFoot(point: MeasurementPoint, floor: Plane): MeasurementPoint {
+  const height = getSignedHeightAboveFloor(point, floor);
+  return [
+    point[0] - floor.normal[0] * height,
+    point[1] - floor.normal[1] * height,
+    point[2] - floor.normal[2] * height,
+  ];
+}
+
+/**
+ * Value of a measurement from its displayed-frame points: lengths, an area
+ * (projected onto the floor when one is given), the angle at the middle
+ * point in degrees, or the height above the floor.
+ */
+export function computeMeasurementValue(
+  type: MeasurementType,
+  worldPoints: readonly MeasurementPoint[],
+  floor: Plane | null
+): MeasurementValue {
+  const result = (value: number | null, projectedOnFloor = false): MeasurementValue => ({
+    value,
+    unit: MEASUREMENT_UNITS[type],
+    projectedOnFloor,
+  });
+  if (worldPoints.length < MEASUREMENT_POINT_COUNTS[type].min) return result(null);
+
+  switch (type) {
+    case 'distance':
+    case 'polyline':
+      return result(getPathLength(worldPoints));
+    case 'area': {
+      const areaVector = getPolygonAreaVector(worldPoints);
+      if (floor) return result(Math.abs(areaVector.dot(toVector(floor.normal))) / 2, true);
+      return result(areaVector.length() / 2);
+    }
+    case 'angle': {
+      const vertex = toVector(worldPoints[1]);
+      const a = toVector(worldPoints[0]).sub(vertex);
+      const b = toVector(worldPoints[2]).sub(vertex);
+      if (a.lengthSq() === 0 || b.lengthSq() === 0) return result(null);
+      return result(THREE.MathUtils.radToDeg(a.angleTo(b)));
+    }
+    case 'height':
+      return result(floor ? getSignedHeightAboveFloor(worldPoints[0], floor) : null);
+  }
+}
+
+function formatNumber(value: number): string {
+  if (value === 0) return '0';
+  return Math.abs(value) >= 1 ? value.toFixed(3) : value.toPrecision(3);
+}
+
+/** Short value text for labels and lists, e.g. "1.250", "A 2.000" or "42.5°". */
+export function formatMeasurementValue(type: MeasurementType, measured: MeasurementValue): string {
+  if (measured.value === null) return type === 'height' ? 'no floor' : '—';
+  switch (type) {
+    case 'distance':
+      return formatNumber(measured.value);
+    case 'polyline':
+      return `Σ ${formatNumber(measured.value)}`;
+    case 'area':
+      return `A ${formatNumber(measured.value)}`;
+    case 'angle':
+      return `${measured.value.toFixed(1)}°`;
+    case 'height':
+      return `↑ ${formatNumber(measured.value)}`;
+  }
+}
+
+export interface EvaluatedMeasurement {
+  measurement: Measurement;
+  /** Points in the displayed frame. */
+  worldPoints: MeasurementPoint[];
+  measured: MeasurementValue;
+  label: string;
+}
+
+export function evaluateMeasurements(
+  measurements: readonly Measurement[],
+  transform: Sim3dEuler,
+  floor: Plane | null
+): EvaluatedMeasurement[] {
+  return measurements.map((measurement) => {
+    const worldPoints = getMeasurementWorldPoints(measurement.points, transform);
+    const measured = computeMeasurementValue(measurement.type, worldPoints, floor);
+    return { measurement, worldPoints, measured, label: formatMeasurementValue(measurement.type, measured) };
+  });
+}
+
+// ============================================================================
+// Saved measurements (config files and share links)
+// ============================================================================
+
+export interface SavedMeasurement {
+  name: string;
+  type: MeasurementType;
+  /** Model coordinates, before the active transform. */
+  points: MeasurementPoint[];
+}
+
+const SAVED_PRECISION = 1e6;
+
+function roundSaved(value: number): number {
+  return Math.round(value * SAVED_PRECISION) / SAVED_PRECISION;
+}
+
+export function getSavedMeasurements(measurements: readonly Measurement[]): SavedMeasurement[] {
+  return measurements.map(({ name, type, points }) => ({
+    name,
+    type,
+    points: points.map((point) => [roundSaved(point[0]), roundSaved(point[1]), roundSaved(point[2])]),
+  }));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFinitePoint(value: unknown): value is MeasurementPoint {
+  return Array.isArray(value)
+    && value.length === 3
+    && value.every((entry) => typeof entry === 'number' && Number.isFinite(entry));
+}
+
+const measurementTypeSet = new Set<string>(MEASUREMENT_TYPES);
+
+function isSavedMeasurement(value: unknown): value is SavedMeasurement {
+  if (!isRecord(value)) return false;
+  return typeof value.name === 'string'
+    && typeof value.type === 'string' && measurementTypeSet.has(value.type)
+    && Array.isArray(value.points)
+    && value.points.every(isFinitePoint)
+    && hasValidPointCount(value.type as MeasurementType, value.points.length);
+}
+
+export function isSavedMeasurements(value: unknown): value is SavedMeasurement[] {
+  return Array.isArray(value) && value.every(isSavedMeasurement);
+}
@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { buildCamera } from '../test/builders';
+import { CameraModelId } from '../types/colmap';
+import {
+  combinePointSelection,
+  getPointSelectionMode,
+  isPointInPolygon,
+  selectPointsInImageFrustum,
+  selectPointsInScreenPolygon,
+} from './pointSelection';
+
+const lookup = { get: (index: number) => BigInt(index + 1) };
+
+describe('isPointInPolygon', () => {
+  it('uses the even-odd rule on concave polygons', () => {
+    const notch: [number, number][] = [[0, 0], [4, 0], [4, 4], [2, 1], [0, 4]];
+
+    expect(isPointInPolygon(1, 0.5, notch)).toBe(true);
+    expect(isPointInPolygon(2, 3, notch)).toBe(false);
+    expect(isPointInPolygon(5, 1, notch)).toBe(false);
+  });
+});
+
+describe('selectPointsInScreenPolygon', () => {
+  it('selects points projecting inside the polygon and skips points behind the viewer', () => {
+    const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100);
+    camera.position.set(0, 0, 5);
+    camera.updateMatrixWorld();
+    const clipMatrix = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    const positions = new Float32Array([
+      0, 0, 0, // centre
+      4, 0, 0, // right edge of the view
+      0, 0, 10, // behind the camera
+    ]);
+
+    const selected = selectPointsInScreenPolygon({
+      positions,
+      lookup,
+      clipMatrix,
+      polygon: [[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5]],
+    });
+
+    expect([...selected]).toEqual([1n]);
+  });
+});
+
+describe('selectPointsInImageFrustum', () => {
+  const image = { qvec: [1, 0, 0, 0] as [number, number, number, number], tvec: [0, 0, 0] as [number, number, number] };
+  const positions = new Float32Array([
+    0, 0, 2, // on the optical axis
+    0, 0, 20, // far along the axis
+    10, 0, 2, // outside the sensor
+    0, 0, -2, // behind the camera
+  ]);
+
+  it('selects points the image sees within the depth limit', () => {
+    const camera = buildCamera();
+
+    expect([...selectPointsInImageFrustum({ positions, lookup, image, camera, maxDepth: null })]).toEqual([1n, 2n]);
+    expect([...selectPointsInImageFrustum({ positions, lookup, image, camera, maxDepth: 5 })]).toEqual([1n]);
+  });
+
+  it('only applies the depth limit to spherical cameras', () => {
+    const camera = buildCamera({ modelId: CameraModelId.EQUIRECTANGULAR, params: [] });
+
+    expect([...selectPointsInImageFrustum({ positions, lookup, image, camera, maxDepth: 5 })]).toEqual([1n, 4n]);
+  });
+});
+
+describe('point selection modes', () => {
+  it('combines resolved selections by mode', () => {
+    const current = new Set([1n, 2n]);
+
+    expect([...combinePointSelection(current, new Set([3n]), 'replace')]).toEqual([3n]);
+    expect([...combinePointSelection(current, new Set([3n]), 'add')]).toEqual([1n, 2n, 3n]);
+    expect([...combinePointSelection(current, new Set([1n]), 'subtract')]).toEqual([2n]);
+  });
+
+  it('maps Shift to add and Alt to subtract', () => {
+    expect(getPointSelectionMode({ shiftKey: false, altKey: false })).toBe('replace');
+    expect(getPointSelectionMode({ shiftKey: true, altKey: false })).toBe('add');
+    expect(getPointSelectionMode({ shiftKey: true, altKey: true })).toBe('subtract');
+  });
+});
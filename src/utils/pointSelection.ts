@@ -0,0 +1,138 @@
+/**
+ * Geometric point selection for editing: which rendered 3D points fall inside
+ * a screen-space box or lasso, or inside the viewing volume of an image.
+ */
+
+import * as THREE from 'three';
+import type { Camera, Image, Point3DId } from '../types/colmap';
+import { projectPoint } from './cameraModelProjection';
+import { cameraModelHasPinholeIntrinsics } from './cameraModelRegistry';
+
+/** How a new selection combines with the current one. */
+export type PointSelectionMode = 'replace' | 'add' | 'subtract';
+
+/** Shift adds to the selection, Alt subtracts from it. */
+export function getPointSelectionMode(modifiers: { shiftKey: boolean; altKey: boolean }): PointSelectionMode {
+  if (modifiers.altKey) return 'subtract';
+  return modifiers.shiftKey ? 'add' : 'replace';
+}
+
+export function combinePointSelection(
+  current: ReadonlySet<Point3DId>,
+  pointIds: ReadonlySet<Point3DId>,
+  mode: PointSelectionMode
+): Set<Point3DId> {
+  if (mode === 'replace') return new Set(pointIds);
+  const next = new Set(current);
+  for (const id of pointIds) {
+    if (mode === 'add') next.add(id);
+    else next.delete(id);
+  }
+  return next;
+}
+
+/** Maps a render index to its COLMAP point3D_id. */
+export interface PointIdLookup {
+  get(index: number): Point3DId | undefined;
+}
+
+/** Even-odd rule; the polygon is implicitly closed. */
+export function isPointInPolygon(x: number, y: number, polygon: readonly [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export interface ScreenPolygonSelectionInput {
+  /** Flat xyz positions in the points' local frame. */
+  positions: Float32Array;
+  lookup: PointIdLookup;
+  /** projection · view · model: local point to clip space. */
+  clipMatrix: THREE.Matrix4;
+  /** Polygon in normalized device coordinates (-1..1, y up). */
+  polygon: readonly [number, number][];
+}
+
+/** Points in front of the viewer whose projection lands inside the polygon. */
+export function selectPointsInScreenPolygon({
+  positions,
+  lookup,
+  clipMatrix,
+  polygon,
+}: ScreenPolygonSelectionInput): Set<Point3DId> {
+  const selected = new Set<Point3DId>();
+  if (polygon.length < 3) return selected;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of polygon) {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  }
+
+  const e = clipMatrix.elements;
+  const count = Math.floor(positions.length / 3);
+  for (let i = 0; i < count; i++) {
+    const px = positions[i * 3], py = positions[i * 3 + 1], pz = positions[i * 3 + 2];
+    const w = e[3] * px + e[7] * py + e[11] * pz + e[15];
+    if (w <= 0) continue;
+    const x = (e[0] * px + e[4] * py + e[8] * pz + e[12]) / w;
+    const y = (e[1] * px + e[5] * py + e[9] * pz + e[13]) / w;
+    if (x < minX || x > maxX || y < minY || y > maxY) continue;
+    if (!isPointInPolygon(x, y, polygon)) continue;
+    const id = lookup.get(i);
+    if (id !== undefined) selected.add(id);
+  }
+  return selected;
+}
+
+export interface ImageFrustumSelectionInput {
+  positions: Float32Array;
+  lookup: PointIdLookup;
+  image: Pick<Image, 'qvec' | 'tvec'>;
+  camera: Camera;
+  /** Camera-space depth limit; null selects the whole viewing volume. */
+  maxDepth: number | null;
+}
+
+/**
+ * Points the image sees: in front of the camera and projecting inside the
+ * sensor. Spherical cameras see all directions, so only the depth limit applies.
+ */
+export function selectPointsInImageFrustum({
+  positions,
+  lookup,
+  image,
+  camera,
+  maxDepth,
+}: ImageFrustumSelectionInput): Set<Point3DId> {
+  const rotation = new THREE.Quaternion(image.qvec[1], image.qvec[2], image.qvec[3], image.qvec[0]);
+  const translation = new THREE.Vector3(...image.tvec);
+  const hasPinholePlane = cameraModelHasPinholeIntrinsics(camera.modelId);
+  const cameraPoint = new THREE.Vector3();
+  const selected = new Set<Point3DId>();
+
+  const count = Math.floor(positions.length / 3);
+  for (let i = 0; i < count; i++) {
+    cameraPoint.set(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2])
+      .applyQuaternion(rotation)
+      .add(translation);
+    if (hasPinholePlane) {
+      if (cameraPoint.z <= 0 || (maxDepth !== null && cameraPoint.z > maxDepth)) continue;
+      const projected = projectPoint(camera, cameraPoint.x / cameraPoint.z, cameraPoint.y / cameraPoint.z);
+      if (!projected || !(projected.x >= 0 && projected.x < camera.width && projected.y >= 0 && projected.y < camera.height)) {
+        continue;
+      }
+    } else if (maxDepth !== null && cameraPoint.length() > maxDepth) {
+      continue;
+    }
+    const id = lookup.get(i);
+    if (id !== undefined) selected.add(id);
+  }
+  return selected;
+}
@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { buildImage } from '../test/builders';
+import type { Image } from '../types/colmap';
+import { computeReconstructionDiff, getRotationDifferenceDeg } from './reconstructionDiff';
+
+function buildPosedImage(
+  imageId: number,
+  name: string,
+  center: THREE.Vector3,
+  worldQuaternion: THREE.Quaternion
+): Image {
+  const cameraFromWorld = worldQuaternion.clone().invert();
+  const tvec = center.clone().applyQuaternion(cameraFromWorld).negate();
+  return buildImage({
+    imageId,
+    name,
+    qvec: [cameraFromWorld.w, cameraFromWorld.x, cameraFromWorld.y, cameraFromWorld.z],
+    tvec: [tvec.x, tvec.y, tvec.z],
+  });
+}
+
+const centers = [
+  new THREE.Vector3(0, 0, 0),
+  new THREE.Vector3(2, 0, 0),
+  new THREE.Vector3(2, 1, 0),
+  new THREE.Vector3(0, 1, 1),
+];
+const orientations = centers.map((_, i) =>
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(0.1 * i, 0.2, -0.3 * i))
+);
+
+// The compare model is the reference seen through x' = 0.5 * R * x + t.
+const modelFromReference = {
+  scale: 0.5,
+  rotation: new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 3),
+  translation: new THREE.Vector3(4, -1, 2),
+};
+
+function toCompareFrame(center: THREE.Vector3): THREE.Vector3 {
+  return center.clone()
+    .applyQuaternion(modelFromReference.rotation)
+    .multiplyScalar(modelFromReference.scale)
+    .add(modelFromReference.translation);
+}
+
+function compareQuaternion(index: number): THREE.Quaternion {
+  return modelFromReference.rotation.clone().multiply(orientations[index]);
+}
+
+const referenceImages = centers.map((center, i) => buildPosedImage(i + 1, `img${i}.jpg`, center, orientations[i]));
+const compareImages = centers.map((center, i) =>
+  buildPosedImage(
+    10 + i,
+    `img${i}.jpg`,
+    toCompareFrame(center),
+    compareQuaternion(i)
+  )
+);
+
+describe('computeReconstructionDiff', () => {
+  it('aligns the compare model and reports zero error for identical poses', () => {
+    const diff = computeReconstructionDiff(referenceImages, compareImages);
+
+    expect(diff.alignment?.scale).toBeCloseTo(2, 6);
+    expect(diff.matched).toHaveLength(4);
+    expect(diff.positionRmse).toBeLessThan(1e-6);
+    expect(diff.maxRotationErrorDeg).toBeLessThan(1e-3);
+    expect(diff.matched[0]).toMatchObject({ name: 'img0.jpg', referenceImageId: 1, compareImageId: 10 });
+  });
+
+  it('measures perturbed cameras and lists images registered in one model only', () => {
+    const perturbed = [...compareImages];
+    const turned = modelFromReference.rotation.clone()
+      .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), THREE.MathUtils.degToRad(10)))
+      .multiply(orientations[3]);
+    perturbed[3] = buildPosedImage(13, 'img3.jpg', toCompareFrame(centers[3]), turned);
+    perturbed[1] = buildPosedImage(11, 'img1.jpg', toCompareFrame(centers[1]).add(new THREE.Vector3(0, 0, 0.2)), compareQuaternion(1));
+    perturbed.push(buildPosedImage(20, 'extra.jpg', new THREE.Vector3(), new THREE.Quaternion()));
+
+    const diff = computeReconstructionDiff(
+      [...referenceImages, buildPosedImage(9, 'missing.jpg', new THREE.Vector3(), new THREE.Quaternion())],
+      perturbed
+    );
+
+    const worst = diff.matched.reduce((a, b) => (b.rotationErrorDeg > a.rotationErrorDeg ? b : a));
+    expect(worst.name).toBe('img3.jpg');
+    expect(worst.rotationErrorDeg).toBeGreaterThan(5);
+    const farthest = diff.matched.reduce((a, b) => (b.positionError > a.positionError ? b : a));
+    expect(farthest.name).toBe('img1.jpg');
+    expect(diff.positionRmse).toBeGreaterThan(0);
+    expect(diff.onlyInReference).toEqual([{ imageId: 9, name: 'missing.jpg' }]);
+    expect(diff.onlyInCompare).toEqual([{ imageId: 20, name: 'extra.jpg' }]);
+  });
+
+  it('skips alignment with fewer than three shared images', () => {
+    const diff = computeReconstructionDiff(referenceImages.slice(0, 2), compareImages);
+
+    expect(diff.alignment).toBeNull();
+    expect(diff.sharedImageCount).toBe(2);
+    expect(diff.matched).toEqual([]);
+    expect(diff.onlyInCompare.map((image) => image.name)).toEqual(['img2.jpg', 'img3.jpg']);
+    expect(diff.positionRmse).toBe(0);
+  });
+
+  it('measures rotation differences in degrees', () => {
+    const a = new THREE.Quaternion();
+    const b = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2);
+    expect(getRotationDifferenceDeg(a, b)).toBeCloseTo(90, 6);
+  });
+});
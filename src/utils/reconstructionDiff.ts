@@ -0,0 +1,135 @@
+/**
+ * Compare two reconstructions of the same scene.
+ *
+ * Images are matched by name, a Sim3d mapping the compare model into the
+ * reference frame is estimated from the matched camera centres, and each
+ * matched image gets a position error (reference units) and a rotation error
+ * (degrees) after alignment.
+ */
+
+import * as THREE from 'three';
+import type { Image, ImageId } from '../types/colmap';
+import type { Sim3d } from '../types/sim3d';
+import { getImageWorldPose } from './colmapTransforms';
+import { computeCorrespondenceAlignment } from './sim3dAlignment';
+
+export interface ReconstructionDiffImage {
+  name: string;
+  referenceImageId: ImageId;
+  compareImageId: ImageId;
+  referencePosition: THREE.Vector3;
+  referenceQuaternion: THREE.Quaternion;
+  /** Compare camera centre mapped into the reference frame. */
+  alignedPosition: THREE.Vector3;
+  /** Compare camera-to-world rotation mapped into the reference frame. */
+  alignedQuaternion: THREE.Quaternion;
+  positionError: number;
+  rotationErrorDeg: number;
+}
+
+export interface ReconstructionDiffUnmatchedImage {
+  imageId: ImageId;
+  name: string;
+}
+
+export interface ReconstructionDiff {
+  /** compare-to-reference transform; null when fewer than 3 usable matches. */
+  alignment: Sim3d | null;
+  /** Images present in both models, whether or not alignment succeeded. */
+  sharedImageCount: number;
+  matched: ReconstructionDiffImage[];
+  onlyInReference: ReconstructionDiffUnmatchedImage[];
+  onlyInCompare: ReconstructionDiffUnmatchedImage[];
+  positionRmse: number;
+  medianPositionError: number;
+  medianRotationErrorDeg: number;
+  maxRotationErrorDeg: number;
+}
+
+function byName(images: Iterable<Image>): Map<string, Image> {
+  const map = new Map<string, Image>();
+  for (const image of images) {
+    // First registration wins; duplicate names are unusual in COLMAP output.
+    if (!map.has(image.name)) map.set(image.name, image);
+  }
+  return map;
+}
+
+function median(values: readonly number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Angle between two rotations in degrees. */
+export function getRotationDifferenceDeg(a: THREE.Quaternion, b: THREE.Quaternion): number {
+  return THREE.MathUtils.radToDeg(a.angleTo(b));
+}
+
+export function computeReconstructionDiff(
+  referenceImages: Iterable<Image>,
+  compareImages: Iterable<Image>
+): ReconstructionDiff {
+  const referenceByName = byName(referenceImages);
+  const compareByName = byName(compareImages);
+
+  const pairs: { reference: Image; compare: Image }[] = [];
+  const onlyInReference: ReconstructionDiffUnmatchedImage[] = [];
+  for (const [name, reference] of referenceByName) {
+    const compare = compareByName.get(name);
+    if (compare) {
+      pairs.push({ reference, compare });
+    } else {
+      onlyInReference.push({ imageId: reference.imageId, name });
+    }
+  }
+  const onlyInCompare: ReconstructionDiffUnmatchedImage[] = [];
+  for (const [name, compare] of compareByName) {
+    if (!referenceByName.has(name)) onlyInCompare.push({ imageId: compare.imageId, name });
+  }
+
+  const referencePoses = pairs.map(({ reference }) => getImageWorldPose(reference));
+  const comparePoses = pairs.map(({ compare }) => getImageWorldPose(compare));
+  const alignment = computeCorrespondenceAlignment(
+    comparePoses.map((pose) => pose.position),
+    referencePoses.map((pose) => pose.position)
+  );
+
+  const matched = alignment
+    ? pairs.map(({ reference, compare }, i): ReconstructionDiffImage => {
+        const alignedPosition = comparePoses[i].position.clone()
+          .applyQuaternion(alignment.rotation)
+          .multiplyScalar(alignment.scale)
+          .add(alignment.translation);
+        const alignedQuaternion = alignment.rotation.clone().multiply(comparePoses[i].quaternion);
+        return {
+          name: reference.name,
+          referenceImageId: reference.imageId,
+          compareImageId: compare.imageId,
+          referencePosition: referencePoses[i].position,
+          referenceQuaternion: referencePoses[i].quaternion,
+          alignedPosition,
+          alignedQuaternion,
+          positionError: alignedPosition.distanceTo(referencePoses[i].position),
+          rotationErrorDeg: getRotationDifferenceDeg(alignedQuaternion, referencePoses[i].quaternion),
+        };
+      })
+    : [];
+
+  const positionErrors = matched.map((image) => image.positionError);
+  const rotationErrors = matched.map((image) => image.rotationErrorDeg);
+  const squaredSum = positionErrors.reduce((sum, error) => sum + error * error, 0);
+
+  return {
+    alignment,
+    sharedImageCount: pairs.length,
+    matched,
+    onlyInReference,
+    onlyInCompare,
+    positionRmse: matched.length > 0 ? Math.sqrt(squaredSum / matched.length) : 0,
+    medianPositionError: median(positionErrors),
+    medianRotationErrorDeg: median(rotationErrors),
+    maxRotationErrorDeg: rotationErrors.length > 0 ? Math.max(...rotationErrors) : 0,
+  };
+}
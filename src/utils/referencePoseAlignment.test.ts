@@ -0,0 +1,91 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import type { ReferencePoses } from '../parsers/referencePoses';
+import { buildImage } from '../test/builders';
+import type { Image, ImageId } from '../types/colmap';
+import {
+  computeReferencePoseAlignment,
+  getDefaultReferenceInlierThreshold,
+  matchReferencePoses,
+} from './referencePoseAlignment';
+
+// Identity rotation, so the camera centre is -tvec.
+function buildCenteredImage(imageId: number, name: string, center: [number, number, number]): Image {
+  return buildImage({ imageId, name, qvec: [1, 0, 0, 0], tvec: [-center[0], -center[1], -center[2]] });
+}
+
+const centers: [number, number, number][] = [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 1], [2, 0, 1], [0, 2, 2]];
+const images = centers.map((center, i) => buildCenteredImage(i + 1, `seq/${1000 + i}.5.png`, center));
+const imageMap = new Map<ImageId, Image>(images.map((image) => [image.imageId, image]));
+
+// Reference frame: x' = 10 * x + (500, 200, 30)
+function toReference([x, y, z]: [number, number, number]): [number, number, number] {
+  return [10 * x + 500, 10 * y + 200, 10 * z + 30];
+}
+
+describe('matchReferencePoses', () => {
+  it('matches CSV rows by full name or basename', () => {
+    const poses: ReferencePoses = {
+      format: 'csv',
+      skippedLineCount: 0,
+      entries: [
+        { name: 'seq/1000.5.png', timestamp: null, position: [1, 2, 3] },
+        { name: '1001.5.png', timestamp: null, position: [4, 5, 6] },
+        { name: 'unknown.png', timestamp: null, position: [0, 0, 0] },
+      ],
+    };
+
+    const result = matchReferencePoses(images, poses);
+
+    expect(result.mode).toBe('name');
+    expect(result.matches.map((match) => match.imageId)).toEqual([1, 2]);
+    expect(result.unmatchedEntryCount).toBe(1);
+  });
+
+  it('matches TUM timestamps to numeric image names, else falls back to order', () => {
+    const stamped: ReferencePoses = {
+      format: 'tum',
+      skippedLineCount: 0,
+      entries: [{ name: null, timestamp: 1002.50001, position: [1, 1, 1] }],
+    };
+    expect(matchReferencePoses(images, stamped)).toMatchObject({ mode: 'timestamp', matches: [{ imageId: 3 }] });
+
+    const unstamped: ReferencePoses = { ...stamped, entries: [{ ...stamped.entries[0], timestamp: 7 }] };
+    expect(matchReferencePoses(images, unstamped)).toMatchObject({ mode: 'order', matches: [{ imageId: 1 }] });
+  });
+});
+
+describe('computeReferencePoseAlignment', () => {
+  it('recovers the similarity and flags a bad reference position', () => {
+    const poses: ReferencePoses = {
+      format: 'kitti',
+      skippedLineCount: 0,
+      entries: centers.map((center) => ({ name: null, timestamp: null, position: toReference(center) })),
+    };
+    poses.entries[4] = { ...poses.entries[4], position: [900, 900, 900] };
+    const { matches } = matchReferencePoses(images, poses);
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    const alignment = computeReferencePoseAlignment(imageMap, matches, 0.5, random);
+
+    expect(alignment?.sim3d.scale).toBeCloseTo(10, 6);
+    expect(alignment?.sim3d.translation.toArray().map((v) => Number(v.toFixed(6)))).toEqual([500, 200, 30]);
+    expect(alignment?.inlierCount).toBe(5);
+    expect(alignment?.inlierRmse).toBeLessThan(1e-6);
+    expect(alignment?.residuals[4]).toMatchObject({ imageId: 5, inlier: false });
+    expect(alignment?.residuals[0].cameraPosition.toArray()).toEqual([0, 0, 0]);
+  });
+
+  it('derives the default inlier threshold from the reference spread', () => {
+    const matches = [
+      { imageId: 1, name: 'a', referencePosition: new THREE.Vector3(-1, 0, 0) },
+      { imageId: 2, name: 'b', referencePosition: new THREE.Vector3(1, 0, 0) },
+    ];
+    expect(getDefaultReferenceInlierThreshold(matches)).toBeCloseTo(0.05);
+    expect(getDefaultReferenceInlierThreshold([])).toBe(0);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Georeference a reconstruction against a reference pose file.
+ *
+ * Reference rows are matched to registered images (by name for CSV, by the
+ * numeric image-name stem for TUM timestamps, otherwise by name-sorted order),
+ * then a RANSAC Sim3d maps camera centres onto the reference positions.
+ */
+
+import * as THREE from 'three';
+import type { ReferencePoses } from '../parsers/referencePoses';
+import type { Image, ImageId } from '../types/colmap';
+import type { Sim3d } from '../types/sim3d';
+import { getImageWorldPose } from './colmapTransforms';
+import { getBasename } from './colmapPathResolver';
+import { computeRobustCorrespondenceAlignment } from './sim3dAlignment';
+
+export type ReferencePoseMatchMode = 'name' | 'timestamp' | 'order';
+
+export interface ReferencePoseMatch {
+  imageId: ImageId;
+  name: string;
+  referencePosition: THREE.Vector3;
+}
+
+export interface ReferencePoseMatches {
+  mode: ReferencePoseMatchMode;
+  matches: ReferencePoseMatch[];
+  unmatchedEntryCount: number;
+}
+
+export interface ReferencePoseResidual {
+  imageId: ImageId;
+  name: string;
+  /** Camera centre in reconstruction coordinates. */
+  cameraPosition: THREE.Vector3;
+  referencePosition: THREE.Vector3;
+  /** Distance in reference units between the aligned camera and its reference. */
+  residual: number;
+  inlier: boolean;
+}
+
+export interface ReferencePoseAlignment {
+  /** reconstruction-to-reference transform */
+  sim3d: Sim3d;
+  inlierThreshold: number;
+  residuals: ReferencePoseResidual[];
+  inlierCount: number;
+  inlierRmse: number;
+}
+
+/** TUM timestamps carry microseconds; image names usually round to them. */
+const TIMESTAMP_TOLERANCE = 1e-4;
+const DEFAULT_INLIER_THRESHOLD_FRACTION = 0.05;
+
+function toVector(position: readonly [number, number, number]): THREE.Vector3 {
+  return new THREE.Vector3(position[0], position[1], position[2]);
+}
+
+function getNameStem(name: string): string {
+  const basename = getBasename(name);
+  const dot = basename.lastIndexOf('.');
+  return dot > 0 ? basename.slice(0, dot) : basename;
+}
+
+function matchByName(images: readonly Image[], poses: ReferencePoses): ReferencePoseMatch[] {
+  const byName = new Map<string, Image>();
+  const byBasename = new Map<string, Image>();
+  for (const image of images) {
+    if (!byName.has(image.name)) byName.set(image.name, image);
+    const basename = getBasename(image.name);
+    if (!byBasename.has(basename)) byBasename.set(basename, image);
+  }
+
+  const matches: ReferencePoseMatch[] = [];
+  for (const entry of poses.entries) {
+    if (entry.name === null) continue;
+    const image = byName.get(entry.name) ?? byBasename.get(getBasename(entry.name));
+    if (image) {
+      matches.push({ imageId: image.imageId, name: image.name, referencePosition: toVector(entry.position) });
+    }
+  }
+  return matches;
+}
+
+function matchByTimestamp(images: readonly Image[], poses: ReferencePoses): ReferencePoseMatch[] {
+  const stamped = images
+    .map((image) => ({ image, timestamp: Number(getNameStem(image.name)) }))
+    .filter(({ timestamp }) => Number.isFinite(timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (stamped.length === 0) return [];
+
+  const matches: ReferencePoseMatch[] = [];
+  for (const entry of poses.entries) {
+    if (entry.timestamp === null) continue;
+    const timestamp = entry.timestamp;
+    // Binary search for the closest image timestamp.
+    let lo = 0;
+    let hi = stamped.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (stamped[mid].timestamp < timestamp) lo = mid + 1;
+      else hi = mid;
+    }
+    const candidates = [stamped[lo], stamped[lo - 1]].filter(Boolean);
+    const closest = candidates.reduce((a, b) =>
+      (Math.abs(b.timestamp - timestamp) < Math.abs(a.timestamp - timestamp) ? b : a));
+    if (Math.abs(closest.timestamp - timestamp) <= TIMESTAMP_TOLERANCE) {
+      matches.push({
+        imageId: closest.image.imageId,
+        name: closest.image.name,
+        referencePosition: toVector(entry.position),
+      });
+    }
+  }
+  return matches;
+}
+
+function matchByOrder(images: readonly Image[], poses: ReferencePoses): ReferencePoseMatch[] {
+  const sorted = [...images].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  const count = Math.min(sorted.length, poses.entries.length);
+  return sorted.slice(0, count).map((image, i) => ({
+    imageId: image.imageId,
+    name: image.name,
+    referencePosition: toVector(poses.entries[i].position),
+  }));
+}
+
+export function matchReferencePoses(images: Iterable<Image>, poses: ReferencePoses): ReferencePoseMatches {
+  const imageList = Array.from(images);
+  let mode: ReferencePoseMatchMode;
+  let matches: ReferencePoseMatch[];
+  if (poses.format === 'csv') {
+    mode = 'name';
+    matches = matchByName(imageList, poses);
+  } else {
+    matches = poses.format === 'tum' ? matchByTimestamp(imageList, poses) : [];
+    mode = 'timestamp';
+    // KITTI rows, and TUM rows whose timestamps are not in the image names,
+    // follow the image sequence.
+    if (matches.length === 0) {
+      mode = 'order';
+      matches = matchByOrder(imageList, poses);
+    }
+  }
+  return { mode, matches, unmatchedEntryCount: poses.entries.length - matches.length };
+}
+
+/** A fraction of the reference positions' RMS spread around their centroid. */
+export function getDefaultReferenceInlierThreshold(matches: readonly ReferencePoseMatch[]): number {
+  if (matches.length === 0) return 0;
+  const centroid = new THREE.Vector3();
+  for (const match of matches) centroid.add(match.referencePosition);
+  centroid.divideScalar(matches.length);
+  let sumSq = 0;
+  for (const match of matches) sumSq += match.referencePosition.distanceToSquared(centroid);
+  return Math.sqrt(sumSq / matches.length) * DEFAULT_INLIER_THRESHOLD_FRACTION;
+}
+
+export function computeReferencePoseAlignment(
+  images: ReadonlyMap<ImageId, Image>,
+  matches: readonly ReferencePoseMatch[],
+  inlierThreshold: number,
+  random?: () => number
+): ReferencePoseAlignment | null {
+  const usable = matches.filter((match) => images.has(match.imageId));
+  const cameraPositions = usable.map((match) => getImageWorldPose(images.get(match.imageId)!).position);
+  const robust = computeRobustCorrespondenceAlignment(
+    cameraPositions,
+    usable.map((match) => match.referencePosition),
+    { inlierThreshold, random }
+  );
+  if (!robust) return null;
+
+  let inlierSumSq = 0;
+  const residuals = usable.map((match, i) => {
+    if (robust.inliers[i]) inlierSumSq += robust.residuals[i] ** 2;
+    return {
+      imageId: match.imageId,
+      name: match.name,
+      cameraPosition: cameraPositions[i],
+      referencePosition: match.referencePosition,
+      residual: robust.residuals[i],
+      inlier: robust.inliers[i],
+    };
+  });
+
+  return {
+    sim3d: robust.sim3d,
+    inlierThreshold,
+    residuals,
+    inlierCount: robust.inlierCount,
+    inlierRmse: robust.inlierCount > 0 ? Math.sqrt(inlierSumSq / robust.inlierCount) : 0,
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { buildCamera, buildImage, buildPoint2D, buildPoint3D } from '../test/builders';
+import { CameraModelId, UNMATCHED_POINT3D_ID } from '../types/colmap';
+import {
+  analyzeReprojectionResiduals,
+  collectPoint3DPositions,
+  computeImageReprojectionResiduals,
+  getTriangulatedPoint3DIds,
+  type ReprojectionResidual,
+} from './reprojectionErrors';
+
+const camera = buildCamera();
+
+function radialResidual(x: number, y: number, offset: (radius: number) => number): ReprojectionResidual {
+  const rx = x - 320;
+  const ry = y - 240;
+  const radius = Math.hypot(rx, ry);
+  const shift = radius > 0 ? offset(radius) / radius : 0;
+  return {
+    point2DIdx: 0,
+    point3DId: 1n,
+    observed: [x, y],
+    projected: [x + rx * shift, y + ry * shift],
+    error: Math.abs(offset(radius)),
+  };
+}
+
+function ringResiduals(offset: (radius: number) => number): ReprojectionResidual[] {
+  const residuals: ReprojectionResidual[] = [];
+  for (let r = 5; r < 390; r += 2) {
+    for (const angle of [0.3, 1.2, 2.2, 3.5, 4.4, 5.6]) {
+      const x = 320 + r * Math.cos(angle);
+      const y = 240 + r * Math.sin(angle);
+      if (x >= 0 && x < 640 && y >= 0 && y < 480) residuals.push(radialResidual(x, y, offset));
+    }
+  }
+  return residuals;
+}
+
+describe('reprojectionErrors', () => {
+  it('reprojects triangulated observations through the image pose and camera', () => {
+    const points2D = [
+      buildPoint2D({ xy: [421, 240], point3DId: 1n }),
+      buildPoint2D({ xy: [10, 10] }),
+      buildPoint2D({ xy: [320, 240], point3DId: 2n }),
+      buildPoint2D({ xy: [320, 240], point3DId: 3n }),
+    ];
+    const positions = new Map([
+      [1n, [1, 0, 5] as [number, number, number]],
+      [2n, [0, 0, -5] as [number, number, number]],
+    ]);
+
+    const residuals = computeImageReprojectionResiduals(buildImage(), camera, points2D, positions);
+
+    expect(residuals).toHaveLength(1);
+    expect(residuals[0]).toMatchObject({ point2DIdx: 0, point3DId: 1n, observed: [421, 240] });
+    expect(residuals[0].projected[0]).toBeCloseTo(420);
+    expect(residuals[0].error).toBeCloseTo(1);
+    expect(computeImageReprojectionResiduals(
+      buildImage(),
+      buildCamera({ modelId: CameraModelId.EQUIRECTANGULAR }),
+      points2D,
+      positions
+    )).toEqual([]);
+  });
+
+  it('looks up point positions from the points3D map or the WASM arrays', () => {
+    const ids = getTriangulatedPoint3DIds([
+      buildPoint2D({ point3DId: 7n }),
+      buildPoint2D({ point3DId: UNMATCHED_POINT3D_ID }),
+    ]);
+    expect([...ids]).toEqual([7n]);
+
+    const points3D = new Map([[7n, buildPoint3D({ point3DId: 7n, xyz: [1, 2, 3] })]]);
+    expect(collectPoint3DPositions(ids, points3D, null).get(7n)).toEqual([1, 2, 3]);
+
+    const wasm = {
+      pointCount: 2,
+      getPositions: () => new Float32Array([0, 0, 0, 4, 5, 6]),
+      getPoint3DIds: () => new BigUint64Array([3n, 7n]),
+    };
+    expect(collectPoint3DPositions(ids, undefined, wasm).get(7n)).toEqual([4, 5, 6]);
+  });
+
+  it('bins errors across the sensor and by radius', () => {
+    const analysis = analyzeReprojectionResiduals([
+      radialResidual(10, 10, () => 2),
+      radialResidual(630, 470, () => 4),
+    ], camera);
+
+    expect(analysis.meanError).toBeCloseTo(3);
+    expect(analysis.maxError).toBeCloseTo(4);
+    expect(analysis.grid.cells[0]).toBeCloseTo(2);
+    expect(analysis.grid.cells[analysis.grid.cells.length - 1]).toBeCloseTo(4);
+    expect(analysis.grid.cells[1]).toBeNull();
+    expect(analysis.radialBins.at(-1)?.count).toBe(2);
+    expect(analysis.radialBins.at(-1)?.meanRadialError).toBeGreaterThan(0);
+  });
+
+  it('flags errors that grow and point radially towards the border', () => {
+    const misfit = analyzeReprojectionResiduals(ringResiduals((r) => 0.2 + 3e-7 * r ** 3), camera);
+    expect(misfit.distortionWarnings).toHaveLength(2);
+    expect(misfit.distortionWarnings[1]).toMatch(/outward/);
+
+    const uniform = analyzeReprojectionResiduals(
+      ringResiduals(() => 1).map((residual, i) => (i % 2 === 0 ? residual : {
+        ...residual,
+        projected: [2 * residual.observed[0] - residual.projected[0], 2 * residual.observed[1] - residual.projected[1]],
+      })),
+      camera
+    );
+    expect(uniform.distortionWarnings).toEqual([]);
+  });
+});
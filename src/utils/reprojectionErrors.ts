@@ -0,0 +1,247 @@
+/**
+ * Per-observation reprojection residuals for one image, and the summaries the
+ * image detail explorer draws from them: a sensor heatmap, a radial error
+ * profile and a heuristic flag for distortion parameters that do not fit.
+ */
+
+import * as THREE from 'three';
+import type { Camera, Image, Point2D, Point3D, Point3DId } from '../types/colmap';
+import { UNMATCHED_POINT3D_ID } from '../types/colmap';
+import { getCameraIntrinsics } from './cameraIntrinsics';
+import { projectPoint } from './cameraModelProjection';
+import { cameraModelHasPinholeIntrinsics } from './cameraModelRegistry';
+
+export interface ReprojectionResidual {
+  point2DIdx: number;
+  point3DId: Point3DId;
+  observed: [number, number];
+  projected: [number, number];
+  /** Pixel distance between observed and projected position. */
+  error: number;
+}
+
+export interface ReprojectionErrorGrid {
+  cols: number;
+  rows: number;
+  /** Mean error per cell, row-major; null for cells without observations. */
+  cells: (number | null)[];
+}
+
+export interface RadialErrorBin {
+  /** Bin centre as a fraction of the principal point to corner distance. */
+  radius: number;
+  count: number;
+  meanError: number;
+  /** Mean residual component along the radial direction; positive points outward. */
+  meanRadialError: number;
+}
+
+export interface ReprojectionErrorAnalysis {
+  residuals: ReprojectionResidual[];
+  meanError: number;
+  medianError: number;
+  maxError: number;
+  grid: ReprojectionErrorGrid;
+  radialBins: RadialErrorBin[];
+  /** Reasons the error pattern looks like a distortion misfit; empty when none. */
+  distortionWarnings: string[];
+}
+
+/** Minimal WASM reconstruction surface needed to look up point positions. */
+export interface Point3DPositionSource {
+  pointCount: number;
+  getPositions(): Float32Array | null;
+  getPoint3DIds(): BigUint64Array | null;
+}
+
+export const REPROJECTION_GRID_COLS = 8;
+export const REPROJECTION_GRID_ROWS = 6;
+export const RADIAL_ERROR_BIN_COUNT = 8;
+
+/** Bins need this many residuals before they count towards the distortion flag. */
+const MIN_RADIAL_BIN_COUNT = 10;
+/** Outer-to-inner mean error ratio that suggests under-fitted radial distortion. */
+const RADIAL_ERROR_GROWTH_RATIO = 2;
+/** Share of the outer error explained by a consistent radial direction. */
+const RADIAL_BIAS_FRACTION = 0.5;
+/** Below this mean error (px) the pattern is not worth flagging. */
+const MIN_FLAGGED_ERROR = 0.5;
+
+/** Positions of the requested 3D points, from the points3D map when present or the WASM arrays. */
+export function collectPoint3DPositions(
+  ids: ReadonlySet<Point3DId>,
+  points3D: ReadonlyMap<Point3DId, Point3D> | undefined,
+  wasm: Point3DPositionSource | null
+): Map<Point3DId, Point3D['xyz']> {
+  const positions = new Map<Point3DId, Point3D['xyz']>();
+  if (ids.size === 0) return positions;
+
+  if (points3D) {
+    for (const id of ids) {
+      const point = points3D.get(id);
+      if (point) positions.set(id, point.xyz);
+    }
+    return positions;
+  }
+
+  const xyz = wasm?.getPositions();
+  if (!wasm || !xyz) return positions;
+  const point3DIds = wasm.getPoint3DIds();
+  for (let i = 0; i < wasm.pointCount && positions.size < ids.size; i++) {
+    const id = point3DIds ? point3DIds[i] : BigInt(i + 1);
+    if (ids.has(id)) positions.set(id, [xyz[i * 3], xyz[i * 3 + 1], xyz[i * 3 + 2]]);
+  }
+  return positions;
+}
+
+export function getTriangulatedPoint3DIds(points2D: readonly Point2D[]): Set<Point3DId> {
+  const ids = new Set<Point3DId>();
+  for (const point of points2D) {
+    if (point.point3DId !== UNMATCHED_POINT3D_ID) ids.add(point.point3DId);
+  }
+  return ids;
+}
+
+/**
+ * Reproject every triangulated observation through the image pose and camera
+ * model. Points behind the camera and models without a pinhole plane
+ * (spherical) yield no residuals.
+ */
+export function computeImageReprojectionResiduals(
+  image: Image,
+  camera: Camera,
+  points2D: readonly Point2D[],
+  positions: ReadonlyMap<Point3DId, Point3D['xyz']>
+): ReprojectionResidual[] {
+  if (!cameraModelHasPinholeIntrinsics(camera.modelId)) return [];
+
+  const rotation = new THREE.Quaternion(image.qvec[1], image.qvec[2], image.qvec[3], image.qvec[0]);
+  const translation = new THREE.Vector3(...image.tvec);
+  const cameraPoint = new THREE.Vector3();
+  const residuals: ReprojectionResidual[] = [];
+
+  points2D.forEach((point, point2DIdx) => {
+    if (point.point3DId === UNMATCHED_POINT3D_ID) return;
+    const xyz = positions.get(point.point3DId);
+    if (!xyz) return;
+
+    cameraPoint.set(xyz[0], xyz[1], xyz[2]).applyQuaternion(rotation).add(translation);
+    if (cameraPoint.z <= 0) return;
+    const projected = projectPoint(camera, cameraPoint.x / cameraPoint.z, cameraPoint.y / cameraPoint.z);
+    if (!projected || !Number.isFinite(projected.x) || !Number.isFinite(projected.y)) return;
+
+    residuals.push({
+      point2DIdx,
+      point3DId: point.point3DId,
+      observed: point.xy,
+      projected: [projected.x, projected.y],
+      error: Math.hypot(projected.x - point.xy[0], projected.y - point.xy[1]),
+    });
+  });
+  return residuals;
+}
+
+function getErrorGrid(
+  residuals: readonly ReprojectionResidual[],
+  camera: Pick<Camera, 'width' | 'height'>,
+  cols: number,
+  rows: number
+): ReprojectionErrorGrid {
+  const sums = new Array<number>(cols * rows).fill(0);
+  const counts = new Array<number>(cols * rows).fill(0);
+  for (const residual of residuals) {
+    const col = Math.min(cols - 1, Math.max(0, Math.floor((residual.observed[0] / camera.width) * cols)));
+    const row = Math.min(rows - 1, Math.max(0, Math.floor((residual.observed[1] / camera.height) * rows)));
+    sums[row * cols + col] += residual.error;
+    counts[row * cols + col]++;
+  }
+  return { cols, rows, cells: sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : null)) };
+}
+
+function getRadialBins(
+  residuals: readonly ReprojectionResidual[],
+  camera: Camera,
+  binCount: number
+): RadialErrorBin[] {
+  const { cx, cy } = getCameraIntrinsics(camera);
+  const maxRadius = Math.max(
+    Math.hypot(cx, cy),
+    Math.hypot(camera.width - cx, cy),
+    Math.hypot(cx, camera.height - cy),
+    Math.hypot(camera.width - cx, camera.height - cy)
+  );
+  const errorSums = new Array<number>(binCount).fill(0);
+  const radialSums = new Array<number>(binCount).fill(0);
+  const counts = new Array<number>(binCount).fill(0);
+
+  for (const residual of residuals) {
+    const rx = residual.observed[0] - cx;
+    const ry = residual.observed[1] - cy;
+    const radius = Math.hypot(rx, ry);
+    const bin = Math.min(binCount - 1, Math.floor((radius / maxRadius) * binCount));
+    // Projected minus observed, measured along the outward radial direction.
+    const radial = radius > 0
+      ? ((residual.projected[0] - residual.observed[0]) * rx + (residual.projected[1] - residual.observed[1]) * ry) / radius
+      : 0;
+    errorSums[bin] += residual.error;
+    radialSums[bin] += radial;
+    counts[bin]++;
+  }
+
+  return counts.map((count, i) => ({
+    radius: (i + 0.5) / binCount,
+    count,
+    meanError: count > 0 ? errorSums[i] / count : 0,
+    meanRadialError: count > 0 ? radialSums[i] / count : 0,
+  }));
+}
+
+/**
+ * Errors that grow towards the image border, or that point consistently
+ * inwards or outwards there, are the signature of radial distortion the
+ * camera model does not capture.
+ */
+export function getDistortionWarnings(bins: readonly RadialErrorBin[], meanError: number): string[] {
+  const populated = bins.filter((bin) => bin.count >= MIN_RADIAL_BIN_COUNT);
+  if (populated.length < 3 || meanError < MIN_FLAGGED_ERROR) return [];
+
+  const third = Math.max(1, Math.floor(populated.length / 3));
+  const inner = populated.slice(0, third);
+  const outer = populated.slice(-third);
+  const weightedMean = (items: readonly RadialErrorBin[], key: 'meanError' | 'meanRadialError') => {
+    const total = items.reduce((sum, bin) => sum + bin.count, 0);
+    return items.reduce((sum, bin) => sum + bin[key] * bin.count, 0) / total;
+  };
+  const innerError = weightedMean(inner, 'meanError');
+  const outerError = weightedMean(outer, 'meanError');
+  const outerRadial = weightedMean(outer, 'meanRadialError');
+
+  const warnings: string[] = [];
+  if (outerError >= RADIAL_ERROR_GROWTH_RATIO * innerError) {
+    warnings.push(`Error near the border is ${(outerError / innerError).toFixed(1)}× the centre error`);
+  }
+  if (Math.abs(outerRadial) >= RADIAL_BIAS_FRACTION * outerError) {
+    warnings.push(`Border residuals point ${outerRadial > 0 ? 'outward' : 'inward'} consistently`);
+  }
+  return warnings;
+}
+
+export function analyzeReprojectionResiduals(
+  residuals: ReprojectionResidual[],
+  camera: Camera
+): ReprojectionErrorAnalysis {
+  const errors = residuals.map((residual) => residual.error).sort((a, b) => a - b);
+  const meanError = errors.length > 0 ? errors.reduce((sum, error) => sum + error, 0) / errors.length : 0;
+  const medianError = errors.length > 0 ? errors[Math.floor(errors.length / 2)] : 0;
+  const radialBins = getRadialBins(residuals, camera, RADIAL_ERROR_BIN_COUNT);
+
+  return {
+    residuals,
+    meanError,
+    medianError,
+    maxError: errors.length > 0 ? errors[errors.length - 1] : 0,
+    grid: getErrorGrid(residuals, camera, REPROJECTION_GRID_COLS, REPROJECTION_GRID_ROWS),
+    radialBins,
+    distortionWarnings: getDistortionWarnings(radialBins, meanError),
+  };
+}
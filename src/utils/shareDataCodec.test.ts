@@ -87,6 +87,17 @@ describe('share data codec', () => {
       camera: { selectedImageId: 42 },
       pointCloud: { pointSize: 3 },
       splat: { activeSourceId: 'splats/active.spz' },
+      cameraPath: {
+        loop: true,
+        keyframes: [
+          { position: [0, 0, 5], quaternion: [0, 0, 0, 1], target: [0, 0, 0], distance: 5, duration: 2, easing: 'linear' },
+          { position: [5, 0, 0], quaternion: [0, 0.5, 0, 0.5], target: [0, 0, 0], distance: 5, duration: 3, easing: 'easeInOut' },
+        ],
+      },
+      measurements: [
+        { name: 'Door', type: 'distance', points: [[0, 0, 0], [0.9, 0, 0]] },
+        { name: 'Room', type: 'area', points: [[0, 0, 0], [4, 0, 0], [4, 0, 3]] },
+      ],
     };
 
     const decoded = await decodeShareData(`#${encodeShareData('https://example.com/manifest.json', viewState, config)}`);
@@ -2,6 +2,8 @@ import type { DeflateOptions } from 'fflate';
 import type { CameraViewState } from '../store/types';
 import type { ColmapManifest } from '../types/manifest';
 import type { Sim3dEuler } from '../types/sim3d';
+import { isSavedCameraPath, type SavedCameraPath } from './cameraPathTimelinePolicy';
+import { isSavedMeasurements, type SavedMeasurement } from './measurementGeometry';
 import { validateColmapManifest } from './manifestValidation';
 import {
   decodeCameraFromBytes,
@@ -44,6 +46,8 @@ export interface ShareConfig {
     activeSourceId?: string;
   };
   transform?: Sim3dEuler;
+  cameraPath?: SavedCameraPath;
+  measurements?: SavedMeasurement[];
 }
 
 /**
@@ -93,7 +97,9 @@ function isShareConfig(value: unknown): value is ShareConfig {
     isOptionalConfigRecord(value.camera) &&
     isOptionalConfigRecord(value.rig) &&
     isShareSplatConfig(value.splat) &&
-    (value.transform === undefined || isSim3dEuler(value.transform))
+    (value.transform === undefined || isSim3dEuler(value.transform)) &&
+    (value.cameraPath === undefined || isSavedCameraPath(value.cameraPath)) &&
+    (value.measurements === undefined || isSavedMeasurements(value.measurements))
   );
 }
 
@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 import * as THREE from 'three';
 import type { Sim3d } from '../types/sim3d';
 import {
+  computeCorrespondenceAlignment,
+  computeRobustCorrespondenceAlignment,
   computeDistanceScale,
   computeNormalAlignment,
   computeOriginTranslation,
@@ -115,4 +117,73 @@ describe('sim3d alignment helpers', () => {
     expect(transformedNormal.dot(targetUp)).toBeCloseTo(1);
     expect(transformedCentroid.dot(targetUp)).toBeCloseTo(0);
   });
+
+  it('recovers a similarity transform from point correspondences', () => {
+    const expected: Sim3d = {
+      scale: 2.5,
+      rotation: new THREE.Quaternion().setFromEuler(new THREE.Euler(0.4, -1.1, 2.3)),
+      translation: new THREE.Vector3(3, -2, 7),
+    };
+    const source = [
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(0, 2, 0),
+      new THREE.Vector3(0, 0, 3),
+      new THREE.Vector3(1, 1, 1),
+    ];
+    const target = source.map((point) => applySim3d(expected, point));
+
+    const sim3d = computeCorrespondenceAlignment(source, target);
+
+    expect(sim3d).not.toBeNull();
+    expect(sim3d?.scale).toBeCloseTo(2.5, 6);
+    expect(Math.abs(sim3d?.rotation.dot(expected.rotation) ?? 0)).toBeCloseTo(1, 6);
+    source.forEach((point, i) => {
+      expect(applySim3d(sim3d as Sim3d, point).distanceTo(target[i])).toBeLessThan(1e-6);
+    });
+  });
+
+  it('rejects too few or degenerate correspondences', () => {
+    const point = new THREE.Vector3(1, 2, 3);
+    expect(computeCorrespondenceAlignment([point, point], [point, point])).toBeNull();
+    expect(computeCorrespondenceAlignment([point, point, point], [point, point, point])).toBeNull();
+  });
+
+  it('rejects collinear sources, whose rotation about the line is undetermined', () => {
+    const line = [0, 1, 2, 5].map((t) => new THREE.Vector3(t, 0, 0));
+    const mapped = [0, 1, 2, 5].map((t) => new THREE.Vector3(0, t, 0));
+    expect(computeCorrespondenceAlignment(line, mapped)).toBeNull();
+    expect(computeRobustCorrespondenceAlignment(line, mapped, { inlierThreshold: 0.1, random: () => 0.5 })).toBeNull();
+
+    // A slight bend off the line is enough to fix the rotation.
+    const bent = [...line.slice(0, 3), new THREE.Vector3(5, 0.5, 0)];
+    expect(computeCorrespondenceAlignment(bent, bent)).not.toBeNull();
+  });
+
+  it('rejects outlier correspondences when fitting robustly', () => {
+    const expected: Sim3d = {
+      scale: 0.5,
+      rotation: new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), 0.7),
+      translation: new THREE.Vector3(100, 20, -5),
+    };
+    const source = Array.from({ length: 12 }, (_, i) =>
+      new THREE.Vector3(i, Math.sin(i) * 3, (i % 4) * 2));
+    const target = source.map((point) => applySim3d(expected, point));
+    target[2] = target[2].clone().add(new THREE.Vector3(40, 0, 0));
+    target[7] = target[7].clone().add(new THREE.Vector3(0, -25, 10));
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    const result = computeRobustCorrespondenceAlignment(source, target, { inlierThreshold: 0.01, random });
+
+    expect(result?.inlierCount).toBe(10);
+    expect(result?.inliers[2]).toBe(false);
+    expect(result?.inliers[7]).toBe(false);
+    expect(result?.sim3d.scale).toBeCloseTo(0.5, 6);
+    expect(result?.residuals[0]).toBeLessThan(1e-6);
+    expect(result?.residuals[2]).toBeCloseTo(40, 3);
+  });
 });
@@ -125,3 +125,221 @@ export function computePlaneAlignment(
 
   return { rotation, translation, scale: 1 };
 }
+
+/** Largest eigenvector of a symmetric 4x4 matrix (row-major), via cyclic Jacobi rotations. */
+function largestEigenvector4(matrix: number[]): [number, number, number, number] {
+  const a = matrix.slice();
+  const v = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) offDiagonal += a[p * 4 + q] ** 2;
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        const apq = a[p * 4 + q];
+        if (Math.abs(apq) < 1e-300) continue;
+        const theta = (a[q * 4 + q] - a[p * 4 + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k * 4 + p];
+          const akq = a[k * 4 + q];
+          a[k * 4 + p] = c * akp - s * akq;
+          a[k * 4 + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p * 4 + k];
+          const aqk = a[q * 4 + k];
+          a[p * 4 + k] = c * apk - s * aqk;
+          a[q * 4 + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k * 4 + p];
+          const vkq = v[k * 4 + q];
+          v[k * 4 + p] = c * vkp - s * vkq;
+          v[k * 4 + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i < 4; i++) {
+    if (a[i * 4 + i] > a[best * 4 + best]) best = i;
+  }
+  return [v[best], v[4 + best], v[8 + best], v[12 + best]];
+}
+
+/**
+ * Whether a centered source covariance (row-major 3x3, trace `trace`) has a
+ * near-zero second eigenvalue, i.e. the points lie on a line and the rotation
+ * about it is undetermined. The sum of its 2x2 principal minors equals
+ * l1*l2 + l1*l3 + l2*l3, which is ~l1*l2 when l3 is small; compared against
+ * trace^2 the test is independent of scale.
+ */
+function isCollinearCovariance(c: number[], trace: number): boolean {
+  const minors =
+    c[0] * c[4] - c[1] * c[3]
+    + c[0] * c[8] - c[2] * c[6]
+    + c[4] * c[8] - c[5] * c[7];
+  return minors <= 1e-10 * trace * trace;
+}
+
+/**
+ * Least-squares similarity mapping `source` points onto `target` points
+ * (Horn's quaternion method with Umeyama's scale). Points are paired by index.
+ * Returns null for fewer than three pairs or a degenerate (collinear) source.
+ */
+export function computeCorrespondenceAlignment(
+  source: readonly THREE.Vector3[],
+  target: readonly THREE.Vector3[]
+): Sim3d | null {
+  const count = Math.min(source.length, target.length);
+  if (count < 3) {
+    return null;
+  }
+
+  const sourceCentroid = new THREE.Vector3();
+  const targetCentroid = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    sourceCentroid.add(source[i]);
+    targetCentroid.add(target[i]);
+  }
+  sourceCentroid.divideScalar(count);
+  targetCentroid.divideScalar(count);
+
+  // Cross-covariance S[a][b] = sum(p_a * q_b) over centered pairs, and the
+  // source covariance C[a][b] = sum(p_a * p_b) for the collinearity check.
+  const s = new Array<number>(9).fill(0);
+  const c = new Array<number>(9).fill(0);
+  let sourceVariance = 0;
+  const p = new THREE.Vector3();
+  const q = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    p.subVectors(source[i], sourceCentroid);
+    q.subVectors(target[i], targetCentroid);
+    const pa = [p.x, p.y, p.z];
+    const qa = [q.x, q.y, q.z];
+    for (let a = 0; a < 3; a++) {
+      for (let b = 0; b < 3; b++) {
+        s[a * 3 + b] += pa[a] * qa[b];
+        c[a * 3 + b] += pa[a] * pa[b];
+      }
+    }
+    sourceVariance += p.lengthSq();
+  }
+  if (sourceVariance < 1e-12 || isCollinearCovariance(c, sourceVariance)) {
+    return null;
+  }
+
+  const [sxx, sxy, sxz, syx, syy, syz, szx, szy, szz] = s;
+  const [w, x, y, z] = largestEigenvector4([
+    sxx + syy + szz, syz - szy, szx - sxz, sxy - syx,
+    syz - szy, sxx - syy - szz, sxy + syx, szx + sxz,
+    szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy,
+    sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz,
+  ]);
+  const rotation = new THREE.Quaternion(x, y, z, w).normalize();
+
+  let projected = 0;
+  const rotated = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    rotated.subVectors(source[i], sourceCentroid).applyQuaternion(rotation);
+    projected += rotated.dot(q.subVectors(target[i], targetCentroid));
+  }
+  const scale = projected / sourceVariance;
+  if (!(scale > 0)) {
+    return null;
+  }
+
+  const translation = targetCentroid.clone().sub(
+    sourceCentroid.clone().applyQuaternion(rotation).multiplyScalar(scale)
+  );
+  return { scale, rotation, translation };
+}
+
+export interface RobustCorrespondenceAlignmentOptions {
+  /** Max distance (target units) between a mapped source point and its target to count as inlier. */
+  inlierThreshold: number;
+  iterations?: number;
+  /** Uniform [0, 1) source; injectable for deterministic tests. */
+  random?: () => number;
+}
+
+export interface RobustCorrespondenceAlignment {
+  sim3d: Sim3d;
+  inliers: boolean[];
+  /** Distance between each mapped source point and its target under the final fit. */
+  residuals: number[];
+  inlierCount: number;
+}
+
+function getCorrespondenceResiduals(
+  sim3d: Sim3d,
+  source: readonly THREE.Vector3[],
+  target: readonly THREE.Vector3[]
+): number[] {
+  const mapped = new THREE.Vector3();
+  return source.map((point, i) => mapped.copy(point)
+    .applyQuaternion(sim3d.rotation)
+    .multiplyScalar(sim3d.scale)
+    .add(sim3d.translation)
+    .distanceTo(target[i]));
+}
+
+/**
+ * RANSAC over minimal three-point similarity fits, then a least-squares refit
+ * on the largest consensus set. Returns null when no sample yields a valid fit.
+ */
+export function computeRobustCorrespondenceAlignment(
+  source: readonly THREE.Vector3[],
+  target: readonly THREE.Vector3[],
+  { inlierThreshold, iterations = 500, random = Math.random }: RobustCorrespondenceAlignmentOptions
+): RobustCorrespondenceAlignment | null {
+  const count = Math.min(source.length, target.length);
+  if (count < 3) {
+    return null;
+  }
+
+  let bestInliers: boolean[] | null = null;
+  let bestCount = 0;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const a = Math.floor(random() * count);
+    const b = Math.floor(random() * count);
+    const c = Math.floor(random() * count);
+    if (a === b || b === c || a === c) continue;
+
+    const sample = computeCorrespondenceAlignment(
+      [source[a], source[b], source[c]],
+      [target[a], target[b], target[c]]
+    );
+    if (!sample) continue;
+
+    const inliers = getCorrespondenceResiduals(sample, source, target).map((r) => r <= inlierThreshold);
+    const inlierCount = inliers.filter(Boolean).length;
+    if (inlierCount > bestCount) {
+      bestInliers = inliers;
+      bestCount = inlierCount;
+      if (inlierCount === count) break;
+    }
+  }
+
+  // Too few points for a random minimal sample to land: fall back to a plain fit.
+  const consensus = bestInliers ?? new Array<boolean>(count).fill(true);
+  const sim3d = computeCorrespondenceAlignment(
+    source.filter((_, i) => consensus[i]),
+    target.filter((_, i) => consensus[i])
+  );
+  if (!sim3d) {
+    return null;
+  }
+
+  const residuals = getCorrespondenceResiduals(sim3d, source.slice(0, count), target.slice(0, count));
+  const inliers = residuals.map((r) => r <= inlierThreshold);
+  return { sim3d, inliers, residuals, inlierCount: inliers.filter(Boolean).length };
+}
@@ -16,6 +16,7 @@ describe('Spark splat runtime helpers', () => {
     } as File;
 
     await expect(getSplatMeshSourceOptions(file)).resolves.toEqual({
+      fileName: 'scene.spz',
       stream,
       streamLength: file.size,
     });
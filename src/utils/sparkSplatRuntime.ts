@@ -18,13 +18,15 @@ export function preloadSparkModule(): Promise<SparkModule> {
 
 export async function getSplatMeshSourceOptions(
   sourceFile: File
-): Promise<Pick<SplatMeshOptions, 'fileBytes' | 'stream' | 'streamLength'>> {
+): Promise<Pick<SplatMeshOptions, 'fileBytes' | 'fileName' | 'stream' | 'streamLength'>> {
   if (!isSplatFilePath(sourceFile.name)) {
     throw new Error(`Unsupported splat format: ${sourceFile.name}`);
   }
 
+  // .splat rows carry no magic bytes, so Spark needs the name to pick a parser.
   if (typeof sourceFile.stream === 'function') {
     return {
+      fileName: sourceFile.name,
       stream: sourceFile.stream(),
       streamLength: sourceFile.size,
     };
@@ -32,6 +34,7 @@ export async function getSplatMeshSourceOptions(
 
   const fileBytes = await sourceFile.arrayBuffer();
   return {
+    fileName: sourceFile.name,
     fileBytes: new Uint8Array(fileBytes),
   };
 }
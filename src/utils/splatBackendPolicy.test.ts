@@ -223,10 +223,32 @@ describe('splat backend policy', () => {
       status: 'available',
       backend: 'spark',
       gpuPsnr: false,
+      cpuPsnr: true,
       reason: 'Spark PSNR/SSIM metric capability is ready',
     });
   });
 
+  it('uses the CPU metric fallback only when WebGPU will not come up', () => {
+    const preparing = resolveSplatBackend('auto', { webGpu: 'unavailable', spark: true });
+    const forcedSpark = resolveSplatBackend('spark', webGpuReady);
+    const failed = resolveSplatBackend('auto', { webGpu: 'failed', spark: true });
+
+    // Spark is only a placeholder while auto WebGPU initializes.
+    expect(resolveSplatMetricCapability({ webGpu: 'unavailable' }, preparing)).toMatchObject({
+      backend: 'spark',
+      cpuPsnr: false,
+    });
+    expect(resolveSplatMetricCapability({ webGpu: 'ready' }, forcedSpark)).toMatchObject({
+      backend: 'spark',
+      cpuPsnr: true,
+    });
+    expect(resolveSplatMetricCapability({ webGpu: 'failed' }, failed)).toMatchObject({
+      backend: 'spark',
+      cpuPsnr: true,
+    });
+    expect(resolveSplatMetricCapability({ webGpu: 'ready' })).toMatchObject({ cpuPsnr: false });
+  });
+
   it('reports unsupported and failed metric PSNR capability clearly', () => {
     expect(resolveSplatMetricCapability({ webGpu: 'unsupported' })).toMatchObject({
       status: 'unavailable',
@@ -246,7 +268,7 @@ describe('splat backend policy', () => {
     });
   });
 
-  it('exposes PSNR/SSIM visualizations only for WebGPU metric paths', () => {
+  it('exposes PSNR/SSIM visualizations for WebGPU metric paths and the CPU fallback', () => {
     const activeSplatFile = { name: 'scene.spz' };
     const sparkResolution = resolveSplatBackend('spark', webGpuReady);
     const webGpuResolution = resolveSplatBackend('webgpu', webGpuReady);
@@ -256,7 +278,7 @@ describe('splat backend policy', () => {
       hasMetricCapableCamera: true,
       resolution: sparkResolution,
       metricCapability: resolveSplatMetricCapability({ webGpu: 'ready' }, sparkResolution),
-    })).toBe(false);
+    })).toBe(true);
 
     expect(shouldExposeSplatMetricVisualizations({
       activeSplatFile,
@@ -284,6 +306,14 @@ describe('splat backend policy', () => {
       hasMetricCapableCamera: true,
       resolution: resolveSplatBackend('auto', sparkReady),
       metricCapability: resolveSplatMetricCapability({ webGpu: 'unsupported' }, resolveSplatBackend('auto', sparkReady)),
+    })).toBe(true);
+
+    const preparing = resolveSplatBackend('auto', { webGpu: 'unavailable', spark: true });
+    expect(shouldExposeSplatMetricVisualizations({
+      activeSplatFile,
+      hasMetricCapableCamera: true,
+      resolution: preparing,
+      metricCapability: resolveSplatMetricCapability({ webGpu: 'unavailable' }, preparing),
     })).toBe(false);
   });
 
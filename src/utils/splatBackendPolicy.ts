@@ -40,6 +40,8 @@ export interface AvailableSplatMetricCapability {
   status: 'available';
   backend: SplatRenderBackend;
   gpuPsnr: boolean;
+  /** PSNR/SSIM are computed by the CPU rasterizer worker at reduced resolution. */
+  cpuPsnr: boolean;
   reason: string;
 }
 
@@ -47,6 +49,7 @@ export interface UnavailableSplatMetricCapability {
   status: 'unavailable';
   backend: null;
   gpuPsnr: false;
+  cpuPsnr: false;
   reason: string;
 }
 
@@ -240,6 +243,7 @@ export function resolveSplatMetricCapability(
       status: 'available',
       backend: 'spark',
       gpuPsnr: false,
+      cpuPsnr: shouldUseCpuSplatMetricFallback(availability, resolution),
       reason: 'Spark PSNR/SSIM metric capability is ready',
     };
   }
@@ -249,6 +253,7 @@ export function resolveSplatMetricCapability(
       status: 'available',
       backend: 'webgpu',
       gpuPsnr: true,
+      cpuPsnr: false,
       reason: 'WebGPU PSNR metric capability is ready',
     };
   }
@@ -257,6 +262,7 @@ export function resolveSplatMetricCapability(
     status: 'unavailable',
     backend: null,
     gpuPsnr: false,
+    cpuPsnr: false,
     reason: getWebGpuMetricUnavailableReason(availability),
   };
 }
@@ -285,6 +291,11 @@ export function shouldExposeSplatMetricVisualizations({
     return false;
   }
 
+  // Spark has no WebGPU metric path; the CPU rasterizer fallback covers it.
+  if (metricCapability.cpuPsnr) {
+    return true;
+  }
+
   if (
     resolution.requested === 'spark'
     || (resolution.status === 'resolved' && resolution.backend === 'spark')
@@ -303,6 +314,20 @@ export function shouldExposeSplatMetricVisualizations({
     );
 }
 
+/**
+ * The CPU rasterizer only stands in when the WebGPU metric path will not come
+ * up: Spark forced, or WebGPU unsupported/failed. While auto mode is still
+ * preparing WebGPU, Spark is only a placeholder and metrics wait for the GPU.
+ */
+function shouldUseCpuSplatMetricFallback(
+  availability: SplatMetricAvailability,
+  resolution: SplatBackendResolution
+): boolean {
+  return resolution.requested === 'spark'
+    || availability.webGpu === 'unsupported'
+    || availability.webGpu === 'failed';
+}
+
 function getAutoSparkFallbackReason(availability: SplatBackendAvailability): string {
   switch (availability.webGpu) {
     case 'unsupported':
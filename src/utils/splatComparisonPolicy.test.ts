@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageId } from '../types/colmap';
+import {
+  buildSplatPsnrDeltaMetrics,
+  getSplatComparisonCandidates,
+  getSplatPsnrDelta,
+  summarizeSplatPsnrDelta,
+} from './splatComparisonPolicy';
+
+describe('splatComparisonPolicy', () => {
+  it('computes A minus B, tying two pixel-exact renders', () => {
+    expect(getSplatPsnrDelta(30, 28)).toBe(2);
+    expect(getSplatPsnrDelta(Infinity, Infinity)).toBe(0);
+    expect(getSplatPsnrDelta(Infinity, 40)).toBe(Infinity);
+    expect(getSplatPsnrDelta(30, undefined)).toBeUndefined();
+    expect(getSplatPsnrDelta(Number.NaN, 30)).toBeUndefined();
+  });
+
+  it('adds deltas only where both splats measured the image and summarizes them', () => {
+    const merged = buildSplatPsnrDeltaMetrics(
+      new Map([
+        [1 as ImageId, { psnr: 30, ssim: 0.9 }],
+        [2 as ImageId, { psnr: 25 }],
+        [3 as ImageId, { psnr: Infinity }],
+        [4 as ImageId, { psnr: 20 }],
+      ]),
+      new Map([
+        [1 as ImageId, { psnr: 27 }],
+        [2 as ImageId, { psnr: 26 }],
+        [3 as ImageId, { psnr: 35 }],
+      ])
+    );
+
+    expect(merged.get(1 as ImageId)).toEqual({ psnr: 30, ssim: 0.9, psnrDelta: 3 });
+    expect(merged.get(4 as ImageId)).not.toHaveProperty('psnrDelta');
+    expect(summarizeSplatPsnrDelta(merged)).toEqual({
+      comparedCount: 3,
+      meanDelta: 1,
+      aBetterCount: 2,
+      bBetterCount: 1,
+    });
+  });
+
+  it('offers every loadable source except the active one', () => {
+    const file = new File(['a'], 'a.spz');
+    const sources = [
+      { id: 'a.spz', path: 'a.spz', file },
+      { id: 'b.spz', path: 'b.spz', url: 'https://example.com/b.spz' },
+      { id: 'c.spz', path: 'c.spz' },
+    ];
+    expect(getSplatComparisonCandidates(sources, 'a.spz').map((source) => source.id)).toEqual(['b.spz']);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Per-image PSNR delta between the active splat (A) and a comparison splat (B),
+ * shared by the frustum colour mode, the gallery sort and the compare window.
+ */
+
+import type { ImageId, SplatFileSource } from '../types/colmap';
+
+export interface SplatComparisonMetricEntry {
+  psnr: number;
+  ssim?: number;
+}
+
+export interface SplatPsnrDeltaEntry extends SplatComparisonMetricEntry {
+  /** PSNR_A − PSNR_B; absent until both splats have a value for the image. */
+  psnrDelta?: number;
+}
+
+export interface SplatPsnrDeltaSummary {
+  comparedCount: number;
+  /** Over finite deltas; null when no image has one. */
+  meanDelta: number | null;
+  aBetterCount: number;
+  bBetterCount: number;
+}
+
+/**
+ * PSNR_A − PSNR_B. Two pixel-exact renders tie at zero; one pixel-exact render
+ * against a finite one gives an infinite delta in its favour.
+ */
+export function getSplatPsnrDelta(
+  psnrA: number | null | undefined,
+  psnrB: number | null | undefined
+): number | undefined {
+  if (psnrA === undefined || psnrA === null || Number.isNaN(psnrA)) return undefined;
+  if (psnrB === undefined || psnrB === null || Number.isNaN(psnrB)) return undefined;
+  if (psnrA === psnrB) return 0;
+  return psnrA - psnrB;
+}
+
+/** A's metrics, each carrying the delta to B where B measured the same image. */
+export function buildSplatPsnrDeltaMetrics(
+  metricsA: ReadonlyMap<ImageId, SplatComparisonMetricEntry>,
+  metricsB: ReadonlyMap<ImageId, Pick<SplatComparisonMetricEntry, 'psnr'>>
+): Map<ImageId, SplatPsnrDeltaEntry> {
+  const merged = new Map<ImageId, SplatPsnrDeltaEntry>();
+  for (const [imageId, metric] of metricsA) {
+    const psnrDelta = getSplatPsnrDelta(metric.psnr, metricsB.get(imageId)?.psnr);
+    merged.set(imageId, psnrDelta === undefined
+      ? { psnr: metric.psnr, ssim: metric.ssim }
+      : { psnr: metric.psnr, ssim: metric.ssim, psnrDelta });
+  }
+  return merged;
+}
+
+export function summarizeSplatPsnrDelta(
+  metrics: ReadonlyMap<ImageId, SplatPsnrDeltaEntry>
+): SplatPsnrDeltaSummary {
+  let comparedCount = 0;
+  let aBetterCount = 0;
+  let bBetterCount = 0;
+  let finiteSum = 0;
+  let finiteCount = 0;
+
+  for (const { psnrDelta } of metrics.values()) {
+    if (psnrDelta === undefined) continue;
+    comparedCount++;
+    if (psnrDelta > 0) aBetterCount++;
+    if (psnrDelta < 0) bBetterCount++;
+    if (Number.isFinite(psnrDelta)) {
+      finiteSum += psnrDelta;
+      finiteCount++;
+    }
+  }
+
+  return {
+    comparedCount,
+    meanDelta: finiteCount > 0 ? finiteSum / finiteCount : null,
+    aBetterCount,
+    bBetterCount,
+  };
+}
+
+/** Sources that can be compared against the active one. */
+export function getSplatComparisonCandidates(
+  sources: readonly SplatFileSource[],
+  activeSourceId: string | null
+): SplatFileSource[] {
+  return sources.filter((source) => source.id !== activeSourceId && Boolean(source.file || source.url));
+}
@@ -4,12 +4,16 @@ import {
   getPreferredSplatCandidate,
   getSplatFileExtension,
   isSplatFilePath,
+  sortSplatCandidatesByPreference,
 } from './splatFilePolicy';
 
 describe('splat file policy', () => {
   it('detects supported splat file extensions case-insensitively', () => {
     expect(getSplatFileExtension('scene.SPZ')).toBe('.spz');
     expect(getSplatFileExtension('scene.ply')).toBe('.ply');
+    expect(getSplatFileExtension('scene.splat')).toBe('.splat');
+    expect(getSplatFileExtension('scene.KSPLAT')).toBe('.ksplat');
+    expect(getSplatFileExtension('scene.rad')).toBe('.rad');
     expect(getSplatFileExtension('points3D.bin')).toBeNull();
     expect(isSplatFilePath('folder/model.spz')).toBe(true);
     expect(isSplatFilePath('folder/model.txt')).toBe(false);
@@ -32,4 +36,12 @@ describe('splat file policy', () => {
       smallPly,
     ].reduce(getPreferredSplatCandidate)).toBe(largeSpz);
   });
+
+  it('ranks the compact formats between SPZ and PLY', () => {
+    const candidates = ['scene.ply', 'scene.splat', 'scene.ksplat', 'scene.rad', 'scene.spz']
+      .map((path) => ({ path, size: 1 }));
+
+    expect(sortSplatCandidatesByPreference(candidates).map(({ path }) => path))
+      .toEqual(['scene.spz', 'scene.rad', 'scene.ksplat', 'scene.splat', 'scene.ply']);
+  });
 });
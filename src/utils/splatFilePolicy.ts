@@ -1,9 +1,14 @@
-export const SPLAT_FILE_EXTENSIONS = ['.spz', '.ply'] as const;
+export const SPLAT_FILE_EXTENSIONS = ['.spz', '.ply', '.splat', '.ksplat', '.rad'] as const;
 
 export type SplatFileExtension = typeof SPLAT_FILE_EXTENSIONS[number];
 
+// Compact formats first; PLY is the last resort because it is the largest
+// encoding of the same scene.
 const SPLAT_EXTENSION_PRIORITY: Record<SplatFileExtension, number> = {
-  '.spz': 2,
+  '.spz': 5,
+  '.rad': 4,
+  '.ksplat': 3,
+  '.splat': 2,
   '.ply': 1,
 };
 
@@ -11,6 +11,7 @@ import {
   isByteLessActiveSplatFile,
   loadedFilesHaveSplatData,
   mergeRemoteSplatCatalog,
+  replaceActiveSplatFile,
 } from './splatFileSourcePolicy';
 
 function loaded(partial: Partial<LoadedFiles>): LoadedFiles {
@@ -169,6 +170,30 @@ describe('applyActiveSplatFile (activate + offload previous)', () => {
   });
 });
 
+describe('replaceActiveSplatFile (edited copy)', () => {
+  it('swaps the active file in place and keeps the source id active', () => {
+    const original = new File(['a'], 'a.ply');
+    const other = new File(['b'], 'b.ply');
+    const edited = new File(['e'], 'a-edited.spz');
+    const lf = loaded({
+      splatFile: original,
+      splatFiles: [original, other],
+      splatFileSources: [
+        { id: 'a', path: 'a.ply', url: 'u/a', file: original },
+        { id: 'b', path: 'b.ply', file: other },
+      ],
+    });
+
+    const next = replaceActiveSplatFile(lf, edited);
+
+    expect(next.splatFile).toBe(edited);
+    expect(next.splatFiles).toEqual([edited, other]);
+    expect(next.splatFileSources?.find((s) => s.id === 'a')?.file).toBe(edited);
+    expect(next.splatFileSources?.find((s) => s.id === 'b')?.file).toBe(other);
+    expect(getActiveSplatSourceId(next)).toBe('a');
+  });
+});
+
 describe('applyActiveSplatPlaceholder (byte-less activation)', () => {
   it('activates the placeholder while the source keeps no bytes (stays re-fetchable)', () => {
     const placeholder = new File([], 'big.ply');
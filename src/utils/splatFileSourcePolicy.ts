@@ -62,6 +62,28 @@ export function applyActiveSplatFile(
   return { ...loadedFiles, splatFileSources: sources, splatFile: file, splatFiles };
 }
 
+/**
+ * Swap the bytes behind the active splat for another file (an edited copy)
+ * without switching sources: the source holding the active file keeps its id
+ * and now holds `file`, and `splatFiles` lists `file` in place of the old one.
+ */
+export function replaceActiveSplatFile(loadedFiles: LoadedFiles, file: File): LoadedFiles {
+  const previousActiveFile = loadedFiles.splatFile;
+
+  return {
+    ...loadedFiles,
+    ...(loadedFiles.splatFileSources && {
+      splatFileSources: loadedFiles.splatFileSources.map((source) =>
+        source.file && source.file === previousActiveFile ? { ...source, file } : source
+      ),
+    }),
+    ...(loadedFiles.splatFiles && {
+      splatFiles: loadedFiles.splatFiles.map((candidate) => (candidate === previousActiveFile ? file : candidate)),
+    }),
+    splatFile: file,
+  };
+}
+
 /**
  * Byte-less activation (oversized tile on WebGPU-capable touch): make
  * `sourceId` the active splat via a zero-byte placeholder File. Unlike
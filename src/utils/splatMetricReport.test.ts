@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatPsnrMetric } from '../store';
+import { buildCamera, buildImage, buildReconstruction } from '../test/builders';
+import { buildSplatMetricReport } from './splatMetricReport';
+
+function buildMetric(imageId: number, psnr: number, overrides: Partial<SplatPsnrMetric> = {}): SplatPsnrMetric {
+  return {
+    imageId,
+    psnr,
+    ssim: 0.9,
+    mse: 0.001,
+    validPixelCount: 75,
+    width: 10,
+    height: 10,
+    computedAt: 0,
+    ...overrides,
+  };
+}
+
+const reconstruction = buildReconstruction({
+  cameras: [buildCamera()],
+  images: [
+    buildImage({ imageId: 1, name: 'c.jpg' }),
+    buildImage({ imageId: 2, name: 'a.jpg' }),
+    buildImage({ imageId: 3, name: 'b.jpg' }),
+    buildImage({ imageId: 4, name: 'd.jpg' }),
+  ],
+});
+
+describe('splatMetricReport', () => {
+  it('lists measured images by name with camera, coverage and resolution', () => {
+    const report = buildSplatMetricReport({
+      reconstruction,
+      metrics: new Map([[1, buildMetric(1, 30)], [2, buildMetric(2, 24, { ssim: undefined })]]),
+      errors: new Map(),
+      splatSourceId: 'tiles/0.spz',
+    });
+
+    expect(report.rows.map((row) => row.name)).toEqual(['a.jpg', 'c.jpg']);
+    expect(report.rows[1]).toEqual({
+      imageId: 1,
+      name: 'c.jpg',
+      cameraId: 1,
+      cameraModel: 'PINHOLE',
+      psnr: 30,
+      ssim: 0.9,
+      mse: 0.001,
+      maskCoverage: 0.75,
+      renderWidth: 10,
+      renderHeight: 10,
+      splatSourceId: 'tiles/0.spz',
+    });
+    expect(report.rows[0].ssim).toBeNull();
+  });
+
+  it('summarizes finite values, counts failures and ranks the worst images', () => {
+    const report = buildSplatMetricReport({
+      reconstruction,
+      metrics: new Map([
+        [1, buildMetric(1, 30, { ssim: 0.8 })],
+        [2, buildMetric(2, 20, { ssim: 0.6 })],
+        [3, buildMetric(3, Infinity, { ssim: 1, validPixelCount: 100 })],
+      ]),
+      errors: new Map([[4, 'Missing image file']]),
+      splatSourceId: null,
+      worstCount: 2,
+    });
+
+    expect(report.summary).toEqual({
+      imageCount: 4,
+      measuredCount: 3,
+      errorCount: 1,
+      psnr: { mean: 25, median: 25, min: 20, max: 30 },
+      ssim: { mean: expect.closeTo(0.8), median: 0.8, min: 0.6, max: 1 },
+      meanMaskCoverage: (0.75 + 0.75 + 1) / 3,
+    });
+    expect(report.worst.map((row) => row.imageId)).toEqual([2, 1]);
+    expect(report.errors).toEqual([{ imageId: 4, name: 'd.jpg', message: 'Missing image file' }]);
+  });
+
+  it('leaves statistics empty before anything is measured', () => {
+    const report = buildSplatMetricReport({
+      reconstruction,
+      metrics: new Map(),
+      errors: new Map(),
+      splatSourceId: null,
+    });
+
+    expect(report.rows).toEqual([]);
+    expect(report.summary).toMatchObject({ measuredCount: 0, psnr: null, ssim: null, meanMaskCoverage: null });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Per-image splat PSNR/SSIM report over the training views, built from the
+ * metrics the evaluator already stored, with summary statistics and the
+ * worst-scoring images so two splat trainings can be compared side by side.
+ */
+
+import type { SplatPsnrMetric } from '../store/stores/imageMetricsStore';
+import type { ImageId, Reconstruction } from '../types/colmap';
+import { getCameraModelColmapName } from './cameraModelPolicy';
+import { median } from './mathUtils';
+
+export const SPLAT_METRIC_REPORT_WORST_COUNT = 10;
+
+export interface SplatMetricReportRow {
+  imageId: ImageId;
+  name: string;
+  cameraId: number;
+  cameraModel: string;
+  /** Infinite for a pixel-exact render. */
+  psnr: number;
+  ssim: number | null;
+  mse: number;
+  /** Fraction of rendered pixels the metric counted (mask and ground-truth alpha). */
+  maskCoverage: number;
+  renderWidth: number;
+  renderHeight: number;
+  splatSourceId: string | null;
+}
+
+export interface SplatMetricStatSummary {
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+}
+
+export interface SplatMetricReportSummary {
+  imageCount: number;
+  measuredCount: number;
+  errorCount: number;
+  /** Over finite PSNR values; null when nothing was measured. */
+  psnr: SplatMetricStatSummary | null;
+  ssim: SplatMetricStatSummary | null;
+  meanMaskCoverage: number | null;
+}
+
+export interface SplatMetricReport {
+  splatSourceId: string | null;
+  rows: SplatMetricReportRow[];
+  summary: SplatMetricReportSummary;
+  /** Lowest-PSNR images first. */
+  worst: SplatMetricReportRow[];
+  /** Images whose metric failed, with the evaluator's message. */
+  errors: { imageId: ImageId; name: string; message: string }[];
+}
+
+export interface SplatMetricReportInput {
+  reconstruction: Pick<Reconstruction, 'cameras' | 'images'>;
+  metrics: ReadonlyMap<ImageId, SplatPsnrMetric>;
+  errors: ReadonlyMap<ImageId, string>;
+  splatSourceId: string | null;
+  worstCount?: number;
+}
+
+function summarize(values: readonly number[]): SplatMetricStatSummary | null {
+  if (values.length === 0) return null;
+  return {
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    median: median([...values]),
+    // Reduced rather than spread: large image sets exceed the argument limit.
+    min: values.reduce((min, value) => Math.min(min, value), Infinity),
+    max: values.reduce((max, value) => Math.max(max, value), -Infinity),
+  };
+}
+
+/** Rows in image-name order; images without a metric are left out and counted. */
+export function buildSplatMetricReport({
+  reconstruction,
+  metrics,
+  errors,
+  splatSourceId,
+  worstCount = SPLAT_METRIC_REPORT_WORST_COUNT,
+}: SplatMetricReportInput): SplatMetricReport {
+  const rows: SplatMetricReportRow[] = [];
+  const errorRows: SplatMetricReport['errors'] = [];
+
+  for (const image of reconstruction.images.values()) {
+    const metric = metrics.get(image.imageId);
+    if (!metric) {
+      const message = errors.get(image.imageId);
+      if (message !== undefined) errorRows.push({ imageId: image.imageId, name: image.name, message });
+      continue;
+    }
+    const camera = reconstruction.cameras.get(image.cameraId);
+    const pixelCount = metric.width * metric.height;
+    rows.push({
+      imageId: image.imageId,
+      name: image.name,
+      cameraId: image.cameraId,
+      cameraModel: camera ? getCameraModelColmapName(camera.modelId) : '',
+      psnr: metric.psnr,
+      ssim: metric.ssim ?? null,
+      mse: metric.mse,
+      maskCoverage: pixelCount > 0 ? metric.validPixelCount / pixelCount : 0,
+      renderWidth: metric.width,
+      renderHeight: metric.height,
+      splatSourceId,
+    });
+  }
+
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  rows.sort(byName);
+  errorRows.sort(byName);
+  const ssimValues = rows.flatMap((row) => (row.ssim !== null && Number.isFinite(row.ssim) ? [row.ssim] : []));
+
+  return {
+    splatSourceId,
+    rows,
+    summary: {
+      imageCount: reconstruction.images.size,
+      measuredCount: rows.length,
+      errorCount: errorRows.length,
+      psnr: summarize(rows.flatMap((row) => (Number.isFinite(row.psnr) ? [row.psnr] : []))),
+      ssim: summarize(ssimValues),
+      meanMaskCoverage: rows.length > 0
+        ? rows.reduce((sum, row) => sum + row.maskCoverage, 0) / rows.length
+        : null,
+    },
+    worst: [...rows].sort((a, b) => a.psnr - b.psnr || byName(a, b)).slice(0, Math.max(0, worstCount)),
+    errors: errorRows,
+  };
+}
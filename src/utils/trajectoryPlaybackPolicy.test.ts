@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { Image, Reconstruction } from '../types/colmap';
+import { SensorType, type Frame } from '../types/rig';
+import {
+  getTrajectoryImageIds,
+  getTrajectoryImageIndex,
+  getTrajectoryRawPosition,
+  hasTrajectoryFrameIds,
+  interpolateTrajectoryPose,
+  normalizeTrajectoryPosition,
+  type TrajectoryPose,
+} from './trajectoryPlaybackPolicy';
+
+function makeReconstruction(
+  names: Record<number, string>,
+  frames: Frame[] = []
+): Pick<Reconstruction, 'images' | 'rigData'> {
+  const images = new Map(Object.entries(names).map(([id, name]) => [
+    Number(id),
+    { imageId: Number(id), name } as Image,
+  ]));
+  return {
+    images,
+    rigData: frames.length > 0
+      ? { rigs: new Map(), frames: new Map(frames.map((frame) => [frame.frameId, frame])) }
+      : undefined,
+  };
+}
+
+function makeFrame(frameId: number, imageIds: number[]): Frame {
+  return {
+    frameId,
+    rigId: 1,
+    rigFromWorld: { qvec: [1, 0, 0, 0], tvec: [0, 0, 0] },
+    dataIds: imageIds.map((dataId) => ({ sensorId: { type: SensorType.CAMERA, id: 1 }, dataId })),
+  };
+}
+
+function poseAt(imageId: number, x: number, fovY: number | null): TrajectoryPose {
+  return { imageId, position: [x, 0, 0], quaternion: [0, 0, 0, 1], target: [x, 0, -1], distance: 1, fovY };
+}
+
+describe('trajectoryPlaybackPolicy', () => {
+  it('advances the clock only while playing', () => {
+    const clock = { status: 'playing' as const, position: 2, startTime: 1000, speed: 4 };
+    expect(getTrajectoryRawPosition(clock, 1500)).toBe(4);
+    expect(getTrajectoryRawPosition({ ...clock, status: 'paused' }, 1500)).toBe(2);
+  });
+
+  it('wraps looping trajectories and holds one-shot trajectories on the last image', () => {
+    expect(normalizeTrajectoryPosition(5.5, 5, true)).toEqual({ position: 1.5, finished: false });
+    expect(normalizeTrajectoryPosition(5.5, 5, false)).toEqual({ position: 4, finished: true });
+    expect(normalizeTrajectoryPosition(2, 5, false)).toEqual({ position: 2, finished: false });
+    expect(normalizeTrajectoryPosition(3, 1, true)).toEqual({ position: 0, finished: false });
+  });
+
+  it('rounds positions to the nearest image', () => {
+    expect(getTrajectoryImageIndex(1.4, 5)).toBe(1);
+    expect(getTrajectoryImageIndex(1.6, 5)).toBe(2);
+    expect(getTrajectoryImageIndex(9, 5)).toBe(4);
+  });
+
+  it('orders images by name or by rig frame', () => {
+    const reconstruction = makeReconstruction(
+      { 1: 'c.jpg', 2: 'a.jpg', 3: 'b.jpg', 4: 'd.jpg' },
+      [makeFrame(20, [2]), makeFrame(10, [1, 4])]
+    );
+
+    expect(hasTrajectoryFrameIds(reconstruction)).toBe(true);
+    expect(getTrajectoryImageIds(reconstruction, 'name')).toEqual([2, 3, 1, 4]);
+    expect(getTrajectoryImageIds(reconstruction, 'frameId')).toEqual([1, 4, 2, 3]);
+    expect(hasTrajectoryFrameIds(makeReconstruction({ 1: 'a.jpg' }))).toBe(false);
+  });
+
+  it('interpolates poses and FOVs between consecutive images', () => {
+    const poses = [poseAt(1, 0, 40), poseAt(2, 2, 60), poseAt(3, 4, null)];
+
+    const between = interpolateTrajectoryPose(poses, 0.75);
+    expect(between?.imageId).toBe(2);
+    expect(between?.position[0]).toBeCloseTo(1.5);
+    expect(between?.fovY).toBeCloseTo(55);
+
+    expect(interpolateTrajectoryPose(poses, 1.25)?.fovY).toBe(60);
+    expect(interpolateTrajectoryPose(poses, 2)?.imageId).toBe(3);
+    expect(interpolateTrajectoryPose([poses[0]], 0.5)).toBe(poses[0]);
+    expect(interpolateTrajectoryPose([], 0)).toBeNull();
+  });
+});
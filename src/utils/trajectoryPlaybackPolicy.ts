@@ -0,0 +1,140 @@
+/**
+ * Trajectory playback: steps the viewer through the registered image poses in
+ * capture order, interpolating between consecutive images. Positions are in
+ * image-index units, so 2.5 lies halfway between the third and fourth image.
+ */
+
+import * as THREE from 'three';
+import type { CameraViewState, TrajectoryOrder } from '../store/types';
+import type { ImageId, Reconstruction } from '../types/colmap';
+import { SensorType } from '../types/rig';
+
+export type TrajectoryPlaybackStatus = 'stopped' | 'playing' | 'paused';
+
+export interface TrajectoryPlaybackClock {
+  status: TrajectoryPlaybackStatus;
+  /** Position when playback last started, paused or was moved. */
+  position: number;
+  /** performance.now() when playback last started. */
+  startTime: number;
+  /** Images per second. */
+  speed: number;
+}
+
+/** A viewer pose at an image, with the vertical FOV of its camera (null for spherical cameras). */
+export interface TrajectoryPose extends CameraViewState {
+  imageId: ImageId;
+  fovY: number | null;
+}
+
+export const TRAJECTORY_MIN_SPEED = 0.5;
+export const TRAJECTORY_MAX_SPEED = 60;
+
+/** Position the clock has reached, before wrapping or clamping to the trajectory. */
+export function getTrajectoryRawPosition(clock: TrajectoryPlaybackClock, now: number): number {
+  if (clock.status !== 'playing') return clock.position;
+  return clock.position + Math.max(0, now - clock.startTime) / 1000 * clock.speed;
+}
+
+/**
+ * Wraps a looping trajectory back to the first image after the last one, or
+ * holds a one-shot trajectory on its last image and reports it finished.
+ */
+export function normalizeTrajectoryPosition(
+  rawPosition: number,
+  imageCount: number,
+  loop: boolean
+): { position: number; finished: boolean } {
+  const end = Math.max(0, imageCount - 1);
+  if (end === 0) return { position: 0, finished: !loop };
+  if (loop) {
+    const wrapped = rawPosition % end;
+    return { position: wrapped < 0 ? wrapped + end : wrapped, finished: false };
+  }
+  if (rawPosition >= end) return { position: end, finished: true };
+  return { position: Math.max(0, rawPosition), finished: false };
+}
+
+export function getTrajectoryImageIndex(position: number, imageCount: number): number {
+  return Math.min(Math.max(0, imageCount - 1), Math.max(0, Math.round(position)));
+}
+
+function getImageFrameIds(reconstruction: Pick<Reconstruction, 'rigData'>): Map<ImageId, number> {
+  const frameIds = new Map<ImageId, number>();
+  for (const frame of reconstruction.rigData?.frames.values() ?? []) {
+    for (const { sensorId, dataId } of frame.dataIds) {
+      if (sensorId.type === SensorType.CAMERA) frameIds.set(dataId, frame.frameId);
+    }
+  }
+  return frameIds;
+}
+
+export function hasTrajectoryFrameIds(reconstruction: Pick<Reconstruction, 'rigData'>): boolean {
+  return (reconstruction.rigData?.frames.size ?? 0) > 0;
+}
+
+/**
+ * Registered images in playback order. Frame order falls back to names for
+ * images outside any rig frame and between the cameras of one frame.
+ */
+export function getTrajectoryImageIds(
+  reconstruction: Pick<Reconstruction, 'images' | 'rigData'>,
+  order: TrajectoryOrder
+): ImageId[] {
+  const images = Array.from(reconstruction.images.values());
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  if (order === 'frameId') {
+    const frameIds = getImageFrameIds(reconstruction);
+    images.sort((a, b) => (
+      (frameIds.get(a.imageId) ?? Infinity) - (frameIds.get(b.imageId) ?? Infinity) || byName(a, b)
+    ));
+  } else {
+    images.sort(byName);
+  }
+  return images.map((image) => image.imageId);
+}
+
+const fromQuaternion = new THREE.Quaternion();
+const toQuaternion = new THREE.Quaternion();
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function lerpVec3(
+  a: readonly [number, number, number],
+  b: readonly [number, number, number],
+  t: number
+): [number, number, number] {
+  return [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)];
+}
+
+/**
+ * Pose between the two images around `position`: positions, targets and
+ * orbit distances are lerped, rotations slerped and FOVs lerped.
+ */
+export function interpolateTrajectoryPose(poses: readonly TrajectoryPose[], position: number): TrajectoryPose | null {
+  if (poses.length === 0) return null;
+  const clamped = Math.min(poses.length - 1, Math.max(0, position));
+  const index = Math.min(poses.length - 2, Math.floor(clamped));
+  if (index < 0) return poses[0];
+
+  const start = poses[index];
+  const end = poses[index + 1];
+  const t = clamped - index;
+  fromQuaternion.fromArray(start.quaternion);
+  toQuaternion.fromArray(end.quaternion);
+  fromQuaternion.slerp(toQuaternion, t);
+  const fovY = start.fovY !== null && end.fovY !== null
+    ? lerp(start.fovY, end.fovY, t)
+    : (t < 0.5 ? start.fovY : end.fovY);
+
+  return {
+    imageId: t < 0.5 ? start.imageId : end.imageId,
+    position: lerpVec3(start.position, end.position, t),
+    quaternion: [fromQuaternion.x, fromQuaternion.y, fromQuaternion.z, fromQuaternion.w],
+    target: lerpVec3(start.target, end.target, t),
+    distance: lerp(start.distance, end.distance, t),
+    fovY,
+  };
+}